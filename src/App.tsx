@@ -3,6 +3,7 @@ import React from 'react';
 import { ErrorBoundary } from '@/components/common/ErrorBoundary';
 import { Loading } from '@/components/common/Loading';
 import { ToastContainer } from '@/components/common/Toast';
+import { FileRepairPrompt } from '@/components/input/FileRepairPrompt';
 import { Layout } from '@/components/layout/Layout';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { useToast } from '@/hooks/useToast';
@@ -56,6 +57,7 @@ function App() {
   return (
     <>
       {content}
+      <FileRepairPrompt />
       <ToastContainer toasts={toasts} onRemove={removeToast} />
     </>
   );
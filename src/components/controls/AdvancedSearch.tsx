@@ -1,6 +1,7 @@
 import { Filter, Plus, X } from 'lucide-react';
 
 import { useSearchFilters } from '../../hooks/useSearchFilters';
+import { findJmesPathSyntaxError } from '../../lib/jmespath';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 
@@ -11,8 +12,22 @@ interface AdvancedSearchProps {
   onClose: () => void;
 }
 
+const JMESPATH_EXAMPLES = [
+  { expression: 'Reservations[].Instances[].InstanceId', description: 'Flatten nested lists and pick a field' },
+  { expression: "items[?status == 'active'].name", description: 'Filter a list by condition' },
+  { expression: 'items[].{id: id, owner: owner.name}', description: 'Reshape each item with a multiselect hash' },
+  { expression: 'sort_by(items, &price)[-3:].name', description: 'Sort by a key and take the last 3' },
+  { expression: 'length(items[?contains(tags, `"urgent"`)])', description: 'Count with functions and JSON literals' },
+  { expression: 'users | max_by(@, &age).name', description: 'Pipe into a function' },
+];
+
 export const AdvancedSearch: React.FC<AdvancedSearchProps> = ({ isOpen, onClose }) => {
   const {
+    mode,
+    setMode,
+    expression,
+    setExpression,
+    applyExpression,
     filters,
     addFilter,
     removeFilter,
@@ -25,6 +40,8 @@ export const AdvancedSearch: React.FC<AdvancedSearchProps> = ({ isOpen, onClose
     return null;
   }
 
+  const expressionError = mode === 'jmespath' && expression.trim() ? findJmesPathSyntaxError(expression) : null;
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
       <div 
@@ -58,51 +75,125 @@ export const AdvancedSearch: React.FC<AdvancedSearchProps> = ({ isOpen, onClose
         </CardHeader>
         
         <CardContent className="space-y-4">
-          <div className="space-y-3">
-            {filters.map((filter, index) => (
-              <SearchFilterRow
-                key={index}
-                filter={filter}
-                index={index}
-                onUpdate={updateFilter}
-                onRemove={removeFilter}
-                canRemove={filters.length > 1}
-              />
-            ))}
-          </div>
-          
-          <div className="flex gap-2">
+          <div className="flex rounded-md border p-1" role="group" aria-label="Search mode">
             <Button
-              variant="outline"
-              onClick={addFilter}
+              variant={mode === 'filters' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setMode('filters')}
               className="flex-1"
             >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Filter
+              Filters
+            </Button>
+            <Button
+              variant={mode === 'jmespath' ? 'default' : 'ghost'}
+              size="sm"
+              onClick={() => setMode('jmespath')}
+              className="flex-1"
+            >
+              JMESPath
             </Button>
           </div>
 
-          <div className="border-t pt-4">
-            <div className="text-sm text-muted-foreground mb-3">
-              <strong>Search Tips:</strong>
-              <ul className="list-disc list-inside mt-2 space-y-1">
-                <li><strong>Simple:</strong> Use &quot;Contains&quot; for partial text matches</li>
-                <li><strong>Regex:</strong> Use regular expressions (e.g., <code className="text-xs bg-muted px-1 rounded">^\d{3}-\d{4}$</code> for phone numbers)</li>
-                <li><strong>Fuzzy:</strong> Find approximate matches (typo-tolerant)</li>
-                <li><strong>JSONPath Examples:</strong></li>
-                <li className="ml-4"><code className="text-xs bg-muted px-1 rounded">$.store.book[*].author</code> - All book authors</li>
-                <li className="ml-4"><code className="text-xs bg-muted px-1 rounded">$..price</code> - All prices at any depth</li>
-                <li className="ml-4"><code className="text-xs bg-muted px-1 rounded">$.items[0:5]</code> - First 5 items</li>
-                <li className="ml-4"><code className="text-xs bg-muted px-1 rounded">$.users[?(@.age &gt; 21)]</code> - Filter by condition</li>
-                <li><strong>Type Filter:</strong> Search by data type (string, number, boolean, object, array, null)</li>
-              </ul>
-            </div>
-          </div>
+          {mode === 'jmespath' ? (
+            <>
+              <div className="space-y-1">
+                <input
+                  type="text"
+                  value={expression}
+                  onChange={(e) => setExpression(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !expressionError) applyExpression();
+                  }}
+                  placeholder="Reservations[].Instances[].InstanceId"
+                  spellCheck={false}
+                  aria-label="JMESPath expression"
+                  aria-invalid={expressionError ? true : undefined}
+                  className={`w-full rounded border px-3 py-2 text-sm font-mono ${expressionError ? 'border-destructive' : 'border-input'}`}
+                />
+                {expressionError && (
+                  <p className="text-xs text-destructive">
+                    {expressionError.message} (at offset {expressionError.offset})
+                  </p>
+                )}
+              </div>
+
+              <div className="border-t pt-4">
+                <div className="text-sm text-muted-foreground mb-3">
+                  <strong>JMESPath Examples:</strong> the result replaces the document in every view until you dismiss it
+                  <ul className="mt-2 space-y-1">
+                    {JMESPATH_EXAMPLES.map(({ expression: example, description }) => (
+                      <li key={example}>
+                        <button
+                          type="button"
+                          onClick={() => setExpression(example)}
+                          className="text-xs bg-muted px-1 rounded font-mono hover:bg-accent"
+                        >
+                          {example}
+                        </button>
+                        {' '}- {description}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="space-y-3">
+                {filters.map((filter, index) => (
+                  <SearchFilterRow
+                    key={index}
+                    filter={filter}
+                    index={index}
+                    onUpdate={updateFilter}
+                    onRemove={removeFilter}
+                    canRemove={filters.length > 1}
+                  />
+                ))}
+              </div>
+            
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={addFilter}
+                  className="flex-1"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Filter
+                </Button>
+              </div>
+
+              <div className="border-t pt-4">
+                <div className="text-sm text-muted-foreground mb-3">
+                  <strong>Search Tips:</strong>
+                  <ul className="list-disc list-inside mt-2 space-y-1">
+                    <li><strong>Simple:</strong> Use &quot;Contains&quot; for partial text matches</li>
+                    <li><strong>Regex:</strong> Use regular expressions (e.g., <code className="text-xs bg-muted px-1 rounded">^\d{3}-\d{4}$</code> for phone numbers)</li>
+                    <li><strong>Fuzzy:</strong> Find approximate matches (typo-tolerant)</li>
+                    <li><strong>JSONPath Examples:</strong></li>
+                    <li className="ml-4"><code className="text-xs bg-muted px-1 rounded">$.store.book[*].author</code> - All book authors</li>
+                    <li className="ml-4"><code className="text-xs bg-muted px-1 rounded">$..price</code> - All prices at any depth</li>
+                    <li className="ml-4"><code className="text-xs bg-muted px-1 rounded">$.items[0:5]</code> - First 5 items</li>
+                    <li className="ml-4"><code className="text-xs bg-muted px-1 rounded">$.users[?@.age &gt; 21 &amp;&amp; @.active]</code> - Filter by condition</li>
+                    <li className="ml-4"><code className="text-xs bg-muted px-1 rounded">$.items[-3:]</code>, <code className="text-xs bg-muted px-1 rounded">$.items[::-1]</code> - Last 3 items; all items in reverse</li>
+                    <li className="ml-4"><code className="text-xs bg-muted px-1 rounded">$..book[?match(@.isbn, &apos;0-.*&apos;)]</code> - Filter functions: length, count, match, search, value</li>
+                    <li><strong>Type Filter:</strong> Search by data type (string, number, boolean, object, array, null)</li>
+                  </ul>
+                </div>
+              </div>
+            </>
+          )}
 
           <div className="flex gap-3 pt-4 border-t">
-            <Button onClick={applyFilters} className="flex-1">
-              Apply Filters
-            </Button>
+            {mode === 'jmespath' ? (
+              <Button onClick={applyExpression} className="flex-1" disabled={!expression.trim() || expressionError !== null}>
+                Run Expression
+              </Button>
+            ) : (
+              <Button onClick={applyFilters} className="flex-1">
+                Apply Filters
+              </Button>
+            )}
             <Button variant="outline" onClick={clearFilters}>
               Clear All
             </Button>
@@ -0,0 +1,152 @@
+import { AlertCircle, Code, Copy, Download, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { useToast } from '../../hooks/useToast';
+import { CODE_LANGUAGES, CodeLanguage, generateCode } from '../../lib/code-generator';
+import { exportGeneratedCode } from '../../lib/export-complete';
+import { getValueAtPath } from '../../lib/json-search';
+import { copyToClipboard } from '../../lib/utils';
+import { useJsonStore } from '../../stores/json-store';
+import { Button } from '../ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+
+interface CodeGenPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClasses = 'rounded border border-input bg-background px-2 py-1 text-sm';
+
+export const CodeGenPanel: React.FC<CodeGenPanelProps> = ({ isOpen, onClose }) => {
+  const { data } = useJsonStore();
+  const { showToast } = useToast();
+  const [language, setLanguage] = useState<CodeLanguage>('typescript');
+  const [rootName, setRootName] = useState('Root');
+  const [subtreePath, setSubtreePath] = useState('');
+
+  const generated = useMemo(() => {
+    if (!isOpen || data === null) return null;
+
+    const source = subtreePath.trim() ? getValueAtPath(data, subtreePath.trim()) : data;
+    if (source === undefined) {
+      return { code: '', error: `No value at path "${subtreePath.trim()}"` };
+    }
+    return { code: generateCode(source, { language, rootName }), error: null };
+  }, [isOpen, data, subtreePath, language, rootName]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleCopy = async () => {
+    if (!generated?.code) return;
+    try {
+      await copyToClipboard(generated.code);
+      showToast({ title: 'Copied to clipboard', variant: 'success' });
+    } catch {
+      showToast({ title: 'Copy failed', variant: 'error' });
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!generated?.code) return;
+    const extension = CODE_LANGUAGES.find((entry) => entry.id === language)?.extension ?? 'txt';
+    const result = await exportGeneratedCode(generated.code, { fileName: `${rootName.trim() || 'types'}.${extension}` });
+
+    showToast({
+      title: result.success ? 'Export successful' : 'Export failed',
+      description: result.success ? `Exported as ${result.fileName}` : result.error || 'Export failed',
+      variant: result.success ? 'success' : 'error',
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={onClose}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+        role="button"
+        tabIndex={0}
+        aria-label="Close dialog"
+      />
+
+      <Card className="relative w-full max-w-3xl max-h-[85vh] overflow-hidden flex flex-col">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Code className="h-5 w-5" />
+            Generate Code
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+
+        <CardContent className="space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap gap-2 border-b pb-4">
+            {CODE_LANGUAGES.map((entry) => (
+              <Button
+                key={entry.id}
+                variant={language === entry.id ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setLanguage(entry.id)}
+              >
+                {entry.label}
+              </Button>
+            ))}
+          </div>
+
+          {data === null ? (
+            <p className="text-sm text-muted-foreground">Load a JSON document to generate types from it.</p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <label className="flex items-center gap-1">
+                  <span className="text-muted-foreground">Type name:</span>
+                  <input
+                    value={rootName}
+                    onChange={(e) => setRootName(e.target.value)}
+                    className={`${inputClasses} w-32`}
+                  />
+                </label>
+                <label className="flex flex-1 items-center gap-1">
+                  <span className="text-muted-foreground">Subtree:</span>
+                  <input
+                    value={subtreePath}
+                    onChange={(e) => setSubtreePath(e.target.value)}
+                    placeholder="whole document, or a path like users[0].address"
+                    className={`${inputClasses} flex-1 font-mono`}
+                  />
+                </label>
+                <Button size="sm" variant="outline" onClick={handleCopy} disabled={!generated?.code}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Copy
+                </Button>
+                <Button size="sm" variant="outline" onClick={handleDownload} disabled={!generated?.code}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
+                </Button>
+              </div>
+
+              {generated?.error ? (
+                <div className="flex items-start text-sm text-destructive">
+                  <AlertCircle className="mr-1 mt-0.5 h-4 w-4 flex-shrink-0" />
+                  {generated.error}
+                </div>
+              ) : (
+                <pre className="max-h-[28rem] overflow-auto rounded border bg-muted p-2 font-mono text-xs">
+                  {generated?.code ?? ''}
+                </pre>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
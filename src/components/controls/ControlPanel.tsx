@@ -1,11 +1,18 @@
-import { RefreshCw, Settings, Shield, History } from 'lucide-react';
+import { RefreshCw, Settings, Shield, History, FileDiff, Code, Terminal, Workflow } from 'lucide-react';
 import React, { useState } from 'react';
 
 import { Button } from '@/components/ui/Button';
 import { useJsonStore } from '@/stores/json-store';
+import { useQueryStore } from '@/stores/query-store';
 
+import { CodeGenPanel } from './CodeGenPanel';
+import { DocumentTabs } from './DocumentTabs';
 import { ExportOptions } from './ExportOptions';
 import { HistoryPanel } from './HistoryPanel';
+import { PatchPanel } from './PatchPanel';
+import { PipelinePanel } from './PipelinePanel';
+import { QueryConsole } from './QueryConsole';
+import { QueryResultBar } from './QueryResultBar';
 import { SchemaValidatorComponent } from './SchemaValidator';
 import { SearchFilter } from './SearchFilter';
 import { SettingsPanel } from './SettingsPanel';
@@ -14,12 +21,17 @@ import { ViewSelector } from './ViewSelector';
 
 export const ControlPanel: React.FC = () => {
   const { clearData } = useJsonStore();
+  const { consoleOpen, openConsole, closeConsole } = useQueryStore();
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [schemaValidatorOpen, setSchemaValidatorOpen] = useState(false);
   const [historyOpen, setHistoryOpen] = useState(false);
+  const [patchOpen, setPatchOpen] = useState(false);
+  const [codeGenOpen, setCodeGenOpen] = useState(false);
+  const [pipelineOpen, setPipelineOpen] = useState(false);
 
   return (
     <div className="flex flex-col gap-4 p-4 border-b">
+      <DocumentTabs />
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
         <ViewSelector />
         
@@ -33,6 +45,15 @@ export const ControlPanel: React.FC = () => {
             <History className="h-4 w-4" />
           </Button>
           
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setPatchOpen(true)}
+            title="JSON Patch"
+          >
+            <FileDiff className="h-4 w-4" />
+          </Button>
+          
           <Button
             variant="outline"
             size="icon"
@@ -42,6 +63,33 @@ export const ControlPanel: React.FC = () => {
             <Shield className="h-4 w-4" />
           </Button>
           
+          <Button
+            variant={consoleOpen ? 'default' : 'outline'}
+            size="icon"
+            onClick={consoleOpen ? closeConsole : openConsole}
+            title="Query Console (jq, SQL)"
+          >
+            <Terminal className="h-4 w-4" />
+          </Button>
+          
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setPipelineOpen(true)}
+            title="Cleanup Pipeline"
+          >
+            <Workflow className="h-4 w-4" />
+          </Button>
+          
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => setCodeGenOpen(true)}
+            title="Generate Code"
+          >
+            <Code className="h-4 w-4" />
+          </Button>
+          
           <Button
             variant="outline"
             size="icon"
@@ -65,10 +113,15 @@ export const ControlPanel: React.FC = () => {
       </div>
       
       <SearchFilter />
+      <QueryConsole />
+      <QueryResultBar />
       
       <SettingsPanel isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
       <SchemaValidatorComponent isOpen={schemaValidatorOpen} onClose={() => setSchemaValidatorOpen(false)} />
       <HistoryPanel isOpen={historyOpen} onClose={() => setHistoryOpen(false)} />
+      <PatchPanel isOpen={patchOpen} onClose={() => setPatchOpen(false)} />
+      <CodeGenPanel isOpen={codeGenOpen} onClose={() => setCodeGenOpen(false)} />
+      <PipelinePanel isOpen={pipelineOpen} onClose={() => setPipelineOpen(false)} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { FileJson, X } from 'lucide-react';
+
+import { cn } from '../../lib/utils';
+import { useJsonStore } from '../../stores/json-store';
+import { Button } from '../ui/Button';
+
+/**
+ * Switches between documents open side by side, such as several files loaded
+ * from one zip archive. Shown only while more than one is open.
+ */
+export const DocumentTabs: React.FC = () => {
+  const { documents, activeDocumentId, switchDocument, closeDocument } = useJsonStore();
+
+  if (documents.length < 2) {
+    return null;
+  }
+
+  return (
+    <div role="tablist" aria-label="Open documents" className="flex flex-wrap items-center gap-1">
+      {documents.map((document) => {
+        const isActive = document.id === activeDocumentId;
+        return (
+          <div
+            key={document.id}
+            className={cn('flex items-center rounded-md border text-sm', isActive ? 'bg-accent font-medium' : 'bg-background text-muted-foreground')}
+          >
+            <button
+              type="button"
+              role="tab"
+              aria-selected={isActive}
+              onClick={() => switchDocument(document.id)}
+              className="flex max-w-[14rem] items-center gap-1.5 px-2 py-1"
+              title={document.name}
+            >
+              <FileJson className="h-3.5 w-3.5 flex-shrink-0" />
+              <span className="truncate">{document.name}</span>
+            </button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => closeDocument(document.id)}
+              className="mr-0.5 h-6 w-6"
+              aria-label={`Close ${document.name}`}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,10 +1,15 @@
-import { Download, FileJson, FileText, Image, FileCode, FileType, Code } from 'lucide-react';
+import { Binary, Download, FileJson, FileText, Image, FileCode, FileType, Code, List, MessageSquare } from 'lucide-react';
 import React, { useState } from 'react';
 
 import { useToast } from '../../hooks/useToast';
+import { BINARY_FORMAT_EXTENSIONS, BINARY_FORMAT_LABELS } from '../../lib/binary-formats';
+import { exportBinary, exportDialect, exportNDJSON } from '../../lib/export-complete';
 import { exportJSON, exportCSV, exportPNG, exportSVG, exportPDF, exportXML, exportYAML } from '../../lib/export-enhanced';
+import { DIALECT_EXTENSIONS, DIALECT_LABELS } from '../../lib/json-dialects';
 import { useJsonStore } from '../../stores/json-store';
+import { useSettingsStore } from '../../stores/settings-store';
 import { useUIStore } from '../../stores/ui-store';
+import { BinaryFormat, JsonDialect } from '../../types/json.types';
 import { Button } from '../ui/Button';
 import {
   DropdownMenu,
@@ -15,11 +20,13 @@ import {
 
 export const ExportOptions: React.FC = () => {
   const { data } = useJsonStore();
+  const comments = useJsonStore((state) => state.parsedData?.comments);
+  const xmlMapping = useSettingsStore((state) => state.xmlMapping);
   const { activeView } = useUIStore();
   const { showToast } = useToast();
   const [isExporting, setIsExporting] = useState(false);
 
-  const handleExport = async (format: 'json' | 'csv' | 'png' | 'svg' | 'pdf' | 'xml' | 'yaml') => {
+  const handleExport = async (format: 'json' | 'csv' | 'png' | 'svg' | 'pdf' | 'xml' | 'yaml' | 'ndjson' | JsonDialect | BinaryFormat) => {
     if (!data) return;
     
     setIsExporting(true);
@@ -80,6 +87,7 @@ export const ExportOptions: React.FC = () => {
         case 'xml':
           result = await exportXML(data, {
             fileName: `${fileName}.xml`,
+            xmlMapping,
           });
           break;
           
@@ -88,6 +96,28 @@ export const ExportOptions: React.FC = () => {
             fileName: `${fileName}.yaml`,
           });
           break;
+          
+        case 'ndjson':
+          result = await exportNDJSON(data, {
+            fileName: `${fileName}.ndjson`,
+          });
+          break;
+
+        case 'jsonc':
+        case 'json5':
+        case 'hjson':
+          result = await exportDialect(data, format, comments, {
+            fileName: `${fileName}.${DIALECT_EXTENSIONS[format]}`, // eslint-disable-line security/detect-object-injection
+          });
+          break;
+
+        case 'msgpack':
+        case 'cbor':
+        case 'bson':
+          result = await exportBinary(data, format, {
+            fileName: `${fileName}.${BINARY_FORMAT_EXTENSIONS[format]}`, // eslint-disable-line security/detect-object-injection
+          });
+          break;
       }
       
       if (result?.success) {
@@ -153,6 +183,22 @@ export const ExportOptions: React.FC = () => {
           <FileText className="mr-2 h-4 w-4" />
           Export as YAML
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('ndjson')}>
+          <List className="mr-2 h-4 w-4" />
+          Export as NDJSON
+        </DropdownMenuItem>
+        {(Object.entries(DIALECT_LABELS) as Array<[JsonDialect, string]>).map(([dialect, label]) => (
+          <DropdownMenuItem key={dialect} onClick={() => handleExport(dialect)}>
+            <MessageSquare className="mr-2 h-4 w-4" />
+            Export as {label}
+          </DropdownMenuItem>
+        ))}
+        {(Object.entries(BINARY_FORMAT_LABELS) as Array<[BinaryFormat, string]>).map(([format, label]) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            <Binary className="mr-2 h-4 w-4" />
+            Export as {label}
+          </DropdownMenuItem>
+        ))}
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -0,0 +1,235 @@
+import { AlertCircle, CheckCircle, Download, FileDiff, MinusCircle, X, XCircle } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { useToast } from '../../hooks/useToast';
+import { exportJsonPatch, exportMergePatch } from '../../lib/export-complete';
+import { stringifyEditedDocument } from '../../lib/json-dialects';
+import { parseJSON, stringifyJSON } from '../../lib/json-parser';
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  createJsonPatch,
+  createMergePatch,
+  JsonPatchOperation,
+  PatchApplyResult,
+} from '../../lib/json-patch';
+import { cn } from '../../lib/utils';
+import { useHistoryStore } from '../../stores/history-store';
+import { useJsonStore } from '../../stores/json-store';
+import { useSettingsStore } from '../../stores/settings-store';
+import { JsonValue } from '../../types/json.types';
+import { Button } from '../ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+
+interface PatchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type PatchFormat = 'json-patch' | 'merge-patch';
+
+const selectClasses = 'rounded border border-input bg-background px-2 py-1 text-sm';
+
+export const PatchPanel: React.FC<PatchPanelProps> = ({ isOpen, onClose }) => {
+  const { data, setJsonData } = useJsonStore();
+  const { entries, currentIndex } = useHistoryStore();
+  const { showToast } = useToast();
+  const losslessNumbers = useSettingsStore((state) => state.losslessNumbers);
+  const [tab, setTab] = useState<'generate' | 'apply'>('generate');
+  const [format, setFormat] = useState<PatchFormat>('json-patch');
+  const [baseEntryId, setBaseEntryId] = useState('');
+  const [patchText, setPatchText] = useState('');
+  const [applyResult, setApplyResult] = useState<PatchApplyResult | null>(null);
+
+  const baseEntry = entries.find((entry) => entry.id === baseEntryId)
+    ?? entries[currentIndex - 1]
+    ?? entries[0];
+
+  const generated = useMemo(() => {
+    if (!isOpen || data === null || !baseEntry) return null;
+    const patch = format === 'json-patch'
+      ? createJsonPatch(baseEntry.data, data) as unknown as JsonValue
+      : createMergePatch(baseEntry.data, data);
+    return { patch, text: stringifyJSON(patch) };
+  }, [isOpen, data, baseEntry, format]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleDownload = async () => {
+    if (generated === null) return;
+    const fileName = `patch-${new Date().toISOString().slice(0, 10)}`;
+    const result = format === 'json-patch'
+      ? await exportJsonPatch(generated.patch as unknown as JsonPatchOperation[], { fileName: `${fileName}.json-patch.json` })
+      : await exportMergePatch(generated.patch, { fileName: `${fileName}.merge-patch.json` });
+
+    showToast({
+      title: result.success ? 'Export successful' : 'Export failed',
+      description: result.success ? `Exported as ${result.fileName}` : result.error || 'Export failed',
+      variant: result.success ? 'success' : 'error',
+    });
+  };
+
+  const handleApply = () => {
+    if (data === null) return;
+
+    const parsed = parseJSON(patchText, { losslessNumbers });
+    if (!parsed.isValid || parsed.data === null) {
+      setApplyResult({ success: false, data: null, results: [], error: parsed.error || 'Invalid JSON' });
+      return;
+    }
+
+    // Arrays are JSON Patch documents; anything else is treated as a merge patch
+    const result: PatchApplyResult = Array.isArray(parsed.data)
+      ? applyJsonPatch(data, parsed.data as unknown as JsonPatchOperation[])
+      : { success: true, data: applyMergePatch(data, parsed.data), results: [] };
+
+    setApplyResult(result);
+    if (result.success && result.data !== null) {
+      const edited = stringifyEditedDocument(result.data, useJsonStore.getState().parsedData);
+      setJsonData(result.data, edited.raw, {
+        description: Array.isArray(parsed.data) ? 'Applied JSON Patch' : 'Applied merge patch',
+        parsed: edited.parsed,
+      });
+      showToast({ title: 'Patch applied', variant: 'success' });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={onClose}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+        role="button"
+        tabIndex={0}
+        aria-label="Close dialog"
+      />
+
+      <Card className="relative w-full max-w-3xl max-h-[85vh] overflow-hidden flex flex-col">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <FileDiff className="h-5 w-5" />
+            Patches
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+
+        <CardContent className="space-y-4 overflow-y-auto">
+          <div className="flex gap-2 border-b pb-4">
+            <Button variant={tab === 'generate' ? 'default' : 'outline'} size="sm" onClick={() => setTab('generate')}>
+              Generate
+            </Button>
+            <Button variant={tab === 'apply' ? 'default' : 'outline'} size="sm" onClick={() => setTab('apply')}>
+              Apply
+            </Button>
+          </div>
+
+          {tab === 'generate' ? (
+            entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No history entries to compare against yet.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <label className="flex items-center gap-1">
+                    <span className="text-muted-foreground">From:</span>
+                    <select
+                      value={baseEntry?.id ?? ''}
+                      onChange={(e) => setBaseEntryId(e.target.value)}
+                      className={selectClasses}
+                    >
+                      {entries.map((entry, index) => (
+                        <option key={entry.id} value={entry.id}>
+                          #{index + 1} {entry.description}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <span className="text-muted-foreground">to the current document as</span>
+                  <select
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as PatchFormat)}
+                    className={selectClasses}
+                    aria-label="Patch format"
+                  >
+                    <option value="json-patch">JSON Patch (RFC 6902)</option>
+                    <option value="merge-patch">Merge Patch (RFC 7386)</option>
+                  </select>
+                  <Button size="sm" variant="outline" onClick={handleDownload} disabled={generated === null} className="ml-auto">
+                    <Download className="mr-2 h-4 w-4" />
+                    Download
+                  </Button>
+                </div>
+                <pre className="max-h-80 overflow-auto rounded border bg-muted p-2 font-mono text-xs">
+                  {generated?.text ?? ''}
+                </pre>
+              </div>
+            )
+          ) : (
+            <div className="space-y-3">
+              <textarea
+                value={patchText}
+                onChange={(e) => {
+                  setPatchText(e.target.value);
+                  setApplyResult(null);
+                }}
+                placeholder='[{ "op": "replace", "path": "/name", "value": "new" }] or a merge patch object'
+                aria-label="Patch document"
+                className="h-40 w-full rounded border border-input bg-background p-2 font-mono text-xs"
+              />
+              <div className="flex justify-end">
+                <Button size="sm" onClick={handleApply} disabled={!patchText.trim() || data === null}>
+                  Apply patch
+                </Button>
+              </div>
+
+              {applyResult?.error && (
+                <div className="flex items-start text-sm text-destructive">
+                  <AlertCircle className="mr-1 mt-0.5 h-4 w-4 flex-shrink-0" />
+                  {applyResult.error}
+                </div>
+              )}
+
+              {applyResult && applyResult.results.length > 0 && (
+                <div className="max-h-60 overflow-y-auto rounded border text-xs font-mono">
+                  {applyResult.results.map((result) => (
+                    <div
+                      key={result.index}
+                      className={cn(
+                        'flex items-center gap-2 px-2 py-1 border-b last:border-b-0',
+                        result.status === 'failed' && 'bg-red-50 dark:bg-red-900/30'
+                      )}
+                    >
+                      {result.status === 'applied' && <CheckCircle className="h-3 w-3 text-green-600" />}
+                      {result.status === 'failed' && <XCircle className="h-3 w-3 text-destructive" />}
+                      {result.status === 'skipped' && <MinusCircle className="h-3 w-3 text-muted-foreground" />}
+                      <span>#{result.index}</span>
+                      <span className="font-semibold">{result.op}</span>
+                      <span>{result.path || '(root)'}</span>
+                      {result.testPassed !== undefined && (
+                        <span className={result.testPassed ? 'text-green-600' : 'text-destructive'}>
+                          test {result.testPassed ? 'passed' : 'failed'}
+                        </span>
+                      )}
+                      {result.message && <span className="text-muted-foreground">{result.message}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
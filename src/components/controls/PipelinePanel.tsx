@@ -0,0 +1,303 @@
+import { ArrowUpToLine, Download, ListPlus, Save, Trash2, Upload, Workflow, X } from 'lucide-react';
+import { useMemo, useRef, useState } from 'react';
+
+import { useToast } from '../../hooks/useToast';
+import { getJsonPath, jsonToTableRows } from '../../lib/data-transformers';
+import { exportPipelineRecipe } from '../../lib/export-complete';
+import { parseJSON, stringifyJSON } from '../../lib/json-parser';
+import { PIPELINE_OPERATIONS, PipelineOperation, PipelineRecipe, runPipeline, validateRecipe } from '../../lib/pipeline';
+import { truncate } from '../../lib/utils';
+import { useJsonStore } from '../../stores/json-store';
+import { usePipelineStore } from '../../stores/pipeline-store';
+import { JsonValue } from '../../types/json.types';
+import { Button } from '../ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+
+import { OPERATION_LABELS, PipelineStepEditor } from './PipelineStepEditor';
+
+interface PipelinePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** Characters of a step's output shown in the preview */
+const PREVIEW_LENGTH = 20000;
+
+/** Records sampled for field name suggestions */
+const FIELD_SAMPLE_SIZE = 20;
+
+const selectClasses = 'rounded border border-input bg-background px-2 py-1 text-sm';
+
+/** Field paths found in the first few records, offered as suggestions in the step editors */
+function sampleFieldNames(data: JsonValue | null): string[] {
+  const records = Array.isArray(data) ? data.slice(0, FIELD_SAMPLE_SIZE) : [data];
+  const names = new Set<string>();
+  records.forEach((record) => {
+    if (record === null || typeof record !== 'object' || Array.isArray(record)) return;
+    jsonToTableRows(record).forEach((row) => names.add(getJsonPath(row.segments)));
+  });
+  return Array.from(names);
+}
+
+/**
+ * Builds a cleanup pipeline of steps over the document, previewing the output
+ * of each step, and saves it as a recipe that can be exported and replayed on
+ * other files
+ */
+export const PipelinePanel: React.FC<PipelinePanelProps> = ({ isOpen, onClose }) => {
+  const { data, setJsonData } = useJsonStore();
+  const {
+    name,
+    steps,
+    recipes,
+    setName,
+    addStep,
+    updateStep,
+    removeStep,
+    moveStep,
+    clearSteps,
+    saveRecipe,
+    loadRecipe,
+    deleteRecipe,
+  } = usePipelineStore();
+  const { showToast } = useToast();
+  const [newOperation, setNewOperation] = useState<PipelineOperation>('select');
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const results = useMemo(
+    () => (isOpen && data !== null ? runPipeline(data, steps) : []),
+    [isOpen, data, steps]
+  );
+
+  // The input of each step, for field suggestions
+  const fieldNames = useMemo(
+    () => (isOpen ? steps.map((_step, index) => sampleFieldNames(index === 0 ? data : results[index - 1]?.data ?? null)) : []),
+    [isOpen, steps, data, results]
+  );
+
+  if (!isOpen) {
+    return null;
+  }
+
+  // Preview the chosen step, or the last one that ran
+  const shownIndex = previewIndex !== null && previewIndex < results.length ? previewIndex : results.length - 1;
+  const shown = shownIndex >= 0 ? results[shownIndex] : undefined; // eslint-disable-line security/detect-object-injection
+  const preview = shown ? shown.data : data;
+  const finalResult = results.length === steps.length ? results[results.length - 1] : undefined;
+  const canApply = finalResult !== undefined && !finalResult.error && finalResult.data !== null;
+
+  const handleAddStep = () => {
+    addStep(newOperation);
+    setPreviewIndex(steps.length);
+  };
+
+  const handleApply = () => {
+    const output = finalResult?.data;
+    if (output === undefined || output === null) return;
+    setJsonData(output, stringifyJSON(output), { description: `Pipeline: ${truncate(name.trim(), 60)}` });
+    showToast({ title: 'Pipeline applied', description: 'Undo from the history panel to go back', variant: 'success' });
+    onClose();
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      showToast({ title: 'Name the recipe first', variant: 'error' });
+      return;
+    }
+    saveRecipe();
+    showToast({ title: 'Recipe saved', description: name.trim(), variant: 'success' });
+  };
+
+  const handleExport = async () => {
+    const recipe: PipelineRecipe = { name: name.trim() || 'recipe', steps };
+    const fileName = `${recipe.name.replace(/[^\w.-]+/g, '-')}.pipeline.json`;
+    const result = await exportPipelineRecipe(recipe, { fileName });
+
+    showToast({
+      title: result.success ? 'Export successful' : 'Export failed',
+      description: result.success ? `Exported as ${result.fileName}` : result.error || 'Export failed',
+      variant: result.success ? 'success' : 'error',
+    });
+  };
+
+  const handleImport = async (file: File) => {
+    const parsed = parseJSON(await file.text());
+    const error = parsed.isValid ? validateRecipe(parsed.data) : parsed.error || 'Invalid JSON';
+    if (error) {
+      showToast({ title: 'Not a pipeline recipe', description: error, variant: 'error' });
+      return;
+    }
+    loadRecipe(parsed.data as unknown as PipelineRecipe);
+    setPreviewIndex(null);
+    showToast({ title: 'Recipe loaded', description: 'Save it to keep it in this browser', variant: 'success' });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={onClose}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+        role="button"
+        tabIndex={0}
+        aria-label="Close dialog"
+      />
+
+      <Card className="relative w-full max-w-5xl max-h-[85vh] overflow-hidden flex flex-col">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Workflow className="h-5 w-5" />
+            Pipeline
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+
+        <CardContent className="space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-2 border-b pb-4">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              aria-label="Recipe name"
+              className="min-w-0 flex-1 rounded border border-input bg-background px-2 py-1 text-sm"
+            />
+            <Button size="sm" variant="outline" onClick={handleSave} disabled={steps.length === 0}>
+              <Save className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+            <select
+              value=""
+              onChange={(e) => {
+                const recipe = recipes.find((item) => item.name === e.target.value);
+                if (recipe) {
+                  loadRecipe(recipe);
+                  setPreviewIndex(null);
+                }
+              }}
+              disabled={recipes.length === 0}
+              aria-label="Saved recipes"
+              className={selectClasses}
+            >
+              <option value="">{recipes.length === 0 ? 'No saved recipes' : 'Load a saved recipe…'}</option>
+              {recipes.map((recipe) => (
+                <option key={recipe.name} value={recipe.name}>
+                  {recipe.name} ({recipe.steps.length} step{recipe.steps.length === 1 ? '' : 's'})
+                </option>
+              ))}
+            </select>
+            {recipes.some((recipe) => recipe.name === name.trim()) && (
+              <Button size="icon" variant="ghost" onClick={() => deleteRecipe(name.trim())} className="h-8 w-8" title="Delete the saved recipe">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleExport} disabled={steps.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {data === null ? (
+            <p className="text-sm text-muted-foreground">Load a document to build a pipeline over it.</p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                {steps.length === 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    Add steps to pick, rename, filter, sort, dedupe, flatten or cast the records in the document.
+                  </p>
+                )}
+                {steps.map((step, index) => (
+                  <PipelineStepEditor
+                    // Steps have no identity of their own; every field is controlled, so index keys are safe
+                    // eslint-disable-next-line react/no-array-index-key
+                    key={index}
+                    index={index}
+                    step={step}
+                    result={results[index]} // eslint-disable-line security/detect-object-injection
+                    selected={index === shownIndex}
+                    isFirst={index === 0}
+                    isLast={index === steps.length - 1}
+                    fieldListId={`pipeline-fields-${index}`}
+                    onSelect={() => setPreviewIndex(index)}
+                    onChange={(updated) => updateStep(index, updated)}
+                    onMove={(offset) => moveStep(index, offset)}
+                    onRemove={() => {
+                      removeStep(index);
+                      setPreviewIndex(null);
+                    }}
+                  />
+                ))}
+                {fieldNames.map((names, index) => (
+                  // eslint-disable-next-line react/no-array-index-key
+                  <datalist key={index} id={`pipeline-fields-${index}`}>
+                    {names.map((field) => <option key={field} value={field} />)}
+                  </datalist>
+                ))}
+
+                <div className="flex items-center gap-2">
+                  <select
+                    value={newOperation}
+                    onChange={(e) => setNewOperation(e.target.value as PipelineOperation)}
+                    aria-label="Step to add"
+                    className={selectClasses}
+                  >
+                    {PIPELINE_OPERATIONS.map((operation) => (
+                      <option key={operation} value={operation}>{OPERATION_LABELS[operation]}</option> // eslint-disable-line security/detect-object-injection
+                    ))}
+                  </select>
+                  <Button size="sm" variant="outline" onClick={handleAddStep}>
+                    <ListPlus className="mr-2 h-4 w-4" />
+                    Add step
+                  </Button>
+                  {steps.length > 0 && (
+                    <Button size="sm" variant="ghost" onClick={clearSteps} className="ml-auto">
+                      Start over
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-sm text-muted-foreground">
+                  {shown ? `Output of step ${shownIndex + 1}` : 'Document'}
+                </div>
+                <pre className="max-h-96 overflow-auto rounded border bg-muted p-2 font-mono text-xs">
+                  {preview === null ? '' : truncate(stringifyJSON(preview), PREVIEW_LENGTH)}
+                </pre>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end border-t pt-4">
+            <Button size="sm" onClick={handleApply} disabled={!canApply} title="Replace the document with the pipeline's output">
+              <ArrowUpToLine className="mr-2 h-4 w-4" />
+              Apply to document
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+import { AlertCircle, AlertTriangle, ArrowDown, ArrowUp, Trash2 } from 'lucide-react';
+
+import {
+  CAST_TYPES,
+  CastType,
+  describeStep,
+  FILTER_OPERATOR_LABELS,
+  FILTER_OPERATORS,
+  FilterOperator,
+  PipelineStep,
+  PipelineStepResult,
+} from '../../lib/pipeline';
+import { cn } from '../../lib/utils';
+import { Button } from '../ui/Button';
+
+export const OPERATION_LABELS: Record<PipelineStep['op'], string> = {
+  select: 'Select',
+  pick: 'Pick fields',
+  rename: 'Rename',
+  filter: 'Filter',
+  sort: 'Sort',
+  dedupe: 'Dedupe',
+  flatten: 'Flatten',
+  cast: 'Cast',
+};
+
+const inputClasses = 'min-w-0 flex-1 rounded border border-input bg-background px-2 py-1 font-mono text-xs';
+const selectClasses = 'rounded border border-input bg-background px-2 py-1 text-xs';
+
+interface PipelineStepEditorProps {
+  index: number;
+  step: PipelineStep;
+  /** Undefined when an earlier step failed, so this one did not run */
+  result?: PipelineStepResult;
+  selected: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  /** Id of a datalist with the field names of the step's input */
+  fieldListId: string;
+  onSelect: () => void;
+  onChange: (step: PipelineStep) => void;
+  onMove: (offset: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+export const PipelineStepEditor: React.FC<PipelineStepEditorProps> = ({
+  index,
+  step,
+  result,
+  selected,
+  isFirst,
+  isLast,
+  fieldListId,
+  onSelect,
+  onChange,
+  onMove,
+  onRemove,
+}) => {
+  const fieldInput = (value: string, update: (value: string) => void, label: string, placeholder = 'field') => (
+    <input
+      value={value}
+      onChange={(e) => update(e.target.value)}
+      placeholder={placeholder}
+      aria-label={label}
+      list={fieldListId}
+      spellCheck={false}
+      className={inputClasses}
+    />
+  );
+
+  const renderSettings = () => {
+    switch (step.op) {
+      case 'select':
+        return (
+          <input
+            value={step.path}
+            onChange={(e) => onChange({ ...step, path: e.target.value })}
+            placeholder="$.items"
+            aria-label="JSONPath"
+            spellCheck={false}
+            className={inputClasses}
+          />
+        );
+      case 'pick':
+      case 'dedupe':
+        // Kept as typed, so a trailing comma survives until the next field is entered
+        return fieldInput(
+          step.fields.join(','),
+          (value) => onChange({ ...step, fields: value ? value.split(',') : [] }),
+          'Fields',
+          step.op === 'pick' ? 'id, name, address.city' : 'All fields when empty'
+        );
+      case 'rename':
+        return (
+          <>
+            {fieldInput(step.from, (from) => onChange({ ...step, from }), 'Field to rename')}
+            <span className="text-xs text-muted-foreground">to</span>
+            <input
+              value={step.to}
+              onChange={(e) => onChange({ ...step, to: e.target.value })}
+              placeholder="new name"
+              aria-label="New name"
+              spellCheck={false}
+              className={inputClasses}
+            />
+          </>
+        );
+      case 'filter':
+        return (
+          <>
+            {fieldInput(step.field, (field) => onChange({ ...step, field }), 'Field to filter on')}
+            <select
+              value={step.operator}
+              onChange={(e) => onChange({ ...step, operator: e.target.value as FilterOperator })}
+              aria-label="Comparison"
+              className={selectClasses}
+            >
+              {FILTER_OPERATORS.map((operator) => (
+                <option key={operator} value={operator}>{FILTER_OPERATOR_LABELS[operator]}</option> // eslint-disable-line security/detect-object-injection
+              ))}
+            </select>
+            {step.operator !== 'exists' && step.operator !== 'missing' && (
+              <input
+                value={step.value}
+                onChange={(e) => onChange({ ...step, value: e.target.value })}
+                placeholder="value"
+                aria-label="Value"
+                className={inputClasses}
+              />
+            )}
+          </>
+        );
+      case 'sort':
+        return (
+          <>
+            {fieldInput(step.field, (field) => onChange({ ...step, field }), 'Field to sort by')}
+            <select
+              value={step.direction}
+              onChange={(e) => onChange({ ...step, direction: e.target.value as 'asc' | 'desc' })}
+              aria-label="Direction"
+              className={selectClasses}
+            >
+              <option value="asc">Ascending</option>
+              <option value="desc">Descending</option>
+            </select>
+          </>
+        );
+      case 'flatten':
+        return (
+          <>
+            <span className="text-xs text-muted-foreground">Join nested keys with</span>
+            <input
+              value={step.separator}
+              onChange={(e) => onChange({ ...step, separator: e.target.value })}
+              aria-label="Separator"
+              className="w-12 rounded border border-input bg-background px-2 py-1 font-mono text-xs"
+            />
+          </>
+        );
+      case 'cast':
+        return (
+          <>
+            {fieldInput(step.field, (field) => onChange({ ...step, field }), 'Field to cast')}
+            <span className="text-xs text-muted-foreground">to</span>
+            <select
+              value={step.to}
+              onChange={(e) => onChange({ ...step, to: e.target.value as CastType })}
+              aria-label="Type"
+              className={selectClasses}
+            >
+              {CAST_TYPES.map((type) => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        'space-y-2 rounded border p-2',
+        selected && 'border-primary',
+        result?.error && 'border-destructive bg-red-50 dark:bg-red-900/20'
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <button type="button" onClick={onSelect} className="flex-1 text-left text-sm font-medium hover:text-primary" title={`${describeStep(step)}. Click to preview its output.`}>
+          {index + 1}. {OPERATION_LABELS[step.op]}
+          <span className="ml-2 text-xs font-normal text-muted-foreground">
+            {!result
+              ? 'not run'
+              : result.recordCount !== undefined
+                ? `${result.recordCount} record${result.recordCount === 1 ? '' : 's'}`
+                : !result.error && 'single value'}
+          </span>
+        </button>
+        <Button variant="ghost" size="icon" className="h-6 w-6" disabled={isFirst} onClick={() => onMove(-1)} aria-label="Move step up">
+          <ArrowUp className="h-3 w-3" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-6 w-6" disabled={isLast} onClick={() => onMove(1)} aria-label="Move step down">
+          <ArrowDown className="h-3 w-3" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onRemove} aria-label="Remove step">
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">{renderSettings()}</div>
+
+      {result?.error && (
+        <div className="flex items-start gap-1 text-xs text-destructive">
+          <AlertCircle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+          {result.error}
+        </div>
+      )}
+      {result?.warnings?.map((warning) => (
+        <div key={warning} className="flex items-start gap-1 text-xs text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="mt-0.5 h-3 w-3 flex-shrink-0" />
+          {warning}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+import { AlertCircle, ArrowUpToLine, Download, Terminal, X } from 'lucide-react';
+import { useEffect } from 'react';
+
+import { useQueryResultActions } from '../../hooks/useQueryResultActions';
+import { JsonHeroError } from '../../lib/error-handler';
+import { runJq } from '../../lib/jq';
+import { runSql } from '../../lib/sql';
+import { useJsonStore } from '../../stores/json-store';
+import { ConsoleLanguage, QueryResult, useQueryStore } from '../../stores/query-store';
+import { useUIStore } from '../../stores/ui-store';
+import { JsonValue } from '../../types/json.types';
+import { Button } from '../ui/Button';
+
+/** Wait this long after the last keystroke before running the query */
+const RUN_DELAY = 250;
+
+const EXAMPLES: Record<ConsoleLanguage, string[]> = {
+  jq: [
+    '.[] | select(.active) | {name, email}',
+    'to_entries | map("\\(.key)=\\(.value)")',
+    'group_by(.type) | map({type: .[0].type, count: length})',
+    'reduce .[] as $item (0; . + $item.price)',
+  ],
+  sql: [
+    'SELECT name, email FROM $.items WHERE active = true ORDER BY name',
+    'SELECT type, COUNT(*) AS count, AVG(price) AS avg_price FROM $.items GROUP BY type',
+    'SELECT o.id, c.name FROM $.orders o JOIN $.customers c ON o.customerId = c.id',
+  ],
+};
+
+const LANGUAGE_LABELS: Record<ConsoleLanguage, string> = {
+  jq: 'jq',
+  sql: 'SQL',
+};
+
+/** Run a query, returning everything but its timing */
+function runQuery(data: JsonValue, language: ConsoleLanguage, query: string): Omit<QueryResult, 'duration'> | string {
+  if (language === 'sql') {
+    // An empty table is a valid answer, unlike a jq program with no output
+    const { columns, rows } = runSql(data, query);
+    return { language, query, data: rows, columns, outputCount: rows.length, truncated: false };
+  }
+  const { outputs, truncated } = runJq(data, query);
+  if (outputs.length === 0) return 'The query produced no output';
+  return {
+    language,
+    query,
+    data: outputs.length === 1 && !truncated ? outputs[0] ?? null : outputs,
+    outputCount: outputs.length,
+    truncated,
+  };
+}
+
+/**
+ * Docked console that runs a jq program or a SQL query over the document.
+ * Its result is shown read-only in the views until it is promoted to the
+ * document or the console is closed; SQL results are shown as a table.
+ */
+export const QueryConsole: React.FC = () => {
+  const data = useJsonStore((state) => state.data);
+  const setActiveView = useUIStore((state) => state.setActiveView);
+  const { consoleOpen, language, query, result, error, closeConsole, setLanguage, setQuery, setResult, setError } = useQueryStore();
+  const { handlePromote, handleExport } = useQueryResultActions();
+  const examples = EXAMPLES[language]; // eslint-disable-line security/detect-object-injection
+
+  const handleLanguageChange = (next: ConsoleLanguage) => {
+    setLanguage(next);
+    if (next === 'sql') setActiveView('table');
+  };
+
+  useEffect(() => {
+    if (!consoleOpen) return undefined;
+    if (data === null || query.trim() === '') {
+      setResult(null);
+      return undefined;
+    }
+
+    const timer = setTimeout(() => {
+      const start = performance.now();
+      try {
+        const output = runQuery(data, language, query);
+        if (typeof output === 'string') {
+          setError(output);
+          return;
+        }
+        setResult({ ...output, duration: performance.now() - start });
+      } catch (caught) {
+        setError(caught instanceof JsonHeroError ? caught.details || caught.message : 'The query failed');
+      }
+    }, RUN_DELAY);
+    return () => clearTimeout(timer);
+  }, [consoleOpen, data, language, query, setResult, setError]);
+
+  if (!consoleOpen) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor="query-console-input" className="flex items-center gap-2 text-sm font-medium">
+          <Terminal className="h-4 w-4" />
+          {language === 'sql' ? 'SQL' : 'jq'} query
+        </label>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border p-0.5" role="group" aria-label="Query language">
+            {(Object.entries(LANGUAGE_LABELS) as Array<[ConsoleLanguage, string]>).map(([option, label]) => (
+              <Button
+                key={option}
+                variant={language === option ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => handleLanguageChange(option)}
+                className="h-6 px-2 text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <Button variant="ghost" size="icon" onClick={closeConsole} className="h-7 w-7" aria-label="Close query console">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <textarea
+        id="query-console-input"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={examples[0]}
+        rows={2}
+        spellCheck={false}
+        aria-invalid={error !== null && query.trim() !== ''}
+        className="w-full resize-y rounded border border-input bg-background px-2 py-1 font-mono text-sm"
+      />
+
+      {query.trim() === '' && (
+        <div className="flex flex-wrap gap-1">
+          {examples.map((example) => (
+            <button
+              key={example}
+              type="button"
+              onClick={() => setQuery(example)}
+              className="rounded bg-muted px-2 py-0.5 font-mono text-xs hover:bg-accent"
+            >
+              {example}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        {error ? (
+          <span className="flex items-center gap-1 text-destructive">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </span>
+        ) : result?.columns ? (
+          <span className="text-muted-foreground">
+            {result.outputCount === 1 ? '1 row' : `${result.outputCount} rows`}
+            {` in ${result.duration.toFixed(0)} ms`} – shown in the table view
+          </span>
+        ) : result ? (
+          <span className="text-muted-foreground">
+            {result.outputCount === 1 ? '1 output' : `${result.outputCount} outputs, shown as an array`}
+            {result.truncated && ' (stopped at the limit)'}
+            {` in ${result.duration.toFixed(0)} ms`} – shown read-only below
+          </span>
+        ) : (
+          <span className="text-muted-foreground">Results appear as you type</span>
+        )}
+
+        <div className="flex gap-2">
+          {result?.columns && (
+            <Button variant="outline" size="sm" onClick={() => handleExport('csv')}>
+              <Download className="mr-2 h-4 w-4" />
+              CSV
+            </Button>
+          )}
+          <Button variant="outline" size="sm" disabled={!result} onClick={() => handleExport('json')}>
+            <Download className="mr-2 h-4 w-4" />
+            JSON
+          </Button>
+          {result && !result.columns && result.outputCount > 1 && (
+            <Button variant="outline" size="sm" onClick={() => handleExport('ndjson')}>
+              <Download className="mr-2 h-4 w-4" />
+              NDJSON
+            </Button>
+          )}
+          <Button size="sm" disabled={!result} onClick={handlePromote} title="Replace the document with this result">
+            <ArrowUpToLine className="mr-2 h-4 w-4" />
+            Use as document
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
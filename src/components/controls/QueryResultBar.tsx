@@ -0,0 +1,52 @@
+import { ArrowUpToLine, Download, Eye, X } from 'lucide-react';
+
+import { useQueryResultActions } from '../../hooks/useQueryResultActions';
+import { QueryLanguage, useQueryStore } from '../../stores/query-store';
+import { Button } from '../ui/Button';
+
+const LANGUAGE_LABELS: Record<QueryLanguage, string> = {
+  jq: 'jq',
+  jmespath: 'JMESPath',
+  sql: 'SQL',
+};
+
+/**
+ * Says which query produced the result shown in place of the document, for
+ * results that did not come from the query console (which has its own
+ * controls), and lets it be promoted, exported or dismissed
+ */
+export const QueryResultBar: React.FC = () => {
+  const { consoleOpen, dismissResult } = useQueryStore();
+  const { result, handlePromote, handleExport } = useQueryResultActions();
+
+  if (!result || consoleOpen) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border bg-muted/50 px-3 py-2 text-sm">
+      <span className="flex min-w-0 items-center gap-2">
+        <Eye className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+        <span className="flex-shrink-0">{LANGUAGE_LABELS[result.language]} result of</span>
+        <code className="truncate rounded bg-muted px-1 font-mono text-xs" title={result.query}>{result.query}</code>
+        <span className="flex-shrink-0 text-muted-foreground">
+          {result.outputCount === 1 ? '1 item' : `${result.outputCount} items`} – shown read-only
+        </span>
+      </span>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => handleExport('json')}>
+          <Download className="mr-2 h-4 w-4" />
+          JSON
+        </Button>
+        <Button size="sm" onClick={handlePromote} title="Replace the document with this result">
+          <ArrowUpToLine className="mr-2 h-4 w-4" />
+          Use as document
+        </Button>
+        <Button variant="ghost" size="icon" onClick={dismissResult} className="h-8 w-8" aria-label="Show the document again">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,21 @@
-import { Shield, CheckCircle, XCircle, FileJson, X } from 'lucide-react';
+import { Shield, CheckCircle, XCircle, FileJson, X, Crosshair, Download } from 'lucide-react';
 import { useState } from 'react';
 
-import { schemaValidator, commonSchemas, JsonSchema, ValidationError } from '../../lib/schema-validator';
+import { useToast } from '../../hooks/useToast';
+import { exportCompleteJSON } from '../../lib/export-complete';
+import {
+  schemaValidator,
+  commonSchemas,
+  JsonSchemaDefinition,
+  SchemaDraft,
+  SCHEMA_DRAFT_URIS,
+  ValidationError,
+} from '../../lib/schema-validator';
 import { cn } from '../../lib/utils';
 import { useJsonStore } from '../../stores/json-store';
+import { useUIStore } from '../../stores/ui-store';
+import { useValidationStore } from '../../stores/validation-store';
+import { JsonValue } from '../../types/json.types';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 
@@ -16,7 +28,16 @@ export const SchemaValidatorComponent: React.FC<SchemaValidatorProps> = ({ isOpe
   const { data } = useJsonStore();
   const [selectedSchema, setSelectedSchema] = useState<string>('custom');
   const [customSchema, setCustomSchema] = useState<string>('{}');
-  const [validationResult, setValidationResult] = useState<{ isValid: boolean; errors: ValidationError[] } | null>(null);
+  const [schemaError, setSchemaError] = useState<ValidationError | null>(null);
+  const { schema: validatedSchema, issues, validate, goToIssue } = useValidationStore();
+  const { activeView, setActiveView } = useUIStore();
+  const { showToast } = useToast();
+  const [draft, setDraft] = useState<SchemaDraft>('2020-12');
+
+  // Results live in the validation store so the views can highlight them
+  const validationResult = schemaError
+    ? { isValid: false, errors: [schemaError] }
+    : validatedSchema !== null ? { isValid: issues.length === 0, errors: issues } : null;
 
   const handleSchemaChange = (schemaName: string) => {
     setSelectedSchema(schemaName);
@@ -28,31 +49,55 @@ export const SchemaValidatorComponent: React.FC<SchemaValidatorProps> = ({ isOpe
 
   const generateSchema = () => {
     if (data) {
-      const generatedSchema = schemaValidator.generateSchemaFromData(data);
+      const generatedSchema = schemaValidator.generateSchemaFromData(data, { draft });
       setCustomSchema(JSON.stringify(generatedSchema, null, 2));
       setSelectedSchema('custom');
     }
   };
 
+  const downloadSchema = async () => {
+    let schema: JsonSchemaDefinition;
+    try {
+      schema = JSON.parse(customSchema);
+    } catch {
+      showToast({ title: 'Export failed', description: 'The schema is not valid JSON', variant: 'error' });
+      return;
+    }
+
+    const result = await exportCompleteJSON(schema as unknown as JsonValue, { fileName: 'schema.json' });
+    showToast({
+      title: result.success ? 'Export successful' : 'Export failed',
+      description: result.success ? `Exported as ${result.fileName}` : result.error || 'Export failed',
+      variant: result.success ? 'success' : 'error',
+    });
+  };
+
   const validateData = () => {
     if (!data) return;
 
     try {
-      const schema: JsonSchema = JSON.parse(customSchema);
-      const result = schemaValidator.validateAgainstSchema(data, schema);
-      setValidationResult(result);
+      const schema: JsonSchemaDefinition = JSON.parse(customSchema);
+      validate(data, schema);
+      setSchemaError(null);
     } catch (error) {
-      setValidationResult({
-        isValid: false,
-        errors: [{
-          path: 'schema',
-          message: 'Invalid JSON schema format',
-          value: customSchema,
-        }],
+      setSchemaError({
+        path: 'schema',
+        instancePath: '',
+        schemaPath: '#',
+        message: error instanceof SyntaxError ? 'Invalid JSON schema format' : `Invalid schema: ${error instanceof Error ? error.message : String(error)}`,
+        value: customSchema,
       });
     }
   };
 
+  const jumpToError = (index: number) => {
+    if (activeView !== 'tree' && activeView !== 'table' && activeView !== 'raw') {
+      setActiveView('tree');
+    }
+    goToIssue(index);
+    onClose();
+  };
+
 
   if (!isOpen) return null;
 
@@ -125,6 +170,26 @@ export const SchemaValidatorComponent: React.FC<SchemaValidatorProps> = ({ isOpe
                     <FileJson className="h-3 w-3 mr-1" />
                     Generate from Data
                   </Button>
+                  <select
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value as SchemaDraft)}
+                    aria-label="Schema draft"
+                    className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                  >
+                    {Object.keys(SCHEMA_DRAFT_URIS).map((name) => (
+                      <option key={name} value={name}>
+                        {name.startsWith('draft') ? name : `Draft ${name}`}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={downloadSchema}
+                  >
+                    <Download className="h-3 w-3 mr-1" />
+                    Download Schema
+                  </Button>
                 </div>
               </div>
               
@@ -172,12 +237,28 @@ export const SchemaValidatorComponent: React.FC<SchemaValidatorProps> = ({ isOpe
                         
                         {validationResult.errors.map((error, index) => (
                           <div key={index} className="border-l-2 border-red-500 pl-3 py-1">
-                            <div className="text-sm font-medium text-red-600 dark:text-red-400">
-                              {error.path || 'root'}
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="text-sm font-medium text-red-600 dark:text-red-400">
+                                {error.path || 'root'}
+                              </span>
+                              {!schemaError && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => jumpToError(index)}
+                                  className="h-6 px-2 text-xs"
+                                >
+                                  <Crosshair className="h-3 w-3 mr-1" />
+                                  Jump to node
+                                </Button>
+                              )}
                             </div>
                             <div className="text-sm text-muted-foreground">
                               {error.message}
                             </div>
+                            <div className="text-xs font-mono text-muted-foreground">
+                              Schema: {error.schemaPath}
+                            </div>
                             {error.value !== undefined && (
                               <div className="text-xs font-mono bg-muted p-1 mt-1 rounded">
                                 Value: {JSON.stringify(error.value)}
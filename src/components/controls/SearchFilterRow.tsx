@@ -1,5 +1,6 @@
 import { X } from 'lucide-react';
 
+import { findJsonPathSyntaxError } from '../../lib/jsonpath';
 import { Button } from '../ui/Button';
 
 interface SearchFilter {
@@ -24,6 +25,8 @@ export const SearchFilterRow: React.FC<SearchFilterRowProps> = ({
   onRemove,
   canRemove,
 }) => {
+  const syntaxError = filter.type === 'jsonpath' && filter.value ? findJsonPathSyntaxError(filter.value) : null;
+
   return (
     <div className="flex items-center gap-2 p-3 border rounded-lg">
       <select
@@ -60,16 +63,24 @@ export const SearchFilterRow: React.FC<SearchFilterRowProps> = ({
         </select>
       )}
       
-      <input
-        type="text"
-        value={filter.value}
-        onChange={(e) => onUpdate(index, { value: e.target.value })}
-        placeholder={filter.type === 'jsonpath' ? '$.path.to.value' : 
-                    filter.type === 'type' ? 'string, number, object...' :
-                    filter.operator === 'regex' ? '/pattern/flags' :
-                    'Search value...'}
-        className="flex-1 rounded border border-input px-3 py-1 text-sm font-mono"
-      />
+      <div className="flex flex-1 flex-col gap-1">
+        <input
+          type="text"
+          value={filter.value}
+          onChange={(e) => onUpdate(index, { value: e.target.value })}
+          placeholder={filter.type === 'jsonpath' ? '$.path.to.value' : 
+                      filter.type === 'type' ? 'string, number, object...' :
+                      filter.operator === 'regex' ? '/pattern/flags' :
+                      'Search value...'}
+          aria-invalid={syntaxError ? true : undefined}
+          className={`rounded border px-3 py-1 text-sm font-mono ${syntaxError ? 'border-destructive' : 'border-input'}`}
+        />
+        {syntaxError && (
+          <p className="text-xs text-destructive">
+            {syntaxError.message} (at offset {syntaxError.offset})
+          </p>
+        )}
+      </div>
       
       {filter.type !== 'jsonpath' && filter.type !== 'type' && (
         <label className="flex items-center gap-1 text-sm whitespace-nowrap">
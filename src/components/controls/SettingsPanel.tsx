@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import { cn } from '../../lib/utils';
 import { useSettingsStore } from '../../stores/settings-store';
 import { useUIStore } from '../../stores/ui-store';
+import { CsvImportOptions, DuplicateKeyPolicy, XmlMapping } from '../../types/json.types';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
 
@@ -19,12 +20,28 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
     maxFileSize: settings.maxFileSize,
     autoFormat: settings.autoFormat,
     validateOnPaste: settings.validateOnPaste,
+    losslessNumbers: settings.losslessNumbers,
+    duplicateKeyPolicy: settings.duplicateKeyPolicy,
+    preserveComments: settings.preserveComments,
+    xmlMapping: settings.xmlMapping,
+    csvImport: settings.csvImport,
     indentSize: settings.indentSize,
     enableAnimations: settings.enableAnimations,
   });
+  // Edited as text, so a trailing comma survives while typing the next name
+  const [alwaysArrayText, setAlwaysArrayText] = useState(settings.xmlMapping.alwaysArray.join(', '));
+
+  const setXmlMapping = (mapping: Partial<XmlMapping>) => {
+    setLocalSettings({ ...localSettings, xmlMapping: { ...localSettings.xmlMapping, ...mapping } });
+  };
+
+  const setCsvImport = (options: Partial<CsvImportOptions>) => {
+    setLocalSettings({ ...localSettings, csvImport: { ...localSettings.csvImport, ...options } });
+  };
 
   const handleSave = () => {
-    settings.updateSettings(localSettings);
+    const alwaysArray = alwaysArrayText.split(',').map((name) => name.trim()).filter(Boolean);
+    settings.updateSettings({ ...localSettings, xmlMapping: { ...localSettings.xmlMapping, alwaysArray } });
     onClose();
   };
 
@@ -34,9 +51,15 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
       maxFileSize: settings.maxFileSize,
       autoFormat: settings.autoFormat,
       validateOnPaste: settings.validateOnPaste,
+      losslessNumbers: settings.losslessNumbers,
+      duplicateKeyPolicy: settings.duplicateKeyPolicy,
+      preserveComments: settings.preserveComments,
+      xmlMapping: settings.xmlMapping,
+      csvImport: settings.csvImport,
       indentSize: settings.indentSize,
       enableAnimations: settings.enableAnimations,
     });
+    setAlwaysArrayText(settings.xmlMapping.alwaysArray.join(', '));
   };
 
   return (
@@ -123,6 +146,150 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose })
                   className="h-4 w-4 rounded border-gray-300"
                 />
               </label>
+              
+              <label className="flex items-center justify-between" title="Keep large integers and long decimals exactly as written">
+                <span className="text-sm">Lossless numbers</span>
+                <input
+                  type="checkbox"
+                  checked={localSettings.losslessNumbers}
+                  onChange={(e) => setLocalSettings({ ...localSettings, losslessNumbers: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+              </label>
+
+              <label className="flex items-center justify-between" title="Which value is kept when an object repeats a key">
+                <span className="text-sm">Duplicate keys</span>
+                <select
+                  value={localSettings.duplicateKeyPolicy}
+                  onChange={(e) => setLocalSettings({ ...localSettings, duplicateKeyPolicy: e.target.value as DuplicateKeyPolicy })}
+                  className="rounded border border-input px-2 py-1 text-sm"
+                >
+                  <option value="last-wins">Last wins</option>
+                  <option value="first-wins">First wins</option>
+                  <option value="keep-all">Keep all as array</option>
+                </select>
+              </label>
+
+              <label className="flex items-center justify-between" title="Keep comments from JSONC, JSON5 and HJSON documents attached to their nodes">
+                <span className="text-sm">Preserve comments</span>
+                <input
+                  type="checkbox"
+                  checked={localSettings.preserveComments}
+                  onChange={(e) => setLocalSettings({ ...localSettings, preserveComments: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium mb-3">XML Mapping</h3>
+            <div className="space-y-3">
+              <label className="flex items-center justify-between" title="Prefix of keys that hold attributes">
+                <span className="text-sm">Attribute prefix</span>
+                <input
+                  type="text"
+                  value={localSettings.xmlMapping.attributePrefix}
+                  onChange={(e) => setXmlMapping({ attributePrefix: e.target.value })}
+                  className="w-24 rounded border border-input px-2 py-1 text-sm font-mono"
+                />
+              </label>
+
+              <label className="flex items-center justify-between" title="Key that holds the text of elements that also have attributes or children">
+                <span className="text-sm">Text key</span>
+                <input
+                  type="text"
+                  value={localSettings.xmlMapping.textKey}
+                  onChange={(e) => setXmlMapping({ textKey: e.target.value })}
+                  className="w-24 rounded border border-input px-2 py-1 text-sm font-mono"
+                />
+              </label>
+
+              <label className="flex items-center justify-between" title="Comma-separated element names that are always read as arrays">
+                <span className="text-sm">Always arrays</span>
+                <input
+                  type="text"
+                  value={alwaysArrayText}
+                  onChange={(e) => setAlwaysArrayText(e.target.value)}
+                  placeholder="item, entry"
+                  className="w-40 rounded border border-input px-2 py-1 text-sm font-mono"
+                />
+              </label>
+
+              <label className="flex items-center justify-between" title="Keep namespace prefixes and xmlns attributes, or drop them">
+                <span className="text-sm">Namespaces</span>
+                <select
+                  value={localSettings.xmlMapping.namespaces}
+                  onChange={(e) => setXmlMapping({ namespaces: e.target.value as XmlMapping['namespaces'] })}
+                  className="rounded border border-input px-2 py-1 text-sm"
+                >
+                  <option value="keep">Keep prefixes</option>
+                  <option value="strip">Strip prefixes</option>
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium mb-3">CSV Import</h3>
+            <div className="space-y-3">
+              <label className="flex items-center justify-between">
+                <span className="text-sm">Delimiter</span>
+                <select
+                  value={localSettings.csvImport.delimiter}
+                  onChange={(e) => setCsvImport({ delimiter: e.target.value as CsvImportOptions['delimiter'] })}
+                  className="rounded border border-input px-2 py-1 text-sm"
+                >
+                  <option value="auto">Auto-detect</option>
+                  <option value=",">Comma</option>
+                  <option value={'\t'}>Tab</option>
+                  <option value=";">Semicolon</option>
+                  <option value="|">Pipe</option>
+                </select>
+              </label>
+
+              <label className="flex items-center justify-between">
+                <span className="text-sm">Header row</span>
+                <select
+                  value={localSettings.csvImport.header}
+                  onChange={(e) => setCsvImport({ header: e.target.value as CsvImportOptions['header'] })}
+                  className="rounded border border-input px-2 py-1 text-sm"
+                >
+                  <option value="auto">Auto-detect</option>
+                  <option value="yes">First row</option>
+                  <option value="no">None</option>
+                </select>
+              </label>
+
+              <label className="flex items-center justify-between" title="Read unquoted numbers, booleans and empty cells as JSON numbers, booleans and null">
+                <span className="text-sm">Infer types</span>
+                <input
+                  type="checkbox"
+                  checked={localSettings.csvImport.inferTypes}
+                  onChange={(e) => setCsvImport({ inferTypes: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+              </label>
+
+              <label className="flex items-center justify-between" title="Write recognised dates as ISO 8601 strings">
+                <span className="text-sm">Infer dates</span>
+                <input
+                  type="checkbox"
+                  checked={localSettings.csvImport.inferDates}
+                  onChange={(e) => setCsvImport({ inferDates: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+              </label>
+
+              <label className="flex items-center justify-between" title="Turn dotted column names such as address.city into nested objects">
+                <span className="text-sm">Nest dotted columns</span>
+                <input
+                  type="checkbox"
+                  checked={localSettings.csvImport.unflatten}
+                  onChange={(e) => setCsvImport({ unflatten: e.target.checked })}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+              </label>
             </div>
           </div>
           
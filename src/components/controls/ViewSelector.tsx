@@ -1,4 +1,4 @@
-import { TreePine, Code, GitGraph, Table } from 'lucide-react';
+import { TreePine, Code, GitGraph, Table, GitCompare } from 'lucide-react';
 import React from 'react';
 
 import { cn } from '../../lib/utils';
@@ -16,6 +16,7 @@ const viewOptions: ViewOption[] = [
   { id: 'raw', label: 'Raw', icon: <Code className="h-4 w-4" /> },
   { id: 'graph', label: 'Graph', icon: <GitGraph className="h-4 w-4" /> },
   { id: 'table', label: 'Table', icon: <Table className="h-4 w-4" /> },
+  { id: 'diff', label: 'Diff', icon: <GitCompare className="h-4 w-4" /> },
 ];
 
 export const ViewSelector: React.FC = () => {
@@ -0,0 +1,114 @@
+import { FileArchive, X } from 'lucide-react';
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+
+import { PendingArchive } from '../../hooks/useFileUpload';
+import { ZipEntry } from '../../lib/compression';
+import { formatBytes } from '../../lib/utils';
+import { Button } from '../ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+
+interface ArchiveEntryPickerProps {
+  archive: PendingArchive;
+  onLoad: (entries: ZipEntry[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Lists the files in a zip archive so one or more can be loaded, each as a
+ * separate document
+ */
+export const ArchiveEntryPicker: React.FC<ArchiveEntryPickerProps> = ({ archive, onLoad, onCancel }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const allSelected = selected.size === archive.entries.length;
+
+  const toggle = (name: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(archive.entries.map((entry) => entry.name)));
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={onCancel}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onCancel();
+          }
+        }}
+        role="button"
+        tabIndex={0}
+        aria-label="Close dialog"
+      />
+
+      <Card className="relative flex max-h-[80vh] w-full max-w-lg flex-col">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+          <div className="min-w-0">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <FileArchive className="h-5 w-5 shrink-0" />
+              <span className="truncate">{archive.fileName}</span>
+            </CardTitle>
+            <p className="mt-1 text-sm text-muted-foreground">
+              {archive.entries.length} files. Choose the ones to load; each opens as a separate document.
+            </p>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onCancel} aria-label="Close">
+            <X className="h-5 w-5" />
+          </Button>
+        </CardHeader>
+
+        <CardContent className="flex min-h-0 flex-col gap-3">
+          <label className="flex items-center gap-2 border-b pb-2 text-sm font-medium">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={toggleAll}
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            Select all
+          </label>
+
+          <ul className="min-h-0 flex-1 space-y-1 overflow-y-auto">
+            {archive.entries.map((entry) => (
+              <li key={entry.name}>
+                <label className="flex items-center gap-2 rounded px-1 py-0.5 text-sm hover:bg-accent">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(entry.name)}
+                    onChange={() => toggle(entry.name)}
+                    className="h-4 w-4 shrink-0 rounded border-gray-300"
+                  />
+                  <span className="flex-1 truncate font-mono" title={entry.name}>{entry.name}</span>
+                  <span className="shrink-0 text-xs text-muted-foreground">{formatBytes(entry.size)}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              disabled={selected.size === 0}
+              onClick={() => onLoad(archive.entries.filter((entry) => selected.has(entry.name)))}
+            >
+              Load {selected.size > 0 ? selected.size : ''} {selected.size === 1 ? 'file' : 'files'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,26 @@
+import { useFileUpload } from '../../hooks/useFileUpload';
+
+import { RepairReport } from './RepairReport';
+
+/**
+ * Reviews the repairs of uploaded files that only parsed after auto-recovery,
+ * one file at a time. Mounted by the app itself, since files finish loading
+ * after the upload form has made way for the loading screen or the document.
+ */
+export const FileRepairPrompt: React.FC = () => {
+  const { repair, loadRepairedFile, cancelRepair } = useFileUpload();
+
+  if (!repair) {
+    return null;
+  }
+
+  return (
+    <RepairReport
+      key={`${repair.documentId}:${repair.fileName}`}
+      original={repair.original}
+      repairs={repair.repairs}
+      onLoad={loadRepairedFile}
+      onCancel={cancelRepair}
+    />
+  );
+};
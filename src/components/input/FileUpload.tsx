@@ -2,17 +2,23 @@ import { Upload, FileJson, AlertCircle, CheckCircle } from 'lucide-react';
 import React, { useRef } from 'react';
 
 import { useFileUpload } from '../../hooks/useFileUpload';
-import { MAX_FILE_SIZE } from '../../lib/constants';
+import { FILE_LIMITS } from '../../lib/app-constants';
 import { cn , formatBytes } from '../../lib/utils';
 import { Button } from '../ui/Button';
 import { Card, CardContent } from '../ui/Card';
 
+import { ArchiveEntryPicker } from './ArchiveEntryPicker';
+
 export const FileUpload: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploadStatus, setUploadStatus] = React.useState<'idle' | 'success' | 'error'>('idle');
   const {
     isDragging,
     uploadProgress,
+    cancelUpload,
+    archive,
+    loadArchiveEntries,
+    cancelArchive,
     handleFileUpload,
     handleDragOver,
     handleDragLeave,
@@ -31,11 +37,14 @@ export const FileUpload: React.FC = () => {
 
       try {
         const result = await handleFileUpload(file);
-        setUploadStatus(result.success ? 'success' : 'error');
+        // Zip archives with several files, and repaired files, report back once the user has chosen
+        if (!result.awaitingSelection) {
+          setUploadStatus(result.success ? 'success' : 'error');
 
-        // Reset status after 3 seconds
-        if (result.success) {
-          setTimeout(() => setUploadStatus('idle'), 3000);
+          // Reset status after 3 seconds
+          if (result.success) {
+            setTimeout(() => setUploadStatus('idle'), 3000);
+          }
         }
       } catch (error) {
         console.error('File upload error:', error);
@@ -84,18 +93,19 @@ export const FileUpload: React.FC = () => {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json,.geojson,.txt,.jsonl,.ndjson,application/json,text/plain,application/geo+json"
+            accept=".json,.geojson,.txt,.jsonl,.ndjson,.jsonc,.json5,.hjson,.yaml,.yml,.xml,.rss,.atom,.csv,.tsv,.tab,.msgpack,.mpk,.cbor,.bson,.gz,.gzip,.zz,.br,.zip,application/json,text/plain,application/geo+json"
             onChange={handleFileChange}
             className="hidden"
             multiple={false}
           />
           
           <p className="text-xs text-muted-foreground">
-            Maximum file size: {formatBytes(MAX_FILE_SIZE)}
+            Maximum file size: {formatBytes(FILE_LIMITS.MAX_FILE_SIZE)} (larger files up to{' '}
+            {formatBytes(FILE_LIMITS.MAX_INDEXED_FILE_SIZE)} open as a partial preview)
           </p>
           
           <p className="text-xs text-muted-foreground">
-            Supported formats: JSON, GeoJSON, JSONL, NDJSON, TXT
+            Supported formats: JSON, JSONC, JSON5, HJSON, YAML, XML, CSV, TSV, MessagePack, CBOR, BSON, GeoJSON, JSONL, NDJSON, TXT, also gzip, Brotli or zip compressed
           </p>
           
           {uploadStatus === 'success' && (
@@ -121,15 +131,19 @@ export const FileUpload: React.FC = () => {
                 style={{ width: `${uploadProgress}%` }}
               />
             </div>
-            <p className="text-xs text-center mt-1 text-muted-foreground">
-              {uploadProgress < 30 ? 'Reading file...' :
-               uploadProgress < 60 ? 'Parsing JSON...' :
-               uploadProgress < 90 ? 'Validating structure...' :
-               'Almost done...'} {uploadProgress.toFixed(0)}%
-            </p>
+            <div className="mt-1 flex items-center justify-center gap-2 text-xs text-muted-foreground">
+              <span>Parsing... {uploadProgress.toFixed(0)}%</span>
+              <Button variant="ghost" size="sm" onClick={cancelUpload} className="h-6 px-2 text-xs">
+                Cancel
+              </Button>
+            </div>
           </div>
         )}
         
+        {archive && (
+          <ArchiveEntryPicker archive={archive} onLoad={loadArchiveEntries} onCancel={cancelArchive} />
+        )}
+
         {isDragging && (
           <div className="absolute inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm">
             <div className="text-center">
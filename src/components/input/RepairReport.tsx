@@ -0,0 +1,159 @@
+import { DiffEditor } from '@monaco-editor/react';
+import { AlertCircle, Wrench, X } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { validateJSON } from '../../lib/json-parser';
+import { applyRepairs, JsonRepair } from '../../lib/json-repair';
+import { cn } from '../../lib/utils';
+import { useUIStore } from '../../stores/ui-store';
+import { Button } from '../ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/Card';
+
+interface RepairReportProps {
+  /** Text as it was pasted, uploaded or fetched */
+  original: string;
+  repairs: JsonRepair[];
+  /** Called with the original text plus the accepted repairs */
+  onLoad: (text: string) => void;
+  onCancel: () => void;
+}
+
+/** Show a fragment with its control characters and whitespace visible */
+function showText(text: string): string {
+  return text ? JSON.stringify(text).slice(1, -1) : '∅';
+}
+
+export const RepairReport: React.FC<RepairReportProps> = ({ original, repairs, onLoad, onCancel }) => {
+  const { theme } = useUIStore();
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+
+  const repaired = useMemo(
+    () => applyRepairs(original, repairs.filter((repair) => !rejected.has(repair.id))),
+    [original, repairs, rejected]
+  );
+  const validation = useMemo(() => validateJSON(repaired), [repaired]);
+
+  const toggle = (id: number) => {
+    setRejected((previous) => {
+      const next = new Set(previous);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={onCancel}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onCancel();
+          }
+        }}
+        role="button"
+        tabIndex={0}
+        aria-label="Close dialog"
+      />
+
+      <Card className="relative w-full max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Wrench className="h-5 w-5" />
+            Repair report
+          </CardTitle>
+          <Button variant="ghost" size="icon" onClick={onCancel} className="h-8 w-8">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+
+        <CardContent className="space-y-4 overflow-y-auto">
+          <p className="text-sm text-muted-foreground">
+            The input was not valid JSON and was repaired automatically. Review each fix and
+            untick any you do not want before loading the data.
+          </p>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">
+              {repairs.length - rejected.size} of {repairs.length} fix{repairs.length === 1 ? '' : 'es'} accepted
+            </span>
+            <Button size="sm" variant="outline" onClick={() => setRejected(new Set())} className="ml-auto">
+              Accept all
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setRejected(new Set(repairs.map((repair) => repair.id)))}>
+              Reject all
+            </Button>
+          </div>
+
+          <div className="max-h-48 overflow-y-auto rounded border text-xs font-mono">
+            {repairs.map((repair) => (
+              <label
+                key={repair.id}
+                className={cn(
+                  'flex items-center gap-2 px-2 py-1 border-b last:border-b-0 cursor-pointer',
+                  rejected.has(repair.id) && 'opacity-50'
+                )}
+              >
+                <input
+                  type="checkbox"
+                  checked={!rejected.has(repair.id)}
+                  onChange={() => toggle(repair.id)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                <span className="w-20 text-muted-foreground">
+                  {repair.line}:{repair.column}
+                </span>
+                <span className="w-48 truncate font-semibold" title={repair.rules.join(', ')}>
+                  {repair.rules.join(', ')}
+                </span>
+                <span className="truncate bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-200">
+                  {showText(repair.original)}
+                </span>
+                <span className="text-muted-foreground">→</span>
+                <span className="truncate bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200">
+                  {showText(repair.replacement)}
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="h-[300px] rounded border">
+            <DiffEditor
+              original={original}
+              modified={repaired}
+              language="json"
+              theme={theme === 'dark' ? 'vs-dark' : 'light'}
+              options={{
+                readOnly: true,
+                renderSideBySide: true,
+                minimap: { enabled: false },
+                scrollBeyondLastLine: false,
+                automaticLayout: true,
+              }}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            {!validation.isValid && (
+              <div className="flex items-center text-sm text-destructive">
+                <AlertCircle className="mr-1 h-4 w-4 flex-shrink-0" />
+                {validation.error || 'Invalid JSON'}
+              </div>
+            )}
+            <Button variant="outline" onClick={onCancel} className="ml-auto">
+              Cancel
+            </Button>
+            <Button onClick={() => onLoad(repaired)} disabled={!validation.isValid}>
+              Load data
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
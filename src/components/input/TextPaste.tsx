@@ -6,30 +6,96 @@ import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardFooter } from '@/components/ui/Card';
 import { useErrorHandler } from '@/hooks/useErrorHandler';
 import { MONACO_EDITOR_OPTIONS } from '@/lib/constants';
-import { createError, ErrorCodes } from '@/lib/error-handler';
-import { cleanControlCharacters, brutalSanitize } from '@/lib/file-processor';
-import { parseJSON, validateJSON } from '@/lib/json-parser';
+import { looksLikeCSV, parseCSV } from '@/lib/csv';
+import { createError, ErrorCodes, JsonHeroError } from '@/lib/error-handler';
+import { cleanControlCharacters } from '@/lib/file-processor';
+import { detectDialect, DIALECT_LABELS, parseDialect, stringifyDialect } from '@/lib/json-dialects';
+import { parseJSON, ParseResult, parseJSONStrict, parseJSONWithRepairs, stringifyJSON, validateJSON } from '@/lib/json-parser';
+import { RepairedText } from '@/lib/json-repair';
+import { looksLikeNDJSON, parseNDJSON } from '@/lib/ndjson';
+import { looksLikeXML, parseXML, stringifyXML } from '@/lib/xml';
+import { looksLikeYAML, parseYAML, stringifyYAML } from '@/lib/yaml';
 import { useJsonStore } from '@/stores/json-store';
+import { useSettingsStore } from '@/stores/settings-store';
 import { useUIStore } from '@/stores/ui-store';
+import { DuplicateKey, JsonDialect } from '@/types/json.types';
 
+import { RepairReport } from './RepairReport';
+
+/** Formats other than JSON and NDJSON that pasted text can be read as */
+type SourceFormat = JsonDialect | 'yaml' | 'xml' | 'csv';
+type InputFormat = 'auto' | SourceFormat;
+
+const SOURCE_LABELS: Record<SourceFormat, string> = { ...DIALECT_LABELS, yaml: 'YAML', xml: 'XML', csv: 'CSV/TSV' };
+
+const selectClasses = 'rounded border border-input bg-background px-2 py-1 text-sm';
+
+/** Parse error details without the generic message */
+function describeError(error: unknown, fallback: string): string {
+  if (error instanceof JsonHeroError && error.details) return error.details;
+  return error instanceof Error ? error.message : fallback;
+}
+
+/** The first few repeated keys, for the parse success toast */
+function describeDuplicateKeys(duplicateKeys: DuplicateKey[]): string | undefined {
+  if (duplicateKeys.length === 0) return undefined;
+  const listed = duplicateKeys.slice(0, 5).map((d) => `"${d.key}" (line ${d.line})`).join(', ');
+  return `Found ${duplicateKeys.length} duplicate key${duplicateKeys.length === 1 ? '' : 's'}: ${listed}${duplicateKeys.length > 5 ? ', ...' : ''}`;
+}
 
 export const TextPaste: React.FC = () => {
   const [value, setValue] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [inputFormat, setInputFormat] = useState<InputFormat>('auto');
+  const [pendingRepair, setPendingRepair] = useState<RepairedText | null>(null);
   const { setJsonData, setInputMethod, addToHistory } = useJsonStore();
   const { theme } = useUIStore();
+  const losslessNumbers = useSettingsStore((state) => state.losslessNumbers);
+  const duplicateKeyPolicy = useSettingsStore((state) => state.duplicateKeyPolicy);
+  const preserveComments = useSettingsStore((state) => state.preserveComments);
+  const xmlMapping = useSettingsStore((state) => state.xmlMapping);
+  const csvImport = useSettingsStore((state) => state.csvImport);
   const { handleError, showSuccess } = useErrorHandler();
 
+  /** Format to read the text as: the one picked, or a detected one when it is not plain JSON */
+  const resolveFormat = (text: string, format: InputFormat = inputFormat): SourceFormat | null => {
+    if (format !== 'auto') return format;
+    if (validateJSON(text).isValid) return null;
+    if (looksLikeXML(text)) return 'xml';
+    return detectDialect(text) ?? (looksLikeYAML(text) ? 'yaml' : looksLikeCSV(text) ? 'csv' : null);
+  };
+
+  const validateInput = (text: string, format: InputFormat = inputFormat): string | null => {
+    const source = resolveFormat(text, format);
+    if (source) {
+      try {
+        if (source === 'yaml') parseYAML(text);
+        else if (source === 'xml') parseXML(text, { mapping: xmlMapping });
+        else if (source === 'csv') parseCSV(text, csvImport);
+        else parseDialect(text, source);
+        return null;
+      } catch (e) {
+        return describeError(e, `Invalid ${SOURCE_LABELS[source]}`); // eslint-disable-line security/detect-object-injection
+      }
+    }
+    if (looksLikeNDJSON(text)) {
+      // Line-level errors are reported when parsing, valid records are kept
+      return null;
+    }
+    // Clean control characters before validation
+    const cleanedValue = cleanControlCharacters(text);
+    const validation = validateJSON(cleanedValue);
+    return validation.isValid ? null : validation.error || 'Invalid JSON';
+  };
+
   const handleChange = (newValue: string | undefined) => {
     setValue(newValue || '');
-    if (newValue) {
-      // Clean control characters before validation
-      const cleanedValue = cleanControlCharacters(newValue);
-      const validation = validateJSON(cleanedValue);
-      setError(validation.isValid ? null : validation.error || 'Invalid JSON');
-    } else {
-      setError(null);
-    }
+    setError(newValue ? validateInput(newValue) : null);
+  };
+
+  const handleFormatChange = (format: InputFormat) => {
+    setInputFormat(format);
+    setError(value ? validateInput(value, format) : null);
   };
 
   const handleParse = () => {
@@ -46,18 +112,35 @@ export const TextPaste: React.FC = () => {
       return;
     }
 
-    // BRUTAL SANITIZE FIRST, THEN CLEAN
-    let cleanedValue = brutalSanitize(value);
-    cleanedValue = cleanControlCharacters(cleanedValue);
+    const source = resolveFormat(value);
+    if (source === 'yaml') {
+      handleParseYAML();
+      return;
+    }
+    if (source === 'xml') {
+      handleParseXML();
+      return;
+    }
+    if (source === 'csv') {
+      handleParseCSV();
+      return;
+    }
+    if (source) {
+      handleParseDialect(source);
+      return;
+    }
 
-    const result = parseJSON(cleanedValue);
-    if (result.isValid && result.data !== null) {
-      setJsonData(result.data, cleanedValue);
-      setInputMethod('paste');
-      addToHistory('paste', cleanedValue);
-      showSuccess('JSON parsed successfully');
-      setValue('');
-      setError(null);
+    if (looksLikeNDJSON(value)) {
+      handleParseNDJSON();
+      return;
+    }
+
+    const result = parseJSONWithRepairs(value, { losslessNumbers, duplicateKeyPolicy });
+    if (result.isValid && result.repairs.length > 0) {
+      // Let the user review what recovery changed before anything is loaded
+      setPendingRepair({ original: value, repairs: result.repairs });
+    } else if (result.isValid && result.data !== null) {
+      loadResult(result, value);
     } else {
       const parseError = createError(
         ErrorCodes.JSON_PARSE_ERROR,
@@ -68,12 +151,183 @@ export const TextPaste: React.FC = () => {
     }
   };
 
+  const loadResult = (result: ParseResult, text: string) => {
+    if (result.data === null) return;
+    const { duplicateKeys } = result;
+    setJsonData(result.data, text, duplicateKeys.length > 0 ? { parsed: { duplicateKeys } } : {});
+    setInputMethod('paste');
+    addToHistory('paste', text);
+    showSuccess(
+      'JSON parsed successfully',
+      describeDuplicateKeys(duplicateKeys)
+    );
+    setValue('');
+    setError(null);
+  };
+
+  const handleLoadRepaired = (text: string) => {
+    setPendingRepair(null);
+    // The report only enables loading once the text is valid JSON
+    loadResult(parseJSON(text, { losslessNumbers, duplicateKeyPolicy }), text);
+  };
+
+  const handleParseDialect = (dialect: JsonDialect) => {
+    const label = DIALECT_LABELS[dialect]; // eslint-disable-line security/detect-object-injection
+    try {
+      const { data, comments, duplicateKeys } = parseDialect(value, dialect, { losslessNumbers, duplicateKeyPolicy });
+      const commentCount = comments.reduce(
+        (count, entry) => count + (entry.before?.length ?? 0) + (entry.after?.length ?? 0) + (entry.end?.length ?? 0),
+        0
+      );
+
+      // The source text is kept so the raw view shows the comments where they were written
+      setJsonData(data, preserveComments ? value : stringifyJSON(data), {
+        description: `${label} pasted`,
+        parsed: { format: dialect, duplicateKeys, ...(preserveComments && { comments }) },
+      });
+      setInputMethod('paste');
+      addToHistory('paste', value);
+      const details = [
+        preserveComments && commentCount > 0 ? `Kept ${commentCount} comment${commentCount === 1 ? '' : 's'}` : undefined,
+        describeDuplicateKeys(duplicateKeys),
+      ].filter(Boolean);
+      showSuccess(`${label} parsed successfully`, details.length > 0 ? details.join('. ') : undefined);
+      setValue('');
+      setError(null);
+    } catch (e) {
+      const message = describeError(e, `Invalid ${label}`);
+      handleError(createError(ErrorCodes.JSON_PARSE_ERROR, message), { context: 'TextPaste' });
+      setError(message);
+    }
+  };
+
+  const handleParseYAML = () => {
+    try {
+      const { data, documentCount, anchors, warnings } = parseYAML(value, { losslessNumbers });
+      const jsonString = stringifyJSON(data);
+      setJsonData(data, jsonString, {
+        description: 'YAML pasted',
+        parsed: { format: 'yaml', documentCount, anchors },
+      });
+      setInputMethod('paste');
+      addToHistory('paste', value);
+      showSuccess(
+        documentCount > 1 ? `Parsed ${documentCount} YAML documents` : 'YAML parsed successfully',
+        warnings.length > 0
+          ? warnings.slice(0, 5).map((w) => `Line ${w.line}: ${w.message}`).join(', ')
+          : undefined
+      );
+      setValue('');
+      setError(null);
+    } catch (e) {
+      const message = describeError(e, 'Invalid YAML');
+      handleError(createError(ErrorCodes.JSON_PARSE_ERROR, message), { context: 'TextPaste' });
+      setError(message);
+    }
+  };
+
+  const handleParseXML = () => {
+    try {
+      const { data, rootName } = parseXML(value, { mapping: xmlMapping, losslessNumbers });
+      const jsonString = stringifyJSON(data);
+      setJsonData(data, jsonString, {
+        description: 'XML pasted',
+        parsed: { format: 'xml' },
+      });
+      setInputMethod('paste');
+      addToHistory('paste', value);
+      showSuccess('XML parsed successfully', `Root element <${rootName}>`);
+      setValue('');
+      setError(null);
+    } catch (e) {
+      const message = describeError(e, 'Invalid XML');
+      handleError(createError(ErrorCodes.JSON_PARSE_ERROR, message), { context: 'TextPaste' });
+      setError(message);
+    }
+  };
+
+  const handleParseCSV = () => {
+    try {
+      const { data, columns, delimiter, hasHeader, warnings } = parseCSV(value, { ...csvImport, losslessNumbers });
+      const jsonString = stringifyJSON(data);
+      setJsonData(data, jsonString, {
+        description: `${delimiter === '\t' ? 'TSV' : 'CSV'} pasted`,
+        parsed: { format: 'csv', recordCount: data.length, columns },
+      });
+      setInputMethod('paste');
+      addToHistory('paste', value);
+      showSuccess(
+        `Parsed ${data.length} row${data.length === 1 ? '' : 's'} with ${columns.length} column${columns.length === 1 ? '' : 's'}${hasHeader ? '' : ' (no header row)'}`,
+        warnings.length > 0
+          ? warnings.slice(0, 5).map((w) => `Line ${w.line}: ${w.message}`).join(', ')
+          : undefined
+      );
+      setValue('');
+      setError(null);
+    } catch (e) {
+      const message = describeError(e, 'Invalid CSV');
+      handleError(createError(ErrorCodes.JSON_PARSE_ERROR, message), { context: 'TextPaste' });
+      setError(message);
+    }
+  };
+
+  const handleParseNDJSON = () => {
+    const { records, errors } = parseNDJSON(value, 1, losslessNumbers);
+    if (records.length === 0) {
+      const message = `No valid records found (line ${errors[0]?.line}: ${errors[0]?.message})`;
+      handleError(createError(ErrorCodes.JSON_PARSE_ERROR, message), { context: 'TextPaste' });
+      setError(message);
+      return;
+    }
+
+    const jsonString = stringifyJSON(records);
+    setJsonData(records, jsonString, {
+      description: 'NDJSON pasted',
+      parsed: { format: 'ndjson', recordCount: records.length, invalidLineCount: errors.length },
+    });
+    setInputMethod('paste');
+    addToHistory('paste', value);
+    showSuccess(
+      `Parsed ${records.length} NDJSON record${records.length === 1 ? '' : 's'}`,
+      errors.length > 0
+        ? `Skipped ${errors.length} invalid line${errors.length === 1 ? '' : 's'}: ${errors.map((e) => e.line).join(', ')}`
+        : undefined
+    );
+    setValue('');
+    setError(null);
+  };
+
   const handleFormat = () => {
     try {
+      const source = resolveFormat(value);
+      if (source === 'yaml') {
+        setValue(stringifyYAML(parseYAML(value, { losslessNumbers }).data));
+        setError(null);
+        return;
+      }
+      // A table has no formatting of its own, so it is shown as the JSON it loads as
+      if (source === 'csv') {
+        setValue(stringifyJSON(parseCSV(value, { ...csvImport, losslessNumbers }).data, 2));
+        setInputFormat('auto');
+        setError(null);
+        return;
+      }
+      if (source === 'xml') {
+        setValue(stringifyXML(parseXML(value, { mapping: xmlMapping, losslessNumbers }).data, { mapping: xmlMapping }));
+        setError(null);
+        return;
+      }
+      if (source) {
+        const { data, comments } = parseDialect(value, source, { losslessNumbers, duplicateKeyPolicy });
+        setValue(stringifyDialect(data, source, comments));
+        setError(null);
+        return;
+      }
+
       // Clean control characters before formatting
       const cleanedValue = cleanControlCharacters(value);
-      const parsed = JSON.parse(cleanedValue);
-      setValue(JSON.stringify(parsed, null, 2));
+      const parsed = parseJSONStrict(cleanedValue, { losslessNumbers, duplicateKeyPolicy });
+      setValue(stringifyJSON(parsed, 2));
       setError(null);
     } catch (_e) {
       const formatError = createError(
@@ -95,7 +349,7 @@ export const TextPaste: React.FC = () => {
           <Editor
             value={value}
             onChange={handleChange}
-            language="json"
+            language={inputFormat === 'yaml' || inputFormat === 'xml' ? inputFormat : inputFormat === 'csv' ? 'plaintext' : 'json'}
             theme={theme === 'dark' ? 'vs-dark' : 'light'}
             options={{
               ...MONACO_EDITOR_OPTIONS,
@@ -115,6 +369,17 @@ export const TextPaste: React.FC = () => {
         </div>
         
         <div className="flex space-x-2">
+          <select
+            value={inputFormat}
+            onChange={(e) => handleFormatChange(e.target.value as InputFormat)}
+            className={selectClasses}
+            aria-label="Input format"
+          >
+            <option value="auto">Auto-detect</option>
+            {(Object.entries(SOURCE_LABELS) as Array<[SourceFormat, string]>).map(([source, label]) => (
+              <option key={source} value={source}>{label}</option>
+            ))}
+          </select>
           <Button
             variant="outline"
             onClick={handleFormat}
@@ -131,6 +396,15 @@ export const TextPaste: React.FC = () => {
           </Button>
         </div>
       </CardFooter>
+
+      {pendingRepair && (
+        <RepairReport
+          original={pendingRepair.original}
+          repairs={pendingRepair.repairs}
+          onLoad={handleLoadRepaired}
+          onCancel={() => setPendingRepair(null)}
+        />
+      )}
     </Card>
   );
 };
\ No newline at end of file
@@ -3,14 +3,19 @@ import { useState } from 'react';
 
 import { useErrorHandler } from '@/hooks/useErrorHandler';
 import { createError, ErrorCodes } from '@/lib/error-handler';
-import { enhancedFetchJSON, EnhancedURLFetchOptions } from '../../lib/enhanced-url-fetcher';
-import { stringifyJSON } from '../../lib/json-parser';
+import { enhancedFetchJSON, EnhancedURLFetchOptions, EnhancedURLFetchResult } from '../../lib/enhanced-url-fetcher';
+import { sanitizeJSONData } from '../../lib/file-processor';
+import { parseJSON, stringifyJSON } from '../../lib/json-parser';
 import { fetchJSON, testURLAccessibility, URLFetchOptions } from '../../lib/url-fetcher';
 import { useJsonStore } from '../../stores/json-store';
+import { useSettingsStore } from '../../stores/settings-store';
+import { JsonValue } from '../../types/json.types';
 import { Button } from '../ui/Button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '../ui/Card';
 import { DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem } from '../ui/DropdownMenu';
 
+import { RepairReport } from './RepairReport';
+
 
 interface Header {
   key: string;
@@ -22,6 +27,10 @@ export const URLFetch: React.FC = () => {
   const [headers, setHeaders] = useState<Header[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [useCorsProxy, setUseCorsProxy] = useState(false);
+  const losslessNumbers = useSettingsStore((state) => state.losslessNumbers);
+  const duplicateKeyPolicy = useSettingsStore((state) => state.duplicateKeyPolicy);
+  const xmlMapping = useSettingsStore((state) => state.xmlMapping);
+  const csvImport = useSettingsStore((state) => state.csvImport);
   const [authType, setAuthType] = useState<EnhancedURLFetchOptions['authType']>('none');
   const [authValue, setAuthValue] = useState('');
   const [apiKeyHeader, setApiKeyHeader] = useState('X-API-Key');
@@ -33,6 +42,7 @@ export const URLFetch: React.FC = () => {
   const [validateSSL, setValidateSSL] = useState(true);
   const [oauth2Token, setOauth2Token] = useState('');
   const [oauth2Type, setOauth2Type] = useState<'header' | 'query'>('header');
+  const [pendingRepair, setPendingRepair] = useState<EnhancedURLFetchResult | null>(null);
   const { setJsonData, setInputMethod, setError, addToHistory } = useJsonStore();
   const { handleError, showSuccess, showToast } = useErrorHandler();
 
@@ -90,6 +100,57 @@ export const URLFetch: React.FC = () => {
     }
   };
 
+  const loadResult = (data: JsonValue, result: EnhancedURLFetchResult) => {
+    const jsonString = stringifyJSON(data);
+    setJsonData(data, jsonString, result.format === 'yaml' ? {
+      description: 'YAML fetched from URL',
+      parsed: { format: 'yaml', anchors: result.anchors },
+    } : result.format === 'csv' ? {
+      description: 'CSV fetched from URL',
+      parsed: { format: 'csv', recordCount: Array.isArray(data) ? data.length : 0, columns: result.columns },
+    } : result.format === 'xml' ? {
+      description: 'XML fetched from URL',
+      parsed: { format: 'xml' },
+    } : {});
+    setInputMethod('url');
+    addToHistory('url', jsonString);
+
+    // Show metadata with success toast
+    const metadataDesc = result.metadata
+      ? `Response time: ${result.metadata.responseTime.toFixed(0)}ms, Size: ${(result.metadata.size / 1024).toFixed(2)}KB`
+      : undefined;
+    showSuccess('Fetch successful', metadataDesc);
+
+    // Show warnings
+    if (result.warnings) {
+      result.warnings.forEach(warning => {
+        showToast({
+          title: 'Warning',
+          description: warning,
+          variant: 'warning',
+        });
+      });
+    }
+
+    // Reset form
+    setUrl('');
+    setHeaders([]);
+    setAuthType('none');
+    setAuthValue('');
+    setUsername('');
+    setPassword('');
+  };
+
+  const handleLoadRepaired = (text: string) => {
+    const result = pendingRepair;
+    setPendingRepair(null);
+    // The report only enables loading once the text is valid JSON
+    const parsed = parseJSON(text, { losslessNumbers, duplicateKeyPolicy });
+    if (result && parsed.isValid && parsed.data !== null) {
+      loadResult(sanitizeJSONData(parsed.data), result);
+    }
+  };
+
   const handleFetch = async () => {
     try {
       const headersObject = headers.reduce((acc, header) => {
@@ -116,6 +177,10 @@ export const URLFetch: React.FC = () => {
         retryAttempts: 3,
         retryDelay: 1000,
         responseType: 'auto',
+        losslessNumbers,
+        duplicateKeyPolicy,
+        xmlMapping,
+        csvImport,
       };
 
       setIsLoading(true);
@@ -144,40 +209,19 @@ export const URLFetch: React.FC = () => {
           password,
           retryAttempts: 2,
           retryDelay: 1000,
+          losslessNumbers,
+          duplicateKeyPolicy,
+          xmlMapping,
+          csvImport,
         };
         result = await fetchJSON(standardOptions) as any;
       }
       
-      if (result.success && result.data) {
-        const jsonString = stringifyJSON(result.data);
-        setJsonData(result.data, jsonString);
-        setInputMethod('url');
-        addToHistory('url', jsonString);
-
-        // Show metadata with success toast
-        const metadataDesc = result.metadata
-          ? `Response time: ${result.metadata.responseTime.toFixed(0)}ms, Size: ${(result.metadata.size / 1024).toFixed(2)}KB`
-          : undefined;
-        showSuccess('Fetch successful', metadataDesc);
-
-        // Show warnings
-        if (result.warnings) {
-          result.warnings.forEach(warning => {
-            showToast({
-              title: 'Warning',
-              description: warning,
-              variant: 'warning',
-            });
-          });
-        }
-
-        // Reset form
-        setUrl('');
-        setHeaders([]);
-        setAuthType('none');
-        setAuthValue('');
-        setUsername('');
-        setPassword('');
+      if (result.success && result.data && result.repaired) {
+        // Let the user review what recovery changed before anything is loaded
+        setPendingRepair(result);
+      } else if (result.success && result.data) {
+        loadResult(result.data, result);
       } else {
         // Determine error type based on the error message
         const errorMsg = result.error ?? 'Failed to fetch JSON';
@@ -467,6 +511,15 @@ export const URLFetch: React.FC = () => {
           {isLoading ? 'Fetching...' : 'Fetch JSON'}
         </Button>
       </CardFooter>
+
+      {pendingRepair?.repaired && (
+        <RepairReport
+          original={pendingRepair.repaired.original}
+          repairs={pendingRepair.repaired.repairs}
+          onLoad={handleLoadRepaired}
+          onCancel={() => setPendingRepair(null)}
+        />
+      )}
     </Card>
   );
 };
\ No newline at end of file
@@ -0,0 +1,240 @@
+import { AlertCircle } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { diffJson, DiffOperation, summarizeDiff, toJsonPath } from '../../../lib/json-diff';
+import { parseJSON, stringifyJSON } from '../../../lib/json-parser';
+import { isLosslessNumber } from '../../../lib/lossless-number';
+import { cn } from '../../../lib/utils';
+import { useHistoryStore } from '../../../stores/history-store';
+import { useSettingsStore } from '../../../stores/settings-store';
+import { JsonValue } from '../../../types/json.types';
+
+interface DiffViewProps {
+  data: JsonValue;
+}
+
+type DiffStatus = 'added' | 'removed' | 'changed';
+
+interface DiffLine {
+  text: string;
+  depth: number;
+  status: DiffStatus | null;
+}
+
+const CURRENT_SOURCE = 'current';
+const PASTE_SOURCE = 'paste';
+
+const statusClasses: Record<DiffStatus, string> = {
+  added: 'bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200',
+  removed: 'bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-200',
+  changed: 'bg-amber-100 text-amber-900 dark:bg-amber-900/40 dark:text-amber-200',
+};
+
+const selectClasses = 'rounded border border-input bg-background px-2 py-1 text-sm';
+
+/**
+ * Render a value as pretty-printed JSON lines, tagging each line with the
+ * diff status of the path it belongs to
+ */
+function buildLines(
+  value: JsonValue,
+  statusByPath: Map<string, DiffStatus>,
+  segments: string[] = [],
+  key: string | null = null,
+  isLast = true,
+  inherited: DiffStatus | null = null
+): DiffLine[] {
+  const depth = segments.length;
+  const status = statusByPath.get(toJsonPath(segments)) ?? inherited;
+  const prefix = key !== null ? `${JSON.stringify(key)}: ` : '';
+  const comma = isLast ? '' : ',';
+
+  if (value === null || typeof value !== 'object' || isLosslessNumber(value)) {
+    return [{ text: `${prefix}${stringifyJSON(value, 0)}${comma}`, depth, status }];
+  }
+
+  const entries: Array<[string, string | null, JsonValue]> = Array.isArray(value)
+    ? value.map((item, index) => [`[${index}]`, null, item])
+    : Object.entries(value).map(([childKey, item]) => [childKey, childKey, item]);
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+
+  if (entries.length === 0) {
+    return [{ text: `${prefix}${open}${close}${comma}`, depth, status }];
+  }
+
+  return [
+    { text: `${prefix}${open}`, depth, status },
+    ...entries.flatMap(([segment, childKey, item], index) =>
+      buildLines(item, statusByPath, [...segments, segment], childKey, index === entries.length - 1, status)
+    ),
+    { text: `${close}${comma}`, depth, status },
+  ];
+}
+
+const DiffPane: React.FC<{ title: string; lines: DiffLine[] }> = ({ title, lines }) => (
+  <div className="flex min-h-0 min-w-0 flex-1 flex-col border rounded">
+    <div className="border-b px-2 py-1 text-xs font-medium text-muted-foreground">{title}</div>
+    <pre className="flex-1 overflow-auto p-2 font-mono text-xs leading-5">
+      {lines.map((line, index) => (
+        <div
+          // eslint-disable-next-line react/no-array-index-key
+          key={index}
+          className={cn('whitespace-pre', line.status && statusClasses[line.status])}
+          style={{ paddingLeft: `${line.depth * 16}px` }}
+        >
+          {line.text}
+        </div>
+      ))}
+    </pre>
+  </div>
+);
+
+export const DiffView: React.FC<DiffViewProps> = ({ data }) => {
+  const { entries, currentIndex } = useHistoryStore();
+  const [leftSource, setLeftSource] = useState<string>(() => {
+    const previous = entries[currentIndex - 1] ?? entries[0];
+    return previous?.id ?? PASTE_SOURCE;
+  });
+  const [rightSource, setRightSource] = useState<string>(CURRENT_SOURCE);
+  const [pasted, setPasted] = useState('');
+  const [arrayKey, setArrayKey] = useState('');
+  const losslessNumbers = useSettingsStore((state) => state.losslessNumbers);
+
+  const pastedResult = useMemo(() => (pasted.trim() ? parseJSON(pasted, { losslessNumbers }) : null), [pasted, losslessNumbers]);
+
+  const resolveSource = (source: string): JsonValue | undefined => {
+    if (source === CURRENT_SOURCE) return data;
+    if (source === PASTE_SOURCE) {
+      return pastedResult?.isValid && pastedResult.data !== null ? pastedResult.data : undefined;
+    }
+    return entries.find((entry) => entry.id === source)?.data;
+  };
+
+  const left = resolveSource(leftSource);
+  const right = resolveSource(rightSource);
+
+  const diff = useMemo(() => {
+    if (left === undefined || right === undefined) return null;
+
+    const operations = diffJson(left, right, arrayKey.trim() ? { arrayKey: arrayKey.trim() } : {});
+    const leftStatus = new Map<string, DiffStatus>();
+    const rightStatus = new Map<string, DiffStatus>();
+    operations.forEach((operation: DiffOperation) => {
+      if (operation.oldPath) leftStatus.set(operation.oldPath, operation.type);
+      if (operation.newPath) rightStatus.set(operation.newPath, operation.type);
+    });
+
+    return {
+      operations,
+      summary: summarizeDiff(operations),
+      leftLines: buildLines(left, leftStatus),
+      rightLines: buildLines(right, rightStatus),
+    };
+  }, [left, right, arrayKey]);
+
+  const sourceOptions = (
+    <>
+      <option value={CURRENT_SOURCE}>Current document</option>
+      {entries.map((entry, index) => (
+        <option key={entry.id} value={entry.id}>
+          #{index + 1} {entry.description} ({new Date(entry.timestamp).toLocaleTimeString()})
+        </option>
+      ))}
+      <option value={PASTE_SOURCE}>Pasted document…</option>
+    </>
+  );
+
+  const sourceLabel = (source: string) => {
+    if (source === CURRENT_SOURCE) return 'Current document';
+    if (source === PASTE_SOURCE) return 'Pasted document';
+    const index = entries.findIndex((entry) => entry.id === source);
+    const entry = entries.find((item) => item.id === source);
+    return entry ? `#${index + 1} ${entry.description}` : 'Unavailable entry';
+  };
+
+  const needsPaste = leftSource === PASTE_SOURCE || rightSource === PASTE_SOURCE;
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="flex flex-wrap items-center gap-2 p-2 border-b flex-shrink-0 text-sm">
+        <label className="flex items-center gap-1">
+          <span className="text-muted-foreground">Old:</span>
+          <select value={leftSource} onChange={(e) => setLeftSource(e.target.value)} className={selectClasses}>
+            {sourceOptions}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="text-muted-foreground">New:</span>
+          <select value={rightSource} onChange={(e) => setRightSource(e.target.value)} className={selectClasses}>
+            {sourceOptions}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="text-muted-foreground">Match arrays by key:</span>
+          <input
+            value={arrayKey}
+            onChange={(e) => setArrayKey(e.target.value)}
+            placeholder="e.g. id"
+            className={cn(selectClasses, 'w-24')}
+          />
+        </label>
+        {diff && (
+          <div className="ml-auto flex gap-2 text-xs">
+            <span className={cn('rounded px-2 py-0.5', statusClasses.added)}>+{diff.summary.added} added</span>
+            <span className={cn('rounded px-2 py-0.5', statusClasses.removed)}>-{diff.summary.removed} removed</span>
+            <span className={cn('rounded px-2 py-0.5', statusClasses.changed)}>~{diff.summary.changed} changed</span>
+          </div>
+        )}
+      </div>
+
+      {needsPaste && (
+        <div className="border-b p-2 flex-shrink-0">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            placeholder="Paste a JSON document to compare"
+            aria-label="Document to compare"
+            className="h-24 w-full rounded border border-input bg-background p-2 font-mono text-xs"
+          />
+          {pastedResult && !pastedResult.isValid && (
+            <div className="flex items-center text-xs text-destructive">
+              <AlertCircle className="mr-1 h-3 w-3" />
+              {pastedResult.error}
+            </div>
+          )}
+        </div>
+      )}
+
+      {diff ? (
+        <div className="flex min-h-0 flex-1 flex-col gap-2 p-2">
+          {diff.summary.total === 0 && (
+            <div className="text-sm text-muted-foreground">The documents are identical.</div>
+          )}
+          <div className="flex min-h-0 flex-1 gap-2">
+            <DiffPane title={sourceLabel(leftSource)} lines={diff.leftLines} />
+            <DiffPane title={sourceLabel(rightSource)} lines={diff.rightLines} />
+          </div>
+          {diff.operations.length > 0 && (
+            <div className="max-h-40 overflow-auto border rounded text-xs font-mono">
+              {diff.operations.map((operation) => (
+                <div
+                  key={`${operation.type}-${operation.oldPath ?? ''}-${operation.newPath ?? ''}`}
+                  className={cn('px-2 py-0.5', statusClasses[operation.type])}
+                >
+                  {operation.type.toUpperCase()} {operation.path}
+                  {operation.type === 'changed' && (
+                    <>: {stringifyJSON(operation.oldValue ?? null, 0)} → {stringifyJSON(operation.newValue ?? null, 0)}</>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+          Select two documents to compare.
+        </div>
+      )}
+    </div>
+  );
+};
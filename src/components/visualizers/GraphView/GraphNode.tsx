@@ -6,12 +6,14 @@ import {
   Type,
   Hash,
   ToggleLeft,
-  FileJson
+  FileJson,
+  FileCode
 } from 'lucide-react';
 import React, { useState } from 'react';
 import { Handle, Position } from 'reactflow';
 
 import { cn } from '../../../lib/utils';
+import { useUIStore } from '../../../stores/ui-store';
 
 import { PropertyDetailModal } from './PropertyDetailModal';
 
@@ -32,6 +34,7 @@ interface GraphNodeProps {
 
 export const GraphNode: React.FC<GraphNodeProps> = ({ data, selected }) => {
   const [detailModal, setDetailModal] = useState<{ key: string; value: any; type: string } | null>(null);
+  const revealNode = useUIStore((state) => state.revealNode);
   const isMoreNode = data.type === 'load-more';
   const isPrimitive = data.type === 'primitive';
   const isTableObject = data.type === 'table-object';
@@ -130,6 +133,18 @@ export const GraphNode: React.FC<GraphNodeProps> = ({ data, selected }) => {
             )}
             <div className="flex-shrink-0">{getIcon()}</div>
             <span className="font-semibold text-sm truncate">{data.label}</span>
+            {!isMoreNode && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  revealNode(data.path, 'raw');
+                }}
+                title="Reveal in source"
+                className="flex-shrink-0 opacity-60 hover:opacity-100"
+              >
+                <FileCode className="w-3 h-3" />
+              </button>
+            )}
           </div>
           
           {data.type === 'array' && !isMoreNode && (
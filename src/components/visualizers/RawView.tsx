@@ -1,35 +1,276 @@
-import Editor from '@monaco-editor/react';
-import { useMemo } from 'react';
+import Editor, { type OnMount } from '@monaco-editor/react';
+import { AlertCircle, CheckCircle, ListTree, Pencil, X } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 
+import { TIMING } from '../../lib/app-constants';
 import { MONACO_EDITOR_OPTIONS } from '../../lib/constants';
-import { stringifyJSON } from '../../lib/json-parser';
+import { getJsonPath, getTreeNodeKey } from '../../lib/data-transformers';
+import { JsonHeroError } from '../../lib/error-handler';
+import { DIALECT_LABELS, isJsonDialect, parseDialect } from '../../lib/json-dialects';
+import { parseJSON, stringifyJSON, validateJSON } from '../../lib/json-parser';
+import { buildSourceMap, findNodeAtPosition, getNodeRange, SourceMap } from '../../lib/source-map';
+import { useJsonStore } from '../../stores/json-store';
+import { useSettingsStore } from '../../stores/settings-store';
 import { useUIStore } from '../../stores/ui-store';
-import { JsonValue } from '../../types/json.types';
+import { useValidationStore } from '../../stores/validation-store';
+import { JsonDialect, JsonValue } from '../../types/json.types';
+import { Button } from '../ui/Button';
+
+type MonacoEditor = Parameters<OnMount>[0];
+type Monaco = Parameters<OnMount>[1];
+
+const MARKER_OWNER = 'raw-view';
+const SCHEMA_MARKER_OWNER = 'schema-validation';
 
 interface RawViewProps {
   data: JsonValue;
+  /** Showing something other than the document, such as a query result: no editing, and not the loaded text */
+  readOnly?: boolean;
 }
 
-export const RawView: React.FC<RawViewProps> = ({ data }) => {
-  const { theme, showLineNumbers, wordWrap } = useUIStore();
-  
-  const jsonString = useMemo(() => {
-    return stringifyJSON(data, 2);
-  }, [data]);
+export const RawView: React.FC<RawViewProps> = ({ data, readOnly = false }) => {
+  const { theme, showLineNumbers, wordWrap, selectedPath, revealRequest, selectNode, revealNode } = useUIStore();
+  const { rawInput, setJsonData } = useJsonStore();
+  const format = useJsonStore((state) => state.parsedData?.format);
+  const { issues, focusPath, focusRequest } = useValidationStore();
+  const losslessNumbers = useSettingsStore((state) => state.losslessNumbers);
+  const preserveComments = useSettingsStore((state) => state.preserveComments);
+  const duplicateKeyPolicy = useSettingsStore((state) => state.duplicateKeyPolicy);
+  const [editorReady, setEditorReady] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [parseError, setParseError] = useState<string | null>(null);
+  const editorRef = useRef<MonacoEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const lastCommittedRef = useRef<string | null>(null);
+  const sourceMapRef = useRef<SourceMap | null>(null);
+
+  // Show the document as it was loaded, so positions match the original text
+  const jsonString = useMemo(() => (!readOnly && rawInput) || stringifyJSON(data, 2), [readOnly, rawInput, data]);
+
+  // JSONC, JSON5 and HJSON documents are shown and edited in their own syntax
+  const dialect = !readOnly && isJsonDialect(format) ? format : undefined;
+  const formatLabel = dialect ? DIALECT_LABELS[dialect] : 'JSON'; // eslint-disable-line security/detect-object-injection
+
+  // Where every node sits in the read-only text
+  const sourceMap = useMemo(
+    () => buildSourceMap(jsonString, dialect, duplicateKeyPolicy),
+    [jsonString, dialect, duplicateKeyPolicy]
+  );
+
+  useEffect(() => {
+    sourceMapRef.current = isEditing ? null : sourceMap;
+  }, [sourceMap, isEditing]);
+
+  const handleMount: OnMount = (editor, monaco) => {
+    editorRef.current = editor;
+    monacoRef.current = monaco;
+    setEditorReady(true);
+
+    // Clicking in the document selects the node under the caret in the other views
+    editor.onDidChangeCursorPosition((event: { source: string; position: { lineNumber: number; column: number } }) => {
+      const map = sourceMapRef.current;
+      if (event.source !== 'mouse' || !map) return;
+      const path = findNodeAtPosition(map, event.position.lineNumber, event.position.column);
+      if (path) selectNode(path);
+    });
+  };
+
+  const revealPath = (path: string[]) => {
+    const editor = editorRef.current;
+    const position = sourceMap?.get(getTreeNodeKey(path));
+    if (!editor || !position) return;
+
+    const { start, end } = getNodeRange(position);
+    const range = { startLineNumber: start.line, startColumn: start.column, endLineNumber: end.line, endColumn: end.column };
+    editor.setSelection(range);
+    editor.revealRangeInCenter(range);
+  };
+
+  // Schema errors map onto the formatted document, so they are shown only while not editing
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+
+    const markers = isEditing || !sourceMap ? [] : issues.map((issue) => {
+      const position = sourceMap.get(getTreeNodeKey(issue.nodePath));
+      const { start, end } = position ? getNodeRange(position) : { start: { line: 1, column: 1 }, end: { line: 1, column: 1 } };
+      // Underline only the first line of multi-line values
+      return {
+        severity: monaco.MarkerSeverity.Error,
+        message: `${issue.message} (${issue.schemaPath})`,
+        startLineNumber: start.line,
+        startColumn: start.column,
+        endLineNumber: start.line,
+        endColumn: end.line === start.line ? end.column : model.getLineMaxColumn(start.line),
+      };
+    });
+    monaco.editor.setModelMarkers(model, SCHEMA_MARKER_OWNER, markers);
+  }, [issues, sourceMap, isEditing, editorReady, jsonString]);
+
+  // Reveal the node selected in the error navigator
+  useEffect(() => {
+    if (focusPath && !isEditing) revealPath(focusPath);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusPath, focusRequest, editorReady]);
+
+  // Reveal the node sent here from another view
+  useEffect(() => {
+    if (selectedPath && !isEditing) revealPath(selectedPath);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [revealRequest, editorReady]);
+
+  const setMarkers = (error: string | null, position?: { line: number; column: number }) => {
+    const model = editorRef.current?.getModel();
+    const monaco = monacoRef.current;
+    if (!model || !monaco) return;
+
+    if (!error) {
+      monaco.editor.setModelMarkers(model, MARKER_OWNER, []);
+      return;
+    }
+
+    const line = Math.min(position?.line ?? model.getLineCount(), model.getLineCount());
+    const column = position?.column ?? 1;
+    monaco.editor.setModelMarkers(model, MARKER_OWNER, [
+      {
+        severity: monaco.MarkerSeverity.Error,
+        message: error,
+        startLineNumber: line,
+        startColumn: column,
+        endLineNumber: line,
+        endColumn: Math.max(column + 1, model.getLineMaxColumn(line)),
+      },
+    ]);
+  };
+
+  // Re-parse the draft after the user stops typing and commit valid edits
+  useEffect(() => {
+    if (!isEditing || draft === lastCommittedRef.current) return;
+
+    const timer = setTimeout(() => {
+      if (dialect) {
+        commitDialect(dialect);
+        return;
+      }
+
+      const validation = validateJSON(draft);
+      if (!validation.isValid) {
+        setParseError(validation.error || 'Invalid JSON');
+        setMarkers(validation.error || 'Invalid JSON', validation.position);
+        return;
+      }
+
+      const result = parseJSON(draft, { losslessNumbers, duplicateKeyPolicy });
+      if (result.isValid) {
+        lastCommittedRef.current = draft;
+        setParseError(null);
+        setMarkers(null);
+        setJsonData(result.data, draft, {
+          description: 'Edited in raw view',
+          parsed: { duplicateKeys: result.duplicateKeys },
+        });
+      }
+    }, TIMING.RAW_EDIT_DEBOUNCE_DELAY);
+
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draft, isEditing, losslessNumbers, duplicateKeyPolicy, dialect]);
+
+  const commitDialect = (current: JsonDialect) => {
+    try {
+      const { data: parsed, comments, duplicateKeys } = parseDialect(draft, current, { losslessNumbers, duplicateKeyPolicy });
+      lastCommittedRef.current = draft;
+      setParseError(null);
+      setMarkers(null);
+      setJsonData(parsed, draft, {
+        description: 'Edited in raw view',
+        parsed: { format: current, duplicateKeys, ...(preserveComments && { comments }) },
+      });
+    } catch (error) {
+      const message = error instanceof JsonHeroError && error.details ? error.details : `Invalid ${DIALECT_LABELS[current]}`; // eslint-disable-line security/detect-object-injection
+      setParseError(message);
+      setMarkers(message);
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(jsonString);
+    lastCommittedRef.current = jsonString;
+    setParseError(null);
+    setIsEditing(true);
+  };
+
+  const stopEditing = () => {
+    setIsEditing(false);
+    setParseError(null);
+    setMarkers(null);
+  };
 
   return (
-    <div className="h-full w-full">
-      <Editor
-        value={jsonString}
-        language="json"
-        theme={theme === 'dark' ? 'vs-dark' : 'light'}
-        options={{
-          ...MONACO_EDITOR_OPTIONS,
-          readOnly: true,
-          lineNumbers: showLineNumbers ? 'on' : 'off',
-          wordWrap: wordWrap ? 'on' : 'off',
-        }}
-      />
+    <div className="flex h-full w-full flex-col">
+      <div className="flex items-center justify-between border-b px-3 py-2">
+        <div className="flex items-center text-sm">
+          {!isEditing && selectedPath && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => revealNode(selectedPath, 'tree')}
+              title="Show the selected node in the tree"
+              className="font-mono"
+            >
+              <ListTree className="mr-2 h-4 w-4" />
+              {getJsonPath(selectedPath) || 'root'}
+            </Button>
+          )}
+          {isEditing && (parseError ? (
+            <span className="flex items-center text-destructive">
+              <AlertCircle className="mr-1 h-4 w-4" />
+              {parseError}
+            </span>
+          ) : (
+            <span className="flex items-center text-muted-foreground">
+              <CheckCircle className="mr-1 h-4 w-4 text-green-600" />
+              Valid {formatLabel} – changes are applied automatically
+            </span>
+          ))}
+        </div>
+        {!readOnly && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={isEditing ? stopEditing : startEditing}
+          >
+            {isEditing ? (
+              <>
+                <X className="mr-2 h-4 w-4" />
+                Done
+              </>
+            ) : (
+              <>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </>
+            )}
+          </Button>
+        )}
+      </div>
+      <div className="min-h-0 flex-1">
+        <Editor
+          value={isEditing ? draft : jsonString}
+          onChange={(value) => isEditing && setDraft(value ?? '')}
+          onMount={handleMount}
+          language={dialect ? 'plaintext' : 'json'}
+          theme={theme === 'dark' ? 'vs-dark' : 'light'}
+          options={{
+            ...MONACO_EDITOR_OPTIONS,
+            readOnly: !isEditing,
+            lineNumbers: showLineNumbers ? 'on' : 'off',
+            wordWrap: wordWrap ? 'on' : 'off',
+          }}
+        />
+      </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,62 @@
+import { AlertCircle, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { useEffect } from 'react';
+
+import { useJsonStore } from '../../stores/json-store';
+import { useValidationStore } from '../../stores/validation-store';
+import { Button } from '../ui/Button';
+
+/**
+ * Bar above the active view that steps through schema validation errors.
+ * It always validates the loaded document, even while a query result is shown.
+ */
+export const SchemaIssueNavigator: React.FC = () => {
+  const data = useJsonStore((state) => state.data);
+  const { schema, issues, activeIndex, revalidate, clearValidation, nextIssue, previousIssue } = useValidationStore();
+
+  // Re-run the last validation whenever the document changes
+  useEffect(() => {
+    revalidate(data);
+  }, [data, revalidate]);
+
+  if (schema === null) {
+    return null;
+  }
+
+  const activeIssue = activeIndex >= 0 ? issues[activeIndex] : undefined; // eslint-disable-line security/detect-object-injection
+
+  return (
+    <div className="flex items-center gap-2 border-b px-3 py-1 text-sm flex-shrink-0">
+      {issues.length === 0 ? (
+        <span className="text-green-600 dark:text-green-400">Document matches the schema</span>
+      ) : (
+        <>
+          <AlertCircle className="h-4 w-4 flex-shrink-0 text-destructive" />
+          <span className="whitespace-nowrap text-destructive">
+            {activeIssue ? `${activeIndex + 1} / ` : ''}
+            {issues.length} schema error{issues.length === 1 ? '' : 's'}
+          </span>
+          <Button variant="ghost" size="icon" onClick={previousIssue} title="Previous error" className="h-6 w-6">
+            <ChevronUp className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={nextIssue} title="Next error" className="h-6 w-6">
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+          {activeIssue && (
+            <span className="truncate text-muted-foreground">
+              <span className="font-mono">{activeIssue.path || 'root'}</span>: {activeIssue.message}
+            </span>
+          )}
+        </>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={clearValidation}
+        title="Clear validation results"
+        className="ml-auto h-6 w-6"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import { ChevronDown, ChevronsUpDown, ChevronUp } from 'lucide-react';
+import { useMemo, useState } from 'react';
+
+import { stringifyJSON } from '../../../lib/json-parser';
+import { formatNumber, isJsonNumber, toNumber } from '../../../lib/lossless-number';
+import { cn, compareCodePoints } from '../../../lib/utils';
+import { useUIStore } from '../../../stores/ui-store';
+import { JsonObject, JsonValue } from '../../../types/json.types';
+
+interface RecordTableProps {
+  rows: JsonObject[];
+  columns: string[];
+}
+
+type SortDirection = 'asc' | 'desc';
+
+function formatCell(value: JsonValue | undefined): string {
+  if (value === undefined || value === null) return 'null';
+  if (typeof value === 'string') return value;
+  if (isJsonNumber(value)) return formatNumber(value);
+  return stringifyJSON(value, 0);
+}
+
+/** Nulls first, numbers by value, everything else by its text */
+function compareCells(a: JsonValue | undefined, b: JsonValue | undefined): number {
+  const aNull = a === undefined || a === null;
+  const bNull = b === undefined || b === null;
+  if (aNull || bNull) return Number(bNull) - Number(aNull);
+  if (isJsonNumber(a) && isJsonNumber(b)) return toNumber(a) - toNumber(b);
+  return compareCodePoints(formatCell(a), formatCell(b));
+}
+
+function getCellColor(value: JsonValue | undefined): string {
+  if (value === undefined || value === null) return 'text-gray-500 dark:text-gray-400';
+  if (isJsonNumber(value)) return 'text-blue-600 dark:text-blue-400';
+  if (typeof value === 'boolean') return 'text-purple-600 dark:text-purple-400';
+  if (typeof value === 'string') return 'text-green-600 dark:text-green-400';
+  return 'font-mono text-muted-foreground';
+}
+
+/**
+ * An array of records with one column per field, such as a SQL query result
+ */
+export const RecordTable: React.FC<RecordTableProps> = ({ rows, columns }) => {
+  const { searchQuery } = useUIStore();
+  const [sort, setSort] = useState<{ column: string; direction: SortDirection } | null>(null);
+
+  const visibleRows = useMemo(() => {
+    let filtered = rows;
+    if (searchQuery) {
+      const query = searchQuery.toLowerCase();
+      filtered = rows.filter((row) => columns.some((column) => formatCell(row[column]).toLowerCase().includes(query))); // eslint-disable-line security/detect-object-injection
+    }
+    if (sort) {
+      const sign = sort.direction === 'asc' ? 1 : -1;
+      filtered = [...filtered].sort((a, b) => sign * compareCells(a[sort.column], b[sort.column]));
+    }
+    return filtered;
+  }, [rows, columns, searchQuery, sort]);
+
+  // Ascending, then descending, then back to the query's own order
+  const handleSort = (column: string) => {
+    if (sort?.column !== column) {
+      setSort({ column, direction: 'asc' });
+    } else if (sort.direction === 'asc') {
+      setSort({ column, direction: 'desc' });
+    } else {
+      setSort(null);
+    }
+  };
+
+  const getSortIcon = (column: string) => {
+    if (sort?.column !== column) {
+      return <ChevronsUpDown className="h-4 w-4" />;
+    }
+    return sort.direction === 'asc' ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />;
+  };
+
+  return (
+    <div className="h-full overflow-x-auto overflow-y-auto">
+      <table className="w-full border-collapse min-w-max">
+        <thead className="sticky top-0 z-10 bg-background">
+          <tr className="border-b">
+            {columns.map((column) => (
+              <th key={column} className="text-left p-2">
+                <button
+                  onClick={() => handleSort(column)}
+                  className="flex items-center gap-1 font-mono text-sm font-medium hover:text-primary"
+                >
+                  {column}
+                  {getSortIcon(column)}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {visibleRows.map((row, index) => (
+            // Records have no identity of their own, and the list is rebuilt whenever it changes
+            // eslint-disable-next-line react/no-array-index-key
+            <tr key={index} className="border-b hover:bg-accent/50 transition-colors">
+              {columns.map((column) => {
+                const value = row[column]; // eslint-disable-line security/detect-object-injection
+                return (
+                  <td key={column} className={cn('p-2 text-sm', getCellColor(value))}>
+                    {formatCell(value)}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {visibleRows.length === 0 && (
+        <div className="p-8 text-center text-muted-foreground">
+          No rows to display
+        </div>
+      )}
+    </div>
+  );
+};
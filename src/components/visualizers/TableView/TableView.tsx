@@ -1,22 +1,53 @@
-import { ChevronUp, ChevronDown, ChevronsUpDown } from 'lucide-react';
-import { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, ChevronUp, ChevronDown, ChevronsUpDown, FileCode } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 
-import { jsonToTableRows } from '../../../lib/data-transformers';
+import { getTreeNodeKey, jsonToTableRows } from '../../../lib/data-transformers';
+import { formatNumber, getPrecisionWarning, isJsonNumber } from '../../../lib/lossless-number';
 import { cn } from '../../../lib/utils';
 import { useUIStore } from '../../../stores/ui-store';
-import { JsonValue } from '../../../types/json.types';
+import { useValidationStore } from '../../../stores/validation-store';
+import { JsonObject, JsonValue } from '../../../types/json.types';
+
+import { RecordTable } from './RecordTable';
 
 interface TableViewProps {
   data: JsonValue;
+  /** Show `data`, an array of records, with one column per field instead of one row per leaf */
+  columns?: string[];
 }
 
 type SortDirection = 'asc' | 'desc' | null;
 type SortColumn = 'path' | 'key' | 'value' | 'type';
 
-export const TableView: React.FC<TableViewProps> = ({ data }) => {
-  const { searchQuery } = useUIStore();
+/**
+ * Row paths and every ancestor prefix, in the dotted form used by `TableRow.path`
+ */
+function getPathPrefixes(path: string): string[] {
+  const prefixes = [path];
+  for (let index = path.lastIndexOf('.'); index > 0; index = path.lastIndexOf('.', index - 1)) {
+    prefixes.push(path.substring(0, index));
+  }
+  return prefixes;
+}
+
+function formatCellValue(value: JsonValue): string {
+  return isJsonNumber(value) ? formatNumber(value) : String(value);
+}
+
+export const TableView: React.FC<TableViewProps> = ({ data, columns }) => {
+  if (columns && Array.isArray(data)) {
+    return <RecordTable rows={data as JsonObject[]} columns={columns} />;
+  }
+  return <LeafTable data={data} />;
+};
+
+const LeafTable: React.FC<{ data: JsonValue }> = ({ data }) => {
+  const { searchQuery, selectedPath, revealNode } = useUIStore();
+  const selectedKey = selectedPath ? getTreeNodeKey(selectedPath) : null;
   const [sortColumn, setSortColumn] = useState<SortColumn | null>(null);
   const [sortDirection, setSortDirection] = useState<SortDirection>(null);
+  const { issues, activeIndex, focusPath, focusRequest } = useValidationStore();
+  const scrollRef = useRef<HTMLDivElement>(null);
 
   const rows = useMemo(() => {
     return jsonToTableRows(data);
@@ -32,7 +63,7 @@ export const TableView: React.FC<TableViewProps> = ({ data }) => {
         (row) =>
           row.path.toLowerCase().includes(query) ||
           row.key.toLowerCase().includes(query) ||
-          String(row.value).toLowerCase().includes(query)
+          formatCellValue(row.value).toLowerCase().includes(query)
       );
     }
 
@@ -43,8 +74,8 @@ export const TableView: React.FC<TableViewProps> = ({ data }) => {
         let bVal = b[sortColumn];
 
         if (sortColumn === 'value') {
-          aVal = String(aVal);
-          bVal = String(bVal);
+          aVal = formatCellValue(a.value);
+          bVal = formatCellValue(b.value);
         }
 
         if (aVal < bVal) return sortDirection === 'asc' ? -1 : 1;
@@ -56,6 +87,42 @@ export const TableView: React.FC<TableViewProps> = ({ data }) => {
     return filtered;
   }, [rows, searchQuery, sortColumn, sortDirection]);
 
+  // Rows are leaf values, so an error on a container marks every row beneath it.
+  // Root-level errors are left to the navigator rather than marking the whole table.
+  const rowIssues = useMemo(() => {
+    const result = new Map<string, { messages: string[]; active: boolean }>();
+    if (issues.length === 0) return result;
+
+    const messagesByPath = new Map<string, string[]>();
+    issues.forEach((issue) => {
+      if (issue.nodePath.length === 0) return;
+      const key = issue.nodePath.join('.');
+      messagesByPath.set(key, [...(messagesByPath.get(key) ?? []), issue.message]);
+    });
+    const activeIssue = issues[activeIndex]; // eslint-disable-line security/detect-object-injection
+    const activePath = activeIssue?.nodePath.length ? activeIssue.nodePath.join('.') : null;
+
+    rows.forEach((row) => {
+      const prefixes = getPathPrefixes(row.path);
+      const messages = prefixes.flatMap((prefix) => messagesByPath.get(prefix) ?? []);
+      if (messages.length > 0) {
+        result.set(row.id, { messages, active: activePath !== null && prefixes.includes(activePath) });
+      }
+    });
+    return result;
+  }, [rows, issues, activeIndex]);
+
+  // Scroll the first row of the node selected in the error navigator into view
+  useEffect(() => {
+    if (!focusPath || focusPath.length === 0) return;
+    const target = focusPath.join('.');
+    const row = filteredAndSortedRows.find((item) => getPathPrefixes(item.path).includes(target));
+    if (row) {
+      scrollRef.current?.querySelector(`[data-row-id="${row.id}"]`)?.scrollIntoView({ block: 'center' });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusPath, focusRequest]);
+
   const handleSort = (column: SortColumn) => {
     if (sortColumn === column) {
       if (sortDirection === 'asc') {
@@ -97,7 +164,7 @@ export const TableView: React.FC<TableViewProps> = ({ data }) => {
   };
 
   return (
-    <div className="h-full overflow-x-auto overflow-y-auto">
+    <div ref={scrollRef} className="h-full overflow-x-auto overflow-y-auto">
       <table className="w-full border-collapse min-w-max">
         <thead className="sticky top-0 z-10 bg-background">
           <tr className="border-b">
@@ -140,18 +207,42 @@ export const TableView: React.FC<TableViewProps> = ({ data }) => {
           </tr>
         </thead>
         <tbody>
-          {filteredAndSortedRows.map((row) => (
+          {filteredAndSortedRows.map((row) => {
+            const issue = rowIssues.get(row.id);
+            return (
             <tr
               key={row.id}
-              className="border-b hover:bg-accent/50 transition-colors"
+              data-row-id={row.id}
+              title={issue?.messages.join('\n')}
+              className={cn(
+                'group border-b hover:bg-accent/50 transition-colors',
+                selectedKey === getTreeNodeKey(row.segments) && 'bg-accent',
+                issue && 'bg-red-50 dark:bg-red-900/20',
+                issue?.active && 'outline outline-1 outline-destructive'
+              )}
             >
               <td className="p-2 font-mono text-sm text-muted-foreground">
-                {row.path}
+                <span className="flex items-center gap-1">
+                  {issue && <AlertCircle className="h-3 w-3 flex-shrink-0 text-destructive" />}
+                  {row.path}
+                  <button
+                    onClick={() => revealNode(row.segments, 'raw')}
+                    title="Reveal in source"
+                    className="opacity-0 transition-opacity group-hover:opacity-100 hover:text-foreground"
+                  >
+                    <FileCode className="h-3 w-3" />
+                  </button>
+                </span>
               </td>
               <td className="p-2 font-mono text-sm">{row.key}</td>
               <td className="p-2 text-sm">
-                <span className={cn(getTypeColor(row.type))}>
-                  {row.type === 'string' ? `"${row.value}"` : String(row.value)}
+                <span className={cn('inline-flex items-center gap-1', getTypeColor(row.type))}>
+                  {row.type === 'string' ? `"${row.value}"` : formatCellValue(row.value)}
+                  {getPrecisionWarning(row.value) && (
+                    <span title={getPrecisionWarning(row.value) ?? undefined}>
+                      <AlertTriangle className="h-3 w-3 text-amber-500" />
+                    </span>
+                  )}
                 </span>
               </td>
               <td className="p-2">
@@ -165,7 +256,8 @@ export const TableView: React.FC<TableViewProps> = ({ data }) => {
                 </span>
               </td>
             </tr>
-          ))}
+            );
+          })}
         </tbody>
       </table>
       {filteredAndSortedRows.length === 0 && (
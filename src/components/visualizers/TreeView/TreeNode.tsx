@@ -1,16 +1,65 @@
-import { ChevronRight, ChevronDown, Copy, Check } from 'lucide-react';
-import { useState } from 'react';
+import {
+  AlertCircle,
+  AlertTriangle,
+  ChevronRight,
+  ChevronDown,
+  Copy,
+  Check,
+  FileCode,
+  Link2,
+  MessageSquare,
+  Pencil,
+  TextCursorInput,
+  Plus,
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
 
-import { getJsonPath } from '../../../lib/data-transformers';
+import { describeTypedValue } from '../../../lib/binary-formats';
+import { getJsonPath, getTreeNodeKey } from '../../../lib/data-transformers';
+import { formatEditableValue, parseEditedValue, TreeEditAction } from '../../../lib/json-editor';
+import { stringifyJSON } from '../../../lib/json-parser';
+import { formatNumber, getPrecisionWarning, isJsonNumber } from '../../../lib/lossless-number';
 import { cn , copyToClipboard } from '../../../lib/utils';
+import { useSettingsStore } from '../../../stores/settings-store';
+import { DuplicateKey, NodeComments } from '../../../types/json.types';
 import { TreeNode as TreeNodeType } from '../../../types/visualization.types';
 
+/**
+ * Schema validation results keyed by `getTreeNodeKey`
+ */
+export interface TreeSchemaMarks {
+  messages: Map<string, string[]>;
+  /** Nodes with a failing descendant */
+  ancestors: Set<string>;
+  activeKey: string | null;
+}
+
 interface TreeNodeProps {
   node: TreeNodeType;
   searchQuery: string | undefined;
-  onToggle: ((nodeId: string) => void) | undefined;
+  onToggle: ((nodeKey: string) => void) | undefined;
+  onEdit?: ((action: TreeEditAction) => boolean) | undefined;
+  siblingCount?: number;
+  /** The node is an element of an array, rather than an object member or the root */
+  inArray?: boolean;
+  schemaMarks?: TreeSchemaMarks | undefined;
+  /** Duplicate keys found while parsing, keyed by the `getTreeNodeKey` of their object */
+  duplicateKeys?: Map<string, DuplicateKey[]> | undefined;
+  /** Source comments, keyed by the `getTreeNodeKey` of the node they belong to */
+  comments?: Map<string, NodeComments> | undefined;
+  /** Notes on YAML nodes shared through anchors, keyed by `getTreeNodeKey` */
+  sharedNodes?: Map<string, string> | undefined;
+  /** `getTreeNodeKey` of the node selected in another view */
+  selectedKey?: string | null;
+  onRevealInSource?: ((path: string[]) => void) | undefined;
 }
 
+type EditMode = 'value' | 'key' | 'add' | null;
+
 const typeColors = {
   string: 'text-green-600 dark:text-green-400',
   number: 'text-blue-600 dark:text-blue-400',
@@ -20,18 +69,61 @@ const typeColors = {
   array: 'text-pink-600 dark:text-pink-400',
 };
 
+function previewValue(value: DuplicateKey['value']): string {
+  const text = stringifyJSON(value, 0);
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text;
+}
+
+function describeDuplicate({ key, line, column, firstValue, value }: DuplicateKey): string {
+  return `"${key}" repeated at line ${line}, column ${column}: ${previewValue(firstValue)} then ${previewValue(value)}`;
+}
+
+const inputClasses = 'h-6 rounded border border-input bg-background px-1 font-mono text-sm';
+const actionClasses = 'text-muted-foreground hover:text-foreground';
+
 export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
   node,
   searchQuery,
   onToggle,
+  onEdit,
+  siblingCount = 0,
+  inArray = false,
+  schemaMarks,
+  duplicateKeys,
+  comments,
+  sharedNodes,
+  selectedKey = null,
+  onRevealInSource,
 }) => {
+  const losslessNumbers = useSettingsStore((state) => state.losslessNumbers);
   const [copied, setCopied] = useState(false);
+  const [editMode, setEditMode] = useState<EditMode>(null);
+  const [draft, setDraft] = useState('');
+  const [draftKey, setDraftKey] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
   const hasChildren = node.children.length > 0;
   const isExpandable = node.type === 'object' || node.type === 'array';
+  const isRoot = node.path.length === 0;
+  // Array elements are keyed `[n]`; an object member can have that name too, so the parent decides
+  const indexMatch = inArray ? node.key.match(/^\[(\d+)\]$/) : null;
+  const arrayIndex = indexMatch ? parseInt(indexMatch[1] || '0', 10) : null;
+  const nodeKey = getTreeNodeKey(node.path);
+  const schemaMessages = schemaMarks?.messages.get(nodeKey);
+  const hasFailingDescendant = !node.expanded && schemaMarks?.ancestors.has(nodeKey);
+  const duplicates = duplicateKeys?.get(nodeKey);
+  const nodeComments = comments?.get(nodeKey);
+  const sharedNote = sharedNodes?.get(nodeKey);
+  const commentText = nodeComments
+    ? [...(nodeComments.before ?? []), ...(nodeComments.after ?? []), ...(nodeComments.end ?? [])].join('\n')
+    : '';
+
+  useEffect(() => {
+    if (editMode) inputRef.current?.focus();
+  }, [editMode]);
 
   const handleToggle = () => {
     if (onToggle && isExpandable) {
-      onToggle(node.id);
+      onToggle(nodeKey);
     }
   };
 
@@ -42,8 +134,59 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const startEdit = (mode: Exclude<EditMode, null>) => {
+    setEditMode(mode);
+    setDraftKey('');
+    if (mode === 'value') setDraft(formatEditableValue(node.value));
+    if (mode === 'key') setDraft(node.key);
+    if (mode === 'add') setDraft('null');
+  };
+
+  const cancelEdit = () => setEditMode(null);
+
+  const commitEdit = () => {
+    if (!onEdit || !editMode) return;
+
+    let action: TreeEditAction;
+    if (editMode === 'value') {
+      action = { type: 'set-value', path: node.path, value: parseEditedValue(draft, node.type, losslessNumbers) };
+    } else if (editMode === 'key') {
+      action = { type: 'rename', path: node.path, newKey: draft.trim() };
+    } else {
+      action = node.type === 'array'
+        ? { type: 'add-child', path: node.path, value: parseEditedValue(draft, undefined, losslessNumbers) }
+        : { type: 'add-child', path: node.path, key: draftKey.trim(), value: parseEditedValue(draft, undefined, losslessNumbers) };
+    }
+
+    if (onEdit(action)) {
+      setEditMode(null);
+      if (editMode === 'add' && !node.expanded) handleToggle();
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    commitEdit();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') cancelEdit();
+  };
+
   const renderValue = () => {
     if (node.type === 'object') {
+      // Byte strings, dates, ObjectIds etc. from binary formats show their type and value
+      const typed = describeTypedValue(node.value);
+      if (typed) {
+        return (
+          <span className="inline-flex items-center gap-1">
+            <span className="rounded bg-violet-100 px-1 text-xs text-violet-700 dark:bg-violet-900/30 dark:text-violet-400">
+              {typed.label}
+            </span>
+            {typed.summary && <span className="text-muted-foreground">{typed.summary}</span>}
+          </span>
+        );
+      }
       return <span className="text-muted-foreground">{`{${node.children.length}}`}</span>;
     }
     if (node.type === 'array') {
@@ -55,15 +198,28 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
     if (node.type === 'null') {
       return <span className="text-gray-500 dark:text-gray-400">null</span>;
     }
+    if (isJsonNumber(node.value)) {
+      const warning = getPrecisionWarning(node.value);
+      return (
+        <span className={cn('inline-flex items-center gap-1', typeColors.number)}>
+          {formatNumber(node.value)}
+          {warning && (
+            <span title={warning} aria-label={warning}>
+              <AlertTriangle className="h-3 w-3 text-amber-500" />
+            </span>
+          )}
+        </span>
+      );
+    }
     return <span className={typeColors[node.type as keyof typeof typeColors] || ''}>{String(node.value)}</span>;
   };
 
   const highlightMatch = (text: string) => {
     if (!searchQuery) return text;
-    
+
     const regex = new RegExp(`(${searchQuery})`, 'gi');
     const parts = text.split(regex);
-    
+
     return parts.map((part, index) =>
       regex.test(part) ? (
         <mark key={index} className="bg-yellow-200 dark:bg-yellow-800">
@@ -75,14 +231,49 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
     );
   };
 
+  const renderEditor = () => (
+    <form className="flex items-center gap-1" onSubmit={handleSubmit}>
+      {editMode === 'add' && node.type === 'object' && (
+        <input
+          ref={inputRef}
+          value={draftKey}
+          onChange={(e) => setDraftKey(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="key"
+          aria-label="New key"
+          className={cn(inputClasses, 'w-28')}
+        />
+      )}
+      <input
+        ref={editMode === 'add' && node.type === 'object' ? undefined : inputRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={editMode === 'key' ? 'key' : 'value (JSON or text)'}
+        aria-label={editMode === 'key' ? 'Key name' : 'Value'}
+        className={cn(inputClasses, 'w-48')}
+      />
+      <button type="submit" title="Apply" className={actionClasses}>
+        <Check className="h-3 w-3" />
+      </button>
+      <button type="button" onClick={cancelEdit} title="Cancel" className={actionClasses}>
+        <X className="h-3 w-3" />
+      </button>
+    </form>
+  );
+
   return (
     <div className="select-none">
       <div
         className={cn(
           'group flex items-center gap-1 rounded px-2 py-1 hover:bg-accent',
-          'cursor-pointer transition-colors'
+          'cursor-pointer transition-colors',
+          selectedKey === nodeKey && 'bg-accent',
+          schemaMessages && 'bg-red-50 dark:bg-red-900/20',
+          schemaMarks?.activeKey === nodeKey && 'ring-1 ring-destructive'
         )}
         style={{ paddingLeft: `${node.depth * 20 + 8}px` }}
+        data-node-key={nodeKey}
       >
         {isExpandable && (
           <button
@@ -98,29 +289,114 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
         )}
         {!isExpandable && <span className="w-4" />}
 
-        <span className="font-mono text-sm">
-          {node.key !== 'root' && (
+        {editMode === 'key' ? (
+          renderEditor()
+        ) : (
+          <span className="font-mono text-sm">
+            {node.key !== 'root' && (
+              <>
+                <span className="text-foreground">
+                  {highlightMatch(node.key)}
+                </span>
+                <span className="text-muted-foreground">: </span>
+              </>
+            )}
+            {editMode !== 'value' && renderValue()}
+          </span>
+        )}
+        {schemaMessages && (
+          <span title={schemaMessages.join('\n')} className="flex items-center text-destructive">
+            <AlertCircle className="h-3 w-3" />
+          </span>
+        )}
+        {hasFailingDescendant && (
+          <span title="Contains schema errors" className="h-1.5 w-1.5 rounded-full bg-destructive" />
+        )}
+        {duplicates && (
+          <span
+            title={duplicates.map(describeDuplicate).join('\n')}
+            className="rounded bg-amber-100 px-1 text-xs text-amber-700 dark:bg-amber-900/30 dark:text-amber-400"
+          >
+            {duplicates.length} duplicate key{duplicates.length === 1 ? '' : 's'}
+          </span>
+        )}
+        {commentText && (
+          <span title={commentText} className="flex items-center text-muted-foreground">
+            <MessageSquare className="h-3 w-3" />
+          </span>
+        )}
+        {sharedNote && (
+          <span title={sharedNote} className="flex items-center text-muted-foreground">
+            <Link2 className="h-3 w-3" />
+          </span>
+        )}
+        {(editMode === 'value' || editMode === 'add') && renderEditor()}
+
+        <div className="ml-auto flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          {onEdit && !editMode && (
             <>
-              <span className="text-foreground">
-                {highlightMatch(node.key)}
-              </span>
-              <span className="text-muted-foreground">: </span>
+              {!isExpandable && (
+                <button onClick={() => startEdit('value')} title="Edit value" className={actionClasses}>
+                  <Pencil className="h-3 w-3" />
+                </button>
+              )}
+              {!isRoot && arrayIndex === null && (
+                <button onClick={() => startEdit('key')} title="Rename key" className={actionClasses}>
+                  <TextCursorInput className="h-3 w-3" />
+                </button>
+              )}
+              {isExpandable && (
+                <button onClick={() => startEdit('add')} title="Add child" className={actionClasses}>
+                  <Plus className="h-3 w-3" />
+                </button>
+              )}
+              {arrayIndex !== null && (
+                <>
+                  <button
+                    onClick={() => onEdit({ type: 'move', path: node.path, toIndex: arrayIndex - 1 })}
+                    disabled={arrayIndex === 0}
+                    title="Move up"
+                    className={cn(actionClasses, 'disabled:opacity-30')}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </button>
+                  <button
+                    onClick={() => onEdit({ type: 'move', path: node.path, toIndex: arrayIndex + 1 })}
+                    disabled={arrayIndex >= siblingCount - 1}
+                    title="Move down"
+                    className={cn(actionClasses, 'disabled:opacity-30')}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </button>
+                </>
+              )}
+              {!isRoot && (
+                <button
+                  onClick={() => onEdit({ type: 'delete', path: node.path })}
+                  title="Delete"
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              )}
             </>
           )}
-          {renderValue()}
-        </span>
-
-        <button
-          onClick={handleCopyPath}
-          className="ml-auto opacity-0 group-hover:opacity-100 transition-opacity"
-          title="Copy path"
-        >
-          {copied ? (
-            <Check className="h-3 w-3 text-green-600" />
-          ) : (
-            <Copy className="h-3 w-3 text-muted-foreground hover:text-foreground" />
+          {onRevealInSource && (
+            <button onClick={() => onRevealInSource(node.path)} title="Reveal in source" className={actionClasses}>
+              <FileCode className="h-3 w-3" />
+            </button>
           )}
-        </button>
+          <button
+            onClick={handleCopyPath}
+            title="Copy path"
+          >
+            {copied ? (
+              <Check className="h-3 w-3 text-green-600" />
+            ) : (
+              <Copy className="h-3 w-3 text-muted-foreground hover:text-foreground" />
+            )}
+          </button>
+        </div>
       </div>
 
       {node.expanded && hasChildren && (
@@ -131,10 +407,19 @@ export const TreeNodeComponent: React.FC<TreeNodeProps> = ({
               node={child}
               searchQuery={searchQuery}
               onToggle={onToggle}
+              onEdit={onEdit}
+              siblingCount={node.children.length}
+              inArray={node.type === 'array'}
+              schemaMarks={schemaMarks}
+              duplicateKeys={duplicateKeys}
+              comments={comments}
+              sharedNodes={sharedNodes}
+              selectedKey={selectedKey}
+              onRevealInSource={onRevealInSource}
             />
           ))}
         </div>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -1,30 +1,132 @@
 import { ChevronRight, ChevronDown, Search } from 'lucide-react';
-import React, { useMemo, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 
-import { jsonToTreeNodes, filterTreeNodes } from '../../../lib/data-transformers';
+import { useTreeEditor } from '../../../hooks/useTreeEditor';
+import { jsonToTreeNodes, filterTreeNodes, getJsonPath, getTreeNodeKey } from '../../../lib/data-transformers';
 import { enhancedSearchJson } from '../../../lib/enhanced-json-search';
+import { useJsonStore } from '../../../stores/json-store';
 import { useUIStore } from '../../../stores/ui-store';
-import { JsonValue } from '../../../types/json.types';
+import { useValidationStore } from '../../../stores/validation-store';
+import { DuplicateKey, JsonValue } from '../../../types/json.types';
 import { TreeNode } from '../../../types/visualization.types';
 import { Button } from '../../ui/Button';
 
-import { TreeNodeComponent } from './TreeNode';
+import { TreeNodeComponent, TreeSchemaMarks } from './TreeNode';
 
 interface TreeViewProps {
   data: JsonValue;
+  /** Showing something other than the document, such as a query result: no editing or source annotations */
+  readOnly?: boolean;
 }
 
-export const TreeView: React.FC<TreeViewProps> = ({ data }) => {
-  const { searchQuery, searchOptions, expandLevel } = useUIStore();
-  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
+function withAncestorsExpanded(expanded: Set<string>, path: string[]): Set<string> {
+  const next = new Set(expanded);
+  path.forEach((_, depth) => next.add(getTreeNodeKey(path.slice(0, depth))));
+  return next;
+}
+
+export const TreeView: React.FC<TreeViewProps> = ({ data, readOnly = false }) => {
+  const { searchQuery, searchOptions, expandLevel, selectedPath, revealNode } = useUIStore();
+  const [expandedNodes, setExpandedNodes] = useState<Set<string>>(() => {
+    const { focusPath } = useValidationStore.getState();
+    const initialPath = focusPath ?? useUIStore.getState().selectedPath;
+    return initialPath ? withAncestorsExpanded(new Set(), initialPath) : new Set();
+  });
   const [allExpanded, setAllExpanded] = useState(false);
+  const { applyEdit } = useTreeEditor();
+  const { issues, activeIndex } = useValidationStore();
+  const duplicates = useJsonStore((state) => (readOnly ? undefined : state.parsedData?.duplicateKeys));
+  const sourceComments = useJsonStore((state) => (readOnly ? undefined : state.parsedData?.comments));
+  const anchors = useJsonStore((state) => (readOnly ? undefined : state.parsedData?.anchors));
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const schemaMarks = useMemo<TreeSchemaMarks | undefined>(() => {
+    if (issues.length === 0) return undefined;
+
+    const messages = new Map<string, string[]>();
+    const ancestors = new Set<string>();
+    issues.forEach((issue) => {
+      const key = getTreeNodeKey(issue.nodePath);
+      messages.set(key, [...(messages.get(key) ?? []), issue.message]);
+      issue.nodePath.forEach((_, depth) => ancestors.add(getTreeNodeKey(issue.nodePath.slice(0, depth))));
+    });
+
+    const activeIssue = issues[activeIndex]; // eslint-disable-line security/detect-object-injection
+    return { messages, ancestors, activeKey: activeIssue ? getTreeNodeKey(activeIssue.nodePath) : null };
+  }, [issues, activeIndex]);
+
+  const duplicateKeys = useMemo(() => {
+    if (!duplicates?.length) return undefined;
+
+    const byObject = new Map<string, DuplicateKey[]>();
+    duplicates.forEach((duplicate) => {
+      const key = getTreeNodeKey(duplicate.path);
+      byObject.set(key, [...(byObject.get(key) ?? []), duplicate]);
+    });
+    return byObject;
+  }, [duplicates]);
+
+  const comments = useMemo(() => {
+    if (!sourceComments?.length) return undefined;
+    return new Map(sourceComments.map((entry) => [getTreeNodeKey(entry.path), entry]));
+  }, [sourceComments]);
+
+  // YAML nodes shared through anchors, noted on the anchored node and on every copy
+  const sharedNodes = useMemo(() => {
+    if (!anchors?.length) return undefined;
+
+    const notes = new Map<string, string>();
+    anchors.forEach(({ name, path, aliases }) => {
+      if (aliases.length === 0) return;
+      const source = getJsonPath(path) || 'root';
+      notes.set(getTreeNodeKey(path), `Anchor &${name}, reused at ${aliases.map((alias) => getJsonPath(alias) || 'root').join(', ')}`);
+      aliases.forEach((alias) => notes.set(getTreeNodeKey(alias), `Copy of anchor &${name} at ${source}`));
+    });
+    return notes;
+  }, [anchors]);
+
+  // Expand the ancestors of the node selected in the error navigator and scroll to it
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const scrollTo = (path: string[]) => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const selector = `[data-node-key="${CSS.escape(getTreeNodeKey(path))}"]`;
+        scrollRef.current?.querySelector(selector)?.scrollIntoView({ block: 'center' });
+      }, 0);
+    };
+
+    const reveal = (path: string[]) => {
+      setExpandedNodes((prev) => withAncestorsExpanded(prev, path));
+      scrollTo(path);
+    };
+
+    // A jump made before this view mounted was already expanded by the initial state
+    const initialPath = useValidationStore.getState().focusPath ?? useUIStore.getState().selectedPath;
+    if (initialPath) scrollTo(initialPath);
+
+    const unsubscribeValidation = useValidationStore.subscribe((state, previous) => {
+      if (state.focusPath && state.focusRequest !== previous.focusRequest) reveal(state.focusPath);
+    });
+    const unsubscribeSelection = useUIStore.subscribe((state, previous) => {
+      if (state.selectedPath && state.revealRequest !== previous.revealRequest) reveal(state.selectedPath);
+    });
+
+    return () => {
+      unsubscribeValidation();
+      unsubscribeSelection();
+      clearTimeout(timer);
+    };
+  }, []);
+
+  const revealInSource = useCallback((path: string[]) => revealNode(path, 'raw'), [revealNode]);
 
   // Enhanced search with multiple modes
-  const { treeData, searchResults } = useMemo(() => {
+  const { treeData, searchResults, searchError } = useMemo(() => {
     const tree = jsonToTreeNodes(data, [], expandLevel);
     
     if (!searchQuery) {
-      return { treeData: tree, searchResults: null, highlightPaths: new Set<string>() };
+      return { treeData: tree, searchResults: null, searchError: undefined, highlightPaths: new Set<string>() };
     }
     
     // Use enhanced search for all modes
@@ -42,7 +144,7 @@ export const TreeView: React.FC<TreeViewProps> = ({ data }) => {
     if (searchByType) {
       searchOpts.searchByType = searchByType;
     }
-    const { results } = enhancedSearchJson(data, searchOpts);
+    const { results, stats } = enhancedSearchJson(data, searchOpts);
     
     // Create a set of paths to highlight
     const pathsToHighlight = new Set<string>();
@@ -62,17 +164,18 @@ export const TreeView: React.FC<TreeViewProps> = ({ data }) => {
     return { 
       treeData: filteredTree || tree, 
       searchResults: results,
+      searchError: stats.error,
       highlightPaths: pathsToHighlight
     };
   }, [data, expandLevel, searchQuery, searchOptions]);
 
-  const handleNodeToggle = useCallback((nodeId: string) => {
+  const handleNodeToggle = useCallback((nodeKey: string) => {
     setExpandedNodes((prev) => {
       const next = new Set(prev);
-      if (next.has(nodeId)) {
-        next.delete(nodeId);
+      if (next.has(nodeKey)) {
+        next.delete(nodeKey);
       } else {
-        next.add(nodeId);
+        next.add(nodeKey);
       }
       return next;
     });
@@ -85,7 +188,7 @@ export const TreeView: React.FC<TreeViewProps> = ({ data }) => {
     } else {
       const allNodeIds = new Set<string>();
       const collectNodeIds = (node: TreeNode) => {
-        allNodeIds.add(node.id);
+        allNodeIds.add(getTreeNodeKey(node.path));
         node.children.forEach(collectNodeIds);
       };
       if (treeData) collectNodeIds(treeData);
@@ -99,7 +202,7 @@ export const TreeView: React.FC<TreeViewProps> = ({ data }) => {
     
     const modifyNode = (node: TreeNode): TreeNode => ({
       ...node,
-      expanded: expandedNodes.has(node.id) ?? node.expanded,
+      expanded: expandedNodes.has(getTreeNodeKey(node.path)) ?? node.expanded,
       children: node.children.map(modifyNode),
     });
     
@@ -124,6 +227,7 @@ export const TreeView: React.FC<TreeViewProps> = ({ data }) => {
             <div className="flex items-center text-xs text-muted-foreground mr-2">
               <Search className="h-3 w-3 mr-1" />
               {searchQuery.startsWith('$') ? 'JSONPath' : 'Search'}: {searchQuery}
+              {searchError && <span className="ml-2 text-destructive">{searchError}</span>}
             </div>
           )}
           <Button
@@ -147,12 +251,19 @@ export const TreeView: React.FC<TreeViewProps> = ({ data }) => {
         </div>
       </div>
 
-      <div className="flex-1 overflow-x-auto overflow-y-auto p-2">
+      <div ref={scrollRef} className="flex-1 overflow-x-auto overflow-y-auto p-2">
         <div className="min-w-max">
           <TreeNodeComponent
             node={modifiedTreeData}
             searchQuery={searchQuery}
             onToggle={handleNodeToggle}
+            onEdit={readOnly ? undefined : applyEdit}
+            schemaMarks={schemaMarks}
+            duplicateKeys={duplicateKeys}
+            comments={comments}
+            sharedNodes={sharedNodes}
+            selectedKey={selectedPath ? getTreeNodeKey(selectedPath) : null}
+            onRevealInSource={revealInSource}
           />
         </div>
       </div>
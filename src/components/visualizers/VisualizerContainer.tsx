@@ -6,44 +6,57 @@ import { ErrorBoundary } from '@/components/common/ErrorBoundary';
 import { Loading } from '@/components/common/Loading';
 import { Card } from '@/components/ui/Card';
 
+import { SchemaIssueNavigator } from './SchemaIssueNavigator';
+
 const TreeView = React.lazy(() => import('./TreeView').then(module => ({ default: module.TreeView })));
 const RawView = React.lazy(() => import('./RawView').then(module => ({ default: module.RawView })));
 const NewGraphView = React.lazy(() => import('./GraphView/NewGraphView').then(module => ({ default: module.NewGraphView })));
 const TableView = React.lazy(() => import('./TableView').then(module => ({ default: module.TableView })));
+const DiffView = React.lazy(() => import('./DiffView').then(module => ({ default: module.DiffView })));
 
 interface VisualizerContainerProps {
   data: JsonValue;
+  /** The data is not the loaded document (a query result), so views must not edit it */
+  readOnly?: boolean;
+  /** The data is an array of records with these fields (a SQL result), shown one column per field in the table view */
+  columns?: string[];
 }
 
-export const VisualizerContainer: React.FC<VisualizerContainerProps> = ({ data }) => {
+export const VisualizerContainer: React.FC<VisualizerContainerProps> = ({ data, readOnly = false, columns }) => {
   const { activeView } = useUIStore();
 
   const renderView = () => {
     switch (activeView) {
       case 'tree':
-        return <TreeView data={data} />;
+        return <TreeView data={data} readOnly={readOnly} />;
       case 'raw':
-        return <RawView data={data} />;
+        return <RawView data={data} readOnly={readOnly} />;
       case 'graph':
         return <NewGraphView data={data} />;
       case 'table':
-        return <TableView data={data} />;
+        return <TableView data={data} columns={columns} />;
+      case 'diff':
+        return <DiffView data={data} />;
       default:
-        return <TreeView data={data} />;
+        return <TreeView data={data} readOnly={readOnly} />;
     }
   };
 
   return (
     <Card 
-      className="h-full overflow-hidden visualization-container"
+      className="h-full overflow-hidden visualization-container flex flex-col"
       data-export="visualization"
       data-view={activeView}
     >
-      <ErrorBoundary>
-        <Suspense fallback={<Loading message={`Loading ${activeView} view...`} />}>
-          {renderView()}
-        </Suspense>
-      </ErrorBoundary>
+      <SchemaIssueNavigator />
+      <div className="min-h-0 flex-1">
+        {/* Remount when switching between the document and a query result, so no edit or expansion state carries over */}
+        <ErrorBoundary key={readOnly ? 'query-result' : 'document'}>
+          <Suspense fallback={<Loading message={`Loading ${activeView} view...`} />}>
+            {renderView()}
+          </Suspense>
+        </ErrorBoundary>
+      </div>
     </Card>
   );
 };
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { TIMING } from '../../../lib/app-constants';
+import { useJsonStore } from '../../../stores/json-store';
+import { useSettingsStore } from '../../../stores/settings-store';
+import { RawView } from '../RawView';
+
+vi.mock('@monaco-editor/react', () => ({
+  default: ({ value, onChange }: { value: string; onChange: (value: string) => void }) => (
+    <textarea aria-label="Editor" value={value} onChange={(e) => onChange(e.target.value)} />
+  ),
+}));
+
+describe('RawView', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useJsonStore.getState().setJsonData({ a: 1 }, '{"a": 1}');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    useSettingsStore.setState({ duplicateKeyPolicy: 'last-wins' });
+  });
+
+  it('should commit valid edits once typing stops', () => {
+    render(<RawView data={{ a: 1 }} />);
+    fireEvent.click(screen.getByText('Edit'));
+    const editor = screen.getByLabelText('Editor');
+
+    fireEvent.change(editor, { target: { value: '{"a": 2' } });
+    act(() => vi.advanceTimersByTime(TIMING.RAW_EDIT_DEBOUNCE_DELAY));
+    expect(useJsonStore.getState().data).toEqual({ a: 1 });
+
+    fireEvent.change(editor, { target: { value: '{"a": 2}' } });
+    act(() => vi.advanceTimersByTime(TIMING.RAW_EDIT_DEBOUNCE_DELAY - 1));
+    expect(useJsonStore.getState().data).toEqual({ a: 1 });
+    act(() => vi.advanceTimersByTime(1));
+    expect(useJsonStore.getState()).toMatchObject({ data: { a: 2 }, rawInput: '{"a": 2}' });
+    expect(screen.getByText(/changes are applied automatically/)).toBeInTheDocument();
+  });
+
+  it('should commit a document edited down to null', () => {
+    render(<RawView data={{ a: 1 }} />);
+    fireEvent.click(screen.getByText('Edit'));
+
+    fireEvent.change(screen.getByLabelText('Editor'), { target: { value: 'null' } });
+    act(() => vi.advanceTimersByTime(TIMING.RAW_EDIT_DEBOUNCE_DELAY));
+    expect(useJsonStore.getState()).toMatchObject({ data: null, rawInput: 'null' });
+  });
+
+  it('should resolve and report repeated keys in edits by the duplicate key policy', () => {
+    useSettingsStore.setState({ duplicateKeyPolicy: 'first-wins' });
+    render(<RawView data={{ a: 1 }} />);
+    fireEvent.click(screen.getByText('Edit'));
+
+    fireEvent.change(screen.getByLabelText('Editor'), { target: { value: '{"a": 1, "a": 2}' } });
+    act(() => vi.advanceTimersByTime(TIMING.RAW_EDIT_DEBOUNCE_DELAY));
+    expect(useJsonStore.getState().data).toEqual({ a: 1 });
+    expect(useJsonStore.getState().parsedData?.duplicateKeys).toEqual([
+      { path: [], key: 'a', line: 1, column: 10, firstValue: 1, value: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+import { File as NodeFile } from 'node:buffer';
+
+import { act, renderHook } from '@testing-library/react';
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+
+import { FILE_LIMITS } from '../../lib/app-constants';
+import { ZipEntry } from '../../lib/compression';
+import { useErrorStore } from '../../stores/error-store';
+import { useHistoryStore } from '../../stores/history-store';
+import { useJsonStore } from '../../stores/json-store';
+import { useFileUpload } from '../useFileUpload';
+
+const processFileWithWorker = vi.fn();
+
+vi.mock('../useLargeFileHandler', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../useLargeFileHandler')>()),
+  useLargeFileHandler: () => ({ processFileWithWorker, cancel: vi.fn(), progress: 0, isProcessing: false }),
+}));
+
+/** Files in the zip archive used by the tests, two of which only parse after repairs */
+const ARCHIVE: Record<string, string> = {
+  'a.json': '{"a": 1}',
+  'broken-b.json': '{"b": "x\ty"}',
+  'dir/c.json': '{"c": 3}',
+  'broken-d.json': '{"d": "x\ty"}',
+};
+
+vi.mock('../../lib/compression', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/compression')>()),
+  getFileCompression: async (file: File) => (file.name.endsWith('.zip') ? 'zip' : null),
+  readZipEntries: () => Object.entries(ARCHIVE).map(([name, content]) => ({ name, size: content.length })),
+  extractZipEntry: async (_bytes: Uint8Array, entry: ZipEntry) => new TextEncoder().encode(ARCHIVE[entry.name]),
+}));
+
+/** jsdom files cannot be read, so the reads the upload makes are served from `content` */
+function readableFile(content: string, name: string): File {
+  const bytes = new TextEncoder().encode(content);
+  return Object.assign(new File([content], name), {
+    text: async () => content,
+    slice: (start?: number, end?: number) => ({ arrayBuffer: async () => bytes.slice(start, end).buffer }),
+  });
+}
+
+describe('useFileUpload', () => {
+  beforeEach(() => {
+    processFileWithWorker.mockReset();
+    useJsonStore.getState().clearData();
+    useJsonStore.setState({ pendingRepairs: [] });
+    useHistoryStore.getState().clearHistory();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should hold a repaired file for review instead of loading it', async () => {
+    // The streaming parser in the worker rejects the raw tab inside the string
+    processFileWithWorker.mockRejectedValue(new Error('Bad control character in string literal'));
+    const { result } = renderHook(() => useFileUpload());
+    const file = readableFile('{"a": "x\ty"}', 'broken.json');
+
+    let upload: Awaited<ReturnType<typeof result.current.handleFileUpload>> | undefined;
+    await act(async () => {
+      upload = await result.current.handleFileUpload(file);
+    });
+
+    expect(upload).toMatchObject({ success: true, awaitingSelection: true });
+    expect(useJsonStore.getState().data).toBeNull();
+    expect(result.current.repair).toMatchObject({ fileName: 'broken.json', original: '{"a": "x\ty"}' });
+    expect(result.current.repair?.repairs).toHaveLength(1);
+
+    act(() => result.current.loadRepairedFile('{"a": "x\\ty"}'));
+
+    expect(result.current.repair).toBeNull();
+    expect(useJsonStore.getState().data).toEqual({ a: 'x\ty' });
+  });
+
+  it('should report files recovery cannot fix as errors', async () => {
+    processFileWithWorker.mockRejectedValue(new Error('Unexpected end of JSON input'));
+    const { result } = renderHook(() => useFileUpload());
+
+    let upload: Awaited<ReturnType<typeof result.current.handleFileUpload>> | undefined;
+    await act(async () => {
+      upload = await result.current.handleFileUpload(readableFile('{"a": ', 'truncated.json'));
+    });
+
+    expect(upload).toMatchObject({ success: false, error: 'Unexpected end of JSON input' });
+    expect(result.current.repair).toBeNull();
+  });
+
+  it('should skip and count invalid lines in a partial NDJSON preview', async () => {
+    const content = '{"a": 1}\nnot json\n{"a": 2}\n';
+    const entries = [[0, 8], [9, 17], [18, 26]].map(([start = 0, end = 0], key) => ({ key, start, end, type: 'object' as const }));
+    processFileWithWorker.mockResolvedValue({ data: null, format: 'ndjson', index: { rootType: 'array', entries } });
+    const { result } = renderHook(() => useFileUpload());
+    const file = readableFile(content, 'huge.ndjson');
+    Object.defineProperty(file, 'size', { value: FILE_LIMITS.MAX_FILE_SIZE + 1 });
+
+    await act(async () => {
+      await result.current.handleFileUpload(file);
+    });
+
+    expect(useJsonStore.getState().data).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(useJsonStore.getState().parsedData).toMatchObject({ recordCount: 2, invalidLineCount: 1 });
+  });
+
+  it('should turn down large files that cannot be indexed before parsing them', async () => {
+    const { result } = renderHook(() => useFileUpload());
+    const file = readableFile('a: 1', 'huge.yaml');
+    Object.defineProperty(file, 'size', { value: FILE_LIMITS.MAX_FILE_SIZE + 1 });
+
+    let upload: Awaited<ReturnType<typeof result.current.handleFileUpload>> | undefined;
+    await act(async () => {
+      upload = await result.current.handleFileUpload(file);
+    });
+
+    expect(processFileWithWorker).not.toHaveBeenCalled();
+    expect(upload?.success).toBe(false);
+    const { errors } = useErrorStore.getState();
+    expect(errors[errors.length - 1]?.error).toMatchObject({
+      code: 'FILE_TOO_LARGE',
+      details: `YAML files over ${FILE_LIMITS.MAX_FILE_SIZE_MB}MB cannot be opened; only JSON and NDJSON files that large open as a partial preview`,
+    });
+  });
+
+  it('should open archive entries as separate documents and review their repairs in turn', async () => {
+    // Node's File can be read, unlike jsdom's, so extracted entries can be recovered from their text
+    vi.stubGlobal('File', NodeFile);
+    processFileWithWorker.mockImplementation(async (file: File) => ({ data: JSON.parse(await file.text()), format: 'json' }));
+    useJsonStore.getState().setInputMethod('paste');
+    useJsonStore.getState().setJsonData({ previous: true }, '{"previous": true}');
+    const { result } = renderHook(() => useFileUpload());
+
+    await act(async () => {
+      await result.current.handleFileUpload(new File(['PK\x03\x04'], 'bundle.zip'));
+    });
+    const entries = result.current.archive?.entries ?? [];
+    await act(async () => {
+      await result.current.loadArchiveEntries(entries);
+    });
+
+    const names = () => useJsonStore.getState().documents.map((document) => document.name);
+    expect(names()).toEqual(['JSON pasted', 'a.json', 'broken-b.json', 'c.json', 'broken-d.json']);
+    expect(useJsonStore.getState().data).toEqual({ a: 1 });
+    expect(result.current.repair).toMatchObject({ fileName: 'broken-b.json' });
+
+    act(() => result.current.loadRepairedFile('{"b": "x\\ty"}'));
+    expect(useJsonStore.getState().data).toEqual({ b: 'x\ty' });
+    expect(result.current.repair).toMatchObject({ fileName: 'broken-d.json' });
+
+    act(() => result.current.cancelRepair());
+    expect(result.current.repair).toBeNull();
+    expect(names()).toEqual(['JSON pasted', 'a.json', 'broken-b.json', 'c.json']);
+
+    const [previous, , , c] = useJsonStore.getState().documents;
+    act(() => useJsonStore.getState().switchDocument(c?.id ?? ''));
+    expect(useJsonStore.getState().data).toEqual({ c: 3 });
+    act(() => useJsonStore.getState().switchDocument(previous?.id ?? ''));
+    expect(useJsonStore.getState().data).toEqual({ previous: true });
+    expect(useHistoryStore.getState().entries.map((entry) => entry.description)).toEqual(['JSON pasted']);
+  });
+});
@@ -0,0 +1,72 @@
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { parseCSV } from '../../lib/csv';
+import { parseJSON } from '../../lib/json-parser';
+import { isLosslessNumber, tagLosslessNumbers } from '../../lib/lossless-number';
+import { useLargeFileHandler } from '../useLargeFileHandler';
+
+/** Stands in for the parser worker, answering every request with `reply` */
+let reply: (request: { file: File; format: string }) => Record<string, unknown>;
+
+class FakeWorker {
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((error: { message: string }) => void) | null = null;
+  private terminated = false;
+  terminate = vi.fn(() => {
+    this.terminated = true;
+  });
+
+  postMessage(request: { file: File; format: string }) {
+    queueMicrotask(() => {
+      if (!this.terminated) this.onmessage?.({ data: { type: 'result', ...reply(request) } });
+    });
+  }
+}
+
+describe('useLargeFileHandler', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should pass CSV column names through from the worker', async () => {
+    reply = ({ format }) => ({ format, ...parseCSV('id,name\n1,Ada') });
+    const { result } = renderHook(() => useLargeFileHandler());
+
+    let parsed: Awaited<ReturnType<typeof result.current.processFileWithWorker>> | undefined;
+    await act(async () => {
+      parsed = await result.current.processFileWithWorker(new File(['id,name\n1,Ada'], 'people.csv'));
+    });
+
+    expect(parsed).toMatchObject({ format: 'csv', columns: ['id', 'name'], data: [{ id: 1, name: 'Ada' }] });
+  });
+
+  it('should revive the lossless numbers the worker sends tagged', async () => {
+    reply = ({ format }) => ({
+      format,
+      data: structuredClone(tagLosslessNumbers(parseJSON('{"id": 12345678901234567890}', { losslessNumbers: true }).data)),
+    });
+    const { result } = renderHook(() => useLargeFileHandler());
+
+    let parsed: Awaited<ReturnType<typeof result.current.processFileWithWorker>> | undefined;
+    await act(async () => {
+      parsed = await result.current.processFileWithWorker(new File(['{}'], 'big.json'), { losslessNumbers: true });
+    });
+
+    expect(isLosslessNumber((parsed?.data as Record<string, unknown>)['id'])).toBe(true);
+  });
+
+  it('should finish parsing after the uploader unmounts for the loading screen', async () => {
+    reply = ({ format }) => ({ format, data: { a: 1 } });
+    const { result, unmount } = renderHook(() => useLargeFileHandler());
+
+    const parsing = result.current.processFileWithWorker(new File(['{"a": 1}'], 'data.json'));
+    unmount();
+
+    await expect(parsing).resolves.toMatchObject({ data: { a: 1 } });
+  });
+});
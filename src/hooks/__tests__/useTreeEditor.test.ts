@@ -0,0 +1,33 @@
+import { act, renderHook } from '@testing-library/react';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { parseDialect } from '../../lib/json-dialects';
+import { useHistoryStore } from '../../stores/history-store';
+import { useJsonStore } from '../../stores/json-store';
+import { useHistoryActions } from '../useHistoryActions';
+import { useTreeEditor } from '../useTreeEditor';
+
+const SOURCE = '{\n  // the port\n  port: 8080,\n}';
+
+describe('useTreeEditor', () => {
+  beforeEach(() => {
+    useHistoryStore.getState().clearHistory();
+    const { data, comments } = parseDialect(SOURCE, 'json5');
+    useJsonStore.getState().setInputMethod('paste');
+    useJsonStore.getState().setJsonData(data, SOURCE, { parsed: { format: 'json5', comments } });
+  });
+
+  it('should keep the dialect and comments through edits and undo', () => {
+    const { result } = renderHook(() => ({ editor: useTreeEditor(), history: useHistoryActions() }));
+
+    act(() => {
+      result.current.editor.applyEdit({ type: 'set-value', path: ['port'], value: 9090 });
+    });
+    expect(useJsonStore.getState().rawInput).toBe('{\n  // the port\n  port: 9090\n}\n');
+    expect(useJsonStore.getState().parsedData).toMatchObject({ format: 'json5', comments: [{ path: ['port'] }] });
+
+    act(() => result.current.history.handleUndo());
+    expect(useJsonStore.getState()).toMatchObject({ data: { port: 8080 }, rawInput: SOURCE });
+    expect(useJsonStore.getState().parsedData).toMatchObject({ format: 'json5', comments: [{ path: ['port'] }] });
+  });
+});
@@ -1,22 +1,128 @@
 import { useState, useCallback } from 'react';
 
-import { createError, ErrorCodes } from '@/lib/error-handler';
-import { stringifyJSON } from '@/lib/json-parser';
+import { FILE_LIMITS } from '@/lib/app-constants';
+import { BINARY_FORMAT_LABELS, getBinaryFormatFromContentType, isBinaryFormat } from '@/lib/binary-formats';
+import {
+  COMPRESSED_CONTENT_TYPES, decompress, extractZipEntry, getDecompressedFileName, getFileCompression, readZipEntries, ZipEntry,
+} from '@/lib/compression';
+import { isCsvContentType } from '@/lib/csv';
+import { createError, ErrorCodes, JsonHeroError } from '@/lib/error-handler';
+import { DIALECT_LABELS } from '@/lib/json-dialects';
+import { parseJSON, parseJSONWithRepairs, stringifyJSON } from '@/lib/json-parser';
+import { readIndexedEntries } from '@/lib/streaming-json-parser';
+import { formatBytes } from '@/lib/utils';
 import { validateFile } from '@/lib/validation';
+import { isXmlContentType } from '@/lib/xml';
+import { isYamlContentType } from '@/lib/yaml';
 import { useJsonStore } from '@/stores/json-store';
+import { useSettingsStore } from '@/stores/settings-store';
 import { FileUploadResult } from '@/types/api.types';
 
 import { useErrorHandler } from './useErrorHandler';
-import { useLargeFileHandler } from './useLargeFileHandler';
+import { getFileFormat, useLargeFileHandler } from './useLargeFileHandler';
+
+/** Compressed files nested deeper than this (e.g. `.json.gz.gz.gz`) are not unwrapped further */
+const MAX_COMPRESSION_LAYERS = 3;
+
+/**
+ * A zip archive with several files, waiting for the user to choose which to load
+ */
+export interface PendingArchive {
+  fileName: string;
+  bytes: Uint8Array;
+  entries: ZipEntry[];
+}
 
 export const useFileUpload = () => {
   const [isDragging, setIsDragging] = useState(false);
-  const { setJsonData, setInputMethod, setLoading, setError, addToHistory } = useJsonStore();
+  const [archive, setArchive] = useState<PendingArchive | null>(null);
+  const {
+    setJsonData, setInputMethod, setLoading, setError, addToHistory, openDocument, switchDocument, closeDocument, queueRepair, dequeueRepair,
+  } = useJsonStore();
+  // Queued in the store, as the upload form is unmounted while files load
+  const repair = useJsonStore((state) => state.pendingRepairs[0] ?? null);
   const { handleError, showSuccess, showToast } = useErrorHandler();
-  const { processFileWithWorker, progress: workerProgress, isProcessing } = useLargeFileHandler();
+  const { processFileWithWorker, cancel, progress: workerProgress, isProcessing } = useLargeFileHandler();
+  const losslessNumbers = useSettingsStore((state) => state.losslessNumbers);
+  const duplicateKeyPolicy = useSettingsStore((state) => state.duplicateKeyPolicy);
+  const preserveComments = useSettingsStore((state) => state.preserveComments);
+  const xmlMapping = useSettingsStore((state) => state.xmlMapping);
+  const csvImport = useSettingsStore((state) => state.csvImport);
+
+  /**
+   * Files above the regular size limit are indexed in the worker without
+   * being materialized, and only their leading entries are loaded.
+   */
+  const openIndexedFile = useCallback(async (file: File): Promise<FileUploadResult> => {
+    // Only JSON and NDJSON can be indexed; anything else would be parsed in full before being turned down
+    const fileFormat = getFileFormat(file.name);
+    if (fileFormat !== 'json' && fileFormat !== 'ndjson') {
+      const label = isBinaryFormat(fileFormat)
+        ? BINARY_FORMAT_LABELS[fileFormat] // eslint-disable-line security/detect-object-injection
+        : fileFormat === 'yaml' || fileFormat === 'xml' || fileFormat === 'csv'
+          ? fileFormat.toUpperCase()
+          : DIALECT_LABELS[fileFormat]; // eslint-disable-line security/detect-object-injection
+      throw createError(
+        ErrorCodes.FILE_TOO_LARGE,
+        `${label} files over ${FILE_LIMITS.MAX_FILE_SIZE_MB}MB cannot be opened; only JSON and NDJSON files that large open as a partial preview`
+      );
+    }
+
+    const { format, index } = await processFileWithWorker(file, { buildIndex: true, materialize: false, losslessNumbers });
+    if (!index || (index.rootType !== 'object' && index.rootType !== 'array')) {
+      throw createError(
+        ErrorCodes.FILE_TOO_LARGE,
+        `Files over ${FILE_LIMITS.MAX_FILE_SIZE_MB}MB can only be opened when the top level is an object or array`
+      );
+    }
+
+    const { data, loadedEntries, invalidEntries } = await readIndexedEntries(file, index, FILE_LIMITS.INDEXED_PREVIEW_SIZE, { losslessNumbers });
+    if (loadedEntries === 0 && index.entries.length > 0) {
+      throw createError(
+        ErrorCodes.FILE_TOO_LARGE,
+        `The first entry is larger than the ${formatBytes(FILE_LIMITS.INDEXED_PREVIEW_SIZE)} preview limit`
+      );
+    }
+
+    if (invalidEntries > 0 && invalidEntries === loadedEntries) {
+      throw createError(ErrorCodes.FILE_INVALID_FORMAT, `None of the first ${loadedEntries} lines are valid JSON`);
+    }
+
+    const jsonString = stringifyJSON(data);
+    const totalEntries = index.entries.length;
+    setJsonData(data, jsonString, {
+      description: `Opened ${loadedEntries} of ${totalEntries} entries (${file.name})`,
+      ...(format === 'ndjson' && { parsed: { format, recordCount: loadedEntries - invalidEntries, invalidLineCount: invalidEntries } }),
+    });
+    setInputMethod('file');
+    addToHistory('file', jsonString);
+
+    showToast({
+      title: 'Large file opened partially',
+      description: `Showing the first ${loadedEntries} of ${totalEntries} top-level entries from ${file.name} (${formatBytes(file.size)})`
+        + (invalidEntries > 0 ? `; skipped ${invalidEntries} invalid line${invalidEntries === 1 ? '' : 's'}` : ''),
+      variant: 'info',
+    });
+
+    return { success: true, data, fileName: file.name, fileSize: file.size };
+  }, [processFileWithWorker, losslessNumbers, setJsonData, setInputMethod, addToHistory, showToast]);
+
+  /**
+   * JSON the worker rejects gets the same auto-recovery as pasted text. When
+   * that succeeds, the repairs are held for review instead of being loaded.
+   */
+  const recoverFile = useCallback(async (file: File): Promise<FileUploadResult | null> => {
+    const original = await file.text();
+    const result = parseJSONWithRepairs(original, { losslessNumbers, duplicateKeyPolicy });
+    if (!result.isValid || result.repairs.length === 0) return null;
+
+    queueRepair({ fileName: file.name, original, repairs: result.repairs, documentId: useJsonStore.getState().activeDocumentId });
+    return { success: true, awaitingSelection: true, fileName: file.name, fileSize: file.size };
+  }, [losslessNumbers, duplicateKeyPolicy, queueRepair]);
 
   const processFile = useCallback(async (file: File): Promise<FileUploadResult> => {
-    const validation = validateFile(file);
+    const useIndex = file.size > FILE_LIMITS.MAX_FILE_SIZE;
+    const validation = validateFile(file, useIndex ? FILE_LIMITS.MAX_INDEXED_FILE_SIZE : FILE_LIMITS.MAX_FILE_SIZE);
     if (!validation.isValid) {
       const error = validation.error || 'File validation failed';
 
@@ -33,17 +139,78 @@ export const useFileUpload = () => {
 
     try {
       setLoading(true);
-      const data = await processFileWithWorker(file);
-      const jsonString = stringifyJSON(data);
+      if (useIndex) {
+        return await openIndexedFile(file);
+      }
 
-      setJsonData(data, jsonString);
+      const {
+        data, format, lineErrors = [], duplicateKeys = [], comments = [], source, documentCount, anchors = [], columns, warnings = [],
+      } = await processFileWithWorker(file, { losslessNumbers, duplicateKeyPolicy, xmlMapping, csvImport });
+      // Dialect files keep their text, so the raw view shows their comments
+      const jsonString = preserveComments && source !== undefined ? source : stringifyJSON(data);
+
+      setJsonData(data, jsonString, format === 'ndjson' ? {
+        description: `NDJSON file uploaded (${file.name})`,
+        parsed: {
+          format,
+          recordCount: Array.isArray(data) ? data.length : 1,
+          invalidLineCount: lineErrors.length,
+        },
+      } : format === 'yaml' ? {
+        description: `YAML file uploaded (${file.name})`,
+        parsed: { format, documentCount, anchors },
+      } : format === 'csv' ? {
+        description: `CSV file uploaded (${file.name})`,
+        parsed: { format, recordCount: Array.isArray(data) ? data.length : 0, columns },
+      } : format === 'xml' ? {
+        description: `XML file uploaded (${file.name})`,
+        parsed: { format },
+      } : isBinaryFormat(format) ? {
+        description: `${BINARY_FORMAT_LABELS[format]} file uploaded (${file.name})`, // eslint-disable-line security/detect-object-injection
+        parsed: { format },
+      } : format !== 'json' ? {
+        description: `${DIALECT_LABELS[format]} file uploaded (${file.name})`, // eslint-disable-line security/detect-object-injection
+        parsed: { format, duplicateKeys, ...(preserveComments && { comments }) },
+      } : duplicateKeys.length > 0 ? { parsed: { duplicateKeys } } : {});
       setInputMethod('file');
       addToHistory('file', jsonString);
 
+      if (lineErrors.length > 0) {
+        const [firstError] = lineErrors;
+        showToast({
+          title: `Skipped ${lineErrors.length} invalid line${lineErrors.length === 1 ? '' : 's'}`,
+          description: firstError ? `Line ${firstError.line}: ${firstError.message}` : '',
+          variant: 'warning',
+        });
+      }
+      if (warnings.length > 0) {
+        showToast({
+          title: `${warnings.length} ${format === 'csv' ? 'CSV' : 'YAML'} warning${warnings.length === 1 ? '' : 's'}`,
+          description: warnings.slice(0, 3).map((w) => `Line ${w.line}: ${w.message}`).join('; '),
+          variant: 'warning',
+        });
+      }
+      if (duplicateKeys.length > 0) {
+        const [firstDuplicate] = duplicateKeys;
+        showToast({
+          title: `Found ${duplicateKeys.length} duplicate key${duplicateKeys.length === 1 ? '' : 's'}`,
+          description: firstDuplicate ? `"${firstDuplicate.key}" at line ${firstDuplicate.line}, column ${firstDuplicate.column}` : '',
+          variant: 'warning',
+        });
+      }
       showSuccess('File uploaded successfully', `Loaded ${file.name}`);
 
       return { success: true, data, fileName: file.name, fileSize: file.size };
     } catch (error) {
+      if (error instanceof JsonHeroError && error.code === ErrorCodes.OPERATION_CANCELLED) {
+        showToast({ title: 'Upload cancelled', description: file.name, variant: 'info' });
+        return { success: false, error: error.message };
+      }
+      if (!useIndex && getFileFormat(file.name) === 'json') {
+        const recovered = await recoverFile(file);
+        if (recovered) return recovered;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Failed to process file';
       handleError(error, {
         context: 'FileUpload',
@@ -54,12 +221,132 @@ export const useFileUpload = () => {
     } finally {
       setLoading(false);
     }
-  }, [processFileWithWorker, setLoading, setJsonData, setInputMethod, addToHistory, handleError, showSuccess, setError]);
+  }, [processFileWithWorker, losslessNumbers, duplicateKeyPolicy, preserveComments, xmlMapping, csvImport, openIndexedFile, recoverFile, setLoading, setJsonData, setInputMethod, addToHistory, handleError, showSuccess, showToast, setError]);
+
+  /**
+   * Decompress gzip, deflate and brotli files before processing them. A zip
+   * archive with one file is opened directly; with more, its entries are
+   * listed so the user can pick which to load.
+   */
+  const openFile = useCallback(async (file: File): Promise<FileUploadResult> => {
+    let current = file;
+    try {
+      for (let layer = 0; layer < MAX_COMPRESSION_LAYERS; layer++) {
+        const compression = await getFileCompression(current);
+        if (!compression) break;
+
+        const validation = validateFile(current, FILE_LIMITS.MAX_INDEXED_FILE_SIZE);
+        if (!validation.isValid) {
+          throw createError(ErrorCodes.FILE_INVALID_FORMAT, validation.error || 'File validation failed');
+        }
+        const bytes = new Uint8Array(await current.arrayBuffer());
+
+        if (compression !== 'zip') {
+          const data = await decompress(bytes, compression, FILE_LIMITS.MAX_INDEXED_FILE_SIZE);
+          current = new File([data], getDecompressedFileName(current.name), { lastModified: current.lastModified });
+          continue;
+        }
+
+        const entries = readZipEntries(bytes);
+        const [onlyEntry] = entries;
+        if (!onlyEntry) {
+          throw createError(ErrorCodes.FILE_INVALID_FORMAT, `${current.name} contains no files`);
+        }
+        if (entries.length > 1) {
+          setArchive({ fileName: current.name, bytes, entries });
+          return { success: true, awaitingSelection: true, fileName: current.name, fileSize: current.size };
+        }
+        const data = await extractZipEntry(bytes, onlyEntry, FILE_LIMITS.MAX_INDEXED_FILE_SIZE);
+        current = new File([data], onlyEntry.name.split('/').pop() || onlyEntry.name);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof JsonHeroError && error.details ? error.details : 'Failed to decompress file';
+      handleError(error, { context: 'FileUpload', toastTitle: 'Failed to decompress file' });
+      setError(errorMessage);
+      return { success: false, error: errorMessage };
+    }
+
+    return await processFile(current);
+  }, [processFile, handleError, setError]);
 
   const handleFileUpload = useCallback(async (file: File) => {
     setError(null);
-    return await processFile(file);
-  }, [processFile, setError]);
+    return await openFile(file);
+  }, [openFile, setError]);
+
+  /**
+   * Load the chosen entries of the pending archive one after another, each as
+   * a separate document next to the one already shown. The first is shown.
+   */
+  const loadArchiveEntries = useCallback(async (entries: ZipEntry[]) => {
+    if (!archive) return;
+    setArchive(null);
+    setError(null);
+
+    let loaded = 0;
+    let firstDocumentId: string | null = null;
+    for (const entry of entries) {
+      const fileName = entry.name.split('/').pop() || entry.name;
+      const documentId = openDocument(fileName);
+      try {
+        const data = await extractZipEntry(archive.bytes, entry, FILE_LIMITS.MAX_INDEXED_FILE_SIZE);
+        const result = await openFile(new File([data], fileName));
+        if (result.success && !result.awaitingSelection) {
+          loaded++;
+          firstDocumentId ??= documentId;
+          continue;
+        }
+        // A file with repairs to review stays open, empty until they are accepted
+        if (useJsonStore.getState().pendingRepairs.some((pending) => pending.documentId === documentId)) continue;
+      } catch (error) {
+        handleError(error, { context: 'FileUpload', toastTitle: `Failed to extract ${entry.name}` });
+      }
+      closeDocument(documentId);
+    }
+
+    if (firstDocumentId) switchDocument(firstDocumentId);
+    if (loaded > 1) {
+      showToast({
+        title: `Loaded ${loaded} files from ${archive.fileName}`,
+        description: 'Each file is open as a separate document; switch between them above the views',
+        variant: 'info',
+      });
+    }
+  }, [archive, openFile, openDocument, switchDocument, closeDocument, handleError, setError, showToast]);
+
+  const cancelArchive = useCallback(() => setArchive(null), []);
+
+  /** Load the file under review with the repairs the user accepted, into the document it was opened as */
+  const loadRepairedFile = useCallback((text: string) => {
+    if (!repair) return;
+    dequeueRepair();
+    if (repair.documentId !== null) {
+      const isOpen = useJsonStore.getState().documents.some((document) => document.id === repair.documentId);
+      if (isOpen) switchDocument(repair.documentId);
+      else openDocument(repair.fileName);
+    }
+
+    // The report only enables loading once the text is valid JSON
+    const { data, duplicateKeys } = parseJSON(text, { losslessNumbers, duplicateKeyPolicy });
+    const jsonString = stringifyJSON(data);
+    setJsonData(data, jsonString, {
+      description: `Repaired file uploaded (${repair.fileName})`,
+      ...(duplicateKeys.length > 0 && { parsed: { duplicateKeys } }),
+    });
+    setInputMethod('file');
+    addToHistory('file', jsonString);
+    showSuccess('File uploaded successfully', `Loaded ${repair.fileName}`);
+  }, [repair, losslessNumbers, duplicateKeyPolicy, dequeueRepair, switchDocument, openDocument, setJsonData, setInputMethod, addToHistory, showSuccess]);
+
+  /** Skip the file under review, closing the document it would have filled */
+  const cancelRepair = useCallback(() => {
+    if (!repair) return;
+    dequeueRepair();
+
+    const { documents, activeDocumentId, data } = useJsonStore.getState();
+    const document = documents.find(({ id }) => id === repair.documentId);
+    if (document && (document.id === activeDocumentId ? data : document.data) === null) closeDocument(document.id);
+  }, [repair, dequeueRepair, closeDocument]);
 
   const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
@@ -69,13 +356,16 @@ export const useFileUpload = () => {
     const files = Array.from(e.dataTransfer.files);
     const jsonFiles = files.filter(file => {
       const ext = file.name.toLowerCase().split('.').pop() || '';
-      return ['json', 'geojson', 'txt'].includes(ext) || file.type === 'application/json' || file.type === 'text/plain';
+      return ['json', 'geojson', 'txt', 'jsonl', 'ndjson', 'jsonc', 'json5', 'hjson', 'yaml', 'yml', 'xml', 'rss', 'atom', 'csv', 'tsv', 'tab', 'msgpack', 'mpk', 'cbor', 'bson', 'gz', 'gzip', 'zz', 'br', 'zip'].includes(ext)
+        || file.type === 'application/json' || file.type === 'text/plain'
+        || isYamlContentType(file.type) || isXmlContentType(file.type) || isCsvContentType(file.type)
+        || getBinaryFormatFromContentType(file.type) !== null || COMPRESSED_CONTENT_TYPES.includes(file.type);
     });
 
     if (jsonFiles.length === 0) {
       const error = createError(
         ErrorCodes.FILE_INVALID_FORMAT,
-        'Please drop a valid JSON file (.json, .geojson, or .txt)'
+        'Please drop a valid JSON, YAML, XML, CSV or binary JSON file (.json, .jsonc, .json5, .hjson, .geojson, .jsonl, .ndjson, .yaml, .yml, .xml, .csv, .tsv, .msgpack, .cbor, .bson or .txt), optionally compressed (.gz, .br, .zip)'
       );
       handleError(error, { context: 'FileUpload' });
       return;
@@ -111,6 +401,13 @@ export const useFileUpload = () => {
     isDragging,
     uploadProgress: workerProgress,
     isProcessing,
+    cancelUpload: cancel,
+    archive,
+    loadArchiveEntries,
+    cancelArchive,
+    repair,
+    loadRepairedFile,
+    cancelRepair,
     handleFileUpload,
     handleDragOver,
     handleDragLeave,
@@ -1,4 +1,4 @@
-import { useHistoryStore } from '../stores/history-store';
+import { HistoryEntry, useHistoryStore } from '../stores/history-store';
 import { useJsonStore } from '../stores/json-store';
 
 export const useHistoryActions = () => {
@@ -16,28 +16,27 @@ export const useHistoryActions = () => {
   
   const { setJsonData, setInputMethod } = useJsonStore();
 
+  const restoreEntry = (entry: HistoryEntry): void => {
+    setJsonData(entry.data, entry.rawInput, {
+      recordHistory: false,
+      parsed: { format: entry.format, comments: entry.comments, duplicateKeys: entry.duplicateKeys },
+    });
+    setInputMethod(entry.inputMethod);
+  };
+
   const handleGoToEntry = (index: number): void => {
     const entry = goToEntry(index);
-    if (entry) {
-      setJsonData(entry.data, entry.rawInput);
-      setInputMethod(entry.inputMethod);
-    }
+    if (entry) restoreEntry(entry);
   };
 
   const handleUndo = (): void => {
     const entry = undo();
-    if (entry) {
-      setJsonData(entry.data, entry.rawInput);
-      setInputMethod(entry.inputMethod);
-    }
+    if (entry) restoreEntry(entry);
   };
 
   const handleRedo = (): void => {
     const entry = redo();
-    if (entry) {
-      setJsonData(entry.data, entry.rawInput);
-      setInputMethod(entry.inputMethod);
-    }
+    if (entry) restoreEntry(entry);
   };
 
   const handleRemoveEntry = (index: number): void => {
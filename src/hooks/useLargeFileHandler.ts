@@ -1,63 +1,159 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
+
+import { getBinaryFormatFromFileName } from '@/lib/binary-formats';
+import { CsvWarning, getCsvDelimiterFromFileName, isCsvFileName } from '@/lib/csv';
+import { createError, ErrorCodes } from '@/lib/error-handler';
+import { getDialectFromFileName } from '@/lib/json-dialects';
+import { reviveLosslessNumbers } from '@/lib/lossless-number';
+import { isNDJSONFileName, NdjsonLineError } from '@/lib/ndjson';
+import { JsonIndex, StreamingParserOptions } from '@/lib/streaming-json-parser';
+import { isXmlFileName } from '@/lib/xml';
+import { isYamlFileName, YamlWarning } from '@/lib/yaml';
+import {
+  CsvImportOptions, DocumentFormat, DuplicateKey, JsonValue, NodeComments, XmlMapping, YamlAnchor,
+} from '@/types/json.types';
+
+export interface WorkerParseOptions extends StreamingParserOptions {
+  /** How elements map to JSON (XML only) */
+  xmlMapping?: Partial<XmlMapping>;
+  /** Delimiter, header and type detection (CSV only) */
+  csvImport?: Partial<CsvImportOptions>;
+}
+
+export interface WorkerParseResult {
+  /** Parsed document, or `null` when only an index was requested */
+  data: JsonValue;
+  format: DocumentFormat;
+  /** Non-blank line count for NDJSON documents */
+  lineCount?: number;
+  /** Lines skipped because they were not valid JSON (NDJSON only) */
+  lineErrors?: NdjsonLineError[];
+  /** Byte ranges of top-level entries, when `buildIndex` was requested */
+  index?: JsonIndex | null;
+  /** Keys repeated within an object (JSON only) */
+  duplicateKeys?: DuplicateKey[];
+  /** Comments attached to nodes (JSONC, JSON5 and HJSON only) */
+  comments?: NodeComments[];
+  /** Text of the file (JSONC, JSON5 and HJSON only) */
+  source?: string;
+  /** Number of documents in the stream (YAML only) */
+  documentCount?: number;
+  /** Anchored nodes and where they are reused (YAML only) */
+  anchors?: YamlAnchor[];
+  /** Column names (CSV only) */
+  columns?: string[];
+  /** YAML constructs that were not loaded exactly, or CSV rows of the wrong width */
+  warnings?: Array<YamlWarning | CsvWarning>;
+}
+
+/** Format a file is parsed as, from its name */
+export function getFileFormat(fileName: string): DocumentFormat {
+  if (isNDJSONFileName(fileName)) return 'ndjson';
+  if (isYamlFileName(fileName)) return 'yaml';
+  if (isXmlFileName(fileName)) return 'xml';
+  if (isCsvFileName(fileName)) return 'csv';
+  return getBinaryFormatFromFileName(fileName) ?? getDialectFromFileName(fileName) ?? 'json';
+}
+
+interface ActiveParse {
+  worker: Worker;
+  fail: (error: Error) => void;
+}
 
 export function useLargeFileHandler() {
   const [progress, setProgress] = useState(0);
   const [isProcessing, setIsProcessing] = useState(false);
+  // A parse outlives the component that started it, since the upload form is replaced by the loading screen while it runs
+  const activeRef = useRef<ActiveParse | null>(null);
 
-  const processFileWithWorker = useCallback(async (file: File): Promise<any> => {
+  const processFileWithWorker = useCallback(async (
+    file: File,
+    options: WorkerParseOptions = {}
+  ): Promise<WorkerParseResult> => {
     return new Promise((resolve, reject) => {
       setIsProcessing(true);
       setProgress(0);
 
-      // Create a worker to handle parsing
+      // The worker streams the file itself, so the main thread never holds the raw text
       const worker = new Worker(new URL('../workers/json-parser.worker.ts', import.meta.url), {
         type: 'module',
       });
 
-      worker.onmessage = (event) => {
-        const { success, data, error } = event.data;
-        if (success) {
-          resolve(data);
-        } else {
-          reject(new Error(error || 'Failed to parse JSON in worker'));
-        }
+      const cleanup = () => {
         worker.terminate();
+        if (activeRef.current?.worker === worker) {
+          activeRef.current = null;
+        }
         setIsProcessing(false);
-        setProgress(100);
       };
 
-      worker.onerror = (error) => {
-        reject(new Error(`Worker error: ${error.message}`));
-        worker.terminate();
-        setIsProcessing(false);
+      activeRef.current = {
+        worker,
+        fail: (error) => {
+          cleanup();
+          reject(error);
+        },
       };
 
-      // Read the file and send it to the worker
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        if (e.target?.result) {
-          const content = e.target.result as string;
-          worker.postMessage(content);
-        } else {
-          reject(new Error('Failed to read file'));
+      worker.onmessage = (event) => {
+        const {
+          type, data, format, lineCount, lineErrors, index, duplicateKeys, comments, source, documentCount, anchors, columns, warnings,
+          error, bytesParsed, totalBytes,
+        } = event.data;
+
+        if (type === 'progress') {
+          setProgress(totalBytes > 0 ? (bytesParsed / totalBytes) * 100 : 0);
+          return;
         }
-      };
-      reader.onprogress = (e) => {
-        if (e.lengthComputable) {
-          const percentage = (e.loaded / e.total) * 100;
-          setProgress(percentage);
+
+        cleanup();
+        if (type === 'result') {
+          setProgress(100);
+          // The worker sends lossless numbers tagged, as structured cloning drops their prototype
+          resolve({
+            data: options.losslessNumbers ? reviveLosslessNumbers(data) : data,
+            duplicateKeys: options.losslessNumbers
+              ? (duplicateKeys as DuplicateKey[] | undefined)?.map((duplicate) => ({
+                ...duplicate,
+                firstValue: reviveLosslessNumbers(duplicate.firstValue),
+                value: reviveLosslessNumbers(duplicate.value),
+              }))
+              : duplicateKeys,
+            format, lineCount, lineErrors, index, comments, source, documentCount, anchors, columns, warnings,
+          });
+        } else {
+          reject(new Error(error || 'Failed to parse JSON in worker'));
         }
       };
-      reader.onerror = () => {
-        reject(new Error('FileReader error'));
+
+      worker.onerror = (error) => {
+        cleanup();
+        reject(new Error(`Worker error: ${error.message}`));
       };
 
-      reader.readAsText(file);
+      worker.postMessage({
+        file,
+        format: getFileFormat(file.name),
+        ...options,
+        // A .tsv file is tab-separated unless another delimiter was chosen
+        csvImport: {
+          ...options.csvImport,
+          delimiter: options.csvImport?.delimiter && options.csvImport.delimiter !== 'auto'
+            ? options.csvImport.delimiter
+            : getCsvDelimiterFromFileName(file.name),
+        },
+      });
     });
   }, []);
 
+  const cancel = useCallback(() => {
+    activeRef.current?.fail(createError(ErrorCodes.OPERATION_CANCELLED, 'File parsing was cancelled'));
+    setProgress(0);
+  }, []);
+
   return {
     processFileWithWorker,
+    cancel,
     progress,
     isProcessing,
   };
@@ -0,0 +1,45 @@
+import { CompleteExportResult, exportCompleteJSON, exportNDJSON, exportTableCSV } from '../lib/export-complete';
+import { stringifyJSON } from '../lib/json-parser';
+import { truncate } from '../lib/utils';
+import { useJsonStore } from '../stores/json-store';
+import { useQueryStore } from '../stores/query-store';
+import { JsonObject } from '../types/json.types';
+
+import { useToast } from './useToast';
+
+/**
+ * Promote or export the query result currently shown in place of the document
+ */
+export const useQueryResultActions = () => {
+  const setJsonData = useJsonStore((state) => state.setJsonData);
+  const { result, closeConsole } = useQueryStore();
+  const { showToast } = useToast();
+
+  const handlePromote = (): void => {
+    if (!result) return;
+    setJsonData(result.data, stringifyJSON(result.data), { description: `${result.language}: ${truncate(result.query.trim(), 60)}` });
+    closeConsole();
+    showToast({ title: 'Query result is now the document', description: 'Undo from the history panel to go back', variant: 'success' });
+  };
+
+  const handleExport = async (format: 'json' | 'ndjson' | 'csv'): Promise<void> => {
+    if (!result) return;
+    let exported: CompleteExportResult;
+    if (format === 'csv') {
+      // Only tabular results have columns; SQL rows are always objects
+      exported = await exportTableCSV(result.data as JsonObject[], result.columns ?? [], { fileName: 'query-result.csv' });
+    } else if (format === 'json') {
+      exported = await exportCompleteJSON(result.data, { fileName: 'query-result.json' });
+    } else {
+      exported = await exportNDJSON(result.data, { fileName: 'query-result.ndjson' });
+    }
+
+    showToast({
+      title: exported.success ? 'Export successful' : 'Export failed',
+      description: exported.success ? `Exported as ${exported.fileName}` : exported.error || 'Export failed',
+      variant: exported.success ? 'success' : 'error',
+    });
+  };
+
+  return { result, handlePromote, handleExport };
+};
@@ -3,15 +3,21 @@ import { useState, useCallback } from 'react';
 import type { SearchFilter } from '../components/controls/SearchFilterRow';
 import { enhancedSearchJson, EnhancedSearchOptions } from '../lib/enhanced-json-search';
 import { useJsonStore } from '../stores/json-store';
+import { useQueryStore } from '../stores/query-store';
 import { useUIStore } from '../stores/ui-store';
 
 import { useToast } from './useToast';
 
+/** Highlight matches with filter rows, or project a new value with a JMESPath expression */
+export type AdvancedSearchMode = 'filters' | 'jmespath';
 
 export const useSearchFilters = (onClose?: () => void) => {
   const { setSearchQuery, setSearchOptions } = useUIStore();
-  const { parsedData } = useJsonStore();
+  const { data, parsedData } = useJsonStore();
+  const { result, closeConsole, setResult, dismissResult } = useQueryStore();
   const { showToast } = useToast();
+  const [mode, setMode] = useState<AdvancedSearchMode>('filters');
+  const [expression, setExpression] = useState('');
   const [filters, setFilters] = useState<SearchFilter[]>([
     { type: 'any', operator: 'contains', value: '', caseSensitive: false }
   ]);
@@ -80,19 +86,19 @@ export const useSearchFilters = (onClose?: () => void) => {
       
       // Test the JSONPath
       if (parsedData) {
-        try {
-          const { results, stats } = enhancedSearchJson(parsedData.data, searchOptions as EnhancedSearchOptions);
+        const { results, stats } = enhancedSearchJson(parsedData.data, searchOptions as EnhancedSearchOptions);
+        if (stats.error) {
+          showToast({
+            title: 'Invalid JSONPath',
+            description: stats.error,
+            variant: 'error',
+          });
+        } else {
           showToast({
             title: 'JSONPath Search',
             description: `Found ${results.length} matches in ${stats.searchTime.toFixed(1)}ms`,
             variant: results.length > 0 ? 'success' : 'info',
           });
-        } catch (error) {
-          showToast({
-            title: 'Invalid JSONPath',
-            description: error instanceof Error ? error.message : 'Invalid JSONPath expression',
-            variant: 'error',
-          });
         }
       }
     } else {
@@ -132,13 +138,62 @@ export const useSearchFilters = (onClose?: () => void) => {
     onClose?.();
   }, [filters, setSearchQuery, setSearchOptions, parsedData, showToast, onClose]);
 
+  // A JMESPath projection is a new value, so it is shown in place of the document rather than highlighted
+  const applyExpression = useCallback(() => {
+    if (data === null || expression.trim() === '') return;
+
+    const { stats, projection = null } = enhancedSearchJson(data, { query: expression, mode: 'jmespath' });
+    if (stats.error) {
+      showToast({
+        title: 'Invalid JMESPath',
+        description: stats.error,
+        variant: 'error',
+      });
+      return;
+    }
+    if (projection === null) {
+      showToast({
+        title: 'JMESPath Search',
+        description: 'The expression evaluated to null',
+        variant: 'info',
+      });
+      return;
+    }
+
+    const outputCount = Array.isArray(projection) ? projection.length : 1;
+    closeConsole();
+    setResult({
+      language: 'jmespath',
+      query: expression.trim(),
+      data: projection,
+      outputCount,
+      truncated: false,
+      duration: stats.searchTime,
+    });
+    showToast({
+      title: 'JMESPath Search',
+      description: `${Array.isArray(projection) ? `Projected ${outputCount} items` : 'Evaluated'} in ${stats.searchTime.toFixed(1)}ms`,
+      variant: 'success',
+    });
+    onClose?.();
+  }, [data, expression, closeConsole, setResult, showToast, onClose]);
+
   const clearFilters = useCallback(() => {
     setFilters([{ type: 'any', operator: 'contains', value: '', caseSensitive: false }]);
+    setExpression('');
     setSearchQuery('');
     setSearchOptions({});
-  }, [setSearchQuery, setSearchOptions]);
+    if (result?.language === 'jmespath') {
+      dismissResult();
+    }
+  }, [result, setSearchQuery, setSearchOptions, dismissResult]);
 
   return {
+    mode,
+    setMode,
+    expression,
+    setExpression,
+    applyExpression,
     filters,
     addFilter,
     removeFilter,
@@ -0,0 +1,34 @@
+import { useCallback } from 'react';
+
+import { stringifyEditedDocument } from '@/lib/json-dialects';
+import { applyTreeEdit, TreeEditAction } from '@/lib/json-editor';
+import { useJsonStore } from '@/stores/json-store';
+
+import { useErrorHandler } from './useErrorHandler';
+
+/**
+ * Applies tree edits to the loaded document.
+ * Each successful edit replaces `json-store.data` and is recorded in the
+ * history store as its own undoable step.
+ */
+export const useTreeEditor = () => {
+  const { setJsonData } = useJsonStore();
+  const { handleError } = useErrorHandler();
+
+  const applyEdit = useCallback((action: TreeEditAction): boolean => {
+    const { data, parsedData } = useJsonStore.getState();
+    if (data === null) return false;
+
+    try {
+      const result = applyTreeEdit(data, action);
+      const { raw, parsed } = stringifyEditedDocument(result.data, parsedData);
+      setJsonData(result.data, raw, { description: result.description, parsed });
+      return true;
+    } catch (error) {
+      handleError(error, { context: 'TreeEditor', toastTitle: 'Edit failed' });
+      return false;
+    }
+  }, [setJsonData, handleError]);
+
+  return { applyEdit };
+};
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  decodeBinary, describeTypedValue, encodeBinary, getBinaryFormatFromContentType, getBinaryFormatFromFileName,
+} from '../binary-formats';
+import { isLosslessNumber } from '../lossless-number';
+
+const hex = (text: string) => Uint8Array.from(text.match(/../g) ?? [], (pair) => parseInt(pair, 16));
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+describe('Binary formats', () => {
+  it('should read and write MessagePack', () => {
+    expect(decodeBinary(hex('81a16101'), 'msgpack')).toEqual({ a: 1 });
+    expect(decodeBinary(hex('c403010203'), 'msgpack')).toEqual({ $binary: { base64: 'AQID', subType: '00' } });
+    expect(decodeBinary(hex('d6ff00000000'), 'msgpack')).toEqual({ $date: '1970-01-01T00:00:00.000Z' });
+    expect(decodeBinary(hex('d40501'), 'msgpack')).toEqual({ $ext: { type: 5, base64: 'AQ==' } });
+    expect(decodeBinary(hex('0102'), 'msgpack')).toEqual([1, 2]);
+
+    const data = { n: [0, -1, 200, -200, 70000, 2 ** 40, 1.5], s: 'héllo', ok: true, none: null, at: { $date: '2024-01-05T10:00:00.250Z' } };
+    expect(decodeBinary(encodeBinary(data, 'msgpack'), 'msgpack')).toEqual(data);
+    expect(toHex(encodeBinary({ $date: '1970-01-01T00:00:00.000Z' }, 'msgpack'))).toBe('d6ff00000000');
+  });
+
+  it('should read CBOR, including tags, bignums and indefinite lengths', () => {
+    expect(decodeBinary(hex('f93c00'), 'cbor')).toBe(1);
+    expect(decodeBinary(hex('f97c00'), 'cbor')).toBe(Infinity);
+    expect(decodeBinary(hex('c074323031332d30332d32315432303a30343a30305a'), 'cbor')).toEqual({ $date: '2013-03-21T20:04:00.000Z' });
+    expect(decodeBinary(hex('5f42010243030405ff'), 'cbor')).toEqual({ $binary: { base64: 'AQIDBAU=', subType: '00' } });
+    expect(decodeBinary(hex('7f657374726561646d696e67ff'), 'cbor')).toBe('streaming');
+    expect(decodeBinary(hex('bf61610161629f0203ffff'), 'cbor')).toEqual({ a: 1, b: [2, 3] });
+    expect(decodeBinary(hex('d82076687474703a2f2f7777772e6578616d706c652e636f6d'), 'cbor')).toEqual({ $tag: 32, $value: 'http://www.example.com' });
+    expect(decodeBinary(hex('83f7f0d9d9f7f5'), 'cbor')).toEqual([{ $undefined: true }, { $simple: 16 }, true]);
+
+    const bignum = decodeBinary(hex('c249010000000000000000'), 'cbor', { losslessNumbers: true });
+    expect(isLosslessNumber(bignum)).toBe(true);
+    expect(isLosslessNumber(bignum) && bignum.value).toBe('18446744073709551616');
+  });
+
+  it('should write CBOR that reads back unchanged', () => {
+    const data = { list: [1, -25, 1000000, 0.1], bytes: { $binary: { base64: 'AQID', subType: '00' } }, tagged: { $tag: 32, $value: 'x' } };
+    expect(decodeBinary(encodeBinary(data, 'cbor'), 'cbor')).toEqual(data);
+    expect(toHex(encodeBinary([1, [2, 3]], 'cbor'))).toBe('8201820203');
+
+    const big = decodeBinary(hex('c249010000000000000000'), 'cbor', { losslessNumbers: true });
+    expect(toHex(encodeBinary(big, 'cbor'))).toBe('c249010000000000000000');
+  });
+
+  it('should read and write BSON documents', () => {
+    const hello = hex('160000000268656c6c6f0006000000776f726c640000');
+    expect(decodeBinary(hello, 'bson')).toEqual({ hello: 'world' });
+    expect(encodeBinary({ hello: 'world' }, 'bson')).toEqual(hello);
+
+    const document = {
+      _id: { $oid: '507f1f77bcf86cd799439011' },
+      at: { $date: '2024-01-05T10:00:00.000Z' },
+      price: { $numberDecimal: '123.45' },
+      tiny: { $numberDecimal: '1E+3' },
+      count: 42,
+      ratio: 0.5,
+      tags: ['a', 'b'],
+      pattern: { $regularExpression: { pattern: '^a', options: 'i' } },
+      ts: { $timestamp: { t: 1700000000, i: 3 } },
+      data: { $binary: { base64: 'AQID', subType: '04' } },
+      fn: { $code: 'x + 1', $scope: { x: 1 } },
+      low: { $minKey: 1 },
+    };
+    expect(decodeBinary(encodeBinary(document, 'bson'), 'bson')).toEqual(document);
+    expect(decodeBinary(encodeBinary([{ a: 1 }, { a: 2 }], 'bson'), 'bson')).toEqual([{ a: 1 }, { a: 2 }]);
+
+    const long = decodeBinary(encodeBinary({ id: { $numberLong: '9007199254740993' } }, 'bson'), 'bson', { losslessNumbers: true });
+    expect(isLosslessNumber((long as Record<string, unknown>)['id'])).toBe(true);
+  });
+
+  it('should keep 64-bit integers a double would round as Int64 wrappers', () => {
+    const max = { $numberLong: '18446744073709551615' };
+    expect(decodeBinary(hex('cfffffffffffffffff'), 'msgpack')).toEqual(max);
+    expect(toHex(encodeBinary(max, 'msgpack'))).toBe('cfffffffffffffffff');
+    expect(decodeBinary(hex('1bffffffffffffffff'), 'cbor')).toEqual(max);
+
+    const long = { id: { $numberLong: '9223372036854775807' } };
+    expect(decodeBinary(encodeBinary(long, 'bson'), 'bson')).toEqual(long);
+    expect(decodeBinary(encodeBinary({ id: max }, 'bson'), 'bson')).toEqual({ id: { $numberDecimal: '18446744073709551615' } });
+  });
+
+  it('should report malformed input and values a format cannot hold', () => {
+    expect(() => decodeBinary(hex('9201'), 'msgpack')).toThrow(
+      expect.objectContaining({ details: 'Unexpected end of data at byte 2' })
+    );
+    expect(() => decodeBinary(hex('c1'), 'msgpack')).toThrow(expect.objectContaining({ details: 'Invalid MessagePack type 0xc1 at byte 0' }));
+    expect(() => decodeBinary(hex('0500000001'), 'bson')).toThrow();
+    expect(() => decodeBinary(new Uint8Array(), 'cbor')).toThrow(expect.objectContaining({ details: 'Empty input' }));
+    expect(() => encodeBinary([1], 'bson')).toThrow(expect.objectContaining({ details: 'BSON documents must be objects (item 0 is not)' }));
+  });
+
+  it('should describe typed values for display', () => {
+    expect(describeTypedValue({ $oid: '507f1f77bcf86cd799439011' })).toEqual({ label: 'ObjectId', summary: '507f1f77bcf86cd799439011' });
+    expect(describeTypedValue({ $binary: { base64: 'AQID', subType: '00' } })).toEqual({ label: 'Binary', summary: '3 bytes' });
+    expect(describeTypedValue({ $tag: 32, $value: 'x' })).toEqual({ label: 'Tag 32', summary: '"x"' });
+    expect(describeTypedValue({ $date: 'not a date' })).toBeNull();
+    expect(describeTypedValue({ $oid: '507f1f77bcf86cd799439011', extra: 1 })).toBeNull();
+    expect(describeTypedValue({ name: 'plain' })).toBeNull();
+  });
+
+  it('should recognise binary file names and content types', () => {
+    expect(getBinaryFormatFromFileName('dump.BSON')).toBe('bson');
+    expect(getBinaryFormatFromFileName('data.mpk')).toBe('msgpack');
+    expect(getBinaryFormatFromFileName('data.json')).toBeNull();
+    expect(getBinaryFormatFromContentType('application/x-msgpack')).toBe('msgpack');
+    expect(getBinaryFormatFromContentType('application/cbor; q=1')).toBe('cbor');
+    expect(getBinaryFormatFromContentType('application/json')).toBeNull();
+  });
+});
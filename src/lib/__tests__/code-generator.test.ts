@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+
+import { JsonValue } from '../../types/json.types';
+import { generateCode } from '../code-generator';
+
+const users: JsonValue = {
+  users: [
+    { id: 1, name: 'Ada', email: null, address: { city: 'London' } },
+    { id: 2, name: 'Linus', email: 'linus@example.com', nickname: 'torvalds', address: { city: 'Portland' } },
+  ],
+};
+
+describe('generateCode', () => {
+  it('should generate TypeScript interfaces named after their keys', () => {
+    const code = generateCode(users, { language: 'typescript' });
+    expect(code).toContain('export interface Root {\n  users: User[];\n}');
+    expect(code).toContain('  email: string | null;');
+    expect(code).toContain('  nickname?: string;');
+    expect(code).toContain('export interface Address {\n  city: string;\n}');
+    expect(code.indexOf('interface Root')).toBeLessThan(code.indexOf('interface User'));
+  });
+
+  it('should quote keys that are not identifiers and alias non-object roots', () => {
+    const code = generateCode([{ 'first-name': 'a' }], { language: 'typescript', rootName: 'people' });
+    expect(code).toContain('export type People = PeopleItem[];');
+    expect(code).toContain('  "first-name": string;');
+  });
+
+  it('should declare Zod schemas before they are referenced', () => {
+    const code = generateCode(users, { language: 'zod' });
+    expect(code.startsWith("import { z } from 'zod';")).toBe(true);
+    expect(code).toContain('  id: z.number().int(),');
+    expect(code).toContain('  email: z.string().nullable(),');
+    expect(code).toContain('  nickname: z.string().optional(),');
+    expect(code).toContain('  users: z.array(UserSchema),');
+    expect(code.indexOf('AddressSchema =')).toBeLessThan(code.indexOf('UserSchema ='));
+    expect(code).toContain('export type Root = z.infer<typeof RootSchema>;');
+  });
+
+  it('should use pointers and omitempty for Go structs', () => {
+    const code = generateCode(users, { language: 'go' });
+    expect(code).toMatch(/\tID +int64 +`json:"id"`/);
+    expect(code).toMatch(/\tEmail +\*string +`json:"email"`/);
+    expect(code).toMatch(/\tNickname +\*string +`json:"nickname,omitempty"`/);
+    expect(code).toMatch(/\tUsers +\[\]User +`json:"users"`/);
+  });
+
+  it('should generate Python dataclasses with optional fields last', () => {
+    const code = generateCode({ userId: 1, tags: [{ label: 'x' }, { label: 'y', color: 'red' }] }, { language: 'python' });
+    expect(code).toContain('from typing import List, Optional');
+    expect(code).toContain('@dataclass\nclass Tag:\n    label: str\n    color: Optional[str] = None');
+    expect(code).toContain('    user_id: int  # JSON key: "userId"');
+    expect(code).toContain('    tags: List[Tag]');
+  });
+
+  it('should give keys that map to the same identifier distinct field names', () => {
+    const data = { user_id: 1, userId: 2, 'a-b': 'x', a_b: 'y' };
+    const go = generateCode(data, { language: 'go' });
+    expect(go).toMatch(/\tUserID +int64 +`json:"user_id"`/);
+    expect(go).toMatch(/\tUserID2 +int64 +`json:"userId"`/);
+    expect(go).toMatch(/\tAB2 +string +`json:"a_b"`/);
+
+    const python = generateCode(data, { language: 'python' });
+    expect(python).toContain('    user_id: int\n    user_id2: int  # JSON key: "userId"\n    a_b: str  # JSON key: "a-b"\n    a_b2: str  # JSON key: "a_b"');
+  });
+
+  it('should render mixed types as unions', () => {
+    expect(generateCode({ value: [1, 'a'] }, { language: 'typescript' })).toContain('value: Array<string | number>;');
+    expect(generateCode({ value: [1, 'a'] }, { language: 'zod' })).toContain('z.array(z.union([z.string(), z.number().int()]))');
+  });
+
+  it('should output the inferred schema for json-schema', () => {
+    const schema = JSON.parse(generateCode({ a: 1 }, { language: 'json-schema', rootName: 'thing' }));
+    expect(schema).toMatchObject({ title: 'Thing', type: 'object', required: ['a'] });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  decodeResponseBody, decompress, detectCompression, extractZipEntry, getCompressionFromFileName, getDecompressedFileName,
+  readZipEntries,
+} from '../compression';
+
+const compress = async (text: string, format: CompressionFormat) => {
+  const source = new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(text));
+      controller.close();
+    },
+  });
+  const stream = source.pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+// a.json (deflated), an empty dir/ folder and dir/b.csv (stored)
+const ZIP = Uint8Array.from(atob(
+  'UEsDBBQAAAAIAOWJUl1cWes7CQAAAAcAAAAGAAAAYS5qc29uq1aqULIyrAUAUEsDBBQAAAAIAOWJUl0AAAAAAgAAAAAAAAAFAAAAZGlyLy8DAFBLAwQUAAAAAADliVJd'
+  + 'VjSi0QQAAAAEAAAACQAAAGRpci9iLmNzdm4KMQpQSwECFAAUAAAACADliVJdXFnrOwkAAAAHAAAABgAAAAAAAAAAAAAAAAAAAAAAYS5qc29uUEsBAhQAFAAAAAgA5YlS'
+  + 'XQAAAAACAAAAAAAAAAUAAAAAAAAAAAAAAAAALQAAAGRpci8vUEsBAhQAFAAAAAAA5YlSXVY0otEEAAAABAAAAAkAAAAAAAAAAAAAAAAAUgAAAGRpci9iLmNzdlBLBQYA'
+  + 'AAAAAwADAJ4AAAB9AAAAAAA='
+), (char) => char.charCodeAt(0));
+
+describe('Compression', () => {
+  it('should decompress gzip and deflate streams', async () => {
+    const gzip = await compress('{"a":1}', 'gzip');
+    const deflate = await compress('[1,2,3]', 'deflate');
+
+    expect(detectCompression(gzip)).toBe('gzip');
+    expect(detectCompression(deflate)).toBe('deflate');
+    expect(detectCompression(new TextEncoder().encode('{"a":1}'))).toBeNull();
+    expect(decode(await decompress(gzip, 'gzip'))).toBe('{"a":1}');
+    expect(decode(await decompress(deflate, 'deflate'))).toBe('[1,2,3]');
+  });
+
+  it('should stop at the size limit and report corrupt data', async () => {
+    const gzip = await compress('x'.repeat(1000), 'gzip');
+
+    await expect(decompress(gzip, 'gzip', 100)).rejects.toMatchObject({ code: 'FILE_TOO_LARGE' });
+    await expect(decompress(gzip.subarray(0, 12), 'gzip')).rejects.toMatchObject({
+      details: expect.stringContaining('Invalid gzip data'),
+    });
+  });
+
+  it('should list and extract zip entries', async () => {
+    const entries = readZipEntries(ZIP);
+
+    expect(detectCompression(ZIP)).toBe('zip');
+    expect(entries.map(({ name, method, size }) => ({ name, method, size }))).toEqual([
+      { name: 'a.json', method: 8, size: 7 },
+      { name: 'dir/b.csv', method: 0, size: 4 },
+    ]);
+    const [json, csv] = entries;
+    expect(json && decode(await extractZipEntry(ZIP, json))).toBe('{"x":1}');
+    expect(csv && decode(await extractZipEntry(ZIP, csv))).toBe('n\n1\n');
+    expect(() => readZipEntries(new TextEncoder().encode('not a zip archive, just some text'))).toThrow(
+      expect.objectContaining({ details: 'Not a zip archive (no central directory found)' })
+    );
+  });
+
+  it('should decode response bodies the browser left compressed', async () => {
+    const gzip = await compress('{"ok":true}', 'gzip');
+
+    expect(await decodeResponseBody(gzip, 'application/json', 'gzip')).toEqual({ text: '{"ok":true}', decompressed: ['gzip'] });
+    // A .json.gz file served as is, without a Content-Encoding header
+    expect(await decodeResponseBody(gzip.buffer, 'application/gzip')).toEqual({ text: '{"ok":true}', decompressed: ['gzip'] });
+    // Already decoded by the browser although the header is still present
+    expect(await decodeResponseBody(new TextEncoder().encode('{"ok":true}'), '', 'gzip')).toEqual({ text: '{"ok":true}', decompressed: [] });
+    expect((await decodeResponseBody(Uint8Array.of(0xe9), 'text/plain; charset=ISO-8859-1')).text).toBe('é');
+    await expect(decodeResponseBody(ZIP)).rejects.toMatchObject({ details: 'Zip archives can only be opened as files' });
+  });
+
+  it('should recognise compressed file names', () => {
+    expect(getCompressionFromFileName('logs.json.GZ')).toBe('gzip');
+    expect(getCompressionFromFileName('bundle.zip')).toBe('zip');
+    expect(getCompressionFromFileName('data.json.br')).toBe('brotli');
+    expect(getCompressionFromFileName('data.json')).toBeNull();
+    expect(getDecompressedFileName('logs.ndjson.gz')).toBe('logs.ndjson');
+    expect(getDecompressedFileName('dump.gz')).toBe('dump.json');
+  });
+});
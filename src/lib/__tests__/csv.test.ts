@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+
+import { getCsvDelimiterFromFileName, isCsvContentType, isCsvFileName, looksLikeCSV, parseCSV } from '../csv';
+import { isLosslessNumber } from '../lossless-number';
+
+describe('CSV', () => {
+  it('should read rows as objects with inferred types', () => {
+    const { data, columns, delimiter, hasHeader, warnings } = parseCSV([
+      'id,name,score,active,notes',
+      '1,Ann,9.5,true,',
+      '2,Bob,-3,FALSE,null',
+    ].join('\n'));
+
+    expect(data).toEqual([
+      { id: 1, name: 'Ann', score: 9.5, active: true, notes: null },
+      { id: 2, name: 'Bob', score: -3, active: false, notes: null },
+    ]);
+    expect(columns).toEqual(['id', 'name', 'score', 'active', 'notes']);
+    expect(delimiter).toBe(',');
+    expect(hasHeader).toBe(true);
+    expect(warnings).toEqual([]);
+  });
+
+  it('should handle quoted fields with delimiters, quotes and line breaks', () => {
+    const { data } = parseCSV('name,quote,zip\r\n"Smith, J.","He said ""hi""\r\nand left","02134"\r\n');
+
+    expect(data).toEqual([{ name: 'Smith, J.', quote: 'He said "hi"\r\nand left', zip: '02134' }]);
+    expect(() => parseCSV('a,b\n1,"open\n')).toThrow(
+      expect.objectContaining({ details: 'Unterminated quoted field at line 2, column 3' })
+    );
+  });
+
+  it('should detect the delimiter and whether there is a header', () => {
+    const semicolons = parseCSV('a;b;c\n1;2,5;3\n');
+    expect(semicolons.delimiter).toBe(';');
+    expect(semicolons.data).toEqual([{ a: 1, b: '2,5', c: 3 }]);
+
+    const tabs = parseCSV('1\t2\n3\t4\n');
+    expect(tabs.delimiter).toBe('\t');
+    expect(tabs.hasHeader).toBe(false);
+    expect(tabs.data).toEqual([{ column1: 1, column2: 2 }, { column1: 3, column2: 4 }]);
+
+    expect(parseCSV('a,b\nc,d\n', { header: 'no' }).data).toEqual([{ column1: 'a', column2: 'b' }, { column1: 'c', column2: 'd' }]);
+  });
+
+  it('should leave values as text when inference is off', () => {
+    const { data } = parseCSV('n,b,e\n1,true,\n', { inferTypes: false });
+
+    expect(data).toEqual([{ n: '1', b: 'true', e: '' }]);
+  });
+
+  it('should normalise dates when date inference is on', () => {
+    const { data } = parseCSV('day,at,local,bad\n2024/1/5,2024-01-05T10:00:00+02:00,2024-01-05 10:30,2024-02-30\n', { inferDates: true });
+
+    expect(data).toEqual([{ day: '2024-01-05', at: '2024-01-05T08:00:00.000Z', local: '2024-01-05T10:30:00', bad: '2024-02-30' }]);
+  });
+
+  it('should nest dotted and indexed column names', () => {
+    const { data } = parseCSV([
+      'id,address.city,address.geo.lat,tags[0],tags[1],meta,meta.note',
+      '1,Paris,48.85,a,b,x,y',
+    ].join('\n'));
+
+    expect(data).toEqual([{
+      id: 1,
+      address: { city: 'Paris', geo: { lat: 48.85 } },
+      tags: ['a', 'b'],
+      meta: 'x',
+      'meta.note': 'y',
+    }]);
+    expect(parseCSV('a.b\n1\n', { unflatten: false }).data).toEqual([{ 'a.b': 1 }]);
+  });
+
+  it('should report rows of the wrong width and keep big numbers when asked', () => {
+    const { data, warnings } = parseCSV('a,b\n1\n2,3,4\n');
+
+    expect(data).toEqual([{ a: 1, b: null, column3: null }, { a: 2, b: 3, column3: 4 }]);
+    expect(warnings).toEqual([
+      { message: 'Row has 1 field, expected 2', line: 2 },
+      { message: 'Row has 3 fields, expected 2', line: 3 },
+    ]);
+
+    const big = parseCSV('id\n12345678901234567890\n', { losslessNumbers: true }).data[0]?.['id'];
+    expect(isLosslessNumber(big)).toBe(true);
+    expect(parseCSV('id\n12345678901234567890\n').data).toEqual([{ id: '12345678901234567890' }]);
+  });
+
+  it('should recognise CSV content types, file names and pasted text', () => {
+    expect(isCsvContentType('text/csv; charset=utf-8')).toBe(true);
+    expect(isCsvContentType('text/tab-separated-values')).toBe(true);
+    expect(isCsvContentType('application/json')).toBe(false);
+    expect(isCsvFileName('export.TSV')).toBe(true);
+    expect(getCsvDelimiterFromFileName('export.tsv')).toBe('\t');
+    expect(getCsvDelimiterFromFileName('export.csv')).toBe('auto');
+
+    expect(looksLikeCSV('name,age\nAnn,30\n')).toBe(true);
+    expect(looksLikeCSV('just one line of text')).toBe(false);
+    expect(looksLikeCSV('{"a": 1,\n"b": 2}')).toBe(false);
+  });
+});
@@ -6,6 +6,7 @@ import {
   jsonToTableRows,
   filterTreeNodes,
   getJsonPath,
+  pointerToTreePath,
 } from '../data-transformers';
 
 describe('Data Transformers', () => {
@@ -159,4 +160,16 @@ describe('Data Transformers', () => {
       expect(getJsonPath(['root'])).toBe('root');
     });
   });
-});
\ No newline at end of file
+
+  describe('pointerToTreePath', () => {
+    it('should convert pointers to tree path segments', () => {
+      expect(pointerToTreePath(sampleData, '/nested/array/2')).toEqual(['nested', 'array', '[2]']);
+      expect(pointerToTreePath(sampleData, '')).toEqual([]);
+    });
+
+    it('should stop at the deepest existing node', () => {
+      expect(pointerToTreePath(sampleData, '/nested/missing')).toEqual(['nested']);
+      expect(pointerToTreePath(sampleData, '/nested/array/7')).toEqual(['nested', 'array']);
+    });
+  });
+});
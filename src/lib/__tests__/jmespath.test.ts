@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+
+import { JsonValue } from '../../types/json.types';
+import { enhancedSearchJson } from '../enhanced-json-search';
+import { compileJmesPath, findJmesPathSyntaxError, searchJmesPath } from '../jmespath';
+import { createLosslessNumber } from '../lossless-number';
+
+// Shaped like `aws ec2 describe-instances` output
+const reservations: JsonValue = {
+  Reservations: [
+    {
+      Instances: [
+        { InstanceId: 'i-1', State: { Name: 'running' }, Tags: [{ Key: 'Name', Value: 'web' }], CpuCount: 2 },
+        { InstanceId: 'i-2', State: { Name: 'stopped' }, Tags: [], CpuCount: 8 },
+      ],
+    },
+    {
+      Instances: [
+        { InstanceId: 'i-3', State: { Name: 'running' }, Tags: [{ Key: 'Name', Value: 'db' }], CpuCount: 4 },
+      ],
+    },
+  ],
+};
+
+const search = (data: JsonValue, expression: string) => searchJmesPath(data, expression);
+
+describe('JMESPath', () => {
+  it('should select fields, indexes and slices', () => {
+    expect(search({ a: { b: { c: 1 } } }, 'a.b.c')).toBe(1);
+    expect(search({ a: 1 }, 'a.b.c')).toBeNull();
+    expect(search({ 'with space': 1 }, '"with space"')).toBe(1);
+    expect(search([1, 2, 3], '[-1]')).toBe(3);
+    expect(search([0, 1, 2, 3, 4, 5], '[1:3]')).toEqual([1, 2]);
+    expect(search([0, 1, 2, 3, 4, 5], '[::2]')).toEqual([0, 2, 4]);
+    expect(search([0, 1, 2, 3, 4, 5], '[::-1]')).toEqual([5, 4, 3, 2, 1, 0]);
+    expect(search([0, 1, 2, 3, 4, 5], '[-2:]')).toEqual([4, 5]);
+    expect(search({ a: 'x' }, '@.a')).toBe('x');
+  });
+
+  it('should project lists, objects, flattened arrays and filters', () => {
+    expect(search(reservations, 'Reservations[*].Instances[*].InstanceId')).toEqual([['i-1', 'i-2'], ['i-3']]);
+    expect(search(reservations, 'Reservations[].Instances[].InstanceId')).toEqual(['i-1', 'i-2', 'i-3']);
+    expect(search(reservations, "Reservations[].Instances[?State.Name == 'running'].InstanceId[]")).toEqual(['i-1', 'i-3']);
+    expect(search(reservations, 'Reservations[].Instances[?CpuCount > `2`] | length(@)')).toBe(2);
+    expect(search(reservations, 'Reservations[].Instances[].Tags[?Key == `"Name"`].Value[]')).toEqual(['web', 'db']);
+    expect(search({ a: { x: 1 }, b: { x: 2 }, c: {} }, '*.x')).toEqual([1, 2]);
+    expect(search([[1, 2], 3, [4, [5]]], '[]')).toEqual([1, 2, 3, 4, [5]]);
+    expect(search([{ a: [1, 2] }, { a: [3] }], '[*].a[0]')).toEqual([1, 3]);
+    // Pipes stop projections
+    expect(search([{ a: [1, 2] }, { a: [3] }], '[*].a | [0]')).toEqual([1, 2]);
+    expect(search({ a: 'not a list' }, 'a[*].b')).toBeNull();
+  });
+
+  it('should build multiselect lists and hashes', () => {
+    expect(search(reservations, 'Reservations[].Instances[].{id: InstanceId, state: State.Name}')).toEqual([
+      { id: 'i-1', state: 'running' },
+      { id: 'i-2', state: 'stopped' },
+      { id: 'i-3', state: 'running' },
+    ]);
+    expect(search(reservations, 'Reservations[0].Instances[].[InstanceId, CpuCount]')).toEqual([['i-1', 2], ['i-2', 8]]);
+    expect(search({ a: 1, b: 2 }, '[a, b, c]')).toEqual([1, 2, null]);
+    expect(search(null, '{a: a}')).toBeNull();
+  });
+
+  it('should apply logical operators, comparisons and literals', () => {
+    expect(search({ a: null, b: 'x' }, 'a || b')).toBe('x');
+    expect(search({ a: [], b: 'x' }, 'a && b')).toEqual([]);
+    expect(search({ a: '' }, '!a')).toBe(true);
+    expect(search({ a: [1, 2] }, 'a == `[1, 2]`')).toBe(true);
+    expect(search({ a: 'x' }, "a < 'y'")).toBeNull();
+    expect(search(null, "'it\\'s raw'")).toBe("it's raw");
+    expect(search({ n: createLosslessNumber('12345678901234567890') }, 'n == `12345678901234567890`')).toBe(true);
+  });
+
+  it('should call the built-in functions', () => {
+    const people = [
+      { name: 'Ada', age: 36 },
+      { name: 'Grace', age: 45 },
+      { name: 'Linus', age: 28 },
+    ];
+    expect(search(people, 'sort_by(@, &age)[].name')).toEqual(['Linus', 'Ada', 'Grace']);
+    expect(search(people, 'max_by(@, &age).name')).toBe('Grace');
+    expect(search(people, 'min_by(@, &name).name')).toBe('Ada');
+    expect(search(people, 'map(&age, @)')).toEqual([36, 45, 28]);
+    expect(search(people, 'sum([].age)')).toBe(109);
+    expect(search(people, 'avg([].age)')).toBe(109 / 3);
+    expect(search(people, "join(', ', [].name)")).toBe('Ada, Grace, Linus');
+    expect(search(people, "[?starts_with(name, 'G') || ends_with(name, 's')].name")).toEqual(['Grace', 'Linus']);
+    expect(search(people, "[?contains(name, 'r')].name")).toEqual(['Grace']);
+    expect(search({ b: 2, a: 1 }, '[keys(@), values(@), length(@), type(@)]')).toEqual([['b', 'a'], [2, 1], 2, 'object']);
+    expect(search([3, 1, 2], '[sort(@), reverse(@), max(@), min(@), abs(`-4`), ceil(`1.2`), floor(`1.8`)]')).toEqual([
+      [1, 2, 3], [2, 1, 3], 3, 1, 4, 2, 1,
+    ]);
+    expect(search({ a: { x: 1 }, b: { y: 2 } }, 'merge(a, b, `{"x": 3}`)')).toEqual({ x: 3, y: 2 });
+    expect(JSON.stringify(search(JSON.parse('{"items": [{"__proto__": 1}]}'), 'merge(items[0], `{"a": 2}`)'))).toBe('{"__proto__":1,"a":2}');
+    expect(search({ a: null, b: 'x' }, 'not_null(a, b)')).toBe('x');
+    expect(search({ n: 1 }, "[to_string(n), to_number('2.5'), to_number('nope'), to_array(n), to_string(`[1]`)]")).toEqual([
+      '1', 2.5, null, [1], '[1]',
+    ]);
+    expect(search('añb', 'length(@)')).toBe(3);
+  });
+
+  it('should report syntax errors with their offset and type errors with the spec wording', () => {
+    expect(findJmesPathSyntaxError("Reservations[].Instances[?State.Name == 'running']")).toBeNull();
+    expect(findJmesPathSyntaxError('a.')).toEqual({ offset: 2, message: "Expected a name, '*', '[' or '{' after '.' but found end of expression" });
+    expect(findJmesPathSyntaxError('[bar')).toEqual({ offset: 4, message: "Expected ',' or ']' but found end of expression" });
+    expect(findJmesPathSyntaxError('a = b')).toEqual({ offset: 2, message: "Unexpected '='; compare with '=='" });
+    expect(findJmesPathSyntaxError('`{bad}`')).toEqual({ offset: 0, message: 'Invalid JSON in literal' });
+    expect(findJmesPathSyntaxError('a | nope(@)')).toEqual({ offset: 4, message: 'Unknown function nope()' });
+    expect(findJmesPathSyntaxError('length(a, b)')).toEqual({ offset: 0, message: 'length() takes 1 argument but was given 2' });
+    expect(findJmesPathSyntaxError('[::0]')).toEqual({ offset: 3, message: 'A slice step cannot be 0' });
+    expect(() => compileJmesPath('[')).toThrow(expect.objectContaining({ code: 'QUERY_SYNTAX_ERROR' }));
+
+    expect(() => search({ a: 'x' }, 'abs(a)')).toThrow(expect.objectContaining({
+      code: 'QUERY_EVALUATION_ERROR',
+      details: 'invalid-type: abs() expected argument 1 to be number, but got string',
+    }));
+    expect(() => search([{ a: 1 }, { a: 'x' }], 'sort_by(@, &a)')).toThrow(expect.objectContaining({ code: 'QUERY_EVALUATION_ERROR' }));
+  });
+
+  it('should plug into enhanced search', () => {
+    const { results, stats, projection } = enhancedSearchJson(reservations, {
+      query: 'Reservations[].Instances[].InstanceId',
+      mode: 'jmespath',
+    });
+    expect(projection).toEqual(['i-1', 'i-2', 'i-3']);
+    expect(results.map((result) => result.jsonPath)).toEqual(['$[0]', '$[1]', '$[2]']);
+    expect(stats.error).toBeUndefined();
+
+    expect(enhancedSearchJson(reservations, { query: 'Reservations[0].Instances[0].InstanceId', mode: 'jmespath' }).results).toHaveLength(1);
+    expect(enhancedSearchJson(reservations, { query: 'a.', mode: 'jmespath' }).stats.error).toBe(
+      "Expected a name, '*', '[' or '{' after '.' but found end of expression at offset 2"
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+
+import { JsonValue } from '../../types/json.types';
+import { compileJq, runJq } from '../jq';
+import { createLosslessNumber } from '../lossless-number';
+
+const users: JsonValue = {
+  users: [
+    { name: 'Ada', age: 36, team: 'core', active: true, tags: ['math'] },
+    { name: 'Grace', age: 45, team: 'infra', active: false, tags: [] },
+    { name: 'Linus', age: 28, team: 'core', active: true, tags: ['kernel', 'git'] },
+  ],
+};
+
+const jq = (data: JsonValue, program: string) => runJq(data, program).outputs;
+
+describe('jq', () => {
+  it('should pipe, select, map and build objects', () => {
+    expect(jq(users, '.users[] | select(.active) | .name')).toEqual(['Ada', 'Linus']);
+    expect(jq(users, '.users | map({name, senior: (.age > 40)})')).toEqual([[
+      { name: 'Ada', senior: false },
+      { name: 'Grace', senior: true },
+      { name: 'Linus', senior: false },
+    ]]);
+    expect(jq(users, '{(.users[0].name): .users[0].tags[0], count: (.users | length)}')).toEqual([{ Ada: 'math', count: 3 }]);
+    expect(jq(users, '[.users[].tags[]?] | length')).toEqual([3]);
+    expect(jq(null, '1, 2 | . * 10')).toEqual([10, 20]);
+    expect(jq(null, '[(1,2) + (10,20)]')).toEqual([[11, 12, 21, 22]]);
+    expect(jq({ a: 1 }, '{a, b: (1,2)}')).toEqual([{ a: 1, b: 1 }, { a: 1, b: 2 }]);
+    expect(jq([1, 2, 3, 4, 5], '.[1:3], .[-2:], .[:1]')).toEqual([[2, 3], [4, 5], [1]]);
+    expect(jq({ a: null }, '.a // "default", (.b.c | values), .a?')).toEqual(['default', null]);
+  });
+
+  it('should group, sort and reshape with the builtins', () => {
+    expect(jq(users, '.users | group_by(.team) | map({team: .[0].team, names: map(.name)})')).toEqual([[
+      { team: 'core', names: ['Ada', 'Linus'] },
+      { team: 'infra', names: ['Grace'] },
+    ]]);
+    expect(jq(users, '.users | sort_by(.age) | map(.name)')).toEqual([['Linus', 'Ada', 'Grace']]);
+    expect(jq(users, '.users | sort_by(.team, -.age) | map(.name)')).toEqual([['Ada', 'Linus', 'Grace']]);
+    expect(jq({ b: 2, a: 1 }, 'keys, keys_unsorted, to_entries')).toEqual([
+      ['a', 'b'],
+      ['b', 'a'],
+      [{ key: 'b', value: 2 }, { key: 'a', value: 1 }],
+    ]);
+    expect(jq({ a: 1, b: 2 }, 'with_entries(.value += 1)')).toEqual([{ a: 2, b: 3 }]);
+    expect(jq([3, 1, 2, 1], 'unique, min, max, add, (map(tostring) | join("-"))')).toEqual([[1, 2, 3], 1, 3, 7, '3-1-2-1']);
+    expect(jq([[1, [2]], 3], 'flatten, flatten(1)')).toEqual([[1, 2, 3], [1, [2], 3]]);
+    expect(jq('a,b, c', 'split(", ?"; null), test("B"; "i"), [match("\\\\w"; "g").offset], sub("(?<x>\\\\w)"; "<\\(.x)>"; "g")')).toEqual([
+      ['a', 'b', 'c'], true, [0, 2, 5], '<a>,<b>, <c>',
+    ]);
+    expect(jq(null, '[limit(3; 1 | repeat(. * 2))], first(range(10; 0; -3)), [range(5)] | tostring')).toEqual(['[1,2,4]', '10', '[0,1,2,3,4]']);
+    expect(jq('a, b,c', '[splits(", *")], [splits("B"; "i")]')).toEqual([['a', 'b', 'c'], ['a, ', ',c']]);
+  });
+
+  it('should break out of a label', () => {
+    expect(jq([1, 2, 3, 4], '[label $out | .[] | if . > 2 then break $out else . end]')).toEqual([[1, 2]]);
+    expect(jq(null, '[label $a | 1, (label $b | 2, break $a, 3), 4]')).toEqual([[1, 2]]);
+    // try/catch does not stop a break
+    expect(jq(null, '[label $out | try (1, break $out) catch "caught"]')).toEqual([[1]]);
+    expect(jq(null, 'def firsts(f): label $done | f | ., break $done; [firsts(range(5; 10)), firsts(empty)]')).toEqual([[5]]);
+    expect(jq({ a: 1, b: 2 }, 'path(label $p | .a, break $p, .b)')).toEqual([['a']]);
+  });
+
+  it('should reduce, bind variables and destructure', () => {
+    expect(jq(users, 'reduce .users[] as $u ({}; .[$u.team] += [$u.name])')).toEqual([{ core: ['Ada', 'Linus'], infra: ['Grace'] }]);
+    expect(jq([1, 2, 3], '[foreach .[] as $n (0; . + $n)]')).toEqual([[1, 3, 6]]);
+    expect(jq(users, '.users[0] as {name: $n, tags: [$first]} | "\\($n) likes \\($first)"')).toEqual(['Ada likes math']);
+    expect(jq(null, '[1, [2, 3]] as [$a, [$b, $c]] | $a + $b + $c')).toEqual([6]);
+    expect(jq(null, 'def twice(f): f | f; def inc($by): . + $by; 1 | twice(inc(10))')).toEqual([21]);
+    expect(jq(null, 'def fac: if . <= 1 then 1 else . * (. - 1 | fac) end; 10 | fac')).toEqual([3628800]);
+    expect(jq({ n: 3 }, '"n is \\(.n), doubled \\(.n * 2)", @base64 "\\("hi")", @csv "\\([1, "a\\"b"])"')).toEqual([
+      'n is 3, doubled 6', 'aGk=', '1,"a""b"',
+    ]);
+  });
+
+  it('should update, delete and list paths', () => {
+    expect(jq({ a: { b: 1 }, c: [1, 2, 3] }, '.a.b |= . + 1 | .c[1:] = ["x"] | del(.c[0])')).toEqual([{ a: { b: 2 }, c: ['x'] }]);
+    expect(jq([1, 2, 3, 4], 'map(select(. % 2 == 0)) , (.[] |= empty), del(.[] | select(. > 2))')).toEqual([[2, 4], [], [1, 2]]);
+    expect(jq({ a: [{ b: 1 }] }, '[paths], [paths(type == "number")], getpath(["a", 0, "b"]), path(.a[0].b)')).toEqual([
+      [['a'], ['a', 0], ['a', 0, 'b']],
+      [['a', 0, 'b']],
+      1,
+      ['a', 0, 'b'],
+    ]);
+    expect(jq({ a: null }, '.a //= 5 | .b.c = 1 | pick(.b.c)')).toEqual([{ b: { c: 1 } }]);
+    expect(jq({ a: 1 }, 'try error("boom") catch ., (try (1 / 0) catch "zero"), ([.[] | tostring] | first)')).toEqual(['boom', 'zero', '1']);
+  });
+
+  it('should treat __proto__ as an ordinary key', () => {
+    expect(jq({ a: 1 }, '.["__proto__"], (.["__proto__"] = 3 | tojson)')).toEqual([null, '{"a":1,"__proto__":3}']);
+    expect(jq([{ key: '__proto__', value: 1 }, { key: 'b', value: 2 }], 'from_entries | tojson')).toEqual(['{"__proto__":1,"b":2}']);
+    expect(jq(null, '{"__proto__": {a: 1}} * {"__proto__": {b: 2}} | tojson')).toEqual(['{"__proto__":{"a":1,"b":2}}']);
+  });
+
+  it('should round halves away from zero', () => {
+    expect(jq([-1.5, 1.5, 2.5, -2.4], 'map(round)')).toEqual([[-2, 2, 3, -2]]);
+  });
+
+  it('should keep large numbers exact and compare them', () => {
+    const big = createLosslessNumber('12345678901234567890');
+    expect(jq([big, 1], '.[0], (.[0] > .[1]), sort')).toEqual([big, true, [1, big]]);
+  });
+
+  it('should report syntax errors with their offset and runtime errors with jq messages', () => {
+    const syntax = (program: string) => {
+      try {
+        compileJq(program);
+        return null;
+      } catch (error) {
+        return (error as { details?: string }).details;
+      }
+    };
+    expect(syntax('.users[] | select(.active')).toBe("Expected ')' but found end of query at offset 25");
+    expect(syntax('.a | foo(1)')).toBe('foo/1 is not defined at offset 5');
+    expect(syntax('$x + 1')).toBe('$x is not defined at offset 0');
+    expect(syntax('{a: 1 b}')).toBe("Expected ',' or '}' but found 'b' at offset 6");
+    expect(syntax('"\\q"')).toBe('Invalid escape sequence \\q at offset 1');
+    expect(syntax('1 == 2 == 3')).toBe("'==' cannot follow '==' without parentheses at offset 7");
+    expect(syntax('@nope')).toBe('@nope is not a valid format at offset 0');
+    expect(syntax('label $out | break $in')).toBe('break $in has no matching label at offset 13');
+    expect(syntax('label out | .')).toBe("Expected a label name but found 'out' at offset 6");
+
+    expect(() => runJq({ a: 'text' }, '.a.b')).toThrow(expect.objectContaining({
+      code: 'QUERY_EVALUATION_ERROR',
+      details: 'Cannot index string with "b"',
+    }));
+    expect(() => runJq({}, '{} + 1')).toThrow(expect.objectContaining({ details: 'object ({}) and number (1) cannot be added' }));
+    expect(() => runJq(null, '[repeat(1)] | length')).toThrow(expect.objectContaining({ code: 'QUERY_EVALUATION_ERROR' }));
+  });
+
+  it('should stop at the output limit', () => {
+    expect(runJq(null, 'range(1000000)', { maxOutputs: 5 })).toEqual({ outputs: [0, 1, 2, 3, 4], truncated: true });
+    expect(runJq(null, 'range(3)', { maxOutputs: 3 })).toEqual({ outputs: [0, 1, 2], truncated: false });
+  });
+});
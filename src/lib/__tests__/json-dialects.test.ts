@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+
+import { detectDialect, getDialectFromFileName, parseDialect, stringifyDialect, stringifyEditedDocument } from '../json-dialects';
+import { isLosslessNumber } from '../lossless-number';
+import { buildSourceMap } from '../source-map';
+
+describe('JSON dialects', () => {
+  it('should parse JSONC comments and trailing commas', () => {
+    const text = [
+      '// settings',
+      '{',
+      '  /* the port */',
+      '  "port": 8080, // default',
+      '  "hosts": ["a", "b",],',
+      '  // nothing after this',
+      '}',
+    ].join('\n');
+    const { data, comments } = parseDialect(text, 'jsonc');
+
+    expect(data).toEqual({ port: 8080, hosts: ['a', 'b'] });
+    expect(comments).toEqual([
+      { path: [], before: ['// settings'], end: ['// nothing after this'] },
+      { path: ['port'], before: ['/* the port */'], after: ['// default'] },
+    ]);
+  });
+
+  it('should parse JSON5 keys, strings and numbers', () => {
+    const { data } = parseDialect("{unquoted: 'single', hex: 0xFF, half: .5, big: +Infinity, nan: NaN, 'q': \"a\\\nb\"}", 'json5');
+
+    expect(data).toMatchObject({ unquoted: 'single', hex: 255, half: 0.5, big: Infinity, q: 'ab' });
+    expect(Number.isNaN((data as Record<string, unknown>)['nan'])).toBe(true);
+    expect(() => parseDialect("{unquoted: 'single'}", 'jsonc')).toThrow();
+  });
+
+  it('should parse HJSON quoteless values, multiline strings and a braceless root', () => {
+    const text = [
+      '# service',
+      'name: my service',
+      'port: 8080',
+      'enabled: true',
+      'notes:',
+      "  '''",
+      '  first',
+      '  second',
+      "  '''",
+      'tags: [',
+      '  one',
+      '  two',
+      ']',
+    ].join('\n');
+    const { data, comments } = parseDialect(text, 'hjson');
+
+    expect(data).toEqual({ name: 'my service', port: 8080, enabled: true, notes: 'first\nsecond', tags: ['one', 'two'] });
+    expect(comments).toEqual([{ path: [], before: ['# service'] }]);
+  });
+
+  it('should keep big numbers when lossless numbers are on', () => {
+    const { data } = parseDialect('{"id": 12345678901234567890, // id\n}', 'jsonc', { losslessNumbers: true });
+    const id = (data as Record<string, unknown>)['id'];
+
+    expect(isLosslessNumber(id)).toBe(true);
+  });
+
+  it('should write comments back in the same dialect', () => {
+    const text = '{\n  // the port\n  port: 8080, // default\n  name: \'api\',\n}';
+    const { data, comments } = parseDialect(text, 'json5');
+    const output = stringifyDialect(data, 'json5', comments);
+
+    expect(output).toBe('{\n  // the port\n  port: 8080, // default\n  name: "api"\n}\n');
+    expect(parseDialect(output, 'json5')).toEqual(parseDialect(text, 'json5'));
+
+    const hjson = stringifyDialect({ name: 'my service', count: '42' }, 'hjson', [{ path: ['name'], before: ['# service'] }]);
+    expect(hjson).toBe('{\n  # service\n  name: my service\n  count: "42"\n}\n');
+    expect(parseDialect(hjson, 'hjson').data).toEqual({ name: 'my service', count: '42' });
+  });
+
+  it('should keep the dialect and comments of an edited document', () => {
+    const { data, comments } = parseDialect('{\n  // the port\n  "port": 8080,\n}', 'jsonc');
+    const edited = stringifyEditedDocument({ ...(data as object), host: 'localhost' }, { format: 'jsonc', comments });
+
+    expect(edited.raw).toBe('{\n  // the port\n  "port": 8080,\n  "host": "localhost"\n}\n');
+    expect(edited.parsed).toEqual({ format: 'jsonc', comments });
+    expect(stringifyEditedDocument({ a: 1 }, { format: 'yaml' })).toEqual({ raw: '{\n  "a": 1\n}' });
+  });
+
+  it('should resolve and report repeated keys by the duplicate key policy', () => {
+    const text = '{\n  // first\n  a: 1,\n  a: 2,\n  a: 3,\n}';
+
+    expect(parseDialect(text, 'json5').data).toEqual({ a: 3 });
+    expect(parseDialect(text, 'json5', { duplicateKeyPolicy: 'first-wins' }).data).toEqual({ a: 1 });
+    const { data, duplicateKeys } = parseDialect(text, 'json5', { duplicateKeyPolicy: 'keep-all' });
+    expect(data).toEqual({ a: [1, 2, 3] });
+    expect(duplicateKeys).toEqual([
+      { path: [], key: 'a', line: 4, column: 3, firstValue: 1, value: 2 },
+      { path: [], key: 'a', line: 5, column: 3, firstValue: 1, value: 3 },
+    ]);
+  });
+
+  it('should map nodes to source positions', () => {
+    const sourceMap = buildSourceMap('{\n  // first\n  a: [1, 2],\n}', 'json5');
+
+    expect(sourceMap?.get(JSON.stringify(['a']))?.key).toEqual({ start: { line: 3, column: 3 }, end: { line: 3, column: 4 } });
+    expect(sourceMap?.get(JSON.stringify(['a', '[1]']))?.value.start).toEqual({ line: 3, column: 10 });
+    expect(buildSourceMap('{a: 1}', 'jsonc')).toBeNull();
+  });
+
+  it('should report where parsing failed', () => {
+    expect(() => parseDialect('{\n  "a": 1\n  "b": 2\n}', 'jsonc')).toThrow(
+      expect.objectContaining({ details: expect.stringContaining('line 3, column 3') })
+    );
+  });
+
+  it('should detect dialects from file names and content', () => {
+    expect(getDialectFromFileName('tsconfig.JSONC')).toBe('jsonc');
+    expect(getDialectFromFileName('data.json')).toBeNull();
+    expect(detectDialect('{"a": 1, // note\n}')).toBe('jsonc');
+    expect(detectDialect("{a: 'b'}")).toBe('json5');
+    expect(detectDialect('not json')).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+
+import { diffJson, jsonEquals, summarizeDiff, toJsonPath } from '../json-diff';
+
+describe('JSON Diff', () => {
+  describe('toJsonPath', () => {
+    it('should format identifiers, indices and quoted keys', () => {
+      expect(toJsonPath([])).toBe('$');
+      expect(toJsonPath(['users', '[0]', 'name'])).toBe('$.users[0].name');
+      expect(toJsonPath(['first name'])).toBe("$['first name']");
+    });
+  });
+
+  describe('jsonEquals', () => {
+    it('should ignore object key order', () => {
+      expect(jsonEquals({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 })).toBe(true);
+      expect(jsonEquals([1, 2], [2, 1])).toBe(false);
+    });
+  });
+
+  describe('diffJson', () => {
+    it('should report added, removed and changed values', () => {
+      const operations = diffJson({ a: 1, b: 2, c: { d: true } }, { a: 1, b: 3, e: null });
+      expect(operations.map((op) => [op.type, op.path])).toEqual([
+        ['removed', '$.c'],
+        ['changed', '$.b'],
+        ['added', '$.e'],
+      ]);
+      expect(operations[1]).toMatchObject({ oldValue: 2, newValue: 3 });
+    });
+
+    it('should compare arrays by index by default', () => {
+      const operations = diffJson([1, 2, 3], [1, 5]);
+      expect(operations.map((op) => [op.type, op.path])).toEqual([
+        ['changed', '$[1]'],
+        ['removed', '$[2]'],
+      ]);
+    });
+
+    it('should match array elements by key when requested', () => {
+      const before = [{ id: 1, v: 'a' }, { id: 2, v: 'b' }];
+      const after = [{ id: 2, v: 'B' }, { id: 3, v: 'c' }];
+      const operations = diffJson(before, after, { arrayKey: 'id' });
+
+      expect(operations.map((op) => [op.type, op.path])).toEqual([
+        ['removed', '$[0]'],
+        ['changed', '$[0].v'],
+        ['added', '$[1]'],
+      ]);
+      expect(operations[1]).toMatchObject({ oldPath: '$[1].v', newPath: '$[0].v' });
+    });
+
+    it('should treat type changes as a single change', () => {
+      const operations = diffJson({ a: [1] }, { a: { 0: 1 } });
+      expect(operations).toHaveLength(1);
+      expect(operations[0]?.type).toBe('changed');
+    });
+
+    it('should return no operations for equal documents', () => {
+      expect(summarizeDiff(diffJson({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).total).toBe(0);
+    });
+  });
+});
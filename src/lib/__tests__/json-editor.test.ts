@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  applyTreeEdit,
+  deleteAtPath,
+  getValueAtPath,
+  insertChildAtPath,
+  moveArrayItem,
+  parseEditedValue,
+  renameKeyAtPath,
+  setValueAtPath,
+} from '../json-editor';
+
+describe('JSON Editor', () => {
+  const doc = {
+    name: 'test',
+    items: [{ id: 1 }, { id: 2 }, { id: 3 }],
+    meta: { version: 1, tags: ['a'] },
+  };
+
+  describe('getValueAtPath', () => {
+    it('should resolve object keys and array indices', () => {
+      expect(getValueAtPath(doc, ['items', '[1]', 'id'])).toBe(2);
+      expect(getValueAtPath(doc, [])).toBe(doc);
+      expect(getValueAtPath(doc, ['missing'])).toBeUndefined();
+    });
+  });
+
+  describe('setValueAtPath', () => {
+    it('should replace a value without mutating the original', () => {
+      const result = setValueAtPath(doc, ['meta', 'version'], 2);
+      expect(getValueAtPath(result, ['meta', 'version'])).toBe(2);
+      expect(doc.meta.version).toBe(1);
+      expect((result as typeof doc).items).toBe(doc.items);
+    });
+
+    it('should throw for paths that do not exist', () => {
+      expect(() => setValueAtPath(doc, ['nope', 'x'], 1)).toThrow();
+    });
+  });
+
+  describe('renameKeyAtPath', () => {
+    it('should keep the key position', () => {
+      const result = renameKeyAtPath(doc, ['items'], 'records');
+      expect(Object.keys(result as object)).toEqual(['name', 'records', 'meta']);
+    });
+
+    it('should reject duplicate keys', () => {
+      expect(() => renameKeyAtPath(doc, ['items'], 'name')).toThrow();
+    });
+
+    it('should rename to, from and beside __proto__ keys as plain members', () => {
+      const source = JSON.parse('{"a": 1, "__proto__": {"b": 2}}');
+
+      expect(JSON.stringify(renameKeyAtPath(source, ['a'], 'c'))).toBe('{"c":1,"__proto__":{"b":2}}');
+      expect(JSON.stringify(renameKeyAtPath(source, ['__proto__'], 'p'))).toBe('{"a":1,"p":{"b":2}}');
+      expect(JSON.stringify(renameKeyAtPath({ a: 1 }, ['a'], '__proto__'))).toBe('{"__proto__":1}');
+    });
+  });
+
+  describe('insertChildAtPath', () => {
+    it('should append to arrays and add keys to objects', () => {
+      const appended = insertChildAtPath(doc, ['meta', 'tags'], 'b');
+      expect(getValueAtPath(appended, ['meta', 'tags'])).toEqual(['a', 'b']);
+
+      const added = insertChildAtPath(doc, ['meta'], true, 'draft');
+      expect(getValueAtPath(added, ['meta', 'draft'])).toBe(true);
+    });
+
+    it('should require a key for objects', () => {
+      expect(() => insertChildAtPath(doc, ['meta'], 1)).toThrow();
+    });
+  });
+
+  describe('deleteAtPath', () => {
+    it('should remove array items and object keys', () => {
+      const withoutItem = deleteAtPath(doc, ['items', '[0]']);
+      expect(getValueAtPath(withoutItem, ['items'])).toEqual([{ id: 2 }, { id: 3 }]);
+
+      const withoutKey = deleteAtPath(doc, ['name']);
+      expect(Object.keys(withoutKey as object)).toEqual(['items', 'meta']);
+    });
+
+    it('should refuse to delete the root', () => {
+      expect(() => deleteAtPath(doc, [])).toThrow();
+    });
+  });
+
+  describe('moveArrayItem', () => {
+    it('should reorder items', () => {
+      const result = moveArrayItem(doc, ['items', '[0]'], 2);
+      expect(getValueAtPath(result, ['items'])).toEqual([{ id: 2 }, { id: 3 }, { id: 1 }]);
+    });
+  });
+
+  describe('parseEditedValue', () => {
+    it('should keep text as a string when editing strings', () => {
+      expect(parseEditedValue('42', 'string')).toBe('42');
+      expect(parseEditedValue('"42"', 'string')).toBe('42');
+    });
+
+    it('should recognise JSON literals for other types', () => {
+      expect(parseEditedValue('42', 'number')).toBe(42);
+      expect(parseEditedValue('false')).toBe(false);
+      expect(parseEditedValue('null')).toBeNull();
+      expect(parseEditedValue('hello')).toBe('hello');
+    });
+  });
+
+  describe('applyTreeEdit', () => {
+    it('should return a history description', () => {
+      const result = applyTreeEdit(doc, { type: 'delete', path: ['items', '[2]'] });
+      expect(result.description).toBe('Deleted items.[2]');
+      expect(getValueAtPath(result.data, ['items'])).toHaveLength(2);
+    });
+  });
+});
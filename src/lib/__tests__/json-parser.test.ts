@@ -42,6 +42,16 @@ describe('JSON Parser', () => {
       expect(parseJSON('true').data).toBe(true);
       expect(parseJSON('null').data).toBe(null);
     });
+
+    it('should report duplicate keys and apply the chosen policy', () => {
+      const input = '{"port": 80, "port": 8080}';
+      expect(parseJSON(input).data).toEqual({ port: 8080 });
+      expect(parseJSON(input, { duplicateKeyPolicy: 'first-wins' }).data).toEqual({ port: 80 });
+
+      const { duplicateKeys } = parseJSON(input, { duplicateKeyPolicy: 'keep-all' });
+      expect(duplicateKeys).toEqual([{ path: [], key: 'port', line: 1, column: 14, firstValue: 80, value: 8080 }]);
+      expect(parseJSON('{"a": 1}').duplicateKeys).toEqual([]);
+    });
   });
 
   describe('stringifyJSON', () => {
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  applyJsonPatch,
+  applyMergePatch,
+  createJsonPatch,
+  createMergePatch,
+  parsePointer,
+  segmentsToPointer,
+  validateJsonPatch,
+} from '../json-patch';
+import { createLosslessNumber, isLosslessNumber } from '../lossless-number';
+
+describe('JSON Patch', () => {
+  describe('pointers', () => {
+    it('should escape and unescape tokens', () => {
+      expect(segmentsToPointer(['a/b', '[2]', 'c~d'])).toBe('/a~1b/2/c~0d');
+      expect(parsePointer('/a~1b/2/c~0d')).toEqual(['a/b', '2', 'c~d']);
+      expect(parsePointer('')).toEqual([]);
+    });
+  });
+
+  describe('applyJsonPatch', () => {
+    const doc = { foo: 'bar', list: [1, 2, 3] };
+
+    it('should apply all operation types', () => {
+      const result = applyJsonPatch(doc, [
+        { op: 'test', path: '/foo', value: 'bar' },
+        { op: 'add', path: '/list/-', value: 4 },
+        { op: 'remove', path: '/list/0' },
+        { op: 'replace', path: '/foo', value: 'baz' },
+        { op: 'copy', from: '/foo', path: '/copy' },
+        { op: 'move', from: '/copy', path: '/moved' },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({ foo: 'baz', list: [2, 3, 4], moved: 'baz' });
+      expect(result.results[0]).toMatchObject({ status: 'applied', testPassed: true });
+      expect(doc.list).toEqual([1, 2, 3]);
+    });
+
+    it('should keep lossless numbers lossless', () => {
+      const big = createLosslessNumber('12345678901234567890');
+      const result = applyJsonPatch({ id: big }, [{ op: 'copy', from: '/id', path: '/copy' }, { op: 'add', path: '/added', value: big }]);
+
+      expect(isLosslessNumber((result.data as Record<string, unknown>)['copy'])).toBe(true);
+      expect(isLosslessNumber((result.data as Record<string, unknown>)['added'])).toBe(true);
+    });
+
+    it('should report the failing operation and skip the rest', () => {
+      const result = applyJsonPatch(doc, [
+        { op: 'replace', path: '/foo', value: 1 },
+        { op: 'test', path: '/foo', value: 'bar' },
+        { op: 'remove', path: '/list' },
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.data).toBeNull();
+      expect(result.failedIndex).toBe(1);
+      expect(result.results.map((r) => r.status)).toEqual(['applied', 'failed', 'skipped']);
+      expect(result.results[1]?.testPassed).toBe(false);
+    });
+
+    it('should reject missing paths and bad indices', () => {
+      expect(applyJsonPatch(doc, [{ op: 'remove', path: '/missing' }]).success).toBe(false);
+      expect(applyJsonPatch(doc, [{ op: 'add', path: '/list/9', value: 0 }]).success).toBe(false);
+    });
+
+    it('should validate patch structure', () => {
+      expect(validateJsonPatch({})).toBeTruthy();
+      expect(validateJsonPatch([{ op: 'jump', path: '/' }])).toContain('unknown');
+      expect(validateJsonPatch([{ op: 'add', path: '/a' }])).toContain('value');
+    });
+  });
+
+  describe('createJsonPatch', () => {
+    it('should produce a patch that reproduces the target', () => {
+      const from = { a: 1, list: [1, 2, 3, 4], nested: { keep: true, drop: 'x' } };
+      const to = { a: 2, list: [1], nested: { keep: true }, extra: [null] };
+      const patch = createJsonPatch(from, to);
+
+      expect(applyJsonPatch(from, patch).data).toEqual(to);
+      expect(patch.filter((op) => op.op === 'remove' && op.path.startsWith('/list')).map((op) => op.path))
+        .toEqual(['/list/3', '/list/2', '/list/1']);
+    });
+  });
+
+  describe('merge patch', () => {
+    it('should apply RFC 7386 semantics', () => {
+      expect(applyMergePatch({ a: 'b', c: { d: 'e', f: 'g' } }, { a: 'z', c: { f: null } }))
+        .toEqual({ a: 'z', c: { d: 'e' } });
+      expect(applyMergePatch({ a: [1] }, { a: [2, 3] })).toEqual({ a: [2, 3] });
+      expect(applyMergePatch({ a: 1 }, ['x'])).toEqual(['x']);
+    });
+
+    it('should merge a __proto__ key as a plain member', () => {
+      const merged = applyMergePatch({ a: 1 }, JSON.parse('{"__proto__": {"polluted": true}}')) as Record<string, unknown>;
+
+      expect(Object.getPrototypeOf(merged)).toBe(Object.prototype);
+      expect(merged['polluted']).toBeUndefined();
+      expect(Object.keys(merged)).toEqual(['a', '__proto__']);
+      expect(JSON.stringify(merged)).toBe('{"a":1,"__proto__":{"polluted":true}}');
+    });
+
+    it('should keep __proto__ members in generated merge patches', () => {
+      const from = JSON.parse('{"__proto__": {"a": 1}, "gone": {"__proto__": 1}}');
+      const to = JSON.parse('{"__proto__": {"a": 2}, "added": {"__proto__": 3}}');
+      const patch = createMergePatch(from, to);
+
+      expect(JSON.stringify(patch)).toBe('{"gone":null,"__proto__":{"a":2},"added":{"__proto__":3}}');
+      expect(applyMergePatch(from, patch)).toEqual(to);
+    });
+
+    it('should generate merge patches that round-trip', () => {
+      const from = { a: 1, b: { c: 2, d: 3 }, e: [1] };
+      const to = { a: 1, b: { c: 5 }, e: [1, 2], f: 'new' };
+      const patch = createMergePatch(from, to);
+
+      expect(patch).toEqual({ b: { c: 5, d: null }, e: [1, 2], f: 'new' });
+      expect(applyMergePatch(from, patch)).toEqual(to);
+    });
+  });
+});
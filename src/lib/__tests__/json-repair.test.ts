@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+
+import { brutalSanitize, cleanControlCharacters } from '../file-processor';
+import { parseJSON } from '../json-parser';
+import { applyRepairs, RepairLog } from '../json-repair';
+
+describe('Repair log', () => {
+  it('should record each change with its position in the original text', () => {
+    const original = '{"a": "x\ty", "b": "\x01"}';
+    const log = new RepairLog(original);
+    const repaired = brutalSanitize(original, log);
+
+    expect(log.text).toBe(repaired);
+    expect(log.repairs).toEqual([
+      { id: 0, rules: ['string-tab'], offset: 8, line: 1, column: 9, original: '\t', replacement: '\\t' },
+      { id: 1, rules: ['control-character-to-space'], offset: 19, line: 1, column: 20, original: '\x01', replacement: ' ' },
+    ]);
+    expect(JSON.parse(repaired)).toEqual({ a: 'x\ty', b: ' ' });
+  });
+
+  it('should merge changes from later passes that overlap earlier ones', () => {
+    const original = 'a\tb\r\nc';
+    const log = new RepairLog(original);
+    let text = log.replace(original, /\t/g, () => '  ', 'tab');
+    text = log.replace(text, / {2}b/g, () => ' B', 'upper');
+    text = cleanControlCharacters(text, log);
+
+    expect(text).toBe('a B\nc');
+    expect(log.repairs.map(({ rules, original: from, replacement }) => ({ rules, from, replacement }))).toEqual([
+      { rules: ['tab', 'upper'], from: '\tb', replacement: ' B' },
+      { rules: ['line-ending'], from: '\r', replacement: '' },
+    ]);
+    expect(applyRepairs(original, log.repairs)).toBe(text);
+  });
+
+  it('should drop changes that are undone by a later pass', () => {
+    const log = new RepairLog('abc');
+    const text = log.replace('abc', /b/g, () => 'x', 'first');
+    log.replace(text, /x/g, () => 'b', 'second');
+
+    expect(log.text).toBe('abc');
+    expect(log.repairs).toEqual([]);
+  });
+
+  it('should apply only the accepted repairs', () => {
+    const original = '{"a": "x\ty", "b": "p\tq"}';
+    const log = new RepairLog(original);
+    brutalSanitize(original, log);
+    const [first, second] = log.repairs;
+
+    expect(log.repairs).toHaveLength(2);
+    expect(applyRepairs(original, first ? [first] : [])).toBe('{"a": "x\\ty", "b": "p\tq"}');
+    expect(applyRepairs(original, second ? [second] : [])).toBe('{"a": "x\ty", "b": "p\\tq"}');
+  });
+
+  it('should report the repairs parseJSON needed to recover', () => {
+    expect(parseJSON('{"a": 1}').repairs).toEqual([]);
+
+    const original = '{"a": "x\ty"}';
+    const log = new RepairLog(original);
+    const cleaned = brutalSanitize(original, log);
+    const result = parseJSON(cleaned, { repairLog: log });
+
+    expect(result.data).toEqual({ a: 'x\ty' });
+    expect(result.repairs).toHaveLength(1);
+    expect(result.repairs[0]).toMatchObject({ rules: ['string-tab'], original: '\t', replacement: '\\t' });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+
+import { JsonValue } from '../../types/json.types';
+import { enhancedSearchJson } from '../enhanced-json-search';
+import { findJsonPathSyntaxError, parseJsonPath, queryJsonPath, toNormalizedPath } from '../jsonpath';
+import { createLosslessNumber } from '../lossless-number';
+
+// The bookstore example from RFC 9535, section 1.5
+const store: JsonValue = {
+  store: {
+    book: [
+      { category: 'reference', author: 'Nigel Rees', title: 'Sayings of the Century', price: 8.95 },
+      { category: 'fiction', author: 'Evelyn Waugh', title: 'Sword of Honour', price: 12.99 },
+      { category: 'fiction', author: 'Herman Melville', title: 'Moby Dick', isbn: '0-553-21311-3', price: 8.99 },
+      { category: 'fiction', author: 'J. R. R. Tolkien', title: 'The Lord of the Rings', isbn: '0-395-19395-8', price: 22.99 },
+    ],
+    bicycle: { color: 'red', price: 399 },
+  },
+};
+
+const values = (data: JsonValue, query: string) => queryJsonPath(data, query).map((node) => node.value);
+const paths = (data: JsonValue, query: string) => queryJsonPath(data, query).map((node) => toNormalizedPath(node.path));
+
+describe('JSONPath', () => {
+  it('should select with names, wildcards, indexes and descendants', () => {
+    expect(values(store, '$.store.book[*].author')).toEqual(['Nigel Rees', 'Evelyn Waugh', 'Herman Melville', 'J. R. R. Tolkien']);
+    expect(values(store, '$..author')).toHaveLength(4);
+    expect(values(store, '$.store..price')).toEqual([8.95, 12.99, 8.99, 22.99, 399]);
+    expect(paths(store, '$..book[2]')).toEqual(["$['store']['book'][2]"]);
+    expect(values(store, '$..book[-1].title')).toEqual(['The Lord of the Rings']);
+    expect(values(store, "$['store']['bicycle'][\"color\"]")).toEqual(['red']);
+    expect(values(store, '$.store.book[0,1].title')).toEqual(['Sayings of the Century', 'Sword of Honour']);
+    expect(values(store, '$..*')).toHaveLength(27);
+    expect(values({ a: [1, 2] }, '$[0]')).toEqual([]);
+  });
+
+  it('should slice arrays with negative bounds and steps', () => {
+    const letters = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+    expect(values(letters, '$[1:3]')).toEqual(['b', 'c']);
+    expect(values(letters, '$[5:]')).toEqual(['f', 'g']);
+    expect(values(letters, '$[1:5:2]')).toEqual(['b', 'd']);
+    expect(values(letters, '$[5:1:-2]')).toEqual(['f', 'd']);
+    expect(values(letters, '$[::-1]')).toEqual(['g', 'f', 'e', 'd', 'c', 'b', 'a']);
+    expect(values(letters, '$[-2:]')).toEqual(['f', 'g']);
+    expect(values(letters, '$[::0]')).toEqual([]);
+  });
+
+  it('should filter with logical operators, comparisons and nested queries', () => {
+    expect(values(store, '$..book[?@.isbn].title')).toEqual(['Moby Dick', 'The Lord of the Rings']);
+    expect(values(store, '$..book[?@.price < 10].title')).toEqual(['Sayings of the Century', 'Moby Dick']);
+    expect(values(store, "$..book[?(@.price < 10 && @.category == 'fiction') || !@.price].title")).toEqual(['Moby Dick']);
+    expect(values(store, '$..book[?@.price > $.store.book[0].price].title')).toHaveLength(3);
+    expect(values(store, '$.store.book[?!@.isbn].title')).toEqual(['Sayings of the Century', 'Sword of Honour']);
+    // Objects are filtered by member value
+    expect(paths(store, "$.store[?@.color == 'red']")).toEqual(["$['store']['bicycle']"]);
+    // Missing values compare equal only to each other
+    expect(values([{ a: 1 }, { b: 2 }], '$[?@.a == @.c]')).toEqual([{ b: 2 }]);
+    expect(values([[1, 2], [1, 3]], '$[?@ == $[0]]')).toEqual([[1, 2]]);
+    expect(values([createLosslessNumber('12345678901234567890'), 1], '$[?@ == 12345678901234567890]')).toEqual([
+      createLosslessNumber('12345678901234567890'),
+    ]);
+    expect(values(['b', 'a', 10, true], "$[?@ < 'b']")).toEqual(['a']);
+  });
+
+  it('should call the standard filter functions', () => {
+    const data = [
+      { name: 'Amélie', tags: ['a', 'b'] },
+      { name: 'Bob', tags: [] },
+      { name: 'Bo\nb', tags: ['c'] },
+    ];
+    expect(values(data, '$[?length(@.name) == 6].name')).toEqual(['Amélie']);
+    expect(values(data, '$[?count(@.tags[*]) > 1].name')).toEqual(['Amélie']);
+    expect(values(data, "$[?match(@.name, 'B.b')].name")).toEqual(['Bob']);
+    expect(values(data, "$[?search(@.name, '[eé]')].name")).toEqual(['Amélie']);
+    expect(values(data, "$[?value(@.tags[0]) == 'c'].name")).toEqual(['Bo\nb']);
+    expect(values(data, "$[?match(@.name, '(')]")).toEqual([]);
+  });
+
+  it('should report syntax and type errors with their offset', () => {
+    const error = (query: string) => findJsonPathSyntaxError(query);
+
+    expect(error('$.store.book[?@.price < 10]')).toBeNull();
+    expect(error('store')).toEqual({ offset: 0, message: 'A JSONPath query must start with $' });
+    expect(error('$.store[')).toEqual({ offset: 8, message: "Expected a quoted name, index, slice, '*' or filter but found end of query" });
+    expect(error('$[1 2]')).toEqual({ offset: 4, message: "Expected ',' or ']' but found '2'" });
+    expect(error('$[01]')).toEqual({ offset: 2, message: 'Integers cannot have leading zeros' });
+    expect(error("$['a\\x']")).toEqual({ offset: 4, message: 'Invalid escape sequence \\x' });
+    expect(error('$[?@.a == foo]')).toEqual({ offset: 10, message: "Unknown name 'foo' (strings must be quoted)" });
+    expect(error('$[?@.* == 1]')).toEqual({ offset: 3, message: 'Only singular queries (made of names and indexes) can be compared' });
+    expect(error('$[?length(@.a)]')).toEqual({ offset: 3, message: 'length() returns a value, so it must be compared with something' });
+    expect(error('$[?count(1) > 0]')).toEqual({ offset: 9, message: 'Argument 1 of count() must be a query' });
+    expect(error('$[?foo(@)]')).toEqual({ offset: 3, message: 'Unknown function foo()' });
+    expect(error('$[?1]')).toEqual({ offset: 3, message: 'A literal cannot be used as a test; compare it with something' });
+    expect(error('$.a ')).toEqual({ offset: 3, message: 'Unexpected whitespace' });
+    expect(() => parseJsonPath('$[')).toThrow(expect.objectContaining({ code: 'QUERY_SYNTAX_ERROR' }));
+  });
+
+  it('should write normalized paths', () => {
+    expect(toNormalizedPath([])).toBe('$');
+    expect(toNormalizedPath(['a', 0, "it's", 'line\nbreak', '\u0001'])).toBe("$['a'][0]['it\\'s']['line\\nbreak']['\\u0001']");
+  });
+
+  it('should plug into enhanced search', () => {
+    const { results, stats } = enhancedSearchJson(store, { query: '$.store.book[?@.price > 20]', mode: 'jsonpath' });
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ path: 'store.book.[3]', jsonPath: "$['store']['book'][3]", key: '[3]', depth: 3 });
+    expect(stats.error).toBeUndefined();
+
+    expect(enhancedSearchJson(store, { query: '$..*', mode: 'jsonpath', limit: 5 }).stats.truncated).toBe(true);
+    expect(enhancedSearchJson(store, { query: '$.store[', mode: 'jsonpath' }).stats.error).toBe(
+      "Expected a quoted name, index, slice, '*' or filter but found end of query at offset 8"
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+
+import { JsonObject, JsonValue } from '../../types/json.types';
+import { enhancedSearchJson } from '../enhanced-json-search';
+import { jsonEquals } from '../json-diff';
+import { parseJSON, stringifyJSON } from '../json-parser';
+import { searchJson } from '../json-search';
+import {
+  createLosslessNumber,
+  isImpreciseNumber,
+  isIntegerNumber,
+  isLosslessNumber,
+  losesPrecision,
+  numbersEqual,
+  reviveLosslessNumbers,
+  tagLosslessNumbers,
+} from '../lossless-number';
+import { JsonSchema, schemaValidator } from '../schema-validator';
+
+const source = '{"id": 12345678901234567890, "price": 10.50, "count": 3, "ratio": 0.1}';
+const parseLossless = (text: string): JsonValue => parseJSON(text, { losslessNumbers: true }).data ?? null;
+
+describe('Lossless numbers', () => {
+  it('should keep the original text of numbers that would change', () => {
+    const data = parseLossless(source) as JsonObject;
+
+    expect(isLosslessNumber(data['id'])).toBe(true);
+    expect(data['id']).toMatchObject({ value: '12345678901234567890' });
+    expect(data['price']).toMatchObject({ value: '10.50' });
+    expect(data['count']).toBe(3);
+    expect(data['ratio']).toBe(0.1);
+  });
+
+  it('should leave numbers untouched when the mode is off', () => {
+    const data = parseJSON(source).data as JsonObject;
+    expect(data['id']).toBe(12345678901234567000);
+    expect(data['price']).toBe(10.5);
+  });
+
+  it('should write lossless numbers back with their original text', () => {
+    const data = parseLossless(source);
+    expect(stringifyJSON(data, 0)).toBe('{"id":12345678901234567890,"price":10.50,"count":3,"ratio":0.1}');
+    expect(stringifyJSON(data)).toBe(JSON.stringify(JSON.parse(source), null, 2)
+      .replace('12345678901234567000', '12345678901234567890')
+      .replace('10.5', '10.50'));
+  });
+
+  it('should not take objects shaped like lossless numbers for numbers', () => {
+    const spoof = '{"a":{"isLosslessNumber":true,"value":"}{"}}';
+    expect(isLosslessNumber((parseJSON(spoof).data as JsonObject)['a'])).toBe(false);
+    expect(stringifyJSON(parseJSON(spoof).data, 0)).toBe(spoof);
+    expect(stringifyJSON(reviveLosslessNumbers(structuredClone(tagLosslessNumbers(parseLossless(spoof)))), 0)).toBe(spoof);
+  });
+
+  it('should survive structured cloning once tagged', () => {
+    const cloned = reviveLosslessNumbers(structuredClone(tagLosslessNumbers(parseLossless(source)))) as JsonObject;
+
+    expect(isLosslessNumber(cloned['id'])).toBe(true);
+    expect(stringifyJSON(cloned, 0)).toBe('{"id":12345678901234567890,"price":10.50,"count":3,"ratio":0.1}');
+  });
+
+  it('should flag values that lose precision as JS numbers', () => {
+    expect(losesPrecision('12345678901234567890')).toBe(true);
+    expect(losesPrecision('0.1000000000000000000001')).toBe(true);
+    expect(losesPrecision('10.50')).toBe(false);
+    expect(losesPrecision('1e400')).toBe(true);
+
+    expect(isImpreciseNumber(createLosslessNumber('12345678901234567890'))).toBe(true);
+    expect(isImpreciseNumber(createLosslessNumber('10.50'))).toBe(false);
+    expect(isImpreciseNumber(2 ** 60)).toBe(true);
+    expect(isImpreciseNumber(42)).toBe(false);
+  });
+
+  it('should compare numbers by value without rounding', () => {
+    expect(numbersEqual(createLosslessNumber('10.50'), 10.5)).toBe(true);
+    expect(numbersEqual(createLosslessNumber('1.0e2'), 100)).toBe(true);
+    expect(jsonEquals(createLosslessNumber('12345678901234567890'), createLosslessNumber('12345678901234567891'))).toBe(false);
+    expect(jsonEquals({ a: createLosslessNumber('2.50') }, { a: 2.5 })).toBe(true);
+  });
+
+  it('should treat integral lossless numbers as schema integers', () => {
+    expect(isIntegerNumber(createLosslessNumber('1.55e1'))).toBe(false);
+    expect(isIntegerNumber(createLosslessNumber('12345678901234567890'))).toBe(true);
+
+    const data = parseLossless(source);
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { id: { type: 'integer' }, price: { type: 'number', minimum: 10 } },
+    };
+    expect(schemaValidator.validateAgainstSchema(data, schema).isValid).toBe(true);
+    expect(schemaValidator.validateAgainstSchema(data, { ...schema, properties: { price: { type: 'integer' } } }).isValid).toBe(false);
+  });
+
+  it('should find numbers by their exact digits', () => {
+    const data = parseLossless(source);
+    const { results } = searchJson(data, { query: '67890', searchInKeys: false });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ key: 'id', type: 'number' });
+    expect(enhancedSearchJson(data, { query: '10.50', mode: 'simple', searchInKeys: false }).results).toMatchObject([{ key: 'price' }]);
+  });
+
+  it('should search plain and lossless numbers alike by their text', () => {
+    [parseLossless(source), parseJSON(source).data ?? null].forEach((data) => {
+      expect(searchJson(data, { query: '0.1', searchInKeys: false }).results).toMatchObject([{ key: 'ratio' }]);
+      expect(enhancedSearchJson(data, { query: '3', mode: 'simple', searchInKeys: false }).results.map((result) => result.key).sort()).toEqual(['count', 'id']);
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+
+import { isNDJSONFileName, looksLikeNDJSON, NdjsonStreamParser, parseNDJSON, stringifyNDJSON } from '../ndjson';
+
+describe('NDJSON', () => {
+  describe('parseNDJSON', () => {
+    it('should turn each line into an array element', () => {
+      const result = parseNDJSON('{"a":1}\n{"a":2}\r\n\n[3]\n');
+      expect(result.records).toEqual([{ a: 1 }, { a: 2 }, [3]]);
+      expect(result.errors).toEqual([]);
+      expect(result.lineCount).toBe(3);
+    });
+
+    it('should report bad lines without dropping good records', () => {
+      const result = parseNDJSON('{"a":1}\n{broken\n\n{"a":3}');
+      expect(result.records).toEqual([{ a: 1 }, { a: 3 }]);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({ line: 2, preview: '{broken' });
+    });
+  });
+
+  describe('detection', () => {
+    it('should recognise NDJSON file names', () => {
+      expect(isNDJSONFileName('logs.JSONL')).toBe(true);
+      expect(isNDJSONFileName('events.ndjson')).toBe(true);
+      expect(isNDJSONFileName('data.json')).toBe(false);
+    });
+
+    it('should distinguish NDJSON from multi-line JSON', () => {
+      expect(looksLikeNDJSON('{"a":1}\n{"b":2}')).toBe(true);
+      expect(looksLikeNDJSON('{\n  "a": 1\n}')).toBe(false);
+      expect(looksLikeNDJSON('{"a":1}')).toBe(false);
+    });
+  });
+
+  describe('stringifyNDJSON', () => {
+    it('should write one record per line', () => {
+      expect(stringifyNDJSON([{ a: 1 }, 'x'])).toBe('{"a":1}\n"x"\n');
+      expect(stringifyNDJSON({ a: 1 })).toBe('{"a":1}\n');
+    });
+  });
+
+  describe('NdjsonStreamParser', () => {
+    const bytes = new TextEncoder().encode('{"a":"é"}\n\n{bad\n[1,2]\n');
+
+    it('should parse lines split across chunks', () => {
+      const parser = new NdjsonStreamParser();
+      for (let offset = 0; offset < bytes.length; offset += 4) {
+        parser.write(bytes.subarray(offset, offset + 4));
+      }
+      const result = parser.end();
+
+      expect(result.records).toEqual([{ a: 'é' }, [1, 2]]);
+      expect(result.errors.map((error) => error.line)).toEqual([3]);
+      expect(result.lineCount).toBe(3);
+    });
+
+    it('should index record byte ranges without parsing', () => {
+      const parser = new NdjsonStreamParser({ buildIndex: true, materialize: false });
+      parser.write(bytes);
+      const { records, index } = parser.end();
+
+      expect(records).toEqual([]);
+      expect(index?.entries.map((entry) => [entry.start, entry.end, entry.type])).toEqual([
+        [0, 10, 'object'],
+        [12, 16, 'object'],
+        [17, 22, 'array'],
+      ]);
+    });
+  });
+});
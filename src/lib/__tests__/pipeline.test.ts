@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+
+import { JsonValue } from '../../types/json.types';
+import { createLosslessNumber } from '../lossless-number';
+import { describeStep, parseFieldPath, PipelineStep, runPipeline, validateRecipe } from '../pipeline';
+
+const dump: JsonValue = {
+  meta: { page: 1 },
+  items: [
+    { id: '3', user: { name: 'Linus', city: 'Helsinki' }, active: 'yes', tags: ['os'] },
+    { id: '1', user: { name: 'Ada', city: 'London' }, active: 'no', tags: [] },
+    { id: '2', user: { name: 'Grace', city: 'New York' }, active: 'yes', tags: ['navy'] },
+    { id: '1', user: { name: 'Ada', city: 'London' }, active: 'no', tags: [] },
+  ],
+};
+
+const run = (data: JsonValue, steps: PipelineStep[]) => runPipeline(data, steps);
+const output = (data: JsonValue, steps: PipelineStep[]) => {
+  const results = run(data, steps);
+  return results[results.length - 1]?.data;
+};
+
+describe('pipeline', () => {
+  it('should select, cast, dedupe, sort and pick records, keeping each step\'s output', () => {
+    const steps: PipelineStep[] = [
+      { op: 'select', path: '$.items' },
+      { op: 'cast', field: 'id', to: 'number' },
+      { op: 'dedupe', fields: ['id'] },
+      { op: 'sort', field: 'id', direction: 'asc' },
+      { op: 'pick', fields: ['id', 'user.name'] },
+    ];
+    const results = run(dump, steps);
+
+    expect(results.map((result) => result.recordCount)).toEqual([4, 4, 3, 3, 3]);
+    expect(results[4]?.data).toEqual([
+      { id: 1, user: { name: 'Ada' } },
+      { id: 2, user: { name: 'Grace' } },
+      { id: 3, user: { name: 'Linus' } },
+    ]);
+    // Earlier outputs are not changed by later steps
+    expect((results[0]?.data as JsonValue[])[0]).toMatchObject({ id: '3' });
+  });
+
+  it('should rename keys in place and across levels', () => {
+    expect(output({ a: 1, b: 2, c: 3 }, [{ op: 'rename', from: 'b', to: 'beta' }])).toEqual({ a: 1, beta: 2, c: 3 });
+    expect(Object.keys(output({ a: 1, b: 2, c: 3 }, [{ op: 'rename', from: 'b', to: 'beta' }]) as object)).toEqual(['a', 'beta', 'c']);
+    expect(output([{ user: { name: 'Ada' } }], [{ op: 'rename', from: 'user.name', to: 'name' }])).toEqual([{ user: {}, name: 'Ada' }]);
+    expect(output([{ other: 1 }], [{ op: 'rename', from: 'missing', to: 'x' }])).toEqual([{ other: 1 }]);
+  });
+
+  it('should leave records alone and warn when a rename would overwrite a field', () => {
+    const [result] = run([{ a: 1, b: 2 }, { a: 3 }], [{ op: 'rename', from: 'a', to: 'b' }]);
+    expect(result?.data).toEqual([{ a: 1, b: 2 }, { b: 3 }]);
+    expect(result?.warnings).toEqual(['b already exists in 1 record, left unchanged']);
+  });
+
+  it('should reach keys made by flatten before splitting fields on dots', () => {
+    const flattened: JsonValue = [{ a: 1, n: { x: 2, y: 'b' } }, { a: 3, n: { x: 1, y: 'a' } }];
+    expect(output(flattened, [
+      { op: 'flatten', separator: '.' },
+      { op: 'sort', field: 'n.x', direction: 'asc' },
+      { op: 'filter', field: 'n.y', operator: 'exists', value: '' },
+      { op: 'cast', field: 'n.x', to: 'string' },
+      { op: 'rename', from: 'n.y', to: 'label' },
+      { op: 'pick', fields: ['a', 'n.x', 'label'] },
+    ])).toEqual([{ a: 3, 'n.x': '1', label: 'a' }, { a: 1, 'n.x': '2', label: 'b' }]);
+  });
+
+  it('should filter with comparisons read as the field\'s type', () => {
+    const records: JsonValue = [{ n: 5, s: 'apple', b: true }, { n: 10, s: 'Banana', b: false }, { n: createLosslessNumber('12345678901234567890') }];
+    const keep = (field: string, operator: 'eq' | 'ne' | 'gt' | 'contains' | 'exists' | 'missing', value = '') =>
+      (output(records, [{ op: 'filter', field, operator, value }]) as JsonValue[]).length;
+
+    expect(keep('n', 'gt', '9')).toBe(2);
+    expect(keep('n', 'eq', '5')).toBe(1);
+    expect(keep('s', 'contains', 'AN')).toBe(1);
+    expect(keep('b', 'eq', 'true')).toBe(1);
+    expect(keep('s', 'exists')).toBe(2);
+    expect(keep('s', 'missing')).toBe(1);
+    expect(keep('s', 'ne', 'apple')).toBe(2);
+  });
+
+  it('should keep the first value when flattened names collide, and keep __proto__ keys', () => {
+    const [result] = run(JSON.parse('[{"a.b": 1, "a": {"b": 2}, "c": 3}, {"__proto__": {"x": 1}}]'), [{ op: 'flatten', separator: '.' }]);
+    expect(JSON.stringify(result?.data)).toBe('[{"a.b":1,"c":3},{"__proto__.x":1}]');
+    expect(result?.warnings).toEqual(['a.b is made by more than one key in 1 record, the first value was kept']);
+    expect(JSON.stringify(output(JSON.parse('{"__proto__": 1}'), [{ op: 'flatten', separator: '.' }]))).toBe('{"__proto__":1}');
+  });
+
+  it('should dedupe by value regardless of key order or number spelling', () => {
+    const records: JsonValue = [{ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 }, { a: createLosslessNumber('1.0'), b: [1, 2] }, { a: 1, b: [2, 1] }, { a: '1' }];
+    expect(output(records, [{ op: 'dedupe', fields: [] }])).toEqual([{ a: 1, b: [1, 2] }, { a: 1, b: [2, 1] }, { a: '1' }]);
+    expect(output(records, [{ op: 'dedupe', fields: ['a'] }])).toEqual([{ a: 1, b: [1, 2] }, { a: '1' }]);
+  });
+
+  it('should flatten nested objects and cast values, warning about ones that do not convert', () => {
+    expect(output({ a: { b: { c: 1 }, d: [1] }, e: {} }, [{ op: 'flatten', separator: '.' }])).toEqual({ 'a.b.c': 1, 'a.d': [1], e: {} });
+
+    const [result] = run([{ v: '1.5' }, { v: 'n/a' }, { v: 'yes' }, {}], [{ op: 'cast', field: 'v', to: 'number' }]);
+    expect(result?.data).toEqual([{ v: 1.5 }, { v: null }, { v: null }, {}]);
+    expect(result?.warnings).toEqual(['n/a is not a number', 'yes is not a number']);
+
+    expect(output([{ v: 'Yes' }, { v: 0 }], [{ op: 'cast', field: 'v', to: 'boolean' }])).toEqual([{ v: true }, { v: false }]);
+    expect(output([{ v: 12 }, { v: [1] }], [{ op: 'cast', field: 'v', to: 'string' }])).toEqual([{ v: '12' }, { v: '[1]' }]);
+    expect(output({ v: '12345678901234567890' }, [{ op: 'cast', field: 'v', to: 'number' }])).toEqual({
+      v: createLosslessNumber('12345678901234567890'),
+    });
+  });
+
+  it('should stop at the first failing step', () => {
+    const results = run(dump, [
+      { op: 'sort', field: 'id', direction: 'asc' },
+      { op: 'pick', fields: ['id'] },
+    ]);
+    expect(results).toEqual([{ data: null, error: 'Sort needs an array of records; add a Select step first' }]);
+    expect(run(dump, [{ op: 'select', path: '$.nope' }])[0]?.error).toBe('$.nope selects nothing');
+    expect(run(dump, [{ op: 'select', path: '$[' }])[0]?.error).toMatch(/at offset 2$/);
+    expect(output(dump, [{ op: 'select', path: '$.items[*].user.city' }])).toEqual(['Helsinki', 'London', 'New York', 'London']);
+  });
+
+  it('should validate recipes and describe their steps', () => {
+    expect(validateRecipe({ name: 'Users', steps: [{ op: 'select', path: '$.items' }, { op: 'dedupe', fields: [] }] })).toBeNull();
+    expect(validateRecipe([])).toBe('A recipe must be an object with "name" and "steps"');
+    expect(validateRecipe({ name: 'x', steps: [{ op: 'explode' }] })).toBe('Step 0 has an unknown "op": "explode"');
+    expect(validateRecipe({ name: 'x', steps: [{ op: 'filter', field: 'a', operator: 'like', value: '' }] })).toBe(
+      'Step 0 (filter) has a missing or invalid "operator"'
+    );
+
+    expect(describeStep({ op: 'filter', field: 'age', operator: 'gte', value: '18' })).toBe('Keep records where age >= 18');
+    expect(parseFieldPath('orders[0].items[2].sku')).toEqual(['orders', 0, 'items', 2, 'sku']);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+
+import { JsonValue } from '../../types/json.types';
+import { formatCheckers, JsonSchema, schemaValidator } from '../schema-validator';
+
+const validate = (data: Parameters<typeof schemaValidator.validateAgainstSchema>[0], schema: JsonSchema) =>
+  schemaValidator.validateAgainstSchema(data, schema);
+
+describe('SchemaValidator', () => {
+  it('should report instance and schema paths', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        users: { type: 'array', items: { type: 'object', properties: { email: { type: 'string', format: 'email' } } } },
+      },
+    };
+    const { errors } = validate({ users: [{ email: 'a@b.io' }, { email: 'nope' }] }, schema);
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      path: 'users[1].email',
+      instancePath: '/users/1/email',
+      schemaPath: '#/properties/users/items/properties/email/format',
+      keyword: 'format',
+    });
+  });
+
+  it('should resolve $ref into $defs, including recursive schemas', () => {
+    const schema: JsonSchema = {
+      $ref: '#/$defs/node',
+      $defs: {
+        node: {
+          type: 'object',
+          required: ['name'],
+          properties: { name: { type: 'string' }, children: { type: 'array', items: { $ref: '#/$defs/node' } } },
+        },
+      },
+    };
+
+    expect(validate({ name: 'a', children: [{ name: 'b', children: [] }] }, schema).isValid).toBe(true);
+    const { errors } = validate({ name: 'a', children: [{ children: [] }] }, schema);
+    expect(errors.map((error) => [error.instancePath, error.keyword])).toEqual([['/children/0/name', 'required']]);
+  });
+
+  it('should apply allOf, anyOf, oneOf and not', () => {
+    const schema: JsonSchema = {
+      allOf: [{ type: 'number' }, { minimum: 0 }],
+      anyOf: [{ multipleOf: 2 }, { multipleOf: 3 }],
+      oneOf: [{ maximum: 10 }, { minimum: 5 }],
+      not: { const: 8 },
+    };
+
+    expect(validate(4, schema).isValid).toBe(true);
+    expect(validate(7, schema).errors.map((error) => error.keyword)).toEqual(['anyOf', 'oneOf']);
+    expect(validate(8, schema).errors.map((error) => error.keyword)).toEqual(['oneOf', 'not']);
+    expect(validate(-2, schema).errors.map((error) => error.schemaPath)).toEqual(['#/allOf/1/minimum']);
+  });
+
+  it('should apply if/then/else', () => {
+    const schema: JsonSchema = {
+      if: { properties: { kind: { const: 'card' } } },
+      then: { required: ['cardNumber'] },
+      else: { required: ['iban'] },
+    };
+
+    expect(validate({ kind: 'card', cardNumber: '4111' }, schema).isValid).toBe(true);
+    expect(validate({ kind: 'card' }, schema).errors[0]?.schemaPath).toBe('#/then/required');
+    expect(validate({ kind: 'bank' }, schema).errors[0]?.schemaPath).toBe('#/else/required');
+  });
+
+  it('should validate array and object keywords', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      patternProperties: { '^x-': { type: 'string' } },
+      additionalProperties: false,
+      properties: { tags: { type: 'array', minItems: 1, uniqueItems: true }, a: {}, b: {} },
+      dependentRequired: { a: ['b'] },
+    };
+
+    expect(validate({ tags: ['x'], 'x-id': 'ok', a: 1, b: 2 }, schema).isValid).toBe(true);
+    const { errors } = validate({ tags: [{ k: 1 }, { k: 1 }], 'x-id': 1, other: true, a: 1 }, schema);
+    expect(errors.map((error) => [error.path, error.keyword])).toEqual([
+      ['b', 'dependentRequired'],
+      ['tags', 'uniqueItems'],
+      ['x-id', 'type'],
+      ['other', 'additionalProperties'],
+    ]);
+    expect(validate({ tags: [] }, schema).errors[0]?.keyword).toBe('minItems');
+  });
+
+  it('should treat integer, const and boolean schemas per the specification', () => {
+    expect(validate(1.5, { type: 'integer' }).isValid).toBe(false);
+    expect(validate(2, { type: 'integer' }).isValid).toBe(true);
+    expect(validate({ a: [1] }, { const: { a: [1] } }).isValid).toBe(true);
+    expect(validate({ a: 1 }, { properties: { a: false } }).isValid).toBe(false);
+  });
+
+  it('should check common formats', () => {
+    expect(formatCheckers['date-time']?.('2024-02-29T10:20:30.5+01:00')).toBe(true);
+    expect(formatCheckers['date-time']?.('2023-02-29T10:20:30Z')).toBe(false);
+    expect(formatCheckers['uri']?.('https://example.com/a?b=c')).toBe(true);
+    expect(formatCheckers['uri']?.('example.com')).toBe(false);
+    expect(formatCheckers['uuid']?.('123e4567-e89b-12d3-a456-426614174000')).toBe(true);
+    expect(formatCheckers['email']?.('user@localhost')).toBe(false);
+  });
+
+  describe('generateSchemaFromData', () => {
+    const samples: JsonValue[] = [
+      { id: 1, status: 'active', email: 'a@example.com', created: '2024-01-01T10:00:00Z', score: 1.5 },
+      { id: 2, status: 'inactive', email: 'b@example.com', created: '2024-02-01T10:00:00Z', score: null },
+      { id: 3, status: 'active', email: 'c@example.com', created: '2024-03-01T10:00:00Z', tags: ['x'] },
+      { id: 4, status: 'active', email: 'd@example.com', created: '2024-04-01T10:00:00Z', score: 3 },
+    ];
+
+    it('should merge every array element into one item schema', () => {
+      const schema = schemaValidator.generateSchemaFromData(samples);
+      const items = schema.items as JsonSchema;
+
+      expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+      expect(items.required).toEqual(['id', 'status', 'email', 'created']);
+      expect(items.properties?.['id']).toEqual({ type: 'integer', minimum: 1, maximum: 4 });
+      expect(items.properties?.['score']).toEqual({ type: ['number', 'null'], minimum: 1.5, maximum: 3 });
+      expect(items.properties?.['tags']).toEqual({ type: 'array', items: { type: 'string' } });
+    });
+
+    it('should detect formats and low-cardinality enums', () => {
+      const items = schemaValidator.generateSchemaFromData(samples).items as JsonSchema;
+
+      expect(items.properties?.['email']).toEqual({ type: 'string', format: 'email' });
+      expect(items.properties?.['created']).toEqual({ type: 'string', format: 'date-time' });
+      expect(items.properties?.['status']).toEqual({ type: 'string', enum: ['active', 'inactive'] });
+    });
+
+    it('should produce schemas the samples validate against', () => {
+      const schema = schemaValidator.generateSchemaFromData(samples, { draft: 'draft-07' });
+      expect(schema.$schema).toBe('http://json-schema.org/draft-07/schema#');
+      expect(schemaValidator.validateAgainstSchema(samples, schema).isValid).toBe(true);
+    });
+
+    it('should use anyOf for values of mixed types', () => {
+      const schema = schemaValidator.generateSchemaFromData([1, 'a', null]);
+      expect(schema.items).toEqual({ anyOf: [{ type: 'string' }, { type: 'integer', minimum: 1, maximum: 1 }, { type: 'null' }] });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+
+import { getTreeNodeKey } from '../data-transformers';
+import { stringifyJSON } from '../json-parser';
+import { buildSourceMap, findNodeAtPosition, getNodeRange } from '../source-map';
+import { SourceRange } from '../streaming-json-parser';
+
+const text = [
+  '{',
+  '  "name": "root",',
+  '  "tags": ["a", "bé"],',
+  '  "nested": {"count": 42, "ok": true}',
+  '}',
+].join('\n');
+
+/** Source text covered by a range */
+function slice(source: string, { start, end }: SourceRange): string {
+  const lines = source.split('\n');
+  if (start.line === end.line) {
+    return lines[start.line - 1]?.slice(start.column - 1, end.column - 1) ?? '';
+  }
+  return [
+    lines[start.line - 1]?.slice(start.column - 1),
+    ...lines.slice(start.line, end.line - 1),
+    lines[end.line - 1]?.slice(0, end.column - 1),
+  ].join('\n');
+}
+
+describe('Source map', () => {
+  it('should record the range of every key and value', () => {
+    const map = buildSourceMap(text);
+    const get = (path: string[]) => map?.get(getTreeNodeKey(path));
+
+    expect(get([])?.value).toEqual({ start: { line: 1, column: 1 }, end: { line: 5, column: 2 } });
+    expect(get([])?.key).toBeUndefined();
+
+    const name = get(['name']);
+    expect(name && slice(text, name.value)).toBe('"root"');
+    expect(name?.key && slice(text, name.key)).toBe('"name"');
+
+    const tag = get(['tags', '[1]']);
+    expect(tag && slice(text, tag.value)).toBe('"bé"');
+    expect(tag?.key).toBeUndefined();
+
+    const count = get(['nested', 'count']);
+    expect(count && slice(text, getNodeRange(count))).toBe('"count": 42');
+
+    const nested = get(['nested']);
+    expect(nested && slice(text, nested.value)).toBe('{"count": 42, "ok": true}');
+  });
+
+  it('should map positions to the innermost node', () => {
+    const map = buildSourceMap(text);
+    if (!map) throw new Error('expected a source map');
+
+    expect(findNodeAtPosition(map, 4, 23)).toEqual(['nested', 'count']);
+    expect(findNodeAtPosition(map, 4, 13)).toEqual(['nested']);
+    expect(findNodeAtPosition(map, 3, 4)).toEqual(['tags']);
+    expect(findNodeAtPosition(map, 3, 17)).toEqual(['tags', '[1]']);
+    expect(findNodeAtPosition(map, 6, 1)).toBeNull();
+  });
+
+  it('should cover every node of formatted output', () => {
+    const data = { a: [1, { b: null }], c: 'x' };
+    const map = buildSourceMap(stringifyJSON(data, 2));
+    expect([...(map?.keys() ?? [])].sort()).toEqual(
+      [[], ['a'], ['a', '[0]'], ['a', '[1]'], ['a', '[1]', 'b'], ['c']].map(getTreeNodeKey).sort()
+    );
+  });
+
+  it('should map a repeated key to the occurrence its policy keeps', () => {
+    const source = '{\n  "a": {"x": 1},\n  "a": {"y": 2}\n}';
+    const line = (map: ReturnType<typeof buildSourceMap>, path: string[]) => map?.get(getTreeNodeKey(path))?.value.start.line;
+
+    const lastWins = buildSourceMap(source);
+    expect(line(lastWins, ['a'])).toBe(3);
+    expect(lastWins?.has(getTreeNodeKey(['a', 'x']))).toBe(false);
+
+    const firstWins = buildSourceMap(source, undefined, 'first-wins');
+    expect(line(firstWins, ['a'])).toBe(2);
+    expect(line(firstWins, ['a', 'x'])).toBe(2);
+    expect(firstWins?.has(getTreeNodeKey(['a', 'y']))).toBe(false);
+
+    const keepAll = buildSourceMap(source, 'jsonc', 'keep-all');
+    expect(line(keepAll, ['a', '[0]', 'x'])).toBe(2);
+    expect(line(keepAll, ['a', '[1]', 'y'])).toBe(3);
+    expect(findNodeAtPosition(keepAll ?? new Map(), 3, 12)).toEqual(['a', '[1]', 'y']);
+  });
+
+  it('should return null for invalid text', () => {
+    expect(buildSourceMap('{"a": }')).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+
+import { JsonValue } from '../../types/json.types';
+import { createLosslessNumber } from '../lossless-number';
+import { compileSql, findSqlSyntaxError, runSql } from '../sql';
+
+const shop: JsonValue = {
+  customers: [
+    { id: 1, name: 'Ada', address: { city: 'London' } },
+    { id: 2, name: 'Grace', address: { city: 'New York' } },
+    { id: 3, name: 'Linus', address: { city: 'Helsinki' } },
+  ],
+  orders: [
+    { id: 10, customerId: 1, total: 30, status: 'paid', tags: ['gift'] },
+    { id: 11, customerId: 1, total: 12.5, status: 'open', tags: [] },
+    { id: 12, customerId: 2, total: 99, status: 'paid', tags: ['bulk', 'gift'] },
+    { id: 13, customerId: 4, total: 5, status: null, tags: [] },
+  ],
+};
+
+describe('SQL', () => {
+  it('should select columns, filter, sort and page through an array', () => {
+    expect(runSql(shop, "SELECT id, total FROM $.orders WHERE status = 'paid' ORDER BY total DESC")).toEqual({
+      columns: ['id', 'total'],
+      rows: [{ id: 12, total: 99 }, { id: 10, total: 30 }],
+    });
+    expect(runSql(shop, 'SELECT name FROM $.customers ORDER BY name DESC LIMIT 1 OFFSET 1').rows).toEqual([{ name: 'Grace' }]);
+    expect(runSql(shop, "SELECT address.city AS city FROM $.customers WHERE name LIKE 'g%'").rows).toEqual([{ city: 'New York' }]);
+    expect(runSql(shop, 'SELECT id, tags[0] FROM $.orders WHERE tags[0] IS NOT NULL').rows).toEqual([
+      { id: 10, 'tags[0]': 'gift' },
+      { id: 12, 'tags[0]': 'bulk' },
+    ]);
+    expect(runSql([3, 1, 2], 'SELECT value FROM $ ORDER BY 1').rows).toEqual([{ value: 1 }, { value: 2 }, { value: 3 }]);
+  });
+
+  it('should expand SELECT * into flattened columns', () => {
+    const { columns, rows } = runSql(shop, 'SELECT * FROM $.customers LIMIT 1');
+    expect(columns).toEqual(['id', 'name', 'address.city']);
+    expect(rows).toEqual([{ id: 1, name: 'Ada', 'address.city': 'London' }]);
+  });
+
+  it('should evaluate operators with SQL null semantics', () => {
+    const row = (expression: string) => runSql({ rows: [{ a: 1, b: null, s: 'Hi' }] }, `SELECT ${expression} AS x FROM $.rows`).rows[0]?.['x'];
+    expect(row('a + 2 * 3')).toBe(7);
+    expect(row('a / 0')).toBeNull();
+    expect(row('b + 1')).toBeNull();
+    expect(row('b = NULL')).toBeNull();
+    expect(row('b IS NULL')).toBe(true);
+    expect(row('NOT (b = 1) OR a = 1')).toBe(true);
+    expect(row('a IN (2, 3, NULL)')).toBeNull();
+    expect(row('a NOT IN (2, 3)')).toBe(true);
+    expect(row('a BETWEEN 0 AND 2')).toBe(true);
+    expect(row("s || '!' || a")).toBe('Hi!1');
+    expect(row("CASE WHEN a > 0 THEN 'pos' ELSE 'neg' END")).toBe('pos');
+    expect(row("CASE a WHEN 2 THEN 'two' END")).toBeNull();
+    expect(row('COALESCE(b, LOWER(s), 1)')).toBe('hi');
+    expect(row('ROUND(2.345, 2)')).toBe(2.35);
+    expect(row("'it''s'")).toBe("it's");
+  });
+
+  it('should group and aggregate', () => {
+    expect(runSql(shop, 'SELECT COUNT(*) AS n, SUM(total) AS sum, MAX(total), COUNT(status) FROM $.orders').rows).toEqual([
+      { n: 4, sum: 146.5, 'MAX(total)': 99, 'COUNT(status)': 3 },
+    ]);
+    expect(runSql(shop, 'SELECT status, COUNT(*) AS n, AVG(total) AS avg FROM $.orders GROUP BY status HAVING COUNT(*) > 1').rows).toEqual([
+      { status: 'paid', n: 2, avg: 64.5 },
+    ]);
+    expect(runSql(shop, 'SELECT customerId, SUM(total) AS spent FROM $.orders GROUP BY customerId ORDER BY spent DESC LIMIT 2').rows).toEqual([
+      { customerId: 2, spent: 99 },
+      { customerId: 1, spent: 42.5 },
+    ]);
+    expect(runSql(shop, 'SELECT COUNT(DISTINCT customerId) AS customers FROM $.orders').rows).toEqual([{ customers: 3 }]);
+    expect(runSql(shop, 'SELECT DISTINCT status FROM $.orders WHERE status IS NOT NULL ORDER BY status').rows).toEqual([
+      { status: 'open' },
+      { status: 'paid' },
+    ]);
+    expect(runSql({ empty: [] }, 'SELECT COUNT(*) AS n, SUM(x) AS s FROM $.empty').rows).toEqual([{ n: 0, s: null }]);
+  });
+
+  it('should join two arrays on a key', () => {
+    expect(runSql(shop, 'SELECT c.name, o.total FROM $.orders AS o JOIN $.customers AS c ON o.customerId = c.id ORDER BY o.id').rows).toEqual([
+      { 'c.name': 'Ada', 'o.total': 30 },
+      { 'c.name': 'Ada', 'o.total': 12.5 },
+      { 'c.name': 'Grace', 'o.total': 99 },
+    ]);
+    expect(runSql(
+      shop,
+      'SELECT customers.name AS name, COUNT(orders.id) AS orders FROM $.customers LEFT JOIN $.orders ON orders.customerId = customers.id GROUP BY customers.id ORDER BY name'
+    ).rows).toEqual([
+      { name: 'Ada', orders: 2 },
+      { name: 'Grace', orders: 1 },
+      { name: 'Linus', orders: 0 },
+    ]);
+    // Non-equality conditions fall back to comparing every pair
+    expect(runSql(shop, 'SELECT o.id FROM $.orders o JOIN $.customers c ON o.customerId = c.id AND o.total > 50').rows).toEqual([{ 'o.id': 12 }]);
+    expect(runSql(shop, 'SELECT * FROM $.customers c JOIN $.orders o ON o.customerId = c.id LIMIT 1').columns).toEqual([
+      'c.id', 'c.name', 'c.address.city', 'o.id', 'o.customerId', 'o.total', 'o.status', 'o.tags[0]', 'o.tags[1]',
+    ]);
+  });
+
+  it('should keep big numbers exact when comparing', () => {
+    const data = { rows: [{ id: createLosslessNumber('12345678901234567890') }, { id: 1 }] };
+    expect(runSql(data, 'SELECT COUNT(*) AS n FROM $.rows WHERE id = 12345678901234567890').rows).toEqual([{ n: 1 }]);
+  });
+
+  it('should report syntax errors with their offset and type errors at run time', () => {
+    expect(findSqlSyntaxError('SELECT * FROM $.orders WHERE total > 10')).toBeNull();
+    expect(findSqlSyntaxError('SELECT FROM $.x')).toEqual({ offset: 7, message: "Expected an expression but found 'FROM'" });
+    expect(findSqlSyntaxError('SELECT a FROM orders')).toEqual({ offset: 14, message: "Expected a JSONPath such as $.items but found 'orders'" });
+    expect(findSqlSyntaxError('SELECT a FROM $.x[')).toMatchObject({ offset: 18 });
+    expect(findSqlSyntaxError('SELECT a FROM $.x WHERE COUNT(*) > 1')).toEqual({ offset: 24, message: 'Aggregate functions cannot be used in WHERE' });
+    expect(findSqlSyntaxError('SELECT nope(a) FROM $.x')).toEqual({ offset: 7, message: 'Unknown function nope()' });
+    expect(findSqlSyntaxError('SELECT *, COUNT(*) FROM $.x')).toMatchObject({ message: 'SELECT * cannot be combined with GROUP BY or aggregate functions' });
+    expect(findSqlSyntaxError("SELECT 'open FROM $.x")).toEqual({ offset: 7, message: 'Unterminated string' });
+    expect(() => compileSql('SELECT')).toThrow(expect.objectContaining({ code: 'QUERY_SYNTAX_ERROR' }));
+
+    expect(() => runSql(shop, 'SELECT name + 1 FROM $.customers')).toThrow(expect.objectContaining({
+      code: 'QUERY_EVALUATION_ERROR',
+      details: "Cannot apply '+' to string and number",
+    }));
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+
+import { parseJSONIncrementally, StreamingJsonParser } from '../streaming-json-parser';
+
+const sample = {
+  name: 'Zoë 🚀',
+  escaped: 'line\nbreak é \\ "quoted"',
+  numbers: [0, -1.5, 2e10, 3.25E-3],
+  flags: [true, false, null],
+  nested: { empty: {}, list: [] },
+};
+
+describe('StreamingJsonParser', () => {
+  it('should match JSON.parse regardless of chunk boundaries', () => {
+    const text = JSON.stringify(sample, null, 2);
+    [1, 2, 3, 7, 1024].forEach((chunkSize) => {
+      expect(parseJSONIncrementally(text, {}, chunkSize).data).toEqual(sample);
+    });
+  });
+
+  it('should parse top-level primitives', () => {
+    expect(parseJSONIncrementally(' 42 ').data).toBe(42);
+    expect(parseJSONIncrementally('"text"').data).toBe('text');
+    expect(parseJSONIncrementally('null').data).toBeNull();
+  });
+
+  it('should report bytes parsed', () => {
+    const parser = new StreamingJsonParser();
+    parser.write('["é",');
+    expect(parser.bytesParsed).toBe(6);
+    parser.write('1]');
+    expect(parser.end().data).toEqual(['é', 1]);
+  });
+
+  it('should reject malformed input with a position', () => {
+    expect(() => parseJSONIncrementally('{"a": 1,}')).toThrow();
+    expect(() => parseJSONIncrementally('[1, 2')).toThrow();
+    expect(() => parseJSONIncrementally('[01]')).toThrow();
+    expect(() => parseJSONIncrementally('{"a": tru}')).toThrow();
+    expect(() => parseJSONIncrementally('[1]]')).toThrow();
+
+    try {
+      parseJSONIncrementally('{\n  "a": x\n}');
+    } catch (error) {
+      expect((error as { details?: string }).details).toContain('line 2, column 8');
+    }
+  });
+
+  it('should index top-level entries by byte offset', () => {
+    const text = '{"ünï": [1, 2], "b": "🚀", "c": {"d": null}}';
+    const bytes = new TextEncoder().encode(text);
+    const { index } = parseJSONIncrementally(text, { buildIndex: true }, 3);
+
+    expect(index?.rootType).toBe('object');
+    expect(index?.entries.map((entry) => [entry.key, entry.type])).toEqual([
+      ['ünï', 'array'],
+      ['b', 'string'],
+      ['c', 'object'],
+    ]);
+
+    const decoder = new TextDecoder();
+    const values = (index?.entries ?? []).map((entry) =>
+      JSON.parse(decoder.decode(bytes.subarray(entry.start, entry.end)))
+    );
+    expect(values).toEqual([[1, 2], '🚀', { d: null }]);
+  });
+
+  it('should build only the index when materialization is disabled', () => {
+    const result = parseJSONIncrementally('[{"a": 1}, 2, "x"]', { buildIndex: true, materialize: false });
+    expect(result.data).toBeNull();
+    expect(result.index?.entries.map((entry) => [entry.key, entry.start, entry.end])).toEqual([
+      [0, 1, 9],
+      [1, 11, 12],
+      [2, 14, 17],
+    ]);
+  });
+
+  describe('duplicate keys', () => {
+    const source = '{\n  "a": 1,\n  "b": {"x": true, "x": false},\n  "a": 2,\n  "a": 3\n}';
+
+    it('should report each repeated key with its position and values', () => {
+      const { data, duplicateKeys } = parseJSONIncrementally(source);
+      expect(data).toEqual(JSON.parse(source));
+      expect(duplicateKeys).toEqual([
+        { path: ['b'], key: 'x', line: 3, column: 20, firstValue: true, value: false },
+        { path: [], key: 'a', line: 4, column: 3, firstValue: 1, value: 2 },
+        { path: [], key: 'a', line: 5, column: 3, firstValue: 1, value: 3 },
+      ]);
+    });
+
+    it('should resolve repeated keys according to the policy', () => {
+      expect(parseJSONIncrementally(source, { duplicateKeyPolicy: 'first-wins' }).data).toEqual({ a: 1, b: { x: true } });
+      expect(parseJSONIncrementally(source, { duplicateKeyPolicy: 'keep-all' }).data).toEqual({ a: [1, 2, 3], b: { x: [true, false] } });
+    });
+
+    it('should track the paths of nested objects', () => {
+      const { duplicateKeys } = parseJSONIncrementally('[{"k": [0, {"id": 1, "id": 2}]}]');
+      expect(duplicateKeys.map((duplicate) => duplicate.path)).toEqual([['[0]', 'k', '[1]']]);
+    });
+  });
+});
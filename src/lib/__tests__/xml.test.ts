@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+
+import { isLosslessNumber } from '../lossless-number';
+import { isXmlContentType, isXmlFileName, looksLikeXML, parseXML, stringifyXML } from '../xml';
+
+describe('XML', () => {
+  it('should map attributes, text and repeated elements', () => {
+    const { data, rootName } = parseXML([
+      '<?xml version="1.0"?>',
+      '<!-- catalog -->',
+      '<catalog version="2">',
+      '  <book id="7" available="true">',
+      '    <title lang="en">Dune</title>',
+      '    <tag>scifi</tag>',
+      '    <tag>classic</tag>',
+      '    <price>9.99</price>',
+      '  </book>',
+      '</catalog>',
+    ].join('\n'));
+
+    expect(rootName).toBe('catalog');
+    expect(data).toEqual({
+      catalog: {
+        '@version': 2,
+        book: {
+          '@id': 7,
+          '@available': true,
+          title: { '@lang': 'en', '#text': 'Dune' },
+          tag: ['scifi', 'classic'],
+          price: 9.99,
+        },
+      },
+    });
+  });
+
+  it('should apply a custom mapping', () => {
+    const { data } = parseXML('<list><item key="a">one</item></list>', {
+      mapping: { attributePrefix: '_', textKey: 'value', alwaysArray: ['item'] },
+    });
+
+    expect(data).toEqual({ list: { item: [{ _key: 'a', value: 'one' }] } });
+  });
+
+  it('should keep or strip namespace prefixes', () => {
+    const text = '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:media="http://search.yahoo.com/mrss/"><media:title>Clip</media:title></feed>';
+
+    expect(parseXML(text).data).toEqual({
+      feed: {
+        '@xmlns': 'http://www.w3.org/2005/Atom',
+        '@xmlns:media': 'http://search.yahoo.com/mrss/',
+        'media:title': 'Clip',
+      },
+    });
+    expect(parseXML(text, { mapping: { namespaces: 'strip' } }).data).toEqual({ feed: { title: 'Clip' } });
+  });
+
+  it('should read entities, CDATA, nil elements and values that are not canonical numbers', () => {
+    const { data } = parseXML([
+      '<r xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+      '  <a>Tom &amp; Jerry &#169; &#x41;</a>',
+      '  <b><![CDATA[<not> & parsed]]></b>',
+      '  <c xsi:nil="true"/>',
+      '  <d/>',
+      '  <zip>01234</zip>',
+      '</r>',
+    ].join('\n'), { mapping: { namespaces: 'strip' } });
+
+    expect(data).toEqual({ r: { a: 'Tom & Jerry © A', b: '<not> & parsed', c: null, d: '', zip: '01234' } });
+  });
+
+  it('should keep big numbers when lossless numbers are on', () => {
+    const text = '<r><id>12345678901234567890</id></r>';
+    const lossless = (parseXML(text, { losslessNumbers: true }).data['r'] as Record<string, unknown>)['id'];
+
+    expect(isLosslessNumber(lossless)).toBe(true);
+    expect(parseXML(text).data).toEqual({ r: { id: '12345678901234567890' } });
+  });
+
+  it('should report where parsing failed', () => {
+    expect(() => parseXML('<a>\n  <b></c>\n</a>')).toThrow(
+      expect.objectContaining({ details: expect.stringContaining('line 2, column') })
+    );
+    expect(() => parseXML('<a>&nbsp;</a>')).toThrow(expect.objectContaining({ details: expect.stringContaining('nbsp') }));
+    expect(() => parseXML('<a/><b/>')).toThrow();
+  });
+
+  it('should write documents that read back unchanged', () => {
+    const text = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<catalog version="2">',
+      '  <book id="7">',
+      '    <title lang="en">Dune &amp; more</title>',
+      '    <tag>scifi</tag>',
+      '    <tag>classic</tag>',
+      '    <note/>',
+      '  </book>',
+      '</catalog>',
+      '',
+    ].join('\n');
+
+    expect(stringifyXML(parseXML(text).data)).toBe(text);
+
+    const data = { name: 'x', list: [1, 2], nested: [[true]], missing: null, 'bad key': 'y' };
+    const xml = stringifyXML(data);
+    expect(xml).toContain('<root xmlns:xsi=');
+    expect(parseXML(xml, { mapping: { namespaces: 'strip' } }).data).toEqual({
+      root: { name: 'x', list: [1, 2], nested: { item: true }, missing: null, bad_key: 'y' },
+    });
+  });
+
+  it('should recognise XML content types, file names and pasted text', () => {
+    expect(isXmlContentType('application/xml; charset=utf-8')).toBe(true);
+    expect(isXmlContentType('application/atom+xml')).toBe(true);
+    expect(isXmlContentType('application/json')).toBe(false);
+    expect(isXmlFileName('feed.RSS')).toBe(true);
+    expect(isXmlFileName('data.json')).toBe(false);
+
+    expect(looksLikeXML('<?xml version="1.0"?><a/>')).toBe(true);
+    expect(looksLikeXML('  <root>text</root>')).toBe(true);
+    expect(looksLikeXML('{"a": 1}')).toBe(false);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+
+import { isLosslessNumber } from '../lossless-number';
+import { isYamlContentType, looksLikeYAML, parseYAML, stringifyYAML } from '../yaml';
+
+describe('YAML', () => {
+  it('should parse a document with YAML 1.2 core types', () => {
+    const { data, documentCount, warnings } = parseYAML([
+      'name: api',
+      'replicas: 3',
+      'ratio: 0.5',
+      'enabled: true',
+      'legacy: yes',
+      'empty:',
+      'ports: [80, 443]',
+      'script: |',
+      '  echo one',
+      '  echo two',
+    ].join('\n'));
+
+    expect(data).toEqual({
+      name: 'api',
+      replicas: 3,
+      ratio: 0.5,
+      enabled: true,
+      legacy: 'yes',
+      empty: null,
+      ports: [80, 443],
+      script: 'echo one\necho two\n',
+    });
+    expect(documentCount).toBe(1);
+    expect(warnings).toEqual([]);
+  });
+
+  it('should load a multi-document stream as an array', () => {
+    const { data, documentCount } = parseYAML('kind: Service\n---\nkind: Deployment\n---\n- 1\n');
+
+    expect(documentCount).toBe(3);
+    expect(data).toEqual([{ kind: 'Service' }, { kind: 'Deployment' }, [1]]);
+  });
+
+  it('should resolve anchors, aliases and merge keys and report where nodes are shared', () => {
+    const { data, anchors } = parseYAML([
+      'defaults: &defaults',
+      '  image: node',
+      '  retries: 2',
+      'build:',
+      '  <<: *defaults',
+      '  retries: 5',
+      'test: *defaults',
+    ].join('\n'));
+
+    expect(data).toEqual({
+      defaults: { image: 'node', retries: 2 },
+      build: { image: 'node', retries: 5 },
+      test: { image: 'node', retries: 2 },
+    });
+    expect(anchors).toEqual([{ name: 'defaults', path: ['defaults'], aliases: [['build'], ['test']] }]);
+  });
+
+  it('should report unsupported tags as warnings', () => {
+    const { data, warnings } = parseYAML('bucket: !Ref MyBucket\ncount: !!int 3\n');
+
+    expect(data).toEqual({ bucket: 'MyBucket', count: 3 });
+    expect(warnings).toEqual([{ message: 'Unsupported tag !Ref ignored', line: 1, column: 14 }]);
+  });
+
+  it('should reject syntax errors and self-referencing aliases', () => {
+    expect(() => parseYAML('a: [1, 2\nb: 3')).toThrow(
+      expect.objectContaining({ details: expect.stringContaining('line') })
+    );
+    expect(() => parseYAML('a: &a\n  - *a\n')).toThrow(expect.objectContaining({ code: 'JSON_CIRCULAR_REFERENCE' }));
+  });
+
+  it('should keep big numbers when lossless numbers are on', () => {
+    const { data } = parseYAML('id: 12345678901234567890\n', { losslessNumbers: true });
+    const id = (data as Record<string, unknown>)['id'];
+
+    expect(isLosslessNumber(id)).toBe(true);
+    expect(stringifyYAML({ id: id as never })).toBe('id: 12345678901234567890\n');
+  });
+
+  it('should write YAML that reads back unchanged', () => {
+    const data = {
+      plain: 'text',
+      looksLikeBool: 'true',
+      looksLikeNumber: '1.0',
+      empty: '',
+      multiline: 'one\ntwo',
+      colon: 'a: b',
+      nested: { list: [1, null, { deep: false }], emptyList: [], emptyMap: {} },
+    };
+    const yaml = stringifyYAML(data);
+
+    expect(parseYAML(yaml).data).toEqual(data);
+    expect(yaml).toContain('looksLikeBool: "true"');
+  });
+
+  it('should recognise YAML content types and pasted text', () => {
+    expect(isYamlContentType('application/yaml; charset=utf-8')).toBe(true);
+    expect(isYamlContentType('text/x-yaml')).toBe(true);
+    expect(isYamlContentType('application/json')).toBe(false);
+
+    expect(looksLikeYAML('# config\napiVersion: v1\n')).toBe(true);
+    expect(looksLikeYAML('---\n- a\n')).toBe(true);
+    expect(looksLikeYAML('{"a": 1}')).toBe(false);
+    expect(looksLikeYAML('just some words')).toBe(false);
+  });
+});
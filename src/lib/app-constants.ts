@@ -7,6 +7,8 @@
 export const TIMING = {
   /** Default debounce delay for search operations (ms) */
   SEARCH_DEBOUNCE_DELAY: 300,
+  /** Delay before re-parsing edits made in the raw view (ms) */
+  RAW_EDIT_DEBOUNCE_DELAY: 500,
   /** Default toast display duration (ms) */
   TOAST_DEFAULT_DURATION: 5000,
   /** Animation duration for counters and transitions (ms) */
@@ -27,6 +29,10 @@ export const FILE_LIMITS = {
   MAX_FILE_SIZE_MB: 50,
   /** Chunk size for processing large files (bytes) */
   PROCESSING_CHUNK_SIZE: 1024 * 1024, // 1MB
+  /** Maximum size for files opened through the lazy index (bytes) - 2GB */
+  MAX_INDEXED_FILE_SIZE: 2 * 1024 * 1024 * 1024,
+  /** Bytes of top-level entries loaded when a file is opened through the lazy index */
+  INDEXED_PREVIEW_SIZE: 10 * 1024 * 1024, // 10MB
 } as const;
 
 // UI Layout Constants
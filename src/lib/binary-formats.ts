@@ -0,0 +1,1137 @@
+import { BinaryFormat, JsonObject, JsonValue } from '../types/json.types';
+
+import { createError, ErrorCodes } from './error-handler';
+import { createLosslessNumber, isLosslessNumber, setMember } from './lossless-number';
+
+/**
+ * Binary JSON formats: MessagePack, CBOR (RFC 8949) and BSON.
+ *
+ * Values these formats have and JSON does not (byte strings, dates,
+ * ObjectIds, tags, ...) are loaded as MongoDB Extended JSON (relaxed mode)
+ * wrappers such as `{ "$oid": "..." }` or `{ "$date": "..." }`, so they can
+ * be shown and edited like any other object. The encoders turn the wrappers
+ * back into native values, so a file survives a load and export.
+ */
+
+export const BINARY_FORMAT_LABELS: Record<BinaryFormat, string> = {
+  msgpack: 'MessagePack',
+  cbor: 'CBOR',
+  bson: 'BSON',
+};
+
+export const BINARY_FORMAT_EXTENSIONS: Record<BinaryFormat, string> = {
+  msgpack: 'msgpack',
+  cbor: 'cbor',
+  bson: 'bson',
+};
+
+export const BINARY_FORMAT_CONTENT_TYPES: Record<BinaryFormat, string> = {
+  msgpack: 'application/msgpack',
+  cbor: 'application/cbor',
+  bson: 'application/bson',
+};
+
+export interface BinaryDecodeOptions {
+  /**
+   * Keep 64-bit integers that would lose precision as `LosslessNumber`s
+   * rather than `{ "$numberLong": "..." }` wrappers
+   */
+  losslessNumbers?: boolean;
+}
+
+/**
+ * A non-JSON value, read from its Extended JSON wrapper
+ */
+export type TypedValue =
+  | { kind: 'binary'; bytes: Uint8Array; subType: number }
+  | { kind: 'date'; ms: number }
+  | { kind: 'objectId'; hex: string }
+  | { kind: 'decimal'; text: string }
+  | { kind: 'long'; text: string }
+  | { kind: 'regex'; pattern: string; options: string }
+  | { kind: 'timestamp'; t: number; i: number }
+  | { kind: 'tag'; tag: number; value: JsonValue }
+  | { kind: 'extension'; type: number; bytes: Uint8Array }
+  | { kind: 'simple'; value: number }
+  | { kind: 'code'; code: string; scope?: JsonObject }
+  | { kind: 'symbol'; text: string }
+  | { kind: 'dbPointer'; ref: string; id: string }
+  | { kind: 'undefined' | 'minKey' | 'maxKey' };
+
+const TYPED_VALUE_LABELS: Record<TypedValue['kind'], string> = {
+  binary: 'Binary',
+  date: 'Date',
+  objectId: 'ObjectId',
+  decimal: 'Decimal128',
+  long: 'Int64',
+  regex: 'RegExp',
+  timestamp: 'Timestamp',
+  tag: 'Tag',
+  extension: 'Ext',
+  simple: 'Simple',
+  code: 'Code',
+  symbol: 'Symbol',
+  dbPointer: 'DBPointer',
+  undefined: 'Undefined',
+  minKey: 'MinKey',
+  maxKey: 'MaxKey',
+};
+
+/** Nesting depth at which decoding stops, so hostile input cannot exhaust the stack */
+const MAX_DEPTH = 512;
+
+const MIN_INT64 = -(2n ** 63n);
+const MAX_UINT64 = 2n ** 64n - 1n;
+const MAX_INT64 = 2n ** 63n - 1n;
+
+const OBJECT_ID = /^[0-9a-f]{24}$/i;
+const DECIMAL = /^([+-])?(\d+)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/; // eslint-disable-line security/detect-unsafe-regex
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+function isPlainObject(value: JsonValue | undefined): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !isLosslessNumber(value);
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array | null {
+  try {
+    return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g) ?? [], (pair) => parseInt(pair, 16));
+}
+
+/** An integer read as a BigInt, as a plain number when that is exact */
+function fromBigInt(value: bigint, options: BinaryDecodeOptions): JsonValue {
+  const number = Number(value);
+  if (Number.isSafeInteger(number)) return number;
+  return options.losslessNumbers ? createLosslessNumber(value.toString()) : { $numberLong: value.toString() };
+}
+
+/** A whole number as a BigInt, or `null` for fractions and non-numbers */
+function toBigInt(value: JsonValue): bigint | null {
+  if (typeof value === 'number') return Number.isInteger(value) ? BigInt(value) : null;
+  if (isLosslessNumber(value) && /^-?\d+$/.test(value.value)) return BigInt(value.value);
+  return null;
+}
+
+function toDate(ms: number): JsonValue {
+  const date = new Date(ms);
+  return Number.isNaN(date.getTime()) ? { $date: { $numberLong: String(ms) } } : { $date: date.toISOString() };
+}
+
+function toBinary(bytes: Uint8Array, subType = 0): JsonObject {
+  return { $binary: { base64: bytesToBase64(bytes), subType: subType.toString(16).padStart(2, '0') } };
+}
+
+/**
+ * Read an Extended JSON wrapper. Objects with other keys, or with a wrapper
+ * key whose content has the wrong shape, are ordinary objects.
+ */
+export function readTypedValue(value: JsonValue): TypedValue | null {
+  if (!isPlainObject(value)) return null;
+  const keys = Object.keys(value);
+  const [key] = keys;
+  if (!key?.startsWith('$')) return null;
+  const inner = value[key]; // eslint-disable-line security/detect-object-injection
+
+  if (keys.length === 2) {
+    if (keys.includes('$tag') && keys.includes('$value')) {
+      const tag = value['$tag'];
+      return typeof tag === 'number' && Number.isInteger(tag) && tag >= 0
+        ? { kind: 'tag', tag, value: value['$value'] ?? null }
+        : null;
+    }
+    if (keys.includes('$code') && keys.includes('$scope')) {
+      const code = value['$code'];
+      const scope = value['$scope'];
+      return typeof code === 'string' && isPlainObject(scope) ? { kind: 'code', code, scope } : null;
+    }
+    return null;
+  }
+  if (keys.length !== 1) return null;
+
+  switch (key) {
+    case '$binary': {
+      if (!isPlainObject(inner) || typeof inner['base64'] !== 'string' || typeof inner['subType'] !== 'string') return null;
+      const bytes = base64ToBytes(inner['base64']);
+      const subType = parseInt(inner['subType'], 16);
+      return bytes && subType >= 0 && subType <= 0xff ? { kind: 'binary', bytes, subType } : null;
+    }
+    case '$date': {
+      const ms = typeof inner === 'string'
+        ? Date.parse(inner)
+        : isPlainObject(inner) && typeof inner['$numberLong'] === 'string' ? Number(inner['$numberLong']) : NaN;
+      return Number.isNaN(ms) ? null : { kind: 'date', ms };
+    }
+    case '$oid':
+      return typeof inner === 'string' && OBJECT_ID.test(inner) ? { kind: 'objectId', hex: inner.toLowerCase() } : null;
+    case '$numberDecimal':
+      return typeof inner === 'string' ? { kind: 'decimal', text: inner } : null;
+    case '$numberLong':
+      return typeof inner === 'string' && /^-?\d+$/.test(inner) ? { kind: 'long', text: inner } : null;
+    case '$regularExpression':
+      return isPlainObject(inner) && typeof inner['pattern'] === 'string' && typeof inner['options'] === 'string'
+        ? { kind: 'regex', pattern: inner['pattern'], options: inner['options'] }
+        : null;
+    case '$timestamp':
+      return isPlainObject(inner) && typeof inner['t'] === 'number' && typeof inner['i'] === 'number'
+        ? { kind: 'timestamp', t: inner['t'], i: inner['i'] }
+        : null;
+    case '$ext': {
+      if (!isPlainObject(inner) || typeof inner['type'] !== 'number' || typeof inner['base64'] !== 'string') return null;
+      const bytes = base64ToBytes(inner['base64']);
+      return bytes ? { kind: 'extension', type: inner['type'], bytes } : null;
+    }
+    case '$simple':
+      return typeof inner === 'number' && Number.isInteger(inner) && inner >= 0 && inner <= 255 ? { kind: 'simple', value: inner } : null;
+    case '$code':
+      return typeof inner === 'string' ? { kind: 'code', code: inner } : null;
+    case '$symbol':
+      return typeof inner === 'string' ? { kind: 'symbol', text: inner } : null;
+    case '$dbPointer': {
+      if (!isPlainObject(inner) || typeof inner['$ref'] !== 'string') return null;
+      const id = readTypedValue(inner['$id'] ?? null);
+      return id?.kind === 'objectId' ? { kind: 'dbPointer', ref: inner['$ref'], id: id.hex } : null;
+    }
+    case '$undefined':
+      return inner === true ? { kind: 'undefined' } : null;
+    case '$minKey':
+      return inner === 1 ? { kind: 'minKey' } : null;
+    case '$maxKey':
+      return inner === 1 ? { kind: 'maxKey' } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Badge label and one-line summary for a value loaded from a binary format,
+ * or `null` for ordinary JSON values
+ */
+export function describeTypedValue(value: JsonValue): { label: string; summary: string } | null {
+  const typed = readTypedValue(value);
+  if (!typed) return null;
+  const label = typed.kind === 'tag' ? `Tag ${typed.tag}` : typed.kind === 'extension' ? `Ext ${typed.type}` : TYPED_VALUE_LABELS[typed.kind];
+
+  switch (typed.kind) {
+    case 'binary':
+    case 'extension':
+      return { label, summary: `${typed.bytes.length} byte${typed.bytes.length === 1 ? '' : 's'}` };
+    case 'date':
+      return { label, summary: Number.isNaN(new Date(typed.ms).getTime()) ? `${typed.ms} ms` : new Date(typed.ms).toISOString() };
+    case 'objectId':
+      return { label, summary: typed.hex };
+    case 'decimal':
+    case 'long':
+    case 'symbol':
+      return { label, summary: typed.text };
+    case 'regex':
+      return { label, summary: `/${typed.pattern}/${typed.options}` };
+    case 'timestamp':
+      return { label, summary: `t=${typed.t}, i=${typed.i}` };
+    case 'tag': {
+      const text = JSON.stringify(typed.value) ?? '';
+      return { label, summary: text.length > 40 ? `${text.slice(0, 37)}...` : text };
+    }
+    case 'simple':
+      return { label, summary: `simple(${typed.value})` };
+    case 'code':
+      return { label, summary: typed.code.length > 40 ? `${typed.code.slice(0, 37)}...` : typed.code };
+    case 'dbPointer':
+      return { label, summary: `${typed.ref} ${typed.id}` };
+    default:
+      return { label, summary: '' };
+  }
+}
+
+class ByteReader {
+  offset = 0;
+  private readonly view: DataView;
+
+  constructor(
+    readonly bytes: Uint8Array,
+    private readonly littleEndian: boolean
+  ) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  fail(message: string, at = this.offset): never {
+    throw createError(ErrorCodes.JSON_PARSE_ERROR, `${message} at byte ${at}`);
+  }
+
+  private take(length: number): number {
+    if (length < 0 || this.offset + length > this.bytes.length) this.fail('Unexpected end of data');
+    const start = this.offset;
+    this.offset += length;
+    return start;
+  }
+
+  u8(): number { return this.view.getUint8(this.take(1)); }
+  i8(): number { return this.view.getInt8(this.take(1)); }
+  u16(): number { return this.view.getUint16(this.take(2), this.littleEndian); }
+  i16(): number { return this.view.getInt16(this.take(2), this.littleEndian); }
+  u32(): number { return this.view.getUint32(this.take(4), this.littleEndian); }
+  i32(): number { return this.view.getInt32(this.take(4), this.littleEndian); }
+  u64(): bigint { return this.view.getBigUint64(this.take(8), this.littleEndian); }
+  i64(): bigint { return this.view.getBigInt64(this.take(8), this.littleEndian); }
+  f32(): number { return this.view.getFloat32(this.take(4), this.littleEndian); }
+  f64(): number { return this.view.getFloat64(this.take(8), this.littleEndian); }
+
+  bytesOf(length: number): Uint8Array {
+    const start = this.take(length);
+    return this.bytes.slice(start, start + length);
+  }
+
+  utf8(length: number): string {
+    const start = this.offset;
+    try {
+      return textDecoder.decode(this.bytesOf(length));
+    } catch {
+      return this.fail('Invalid UTF-8 string', start);
+    }
+  }
+
+  /** A NUL-terminated string (BSON) */
+  cstring(): string {
+    const end = this.bytes.indexOf(0, this.offset);
+    if (end === -1) this.fail('Unterminated string');
+    const text = this.utf8(end - this.offset);
+    this.offset++;
+    return text;
+  }
+}
+
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  length = 0;
+
+  constructor(private readonly littleEndian: boolean) {}
+
+  private reserve(size: number): number {
+    if (this.length + size > this.buffer.length) {
+      const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + size));
+      grown.set(this.buffer);
+      this.buffer = grown;
+      this.view = new DataView(grown.buffer);
+    }
+    const at = this.length;
+    this.length += size;
+    return at;
+  }
+
+  u8(value: number): void { this.view.setUint8(this.reserve(1), value); }
+  u16(value: number): void { this.view.setUint16(this.reserve(2), value, this.littleEndian); }
+  u32(value: number): void { this.view.setUint32(this.reserve(4), value, this.littleEndian); }
+  i32(value: number): void { this.view.setInt32(this.reserve(4), value, this.littleEndian); }
+  u64(value: bigint): void { this.view.setBigUint64(this.reserve(8), value, this.littleEndian); }
+  i64(value: bigint): void { this.view.setBigInt64(this.reserve(8), value, this.littleEndian); }
+  f64(value: number): void { this.view.setFloat64(this.reserve(8), value, this.littleEndian); }
+
+  bytes(value: Uint8Array): void {
+    this.buffer.set(value, this.reserve(value.length));
+  }
+
+  /** Overwrite a 32-bit value written earlier, e.g. a length prefix */
+  setI32(at: number, value: number): void {
+    this.view.setInt32(at, value, this.littleEndian);
+  }
+
+  finish(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+/** A map key from MessagePack or CBOR, which may be any value */
+function toKey(key: JsonValue): string {
+  return typeof key === 'string' ? key : JSON.stringify(key) ?? String(key);
+}
+
+function checkDepth(depth: number, reader: ByteReader): void {
+  if (depth > MAX_DEPTH) reader.fail(`Nesting deeper than ${MAX_DEPTH} levels`);
+}
+
+/**
+ * Values that follow each other in a stream: one value is returned as is,
+ * several as an array (like a multi-document YAML stream)
+ */
+function readSequence(reader: ByteReader, readValue: () => JsonValue): JsonValue {
+  if (reader.done) throw createError(ErrorCodes.JSON_PARSE_ERROR, 'Empty input');
+  const values: JsonValue[] = [];
+  while (!reader.done) values.push(readValue());
+  return values.length === 1 ? (values[0] ?? null) : values;
+}
+
+// ---------------------------------------------------------------------------
+// MessagePack
+
+/** MessagePack extension type of timestamps */
+const MSGPACK_TIMESTAMP = -1;
+
+function decodeMessagePackTimestamp(bytes: Uint8Array): JsonValue | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let seconds: number;
+  let nanoseconds = 0;
+  if (bytes.length === 4) {
+    seconds = view.getUint32(0);
+  } else if (bytes.length === 8) {
+    const value = view.getBigUint64(0);
+    nanoseconds = Number(value >> 34n);
+    seconds = Number(value & 0x3ffffffffn);
+  } else if (bytes.length === 12) {
+    nanoseconds = view.getUint32(0);
+    seconds = Number(view.getBigInt64(4));
+  } else {
+    return null;
+  }
+  return toDate(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+}
+
+function readMessagePack(reader: ByteReader, options: BinaryDecodeOptions, depth = 0): JsonValue {
+  checkDepth(depth, reader);
+  const start = reader.offset;
+  const byte = reader.u8();
+  const next = () => readMessagePack(reader, options, depth + 1);
+  const array = (length: number) => Array.from({ length }, next);
+  const map = (length: number) => {
+    const result: JsonObject = {};
+    for (let i = 0; i < length; i++) {
+      const key = toKey(next());
+      setMember(result, key, next());
+    }
+    return result;
+  };
+  const extension = (length: number) => {
+    const type = reader.i8();
+    const bytes = reader.bytesOf(length);
+    return (type === MSGPACK_TIMESTAMP ? decodeMessagePackTimestamp(bytes) : null)
+      ?? { $ext: { type, base64: bytesToBase64(bytes) } };
+  };
+
+  if (byte <= 0x7f) return byte;
+  if (byte <= 0x8f) return map(byte & 0x0f);
+  if (byte <= 0x9f) return array(byte & 0x0f);
+  if (byte <= 0xbf) return reader.utf8(byte & 0x1f);
+  if (byte >= 0xe0) return byte - 0x100;
+
+  switch (byte) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return toBinary(reader.bytesOf(reader.u8()));
+    case 0xc5: return toBinary(reader.bytesOf(reader.u16()));
+    case 0xc6: return toBinary(reader.bytesOf(reader.u32()));
+    case 0xc7: return extension(reader.u8());
+    case 0xc8: return extension(reader.u16());
+    case 0xc9: return extension(reader.u32());
+    case 0xca: return reader.f32();
+    case 0xcb: return reader.f64();
+    case 0xcc: return reader.u8();
+    case 0xcd: return reader.u16();
+    case 0xce: return reader.u32();
+    case 0xcf: return fromBigInt(reader.u64(), options);
+    case 0xd0: return reader.i8();
+    case 0xd1: return reader.i16();
+    case 0xd2: return reader.i32();
+    case 0xd3: return fromBigInt(reader.i64(), options);
+    case 0xd4: return extension(1);
+    case 0xd5: return extension(2);
+    case 0xd6: return extension(4);
+    case 0xd7: return extension(8);
+    case 0xd8: return extension(16);
+    case 0xd9: return reader.utf8(reader.u8());
+    case 0xda: return reader.utf8(reader.u16());
+    case 0xdb: return reader.utf8(reader.u32());
+    case 0xdc: return array(reader.u16());
+    case 0xdd: return array(reader.u32());
+    case 0xde: return map(reader.u16());
+    case 0xdf: return map(reader.u32());
+    default: return reader.fail(`Invalid MessagePack type 0x${byte.toString(16)}`, start);
+  }
+}
+
+function writeMessagePackInteger(writer: ByteWriter, value: bigint): void {
+  if (value >= 0n) {
+    if (value <= 0x7fn) writer.u8(Number(value));
+    else if (value <= 0xffn) { writer.u8(0xcc); writer.u8(Number(value)); }
+    else if (value <= 0xffffn) { writer.u8(0xcd); writer.u16(Number(value)); }
+    else if (value <= 0xffffffffn) { writer.u8(0xce); writer.u32(Number(value)); }
+    else { writer.u8(0xcf); writer.u64(value); }
+  } else if (value >= -32n) {
+    writer.u8(Number(value) + 0x100);
+  } else if (value >= -0x80n) {
+    writer.u8(0xd0); writer.u8(Number(value) & 0xff);
+  } else if (value >= -0x8000n) {
+    writer.u8(0xd1); writer.u16(Number(value) & 0xffff);
+  } else if (value >= -0x80000000n) {
+    writer.u8(0xd2); writer.i32(Number(value));
+  } else {
+    writer.u8(0xd3); writer.i64(value);
+  }
+}
+
+function writeMessagePackLength(writer: ByteWriter, length: number, fix: number, fixMax: number, codes: [number, number, number]): void {
+  if (length <= fixMax && fix !== 0) writer.u8(fix | length);
+  else if (length <= 0xff && codes[0] !== 0) { writer.u8(codes[0]); writer.u8(length); }
+  else if (length <= 0xffff) { writer.u8(codes[1]); writer.u16(length); }
+  else { writer.u8(codes[2]); writer.u32(length); }
+}
+
+function writeMessagePackExtension(writer: ByteWriter, type: number, bytes: Uint8Array): void {
+  const fixed = [1, 2, 4, 8, 16].indexOf(bytes.length);
+  if (fixed !== -1) writer.u8(0xd4 + fixed);
+  else writeMessagePackLength(writer, bytes.length, 0, 0, [0xc7, 0xc8, 0xc9]);
+  writer.u8(type & 0xff);
+  writer.bytes(bytes);
+}
+
+function encodeMessagePackTimestamp(ms: number): Uint8Array {
+  const seconds = Math.floor(ms / 1000);
+  const nanoseconds = (ms - seconds * 1000) * 1e6;
+  const writer = new ByteWriter(false);
+  if (nanoseconds === 0 && seconds >= 0 && seconds <= 0xffffffff) {
+    writer.u32(seconds);
+  } else if (seconds >= 0 && seconds < 2 ** 34) {
+    writer.u64((BigInt(nanoseconds) << 34n) | BigInt(seconds));
+  } else {
+    writer.u32(nanoseconds);
+    writer.i64(BigInt(seconds));
+  }
+  return writer.finish();
+}
+
+function writeMessagePack(writer: ByteWriter, value: JsonValue): void {
+  if (value === null) return writer.u8(0xc0);
+  if (typeof value === 'boolean') return writer.u8(value ? 0xc3 : 0xc2);
+
+  if (typeof value === 'number' || isLosslessNumber(value)) {
+    const integer = toBigInt(value);
+    if (integer !== null && integer >= MIN_INT64 && integer <= MAX_UINT64) return writeMessagePackInteger(writer, integer);
+    writer.u8(0xcb);
+    return writer.f64(Number(typeof value === 'number' ? value : value.value));
+  }
+
+  if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    writeMessagePackLength(writer, bytes.length, 0xa0, 31, [0xd9, 0xda, 0xdb]);
+    return writer.bytes(bytes);
+  }
+
+  if (Array.isArray(value)) {
+    writeMessagePackLength(writer, value.length, 0x90, 15, [0, 0xdc, 0xdd]);
+    return value.forEach((item) => writeMessagePack(writer, item));
+  }
+
+  const typed = readTypedValue(value);
+  if (typed?.kind === 'binary') {
+    writeMessagePackLength(writer, typed.bytes.length, 0, 0, [0xc4, 0xc5, 0xc6]);
+    return writer.bytes(typed.bytes);
+  }
+  if (typed?.kind === 'date') return writeMessagePackExtension(writer, MSGPACK_TIMESTAMP, encodeMessagePackTimestamp(typed.ms));
+  if (typed?.kind === 'extension') return writeMessagePackExtension(writer, typed.type, typed.bytes);
+  if (typed?.kind === 'long') return writeMessagePack(writer, createLosslessNumber(typed.text));
+
+  const entries = Object.entries(value);
+  writeMessagePackLength(writer, entries.length, 0x80, 15, [0, 0xde, 0xdf]);
+  entries.forEach(([key, member]) => {
+    writeMessagePack(writer, key);
+    writeMessagePack(writer, member);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// CBOR
+
+const CBOR_BREAK = 0xff;
+
+/** CBOR tags with a JSON representation of their own */
+const CBOR_TAGS = {
+  dateString: 0,
+  epochDate: 1,
+  positiveBignum: 2,
+  negativeBignum: 3,
+  selfDescribed: 55799,
+};
+
+function decodeHalfFloat(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+function readCborArgument(reader: ByteReader, info: number): bigint | null {
+  if (info < 24) return BigInt(info);
+  if (info === 24) return BigInt(reader.u8());
+  if (info === 25) return BigInt(reader.u16());
+  if (info === 26) return BigInt(reader.u32());
+  if (info === 27) return reader.u64();
+  if (info === 31) return null;
+  return reader.fail(`Invalid CBOR additional information ${info}`, reader.offset - 1);
+}
+
+function readCborLength(reader: ByteReader, info: number): number | null {
+  const length = readCborArgument(reader, info);
+  if (length !== null && length > BigInt(reader.bytes.length)) reader.fail('Length exceeds the data', reader.offset - 1);
+  return length === null ? null : Number(length);
+}
+
+function readCborTag(tag: bigint, content: JsonValue, options: BinaryDecodeOptions): JsonValue {
+  if (tag === BigInt(CBOR_TAGS.selfDescribed)) return content;
+  if (tag === BigInt(CBOR_TAGS.dateString) && typeof content === 'string' && !Number.isNaN(Date.parse(content))) {
+    return toDate(Date.parse(content));
+  }
+  if (tag === BigInt(CBOR_TAGS.epochDate) && typeof content === 'number') return toDate(content * 1000);
+
+  const bytes = readTypedValue(content);
+  if ((tag === BigInt(CBOR_TAGS.positiveBignum) || tag === BigInt(CBOR_TAGS.negativeBignum)) && bytes?.kind === 'binary') {
+    const magnitude = bytes.bytes.reduce((total, byte) => (total << 8n) | BigInt(byte), 0n);
+    return fromBigInt(tag === BigInt(CBOR_TAGS.positiveBignum) ? magnitude : -1n - magnitude, options);
+  }
+  return { $tag: Number(tag), $value: content };
+}
+
+function readCbor(reader: ByteReader, options: BinaryDecodeOptions, depth = 0): JsonValue {
+  checkDepth(depth, reader);
+  const start = reader.offset;
+  const byte = reader.u8();
+  const major = byte >> 5;
+  const info = byte & 0x1f;
+  const next = () => readCbor(reader, options, depth + 1);
+  const atBreak = () => reader.bytes[reader.offset] === CBOR_BREAK && reader.u8() === CBOR_BREAK;
+
+  // Definite or indefinite-length (chunked) byte and text strings
+  const readChunks = (read: (length: number) => Uint8Array): Uint8Array => {
+    const length = readCborLength(reader, info);
+    if (length !== null) return read(length);
+    const chunks: Uint8Array[] = [];
+    while (!atBreak()) {
+      const chunkStart = reader.offset;
+      const chunkHeader = reader.u8();
+      if (chunkHeader >> 5 !== major) reader.fail('Invalid chunk in indefinite-length string', chunkStart);
+      const chunkLength = readCborLength(reader, chunkHeader & 0x1f);
+      if (chunkLength === null) reader.fail('Nested indefinite-length string', chunkStart);
+      chunks.push(read(chunkLength));
+    }
+    const joined = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    chunks.reduce((offset, chunk) => (joined.set(chunk, offset), offset + chunk.length), 0);
+    return joined;
+  };
+
+  switch (major) {
+    case 0:
+    case 1: {
+      const argument = readCborArgument(reader, info);
+      if (argument === null) return reader.fail('Indefinite length on an integer', start);
+      return fromBigInt(major === 0 ? argument : -1n - argument, options);
+    }
+    case 2:
+      return toBinary(readChunks((length) => reader.bytesOf(length)));
+    case 3: {
+      const bytes = readChunks((length) => reader.bytesOf(length));
+      try {
+        return textDecoder.decode(bytes);
+      } catch {
+        return reader.fail('Invalid UTF-8 string', start);
+      }
+    }
+    case 4: {
+      const length = readCborLength(reader, info);
+      if (length !== null) return Array.from({ length }, next);
+      const items: JsonValue[] = [];
+      while (!atBreak()) items.push(next());
+      return items;
+    }
+    case 5: {
+      const length = readCborLength(reader, info);
+      const result: JsonObject = {};
+      for (let i = 0; length === null ? !atBreak() : i < length; i++) {
+        const key = toKey(next());
+        setMember(result, key, next());
+      }
+      return result;
+    }
+    case 6: {
+      const tag = readCborArgument(reader, info);
+      if (tag === null) return reader.fail('Indefinite length on a tag', start);
+      return readCborTag(tag, next(), options);
+    }
+    default:
+      switch (info) {
+        case 20: return false;
+        case 21: return true;
+        case 22: return null;
+        case 23: return { $undefined: true };
+        case 24: return { $simple: reader.u8() };
+        case 25: return decodeHalfFloat(reader.u16());
+        case 26: return reader.f32();
+        case 27: return reader.f64();
+        case 31: return reader.fail('Unexpected break', start);
+        default: return info < 20 ? { $simple: info } : reader.fail(`Invalid CBOR simple value ${info}`, start);
+      }
+  }
+}
+
+function writeCborHead(writer: ByteWriter, major: number, argument: bigint): void {
+  const type = major << 5;
+  if (argument < 24n) writer.u8(type | Number(argument));
+  else if (argument <= 0xffn) { writer.u8(type | 24); writer.u8(Number(argument)); }
+  else if (argument <= 0xffffn) { writer.u8(type | 25); writer.u16(Number(argument)); }
+  else if (argument <= 0xffffffffn) { writer.u8(type | 26); writer.u32(Number(argument)); }
+  else { writer.u8(type | 27); writer.u64(argument); }
+}
+
+function writeCborInteger(writer: ByteWriter, value: bigint): void {
+  const negative = value < 0n;
+  const magnitude = negative ? -1n - value : value;
+  if (magnitude <= MAX_UINT64) return writeCborHead(writer, negative ? 1 : 0, magnitude);
+
+  // Too big for a 64-bit argument: a bignum tag holding the magnitude's bytes
+  const hex = magnitude.toString(16);
+  writeCborHead(writer, 6, BigInt(negative ? CBOR_TAGS.negativeBignum : CBOR_TAGS.positiveBignum));
+  const bytes = hexToBytes(hex.length % 2 ? `0${hex}` : hex);
+  writeCborHead(writer, 2, BigInt(bytes.length));
+  writer.bytes(bytes);
+}
+
+function writeCbor(writer: ByteWriter, value: JsonValue): void {
+  if (value === null) return writer.u8(0xf6);
+  if (typeof value === 'boolean') return writer.u8(value ? 0xf5 : 0xf4);
+
+  if (typeof value === 'number' || isLosslessNumber(value)) {
+    const integer = toBigInt(value);
+    if (integer !== null) return writeCborInteger(writer, integer);
+    writer.u8(0xfb);
+    return writer.f64(Number(typeof value === 'number' ? value : value.value));
+  }
+
+  if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    writeCborHead(writer, 3, BigInt(bytes.length));
+    return writer.bytes(bytes);
+  }
+
+  if (Array.isArray(value)) {
+    writeCborHead(writer, 4, BigInt(value.length));
+    return value.forEach((item) => writeCbor(writer, item));
+  }
+
+  const typed = readTypedValue(value);
+  switch (typed?.kind) {
+    case 'binary':
+      writeCborHead(writer, 2, BigInt(typed.bytes.length));
+      return writer.bytes(typed.bytes);
+    case 'date':
+      writeCborHead(writer, 6, BigInt(CBOR_TAGS.dateString));
+      return writeCbor(writer, new Date(typed.ms).toISOString());
+    case 'tag':
+      writeCborHead(writer, 6, BigInt(typed.tag));
+      return writeCbor(writer, typed.value);
+    case 'long':
+      return writeCborInteger(writer, BigInt(typed.text));
+    case 'undefined':
+      return writer.u8(0xf7);
+    case 'simple':
+      if (typed.value < 24) return writer.u8(0xe0 | typed.value);
+      writer.u8(0xf8);
+      return writer.u8(typed.value);
+  }
+
+  const entries = Object.entries(value);
+  writeCborHead(writer, 5, BigInt(entries.length));
+  entries.forEach(([key, member]) => {
+    writeCbor(writer, key);
+    writeCbor(writer, member);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// BSON
+
+const BSON_TYPES = {
+  double: 0x01,
+  string: 0x02,
+  document: 0x03,
+  array: 0x04,
+  binary: 0x05,
+  undefined: 0x06,
+  objectId: 0x07,
+  boolean: 0x08,
+  date: 0x09,
+  null: 0x0a,
+  regex: 0x0b,
+  dbPointer: 0x0c,
+  code: 0x0d,
+  symbol: 0x0e,
+  codeWithScope: 0x0f,
+  int32: 0x10,
+  timestamp: 0x11,
+  int64: 0x12,
+  decimal128: 0x13,
+  minKey: 0xff,
+  maxKey: 0x7f,
+};
+
+/** Binary subtype whose data starts with a redundant length */
+const BSON_OLD_BINARY = 0x02;
+
+const DECIMAL128_BIAS = 6176;
+const DECIMAL128_MAX_DIGITS = 34;
+
+function decodeDecimal128(low: bigint, high: bigint): string {
+  const negative = (high >> 63n) === 1n;
+  const combination = Number((high >> 58n) & 0x1fn);
+  if (combination === 0x1f) return 'NaN';
+  if (combination === 0x1e) return negative ? '-Infinity' : 'Infinity';
+
+  let exponent: number;
+  let coefficient: bigint;
+  if ((combination >> 3) === 0b11) {
+    // Coefficients of this form exceed 34 digits, which the spec reads as zero
+    exponent = Number((high >> 47n) & 0x3fffn) - DECIMAL128_BIAS;
+    coefficient = 0n;
+  } else {
+    exponent = Number((high >> 49n) & 0x3fffn) - DECIMAL128_BIAS;
+    coefficient = ((high & 0x1ffffffffffffn) << 64n) | low;
+    if (coefficient >= 10n ** 34n) coefficient = 0n;
+  }
+
+  const digits = coefficient.toString();
+  const adjusted = exponent + digits.length - 1;
+  let text: string;
+  if (exponent <= 0 && adjusted >= -6) {
+    const point = digits.length + exponent;
+    text = exponent === 0
+      ? digits
+      : point > 0 ? `${digits.slice(0, point)}.${digits.slice(point)}` : `0.${'0'.repeat(-point)}${digits}`;
+  } else {
+    text = `${digits[0]}${digits.length > 1 ? `.${digits.slice(1)}` : ''}E${adjusted >= 0 ? '+' : ''}${adjusted}`;
+  }
+  return negative ? `-${text}` : text;
+}
+
+function encodeDecimal128(text: string): [bigint, bigint] {
+  const sign = text.trim().startsWith('-') ? 1n << 63n : 0n;
+  const unsigned = text.trim().replace(/^[+-]/, '');
+  if (/^nan$/i.test(unsigned)) return [0n, 0x7c00000000000000n];
+  if (/^inf(inity)?$/i.test(unsigned)) return [0n, sign | 0x7800000000000000n];
+
+  const match = DECIMAL.exec(text.trim());
+  if (!match) throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, `"${text}" is not a Decimal128 value`);
+  const [, , integer = '', fraction = '', exponentText = '0'] = match;
+  const digits = `${integer}${fraction}`.replace(/^0+(?=\d)/, '');
+  const exponent = Number(exponentText) - fraction.length;
+  if (digits.length > DECIMAL128_MAX_DIGITS || exponent + DECIMAL128_BIAS < 0 || exponent + DECIMAL128_BIAS > 0x2fff) {
+    throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, `"${text}" does not fit in a Decimal128`);
+  }
+
+  const coefficient = BigInt(digits);
+  const high = sign | (BigInt(exponent + DECIMAL128_BIAS) << 49n) | (coefficient >> 64n);
+  return [coefficient & 0xffffffffffffffffn, high];
+}
+
+function readBsonString(reader: ByteReader): string {
+  const start = reader.offset;
+  const length = reader.i32();
+  if (length < 1) reader.fail('Invalid string length', start);
+  const text = reader.utf8(length - 1);
+  if (reader.u8() !== 0) reader.fail('String is not NUL-terminated', reader.offset - 1);
+  return text;
+}
+
+function readBsonValue(reader: ByteReader, type: number, options: BinaryDecodeOptions, depth: number): JsonValue {
+  switch (type) {
+    case BSON_TYPES.double: return reader.f64();
+    case BSON_TYPES.string: return readBsonString(reader);
+    case BSON_TYPES.document: return readBsonDocument(reader, options, depth + 1);
+    case BSON_TYPES.array: return Object.values(readBsonDocument(reader, options, depth + 1));
+    case BSON_TYPES.binary: {
+      const length = reader.i32();
+      const subType = reader.u8();
+      const bytes = reader.bytesOf(length);
+      return toBinary(subType === BSON_OLD_BINARY && bytes.length >= 4 ? bytes.slice(4) : bytes, subType);
+    }
+    case BSON_TYPES.undefined: return { $undefined: true };
+    case BSON_TYPES.objectId: return { $oid: bytesToHex(reader.bytesOf(12)) };
+    case BSON_TYPES.boolean: return reader.u8() !== 0;
+    case BSON_TYPES.date: return toDate(Number(reader.i64()));
+    case BSON_TYPES.null: return null;
+    case BSON_TYPES.regex: {
+      const pattern = reader.cstring();
+      return { $regularExpression: { pattern, options: reader.cstring() } };
+    }
+    case BSON_TYPES.dbPointer: {
+      const ref = readBsonString(reader);
+      return { $dbPointer: { $ref: ref, $id: { $oid: bytesToHex(reader.bytesOf(12)) } } };
+    }
+    case BSON_TYPES.code: return { $code: readBsonString(reader) };
+    case BSON_TYPES.symbol: return { $symbol: readBsonString(reader) };
+    case BSON_TYPES.codeWithScope: {
+      reader.i32();
+      const code = readBsonString(reader);
+      return { $code: code, $scope: readBsonDocument(reader, options, depth + 1) };
+    }
+    case BSON_TYPES.int32: return reader.i32();
+    case BSON_TYPES.timestamp: {
+      const i = reader.u32();
+      return { $timestamp: { t: reader.u32(), i } };
+    }
+    case BSON_TYPES.int64: return fromBigInt(reader.i64(), options);
+    case BSON_TYPES.decimal128: {
+      const low = reader.u64();
+      return { $numberDecimal: decodeDecimal128(low, reader.u64()) };
+    }
+    case BSON_TYPES.minKey: return { $minKey: 1 };
+    case BSON_TYPES.maxKey: return { $maxKey: 1 };
+    default: return reader.fail(`Invalid BSON type 0x${type.toString(16)}`, reader.offset - 1);
+  }
+}
+
+function readBsonDocument(reader: ByteReader, options: BinaryDecodeOptions, depth = 0): JsonObject {
+  checkDepth(depth, reader);
+  const start = reader.offset;
+  const size = reader.i32();
+  const end = start + size;
+  if (size < 5 || end > reader.bytes.length) reader.fail('Invalid document size', start);
+
+  const result: JsonObject = {};
+  for (;;) {
+    const type = reader.u8();
+    if (type === 0) break;
+    const name = reader.cstring();
+    setMember(result, name, readBsonValue(reader, type, options, depth));
+    if (reader.offset >= end) reader.fail('Document is missing its terminator', start);
+  }
+  if (reader.offset !== end) reader.fail('Document size does not match its contents', start);
+  return result;
+}
+
+function writeBsonCString(writer: ByteWriter, text: string): void {
+  if (text.includes('\0')) throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, `BSON names cannot contain NUL characters: "${text}"`);
+  writer.bytes(textEncoder.encode(text));
+  writer.u8(0);
+}
+
+function writeBsonString(writer: ByteWriter, text: string): void {
+  const bytes = textEncoder.encode(text);
+  writer.i32(bytes.length + 1);
+  writer.bytes(bytes);
+  writer.u8(0);
+}
+
+function writeBsonElement(writer: ByteWriter, name: string, value: JsonValue): void {
+  const element = (type: number) => {
+    writer.u8(type);
+    writeBsonCString(writer, name);
+  };
+
+  if (value === null) return element(BSON_TYPES.null);
+  if (typeof value === 'boolean') {
+    element(BSON_TYPES.boolean);
+    return writer.u8(value ? 1 : 0);
+  }
+  if (typeof value === 'string') {
+    element(BSON_TYPES.string);
+    return writeBsonString(writer, value);
+  }
+  if (typeof value === 'number' || isLosslessNumber(value)) {
+    const integer = toBigInt(value);
+    if (integer !== null && integer >= -(2n ** 31n) && integer < 2n ** 31n) {
+      element(BSON_TYPES.int32);
+      return writer.i32(Number(integer));
+    }
+    if (integer !== null && integer >= MIN_INT64 && integer <= MAX_INT64) {
+      element(BSON_TYPES.int64);
+      return writer.i64(integer);
+    }
+    // Numbers a double would round are kept exactly as Decimal128
+    if (isLosslessNumber(value)) {
+      element(BSON_TYPES.decimal128);
+      const [low, high] = encodeDecimal128(value.value);
+      writer.u64(low);
+      return writer.u64(high);
+    }
+    element(BSON_TYPES.double);
+    return writer.f64(value);
+  }
+  if (Array.isArray(value)) {
+    element(BSON_TYPES.array);
+    return writeBsonDocument(writer, value.map((item, index) => [String(index), item]));
+  }
+
+  const typed = readTypedValue(value);
+  switch (typed?.kind) {
+    case 'binary': {
+      element(BSON_TYPES.binary);
+      const old = typed.subType === BSON_OLD_BINARY;
+      writer.i32(typed.bytes.length + (old ? 4 : 0));
+      writer.u8(typed.subType);
+      if (old) writer.i32(typed.bytes.length);
+      return writer.bytes(typed.bytes);
+    }
+    case 'date':
+      element(BSON_TYPES.date);
+      return writer.i64(BigInt(typed.ms));
+    case 'objectId':
+      element(BSON_TYPES.objectId);
+      return writer.bytes(hexToBytes(typed.hex));
+    case 'decimal': {
+      element(BSON_TYPES.decimal128);
+      const [low, high] = encodeDecimal128(typed.text);
+      writer.u64(low);
+      return writer.u64(high);
+    }
+    case 'long': {
+      const integer = BigInt(typed.text);
+      // Unsigned 64-bit integers from MessagePack or CBOR do not fit an int64
+      if (integer < MIN_INT64 || integer > MAX_INT64) return writeBsonElement(writer, name, createLosslessNumber(typed.text));
+      element(BSON_TYPES.int64);
+      return writer.i64(integer);
+    }
+    case 'regex':
+      element(BSON_TYPES.regex);
+      writeBsonCString(writer, typed.pattern);
+      return writeBsonCString(writer, typed.options);
+    case 'timestamp':
+      element(BSON_TYPES.timestamp);
+      writer.u32(typed.i);
+      return writer.u32(typed.t);
+    case 'code':
+      if (!typed.scope) {
+        element(BSON_TYPES.code);
+        return writeBsonString(writer, typed.code);
+      } else {
+        element(BSON_TYPES.codeWithScope);
+        const start = writer.length;
+        writer.i32(0);
+        writeBsonString(writer, typed.code);
+        writeBsonDocument(writer, Object.entries(typed.scope));
+        return writer.setI32(start, writer.length - start);
+      }
+    case 'symbol':
+      element(BSON_TYPES.symbol);
+      return writeBsonString(writer, typed.text);
+    case 'dbPointer':
+      element(BSON_TYPES.dbPointer);
+      writeBsonString(writer, typed.ref);
+      return writer.bytes(hexToBytes(typed.id));
+    case 'undefined':
+      return element(BSON_TYPES.undefined);
+    case 'minKey':
+      return element(BSON_TYPES.minKey);
+    case 'maxKey':
+      return element(BSON_TYPES.maxKey);
+  }
+
+  element(BSON_TYPES.document);
+  writeBsonDocument(writer, Object.entries(value));
+}
+
+function writeBsonDocument(writer: ByteWriter, entries: Array<[string, JsonValue]>): void {
+  const start = writer.length;
+  writer.i32(0);
+  entries.forEach(([name, value]) => writeBsonElement(writer, name, value));
+  writer.u8(0);
+  writer.setI32(start, writer.length - start);
+}
+
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode a MessagePack, CBOR or BSON file. A file holding several values
+ * one after another (a BSON dump has one document per record) is returned
+ * as an array of them.
+ *
+ * @example
+ * ```ts
+ * decodeBinary(new Uint8Array([0x81, 0xa1, 0x61, 0x01]), 'msgpack');
+ * // { a: 1 }
+ * ```
+ */
+export function decodeBinary(bytes: Uint8Array, format: BinaryFormat, options: BinaryDecodeOptions = {}): JsonValue {
+  const reader = new ByteReader(bytes, format === 'bson');
+  switch (format) {
+    case 'msgpack':
+      return readSequence(reader, () => readMessagePack(reader, options));
+    case 'cbor':
+      return readSequence(reader, () => readCbor(reader, options));
+    case 'bson':
+      return readSequence(reader, () => readBsonDocument(reader, options));
+  }
+}
+
+/**
+ * Encode data as MessagePack, CBOR or BSON. Extended JSON wrappers are
+ * written as the format's own types where it has them. BSON can only hold
+ * documents, so an array is written as one document per item.
+ */
+export function encodeBinary(data: JsonValue, format: BinaryFormat): Uint8Array<ArrayBuffer> {
+  const writer = new ByteWriter(format === 'bson');
+  if (format === 'msgpack') {
+    writeMessagePack(writer, data);
+  } else if (format === 'cbor') {
+    writeCbor(writer, data);
+  } else {
+    const documents = Array.isArray(data) ? data : [data];
+    documents.forEach((document, index) => {
+      if (!isPlainObject(document) || readTypedValue(document)) {
+        throw createError(
+          ErrorCodes.JSON_INVALID_STRUCTURE,
+          Array.isArray(data) ? `BSON documents must be objects (item ${index} is not)` : 'BSON documents must be objects'
+        );
+      }
+      writeBsonDocument(writer, Object.entries(document));
+    });
+  }
+  return writer.finish();
+}
+
+export function isBinaryFormat(format: string | undefined): format is BinaryFormat {
+  return format === 'msgpack' || format === 'cbor' || format === 'bson';
+}
+
+/**
+ * The binary format implied by a file name's extension, or `null`
+ */
+export function getBinaryFormatFromFileName(fileName: string): BinaryFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'msgpack' || extension === 'mpk') return 'msgpack';
+  if (extension === 'cbor') return 'cbor';
+  if (extension === 'bson') return 'bson';
+  return null;
+}
+
+/**
+ * The binary format of an HTTP or file content type, or `null`
+ */
+export function getBinaryFormatFromContentType(contentType: string): BinaryFormat | null {
+  const mediaType = contentType.split(';')[0]?.trim().toLowerCase() ?? '';
+  if (['application/msgpack', 'application/x-msgpack', 'application/vnd.msgpack'].includes(mediaType)) return 'msgpack';
+  if (mediaType === 'application/cbor') return 'cbor';
+  if (mediaType === 'application/bson') return 'bson';
+  return null;
+}
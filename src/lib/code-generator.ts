@@ -0,0 +1,460 @@
+import { JsonValue } from '../types/json.types';
+
+import { JsonSchema, JsonSchemaDefinition, JsonSchemaType, schemaValidator } from './schema-validator';
+
+/**
+ * Code generation from sample data.
+ *
+ * The data is first run through schema inference (so every array element
+ * contributes to the item type), then the schema is converted into a small
+ * type model that each language emitter renders.
+ */
+
+export type CodeLanguage = 'typescript' | 'zod' | 'json-schema' | 'go' | 'python';
+
+export interface CodeGenerationOptions {
+  language: CodeLanguage;
+  /** Name of the top-level type (default `Root`) */
+  rootName?: string;
+}
+
+export const CODE_LANGUAGES: Array<{ id: CodeLanguage; label: string; extension: string }> = [
+  { id: 'typescript', label: 'TypeScript', extension: 'ts' },
+  { id: 'zod', label: 'Zod', extension: 'ts' },
+  { id: 'json-schema', label: 'JSON Schema', extension: 'schema.json' },
+  { id: 'go', label: 'Go', extension: 'go' },
+  { id: 'python', label: 'Python', extension: 'py' },
+];
+
+type Literal = string | number | boolean | null;
+
+type TypeRef =
+  | { kind: 'primitive'; type: Exclude<JsonSchemaType, 'array' | 'object'> | 'unknown' }
+  | { kind: 'literal'; values: Literal[] }
+  | { kind: 'array'; items: TypeRef }
+  | { kind: 'map' }
+  | { kind: 'object'; name: string }
+  | { kind: 'union'; variants: TypeRef[] };
+
+interface FieldDeclaration {
+  key: string;
+  type: TypeRef;
+  optional: boolean;
+}
+
+interface ObjectDeclaration {
+  name: string;
+  fields: FieldDeclaration[];
+}
+
+interface TypeModel {
+  root: TypeRef;
+  rootName: string;
+  /** Object types, nested types before the types that use them */
+  declarations: ObjectDeclaration[];
+}
+
+const UNKNOWN: TypeRef = { kind: 'primitive', type: 'unknown' };
+
+function toPascalCase(text: string): string {
+  const words = text.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words.map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+  if (!name) return 'Item';
+  return /^\d/.test(name) ? `T${name}` : name;
+}
+
+function singularize(name: string): string {
+  if (/ies$/i.test(name)) return `${name.slice(0, -3)}y`;
+  if (/(ss|us)$/i.test(name)) return `${name}Item`;
+  if (/s$/i.test(name)) return name.slice(0, -1);
+  return `${name}Item`;
+}
+
+function isNull(type: TypeRef): boolean {
+  return type.kind === 'primitive' && type.type === 'null';
+}
+
+/**
+ * Split a union into its non-null variants and whether null is allowed
+ */
+function splitNullable(type: TypeRef): { variants: TypeRef[]; nullable: boolean } {
+  if (type.kind === 'union') {
+    return { variants: type.variants.filter((variant) => !isNull(variant)), nullable: type.variants.some(isNull) };
+  }
+  if (type.kind === 'literal' && type.values.includes(null)) {
+    return { variants: [{ kind: 'literal', values: type.values.filter((value) => value !== null) }], nullable: true };
+  }
+  return { variants: isNull(type) ? [] : [type], nullable: isNull(type) };
+}
+
+/**
+ * `toName` for the keys of one declaration, called in field order. Keys such
+ * as `user_id` and `userId` map to the same identifier, so a name an earlier
+ * key took gets a numeric suffix.
+ */
+function uniqueFieldNamer(toName: (key: string) => string): (key: string) => string {
+  const taken = new Set<string>();
+  return (key) => {
+    const base = toName(key);
+    let name = base;
+    for (let suffix = 2; taken.has(name); suffix++) name = `${base}${suffix}`;
+    taken.add(name);
+    return name;
+  };
+}
+
+function buildTypeModel(data: JsonValue, rootName: string): TypeModel {
+  const declarations: ObjectDeclaration[] = [];
+  const usedNames = new Map<string, number>();
+
+  const uniqueName = (hint: string) => {
+    const base = toPascalCase(hint);
+    const count = usedNames.get(base) ?? 0;
+    usedNames.set(base, count + 1);
+    return count === 0 ? base : `${base}${count + 1}`;
+  };
+
+  const convert = (schema: JsonSchemaDefinition | undefined, nameHint: string): TypeRef => {
+    if (schema === undefined || typeof schema === 'boolean') return UNKNOWN;
+
+    if (schema.anyOf) {
+      return { kind: 'union', variants: schema.anyOf.map((variant) => convert(variant, nameHint)) };
+    }
+
+    if (Array.isArray(schema.type)) {
+      return {
+        kind: 'union',
+        variants: schema.type.map((type) => convert(narrowToType(schema, type), nameHint)),
+      };
+    }
+
+    if (schema.enum) {
+      return { kind: 'literal', values: schema.enum as Literal[] };
+    }
+
+    switch (schema.type) {
+      case 'object': {
+        const properties = Object.entries(schema.properties ?? {});
+        if (properties.length === 0) return { kind: 'map' };
+
+        const name = uniqueName(nameHint);
+        const fields = properties.map(([key, propSchema]) => ({
+          key,
+          type: convert(propSchema, key),
+          optional: !schema.required?.includes(key),
+        }));
+        declarations.push({ name, fields });
+        return { kind: 'object', name };
+      }
+      case 'array':
+        return { kind: 'array', items: schema.items === undefined ? UNKNOWN : convert(schema.items, singularize(nameHint)) };
+      case undefined:
+        return UNKNOWN;
+      default:
+        return { kind: 'primitive', type: schema.type };
+    }
+  };
+
+  const schema = schemaValidator.generateSchemaFromData(data);
+  const root = convert(schema, rootName);
+  return { root, rootName: toPascalCase(rootName), declarations };
+}
+
+function narrowToType(schema: JsonSchema, type: JsonSchemaType): JsonSchema {
+  const narrowed: JsonSchema = { ...schema, type };
+  if (schema.enum) {
+    const values = schema.enum.filter((value) => (type === 'null' ? value === null : value !== null));
+    if (values.length > 0 && type !== 'null') narrowed.enum = values;
+    else delete narrowed.enum;
+  }
+  return narrowed;
+}
+
+// ---------------------------------------------------------------------------
+// TypeScript
+
+const TS_IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function tsKey(key: string): string {
+  return TS_IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
+
+function tsType(type: TypeRef): string {
+  switch (type.kind) {
+    case 'primitive':
+      return type.type === 'integer' ? 'number' : type.type;
+    case 'literal':
+      return type.values.map((value) => JSON.stringify(value)).join(' | ');
+    case 'array': {
+      const items = tsType(type.items);
+      return type.items.kind === 'union' || type.items.kind === 'literal' ? `Array<${items}>` : `${items}[]`;
+    }
+    case 'map':
+      return 'Record<string, unknown>';
+    case 'object':
+      return type.name;
+    case 'union':
+      return type.variants.map(tsType).join(' | ');
+  }
+}
+
+function generateTypeScript(model: TypeModel): string {
+  const blocks = [...model.declarations].reverse().map((declaration) => [
+    `export interface ${declaration.name} {`,
+    ...declaration.fields.map((field) => `  ${tsKey(field.key)}${field.optional ? '?' : ''}: ${tsType(field.type)};`),
+    '}',
+  ].join('\n'));
+
+  if (model.root.kind !== 'object') {
+    blocks.unshift(`export type ${model.rootName} = ${tsType(model.root)};`);
+  }
+  return `${blocks.join('\n\n')}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Zod
+
+function zodType(type: TypeRef): string {
+  const { variants, nullable } = splitNullable(type);
+  const suffix = nullable ? '.nullable()' : '';
+  const [single] = variants;
+
+  if (!single) return 'z.null()';
+  if (variants.length > 1) return `z.union([${variants.map(zodType).join(', ')}])${suffix}`;
+
+  switch (single.kind) {
+    case 'primitive':
+      if (single.type === 'integer') return `z.number().int()${suffix}`;
+      return `z.${single.type}()${suffix}`;
+    case 'literal':
+      if (single.values.every((value) => typeof value === 'string')) {
+        return `z.enum([${single.values.map((value) => JSON.stringify(value)).join(', ')}])${suffix}`;
+      }
+      return single.values.length === 1
+        ? `z.literal(${JSON.stringify(single.values[0])})${suffix}`
+        : `z.union([${single.values.map((value) => `z.literal(${JSON.stringify(value)})`).join(', ')}])${suffix}`;
+    case 'array':
+      return `z.array(${zodType(single.items)})${suffix}`;
+    case 'map':
+      return `z.record(z.string(), z.unknown())${suffix}`;
+    case 'object':
+      return `${single.name}Schema${suffix}`;
+    case 'union':
+      return `${zodType(single)}${suffix}`;
+  }
+}
+
+function generateZod(model: TypeModel): string {
+  const blocks = model.declarations.map((declaration) => [
+    `export const ${declaration.name}Schema = z.object({`,
+    ...declaration.fields.map((field) => `  ${tsKey(field.key)}: ${zodType(field.type)}${field.optional ? '.optional()' : ''},`),
+    '});',
+    '',
+    `export type ${declaration.name} = z.infer<typeof ${declaration.name}Schema>;`,
+  ].join('\n'));
+
+  if (model.root.kind !== 'object') {
+    blocks.push([
+      `export const ${model.rootName}Schema = ${zodType(model.root)};`,
+      '',
+      `export type ${model.rootName} = z.infer<typeof ${model.rootName}Schema>;`,
+    ].join('\n'));
+  }
+  return `import { z } from 'zod';\n\n${blocks.join('\n\n')}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Go
+
+const GO_INITIALISMS = new Set(['id', 'url', 'uri', 'api', 'http', 'json', 'uuid', 'ip', 'html', 'sql']);
+
+function goFieldName(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const name = words
+    .map((word) => (GO_INITIALISMS.has(word.toLowerCase()) ? word.toUpperCase() : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join('');
+  if (!name) return 'Field';
+  return /^\d/.test(name) ? `F${name}` : name;
+}
+
+function goType(type: TypeRef, pointerIfNullable = true): string {
+  const { variants, nullable } = splitNullable(type);
+  const [single] = variants;
+  if (!single || variants.length > 1) return 'interface{}';
+
+  const pointer = nullable && pointerIfNullable && single.kind !== 'array' && single.kind !== 'map' ? '*' : '';
+  switch (single.kind) {
+    case 'primitive': {
+      const names = { string: 'string', number: 'float64', integer: 'int64', boolean: 'bool', null: 'interface{}', unknown: 'interface{}' };
+      const name = names[single.type];
+      return name === 'interface{}' ? name : `${pointer}${name}`;
+    }
+    case 'literal':
+      return `${pointer}${single.values.every((value) => typeof value === 'string') ? 'string' : 'interface{}'}`;
+    case 'array':
+      return `[]${goType(single.items)}`;
+    case 'map':
+      return 'map[string]interface{}';
+    case 'object':
+      return `${pointer}${single.name}`;
+    case 'union':
+      return 'interface{}';
+  }
+}
+
+function generateGo(model: TypeModel): string {
+  const blocks = model.declarations.map((declaration) => {
+    const fieldName = uniqueFieldNamer(goFieldName);
+    const rows = declaration.fields.map((field) => {
+      const baseType = goType(field.type);
+      const needsPointer = field.optional && !/^(\*|\[\]|map\[|interface\{\})/.test(baseType);
+      return [
+        fieldName(field.key),
+        needsPointer ? `*${baseType}` : baseType,
+        `\`json:"${field.key}${field.optional ? ',omitempty' : ''}"\``,
+      ];
+    });
+    const nameWidth = Math.max(0, ...rows.map(([name]) => name?.length ?? 0));
+    const typeWidth = Math.max(0, ...rows.map(([, type]) => type?.length ?? 0));
+
+    return [
+      `type ${declaration.name} struct {`,
+      ...rows.map(([name = '', type = '', tag = '']) => `\t${name.padEnd(nameWidth)} ${type.padEnd(typeWidth)} ${tag}`),
+      '}',
+    ].join('\n');
+  });
+
+  if (model.root.kind !== 'object') {
+    blocks.push(`type ${model.rootName} ${goType(model.root, false)}`);
+  }
+  return `package main\n\n${blocks.join('\n\n')}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Python
+
+const PYTHON_KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+  'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal',
+  'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+]);
+
+function pythonFieldName(key: string): string {
+  const name = key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9_]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase() || 'field';
+  const identifier = /^\d/.test(name) ? `f_${name}` : name;
+  return PYTHON_KEYWORDS.has(identifier) ? `${identifier}_` : identifier;
+}
+
+function pythonType(type: TypeRef, imports: Set<string>): string {
+  const { variants, nullable } = splitNullable(type);
+  let inner: string;
+
+  if (variants.length === 0) {
+    return 'None';
+  } else if (variants.length > 1) {
+    imports.add('Union');
+    inner = `Union[${variants.map((variant) => pythonType(variant, imports)).join(', ')}]`;
+  } else {
+    const single = variants[0] as TypeRef;
+    switch (single.kind) {
+      case 'primitive': {
+        const names = { string: 'str', number: 'float', integer: 'int', boolean: 'bool', null: 'None', unknown: 'Any' };
+        inner = names[single.type];
+        if (inner === 'Any') imports.add('Any');
+        break;
+      }
+      case 'literal':
+        imports.add('Literal');
+        inner = `Literal[${single.values.map((value) => (typeof value === 'string' ? JSON.stringify(value) : String(value))).join(', ')}]`;
+        break;
+      case 'array':
+        imports.add('List');
+        inner = `List[${pythonType(single.items, imports)}]`;
+        break;
+      case 'map':
+        imports.add('Dict');
+        imports.add('Any');
+        inner = 'Dict[str, Any]';
+        break;
+      case 'object':
+        inner = single.name;
+        break;
+      case 'union':
+        inner = pythonType(single, imports);
+        break;
+    }
+  }
+
+  if (!nullable) return inner;
+  imports.add('Optional');
+  return `Optional[${inner}]`;
+}
+
+function generatePython(model: TypeModel): string {
+  const imports = new Set<string>();
+
+  const blocks = model.declarations.map((declaration) => {
+    const fieldName = uniqueFieldNamer(pythonFieldName);
+    // Fields with defaults must follow the ones without
+    const fields = declaration.fields
+      .map((field) => ({ ...field, name: fieldName(field.key) }))
+      .sort((a, b) => Number(a.optional) - Number(b.optional));
+    const lines = fields.map(({ name, ...field }) => {
+      let type = pythonType(field.type, imports);
+      if (field.optional && !type.startsWith('Optional[')) {
+        imports.add('Optional');
+        type = `Optional[${type}]`;
+      }
+      const comment = name === field.key ? '' : `  # JSON key: ${JSON.stringify(field.key)}`;
+      return `    ${name}: ${type}${field.optional ? ' = None' : ''}${comment}`;
+    });
+
+    return ['@dataclass', `class ${declaration.name}:`, ...(lines.length > 0 ? lines : ['    pass'])].join('\n');
+  });
+
+  if (model.root.kind !== 'object') {
+    blocks.push(`${model.rootName} = ${pythonType(model.root, imports)}`);
+  }
+
+  const header = ['from __future__ import annotations', '', 'from dataclasses import dataclass'];
+  if (imports.size > 0) {
+    header.push(`from typing import ${Array.from(imports).sort().join(', ')}`);
+  }
+  return `${header.join('\n')}\n\n\n${blocks.join('\n\n\n')}\n`;
+}
+
+/**
+ * Generate type definitions for a JSON value
+ *
+ * @example
+ * ```ts
+ * generateCode({ id: 1, tags: ['a'] }, { language: 'typescript' });
+ * // export interface Root {
+ * //   id: number;
+ * //   tags: string[];
+ * // }
+ * ```
+ */
+export function generateCode(data: JsonValue, options: CodeGenerationOptions): string {
+  const rootName = options.rootName?.trim() || 'Root';
+
+  if (options.language === 'json-schema') {
+    return `${JSON.stringify({ title: toPascalCase(rootName), ...schemaValidator.generateSchemaFromData(data) }, null, 2)}\n`;
+  }
+
+  const model = buildTypeModel(data, rootName);
+  switch (options.language) {
+    case 'typescript':
+      return generateTypeScript(model);
+    case 'zod':
+      return generateZod(model);
+    case 'go':
+      return generateGo(model);
+    case 'python':
+      return generatePython(model);
+  }
+}
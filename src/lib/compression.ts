@@ -0,0 +1,291 @@
+import { createError, ErrorCodes, JsonHeroError } from './error-handler';
+import { formatBytes } from './utils';
+
+/**
+ * Compressed input: gzip, zlib deflate and brotli streams, and zip archives.
+ * Decompression uses the browser's `DecompressionStream`, so it runs off the
+ * main thread and adds no codec to the bundle.
+ */
+
+export type Compression = 'gzip' | 'deflate' | 'brotli';
+
+export const COMPRESSION_LABELS: Record<Compression | 'zip', string> = {
+  gzip: 'gzip',
+  deflate: 'deflate',
+  brotli: 'Brotli',
+  zip: 'zip',
+};
+
+export const COMPRESSED_EXTENSIONS = ['gz', 'gzip', 'zz', 'br', 'zip'];
+
+export const COMPRESSED_CONTENT_TYPES = [
+  'application/gzip',
+  'application/x-gzip',
+  'application/zip',
+  'application/x-zip-compressed',
+];
+
+/**
+ * A file stored in a zip archive
+ */
+export interface ZipEntry {
+  /** Path inside the archive, with `/` separators */
+  name: string;
+  /** Uncompressed size in bytes */
+  size: number;
+  compressedSize: number;
+  /** 0 = stored, 8 = deflate */
+  method: number;
+  encrypted: boolean;
+  /** Offset of the entry's local header */
+  offset: number;
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+/** Fixed part of the end of central directory record; a comment of up to 64 KiB may follow */
+const ZIP_END_SIZE = 22;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+/**
+ * The compression implied by a file name's extension, or `null`
+ */
+export function getCompressionFromFileName(fileName: string): Compression | 'zip' | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gz' || extension === 'gzip') return 'gzip';
+  if (extension === 'zz') return 'deflate';
+  if (extension === 'br') return 'brotli';
+  if (extension === 'zip') return 'zip';
+  return null;
+}
+
+/**
+ * The compression of some data, from its leading bytes. Brotli has no
+ * signature, so it is only known from a file name or header.
+ */
+export function detectCompression(bytes: Uint8Array): Compression | 'zip' | null {
+  const [first = -1, second = -1, third = -1, fourth = -1] = bytes;
+  if (first === 0x1f && second === 0x8b) return 'gzip';
+  if (first === 0x50 && second === 0x4b && ((third === 3 && fourth === 4) || (third === 5 && fourth === 6))) return 'zip';
+  // zlib header: deflate method, and a check value that makes the first two bytes a multiple of 31
+  if ((first & 0x0f) === 8 && first >> 4 <= 7 && second !== -1 && (first * 256 + second) % 31 === 0) return 'deflate';
+  return null;
+}
+
+/**
+ * The compression of a file, from its name or else its first bytes
+ */
+export async function getFileCompression(file: File): Promise<Compression | 'zip' | null> {
+  const fromName = getCompressionFromFileName(file.name);
+  if (fromName) return fromName;
+  const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  const detected = detectCompression(head);
+  // Any text starting with e.g. "x^" passes the zlib header check, so unnamed deflate files are not guessed
+  return detected === 'deflate' ? null : detected;
+}
+
+/**
+ * The name of a compressed file once decompressed: `logs.json.gz` becomes
+ * `logs.json`, and a bare `logs.gz` becomes `logs.json`
+ */
+export function getDecompressedFileName(fileName: string): string {
+  const name = getCompressionFromFileName(fileName) ? fileName.replace(/\.[^.]*$/, '') : fileName;
+  return name.includes('.') ? name : `${name}.json`;
+}
+
+function byteStream(bytes: Uint8Array): ReadableStream<BufferSource> {
+  return new ReadableStream({
+    start(controller) {
+      // Bytes here always come from files or responses, never from a SharedArrayBuffer
+      controller.enqueue(bytes as Uint8Array<ArrayBuffer>);
+      controller.close();
+    },
+  });
+}
+
+function joinChunks(chunks: Uint8Array[], length: number): Uint8Array<ArrayBuffer> {
+  const joined = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    joined.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return joined;
+}
+
+async function inflate(bytes: Uint8Array, format: Compression | 'deflate-raw', maxSize: number, label: string): Promise<Uint8Array<ArrayBuffer>> {
+  let decompressor: DecompressionStream;
+  try {
+    // 'brotli' is not in every browser's list of formats yet, hence the cast
+    decompressor = new DecompressionStream(format as CompressionFormat);
+  } catch {
+    throw createError(ErrorCodes.FILE_READ_ERROR, `${label} decompression is not supported by this browser`);
+  }
+
+  const reader = byteStream(bytes).pipeThrough(decompressor).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  try {
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      length += result.value.length;
+      if (length > maxSize) {
+        await reader.cancel();
+        throw createError(ErrorCodes.FILE_TOO_LARGE, `Decompressed data is larger than ${formatBytes(maxSize)}`);
+      }
+      chunks.push(result.value);
+    }
+  } catch (error) {
+    if (error instanceof JsonHeroError) throw error;
+    throw createError(ErrorCodes.FILE_READ_ERROR, `Invalid ${label} data: ${error instanceof Error ? error.message : 'decompression failed'}`);
+  }
+  return joinChunks(chunks, length);
+}
+
+/**
+ * Decompress a gzip, zlib deflate or brotli stream.
+ *
+ * @param maxSize - Largest decompressed size accepted, so a small file cannot expand without limit
+ */
+export function decompress(bytes: Uint8Array, compression: Compression, maxSize = Infinity): Promise<Uint8Array<ArrayBuffer>> {
+  return inflate(bytes, compression, maxSize, COMPRESSION_LABELS[compression]); // eslint-disable-line security/detect-object-injection
+}
+
+/**
+ * List the files in a zip archive, from its central directory. Folders and
+ * macOS resource forks (`__MACOSX/`) are left out.
+ */
+export function readZipEntries(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const fail = (message: string): never => {
+    throw createError(ErrorCodes.FILE_INVALID_FORMAT, message);
+  };
+
+  let end = -1;
+  for (let offset = bytes.length - ZIP_END_SIZE; offset >= Math.max(0, bytes.length - ZIP_END_SIZE - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) fail('Not a zip archive (no central directory found)');
+
+  const count = view.getUint16(end + 10, true);
+  const directoryOffset = view.getUint32(end + 16, true);
+  if (count === 0xffff || directoryOffset === 0xffffffff) fail('ZIP64 archives are not supported');
+
+  const entries: ZipEntry[] = [];
+  const decoder = new TextDecoder();
+  let offset = directoryOffset;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER) fail('Corrupt zip central directory');
+
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    const entry: ZipEntry = {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      encrypted: (flags & 1) === 1,
+      offset: view.getUint32(offset + 42, true),
+    };
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || name.startsWith('__MACOSX/')) continue;
+    if (entry.size === 0xffffffff || entry.compressedSize === 0xffffffff) fail('ZIP64 archives are not supported');
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Read one file out of a zip archive
+ */
+export async function extractZipEntry(bytes: Uint8Array, entry: ZipEntry, maxSize = Infinity): Promise<Uint8Array<ArrayBuffer>> {
+  if (entry.encrypted) throw createError(ErrorCodes.FILE_READ_ERROR, `${entry.name} is encrypted`);
+  if (entry.size > maxSize) throw createError(ErrorCodes.FILE_TOO_LARGE, `${entry.name} is larger than ${formatBytes(maxSize)}`);
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (entry.offset + 30 > bytes.length || view.getUint32(entry.offset, true) !== ZIP_LOCAL_HEADER) {
+    throw createError(ErrorCodes.FILE_INVALID_FORMAT, `Corrupt zip entry: ${entry.name}`);
+  }
+  const start = entry.offset + 30 + view.getUint16(entry.offset + 26, true) + view.getUint16(entry.offset + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+  if (data.length !== entry.compressedSize) throw createError(ErrorCodes.FILE_INVALID_FORMAT, `Truncated zip entry: ${entry.name}`);
+
+  if (entry.method === ZIP_STORED) return data.slice();
+  if (entry.method === ZIP_DEFLATED) return inflate(data, 'deflate-raw', maxSize, 'zip');
+  throw createError(ErrorCodes.FILE_READ_ERROR, `${entry.name} uses zip compression method ${entry.method}, which is not supported`);
+}
+
+/**
+ * The compression named by a `Content-Encoding` token, or `null`
+ */
+function getContentEncoding(token: string): Compression | null {
+  switch (token) {
+    case 'gzip':
+    case 'x-gzip':
+      return 'gzip';
+    case 'deflate':
+      return 'deflate';
+    case 'br':
+      return 'brotli';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Turn an HTTP response body into text. Browsers normally undo
+ * `Content-Encoding` themselves, but some servers and proxies send bodies
+ * that are still compressed (or compressed files such as `.json.gz` with no
+ * encoding header at all), so the bytes are checked and decompressed here.
+ *
+ * @returns The text, and the decompression steps that were applied
+ */
+export async function decodeResponseBody(
+  body: ArrayBuffer | Uint8Array | string,
+  contentType = '',
+  contentEncoding = '',
+  maxSize = Infinity
+): Promise<{ text: string; decompressed: Compression[] }> {
+  if (typeof body === 'string') return { text: body, decompressed: [] };
+
+  let bytes = body instanceof Uint8Array ? body : new Uint8Array(body);
+  const decompressed: Compression[] = [];
+
+  // Encodings are listed in the order they were applied, so they are undone in reverse
+  const encodings = contentEncoding.toLowerCase().split(',').map((token) => token.trim()).filter(Boolean).reverse();
+  for (const token of encodings) {
+    const compression = getContentEncoding(token);
+    if (!compression || (compression !== 'brotli' && detectCompression(bytes) !== compression)) continue;
+    try {
+      bytes = await decompress(bytes, compression, maxSize);
+      decompressed.push(compression);
+    } catch (error) {
+      // Brotli cannot be recognised from its bytes; failing to decode it means the browser already did
+      if (compression !== 'brotli') throw error;
+    }
+  }
+
+  const detected = detectCompression(bytes);
+  if (detected === 'zip') throw createError(ErrorCodes.FILE_INVALID_FORMAT, 'Zip archives can only be opened as files');
+  if (detected === 'gzip') {
+    bytes = await decompress(bytes, detected, maxSize);
+    decompressed.push(detected);
+  }
+
+  const charset = /charset=([^;]+)/i.exec(contentType)?.[1]?.trim().replace(/^"|"$/g, '') ?? 'utf-8';
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset);
+  } catch {
+    decoder = new TextDecoder();
+  }
+  return { text: decoder.decode(bytes), decompressed };
+}
@@ -9,6 +9,7 @@ export const VISUALIZATION_TYPES = {
   GRAPH: 'graph',
   TABLE: 'table',
   RAW: 'raw',
+  DIFF: 'diff',
 } as const;
 
 export const THEME_MODES = {
@@ -0,0 +1,387 @@
+import { CsvDelimiter, CsvImportOptions, JsonObject, JsonValue } from '../types/json.types';
+
+import { createError, ErrorCodes } from './error-handler';
+import { isLosslessNumber, parseNumberText, setMember } from './lossless-number';
+
+/**
+ * CSV and TSV input (RFC 4180): quoted fields may hold delimiters, doubled
+ * quotes and line breaks. Each row becomes an object keyed by column name,
+ * so a spreadsheet loads as an array of objects.
+ */
+
+export const DEFAULT_CSV_OPTIONS: CsvImportOptions = {
+  delimiter: 'auto',
+  header: 'auto',
+  inferTypes: true,
+  inferDates: false,
+  unflatten: true,
+};
+
+export interface CsvParseOptions extends Partial<CsvImportOptions> {
+  /** Keep numbers that would lose precision as `LosslessNumber`s */
+  losslessNumbers?: boolean;
+}
+
+/**
+ * A row that was loaded, but did not match the shape of the table
+ */
+export interface CsvWarning {
+  message: string;
+  /** 1-based line the row starts on */
+  line: number;
+}
+
+export interface CsvParseResult {
+  /** One object per data row */
+  data: JsonObject[];
+  /** Column names, as read from the header row or generated */
+  columns: string[];
+  delimiter: CsvDelimiter;
+  hasHeader: boolean;
+  warnings: CsvWarning[];
+}
+
+interface CsvRecord {
+  fields: string[];
+  /** Whether each field was quoted */
+  quoted: boolean[];
+  /** 1-based line the record starts on */
+  line: number;
+}
+
+const DELIMITERS: CsvDelimiter[] = [',', '\t', ';', '|'];
+
+/** Records read to detect the delimiter and header */
+const SAMPLE_RECORDS = 20;
+
+const CSV_CONTENT_TYPES = ['text/csv', 'application/csv', 'text/tab-separated-values'];
+
+const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/; // eslint-disable-line security/detect-unsafe-regex
+
+/** `2024-01-31`, `2024/1/31` or an ISO 8601 date and time */
+const DATE = /^(\d{4})([-/])(\d{1,2})\2(\d{1,2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d{1,9})?)?(Z|[+-]\d{2}:?\d{2})?)?$/; // eslint-disable-line security/detect-unsafe-regex
+
+/** A column name segment with array indices, e.g. `tags[0]` */
+const INDEXED_SEGMENT = /^([^[\]]*)((?:\[\d+\])+)$/; // eslint-disable-line security/detect-unsafe-regex
+
+/**
+ * Split text into records. Reading stops after `limit` records, so the
+ * delimiter and header can be detected from the start of a large file.
+ */
+function readRecords(text: string, delimiter: CsvDelimiter, limit = Infinity): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let index = 0;
+  let line = 1;
+
+  while (index < text.length && records.length < limit) {
+    const fields: string[] = [];
+    const quoted: boolean[] = [];
+    const recordLine = line;
+
+    for (;;) {
+      let field = '';
+      quoted.push(text.charAt(index) === '"');
+      if (text.charAt(index) === '"') {
+        const fieldLine = line;
+        const fieldColumn = index - text.lastIndexOf('\n', index - 1);
+        index++;
+        for (;;) {
+          const quote = text.indexOf('"', index);
+          if (quote === -1) {
+            throw createError(ErrorCodes.JSON_PARSE_ERROR, `Unterminated quoted field at line ${fieldLine}, column ${fieldColumn}`);
+          }
+          const chunk = text.slice(index, quote);
+          line += chunk.split('\n').length - 1;
+          field += chunk;
+          index = quote + 1;
+          if (text.charAt(index) !== '"') break;
+          field += '"';
+          index++;
+        }
+      }
+      // Unquoted text, or anything between a closing quote and the next delimiter
+      let end = index;
+      while (end < text.length && text.charAt(end) !== delimiter && text.charAt(end) !== '\n' && text.charAt(end) !== '\r') end++;
+      field += text.slice(index, end);
+      fields.push(field);
+      index = end;
+
+      if (text.charAt(index) === delimiter) {
+        index++;
+        continue;
+      }
+      if (text.charAt(index) === '\r') index++;
+      if (text.charAt(index) === '\n') index++;
+      line++;
+      break;
+    }
+
+    // Blank lines separate nothing, so they are skipped
+    if (fields.length > 1 || quoted[0] || fields[0] !== '') records.push({ fields, quoted, line: recordLine });
+  }
+  return records;
+}
+
+/**
+ * The delimiter that splits the first rows into the same number of fields,
+ * preferring more fields when several do
+ */
+function detectDelimiter(text: string): CsvDelimiter {
+  let best: { delimiter: CsvDelimiter; consistency: number; fieldCount: number } = { delimiter: ',', consistency: 0, fieldCount: 1 };
+
+  DELIMITERS.forEach((delimiter) => {
+    let records: CsvRecord[];
+    try {
+      records = readRecords(text, delimiter, SAMPLE_RECORDS);
+    } catch {
+      return;
+    }
+    const counts = new Map<number, number>();
+    records.forEach(({ fields }) => counts.set(fields.length, (counts.get(fields.length) ?? 0) + 1));
+    const [fieldCount, occurrences] = [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] ?? [1, 0];
+    if (fieldCount < 2) return;
+
+    const consistency = occurrences / records.length;
+    if (consistency > best.consistency || (consistency === best.consistency && fieldCount > best.fieldCount)) {
+      best = { delimiter, consistency, fieldCount };
+    }
+  });
+  return best.delimiter;
+}
+
+/**
+ * Whether the first row names the columns: every cell is filled in, the
+ * names are unique, and none of them reads as a number or boolean
+ */
+function detectHeader(first: string[]): boolean {
+  const names = first.map((cell) => cell.trim());
+  return names.every((name) => name !== '' && !JSON_NUMBER.test(name) && !/^(?:true|false)$/i.test(name))
+    && new Set(names).size === names.length;
+}
+
+/** Unique column names, with generated names for empty and repeated ones */
+function getColumnNames(header: string[] | null, width: number): string[] {
+  const seen = new Set<string>();
+  return Array.from({ length: width }, (_, index) => {
+    const base = header?.[index]?.trim() || `column${index + 1}`; // eslint-disable-line security/detect-object-injection
+    let name = base;
+    for (let suffix = 2; seen.has(name); suffix++) name = `${base}_${suffix}`;
+    seen.add(name);
+    return name;
+  });
+}
+
+/** A recognised date as ISO 8601, or `null` */
+function toIsoDate(text: string): string | null {
+  const match = DATE.exec(text);
+  if (!match) return null;
+  const [, year, , month, day, hours, minutes, seconds = '00', fraction = '', zone] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) return null;
+
+  const datePart = `${year}-${month?.padStart(2, '0')}-${day?.padStart(2, '0')}`;
+  if (hours === undefined) return datePart;
+  if (Number(hours) > 23 || Number(minutes) > 59 || Number(seconds) > 59) return null;
+
+  const local = `${datePart}T${hours}:${minutes}:${seconds}${fraction}`;
+  // Times with an offset are converted to UTC; times without one are left as local times
+  if (!zone) return local;
+  const instant = new Date(zone === 'Z' ? `${local}Z` : `${local}${zone.slice(0, 3)}:${zone.slice(-2)}`);
+  return Number.isNaN(instant.getTime()) ? null : instant.toISOString();
+}
+
+/**
+ * Path of a dotted column name (`address.city`, `tags[0]`), or `null` for a
+ * name that is kept as a single key
+ */
+function getColumnPath(name: string): Array<string | number> | null {
+  if (!name.includes('.') && !name.includes('[')) return null;
+  const path: Array<string | number> = [];
+  for (const segment of name.split('.')) {
+    const indexed = INDEXED_SEGMENT.exec(segment);
+    const key = indexed ? indexed[1] : segment;
+    if (key === '' || key === undefined) {
+      // `[0]` on its own continues the previous segment, as in exported tree paths
+      if (!indexed || path.length === 0) return null;
+    } else {
+      path.push(key);
+    }
+    indexed?.[2]?.slice(1, -1).split('][').forEach((position) => path.push(Number(position)));
+  }
+  return path.length > 1 ? path : null;
+}
+
+/**
+ * Paths of the columns to unflatten. A column whose path would clash with
+ * another column (`a` and `a.b`, or `a[0]` and `a.b`) keeps its name as a
+ * single key, so every row has the same shape.
+ */
+function getColumnPaths(columns: string[]): Array<Array<string | number> | null> {
+  const kinds = new Map<string, 'value' | 'object' | 'array'>();
+  return columns.map((name) => {
+    const path = getColumnPath(name);
+    const claims = (path ?? [name]).map((_, index, full) => {
+      const next = full[index + 1];
+      const kind = next === undefined ? 'value' : typeof next === 'number' ? 'array' : 'object';
+      return [JSON.stringify(full.slice(0, index + 1)), kind] as const;
+    });
+    const clashes = claims.some(([key, kind]) => {
+      const claimed = kinds.get(key);
+      return claimed !== undefined && (claimed !== kind || kind === 'value');
+    });
+    if (path && clashes) {
+      kinds.set(JSON.stringify([name]), 'value');
+      return null;
+    }
+    claims.forEach(([key, kind]) => kinds.set(key, kind));
+    return path;
+  });
+}
+
+/**
+ * Set a value at a column path, creating objects and arrays on the way.
+ * Returns false when the path runs into a value of another kind.
+ */
+function setPath(target: JsonObject, path: Array<string | number>, value: JsonValue): boolean {
+  let current: JsonObject | JsonValue[] = target;
+  for (let i = 0; i < path.length; i++) {
+    const segment = path[i] as string | number; // eslint-disable-line security/detect-object-injection
+    const next = path[i + 1];
+    const isLast = next === undefined;
+
+    if (typeof segment === 'number') {
+      if (!Array.isArray(current)) return false;
+      while (current.length < segment) current.push(null);
+    } else if (Array.isArray(current)) {
+      return false;
+    }
+
+    const container = current as Record<string | number, JsonValue>;
+    const existing = Object.prototype.hasOwnProperty.call(container, segment) ? container[segment] : undefined; // eslint-disable-line security/detect-object-injection
+    if (isLast) {
+      if (existing !== undefined && existing !== null) return false;
+      if (Array.isArray(current)) current[segment as number] = value;
+      else setMember(current, segment as string, value);
+      return true;
+    }
+
+    const wantsArray = typeof next === 'number';
+    if (existing === undefined || existing === null) {
+      const created: JsonObject | JsonValue[] = wantsArray ? [] : {};
+      if (Array.isArray(current)) current[segment as number] = created;
+      else setMember(current, segment as string, created);
+      current = created;
+    } else if (typeof existing === 'object' && !isLosslessNumber(existing) && Array.isArray(existing) === wantsArray) {
+      current = existing as JsonObject | JsonValue[];
+    } else {
+      return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * Parse CSV or TSV text into an array of objects, one per data row.
+ * Types and dates are inferred from unquoted cells only; quoted cells are
+ * always strings.
+ *
+ * With `delimiter` and `header` left on `auto`, both are detected from the
+ * first rows. Rows with missing cells are padded and cells past the last
+ * column get generated column names; both are reported as warnings.
+ *
+ * @example
+ * ```ts
+ * parseCSV('id,address.city,active\n1,Paris,true\n').data;
+ * // [{ id: 1, address: { city: 'Paris' }, active: true }]
+ * ```
+ */
+export function parseCSV(text: string, options: CsvParseOptions = {}): CsvParseResult {
+  const { delimiter: delimiterOption, header, inferTypes, inferDates, unflatten } = { ...DEFAULT_CSV_OPTIONS, ...options };
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  if (!source.trim()) throw createError(ErrorCodes.JSON_PARSE_ERROR, 'Empty input');
+
+  const delimiter = delimiterOption === 'auto' ? detectDelimiter(source) : delimiterOption;
+  const records = readRecords(source, delimiter);
+  const [first] = records;
+  const hasHeader = first !== undefined && (header === 'auto' ? detectHeader(first.fields) : header === 'yes');
+  const rows = hasHeader ? records.slice(1) : records;
+
+  const width = rows.reduce((max, { fields }) => Math.max(max, fields.length), hasHeader && first ? first.fields.length : 0);
+  const columns = getColumnNames(hasHeader && first ? first.fields : null, width);
+  const headerWidth = hasHeader && first ? first.fields.length : (rows[0]?.fields.length ?? 0);
+  const paths = unflatten ? getColumnPaths(columns) : columns.map(() => null);
+
+  const convertCell = (cell: string, quoted: boolean): JsonValue => {
+    const trimmed = cell.trim();
+    // Quoting marks a cell as text, which keeps values such as "00123" intact
+    if (quoted) return cell;
+    if (inferTypes) {
+      if (trimmed === '' || trimmed === 'null' || trimmed === 'NULL') return null;
+      if (/^true$/i.test(trimmed)) return true;
+      if (/^false$/i.test(trimmed)) return false;
+      if (JSON_NUMBER.test(trimmed)) {
+        const number = parseNumberText(trimmed);
+        // Text that would not be written back the same way stays a string
+        if (!isLosslessNumber(number) || options.losslessNumbers) return number;
+      }
+    }
+    if (inferDates) return toIsoDate(trimmed) ?? cell;
+    return cell;
+  };
+
+  const warnings: CsvWarning[] = [];
+  const data = rows.map(({ fields, quoted, line }) => {
+    if (fields.length !== headerWidth) {
+      warnings.push({ message: `Row has ${fields.length} field${fields.length === 1 ? '' : 's'}, expected ${headerWidth}`, line });
+    }
+    const row: JsonObject = {};
+    columns.forEach((name, index) => {
+      const value = convertCell(fields[index] ?? '', quoted[index] ?? false); // eslint-disable-line security/detect-object-injection
+      const path = paths[index]; // eslint-disable-line security/detect-object-injection
+      if (!path || !setPath(row, path, value)) setMember(row, name, value);
+    });
+    return row;
+  });
+
+  return { data, columns, delimiter, hasHeader, warnings };
+}
+
+/**
+ * Whether an HTTP content type is a CSV or TSV media type
+ */
+export function isCsvContentType(contentType: string): boolean {
+  const mediaType = contentType.split(';')[0]?.trim().toLowerCase() ?? '';
+  return CSV_CONTENT_TYPES.includes(mediaType);
+}
+
+/**
+ * Whether a file name has a CSV or TSV extension
+ */
+export function isCsvFileName(fileName: string): boolean {
+  return /\.(?:csv|tsv|tab)$/i.test(fileName);
+}
+
+/**
+ * The delimiter implied by a file name: tabs for TSV files, otherwise `auto`
+ */
+export function getCsvDelimiterFromFileName(fileName: string): CsvImportOptions['delimiter'] {
+  return /\.(?:tsv|tab)$/i.test(fileName) ? '\t' : 'auto';
+}
+
+/**
+ * Quick check for pasted text that is a table: at least two rows that a
+ * delimiter splits into the same number of fields
+ */
+export function looksLikeCSV(text: string): boolean {
+  const trimmed = text.trimStart();
+  if (/^[[{<"]/.test(trimmed)) return false;
+  try {
+    const delimiter = detectDelimiter(trimmed);
+    const records = readRecords(trimmed, delimiter, SAMPLE_RECORDS);
+    const [first] = records;
+    return records.length >= 2 && first !== undefined && first.fields.length >= 2
+      && records.every(({ fields }) => fields.length === first.fields.length);
+  } catch {
+    return false;
+  }
+}
@@ -1,7 +1,9 @@
 import { JsonValue } from '@/types/json.types';
 import { TreeNode, GraphNode, GraphEdge, TableRow } from '@/types/visualization.types';
 
-import { detectJSONType } from './json-parser';
+import { detectJSONType, stringifyJSON } from './json-parser';
+import { parsePointer } from './json-patch';
+import { formatNumber, isJsonNumber, isLosslessNumber } from './lossless-number';
 
 let nodeIdCounter = 0;
 
@@ -126,7 +128,7 @@ export function jsonToGraph(data: JsonValue): {
     } else {
       nodes.push({
         id,
-        label: `${key || 'Value'}: ${JSON.stringify(value)}`,
+        label: `${key || 'Value'}: ${stringifyJSON(value, 0)}`,
         type: 'value',
         data: value,
       });
@@ -184,6 +186,7 @@ export function jsonToTableRows(data: JsonValue): TableRow[] {
       rows.push({
         id: `row-${rowId++}`,
         path: pathString,
+        segments: path,
         key,
         value: value,
         type,
@@ -204,9 +207,10 @@ export function filterTreeNodes(
 
   const query = searchQuery.toLowerCase();
   const keyMatches = node.key.toLowerCase().includes(query);
+  const valueText = isJsonNumber(node.value) ? formatNumber(node.value) : node.value;
   const valueMatches =
-    typeof node.value === 'string' &&
-    node.value.toLowerCase().includes(query);
+    typeof valueText === 'string' &&
+    valueText.toLowerCase().includes(query);
 
   const filteredChildren = node.children
     .map((child) => filterTreeNodes(child, searchQuery))
@@ -230,4 +234,38 @@ export function getJsonPath(path: string[]): string {
     }
     return acc ? `${acc}.${part}` : part;
   }, '');
-}
\ No newline at end of file
+}
+
+/**
+ * Stable identifier for a tree node that survives re-building the tree
+ * after the underlying data changes (unlike the generated node id)
+ */
+export function getTreeNodeKey(path: string[]): string {
+  return JSON.stringify(path);
+}
+
+/**
+ * Convert a JSON Pointer into tree node path segments. Stops at the deepest
+ * location that exists in the data, so a pointer to a missing property
+ * resolves to its parent object.
+ */
+export function pointerToTreePath(data: JsonValue, pointer: string): string[] {
+  const path: string[] = [];
+  let current: JsonValue | undefined = data;
+
+  for (const token of parsePointer(pointer)) {
+    if (Array.isArray(current)) {
+      const index = Number(token);
+      if (!/^\d+$/.test(token) || index >= current.length) break;
+      path.push(`[${index}]`);
+      current = current[index]; // eslint-disable-line security/detect-object-injection
+    } else if (current !== null && typeof current === 'object' && !isLosslessNumber(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      path.push(token);
+      current = current[token]; // eslint-disable-line security/detect-object-injection
+    } else {
+      break;
+    }
+  }
+
+  return path;
+}
@@ -1,4 +1,4 @@
-import { JsonValue } from '../types/json.types';
+import { DuplicateKey, DuplicateKeyPolicy, JsonValue } from '../types/json.types';
 
 import { fixNestedJsonStrings, brutalSanitize } from './file-processor';
 import { parseJSON } from './json-parser';
@@ -13,6 +13,8 @@ export interface EnhancedFileProcessingOptions {
   maxObjectKeys?: number;
   maxArrayLength?: number;
   maxStringLength?: number;
+  /** Which value a repeated key keeps */
+  duplicateKeyPolicy?: DuplicateKeyPolicy;
 }
 
 export interface EnhancedFileProcessingResult {
@@ -22,6 +24,8 @@ export interface EnhancedFileProcessingResult {
   warnings?: string[];
   recovered?: boolean;
   partialData?: JsonValue;
+  /** Keys repeated within an object, in source order */
+  duplicateKeys?: DuplicateKey[];
   metadata?: {
     originalSize: number;
     processedSize: number;
@@ -351,7 +355,8 @@ export async function enhancedProcessJSONFile(
     }
     
     // Parse JSON with error recovery
-    let parseResult = parseJSON(processedContent);
+    const parseOptions = opts.duplicateKeyPolicy ? { duplicateKeyPolicy: opts.duplicateKeyPolicy } : {};
+    let parseResult = parseJSON(processedContent, parseOptions);
     
     // Try recovery if parsing failed and recovery is enabled
     if (!parseResult.isValid && opts.allowPartialRecovery) {
@@ -377,7 +382,7 @@ export async function enhancedProcessJSONFile(
       }
       
       // Try parsing again
-      parseResult = parseJSON(recoveredContent);
+      parseResult = parseJSON(recoveredContent, parseOptions);
       
       if (parseResult.isValid) {
         warnings.push('Successfully recovered JSON data');
@@ -407,6 +412,10 @@ export async function enhancedProcessJSONFile(
       }
     }
     
+    parseResult.duplicateKeys.forEach(({ key, line, column }) => {
+      warnings.push(`Duplicate key "${key}" at line ${line}, column ${column}`);
+    });
+
     // Calculate final metadata
     const processingTime = performance.now() - startTime;
     const lineCount = processedContent.split('\n').length;
@@ -415,6 +424,7 @@ export async function enhancedProcessJSONFile(
     return {
       success: true,
       data: parseResult.data,
+      duplicateKeys: parseResult.duplicateKeys,
       warnings: warnings.length > 0 ? warnings : [],
       metadata: {
         originalSize: file.size,
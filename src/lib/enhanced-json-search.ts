@@ -1,8 +1,14 @@
 import { JsonValue } from '../types/json.types';
 
+import { JsonHeroError } from './error-handler';
+import { searchJmesPath } from './jmespath';
+import { detectJSONType, stringifyJSON } from './json-parser';
+import { JsonPathSegment, queryJsonPath, toNormalizedPath } from './jsonpath';
+import { formatNumber, isJsonNumber } from './lossless-number';
+
 export interface EnhancedSearchOptions {
   query: string;
-  mode: 'simple' | 'regex' | 'jsonpath' | 'fuzzy';
+  mode: 'simple' | 'regex' | 'jsonpath' | 'jmespath' | 'fuzzy';
   caseSensitive?: boolean;
   searchInKeys?: boolean;
   searchInValues?: boolean;
@@ -47,225 +53,18 @@ export interface EnhancedSearchStats {
   searchTime: number;
   mode: string;
   truncated: boolean;
+  /** Why the query could not run, e.g. a JSONPath syntax error */
+  error?: string;
 }
 
-// JSONPath tokenizer
-interface JsonPathToken {
-  type: 'root' | 'property' | 'index' | 'wildcard' | 'recursive' | 'filter' | 'slice';
-  value: string;
-}
-
-function tokenizeJsonPath(path: string): JsonPathToken[] {
-  const tokens: JsonPathToken[] = [];
-  let i = 0;
-  
-  // Must start with $
-  if (path[0] !== '$') {
-    throw new Error('JSONPath must start with $');
-  }
-  
-  tokens.push({ type: 'root', value: '$' });
-  i = 1;
-  
-  while (i < path.length) {
-    if (path[i] === '.') {
-      i++;
-      if (path[i] === '.') {
-        // Recursive descent
-        tokens.push({ type: 'recursive', value: '..' });
-        i++;
-      } else if (path[i] === '*') {
-        // Wildcard
-        tokens.push({ type: 'wildcard', value: '*' });
-        i++;
-      } else {
-        // Property
-        let prop = '';
-        while (i < path.length && path[i] !== '.' && path[i] !== '[') {
-          prop += path[i];
-          i++;
-        }
-        if (prop) {
-          tokens.push({ type: 'property', value: prop });
-        }
-      }
-    } else if (path[i] === '[') {
-      i++;
-      let content = '';
-      let brackets = 1;
-      
-      while (i < path.length && brackets > 0) {
-        if (path[i] === '[') brackets++;
-        else if (path[i] === ']') brackets--;
-        
-        if (brackets > 0) {
-          content += path[i];
-        }
-        i++;
-      }
-      
-      // Determine bracket content type
-      if (content === '*') {
-        tokens.push({ type: 'wildcard', value: '*' });
-      } else if (content.includes('?')) {
-        tokens.push({ type: 'filter', value: content });
-      } else if (content.includes(':')) {
-        tokens.push({ type: 'slice', value: content });
-      } else if (/^\d+$/.test(content)) {
-        tokens.push({ type: 'index', value: content });
-      } else if (content.startsWith("'") || content.startsWith('"')) {
-        // Property with quotes
-        const prop = content.slice(1, -1);
-        tokens.push({ type: 'property', value: prop });
-      }
-    } else {
-      i++;
-    }
-  }
-  
-  return tokens;
-}
-
-// Evaluate JSONPath expression
-function evaluateJsonPath(data: JsonValue, tokens: JsonPathToken[]): Array<{ value: JsonValue; path: string[] }> {
-  const results: Array<{ value: JsonValue; path: string[] }> = [];
-  
-  function traverse(
-    value: JsonValue,
-    remainingTokens: JsonPathToken[],
-    currentPath: string[]
-  ): void {
-    if (remainingTokens.length === 0) {
-      results.push({ value, path: currentPath });
-      return;
-    }
-    
-    const [token, ...rest] = remainingTokens;
-    
-    if (!token) return;
-    
-    switch (token.type) {
-      case 'root':
-        traverse(value, rest, []);
-        break;
-        
-      case 'property':
-        if (value && typeof value === 'object' && !Array.isArray(value)) {
-          const obj = value as Record<string, JsonValue>;
-          if (token.value && token.value in obj) {
-            const val = obj[token.value];
-            if (val !== undefined) {
-              traverse(val, rest, [...currentPath, token.value]);
-            }
-          }
-        }
-        break;
-        
-      case 'index':
-        if (Array.isArray(value)) {
-          const index = parseInt(token.value || '0', 10);
-          if (index >= 0 && index < value.length) {
-            const val = value[index];
-            if (val !== undefined) {
-              traverse(val, rest, [...currentPath, `[${index}]`]);
-            }
-          }
-        }
-        break;
-        
-      case 'wildcard':
-        if (Array.isArray(value)) {
-          value.forEach((item, index) => {
-            traverse(item, rest, [...currentPath, `[${index}]`]);
-          });
-        } else if (value && typeof value === 'object') {
-          const obj = value as Record<string, JsonValue>;
-          Object.entries(obj).forEach(([key, val]) => {
-            traverse(val, rest, [...currentPath, key]);
-          });
-        }
-        break;
-        
-      case 'recursive':
-        // Current level
-        traverse(value, rest, currentPath);
-        
-        // Recursive descent
-        if (Array.isArray(value)) {
-          value.forEach((item, index) => {
-            traverse(item, remainingTokens, [...currentPath, `[${index}]`]);
-          });
-        } else if (value && typeof value === 'object') {
-          const obj = value as Record<string, JsonValue>;
-          Object.entries(obj).forEach(([key, val]) => {
-            traverse(val, remainingTokens, [...currentPath, key]);
-          });
-        }
-        break;
-        
-      case 'filter':
-        // Simple filter implementation (can be expanded)
-        if (Array.isArray(value)) {
-          value.forEach((item, index) => {
-            // Basic @.property comparison
-            const filterMatch = token.value?.match(/@\.(\w+)\s*([=<>!]+)\s*(.+)/);
-            if (filterMatch) {
-              const [, prop, op, expected] = filterMatch;
-              if (item && typeof item === 'object' && prop && prop in item) {
-                const actual = (item as any)[prop];
-                let match = false;
-                
-                switch (op) {
-                  case '==':
-                  case '=':
-                    match = String(actual) === expected?.replace(/['"]/g, '');
-                    break;
-                  case '!=':
-                    match = String(actual) !== expected?.replace(/['"]/g, '');
-                    break;
-                  case '>':
-                    match = Number(actual) > Number(expected);
-                    break;
-                  case '<':
-                    match = Number(actual) < Number(expected);
-                    break;
-                  case '>=':
-                    match = Number(actual) >= Number(expected);
-                    break;
-                  case '<=':
-                    match = Number(actual) <= Number(expected);
-                    break;
-                }
-                
-                if (match) {
-                  traverse(item, rest, [...currentPath, `[${index}]`]);
-                }
-              }
-            }
-          });
-        }
-        break;
-        
-      case 'slice':
-        if (Array.isArray(value)) {
-          const parts = (token.value || '').split(':').map(p => p.trim());
-          const start = parts[0] ? parseInt(parts[0], 10) : 0;
-          const end = parts[1] ? parseInt(parts[1], 10) : value.length;
-          const step = parts[2] ? parseInt(parts[2], 10) : 1;
-          
-          for (let i = start; i < end && i < value.length; i += step) {
-            const val = value[i];
-            if (val !== undefined) {
-              traverse(val, rest, [...currentPath, `[${i}]`]);
-            }
-          }
-        }
-        break;
-    }
-  }
-  
-  traverse(data, tokens, []);
-  return results;
+export interface EnhancedSearchOutput {
+  results: EnhancedSearchResult[];
+  stats: EnhancedSearchStats;
+  /**
+   * In `jmespath` mode, the value the expression evaluated to. Results then
+   * locate its elements (or the value itself) rather than document nodes.
+   */
+  projection?: JsonValue;
 }
 
 // Fuzzy string matching
@@ -292,7 +91,7 @@ function fuzzyMatch(str: string, query: string, threshold: number = 0.6): boolea
 export function enhancedSearchJson(
   data: JsonValue,
   options: EnhancedSearchOptions
-): { results: EnhancedSearchResult[]; stats: EnhancedSearchStats } {
+): EnhancedSearchOutput {
   const startTime = performance.now();
   const results: EnhancedSearchResult[] = [];
   const stats: EnhancedSearchStats = {
@@ -319,42 +118,60 @@ export function enhancedSearchJson(
     limit = 1000,
   } = options;
   
+  let projection: JsonValue | undefined;
+
+  // Record a node selected by a path query; false once the limit is reached
+  function addPathResult(segments: JsonPathSegment[], value: JsonValue): boolean {
+    if (results.length >= limit) {
+      stats.truncated = true;
+      return false;
+    }
+
+    const path = segments.map((segment) => (typeof segment === 'number' ? `[${segment}]` : segment));
+    const result: EnhancedSearchResult = {
+      path: path.join('.'),
+      jsonPath: toNormalizedPath(segments),
+      key: path[path.length - 1] || 'root',
+      value,
+      parentPath: path.slice(0, -1).join('.'),
+      depth: path.length,
+      type: detectJSONType(value),
+      score: 1,
+      matches: {
+        inKey: false,
+        inValue: false,
+        inPath: true,
+      },
+    };
+
+    results.push(result);
+    stats.totalMatches++;
+    stats.matchesByType[result.type] = (stats.matchesByType[result.type] || 0) + 1;
+    stats.matchesByDepth[result.depth] = (stats.matchesByDepth[result.depth] || 0) + 1;
+    stats.maxDepth = Math.max(stats.maxDepth, result.depth);
+    return true;
+  }
+
   // JSONPath mode
   if (mode === 'jsonpath') {
     try {
-      const tokens = tokenizeJsonPath(query);
-      const pathResults = evaluateJsonPath(data, tokens);
-      
-      pathResults.forEach(({ value, path }) => {
-        const result: EnhancedSearchResult = {
-          path: path.join('.'),
-          jsonPath: '$.' + path.join('.'),
-          key: path[path.length - 1] || 'root',
-          value,
-          parentPath: path.slice(0, -1).join('.'),
-          depth: path.length,
-          type: value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value,
-          score: 1,
-          matches: {
-            inKey: false,
-            inValue: false,
-            inPath: true,
-          },
-        };
-        
-        results.push(result);
-        stats.totalMatches++;
-        stats.matchesByType[result.type] = (stats.matchesByType[result.type] || 0) + 1;
-        stats.matchesByDepth[result.depth] = (stats.matchesByDepth[result.depth] || 0) + 1;
-        
-        if (results.length >= limit) {
-          stats.truncated = true;
-          return;
-        }
-      });
+      for (const node of queryJsonPath(data, query)) {
+        if (!addPathResult(node.path, node.value)) break;
+      }
+    } catch (error) {
+      stats.error = error instanceof JsonHeroError && error.details ? error.details : 'Invalid JSONPath expression';
+    }
+  } else if (mode === 'jmespath') {
+    // JMESPath computes a new value, so results point into the projection
+    try {
+      projection = searchJmesPath(data, query);
+      if (Array.isArray(projection)) {
+        projection.every((item, index) => addPathResult([index], item));
+      } else if (projection !== null) {
+        addPathResult([], projection);
+      }
     } catch (error) {
-      // Invalid JSONPath, return empty results
-      console.error('Invalid JSONPath:', error);
+      stats.error = error instanceof JsonHeroError && error.details ? error.details : 'Invalid JMESPath expression';
     }
   } else {
     // Regular search modes
@@ -397,7 +214,7 @@ export function enhancedSearchJson(
       const currentKey = path[path.length - 1] || 'root';
       const jsonPath = '$.' + path.join('.');
       const parentPath = path.slice(0, -1).join('.');
-      const valueType = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+      const valueType = detectJSONType(value);
       
       // Type filter
       if (searchByType) {
@@ -440,13 +257,14 @@ export function enhancedSearchJson(
         }
       }
       
-      // Search in values
-      if (searchInValues && valueType === 'string') {
-        const { match, score } = matchValue(String(value));
+      // Search in values, numbers by their text (so lossless numbers match their exact digits)
+      if (searchInValues && (valueType === 'string' || valueType === 'number')) {
+        const text = isJsonNumber(value) ? formatNumber(value) : String(value);
+        const { match, score } = matchValue(text);
         if (match) {
           matches.inValue = true;
           totalScore += score;
-          matches.matchedText = String(value);
+          matches.matchedText = text;
         }
       }
       
@@ -507,7 +325,7 @@ export function enhancedSearchJson(
   
   stats.searchTime = performance.now() - startTime;
   
-  return { results, stats };
+  return projection === undefined ? { results, stats } : { results, stats, projection };
 }
 
 // Enhanced highlighting with proper escaping
@@ -579,7 +397,7 @@ export function exportSearchResults(
         r.jsonPath,
         r.key,
         r.type,
-        JSON.stringify(r.value),
+        stringifyJSON(r.value, 0),
         r.score.toString(),
       ]);
       return [headers, ...rows].map(row => row.join(',')).join('\n');
@@ -588,6 +406,6 @@ export function exportSearchResults(
       return results.map(r => r.jsonPath).join('\n');
       
     default: // json
-      return JSON.stringify(results, null, 2);
+      return stringifyJSON(results as unknown as JsonValue, 2);
   }
 }
\ No newline at end of file
@@ -1,10 +1,17 @@
 import axios, { AxiosRequestConfig, AxiosError, AxiosResponse } from 'axios';
 import { z } from 'zod';
 
-import { JsonValue } from '../types/json.types';
+import { CsvImportOptions, DocumentFormat, DuplicateKeyPolicy, JsonValue, XmlMapping, YamlAnchor } from '../types/json.types';
 
+import { FILE_LIMITS } from './app-constants';
+import { decodeResponseBody } from './compression';
+import { getCsvDelimiterFromFileName, isCsvContentType, isCsvFileName, parseCSV } from './csv';
+import { JsonHeroError } from './error-handler';
 import { sanitizeJSONData } from './file-processor';
-import { parseJSON } from './json-parser';
+import { parseJSON, parseJSONStrict, ParseOptions } from './json-parser';
+import { RepairedText } from './json-repair';
+import { isXmlContentType, isXmlFileName, parseXML } from './xml';
+import { isYamlContentType, isYamlFileName, parseYAML } from './yaml';
 
 export interface EnhancedURLFetchOptions {
   url: string;
@@ -25,6 +32,14 @@ export interface EnhancedURLFetchOptions {
   customProxyUrl?: string;
   acceptedStatusCodes?: number[];
   responseType?: 'json' | 'text' | 'auto';
+  /** Keep numbers that would lose precision as `LosslessNumber`s */
+  losslessNumbers?: boolean;
+  /** Which value a repeated key keeps */
+  duplicateKeyPolicy?: DuplicateKeyPolicy;
+  /** How elements of an XML response map to JSON */
+  xmlMapping?: Partial<XmlMapping>;
+  /** Delimiter, header and type detection for a CSV response */
+  csvImport?: Partial<CsvImportOptions>;
 }
 
 export interface EnhancedURLFetchResult {
@@ -32,6 +47,14 @@ export interface EnhancedURLFetchResult {
   data?: JsonValue;
   error?: string;
   warnings?: string[];
+  /** Format the response was read as, when it was not plain JSON */
+  format?: DocumentFormat;
+  /** Anchored nodes of a YAML response and where they are reused */
+  anchors?: YamlAnchor[];
+  /** Column names of a CSV response */
+  columns?: string[];
+  /** Set when the response only parsed after auto-recovery; review the repairs before loading */
+  repaired?: RepairedText;
   metadata?: {
     responseTime: number;
     statusCode: number;
@@ -81,6 +104,21 @@ const enhancedUrlFetchSchema = z.object({
   customProxyUrl: z.string().url().optional(),
   acceptedStatusCodes: z.array(z.number()).optional().default([200, 201, 202, 203, 204, 206]),
   responseType: z.enum(['json', 'text', 'auto']).optional().default('auto'),
+  losslessNumbers: z.boolean().optional().default(false),
+  duplicateKeyPolicy: z.enum(['first-wins', 'last-wins', 'keep-all']).optional().default('last-wins'),
+  xmlMapping: z.object({
+    attributePrefix: z.string(),
+    textKey: z.string(),
+    alwaysArray: z.array(z.string()),
+    namespaces: z.enum(['keep', 'strip']),
+  }).partial().optional(),
+  csvImport: z.object({
+    delimiter: z.enum(['auto', ',', '\t', ';', '|']),
+    header: z.enum(['auto', 'yes', 'no']),
+    inferTypes: z.boolean(),
+    inferDates: z.boolean(),
+    unflatten: z.boolean(),
+  }).partial().optional(),
 });
 
 // Enhanced authentication header builder
@@ -244,13 +282,66 @@ async function enhancedFetchWithRetry(
 // Enhanced JSON response parser
 async function parseEnhancedResponse(
   response: AxiosResponse,
-  _responseType: 'json' | 'text' | 'auto'
-): Promise<{ data: JsonValue; warnings: string[] }> {
+  _responseType: 'json' | 'text' | 'auto',
+  parseOptions: ParseOptions & { xmlMapping?: Partial<XmlMapping>; csvImport?: Partial<CsvImportOptions> } = {},
+  url = ''
+): Promise<{
+  data: JsonValue; warnings: string[]; format?: DocumentFormat; anchors?: YamlAnchor[]; columns?: string[]; repaired?: RepairedText;
+}> {
   const warnings: string[] = [];
-  let responseData = response.data;
   
   // Handle different content types
   const contentType = response.headers['content-type'] || '';
+
+  // The body arrives as bytes so compressed responses the browser did not decode can be inflated here
+  let responseData: string;
+  try {
+    const body = await decodeResponseBody(response.data, contentType, response.headers['content-encoding'] || '', FILE_LIMITS.MAX_FILE_SIZE);
+    if (body.decompressed.length > 0) warnings.push(`Decompressed ${body.decompressed.join(' + ')} response body`);
+    responseData = body.text;
+  } catch (error) {
+    throw new Error(`Decompression error: ${error instanceof JsonHeroError && error.details ? error.details : 'invalid compressed response'}`);
+  }
+  
+  // Raw file hosts often serve YAML as text/plain, so the extension counts too
+  if (typeof responseData === 'string' && (isYamlContentType(contentType) || isYamlFileName(url.split(/[?#]/)[0] ?? ''))) {
+    let result: ReturnType<typeof parseYAML>;
+    try {
+      result = parseYAML(responseData, { losslessNumbers: parseOptions.losslessNumbers });
+    } catch (error) {
+      throw new Error(`YAML parse error: ${error instanceof JsonHeroError && error.details ? error.details : 'invalid YAML in response'}`);
+    }
+    const { data, documentCount, anchors, warnings: yamlWarnings } = result;
+    if (documentCount > 1) warnings.push(`Response has ${documentCount} YAML documents, loaded as an array`);
+    warnings.push(...yamlWarnings.map((warning) => `YAML line ${warning.line}: ${warning.message}`));
+    return { data, warnings, format: 'yaml', anchors };
+  }
+
+  if (typeof responseData === 'string' && (isXmlContentType(contentType) || isXmlFileName(url.split(/[?#]/)[0] ?? ''))) {
+    try {
+      const { data } = parseXML(responseData, { mapping: parseOptions.xmlMapping, losslessNumbers: parseOptions.losslessNumbers });
+      return { data, warnings, format: 'xml' };
+    } catch (error) {
+      throw new Error(`XML parse error: ${error instanceof JsonHeroError && error.details ? error.details : 'invalid XML in response'}`);
+    }
+  }
+
+  const path = url.split(/[?#]/)[0] ?? '';
+  if (typeof responseData === 'string' && (isCsvContentType(contentType) || isCsvFileName(path))) {
+    let result: ReturnType<typeof parseCSV>;
+    try {
+      const { csvImport } = parseOptions;
+      result = parseCSV(responseData, {
+        ...csvImport,
+        delimiter: csvImport?.delimiter && csvImport.delimiter !== 'auto' ? csvImport.delimiter : getCsvDelimiterFromFileName(path),
+        losslessNumbers: parseOptions.losslessNumbers,
+      });
+    } catch (error) {
+      throw new Error(`CSV parse error: ${error instanceof JsonHeroError && error.details ? error.details : 'invalid CSV in response'}`);
+    }
+    warnings.push(...result.warnings.map((warning) => `CSV line ${warning.line}: ${warning.message}`));
+    return { data: result.data, warnings, format: 'csv', columns: result.columns };
+  }
   
   if (contentType.includes('application/x-ndjson') || contentType.includes('application/jsonl')) {
     // Handle NDJSON/JSONL
@@ -260,7 +351,7 @@ async function parseEnhancedResponse(
     
     for (const line of lines) {
       try {
-        jsonArray.push(JSON.parse(line));
+        jsonArray.push(parseJSONStrict(line, parseOptions));
       } catch {
         warnings.push(`Failed to parse NDJSON line: ${line.substring(0, 50)}...`);
       }
@@ -269,32 +360,28 @@ async function parseEnhancedResponse(
     return { data: jsonArray, warnings };
   }
   
-  // Handle response based on type
-  if (typeof responseData === 'string') {
-    // Check if it's actually JSON
-    const trimmed = responseData.trim();
-    
-    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
-      // Try to extract JSON from HTML or other formats
-      const jsonMatch = trimmed.match(/(\{[\s\S]*\}|\[[\s\S]*\])/);
-      if (jsonMatch) {
-        warnings.push('Extracted JSON from non-JSON response');
-        responseData = jsonMatch[1];
-      }
-    }
-    
-    const parseResult = parseJSON(responseData);
-    if (!parseResult.isValid) {
-      throw new Error(parseResult.error || 'Invalid JSON in response');
+  // Check if it's actually JSON
+  const trimmed = responseData.trim();
+  
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    // Try to extract JSON from HTML or other formats
+    const jsonMatch = trimmed.match(/(\{[\s\S]*\}|\[[\s\S]*\])/);
+    if (jsonMatch?.[1]) {
+      warnings.push('Extracted JSON from non-JSON response');
+      responseData = jsonMatch[1];
     }
-    
-    return { data: parseResult.data!, warnings };
-  } else if (typeof responseData === 'object') {
-    // Already parsed
-    return { data: responseData, warnings };
-  } else {
-    throw new Error(`Unexpected response type: ${typeof responseData}`);
   }
+  
+  const parseResult = parseJSON(responseData, parseOptions);
+  if (!parseResult.isValid) {
+    throw new Error(parseResult.error || 'Invalid JSON in response');
+  }
+  
+  return {
+    data: parseResult.data!,
+    warnings,
+    ...(parseResult.repairs.length > 0 && { repaired: { original: responseData, repairs: parseResult.repairs } }),
+  };
 }
 
 // Main enhanced fetch function
@@ -310,7 +397,7 @@ export async function enhancedFetchJSON(options: EnhancedURLFetchOptions): Promi
     const headers = buildEnhancedAuthHeaders(validatedOptions);
     
     // Add default headers
-    headers['Accept'] = headers['Accept'] || 'application/json, application/x-ndjson, text/plain, */*';
+    headers['Accept'] = headers['Accept'] || 'application/json, application/x-ndjson, application/yaml, application/xml, text/csv, text/plain, */*';
     headers['User-Agent'] = headers['User-Agent'] || 'JSON-Hero/1.0';
     headers['Cache-Control'] = headers['Cache-Control'] || 'no-cache';
     
@@ -331,7 +418,7 @@ export async function enhancedFetchJSON(options: EnhancedURLFetchOptions): Promi
       validateStatus: (status) => 
         validatedOptions.acceptedStatusCodes?.includes(status) || false,
       maxRedirects: validatedOptions.followRedirects ? 10 : 0,
-      responseType: 'text',
+      responseType: 'arraybuffer',
       httpsAgent: validatedOptions.validateSSL ? undefined : {
         rejectUnauthorized: false,
       },
@@ -398,9 +485,16 @@ export async function enhancedFetchJSON(options: EnhancedURLFetchOptions): Promi
     }
     
     // Parse response
-    const { data: jsonData, warnings: parseWarnings } = await parseEnhancedResponse(
+    const { data: jsonData, warnings: parseWarnings, format, anchors, columns, repaired } = await parseEnhancedResponse(
       response!,
-      validatedOptions.responseType
+      validatedOptions.responseType,
+      {
+        losslessNumbers: validatedOptions.losslessNumbers,
+        duplicateKeyPolicy: validatedOptions.duplicateKeyPolicy,
+        xmlMapping: validatedOptions.xmlMapping,
+        csvImport: validatedOptions.csvImport,
+      },
+      fetchUrl
     );
     warnings.push(...parseWarnings);
     
@@ -424,6 +518,8 @@ export async function enhancedFetchJSON(options: EnhancedURLFetchOptions): Promi
       success: true,
       data: sanitizedData,
       warnings: warnings.length > 0 ? warnings : undefined,
+      ...(format && { format, anchors, columns }),
+      ...(repaired && { repaired }),
       metadata,
     };
   } catch (error) {
@@ -40,6 +40,10 @@ export const ErrorCodes = {
   JSON_TOO_DEEP: 'JSON_TOO_DEEP',
   JSON_CIRCULAR_REFERENCE: 'JSON_CIRCULAR_REFERENCE',
   
+  // Query errors
+  QUERY_SYNTAX_ERROR: 'QUERY_SYNTAX_ERROR',
+  QUERY_EVALUATION_ERROR: 'QUERY_EVALUATION_ERROR',
+  
   // Network errors
   NETWORK_ERROR: 'NETWORK_ERROR',
   CORS_ERROR: 'CORS_ERROR',
@@ -53,6 +57,9 @@ export const ErrorCodes = {
   // Memory errors
   MEMORY_ERROR: 'MEMORY_ERROR',
   
+  // Operation errors
+  OPERATION_CANCELLED: 'OPERATION_CANCELLED',
+  
   // Unknown errors
   UNKNOWN_ERROR: 'UNKNOWN_ERROR',
 } as const;
@@ -66,6 +73,8 @@ const errorMessages: Record<string, string> = {
   [ErrorCodes.JSON_INVALID_STRUCTURE]: 'JSON structure is invalid',
   [ErrorCodes.JSON_TOO_DEEP]: 'JSON nesting depth exceeds the maximum allowed',
   [ErrorCodes.JSON_CIRCULAR_REFERENCE]: 'Circular reference detected in JSON',
+  [ErrorCodes.QUERY_SYNTAX_ERROR]: 'Invalid query syntax',
+  [ErrorCodes.QUERY_EVALUATION_ERROR]: 'Query could not be evaluated',
   [ErrorCodes.NETWORK_ERROR]: 'Network error occurred',
   [ErrorCodes.CORS_ERROR]: 'Cross-origin request blocked',
   [ErrorCodes.TIMEOUT_ERROR]: 'Request timed out',
@@ -73,6 +82,7 @@ const errorMessages: Record<string, string> = {
   [ErrorCodes.EXPORT_FAILED]: 'Export operation failed',
   [ErrorCodes.EXPORT_NOT_SUPPORTED]: 'Export format not supported',
   [ErrorCodes.MEMORY_ERROR]: 'Insufficient memory to process the data',
+  [ErrorCodes.OPERATION_CANCELLED]: 'The operation was cancelled',
   [ErrorCodes.UNKNOWN_ERROR]: 'An unexpected error occurred',
 };
 
@@ -2,11 +2,20 @@ import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 import html2canvas from 'html2canvas';
 
-import { JsonValue } from '../types/json.types';
+import { BinaryFormat, JsonDialect, JsonObject, JsonValue, NodeComments, XmlMapping } from '../types/json.types';
 
+import { BINARY_FORMAT_CONTENT_TYPES, BINARY_FORMAT_EXTENSIONS, encodeBinary } from './binary-formats';
 import { jsonToTableRows } from './data-transformers';
 import { EnhancedSearchResult } from './enhanced-json-search';
+import { JsonHeroError } from './error-handler';
+import { DIALECT_EXTENSIONS, stringifyDialect } from './json-dialects';
 import { stringifyJSON } from './json-parser';
+import { JsonPatchOperation } from './json-patch';
+import { formatNumber, isJsonNumber } from './lossless-number';
+import { stringifyNDJSON } from './ndjson';
+import { PipelineRecipe } from './pipeline';
+import { stringifyXML } from './xml';
+import { stringifyYAML } from './yaml';
 
 declare module 'jspdf' {
   interface jsPDF {
@@ -15,7 +24,7 @@ declare module 'jspdf' {
 }
 
 export interface CompleteExportOptions {
-  format: 'json' | 'csv' | 'png' | 'svg' | 'pdf' | 'xlsx' | 'xml' | 'yaml';
+  format: 'json' | 'csv' | 'png' | 'svg' | 'pdf' | 'xlsx' | 'xml' | 'yaml' | 'json-patch' | 'merge-patch' | 'ndjson' | 'code' | JsonDialect | BinaryFormat;
   fileName?: string;
   prettify?: boolean;
   includeMetadata?: boolean;
@@ -27,6 +36,8 @@ export interface CompleteExportOptions {
   colorScheme?: 'light' | 'dark' | 'auto';
   maxDepth?: number;
   compression?: boolean;
+  /** How attributes, text and arrays are written (XML only) */
+  xmlMapping?: Partial<XmlMapping>;
 }
 
 export interface CompleteExportResult {
@@ -178,7 +189,7 @@ export async function exportCompleteCSV(
     // Filter rows if search results provided
     const exportRows = searchResults
       ? rows.filter(row => 
-          searchResults.some(result => result.jsonPath === `$.${row.path}`)
+          searchResults.some(result => result.path === row.path)
         )
       : rows;
     
@@ -198,7 +209,7 @@ export async function exportCompleteCSV(
           row.path,
           row.key,
           row.type,
-          row.type === 'string' ? String(row.value) : JSON.stringify(row.value),
+          row.type === 'string' ? String(row.value) : stringifyJSON(row.value, 0),
           String(row.depth),
         ].map(cell => {
           const cellStr = String(cell);
@@ -243,6 +254,59 @@ export async function exportCompleteCSV(
   }
 }
 
+// CSV export of a record table, one column per field (SQL query results)
+export async function exportTableCSV(
+  rows: JsonObject[],
+  columns: string[],
+  options: Partial<CompleteExportOptions> = {}
+): Promise<CompleteExportResult> {
+  const startTime = performance.now();
+
+  try {
+    const { fileName = 'data.csv', customCSVDelimiter = ',', includeHeaders = true } = options;
+
+    const escapeCell = (cell: string): string =>
+      /["\r\n]/.test(cell) || cell.includes(customCSVDelimiter) ? `"${cell.replace(/"/g, '""')}"` : cell;
+    const formatCell = (value: JsonValue | undefined): string => {
+      if (value === undefined || value === null) return '';
+      if (typeof value === 'string') return value;
+      if (isJsonNumber(value)) return formatNumber(value);
+      return stringifyJSON(value, 0);
+    };
+
+    const csvRows: string[] = [];
+    if (includeHeaders) {
+      csvRows.push(columns.map(escapeCell).join(customCSVDelimiter));
+    }
+    rows.forEach(row => {
+      csvRows.push(columns.map(column => escapeCell(formatCell(row[column]))).join(customCSVDelimiter)); // eslint-disable-line security/detect-object-injection
+    });
+
+    const blob = new Blob(['\ufeff' + csvRows.join('\n')], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, fileName);
+
+    return {
+      success: true,
+      fileName,
+      size: blob.size,
+      format: 'csv',
+      metadata: {
+        exportDate: new Date().toISOString(),
+        duration: performance.now() - startTime,
+        rowCount: rows.length,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      fileName: options.fileName || 'data.csv',
+      size: 0,
+      format: 'csv',
+      error: error instanceof Error ? error.message : 'Export failed',
+    };
+  }
+}
+
 // Enhanced PNG export with quality options
 export async function exportCompletePNG(
   element: HTMLElement,
@@ -495,7 +559,7 @@ export async function exportCompletePDF(
     const rows = jsonToTableRows(data);
     const tableRows = searchResults
       ? rows.filter(row => 
-          searchResults.some(result => result.jsonPath === `$.${row.path}`)
+          searchResults.some(result => result.path === row.path)
         )
       : rows;
     
@@ -506,7 +570,7 @@ export async function exportCompletePDF(
       row.type,
       row.type === 'string' && String(row.value).length > 50 
         ? String(row.value).substring(0, 47) + '...' 
-        : String(row.value),
+        : isJsonNumber(row.value) ? formatNumber(row.value) : String(row.value),
     ]);
     
     // Check if we need a new page for the table
@@ -587,49 +651,15 @@ export async function exportXML(
       fileName = 'data.xml',
       prettify = true,
       includeMetadata = false,
+      xmlMapping,
     } = options;
     
-    function jsonToXml(obj: any, rootName = 'root', indent = ''): string {
-      const nextIndent = prettify ? indent + '  ' : '';
-      const newline = prettify ? '\n' : '';
-      
-      if (obj === null) return `${indent}<${rootName} xsi:nil="true"/>`;
-      if (typeof obj !== 'object') return `${indent}<${rootName}>${escapeXml(String(obj))}</${rootName}>`;
-      
-      let xml = `${indent}<${rootName}>`;
-      
-      if (Array.isArray(obj)) {
-        obj.forEach((item, _index) => {
-          xml += newline + jsonToXml(item, 'item', nextIndent);
-        });
-      } else {
-        Object.entries(obj).forEach(([key, value]) => {
-          const safeKey = key.replace(/[^a-zA-Z0-9_-]/g, '_');
-          xml += newline + jsonToXml(value, safeKey, nextIndent);
-        });
-      }
-      
-      xml += newline + `${indent}</${rootName}>`;
-      return xml;
-    }
-    
-    function escapeXml(str: string): string {
-      return str
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;')
-        .replace(/'/g, '&apos;');
-    }
-    
-    let xmlContent = '<?xml version="1.0" encoding="UTF-8"?>\n';
-    
-    if (includeMetadata) {
-      xmlContent += '<!-- Generated by JSON Hero -->\n';
-      xmlContent += `<!-- Export Date: ${new Date().toISOString()} -->\n`;
-    }
-    
-    xmlContent += jsonToXml(data, 'data', '');
+    const xml = stringifyXML(data, { mapping: xmlMapping, rootName: 'data', indent: prettify ? 2 : 0 });
+    // Comments go after the declaration, which must come first
+    const declarationEnd = xml.indexOf('\n') + 1;
+    const xmlContent = includeMetadata
+      ? `${xml.slice(0, declarationEnd)}<!-- Generated by JSON Hero -->\n<!-- Export Date: ${new Date().toISOString()} -->\n${xml.slice(declarationEnd)}`
+      : xml;
     
     const blob = new Blob([xmlContent], { type: 'application/xml' });
     downloadBlob(blob, fileName);
@@ -668,46 +698,6 @@ export async function exportYAML(
       includeMetadata = false,
     } = options;
     
-    function jsonToYaml(obj: any, indent = ''): string {
-      if (obj === null) return 'null';
-      if (obj === undefined) return 'null';
-      if (typeof obj === 'boolean') return obj.toString();
-      if (typeof obj === 'number') return obj.toString();
-      if (typeof obj === 'string') {
-        // Check if string needs quotes
-        if (obj.includes(':') || obj.includes('#') || obj.includes('\n') || 
-            obj.startsWith(' ') || obj.endsWith(' ')) {
-          return `"${obj.replace(/"/g, '\\"')}"`;
-        }
-        return obj;
-      }
-      
-      if (Array.isArray(obj)) {
-        if (obj.length === 0) return '[]';
-        return obj.map((item) => {
-          const itemYaml = jsonToYaml(item, indent + '  ');
-          return `${indent}- ${itemYaml.startsWith('\n') ? itemYaml.substring(1) : itemYaml}`;
-        }).join('\n');
-      }
-      
-      if (typeof obj === 'object') {
-        const entries = Object.entries(obj);
-        if (entries.length === 0) return '{}';
-        
-        return entries.map(([key, value]) => {
-          const safeKey = key.includes(':') || key.includes(' ') ? `"${key}"` : key;
-          const valueYaml = jsonToYaml(value, indent + '  ');
-          
-          if (typeof value === 'object' && value !== null) {
-            return `${indent}${safeKey}:\n${valueYaml}`;
-          }
-          return `${indent}${safeKey}: ${valueYaml}`;
-        }).join('\n');
-      }
-      
-      return String(obj);
-    }
-    
     let yamlContent = '';
     
     if (includeMetadata) {
@@ -716,7 +706,7 @@ export async function exportYAML(
       yamlContent += '---\n';
     }
     
-    yamlContent += jsonToYaml(data);
+    yamlContent += stringifyYAML(data);
     
     const blob = new Blob([yamlContent], { type: 'text/yaml' });
     downloadBlob(blob, fileName);
@@ -740,4 +730,241 @@ export async function exportYAML(
       error: error instanceof Error ? error.message : 'Export failed',
     };
   }
-}
\ No newline at end of file
+}
+
+// Patch export shared by JSON Patch and Merge Patch
+async function exportPatchDocument(
+  patch: JsonValue,
+  format: 'json-patch' | 'merge-patch',
+  mimeType: string,
+  options: Partial<CompleteExportOptions>
+): Promise<CompleteExportResult> {
+  const startTime = performance.now();
+  const defaultFileName = format === 'json-patch' ? 'patch.json-patch.json' : 'patch.merge-patch.json';
+
+  try {
+    const {
+      fileName = defaultFileName,
+      prettify = true,
+    } = options;
+
+    const blob = new Blob([stringifyJSON(patch, prettify ? 2 : 0)], { type: mimeType });
+    downloadBlob(blob, fileName);
+
+    return {
+      success: true,
+      fileName,
+      size: blob.size,
+      format,
+      metadata: {
+        exportDate: new Date().toISOString(),
+        duration: performance.now() - startTime,
+        rowCount: Array.isArray(patch) ? patch.length : undefined,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      fileName: options.fileName || defaultFileName,
+      size: 0,
+      format,
+      error: error instanceof Error ? error.message : 'Export failed',
+    };
+  }
+}
+
+// RFC 6902 JSON Patch export
+export async function exportJsonPatch(
+  patch: JsonPatchOperation[],
+  options: Partial<CompleteExportOptions> = {}
+): Promise<CompleteExportResult> {
+  return exportPatchDocument(patch as unknown as JsonValue, 'json-patch', 'application/json-patch+json', options);
+}
+
+// RFC 7386 JSON Merge Patch export
+export async function exportMergePatch(
+  patch: JsonValue,
+  options: Partial<CompleteExportOptions> = {}
+): Promise<CompleteExportResult> {
+  return exportPatchDocument(patch, 'merge-patch', 'application/merge-patch+json', options);
+}
+
+// Pipeline recipe export, for replaying the same cleanup on another file
+export async function exportPipelineRecipe(
+  recipe: PipelineRecipe,
+  options: Partial<CompleteExportOptions> = {}
+): Promise<CompleteExportResult> {
+  const startTime = performance.now();
+  const defaultFileName = 'recipe.pipeline.json';
+
+  try {
+    const { fileName = defaultFileName } = options;
+
+    const blob = new Blob([stringifyJSON(recipe as unknown as JsonValue)], { type: 'application/json' });
+    downloadBlob(blob, fileName);
+
+    return {
+      success: true,
+      fileName,
+      size: blob.size,
+      format: 'pipeline',
+      metadata: {
+        exportDate: new Date().toISOString(),
+        duration: performance.now() - startTime,
+        rowCount: recipe.steps.length,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      fileName: options.fileName || defaultFileName,
+      size: 0,
+      format: 'pipeline',
+      error: error instanceof Error ? error.message : 'Export failed',
+    };
+  }
+}
+
+// NDJSON / JSON Lines export (one record per line)
+export async function exportNDJSON(
+  data: JsonValue,
+  options: Partial<CompleteExportOptions> = {}
+): Promise<CompleteExportResult> {
+  const startTime = performance.now();
+  
+  try {
+    const { fileName = 'data.ndjson' } = options;
+    
+    const blob = new Blob([stringifyNDJSON(data)], { type: 'application/x-ndjson' });
+    downloadBlob(blob, fileName);
+    
+    return {
+      success: true,
+      fileName,
+      size: blob.size,
+      format: 'ndjson',
+      metadata: {
+        exportDate: new Date().toISOString(),
+        duration: performance.now() - startTime,
+        rowCount: Array.isArray(data) ? data.length : 1,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      fileName: options.fileName || 'data.ndjson',
+      size: 0,
+      format: 'ndjson',
+      error: error instanceof Error ? error.message : 'Export failed',
+    };
+  }
+}
+
+// JSONC / JSON5 / HJSON export, with the document's comments written back
+export async function exportDialect(
+  data: JsonValue,
+  dialect: JsonDialect,
+  comments: NodeComments[] = [],
+  options: Partial<CompleteExportOptions> = {}
+): Promise<CompleteExportResult> {
+  const startTime = performance.now();
+  const defaultFileName = `data.${DIALECT_EXTENSIONS[dialect]}`; // eslint-disable-line security/detect-object-injection
+
+  try {
+    const { fileName = defaultFileName } = options;
+
+    const blob = new Blob([stringifyDialect(data, dialect, comments)], { type: 'text/plain' });
+    downloadBlob(blob, fileName);
+
+    return {
+      success: true,
+      fileName,
+      size: blob.size,
+      format: dialect,
+      metadata: {
+        exportDate: new Date().toISOString(),
+        duration: performance.now() - startTime,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      fileName: options.fileName || defaultFileName,
+      size: 0,
+      format: dialect,
+      error: error instanceof Error ? error.message : 'Export failed',
+    };
+  }
+}
+
+// MessagePack / CBOR / BSON export; Extended JSON wrappers become native types
+export async function exportBinary(
+  data: JsonValue,
+  format: BinaryFormat,
+  options: Partial<CompleteExportOptions> = {}
+): Promise<CompleteExportResult> {
+  const startTime = performance.now();
+  const defaultFileName = `data.${BINARY_FORMAT_EXTENSIONS[format]}`; // eslint-disable-line security/detect-object-injection
+
+  try {
+    const { fileName = defaultFileName } = options;
+
+    const blob = new Blob([encodeBinary(data, format)], { type: BINARY_FORMAT_CONTENT_TYPES[format] }); // eslint-disable-line security/detect-object-injection
+    downloadBlob(blob, fileName);
+
+    return {
+      success: true,
+      fileName,
+      size: blob.size,
+      format,
+      metadata: {
+        exportDate: new Date().toISOString(),
+        duration: performance.now() - startTime,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      fileName: options.fileName || defaultFileName,
+      size: 0,
+      format,
+      error: error instanceof JsonHeroError && error.details
+        ? error.details
+        : error instanceof Error ? error.message : 'Export failed',
+    };
+  }
+}
+
+// Generated type definitions (TypeScript, Zod, Go, Python, JSON Schema)
+export async function exportGeneratedCode(
+  code: string,
+  options: Partial<CompleteExportOptions> = {}
+): Promise<CompleteExportResult> {
+  const startTime = performance.now();
+  
+  try {
+    const { fileName = 'types.ts' } = options;
+    
+    const blob = new Blob([code], { type: 'text/plain' });
+    downloadBlob(blob, fileName);
+    
+    return {
+      success: true,
+      fileName,
+      size: blob.size,
+      format: 'code',
+      metadata: {
+        exportDate: new Date().toISOString(),
+        duration: performance.now() - startTime,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      fileName: options.fileName || 'types.ts',
+      size: 0,
+      format: 'code',
+      error: error instanceof Error ? error.message : 'Export failed',
+    };
+  }
+}
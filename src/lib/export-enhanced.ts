@@ -2,11 +2,14 @@ import jsPDF from 'jspdf';
 import 'jspdf-autotable';
 import html2canvas from 'html2canvas';
 
-import { JsonValue } from '../types/json.types';
+import { JsonValue, XmlMapping } from '../types/json.types';
 
 import { jsonToTableRows } from './data-transformers';
 import { stringifyJSON } from './json-parser';
 import { SearchResult } from './json-search';
+import { formatNumber, isJsonNumber } from './lossless-number';
+import { stringifyXML } from './xml';
+import { stringifyYAML } from './yaml';
 
 declare module 'jspdf' {
   interface jsPDF {
@@ -23,6 +26,8 @@ export interface ExportOptions {
   searchResults?: SearchResult[];
   customCSVDelimiter?: string;
   pdfOrientation?: 'portrait' | 'landscape';
+  /** How attributes, text and arrays are written (XML only) */
+  xmlMapping?: Partial<XmlMapping>;
 }
 
 export interface ExportResult {
@@ -105,7 +110,7 @@ export async function exportCSV(
       ...exportRows.map(row => [
         escapeCSVValue(row.path),
         escapeCSVValue(row.key),
-        escapeCSVValue(String(row.value)),
+        escapeCSVValue(row.type === 'string' ? String(row.value) : stringifyJSON(row.value, 0)),
         row.type,
         row.depth,
       ].join(customCSVDelimiter))
@@ -296,7 +301,9 @@ export async function exportPDF(
     const tableData = rows.map(row => [
       row.path,
       row.key,
-      String(row.value).substring(0, 50) + (String(row.value).length > 50 ? '...' : ''),
+      isJsonNumber(row.value)
+        ? formatNumber(row.value)
+        : String(row.value).substring(0, 50) + (String(row.value).length > 50 ? '...' : ''),
       row.type,
     ]);
     
@@ -393,40 +400,9 @@ export async function exportXML(
   options: Partial<ExportOptions> = {}
 ): Promise<ExportResult> {
   try {
-    const { fileName = 'data.xml' } = options;
-    
-    function jsonToXml(obj: any, rootName = 'root'): string {
-      function escape(str: string): string {
-        return str
-          .replace(/&/g, '&amp;')
-          .replace(/</g, '&lt;')
-          .replace(/>/g, '&gt;')
-          .replace(/"/g, '&quot;')
-          .replace(/'/g, '&#39;');
-      }
-      
-      function convertValue(value: any, key: string): string {
-        if (value === null) return `<${key} xsi:nil="true" />`;
-        if (typeof value === 'string') return `<${key}>${escape(value)}</${key}>`;
-        if (typeof value === 'number' || typeof value === 'boolean') {
-          return `<${key}>${String(value)}</${key}>`;
-        }
-        if (Array.isArray(value)) {
-          return value.map(item => convertValue(item, 'item')).join('');
-        }
-        if (typeof value === 'object') {
-          const entries = Object.entries(value)
-            .map(([k, v]) => convertValue(v, k))
-            .join('');
-          return `<${key}>${entries}</${key}>`;
-        }
-        return `<${key}>${escape(String(value))}</${key}>`;
-      }
-      
-      return `<?xml version="1.0" encoding="UTF-8"?>\n${convertValue(obj, rootName)}`;
-    }
+    const { fileName = 'data.xml', xmlMapping } = options;
     
-    const xmlContent = jsonToXml(data);
+    const xmlContent = stringifyXML(data, { mapping: xmlMapping });
     const blob = new Blob([xmlContent], { type: 'application/xml' });
     downloadBlob(blob, fileName);
     
@@ -452,41 +428,7 @@ export async function exportYAML(
 ): Promise<ExportResult> {
   try {
     const { fileName = 'data.yaml' } = options;
-    
-    function jsonToYaml(obj: any, indent = 0): string {
-      const spaces = '  '.repeat(indent);
-      
-      if (obj === null) return 'null';
-      if (typeof obj === 'string') {
-        // Escape quotes and handle multiline
-        if (obj.includes('\n') || obj.includes('"') || obj.includes("'")) {
-          return `|\n${spaces}  ${obj.split('\n').join(`\n${spaces}  `)}`;
-        }
-        return `"${obj.replace(/"/g, '\\"')}"`;
-      }
-      if (typeof obj === 'number' || typeof obj === 'boolean') {
-        return String(obj);
-      }
-      if (Array.isArray(obj)) {
-        if (obj.length === 0) return '[]';
-        return obj.map(item => `${spaces}- ${jsonToYaml(item, indent + 1)}`).join('\n');
-      }
-      if (typeof obj === 'object') {
-        if (Object.keys(obj).length === 0) return '{}';
-        return Object.entries(obj)
-          .map(([key, value]) => {
-            const yamlValue = jsonToYaml(value, indent + 1);
-            if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-              return `${spaces}${key}:\n${yamlValue}`;
-            }
-            return `${spaces}${key}: ${yamlValue}`;
-          })
-          .join('\n');
-      }
-      return String(obj);
-    }
-    
-    const yamlContent = jsonToYaml(data);
+    const yamlContent = stringifyYAML(data);
     const blob = new Blob([yamlContent], { type: 'application/x-yaml' });
     downloadBlob(blob, fileName);
     
@@ -1,6 +1,11 @@
-import { JsonValue } from '../types/json.types';
+import { BinaryFormat, DocumentFormat, JsonValue } from '../types/json.types';
 
+import { decodeBinary, getBinaryFormatFromFileName } from './binary-formats';
+import { JsonHeroError } from './error-handler';
 import { parseJSON } from './json-parser';
+import { RepairLog } from './json-repair';
+import { isLosslessNumber } from './lossless-number';
+import { isNDJSONFileName, NdjsonLineError, parseNDJSON } from './ndjson';
 
 export interface FileProcessingOptions {
   maxSize?: number;
@@ -14,6 +19,8 @@ export interface FileProcessingResult {
   data?: JsonValue;
   error?: string;
   warnings?: string[];
+  /** Lines that failed to parse in an NDJSON / JSON Lines file */
+  lineErrors?: NdjsonLineError[];
   metadata?: {
     originalSize: number;
     processedSize: number;
@@ -22,6 +29,8 @@ export interface FileProcessingResult {
     lineCount: number;
     hasComments: boolean;
     hasBOM: boolean;
+    format?: DocumentFormat;
+    recordCount?: number;
   };
 }
 
@@ -32,12 +41,32 @@ const DEFAULT_OPTIONS: FileProcessingOptions = {
   sanitizeData: true,
 };
 
+type Replacer = (match: string, ...groups: string[]) => string;
+
+// Every rewrite goes through here so it can be reported when a log is passed
+function rewrite(text: string, pattern: RegExp, replacer: Replacer, rule: string, log?: RepairLog): string {
+  return log ? log.replace(text, pattern, replacer, rule) : text.replace(pattern, replacer);
+}
+
+// Map the control characters JSON allows escaped to their escape, drop the rest
+function escapeControlCharacter(char: string): string {
+  switch (char.charCodeAt(0)) {
+    case 9: return '\\t';   // tab
+    case 10: return '\\n';  // newline
+    case 13: return '\\r';  // carriage return
+    case 8: return '\\b';   // backspace
+    case 12: return '\\f';  // form feed
+    default: return '';     // remove everything else
+  }
+}
+
 // Fix malformed JSON strings with nested JSON - ULTRA AGGRESSIVE
-export function fixNestedJsonStrings(content: string): string {
+export function fixNestedJsonStrings(content: string, log?: RepairLog): string {
   let fixed = content;
-  
+
   // Pattern 1: Fix specific pattern: "config": "{\"key\":\"value\"}"
-  fixed = fixed.replace(
+  fixed = rewrite(
+    fixed,
     /"([^"]*)":\s*"(\{[^}]*\})"/g,
     (_match, key, jsonValue) => {
       try {
@@ -45,10 +74,10 @@ export function fixNestedJsonStrings(content: string): string {
         const unescapedJson = jsonValue
           .replace(/\\"/g, '"')
           .replace(/\\\\/g, '\\');
-        
+
         // If it's valid JSON, properly escape it
         JSON.parse(unescapedJson);
-        
+
         // Re-escape for JSON string
         const properlyEscaped = JSON.stringify(unescapedJson);
         return `"${key}": ${properlyEscaped}`;
@@ -59,171 +88,179 @@ export function fixNestedJsonStrings(content: string): string {
           .replace(/"/g, '\\"');
         return `"${key}": "${escaped}"`;
       }
-    }
+    },
+    'nested-json-string',
+    log
   );
-  
+
   // Pattern 2: Fix unescaped quotes in any string value
-  fixed = fixed.replace(
+  fixed = rewrite(
+    fixed,
     /"([^"]*)":\s*"([^"]*"[^"]*[^"]*[^"]*)"(?=\s*[,}\]])/g,
     (_match, key, value) => {
       // This string contains unescaped quotes
       const escaped = value.replace(/"/g, '\\"');
       return `"${key}": "${escaped}"`;
-    }
+    },
+    'unescaped-quote',
+    log
   );
-  
+
   // Pattern 3: Fix control characters in string literals
-  fixed = fixed.replace(
+  fixed = rewrite(
+    fixed,
     /"([^"]*[\x00-\x1F][^"]*)"/g,
     (_match, content) => {
-      const cleaned = content
-        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, (char: string) => {
-          switch (char.charCodeAt(0)) {
-            case 9: return '\\t';   // tab
-            case 10: return '\\n';  // newline
-            case 13: return '\\r';  // carriage return
-            case 8: return '\\b';   // backspace
-            case 12: return '\\f';  // form feed
-            default: return '';     // remove everything else
-          }
-        });
+      const cleaned = content.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, escapeControlCharacter);
       return `"${cleaned}"`;
-    }
+    },
+    'string-control-character',
+    log
   );
-  
+
   return fixed;
 }
 
 // Emergency JSON recovery - last resort
-export function emergencyJsonRecovery(content: string): string {
+export function emergencyJsonRecovery(content: string, log?: RepairLog): string {
   let recovered = content;
-  
+
   // Step 1: Fix obvious quote escaping issues
-  recovered = recovered.replace(/([^\\])"/g, '$1\\"');
-  recovered = recovered.replace(/^"/, '\\"'); // Handle start of string
-  
+  recovered = rewrite(recovered, /([^\\])"/g, (_match, before) => `${before}\\"`, 'escape-quote', log);
+  recovered = rewrite(recovered, /^"/, () => '\\"', 'escape-quote', log); // Handle start of string
+
   // Step 2: Fix line breaks in strings
-  recovered = recovered.replace(/\n/g, '\\n');
-  recovered = recovered.replace(/\r/g, '\\r');
-  recovered = recovered.replace(/\t/g, '\\t');
-  
+  recovered = rewrite(recovered, /[\n\r\t]/g, escapeControlCharacter, 'escape-whitespace', log);
+
   // Step 3: Remove completely invalid characters
-  recovered = recovered.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
-  
+  recovered = rewrite(recovered, /[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, () => '', 'remove-control-character', log);
+
   // Step 4: Fix trailing commas
-  recovered = recovered.replace(/,(\s*[}\]])/g, '$1');
-  
+  recovered = rewrite(recovered, /,(\s*[}\]])/g, (_match, closing) => closing, 'trailing-comma', log);
+
   // Step 5: Try to fix broken string endings
-  recovered = recovered.replace(/([^\\])"(\s*[,}\]])/g, '$1\\"$2');
-  
+  recovered = rewrite(
+    recovered,
+    /([^\\])"(\s*[,}\]])/g,
+    (_match, before, closing) => `${before}\\"${closing}`,
+    'string-ending',
+    log
+  );
+
   return recovered;
 }
 
 // Clean control characters from JSON content - MEGA AGGRESSIVE VERSION
-export function cleanControlCharacters(content: string): string {
+export function cleanControlCharacters(content: string, log?: RepairLog): string {
   // First pass: Remove all problematic control characters completely
-  let cleaned = content
-    // Remove all control characters except space, tab, newline, carriage return
-    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '')
-    // Replace tabs with spaces outside of strings
-    .replace(/\t/g, ' ')
-    // Normalize line endings
-    .replace(/\r\n/g, '\n')
-    .replace(/\r/g, '\n');
+  // (everything except space, tab, newline, carriage return)
+  let cleaned = rewrite(content, /[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, () => '', 'remove-control-character', log);
+  // Replace tabs with spaces outside of strings
+  cleaned = rewrite(cleaned, /\t/g, () => ' ', 'tab-to-space', log);
+  // Normalize line endings
+  cleaned = rewrite(cleaned, /\r\n?/g, () => '\n', 'line-ending', log);
 
   // Second pass: Fix nested JSON strings (JSON inside JSON)
   // This handles cases like: "config": "{\"key\":\"value\"}"
-  cleaned = cleaned.replace(/"([^"]*\{[^"]*\}[^"]*)"/g, (_match, jsonContent) => {
-    try {
-      // Try to fix common JSON escaping issues
-      const fixedContent = jsonContent
-        // Fix unescaped quotes in nested JSON
-        .replace(/(?<!\\)"/g, '\\"')
-        // Fix already escaped quotes that got double-escaped
-        .replace(/\\\\"/g, '\\"');
-      
-      return `"${fixedContent}"`;
-    } catch (e) {
-      // If parsing fails, return original but with basic escaping
-      return `"${jsonContent.replace(/"/g, '\\"')}"`;
-    }
-  });
+  cleaned = rewrite(
+    cleaned,
+    /"([^"]*\{[^"]*\}[^"]*)"/g,
+    (_match, jsonContent) => {
+      try {
+        // Try to fix common JSON escaping issues
+        const fixedContent = jsonContent
+          // Fix unescaped quotes in nested JSON
+          .replace(/(?<!\\)"/g, '\\"')
+          // Fix already escaped quotes that got double-escaped
+          .replace(/\\\\"/g, '\\"');
+
+        return `"${fixedContent}"`;
+      } catch (e) {
+        // If parsing fails, return original but with basic escaping
+        return `"${jsonContent.replace(/"/g, '\\"')}"`;
+      }
+    },
+    'nested-json-string',
+    log
+  );
 
   // Third pass: Fix control characters inside JSON strings
-  cleaned = cleaned.replace(/"([^"\\]*(\\.[^"\\]*)*)"/g, (_match, content) => {
-    // Don't re-process already fixed nested JSON
-    if (content.includes('{\\"') || content.includes('\\"}')) {
-      return _match;
-    }
-    
-    // Escape any remaining control characters inside strings
-    const escapedContent = content
-      .replace(/\n/g, '\\n')   // Escape newlines
-      .replace(/\r/g, '\\r')   // Escape carriage returns
-      .replace(/\t/g, '\\t')   // Escape tabs
-      .replace(/\x08/g, '\\b') // Escape backspace (use \x08, NOT \b which is word boundary)
-      .replace(/\f/g, '\\f')   // Escape form feed
-      // Remove any other remaining control characters
-      .replace(/[\x00-\x1F\x7F]/g, '');
-    
-    return `"${escapedContent}"`;
-  });
+  cleaned = rewrite(
+    cleaned,
+    /"([^"\\]*(\\.[^"\\]*)*)"/g,
+    (_match, content) => {
+      // Don't re-process already fixed nested JSON
+      if (content.includes('{\\"') || content.includes('\\"}')) {
+        return _match;
+      }
+
+      // Escape any remaining control characters inside strings
+      const escapedContent = content
+        .replace(/\n/g, '\\n')   // Escape newlines
+        .replace(/\r/g, '\\r')   // Escape carriage returns
+        .replace(/\t/g, '\\t')   // Escape tabs
+        .replace(/\x08/g, '\\b') // Escape backspace (use \x08, NOT \b which is word boundary)
+        .replace(/\f/g, '\\f')   // Escape form feed
+        // Remove any other remaining control characters
+        .replace(/[\x00-\x1F\x7F]/g, '');
+
+      return `"${escapedContent}"`;
+    },
+    'string-control-character',
+    log
+  );
 
   return cleaned;
 }
 
 // Detect and handle different JSON variants - SUPER AGGRESSIVE
-export function preprocessJSON(content: string): string {
+export function preprocessJSON(content: string, log?: RepairLog): string {
   let processed = content;
-  
+
   // Remove BOM if present
-  if (processed.charCodeAt(0) === 0xfeff) {
-    processed = processed.slice(1);
-  }
-  
+  processed = rewrite(processed, /^\uFEFF/, () => '', 'byte-order-mark', log);
+
   // FIRST: Fix nested JSON strings (most important for your case!)
-  processed = fixNestedJsonStrings(processed);
-  
+  processed = fixNestedJsonStrings(processed, log);
+
   // SECOND: Remove ALL invisible and control characters BRUTALLY
-  processed = processed
-    // Remove all control characters that are not whitespace
-    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F-\x9F]/g, '')
-    // Remove zero-width characters
-    .replace(/[\u200B-\u200D\uFEFF]/g, '')
-    // Remove other problematic Unicode characters
-    .replace(/[\u2028\u2029]/g, '');
+  // (control characters that are not whitespace, zero-width characters and
+  // other problematic Unicode characters)
+  processed = rewrite(
+    processed,
+    /[\x00-\x08\x0B\x0C\x0E-\x1F\x7F-\x9F\u200B-\u200D\uFEFF\u2028\u2029]/g,
+    () => '',
+    'invisible-character',
+    log
+  );
 
   // THIRD: Handle JSON5 style comments
-  processed = processed.replace(/\/\/[^\n]*$/gm, '');
-  processed = processed.replace(/\/\*[\s\S]*?\*\//g, '');
-  
+  processed = rewrite(processed, /\/\/[^\n]*$/gm, () => '', 'comment', log);
+  processed = rewrite(processed, /\/\*[\s\S]*?\*\//g, () => '', 'comment', log);
+
   // FOURTH: Handle trailing commas
-  processed = processed.replace(/,(\s*[}\]])/g, '$1');
-  
+  processed = rewrite(processed, /,(\s*[}\]])/g, (_match, closing) => closing, 'trailing-comma', log);
+
   // FIFTH: Clean control characters with the aggressive function
-  processed = cleanControlCharacters(processed);
-  
+  processed = cleanControlCharacters(processed, log);
+
   // SIXTH: Fix common JSON issues
   // Fix unescaped control characters in strings more aggressively
-  processed = processed.replace(/(")((?:[^"\\]|\\.)*)(")/g, (_match, quote1, content, quote2) => {
-    // Ultra-aggressive string cleaning
-    const ultraClean = content
-      .replace(/[\x00-\x1F\x7F]/g, (char: string) => {
-        switch (char.charCodeAt(0)) {
-          case 9: return '\\t';   // tab
-          case 10: return '\\n';  // newline
-          case 13: return '\\r';  // carriage return
-          case 8: return '\\b';   // backspace
-          case 12: return '\\f';  // form feed
-          default: return '';     // remove everything else
-        }
-      });
-    return quote1 + ultraClean + quote2;
-  });
-  
+  processed = rewrite(
+    processed,
+    /(")((?:[^"\\]|\\.)*)(")/g,
+    (_match, quote1, content, quote2) => {
+      // Ultra-aggressive string cleaning
+      const ultraClean = content.replace(/[\x00-\x1F\x7F]/g, escapeControlCharacter);
+      return quote1 + ultraClean + quote2;
+    },
+    'string-control-character',
+    log
+  );
+
   // Trim whitespace
-  processed = processed.trim();
-  
+  processed = rewrite(processed, /^\s+|\s+$/g, () => '', 'trim', log);
+
   return processed;
 }
 
@@ -269,30 +306,20 @@ export function validateJSONStructure(data: unknown, maxDepth = 100): { valid: b
 }
 
 // BRUTAL PRE-PARSE SANITIZER
-export function brutalSanitize(content: string): string {
-  // Step 1: Convert to array of chars and filter
-  const chars = content.split('');
-  const sanitized = chars.map((char) => {
-    const code = char.charCodeAt(0);
-    
-    // Keep normal printable ASCII and common unicode
-    if (code >= 32 && code <= 126) return char; // Normal ASCII
-    if (code === 9 || code === 10 || code === 13) return char; // Tab, LF, CR
-    if (code >= 128 && code <= 65535) return char; // Extended unicode
-    
-    // Replace all other control characters with space
-    return ' ';
-  }).join('');
-  
+export function brutalSanitize(content: string, log?: RepairLog): string {
+  // Step 1: Keep printable ASCII, tab, LF, CR and extended unicode; replace
+  // all other control characters with a space
+  const sanitized = rewrite(content, /[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, () => ' ', 'control-character-to-space', log);
+
   // Step 2: Fix broken JSON patterns
-  return sanitized
-    // Fix tabs in strings
-    .replace(/"([^"]*)\t([^"]*)"/g, '"$1\\t$2"')
-    // Fix newlines in strings
-    .replace(/"([^"]*)\n([^"]*)"/g, '"$1\\n$2"')
-    .replace(/"([^"]*)\r([^"]*)"/g, '"$1\\r$2"')
-    // Remove any remaining control chars
-    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+  let fixed = sanitized;
+  // Fix tabs in strings
+  fixed = rewrite(fixed, /"([^"]*)\t([^"]*)"/g, (_match, before, after) => `"${before}\\t${after}"`, 'string-tab', log);
+  // Fix newlines in strings
+  fixed = rewrite(fixed, /"([^"]*)\n([^"]*)"/g, (_match, before, after) => `"${before}\\n${after}"`, 'string-newline', log);
+  fixed = rewrite(fixed, /"([^"]*)\r([^"]*)"/g, (_match, before, after) => `"${before}\\r${after}"`, 'string-newline', log);
+  // Remove any remaining control chars
+  return rewrite(fixed, /[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, () => '', 'remove-control-character', log);
 }
 
 // Process file with comprehensive error handling
@@ -313,6 +340,12 @@ export async function processJSONFile(
       };
     }
     
+    // Binary formats are decoded from the bytes; the text steps below do not apply
+    const binaryFormat = getBinaryFormatFromFileName(file.name);
+    if (binaryFormat) {
+      return processBinaryFile(file, binaryFormat, startTime);
+    }
+    
     // Detect encoding
     const encoding = await detectFileEncoding(file);
     if (encoding !== 'utf-8' && encoding !== 'ascii') {
@@ -330,6 +363,11 @@ export async function processJSONFile(
       };
     }
     
+    // NDJSON is parsed line by line; the sanitizers below would merge records
+    if (isNDJSONFileName(file.name)) {
+      return processNDJSONContent(content, file, encoding, startTime, warnings);
+    }
+    
     // BRUTAL SANITIZE FIRST!
     content = brutalSanitize(content);
     warnings.push('Applied brutal sanitization to handle control characters');
@@ -397,6 +435,79 @@ export async function processJSONFile(
   }
 }
 
+// Parse NDJSON / JSON Lines content into an array of records
+function processNDJSONContent(
+  content: string,
+  file: File,
+  encoding: string,
+  startTime: number,
+  warnings: string[]
+): FileProcessingResult {
+  const { records, errors, lineCount } = parseNDJSON(content);
+  
+  if (records.length === 0) {
+    return {
+      success: false,
+      error: errors.length > 0
+        ? `No valid records found (line ${errors[0]?.line}: ${errors[0]?.message})`
+        : 'File contains no records',
+      warnings,
+      lineErrors: errors,
+    };
+  }
+  
+  errors.forEach((lineError) => {
+    warnings.push(`Skipped invalid record on line ${lineError.line}: ${lineError.message}`);
+  });
+  
+  return {
+    success: true,
+    data: records,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    lineErrors: errors,
+    metadata: {
+      originalSize: file.size,
+      processedSize: content.length,
+      processingTime: performance.now() - startTime,
+      encoding,
+      lineCount,
+      hasComments: false,
+      hasBOM: content.charCodeAt(0) === 0xfeff,
+      format: 'ndjson',
+      recordCount: records.length,
+    },
+  };
+}
+
+// Decode a MessagePack, CBOR or BSON file
+async function processBinaryFile(file: File, format: BinaryFormat, startTime: number): Promise<FileProcessingResult> {
+  let data: JsonValue;
+  try {
+    data = decodeBinary(new Uint8Array(await file.arrayBuffer()), format);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof JsonHeroError && error.details ? error.details : `Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+  
+  return {
+    success: true,
+    data,
+    metadata: {
+      originalSize: file.size,
+      processedSize: file.size,
+      processingTime: performance.now() - startTime,
+      encoding: 'binary',
+      lineCount: 0,
+      hasComments: false,
+      hasBOM: false,
+      format,
+      recordCount: Array.isArray(data) ? data.length : 1,
+    },
+  };
+}
+
 // Detect file encoding
 async function detectFileEncoding(file: File): Promise<string> {
   const slice = file.slice(0, 4);
@@ -509,7 +620,7 @@ async function readFileWithEncoding(file: File, encoding: string): Promise<strin
 
 // Sanitize JSON data for security
 export function sanitizeJSONData(data: JsonValue): JsonValue {
-  if (data === null || typeof data !== 'object') {
+  if (data === null || typeof data !== 'object' || isLosslessNumber(data)) {
     return data;
   }
   
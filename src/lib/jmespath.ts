@@ -0,0 +1,766 @@
+import { JsonObject, JsonValue } from '../types/json.types';
+
+import { createError, ErrorCodes } from './error-handler';
+import { jsonEquals } from './json-diff';
+import { parseJSONStrict, stringifyJSON } from './json-parser';
+import { isJsonNumber, isLosslessNumber, setMember, toNumber } from './lossless-number';
+import { compareCodePoints } from './utils';
+
+/**
+ * JMESPath, as used by the AWS CLI's `--query`: sub-expressions, indexes and
+ * slices; list, object, flatten and filter projections; multiselect lists and
+ * hashes; pipes; `||`, `&&`, `!` and comparisons; literals and the standard
+ * function library. Expressions are parsed and their function calls checked
+ * up front, so syntax errors are reported with the offset where they occur.
+ */
+
+export interface JmesPathSyntaxIssue {
+  /** Offset in the expression, in UTF-16 code units */
+  offset: number;
+  message: string;
+}
+
+type TokenType =
+  | 'identifier' | 'quotedIdentifier' | 'literal' | 'number'
+  | 'dot' | 'star' | 'flatten' | 'filter' | 'lbracket' | 'rbracket' | 'lbrace' | 'rbrace'
+  | 'lparen' | 'rparen' | 'comma' | 'colon' | 'pipe' | 'or' | 'and' | 'not' | 'expref' | 'current'
+  | ComparisonOperator
+  | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  value?: JsonValue;
+  offset: number;
+}
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Node =
+  | { kind: 'current' }
+  | { kind: 'literal'; value: JsonValue }
+  | { kind: 'field'; name: string }
+  | { kind: 'subexpression'; left: Node; right: Node }
+  | { kind: 'index'; index: number }
+  | { kind: 'slice'; start: number | null; stop: number | null; step: number | null }
+  | { kind: 'indexExpression'; left: Node; right: Node }
+  | { kind: 'projection'; left: Node; right: Node }
+  | { kind: 'valueProjection'; left: Node; right: Node }
+  | { kind: 'filterProjection'; left: Node; right: Node; condition: Node }
+  | { kind: 'flatten'; operand: Node }
+  | { kind: 'pipe' | 'or' | 'and'; left: Node; right: Node }
+  | { kind: 'not'; operand: Node }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: Node; right: Node }
+  | { kind: 'multiSelectList'; items: Node[] }
+  | { kind: 'multiSelectHash'; entries: Array<{ key: string; value: Node }> }
+  | { kind: 'function'; name: FunctionName; args: Node[] }
+  | { kind: 'expref'; operand: Node };
+
+/**
+ * How tightly each token binds to the expression on its left. Tokens below
+ * PROJECTION_STOP end the right-hand side of a projection.
+ */
+const BINDING_POWER: Record<TokenType, number> = {
+  eof: 0, identifier: 0, quotedIdentifier: 0, literal: 0, number: 0, current: 0, expref: 0,
+  rbracket: 0, rparen: 0, rbrace: 0, comma: 0, colon: 0,
+  pipe: 1, or: 2, and: 3,
+  '==': 5, '!=': 5, '<': 5, '<=': 5, '>': 5, '>=': 5,
+  flatten: 9, star: 20, filter: 21, dot: 40, not: 45, lbrace: 50, lbracket: 55, lparen: 60,
+};
+
+const PROJECTION_STOP = 10;
+
+const SINGLE_CHARACTER_TOKENS: Record<string, TokenType> = {
+  '.': 'dot', '*': 'star', ']': 'rbracket', '{': 'lbrace', '}': 'rbrace',
+  '(': 'lparen', ')': 'rparen', ',': 'comma', ':': 'colon', '@': 'current',
+};
+
+/** The spec's argument types; `expref` is an `&expression` */
+type ArgumentType = 'any' | 'number' | 'string' | 'array' | 'object' | 'expref' | 'array-number' | 'array-string';
+
+type FunctionName =
+  | 'abs' | 'avg' | 'ceil' | 'contains' | 'ends_with' | 'floor' | 'join' | 'keys' | 'length' | 'map'
+  | 'max' | 'max_by' | 'merge' | 'min' | 'min_by' | 'not_null' | 'reverse' | 'sort' | 'sort_by'
+  | 'starts_with' | 'sum' | 'to_array' | 'to_number' | 'to_string' | 'type' | 'values';
+
+interface FunctionSignature {
+  /** The accepted types of each argument, any of which will do */
+  parameters: ArgumentType[][];
+  /** The last parameter may repeat */
+  variadic?: boolean;
+}
+
+const FUNCTIONS: Record<FunctionName, FunctionSignature> = {
+  abs: { parameters: [['number']] },
+  avg: { parameters: [['array-number']] },
+  ceil: { parameters: [['number']] },
+  contains: { parameters: [['array', 'string'], ['any']] },
+  ends_with: { parameters: [['string'], ['string']] },
+  floor: { parameters: [['number']] },
+  join: { parameters: [['string'], ['array-string']] },
+  keys: { parameters: [['object']] },
+  length: { parameters: [['string', 'array', 'object']] },
+  map: { parameters: [['expref'], ['array']] },
+  max: { parameters: [['array-number', 'array-string']] },
+  max_by: { parameters: [['array'], ['expref']] },
+  merge: { parameters: [['object']], variadic: true },
+  min: { parameters: [['array-number', 'array-string']] },
+  min_by: { parameters: [['array'], ['expref']] },
+  not_null: { parameters: [['any']], variadic: true },
+  reverse: { parameters: [['string', 'array']] },
+  sort: { parameters: [['array-number', 'array-string']] },
+  sort_by: { parameters: [['array'], ['expref']] },
+  starts_with: { parameters: [['string'], ['string']] },
+  sum: { parameters: [['array-number']] },
+  to_array: { parameters: [['any']] },
+  to_number: { parameters: [['any']] },
+  to_string: { parameters: [['any']] },
+  type: { parameters: [['any']] },
+  values: { parameters: [['object']] },
+};
+
+/**
+ * A parsed JMESPath expression, ready to run against any number of documents
+ */
+export interface JmesPathExpression {
+  readonly source: string;
+  /** @internal */
+  readonly node: Node;
+}
+
+class JmesPathSyntaxError extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message);
+  }
+}
+
+/** A type or value error while evaluating, reported with the spec's wording */
+class JmesPathEvaluationError extends Error {}
+
+const isIdentifierFirst = (char: string) => /^[A-Za-z_]$/.test(char);
+const isIdentifierChar = (char: string) => /^[A-Za-z0-9_]$/.test(char);
+const isDigit = (char: string) => char >= '0' && char <= '9';
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  const fail = (message: string, offset = position): never => {
+    throw new JmesPathSyntaxError(message, offset);
+  };
+
+  /** The text up to the closing `quote`, skipping backslash escapes */
+  const readQuoted = (quote: string): string => {
+    const start = position;
+    position++;
+    while (position < text.length && text.charAt(position) !== quote) {
+      position += text.charAt(position) === '\\' ? 2 : 1;
+    }
+    if (position >= text.length) fail(`Unterminated ${quote === '`' ? 'literal' : 'string'}`, start);
+    position++;
+    return text.slice(start + 1, position - 1);
+  };
+
+  while (position < text.length) {
+    const char = text.charAt(position);
+    const next = text.charAt(position + 1);
+    const offset = position;
+    const push = (type: TokenType, length: number, value?: JsonValue) => {
+      tokens.push({ type, text: text.slice(offset, offset + length), value, offset });
+      position += length;
+    };
+
+    if (/^[ \t\n\r]$/.test(char)) {
+      position++;
+    } else if (isIdentifierFirst(char)) {
+      let end = position + 1;
+      while (end < text.length && isIdentifierChar(text.charAt(end))) end++;
+      push('identifier', end - position, text.slice(position, end));
+    } else if (isDigit(char) || (char === '-' && isDigit(next))) {
+      let end = position + 1;
+      while (end < text.length && isDigit(text.charAt(end))) end++;
+      push('number', end - position, Number(text.slice(position, end)));
+    } else if (char === '"') {
+      const raw = readQuoted('"');
+      try {
+        tokens.push({ type: 'quotedIdentifier', text: text.slice(offset, position), value: JSON.parse(`"${raw}"`) as string, offset });
+      } catch {
+        fail('Invalid escape sequence in quoted identifier', offset);
+      }
+    } else if (char === "'") {
+      const raw = readQuoted("'");
+      tokens.push({ type: 'literal', text: text.slice(offset, position), value: raw.replace(/\\(['\\])/g, '$1'), offset });
+    } else if (char === '`') {
+      const raw = readQuoted('`').replace(/\\`/g, '`');
+      try {
+        tokens.push({ type: 'literal', text: text.slice(offset, position), value: parseJSONStrict(raw, { losslessNumbers: true }), offset });
+      } catch {
+        fail('Invalid JSON in literal', offset);
+      }
+    } else if (char === '[') {
+      if (next === ']') push('flatten', 2);
+      else if (next === '?') push('filter', 2);
+      else push('lbracket', 1);
+    } else if (char === '|') {
+      push(next === '|' ? 'or' : 'pipe', next === '|' ? 2 : 1);
+    } else if (char === '&') {
+      push(next === '&' ? 'and' : 'expref', next === '&' ? 2 : 1);
+    } else if (char === '!') {
+      push(next === '=' ? '!=' : 'not', next === '=' ? 2 : 1);
+    } else if (char === '<' || char === '>') {
+      push(next === '=' ? `${char}=` as ComparisonOperator : char as ComparisonOperator, next === '=' ? 2 : 1);
+    } else if (char === '=') {
+      if (next !== '=') fail("Unexpected '='; compare with '=='");
+      push('==', 2);
+    } else if (Object.prototype.hasOwnProperty.call(SINGLE_CHARACTER_TOKENS, char)) {
+      push(SINGLE_CHARACTER_TOKENS[char] as TokenType, 1); // eslint-disable-line security/detect-object-injection
+    } else {
+      fail(`Unexpected '${char}'`);
+    }
+  }
+
+  tokens.push({ type: 'eof', text: '', offset: text.length });
+  return tokens;
+}
+
+/**
+ * Top-down operator precedence parser, following the reference
+ * implementation's binding powers so projections stop where they should
+ */
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(text: string) {
+    this.tokens = tokenize(text);
+  }
+
+  parse(): Node {
+    const node = this.expression(0);
+    if (this.peek().type !== 'eof') this.unexpected();
+    return node;
+  }
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)] as Token;
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private fail(message: string, offset = this.peek().offset): never {
+    throw new JmesPathSyntaxError(message, offset);
+  }
+
+  private unexpected(expected?: string, token = this.peek()): never {
+    const found = token.type === 'eof' ? 'end of expression' : `'${token.text}'`;
+    this.fail(expected ? `Expected ${expected} but found ${found}` : `Unexpected ${found}`, token.offset);
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    if (this.peek().type !== type) this.unexpected(description);
+    return this.advance();
+  }
+
+  private expression(bindingPower: number): Node {
+    let left = this.nud(this.advance());
+    while (bindingPower < BINDING_POWER[this.peek().type]) {
+      left = this.led(this.advance(), left);
+    }
+    return left;
+  }
+
+  /** A token at the start of an expression */
+  private nud(token: Token): Node {
+    switch (token.type) {
+      case 'literal':
+        return { kind: 'literal', value: token.value ?? null };
+      case 'identifier':
+        return { kind: 'field', name: token.value as string };
+      case 'quotedIdentifier':
+        if (this.peek().type === 'lparen') this.fail('Function names cannot be quoted', token.offset);
+        return { kind: 'field', name: token.value as string };
+      case 'star':
+        return { kind: 'valueProjection', left: { kind: 'current' }, right: this.projectionRight(BINDING_POWER.star) };
+      case 'filter':
+        return this.filter({ kind: 'current' });
+      case 'lbrace':
+        return this.multiSelectHash();
+      case 'flatten':
+        return {
+          kind: 'projection',
+          left: { kind: 'flatten', operand: { kind: 'current' } },
+          right: this.projectionRight(BINDING_POWER.flatten),
+        };
+      case 'lbracket':
+        if (this.peek().type === 'number' || this.peek().type === 'colon') {
+          return this.projectIfSlice({ kind: 'current' }, this.indexOrSlice());
+        }
+        if (this.peek().type === 'star' && this.peek(1).type === 'rbracket') {
+          this.advance();
+          this.advance();
+          return { kind: 'projection', left: { kind: 'current' }, right: this.projectionRight(BINDING_POWER.star) };
+        }
+        return this.multiSelectList();
+      case 'current':
+        return { kind: 'current' };
+      case 'expref':
+        return { kind: 'expref', operand: this.expression(BINDING_POWER.expref) };
+      case 'not':
+        return { kind: 'not', operand: this.expression(BINDING_POWER.not) };
+      case 'lparen': {
+        const inner = this.expression(0);
+        this.expect('rparen', "')'");
+        return inner;
+      }
+      default:
+        return this.unexpected('an expression', token);
+    }
+  }
+
+  /** A token following the expression on its left */
+  private led(token: Token, left: Node): Node {
+    switch (token.type) {
+      case 'dot':
+        if (this.peek().type === 'star') {
+          this.advance();
+          return { kind: 'valueProjection', left, right: this.projectionRight(BINDING_POWER.star) };
+        }
+        return { kind: 'subexpression', left, right: this.dotRight(BINDING_POWER.dot) };
+      case 'pipe':
+        return { kind: 'pipe', left, right: this.expression(BINDING_POWER.pipe) };
+      case 'or':
+      case 'and':
+        return { kind: token.type, left, right: this.expression(BINDING_POWER[token.type]) };
+      case '==':
+      case '!=':
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        return { kind: 'comparison', operator: token.type, left, right: this.expression(BINDING_POWER[token.type]) };
+      case 'lparen':
+        return this.functionCall(left, token);
+      case 'filter':
+        return this.filter(left);
+      case 'flatten':
+        return { kind: 'projection', left: { kind: 'flatten', operand: left }, right: this.projectionRight(BINDING_POWER.flatten) };
+      case 'lbracket':
+        if (this.peek().type === 'number' || this.peek().type === 'colon') {
+          return this.projectIfSlice(left, this.indexOrSlice());
+        }
+        this.expect('star', "an index, slice or '*'");
+        this.expect('rbracket', "']'");
+        return { kind: 'projection', left, right: this.projectionRight(BINDING_POWER.star) };
+      default:
+        return this.unexpected(undefined, token);
+    }
+  }
+
+  /** The part of a projection applied to each element */
+  private projectionRight(bindingPower: number): Node {
+    const next = this.peek().type;
+    if (BINDING_POWER[next] < PROJECTION_STOP) return { kind: 'current' }; // eslint-disable-line security/detect-object-injection
+    if (next === 'lbracket' || next === 'filter') return this.expression(bindingPower);
+    if (next === 'dot') {
+      this.advance();
+      return this.dotRight(bindingPower);
+    }
+    return this.unexpected("'.', '[' or the end of the projection");
+  }
+
+  /** What may follow a `.`: a name, `*`, a multiselect list or a multiselect hash */
+  private dotRight(bindingPower: number): Node {
+    const next = this.peek().type;
+    if (next === 'identifier' || next === 'quotedIdentifier' || next === 'star') return this.expression(bindingPower);
+    if (next === 'lbracket') {
+      this.advance();
+      return this.multiSelectList();
+    }
+    if (next === 'lbrace') {
+      this.advance();
+      return this.multiSelectHash();
+    }
+    return this.unexpected("a name, '*', '[' or '{' after '.'");
+  }
+
+  /** `[n]` or `[start:stop:step]`, with the `[` already consumed */
+  private indexOrSlice(): Node {
+    if (this.peek().type !== 'colon' && this.peek(1).type !== 'colon') {
+      const index = this.advance().value as number;
+      this.expect('rbracket', "']'");
+      return { kind: 'index', index };
+    }
+
+    const parts: Array<number | null> = [null, null, null];
+    let part = 0;
+    let stepOffset = 0;
+    while (this.peek().type !== 'rbracket') {
+      const token = this.peek();
+      if (token.type === 'colon') {
+        if (++part > 2) this.fail('A slice has at most three parts');
+        this.advance();
+      } else if (token.type === 'number') {
+        parts[part] = token.value as number; // eslint-disable-line security/detect-object-injection
+        stepOffset = token.offset;
+        this.advance();
+        if (this.peek().type !== 'colon' && this.peek().type !== 'rbracket') this.unexpected("':' or ']'");
+      } else {
+        this.unexpected("a number, ':' or ']'");
+      }
+    }
+    this.advance();
+    const [start, stop, step] = parts as [number | null, number | null, number | null];
+    if (step === 0) this.fail('A slice step cannot be 0', stepOffset);
+    return { kind: 'slice', start, stop, step };
+  }
+
+  private projectIfSlice(left: Node, right: Node): Node {
+    const indexed: Node = { kind: 'indexExpression', left, right };
+    if (right.kind !== 'slice') return indexed;
+    return { kind: 'projection', left: indexed, right: this.projectionRight(BINDING_POWER.star) };
+  }
+
+  /** `[? condition ]`, with the `[?` already consumed */
+  private filter(left: Node): Node {
+    const condition = this.expression(0);
+    this.expect('rbracket', "']'");
+    const right = this.peek().type === 'flatten' ? { kind: 'current' as const } : this.projectionRight(BINDING_POWER.filter);
+    return { kind: 'filterProjection', left, right, condition };
+  }
+
+  private multiSelectList(): Node {
+    const items: Node[] = [this.expression(0)];
+    while (this.peek().type === 'comma') {
+      this.advance();
+      items.push(this.expression(0));
+    }
+    this.expect('rbracket', "',' or ']'");
+    return { kind: 'multiSelectList', items };
+  }
+
+  private multiSelectHash(): Node {
+    const entries: Array<{ key: string; value: Node }> = [];
+    do {
+      if (entries.length > 0) this.advance();
+      const key = this.peek();
+      if (key.type !== 'identifier' && key.type !== 'quotedIdentifier') this.unexpected('a key');
+      this.advance();
+      this.expect('colon', "':'");
+      entries.push({ key: key.value as string, value: this.expression(0) });
+    } while (this.peek().type === 'comma');
+    this.expect('rbrace', "',' or '}'");
+    return { kind: 'multiSelectHash', entries };
+  }
+
+  private functionCall(callee: Node, token: Token): Node {
+    const nameToken = this.tokens[this.index - 2];
+    const offset = nameToken?.offset ?? token.offset;
+    if (callee.kind !== 'field' || nameToken?.type !== 'identifier') this.fail('Only a function name can be called', token.offset);
+    if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, callee.name)) this.fail(`Unknown function ${callee.name}()`, offset);
+    const name = callee.name as FunctionName;
+
+    const args: Node[] = [];
+    while (this.peek().type !== 'rparen') {
+      if (args.length > 0) this.expect('comma', "',' or ')'");
+      args.push(this.expression(0));
+    }
+    this.advance();
+
+    const { parameters, variadic } = FUNCTIONS[name]; // eslint-disable-line security/detect-object-injection
+    if (variadic ? args.length < parameters.length : args.length !== parameters.length) {
+      const count = `${variadic ? 'at least ' : ''}${parameters.length} argument${parameters.length === 1 ? '' : 's'}`;
+      this.fail(`${name}() takes ${count} but was given ${args.length}`, offset);
+    }
+    return { kind: 'function', name, args };
+  }
+}
+
+/**
+ * Parse a JMESPath expression, throwing a `QUERY_SYNTAX_ERROR` whose details
+ * give the offset and the reason
+ */
+export function compileJmesPath(source: string): JmesPathExpression {
+  try {
+    return { source, node: new Parser(source).parse() };
+  } catch (error) {
+    if (error instanceof JmesPathSyntaxError) {
+      throw createError(ErrorCodes.QUERY_SYNTAX_ERROR, `${error.message} at offset ${error.offset}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * The first syntax error in a JMESPath expression, or `null` when it is valid
+ */
+export function findJmesPathSyntaxError(source: string): JmesPathSyntaxIssue | null {
+  try {
+    new Parser(source).parse();
+    return null;
+  } catch (error) {
+    if (error instanceof JmesPathSyntaxError) return { offset: error.offset, message: error.message };
+    throw error;
+  }
+}
+
+const isObject = (value: JsonValue | undefined): value is JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value);
+
+/** An `&expression` argument, evaluated by the function it is passed to */
+class ExpressionReference {
+  constructor(readonly node: Node) {}
+}
+
+type Argument = JsonValue | ExpressionReference;
+
+/** False, null, and empty strings, arrays and objects are false */
+function isTruthy(value: JsonValue): boolean {
+  if (value === null || value === false || value === '') return false;
+  if (Array.isArray(value)) return value.length > 0;
+  if (isObject(value)) return Object.keys(value).length > 0;
+  return true;
+}
+
+function typeOf(value: Argument): string {
+  if (value instanceof ExpressionReference) return 'expref';
+  if (value === null) return 'null';
+  if (isJsonNumber(value)) return 'number';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'object') return 'object';
+  return typeof value;
+}
+
+function sliceIndexes(length: number, start: number | null, stop: number | null, step: number): number[] {
+  const clamp = (index: number) => {
+    if (index < 0) return Math.max(index + length, step < 0 ? -1 : 0);
+    return Math.min(index, step < 0 ? length - 1 : length);
+  };
+  const from = start === null ? (step < 0 ? length - 1 : 0) : clamp(start);
+  const to = stop === null ? (step < 0 ? -1 : length) : clamp(stop);
+
+  const indexes: number[] = [];
+  for (let i = from; step > 0 ? i < to : i > to; i += step) indexes.push(i);
+  return indexes;
+}
+
+function compareOrdered(operator: ComparisonOperator, left: JsonValue, right: JsonValue): JsonValue {
+  // Ordering is only defined between numbers
+  if (!isJsonNumber(left) || !isJsonNumber(right)) return null;
+  const a = toNumber(left);
+  const b = toNumber(right);
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    default: return a >= b;
+  }
+}
+
+function evaluate(node: Node, value: JsonValue): JsonValue {
+  switch (node.kind) {
+    case 'current':
+      return value;
+    case 'literal':
+      return node.value;
+    case 'field':
+      return isObject(value) && Object.prototype.hasOwnProperty.call(value, node.name) ? value[node.name] ?? null : null;
+    case 'subexpression':
+      return evaluate(node.right, evaluate(node.left, value));
+    case 'index':
+      if (!Array.isArray(value)) return null;
+      return value[node.index < 0 ? value.length + node.index : node.index] ?? null;
+    case 'slice':
+      if (!Array.isArray(value)) return null;
+      return sliceIndexes(value.length, node.start, node.stop, node.step ?? 1).map((index) => value[index] as JsonValue); // eslint-disable-line security/detect-object-injection
+    case 'indexExpression':
+      return evaluate(node.right, evaluate(node.left, value));
+    case 'projection': {
+      const base = evaluate(node.left, value);
+      return Array.isArray(base) ? project(base, node.right) : null;
+    }
+    case 'valueProjection': {
+      const base = evaluate(node.left, value);
+      return isObject(base) ? project(Object.values(base), node.right) : null;
+    }
+    case 'filterProjection': {
+      const base = evaluate(node.left, value);
+      if (!Array.isArray(base)) return null;
+      return project(base.filter((item) => isTruthy(evaluate(node.condition, item))), node.right);
+    }
+    case 'flatten': {
+      const base = evaluate(node.operand, value);
+      if (!Array.isArray(base)) return null;
+      return base.flatMap((item) => (Array.isArray(item) ? item : [item]));
+    }
+    case 'pipe':
+      return evaluate(node.right, evaluate(node.left, value));
+    case 'or': {
+      const left = evaluate(node.left, value);
+      return isTruthy(left) ? left : evaluate(node.right, value);
+    }
+    case 'and': {
+      const left = evaluate(node.left, value);
+      return isTruthy(left) ? evaluate(node.right, value) : left;
+    }
+    case 'not':
+      return !isTruthy(evaluate(node.operand, value));
+    case 'comparison': {
+      const left = evaluate(node.left, value);
+      const right = evaluate(node.right, value);
+      if (node.operator === '==') return jsonEquals(left, right);
+      if (node.operator === '!=') return !jsonEquals(left, right);
+      return compareOrdered(node.operator, left, right);
+    }
+    case 'multiSelectList':
+      if (value === null) return null;
+      return node.items.map((item) => evaluate(item, value));
+    case 'multiSelectHash':
+      if (value === null) return null;
+      return Object.fromEntries(node.entries.map(({ key, value: item }) => [key, evaluate(item, value)]));
+    case 'function':
+      return callFunction(node.name, node.args.map((arg) => (arg.kind === 'expref' ? new ExpressionReference(arg.operand) : evaluate(arg, value))));
+    case 'expref':
+      throw new JmesPathEvaluationError('An expression reference (&) can only be passed to a function');
+  }
+}
+
+/** Apply `right` to each item, dropping null results */
+function project(items: JsonValue[], right: Node): JsonValue[] {
+  const output: JsonValue[] = [];
+  for (const item of items) {
+    const result = evaluate(right, item);
+    if (result !== null) output.push(result);
+  }
+  return output;
+}
+
+function matchesType(value: Argument, type: ArgumentType): boolean {
+  switch (type) {
+    case 'any': return !(value instanceof ExpressionReference);
+    case 'expref': return value instanceof ExpressionReference;
+    case 'number': return isJsonNumber(value);
+    case 'string': return typeof value === 'string';
+    case 'array': return Array.isArray(value);
+    case 'object': return typeOf(value) === 'object';
+    case 'array-number': return Array.isArray(value) && value.every((item) => isJsonNumber(item));
+    case 'array-string': return Array.isArray(value) && value.every((item) => typeof item === 'string');
+  }
+}
+
+function checkArguments(name: FunctionName, args: Argument[]): void {
+  const { parameters } = FUNCTIONS[name]; // eslint-disable-line security/detect-object-injection
+  args.forEach((arg, index) => {
+    const accepted = parameters[Math.min(index, parameters.length - 1)] ?? [];
+    if (!accepted.some((type) => matchesType(arg, type))) {
+      throw new JmesPathEvaluationError(
+        `invalid-type: ${name}() expected argument ${index + 1} to be ${accepted.join(' or ')}, but got ${typeOf(arg)}`
+      );
+    }
+  });
+}
+
+/** Evaluate an `&expression` for each item, requiring every key to be a number or every key a string */
+function keysBy(name: FunctionName, items: JsonValue[], { node }: ExpressionReference): Array<number | string> {
+  const keys = items.map((item) => evaluate(node, item));
+  const numbers = keys.every((key) => isJsonNumber(key));
+  if (!numbers && !keys.every((key) => typeof key === 'string')) {
+    const bad = keys.find((key) => !isJsonNumber(key) && typeof key !== 'string') ?? keys.find((key) => typeof key === 'string');
+    throw new JmesPathEvaluationError(`invalid-type: ${name}() expected the expression to return numbers or strings, but got ${typeOf(bad ?? null)}`);
+  }
+  return keys.map((key) => (isJsonNumber(key) ? toNumber(key) : (key as string)));
+}
+
+function compareKeys(a: number | string, b: number | string): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return compareCodePoints(String(a), String(b));
+}
+
+/** The item with the largest (`sign` 1) or smallest (`sign` -1) key */
+function extreme(items: JsonValue[], keys: Array<number | string>, sign: 1 | -1): JsonValue {
+  let best: { item: JsonValue; key: number | string } | null = null;
+  for (const [index, item] of items.entries()) {
+    const key = keys[index] as number | string; // eslint-disable-line security/detect-object-injection
+    if (best === null || sign * compareKeys(key, best.key) > 0) best = { item, key };
+  }
+  return best === null ? null : best.item;
+}
+
+const plainKeys = (items: JsonValue[]) => items.map((item) => (isJsonNumber(item) ? toNumber(item) : (item as string)));
+
+function sortBy(items: JsonValue[], keys: Array<number | string>): JsonValue[] {
+  // Array.prototype.sort is stable, so equal keys keep their order
+  return items
+    .map((item, index) => ({ item, key: keys[index] as number | string })) // eslint-disable-line security/detect-object-injection
+    .sort((a, b) => compareKeys(a.key, b.key))
+    .map(({ item }) => item);
+}
+
+function callFunction(name: FunctionName, args: Argument[]): JsonValue {
+  checkArguments(name, args);
+  const [first, second] = args;
+
+  switch (name) {
+    case 'abs': return Math.abs(toNumber(first as number));
+    case 'ceil': return Math.ceil(toNumber(first as number));
+    case 'floor': return Math.floor(toNumber(first as number));
+    case 'avg': {
+      const items = first as JsonValue[];
+      return items.length === 0 ? null : items.reduce<number>((sum, item) => sum + toNumber(item as number), 0) / items.length;
+    }
+    case 'sum': return (first as JsonValue[]).reduce<number>((sum, item) => sum + toNumber(item as number), 0);
+    case 'contains':
+      if (typeof first === 'string') return typeof second === 'string' && first.includes(second);
+      return (first as JsonValue[]).some((item) => jsonEquals(item, second as JsonValue));
+    case 'starts_with': return (first as string).startsWith(second as string);
+    case 'ends_with': return (first as string).endsWith(second as string);
+    case 'join': return (second as string[]).join(first as string);
+    case 'keys': return Object.keys(first as JsonObject);
+    case 'values': return Object.values(first as JsonObject);
+    case 'length':
+      if (typeof first === 'string') return Array.from(first).length;
+      return Array.isArray(first) ? first.length : Object.keys(first as JsonObject).length;
+    case 'map': return (second as JsonValue[]).map((item) => evaluate((first as ExpressionReference).node, item));
+    case 'max': return extreme(first as JsonValue[], plainKeys(first as JsonValue[]), 1);
+    case 'min': return extreme(first as JsonValue[], plainKeys(first as JsonValue[]), -1);
+    case 'max_by': return extreme(first as JsonValue[], keysBy(name, first as JsonValue[], second as ExpressionReference), 1);
+    case 'min_by': return extreme(first as JsonValue[], keysBy(name, first as JsonValue[], second as ExpressionReference), -1);
+    case 'merge': {
+      const merged: JsonObject = {};
+      (args as JsonObject[]).forEach((arg) => Object.entries(arg).forEach(([key, item]) => setMember(merged, key, item)));
+      return merged;
+    }
+    case 'not_null': return (args as JsonValue[]).find((arg) => arg !== null) ?? null;
+    case 'reverse': return typeof first === 'string' ? Array.from(first).reverse().join('') : [...(first as JsonValue[])].reverse();
+    case 'sort': return sortBy(first as JsonValue[], plainKeys(first as JsonValue[]));
+    case 'sort_by': {
+      const items = first as JsonValue[];
+      return sortBy(items, keysBy(name, items, second as ExpressionReference));
+    }
+    case 'to_array': return Array.isArray(first) ? first : [first as JsonValue];
+    case 'to_string': return typeof first === 'string' ? first : stringifyJSON(first as JsonValue, 0);
+    case 'to_number':
+      if (isJsonNumber(first)) return first;
+      if (typeof first === 'string' && /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/.test(first)) return Number(first); // eslint-disable-line security/detect-unsafe-regex
+      return null;
+    case 'type': return typeOf(first as JsonValue);
+  }
+}
+
+/**
+ * Evaluate a JMESPath expression against `data`. Type errors in function
+ * calls throw a `QUERY_EVALUATION_ERROR` whose details use the spec's
+ * `invalid-type` wording.
+ */
+export function searchJmesPath(data: JsonValue, expression: string | JmesPathExpression): JsonValue {
+  const compiled = typeof expression === 'string' ? compileJmesPath(expression) : expression;
+  try {
+    return evaluate(compiled.node, data);
+  } catch (error) {
+    if (error instanceof JmesPathEvaluationError) throw createError(ErrorCodes.QUERY_EVALUATION_ERROR, error.message);
+    if (error instanceof RangeError) throw createError(ErrorCodes.QUERY_EVALUATION_ERROR, 'The expression nested too deeply');
+    throw error;
+  }
+}
@@ -0,0 +1,2293 @@
+import { JsonArray, JsonObject, JsonValue } from '../types/json.types';
+
+import { createError, ErrorCodes } from './error-handler';
+import { stringifyJSON } from './json-parser';
+import { formatNumber, isJsonNumber, isLosslessNumber, setMember, toNumber } from './lossless-number';
+import { compareCodePoints } from './utils';
+
+/**
+ * A jq interpreter covering the language people use day to day: pipes and
+ * commas, paths and slices, `?`, `//`, arithmetic and comparisons, object
+ * and array construction, string interpolation and `@formats`, `if`,
+ * `try`/`catch`, `reduce`, `foreach`, `as` bindings with destructuring,
+ * `def`, `label`/`break`, assignment operators, and the common builtins
+ * (`map`, `select`, `to_entries`, `group_by`, `sort_by`, `keys`, `test`,
+ * `sub`, `paths`, ...). Modules, `input`/`inputs`, SQL-style and date
+ * formatting builtins are not supported.
+ *
+ * Programs are parsed and their names resolved up front, so syntax errors
+ * and unknown functions or variables are reported with their offset.
+ * Evaluation is lazy (every filter is a generator), which is what lets
+ * `first`, `limit` and an output cap stop infinite streams such as `repeat`.
+ */
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=';
+type UpdateOperator = '=' | '|=' | '+=' | '-=' | '*=' | '/=' | '%=' | '//=';
+
+type Pattern =
+  | { kind: 'variable'; name: string }
+  | { kind: 'array'; elements: Pattern[] }
+  | { kind: 'object'; entries: Array<{ key: JqNode; variable: string | null; pattern: Pattern | null }> };
+
+type JqNode =
+  | { type: 'identity' }
+  | { type: 'literal'; value: JsonValue }
+  | { type: 'variable'; name: string; offset: number }
+  | { type: 'index'; target: JqNode; index: JqNode }
+  | { type: 'slice'; target: JqNode; from: JqNode | null; to: JqNode | null }
+  | { type: 'iterate'; target: JqNode }
+  | { type: 'try'; body: JqNode; handler: JqNode | null }
+  | { type: 'negate'; body: JqNode }
+  | { type: 'pipe' | 'comma' | 'and' | 'or' | 'alternative'; left: JqNode; right: JqNode }
+  | { type: 'binary'; operator: BinaryOperator; left: JqNode; right: JqNode }
+  | { type: 'update'; operator: UpdateOperator; left: JqNode; right: JqNode }
+  | { type: 'array'; body: JqNode | null }
+  | { type: 'object'; entries: Array<{ key: JqNode; value: JqNode }> }
+  | { type: 'string'; parts: Array<string | JqNode>; format: string | null }
+  | { type: 'format'; name: string; offset: number }
+  | { type: 'if'; condition: JqNode; then: JqNode; otherwise: JqNode | null }
+  | { type: 'reduce'; source: JqNode; pattern: Pattern; init: JqNode; update: JqNode }
+  | { type: 'foreach'; source: JqNode; pattern: Pattern; init: JqNode; update: JqNode; extract: JqNode | null }
+  | { type: 'bind'; source: JqNode; pattern: Pattern; body: JqNode }
+  | { type: 'def'; name: string; params: string[]; body: JqNode; rest: JqNode; offset: number }
+  | { type: 'label'; name: string; body: JqNode }
+  | { type: 'break'; name: string; offset: number }
+  | { type: 'call'; name: string; args: JqNode[]; offset: number };
+
+/**
+ * A parsed jq program, ready to run against any number of documents
+ */
+export interface JqProgram {
+  readonly source: string;
+  /** @internal */
+  readonly node: JqNode;
+}
+
+export interface JqResult {
+  outputs: JsonValue[];
+  /** More outputs were produced than `maxOutputs` allows */
+  truncated: boolean;
+}
+
+export interface JqOptions {
+  /** Stop after this many outputs (default 10 000) */
+  maxOutputs?: number;
+}
+
+const DEFAULT_MAX_OUTPUTS = 10_000;
+
+/** Evaluation steps allowed per run, so a runaway `repeat` or `range` cannot hang the page */
+const MAX_STEPS = 20_000_000;
+
+const FORMATS = new Set(['text', 'json', 'html', 'uri', 'csv', 'tsv', 'sh', 'base64', 'base64d']);
+
+const KEYWORDS = new Set([
+  'def', 'if', 'then', 'elif', 'else', 'end', 'as', 'reduce', 'foreach', 'try', 'catch', 'label', 'break', 'import', 'include',
+  'and', 'or', '__loc__',
+]);
+
+/** Longest first, so `//=` is not read as `//` followed by `=` */
+const PUNCTUATION = [
+  '//=', '|=', '+=', '-=', '*=', '/=', '%=', '==', '!=', '<=', '>=', '//', '..',
+  '.', '[', ']', '{', '}', '(', ')', '|', ',', ':', ';', '=', '<', '>', '+', '-', '*', '/', '%', '?',
+];
+
+/** Binding strength of the infix operators; `,` binds loosest */
+const PRECEDENCE: Record<string, number> = {
+  ',': 1,
+  '//': 2,
+  '=': 3, '|=': 3, '+=': 3, '-=': 3, '*=': 3, '/=': 3, '%=': 3, '//=': 3,
+  or: 4,
+  and: 5,
+  '==': 6, '!=': 6, '<': 6, '<=': 6, '>': 6, '>=': 6,
+  '+': 7, '-': 7,
+  '*': 8, '/': 8, '%': 8,
+};
+
+interface Token {
+  type: 'punctuation' | 'identifier' | 'keyword' | 'field' | 'variable' | 'format' | 'number' | 'string' | 'end';
+  value: string;
+  start: number;
+  end: number;
+}
+
+class JqSyntaxError extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message);
+  }
+}
+
+/**
+ * `break $name` unwinding to the `label $name` it belongs to. It is not a
+ * `JqError`, so `try` lets it through.
+ */
+class JqBreak extends Error {
+  constructor(readonly label: JsonValue) {
+    super('break');
+  }
+}
+
+/**
+ * An error raised while a program runs. `try`/`catch` receives its value,
+ * which is the message for errors raised by the interpreter itself.
+ */
+class JqError extends Error {
+  constructor(readonly value: JsonValue) {
+    super(typeof value === 'string' ? value : `${toJson(value)} (not a string)`);
+  }
+}
+
+const isIdentifierStart = (char: string) => /^[A-Za-z_]$/.test(char);
+const isIdentifierPart = (char: string) => /^[A-Za-z0-9_]$/.test(char);
+const isDigit = (char: string) => char >= '0' && char <= '9';
+
+class Parser {
+  private position = 0;
+  private lookahead: Token | null = null;
+
+  constructor(private readonly text: string) {}
+
+  parse(): JqNode {
+    const node = this.parsePipe();
+    const token = this.peek();
+    if (token.type !== 'end') this.unexpected(token);
+    return node;
+  }
+
+  private fail(message: string, offset: number): never {
+    throw new JqSyntaxError(message, offset);
+  }
+
+  private describe(token: Token): string {
+    return token.type === 'end' ? 'end of query' : `'${this.text.slice(token.start, token.end)}'`;
+  }
+
+  private unexpected(token: Token, expected?: string): never {
+    const found = this.describe(token);
+    this.fail(expected ? `Expected ${expected} but found ${found}` : `Unexpected ${found}`, token.start);
+  }
+
+  private skipTrivia(): void {
+    for (;;) {
+      const char = this.text.charAt(this.position);
+      if (/^\s$/.test(char)) {
+        this.position++;
+      } else if (char === '#') {
+        while (this.position < this.text.length && this.text.charAt(this.position) !== '\n') this.position++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private readIdentifier(start: number): number {
+    let end = start;
+    while (isIdentifierPart(this.text.charAt(end))) end++;
+    return end;
+  }
+
+  private lex(): Token {
+    this.skipTrivia();
+    const start = this.position;
+    const char = this.text.charAt(start);
+    const next = this.text.charAt(start + 1);
+    const token = (type: Token['type'], end: number, value = this.text.slice(start, end)): Token => ({ type, value, start, end });
+
+    if (char === '') return token('end', start);
+    if (char === '"') return token('string', start + 1);
+    if (char === '.' && isIdentifierStart(next)) {
+      const end = this.readIdentifier(start + 1);
+      return token('field', end, this.text.slice(start + 1, end));
+    }
+    if (isDigit(char) || (char === '.' && isDigit(next))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(this.text.slice(start)); // eslint-disable-line security/detect-unsafe-regex
+      return token('number', start + (match?.[0].length ?? 1));
+    }
+    if ((char === '$' || char === '@') && isIdentifierStart(next)) {
+      const end = this.readIdentifier(start + 1);
+      return token(char === '$' ? 'variable' : 'format', end, this.text.slice(start + 1, end));
+    }
+    if (isIdentifierStart(char)) {
+      const end = this.readIdentifier(start);
+      const value = this.text.slice(start, end);
+      return token(KEYWORDS.has(value) ? 'keyword' : 'identifier', end);
+    }
+    const punctuation = PUNCTUATION.find((candidate) => this.text.startsWith(candidate, start));
+    if (punctuation) return token('punctuation', start + punctuation.length);
+    return this.fail(`Unexpected character '${char}'`, start);
+  }
+
+  private peek(): Token {
+    if (!this.lookahead) {
+      const position = this.position;
+      this.lookahead = this.lex();
+      this.position = position;
+    }
+    return this.lookahead;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.position = token.end;
+    this.lookahead = null;
+    return token;
+  }
+
+  private is(value: string, type: Token['type'] = 'punctuation'): boolean {
+    const token = this.peek();
+    return token.type === type && token.value === value;
+  }
+
+  private accept(value: string, type: Token['type'] = 'punctuation'): boolean {
+    if (!this.is(value, type)) return false;
+    this.next();
+    return true;
+  }
+
+  private expect(value: string, type: Token['type'] = 'punctuation'): Token {
+    if (!this.is(value, type)) this.unexpected(this.peek(), `'${value}'`);
+    return this.next();
+  }
+
+  private parsePipe(): JqNode {
+    const left = this.parseBinary(1);
+    if (!this.accept('|')) return left;
+    return { type: 'pipe', left, right: this.parsePipe() };
+  }
+
+  /** Precedence climbing over the infix operators, from `,` down to `*` */
+  private parseBinary(minimum: number): JqNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const isOperator = token.type === 'punctuation' || token.value === 'and' || token.value === 'or';
+      const precedence = isOperator ? PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minimum) return left;
+      this.next();
+
+      // `//` groups to the right; assignments and comparisons do not chain
+      const right = this.parseBinary(token.value === '//' ? precedence : precedence + 1);
+      left = this.combine(token.value, left, right);
+      if ((precedence === 3 || precedence === 6) && PRECEDENCE[this.peek().value] === precedence && this.peek().type === 'punctuation') {
+        this.fail(`${this.describe(this.peek())} cannot follow ${this.describe(token)} without parentheses`, this.peek().start);
+      }
+    }
+  }
+
+  private combine(operator: string, left: JqNode, right: JqNode): JqNode {
+    switch (operator) {
+      case ',': return { type: 'comma', left, right };
+      case '//': return { type: 'alternative', left, right };
+      case 'and': return { type: 'and', left, right };
+      case 'or': return { type: 'or', left, right };
+      case '=': case '|=': case '+=': case '-=': case '*=': case '/=': case '%=': case '//=':
+        return { type: 'update', operator, left, right };
+      default:
+        return { type: 'binary', operator: operator as BinaryOperator, left, right };
+    }
+  }
+
+  private parseUnary(): JqNode {
+    if (this.accept('-')) {
+      const body = this.parseUnary();
+      if (body.type === 'literal' && typeof body.value === 'number') return { type: 'literal', value: -body.value };
+      return { type: 'negate', body };
+    }
+    if (this.is('def', 'keyword')) {
+      const offset = this.next().start;
+      const { name, params, body } = this.parseDefinition();
+      return { type: 'def', name, params, body, rest: this.parsePipe(), offset };
+    }
+
+    const term = this.parsePostfix();
+    if (!this.accept('as', 'keyword')) return term;
+    const pattern = this.parsePattern();
+    this.expect('|');
+    return { type: 'bind', source: term, pattern, body: this.parsePipe() };
+  }
+
+  /** `def name(f; $x): body;`, with `$x` parameters bound as variables as well as filters */
+  private parseDefinition(): { name: string; params: string[]; body: JqNode } {
+    const nameToken = this.next();
+    if (nameToken.type !== 'identifier') this.unexpected(nameToken, 'a function name');
+    const params: string[] = [];
+    const valueParams: string[] = [];
+    if (this.accept('(')) {
+      do {
+        const param = this.next();
+        if (param.type !== 'identifier' && param.type !== 'variable') this.unexpected(param, 'a parameter name');
+        params.push(param.value);
+        if (param.type === 'variable') valueParams.push(param.value);
+      } while (this.accept(';'));
+      this.expect(')');
+    }
+    this.expect(':');
+    let body = this.parsePipe();
+    this.expect(';');
+    for (const param of valueParams.reverse()) {
+      body = { type: 'bind', source: { type: 'call', name: param, args: [], offset: nameToken.start }, pattern: { kind: 'variable', name: param }, body };
+    }
+    return { name: nameToken.value, params, body };
+  }
+
+  private parsePostfix(): JqNode {
+    let term = this.parsePrimary();
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'field') {
+        this.next();
+        term = { type: 'index', target: term, index: { type: 'literal', value: token.value } };
+      } else if (token.type === 'punctuation' && token.value === '.' && /^["[]$/.test(this.text.charAt(token.end))) {
+        this.next();
+        term = this.text.charAt(token.end) === '"'
+          ? { type: 'index', target: term, index: this.parseString(this.next(), null) }
+          : this.parseBracket(term);
+      } else if (token.type === 'punctuation' && token.value === '[') {
+        term = this.parseBracket(term);
+      } else if (token.type === 'punctuation' && token.value === '?') {
+        this.next();
+        term = { type: 'try', body: term, handler: null };
+      } else {
+        return term;
+      }
+    }
+  }
+
+  /** `[]`, `[e]`, `[from:to]` after a term */
+  private parseBracket(target: JqNode): JqNode {
+    this.expect('[');
+    if (this.accept(']')) return { type: 'iterate', target };
+    if (this.accept(':')) {
+      const to = this.parsePipe();
+      this.expect(']');
+      return { type: 'slice', target, from: null, to };
+    }
+    const index = this.parsePipe();
+    if (this.accept(':')) {
+      const to = this.is(']') ? null : this.parsePipe();
+      this.expect(']');
+      return { type: 'slice', target, from: index, to };
+    }
+    this.expect(']');
+    return { type: 'index', target, index };
+  }
+
+  private parsePrimary(): JqNode {
+    const token = this.next();
+    switch (token.type) {
+      case 'field':
+        return { type: 'index', target: { type: 'identity' }, index: { type: 'literal', value: token.value } };
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return this.parseString(token, null);
+      case 'format':
+        if (!FORMATS.has(token.value)) this.fail(`@${token.value} is not a valid format`, token.start);
+        return this.peek().type === 'string' ? this.parseString(this.next(), token.value) : { type: 'format', name: token.value, offset: token.start };
+      case 'variable':
+        return { type: 'variable', name: token.value, offset: token.start };
+      case 'identifier':
+        return this.parseCall(token);
+      case 'keyword':
+        return this.parseKeyword(token);
+      case 'punctuation':
+        break;
+      default:
+        this.unexpected(token);
+    }
+
+    switch (token.value) {
+      case '.':
+        return this.text.charAt(token.end) === '"'
+          ? { type: 'index', target: { type: 'identity' }, index: this.parseString(this.next(), null) }
+          : { type: 'identity' };
+      case '..':
+        return { type: 'call', name: 'recurse', args: [], offset: token.start };
+      case '(': {
+        const body = this.parsePipe();
+        this.expect(')');
+        return body;
+      }
+      case '[': {
+        if (this.accept(']')) return { type: 'array', body: null };
+        const body = this.parsePipe();
+        this.expect(']');
+        return { type: 'array', body };
+      }
+      case '{':
+        return this.parseObject();
+      default:
+        return this.unexpected(token);
+    }
+  }
+
+  private parseCall(token: Token): JqNode {
+    if (!this.is('(')) {
+      if (token.value === 'true' || token.value === 'false') return { type: 'literal', value: token.value === 'true' };
+      if (token.value === 'null') return { type: 'literal', value: null };
+      return { type: 'call', name: token.value, args: [], offset: token.start };
+    }
+    this.next();
+    const args: JqNode[] = [];
+    do {
+      args.push(this.parsePipe());
+    } while (this.accept(';'));
+    this.expect(')');
+    return { type: 'call', name: token.value, args, offset: token.start };
+  }
+
+  private parseKeyword(token: Token): JqNode {
+    switch (token.value) {
+      case 'if':
+        return this.parseIf();
+      case 'try': {
+        const body = this.parsePostfix();
+        return { type: 'try', body, handler: this.accept('catch', 'keyword') ? this.parsePostfix() : null };
+      }
+      case 'reduce': {
+        const source = this.parsePostfix();
+        this.expect('as', 'keyword');
+        const pattern = this.parsePattern();
+        this.expect('(');
+        const init = this.parsePipe();
+        this.expect(';');
+        const update = this.parsePipe();
+        this.expect(')');
+        return { type: 'reduce', source, pattern, init, update };
+      }
+      case 'foreach': {
+        const source = this.parsePostfix();
+        this.expect('as', 'keyword');
+        const pattern = this.parsePattern();
+        this.expect('(');
+        const init = this.parsePipe();
+        this.expect(';');
+        const update = this.parsePipe();
+        const extract = this.accept(';') ? this.parsePipe() : null;
+        this.expect(')');
+        return { type: 'foreach', source, pattern, init, update, extract };
+      }
+      case 'label': {
+        const name = this.next();
+        if (name.type !== 'variable') this.unexpected(name, 'a label name');
+        this.expect('|');
+        return { type: 'label', name: name.value, body: this.parsePipe() };
+      }
+      case 'break': {
+        const name = this.next();
+        if (name.type !== 'variable') this.unexpected(name, 'a label name');
+        return { type: 'break', name: name.value, offset: token.start };
+      }
+      case 'import':
+      case 'include':
+        return this.fail('Modules are not supported', token.start);
+      default:
+        return this.unexpected(token);
+    }
+  }
+
+  /** After `if` or `elif`; a chain of `elif`s shares the closing `end` */
+  private parseIf(): JqNode {
+    const condition = this.parsePipe();
+    this.expect('then', 'keyword');
+    const then = this.parsePipe();
+    if (this.accept('elif', 'keyword')) return { type: 'if', condition, then, otherwise: this.parseIf() };
+    const otherwise = this.accept('else', 'keyword') ? this.parsePipe() : null;
+    this.expect('end', 'keyword');
+    return { type: 'if', condition, then, otherwise };
+  }
+
+  /** The rest of a string after its opening quote, with `\(...)` interpolations */
+  private parseString(open: Token, format: string | null): JqNode {
+    const parts: Array<string | JqNode> = [];
+    let text = '';
+    this.position = open.end;
+    this.lookahead = null;
+    for (;;) {
+      const char = this.text.charAt(this.position);
+      if (char === '') this.fail('Unterminated string', open.start);
+      this.position++;
+      if (char === '"') break;
+      if (char !== '\\') {
+        text += char;
+        continue;
+      }
+
+      const escape = this.text.charAt(this.position);
+      this.position++;
+      switch (escape) {
+        case '"': case '\\': case '/': text += escape; break;
+        case 'b': text += '\b'; break;
+        case 'f': text += '\f'; break;
+        case 'n': text += '\n'; break;
+        case 'r': text += '\r'; break;
+        case 't': text += '\t'; break;
+        case 'u': {
+          const hex = this.text.slice(this.position, this.position + 4);
+          if (!/^[0-9A-Fa-f]{4}$/.test(hex)) this.fail('Expected four hex digits after \\u', this.position - 2);
+          text += String.fromCharCode(parseInt(hex, 16));
+          this.position += 4;
+          break;
+        }
+        case '(': {
+          if (text) parts.push(text);
+          text = '';
+          parts.push(this.parsePipe());
+          this.expect(')');
+          // The closing parenthesis was read as a token; carry on from just after it
+          this.lookahead = null;
+          break;
+        }
+        default:
+          this.fail(`Invalid escape sequence \\${escape}`, this.position - 2);
+      }
+    }
+    this.lookahead = null;
+    if (text) parts.push(text);
+    if (parts.every((part) => typeof part === 'string')) return { type: 'literal', value: parts.join('') };
+    return { type: 'string', parts, format };
+  }
+
+  private parseObject(): JqNode {
+    const entries: Array<{ key: JqNode; value: JqNode }> = [];
+    if (this.accept('}')) return { type: 'object', entries };
+    do {
+      const token = this.next();
+      let key: JqNode;
+      let value: JqNode | null = null;
+      switch (token.type) {
+        case 'variable':
+          // `{$x}` is `{x: $x}`
+          key = { type: 'literal', value: token.value };
+          value = { type: 'variable', name: token.value, offset: token.start };
+          break;
+        case 'identifier':
+        case 'keyword':
+          key = { type: 'literal', value: token.value };
+          break;
+        case 'string':
+          key = this.parseString(token, null);
+          break;
+        case 'format':
+          if (this.peek().type !== 'string') this.unexpected(this.peek(), 'a string after the format');
+          key = this.parseString(this.next(), token.value);
+          break;
+        default:
+          if (token.value !== '(') this.unexpected(token, 'an object key');
+          key = this.parsePipe();
+          this.expect(')');
+          if (!this.is(':')) this.unexpected(this.peek(), "':' after a computed key");
+      }
+      if (this.accept(':')) value = this.parseObjectValue();
+      entries.push({ key, value: value ?? { type: 'index', target: { type: 'identity' }, index: key } });
+    } while (this.accept(','));
+    if (!this.is('}')) this.unexpected(this.peek(), "',' or '}'");
+    this.next();
+    return { type: 'object', entries };
+  }
+
+  /** Values bind tighter than `,`, which separates entries, but may still be pipes */
+  private parseObjectValue(): JqNode {
+    let value = this.parseBinary(2);
+    while (this.accept('|')) value = { type: 'pipe', left: value, right: this.parseBinary(2) };
+    return value;
+  }
+
+  private parsePattern(): Pattern {
+    const token = this.next();
+    if (token.type === 'variable') return { kind: 'variable', name: token.value };
+    if (token.type === 'punctuation' && token.value === '[') {
+      const elements: Pattern[] = [];
+      do {
+        elements.push(this.parsePattern());
+      } while (this.accept(','));
+      this.expect(']');
+      return { kind: 'array', elements };
+    }
+    if (token.type !== 'punctuation' || token.value !== '{') this.unexpected(token, 'a variable or destructuring pattern');
+
+    const entries: Array<{ key: JqNode; variable: string | null; pattern: Pattern | null }> = [];
+    do {
+      const keyToken = this.next();
+      let key: JqNode;
+      let variable: string | null = null;
+      switch (keyToken.type) {
+        case 'variable':
+          key = { type: 'literal', value: keyToken.value };
+          variable = keyToken.value;
+          break;
+        case 'identifier':
+        case 'keyword':
+          key = { type: 'literal', value: keyToken.value };
+          break;
+        case 'string':
+          key = this.parseString(keyToken, null);
+          break;
+        default:
+          if (keyToken.value !== '(') this.unexpected(keyToken, 'an object key');
+          key = this.parsePipe();
+          this.expect(')');
+      }
+      let pattern: Pattern | null = null;
+      if (this.accept(':')) pattern = this.parsePattern();
+      else if (!variable) this.unexpected(this.peek(), "':'");
+      entries.push({ key, variable, pattern });
+    } while (this.accept(','));
+    this.expect('}');
+    return { kind: 'object', entries };
+  }
+}
+
+// Name resolution
+
+interface Scope {
+  variables: Set<string>;
+  functions: Set<string>;
+  parent: Scope | null;
+}
+
+function patternVariables(pattern: Pattern, names: Set<string> = new Set()): Set<string> {
+  if (pattern.kind === 'variable') names.add(pattern.name);
+  else if (pattern.kind === 'array') pattern.elements.forEach((element) => patternVariables(element, names));
+  else {
+    pattern.entries.forEach(({ variable, pattern: nested }) => {
+      if (variable) names.add(variable);
+      if (nested) patternVariables(nested, names);
+    });
+  }
+  return names;
+}
+
+/** Labels are bound as variables under a name no `$variable` can have, as in jq itself */
+const labelVariable = (name: string) => `*label-${name}`;
+
+function scopeHas(scope: Scope | null, kind: 'variables' | 'functions', name: string): boolean {
+  for (let current = scope; current; current = current.parent) {
+    if (current[kind].has(name)) return true; // eslint-disable-line security/detect-object-injection
+  }
+  return false;
+}
+
+/** Report the first unknown variable or function, so typos fail before anything runs */
+function resolveNames(node: JqNode, scope: Scope): void {
+  const within = (variables: Iterable<string>, functions: Iterable<string> = []): Scope => ({
+    variables: new Set(variables),
+    functions: new Set(functions),
+    parent: scope,
+  });
+  const resolvePattern = (pattern: Pattern) => {
+    if (pattern.kind === 'array') pattern.elements.forEach(resolvePattern);
+    if (pattern.kind === 'object') {
+      pattern.entries.forEach(({ key, pattern: nested }) => {
+        resolveNames(key, scope);
+        if (nested) resolvePattern(nested);
+      });
+    }
+  };
+
+  switch (node.type) {
+    case 'identity':
+    case 'literal':
+    case 'format':
+      return;
+    case 'variable':
+      if (node.name !== '__loc__' && !scopeHas(scope, 'variables', node.name) && node.name !== 'ENV') {
+        throw new JqSyntaxError(`$${node.name} is not defined`, node.offset);
+      }
+      return;
+    case 'call':
+      if (!scopeHas(scope, 'functions', `${node.name}/${node.args.length}`) && !isBuiltin(`${node.name}/${node.args.length}`)) {
+        throw new JqSyntaxError(`${node.name}/${node.args.length} is not defined`, node.offset);
+      }
+      node.args.forEach((arg) => resolveNames(arg, scope));
+      return;
+    case 'index':
+      resolveNames(node.target, scope);
+      resolveNames(node.index, scope);
+      return;
+    case 'slice':
+      resolveNames(node.target, scope);
+      if (node.from) resolveNames(node.from, scope);
+      if (node.to) resolveNames(node.to, scope);
+      return;
+    case 'iterate':
+      resolveNames(node.target, scope);
+      return;
+    case 'try':
+      resolveNames(node.body, scope);
+      if (node.handler) resolveNames(node.handler, scope);
+      return;
+    case 'negate':
+      resolveNames(node.body, scope);
+      return;
+    case 'pipe':
+    case 'comma':
+    case 'and':
+    case 'or':
+    case 'alternative':
+    case 'binary':
+    case 'update':
+      resolveNames(node.left, scope);
+      resolveNames(node.right, scope);
+      return;
+    case 'array':
+      if (node.body) resolveNames(node.body, scope);
+      return;
+    case 'object':
+      node.entries.forEach(({ key, value }) => {
+        resolveNames(key, scope);
+        resolveNames(value, scope);
+      });
+      return;
+    case 'string':
+      node.parts.forEach((part) => typeof part !== 'string' && resolveNames(part, scope));
+      return;
+    case 'if':
+      resolveNames(node.condition, scope);
+      resolveNames(node.then, scope);
+      if (node.otherwise) resolveNames(node.otherwise, scope);
+      return;
+    case 'reduce':
+    case 'foreach': {
+      resolveNames(node.source, scope);
+      resolvePattern(node.pattern);
+      resolveNames(node.init, scope);
+      const inner = within(patternVariables(node.pattern));
+      resolveNames(node.update, inner);
+      if (node.type === 'foreach' && node.extract) resolveNames(node.extract, inner);
+      return;
+    }
+    case 'bind':
+      resolveNames(node.source, scope);
+      resolvePattern(node.pattern);
+      resolveNames(node.body, within(patternVariables(node.pattern)));
+      return;
+    case 'def': {
+      const key = `${node.name}/${node.params.length}`;
+      resolveNames(node.body, within([], [key, ...node.params.map((param) => `${param}/0`)]));
+      resolveNames(node.rest, within([], [key]));
+      return;
+    }
+    case 'label':
+      resolveNames(node.body, within([labelVariable(node.name)]));
+      return;
+    case 'break':
+      if (!scopeHas(scope, 'variables', labelVariable(node.name))) {
+        throw new JqSyntaxError(`break $${node.name} has no matching label`, node.offset);
+      }
+      return;
+  }
+}
+
+function parse(source: string): JqNode {
+  const node = new Parser(source).parse();
+  resolveNames(node, { variables: new Set(), functions: new Set(), parent: null });
+  return node;
+}
+
+/**
+ * Parse a jq program, throwing a `QUERY_SYNTAX_ERROR` whose details give the
+ * offset and the reason
+ */
+export function compileJq(source: string): JqProgram {
+  try {
+    return { source, node: parse(source) };
+  } catch (error) {
+    if (error instanceof JqSyntaxError) {
+      throw createError(ErrorCodes.QUERY_SYNTAX_ERROR, `${error.message} at offset ${error.offset}`);
+    }
+    throw error;
+  }
+}
+
+// Values
+
+const isObject = (value: JsonValue): value is JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value);
+
+const isTruthy = (value: JsonValue) => value !== null && value !== false;
+
+function toJson(value: JsonValue): string {
+  return stringifyJSON(value, 0);
+}
+
+function typeOf(value: JsonValue): string {
+  if (value === null) return 'null';
+  if (isJsonNumber(value)) return 'number';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/** `number (42)`, as jq words values in error messages */
+function describe(value: JsonValue): string {
+  const json = toJson(value);
+  return `${typeOf(value)} (${json.length > 30 ? `${json.slice(0, 27)}...` : json})`;
+}
+
+function toText(value: JsonValue): string {
+  return typeof value === 'string' ? value : toJson(value);
+}
+
+function requireNumber(value: JsonValue, what = 'number required'): number {
+  if (!isJsonNumber(value)) throw new JqError(`${describe(value)} ${what}`);
+  return toNumber(value);
+}
+
+function requireString(value: JsonValue, what: string): string {
+  if (typeof value !== 'string') throw new JqError(`${describe(value)} ${what}`);
+  return value;
+}
+
+function requireArray(value: JsonValue, what: string): JsonArray {
+  if (!Array.isArray(value)) throw new JqError(`${describe(value)} ${what}`);
+  return value;
+}
+
+const TYPE_ORDER = ['null', 'boolean', 'number', 'string', 'array', 'object'];
+
+/** jq's total order: null < false < true < numbers < strings < arrays < objects */
+function compareValues(a: JsonValue, b: JsonValue): number {
+  const typeA = typeOf(a);
+  const typeB = typeOf(b);
+  if (typeA !== typeB) return TYPE_ORDER.indexOf(typeA) - TYPE_ORDER.indexOf(typeB);
+  if (isJsonNumber(a) && isJsonNumber(b)) return Math.sign(toNumber(a) - toNumber(b));
+  if (typeof a === 'boolean') return Number(a) - Number(b);
+  if (typeof a === 'string' && typeof b === 'string') return Math.sign(compareCodePoints(a, b));
+  if (Array.isArray(a) && Array.isArray(b)) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      const difference = compareValues(a[i] ?? null, b[i] ?? null); // eslint-disable-line security/detect-object-injection
+      if (difference !== 0) return difference;
+    }
+    return Math.sign(a.length - b.length);
+  }
+  if (isObject(a) && isObject(b)) {
+    const keysA = sortedKeys(a);
+    const keysB = sortedKeys(b);
+    const byKeys = compareValues(keysA, keysB);
+    if (byKeys !== 0) return byKeys;
+    for (const key of keysA) {
+      const difference = compareValues(a[key] ?? null, b[key] ?? null); // eslint-disable-line security/detect-object-injection
+      if (difference !== 0) return difference;
+    }
+  }
+  return 0;
+}
+
+const sortedKeys = (object: JsonObject) => Object.keys(object).sort(compareCodePoints);
+
+function sortBy<T>(items: T[], key: (item: T) => JsonValue): T[] {
+  const keyed = items.map((item) => ({ item, key: key(item) }));
+  // Array.prototype.sort is stable, so equal keys keep their order
+  keyed.sort((a, b) => compareValues(a.key, b.key));
+  return keyed.map(({ item }) => item);
+}
+
+function length(value: JsonValue): JsonValue {
+  if (value === null) return 0;
+  if (typeof value === 'boolean') throw new JqError(`${describe(value)} has no length`);
+  if (isJsonNumber(value)) return Math.abs(toNumber(value));
+  if (typeof value === 'string') return Array.from(value).length;
+  if (Array.isArray(value)) return value.length;
+  return Object.keys(value).length;
+}
+
+function deepMerge(target: JsonObject, source: JsonObject): JsonObject {
+  const result: JsonObject = { ...target };
+  Object.entries(source).forEach(([key, value]) => {
+    const existing = Object.prototype.hasOwnProperty.call(result, key) ? result[key] : undefined; // eslint-disable-line security/detect-object-injection
+    setMember(result, key, existing !== undefined && isObject(existing) && isObject(value) ? deepMerge(existing, value) : value);
+  });
+  return result;
+}
+
+function arithmetic(operator: BinaryOperator, left: JsonValue, right: JsonValue): JsonValue {
+  switch (operator) {
+    case '==': return compareValues(left, right) === 0;
+    case '!=': return compareValues(left, right) !== 0;
+    case '<': return compareValues(left, right) < 0;
+    case '<=': return compareValues(left, right) <= 0;
+    case '>': return compareValues(left, right) > 0;
+    case '>=': return compareValues(left, right) >= 0;
+    default:
+      break;
+  }
+
+  const fail = (verb: string, reason = ''): never => {
+    throw new JqError(`${describe(left)} and ${describe(right)} cannot be ${verb}${reason}`);
+  };
+  const bothNumbers = isJsonNumber(left) && isJsonNumber(right);
+  switch (operator) {
+    case '+':
+      if (left === null) return right;
+      if (right === null) return left;
+      if (bothNumbers) return toNumber(left) + toNumber(right);
+      if (typeof left === 'string' && typeof right === 'string') return left + right;
+      if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+      if (isObject(left) && isObject(right)) return { ...left, ...right };
+      return fail('added');
+    case '-':
+      if (bothNumbers) return toNumber(left) - toNumber(right);
+      if (Array.isArray(left) && Array.isArray(right)) {
+        return left.filter((item) => !right.some((other) => compareValues(item, other) === 0));
+      }
+      return fail('subtracted');
+    case '*': {
+      if (bothNumbers) return toNumber(left) * toNumber(right);
+      if (isObject(left) && isObject(right)) return deepMerge(left, right);
+      const text = typeof left === 'string' ? left : right;
+      const times = isJsonNumber(left) ? left : right;
+      if (typeof text === 'string' && isJsonNumber(times)) {
+        const count = Math.trunc(toNumber(times));
+        return count > 0 ? text.repeat(count) : null;
+      }
+      return fail('multiplied');
+    }
+    case '/':
+      if (bothNumbers) {
+        if (toNumber(right) === 0) fail('divided', ' because the divisor is zero');
+        return toNumber(left) / toNumber(right);
+      }
+      if (typeof left === 'string' && typeof right === 'string') return splitString(left, right);
+      return fail('divided');
+    case '%': {
+      if (!bothNumbers) return fail('divided');
+      const divisor = Math.trunc(toNumber(right));
+      if (divisor === 0) fail('divided', ' because the divisor is zero');
+      return Math.trunc(toNumber(left)) % divisor;
+    }
+  }
+}
+
+function splitString(text: string, separator: string): JsonValue {
+  if (text === '') return [];
+  return separator === '' ? Array.from(text) : text.split(separator);
+}
+
+// Paths: string keys, number indexes and {start, end} slices
+
+type PathComponent = string | number | JsonObject;
+type PathValue = [PathComponent[], JsonValue];
+
+function indexValue(value: JsonValue, key: JsonValue): JsonValue {
+  if (isObject(key) && (Array.isArray(value) || value === null)) {
+    const start = key['start'] ?? null;
+    const end = key['end'] ?? null;
+    return sliceValue(value, start, end);
+  }
+  if (value === null && (typeof key === 'string' || isJsonNumber(key))) return null;
+  if (isObject(value) && typeof key === 'string') {
+    return Object.prototype.hasOwnProperty.call(value, key) ? value[key] ?? null : null; // eslint-disable-line security/detect-object-injection
+  }
+  if (Array.isArray(value) && isJsonNumber(key)) {
+    let index = Math.floor(toNumber(key));
+    if (index < 0) index += value.length;
+    return value[index] ?? null; // eslint-disable-line security/detect-object-injection
+  }
+  if (Array.isArray(value) && Array.isArray(key)) return indicesOf(value, key);
+  const keyText = typeof key === 'string' ? `"${key}"` : typeOf(key);
+  throw new JqError(`Cannot index ${typeOf(value)} with ${keyText}`);
+}
+
+function sliceBounds(length: number, from: JsonValue, to: JsonValue): [number, number] {
+  const bound = (value: JsonValue, fallback: number, round: (n: number) => number) => {
+    if (value === null) return fallback;
+    let n = round(requireNumber(value, 'cannot be used as a slice index'));
+    if (n < 0) n += length;
+    return Math.min(Math.max(n, 0), length);
+  };
+  const start = bound(from, 0, Math.floor);
+  return [start, Math.max(start, bound(to, length, Math.ceil))];
+}
+
+function sliceValue(value: JsonValue, from: JsonValue, to: JsonValue): JsonValue {
+  if (value === null) return null;
+  if (typeof value === 'string') {
+    const chars = Array.from(value);
+    return chars.slice(...sliceBounds(chars.length, from, to)).join('');
+  }
+  if (Array.isArray(value)) return value.slice(...sliceBounds(value.length, from, to));
+  throw new JqError(`Cannot index ${typeOf(value)} with object`);
+}
+
+function entriesOf(value: JsonValue): Array<[string | number, JsonValue]> {
+  if (Array.isArray(value)) return value.map((item, index) => [index, item]);
+  if (isObject(value)) return Object.entries(value);
+  throw new JqError(`Cannot iterate over ${describe(value)}`);
+}
+
+function toPath(value: JsonValue): PathComponent[] {
+  if (!Array.isArray(value)) throw new JqError('Path must be specified as an array');
+  return value.map((component) => {
+    if (typeof component === 'string' || isObject(component)) return component;
+    if (isJsonNumber(component)) return toNumber(component);
+    throw new JqError(`Invalid path component ${describe(component)}`);
+  });
+}
+
+function getPath(value: JsonValue, path: PathComponent[]): JsonValue {
+  return path.reduce<JsonValue>((current, key) => (current === null ? null : indexValue(current, key)), value);
+}
+
+function setPath(value: JsonValue, path: PathComponent[], replacement: JsonValue, depth = 0): JsonValue {
+  if (depth === path.length) return replacement;
+  const key = path[depth]; // eslint-disable-line security/detect-object-injection
+  if (typeof key === 'string') {
+    if (value !== null && !isObject(value)) throw new JqError(`Cannot index ${typeOf(value)} with "${key}"`);
+    const object: JsonObject = { ...(value ?? {}) };
+    setMember(object, key, setPath(indexValue(object, key), path, replacement, depth + 1));
+    return object;
+  }
+  if (typeof key === 'number') {
+    if (value !== null && !Array.isArray(value)) throw new JqError(`Cannot index ${typeOf(value)} with number`);
+    const array = [...(value ?? [])];
+    let index = Math.floor(key);
+    if (index < 0) index += array.length;
+    if (index < 0) throw new JqError('Out of bounds negative array index');
+    while (array.length < index) array.push(null);
+    array[index] = setPath(array[index] ?? null, path, replacement, depth + 1); // eslint-disable-line security/detect-object-injection
+    return array;
+  }
+  if (key === undefined) return replacement;
+  if (value !== null && !Array.isArray(value)) throw new JqError(`Cannot update field at object index of ${typeOf(value)}`);
+  const array = value ?? [];
+  const [start, end] = sliceBounds(array.length, key['start'] ?? null, key['end'] ?? null);
+  const replaced = setPath(array.slice(start, end), path, replacement, depth + 1);
+  if (!Array.isArray(replaced)) throw new JqError('A slice of an array can only be assigned another array');
+  return [...array.slice(0, start), ...replaced, ...array.slice(end)];
+}
+
+function deletePath(value: JsonValue, path: PathComponent[]): JsonValue {
+  const [key, ...rest] = path;
+  if (key === undefined) return null;
+  if (value === null) return null;
+  if (rest.length > 0) {
+    const child = indexValue(value, key);
+    return child === null ? value : setPath(value, [key], deletePath(child, rest));
+  }
+  if (typeof key === 'string') {
+    if (!isObject(value)) throw new JqError(`Cannot delete field at object index of ${typeOf(value)}`);
+    const { [key]: _removed, ...remaining } = value;
+    return remaining;
+  }
+  if (!Array.isArray(value)) throw new JqError(`Cannot delete field at index of ${typeOf(value)}`);
+  if (typeof key === 'number') {
+    const index = key < 0 ? Math.floor(key) + value.length : Math.floor(key);
+    return value.filter((_item, i) => i !== index);
+  }
+  const [start, end] = sliceBounds(value.length, key['start'] ?? null, key['end'] ?? null);
+  return [...value.slice(0, start), ...value.slice(end)];
+}
+
+/** Delete several paths, deepest and last first so earlier deletions do not shift later ones */
+function deletePaths(value: JsonValue, paths: PathComponent[][]): JsonValue {
+  return [...paths]
+    .sort((a, b) => compareValues(b, a))
+    .reduce((current, path) => deletePath(current, path), value);
+}
+
+function indicesOf(value: JsonValue, target: JsonValue): JsonValue {
+  if (value === null) return null;
+  if (typeof value === 'string' && typeof target === 'string') {
+    if (target === '') return null;
+    const chars = Array.from(value);
+    const needle = Array.from(target);
+    const found: number[] = [];
+    for (let i = 0; i + needle.length <= chars.length; i++) {
+      if (needle.every((char, j) => chars[i + j] === char)) found.push(i);
+    }
+    return found;
+  }
+  if (Array.isArray(value)) {
+    const needle = Array.isArray(target) ? target : [target];
+    if (needle.length === 0) return null;
+    const found: number[] = [];
+    for (let i = 0; i + needle.length <= value.length; i++) {
+      if (needle.every((item, j) => compareValues(value[i + j] ?? null, item) === 0)) found.push(i);
+    }
+    return found;
+  }
+  throw new JqError(`Cannot determine the indices of ${describe(target)} in ${describe(value)}`);
+}
+
+function contains(a: JsonValue, b: JsonValue): boolean {
+  if (typeOf(a) !== typeOf(b)) throw new JqError(`${describe(a)} and ${describe(b)} cannot have their containment checked`);
+  if (isObject(a) && isObject(b)) {
+    return Object.entries(b).every(([key, value]) => Object.prototype.hasOwnProperty.call(a, key) && contains(a[key] ?? null, value)); // eslint-disable-line security/detect-object-injection
+  }
+  if (Array.isArray(a) && Array.isArray(b)) return b.every((item) => a.some((other) => typeOf(other) === typeOf(item) && contains(other, item)));
+  if (typeof a === 'string' && typeof b === 'string') return a.includes(b);
+  return compareValues(a, b) === 0;
+}
+
+// Formats
+
+function toBase64(text: string): string {
+  let binary = '';
+  new TextEncoder().encode(text).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(text: string): string {
+  try {
+    const binary = atob(text.replace(/=+$/, ''));
+    return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+  } catch {
+    throw new JqError(`${describe(text)} is not valid base64 data`);
+  }
+}
+
+function applyFormat(format: string, value: JsonValue): string {
+  switch (format) {
+    case 'json':
+      return toJson(value);
+    case 'html':
+      return toText(value).replace(/[<>&'"]/g, (char) => {
+        switch (char) {
+          case '<': return '&lt;';
+          case '>': return '&gt;';
+          case '&': return '&amp;';
+          case "'": return '&#39;';
+          default: return '&quot;';
+        }
+      });
+    case 'uri':
+      return encodeURIComponent(toText(value)).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    case 'csv':
+    case 'tsv':
+      return requireArray(value, `cannot be ${format}-formatted, only an array can be`).map((item) => {
+        if (item === null) return '';
+        if (typeof item === 'boolean') return String(item);
+        if (isJsonNumber(item)) return formatNumber(item);
+        if (typeof item !== 'string') throw new JqError(`${describe(item)} is not valid in a ${format} row`);
+        return format === 'csv'
+          ? `"${item.replace(/"/g, '""')}"`
+          : item.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\n/g, '\\n').replace(/\r/g, '\\r');
+      }).join(format === 'csv' ? ',' : '\t');
+    case 'sh':
+      return (Array.isArray(value) ? value : [value]).map((item) => {
+        if (typeof item === 'string') return `'${item.replace(/'/g, "'\\''")}'`;
+        if (item !== null && typeof item === 'object' && !isLosslessNumber(item)) {
+          throw new JqError(`${describe(item)} can not be escaped for shell`);
+        }
+        return toJson(item);
+      }).join(' ');
+    case 'base64':
+      return toBase64(toText(value));
+    case 'base64d':
+      return fromBase64(toText(value));
+    default:
+      return toText(value);
+  }
+}
+
+// Regular expressions
+
+interface RegexMatch {
+  /** UTF-16 offsets into the input */
+  index: number;
+  text: string;
+  captures: Array<{ index: number; text: string | null; name: string | null }>;
+}
+
+const regexCache = new Map<string, { regex: RegExp; names: Array<string | null> }>();
+
+/** The names of a pattern's capture groups, in order, with `null` for unnamed groups */
+function captureNames(pattern: string): Array<string | null> {
+  const names: Array<string | null> = [];
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern.charAt(i);
+    if (char === '\\') i++;
+    else if (inClass) inClass = char !== ']';
+    else if (char === '[') inClass = true;
+    else if (char === '(') {
+      const named = /^\?<([A-Za-z_]\w*)>/.exec(pattern.slice(i + 1));
+      if (named) names.push(named[1] ?? null);
+      else if (pattern.charAt(i + 1) !== '?') names.push(null);
+    }
+  }
+  return names;
+}
+
+function compileRegex(pattern: JsonValue, modifiers: JsonValue): { regex: RegExp; names: Array<string | null>; global: boolean; skipEmpty: boolean } {
+  const source = requireString(pattern, 'cannot be matched, as it is not a string');
+  const flagText = modifiers === null ? '' : requireString(modifiers, 'is not a string');
+  let flags = '';
+  let global = false;
+  let skipEmpty = false;
+  let extended = false;
+  for (const flag of flagText) {
+    switch (flag) {
+      case 'g': global = true; break;
+      case 'n': skipEmpty = true; break;
+      case 'x': extended = true; break;
+      case 'i': flags += 'i'; break;
+      case 's': case 'p': flags += flags.includes('s') ? '' : 's'; break;
+      case 'l': break;
+      default:
+        throw new JqError(`${flagText} is not a valid modifier string`);
+    }
+  }
+
+  const key = `${flags}${extended ? 'x' : ''}:${source}`;
+  let compiled = regexCache.get(key);
+  if (!compiled) {
+    const body = extended ? source.replace(/\\#|#.*$|\s+/gm, (match) => (match === '\\#' ? match : '')) : source;
+    let regex: RegExp;
+    try {
+      regex = new RegExp(body, `${flags}gdu`); // eslint-disable-line security/detect-non-literal-regexp
+    } catch {
+      try {
+        // Oniguruma accepts escapes such as `\-` that Unicode mode rejects
+        regex = new RegExp(body, `${flags}gd`); // eslint-disable-line security/detect-non-literal-regexp
+      } catch (error) {
+        throw new JqError(`${source} (at offset 0) is not a valid regex: ${error instanceof Error ? error.message : ''}`);
+      }
+    }
+    compiled = { regex, names: captureNames(body) };
+    if (regexCache.size >= 256) regexCache.clear();
+    regexCache.set(key, compiled);
+  }
+  return { ...compiled, global, skipEmpty };
+}
+
+function findMatches(input: JsonValue, pattern: JsonValue, modifiers: JsonValue, forceGlobal = false): RegexMatch[] {
+  const text = requireString(input, 'cannot be matched, as it is not a string');
+  const { regex, names, global, skipEmpty } = compileRegex(pattern, modifiers);
+  const matches: RegexMatch[] = [];
+  regex.lastIndex = 0;
+  for (let match = regex.exec(text); match; match = regex.exec(text)) {
+    if (match[0] === '') regex.lastIndex += regex.unicode && (text.codePointAt(match.index) ?? 0) > 0xffff ? 2 : 1;
+    if (!(skipEmpty && match[0] === '')) {
+      // The `d` flag's match indices postdate the ES2020 typings
+      const { indices } = match as RegExpExecArray & { indices?: Array<[number, number] | undefined> };
+      matches.push({
+        index: match.index,
+        text: match[0],
+        captures: names.map((name, i) => ({ index: indices?.[i + 1]?.[0] ?? -1, text: match?.[i + 1] ?? null, name })),
+      });
+    }
+    if (!(global || forceGlobal) || regex.lastIndex > text.length) break;
+  }
+  return matches;
+}
+
+/** A match as jq reports it, with offsets and lengths in code points */
+function matchObject(input: string, match: RegexMatch): JsonValue {
+  const codePoints = (from: number, to: number) => Array.from(input.slice(from, to)).length;
+  return {
+    offset: codePoints(0, match.index),
+    length: Array.from(match.text).length,
+    string: match.text,
+    captures: match.captures.map((capture) => ({
+      offset: capture.index < 0 ? -1 : codePoints(0, capture.index),
+      length: capture.text === null ? 0 : Array.from(capture.text).length,
+      string: capture.text,
+      name: capture.name,
+    })),
+  };
+}
+
+function captureObject(match: RegexMatch): JsonObject {
+  const object: JsonObject = {};
+  match.captures.forEach(({ name, text }) => {
+    if (name) setMember(object, name, text);
+  });
+  return object;
+}
+
+// Dates
+
+function toIsoDate(value: JsonValue): string {
+  const seconds = requireNumber(value, 'cannot be formatted as a date');
+  return new Date(Math.floor(seconds) * 1000).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function fromIsoDate(value: JsonValue): number {
+  const text = requireString(value, 'cannot be parsed as a date');
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(text)) {
+    throw new JqError(`date "${text}" does not match format "%Y-%m-%dT%H:%M:%SZ"`);
+  }
+  return Date.parse(text) / 1000;
+}
+
+// Evaluation
+
+interface Closure {
+  params: string[];
+  body: JqNode;
+  env: Env;
+}
+
+class Env {
+  private readonly variables = new Map<string, JsonValue>();
+  private readonly functions = new Map<string, Closure>();
+
+  constructor(private readonly parent: Env | null = null) {}
+
+  withVariable(name: string, value: JsonValue): Env {
+    const env = new Env(this);
+    env.variables.set(name, value);
+    return env;
+  }
+
+  withFunction(key: string, closure: Omit<Closure, 'env'>): Env {
+    const env = new Env(this);
+    // The closure sees itself, so definitions can recurse
+    env.functions.set(key, { ...closure, env });
+    return env;
+  }
+
+  /** Define a function in place; used for arguments, which close over the caller's scope */
+  define(key: string, closure: Closure): void {
+    this.functions.set(key, closure);
+  }
+
+  variable(name: string): JsonValue {
+    for (let env: Env | null = this; env; env = env.parent) {
+      const value = env.variables.get(name);
+      if (value !== undefined) return value;
+    }
+    if (name === 'ENV') return {};
+    throw new JqError(`$${name} is not defined`);
+  }
+
+  lookup(key: string): Closure | undefined {
+    for (let env: Env | null = this; env; env = env.parent) {
+      const closure = env.functions.get(key);
+      if (closure) return closure;
+    }
+    return undefined;
+  }
+}
+
+interface Native {
+  evaluate: (run: Interpreter, input: JsonValue, args: JqNode[], env: Env) => Iterable<JsonValue>;
+  /** For builtins that can appear in path expressions, such as `getpath`, `select` or `first` */
+  paths?: (run: Interpreter, input: JsonValue, path: PathComponent[], args: JqNode[], env: Env) => Iterable<PathValue>;
+}
+
+class Interpreter {
+  private steps = 0;
+
+  step(): void {
+    this.steps++;
+    if (this.steps > MAX_STEPS) {
+      throw createError(ErrorCodes.QUERY_EVALUATION_ERROR, 'The query took too many steps; it may never finish');
+    }
+  }
+
+  /** Every combination of the arguments' outputs, last argument varying fastest */
+  *combinations(args: JqNode[], input: JsonValue, env: Env, prefix: JsonValue[] = []): Generator<JsonValue[]> {
+    const [first, ...rest] = args;
+    if (!first) {
+      yield prefix;
+      return;
+    }
+    for (const value of this.evaluate(first, input, env)) yield* this.combinations(rest, input, env, [...prefix, value]);
+  }
+
+  *evaluate(node: JqNode, input: JsonValue, env: Env): Generator<JsonValue> {
+    this.step();
+    switch (node.type) {
+      case 'identity':
+        yield input;
+        return;
+      case 'literal':
+        yield node.value;
+        return;
+      case 'variable':
+        yield node.name === '__loc__' ? { file: '<query>', line: 1 } : env.variable(node.name);
+        return;
+      case 'index':
+        for (const target of this.evaluate(node.target, input, env)) {
+          for (const key of this.evaluate(node.index, input, env)) yield indexValue(target, key);
+        }
+        return;
+      case 'slice':
+        for (const target of this.evaluate(node.target, input, env)) {
+          for (const from of node.from ? this.evaluate(node.from, input, env) : [null]) {
+            for (const to of node.to ? this.evaluate(node.to, input, env) : [null]) yield sliceValue(target, from, to);
+          }
+        }
+        return;
+      case 'iterate':
+        for (const target of this.evaluate(node.target, input, env)) {
+          for (const [, value] of entriesOf(target)) yield value;
+        }
+        return;
+      case 'try':
+        try {
+          for (const value of this.evaluate(node.body, input, env)) yield value;
+        } catch (error) {
+          if (!(error instanceof JqError)) throw error;
+          if (node.handler) yield* this.evaluate(node.handler, error.value, env);
+        }
+        return;
+      case 'negate':
+        for (const value of this.evaluate(node.body, input, env)) yield -requireNumber(value, 'cannot be negated');
+        return;
+      case 'pipe':
+        for (const value of this.evaluate(node.left, input, env)) yield* this.evaluate(node.right, value, env);
+        return;
+      case 'comma':
+        yield* this.evaluate(node.left, input, env);
+        yield* this.evaluate(node.right, input, env);
+        return;
+      case 'and':
+      case 'or':
+        for (const left of this.evaluate(node.left, input, env)) {
+          if (isTruthy(left) === (node.type === 'or')) {
+            yield node.type === 'or';
+            continue;
+          }
+          for (const right of this.evaluate(node.right, input, env)) yield isTruthy(right);
+        }
+        return;
+      case 'alternative': {
+        let produced = false;
+        try {
+          for (const value of this.evaluate(node.left, input, env)) {
+            if (!isTruthy(value)) continue;
+            produced = true;
+            yield value;
+          }
+        } catch (error) {
+          if (!(error instanceof JqError)) throw error;
+        }
+        if (!produced) yield* this.evaluate(node.right, input, env);
+        return;
+      }
+      case 'binary':
+        // The right operand varies slowest, as in jq: `(1,2) + (10,20)` is 11, 12, 21, 22
+        for (const right of this.evaluate(node.right, input, env)) {
+          for (const left of this.evaluate(node.left, input, env)) yield arithmetic(node.operator, left, right);
+        }
+        return;
+      case 'update':
+        yield* this.update(node.operator, node.left, node.right, input, env);
+        return;
+      case 'array':
+        yield node.body ? Array.from(this.evaluate(node.body, input, env)) : [];
+        return;
+      case 'object':
+        yield* this.buildObject(node.entries, 0, {}, input, env);
+        return;
+      case 'string':
+        yield* this.interpolate(node.parts, 0, '', node.format, input, env);
+        return;
+      case 'format':
+        yield applyFormat(node.name, input);
+        return;
+      case 'if':
+        for (const condition of this.evaluate(node.condition, input, env)) {
+          if (isTruthy(condition)) yield* this.evaluate(node.then, input, env);
+          else if (node.otherwise) yield* this.evaluate(node.otherwise, input, env);
+          else yield input;
+        }
+        return;
+      case 'reduce':
+        for (const init of this.evaluate(node.init, input, env)) {
+          let state: JsonValue = init;
+          for (const item of this.evaluate(node.source, input, env)) {
+            for (const scope of this.bind(node.pattern, item, input, env)) {
+              let last: JsonValue = null;
+              for (const value of this.evaluate(node.update, state, scope)) last = value;
+              state = last;
+            }
+          }
+          yield state;
+        }
+        return;
+      case 'foreach':
+        for (const init of this.evaluate(node.init, input, env)) {
+          let state: JsonValue = init;
+          for (const item of this.evaluate(node.source, input, env)) {
+            for (const scope of this.bind(node.pattern, item, input, env)) {
+              for (const value of this.evaluate(node.update, state, scope)) {
+                state = value;
+                if (node.extract) yield* this.evaluate(node.extract, value, scope);
+                else yield value;
+              }
+            }
+          }
+        }
+        return;
+      case 'bind':
+        for (const value of this.evaluate(node.source, input, env)) {
+          for (const scope of this.bind(node.pattern, value, input, env)) yield* this.evaluate(node.body, input, scope);
+        }
+        return;
+      case 'def':
+        yield* this.evaluate(node.rest, input, env.withFunction(`${node.name}/${node.params.length}`, node));
+        return;
+      case 'label': {
+        // Each run of the label gets its own identity, so a recursive function only breaks out of its own call
+        const label: JsonObject = {};
+        try {
+          yield* this.evaluate(node.body, input, env.withVariable(labelVariable(node.name), label));
+        } catch (error) {
+          if (!(error instanceof JqBreak) || error.label !== label) throw error;
+        }
+        return;
+      }
+      case 'break':
+        throw new JqBreak(env.variable(labelVariable(node.name)));
+      case 'call':
+        yield* this.call(node, input, env);
+        return;
+    }
+  }
+
+  private *call(node: Extract<JqNode, { type: 'call' }>, input: JsonValue, env: Env): Generator<JsonValue> {
+    const key = `${node.name}/${node.args.length}`;
+    const closure = env.lookup(key);
+    if (closure) {
+      yield* this.evaluate(closure.body, input, this.enter(closure, node.args, env));
+      return;
+    }
+    const native = NATIVES[key]; // eslint-disable-line security/detect-object-injection
+    if (!native) throw new JqError(`${key} is not defined`);
+    yield* native.evaluate(this, input, node.args, env);
+  }
+
+  /** The scope a function body runs in: its definition's, plus its arguments as closures over the caller's */
+  private enter(closure: Closure, args: JqNode[], caller: Env): Env {
+    const scope = new Env(closure.env);
+    closure.params.forEach((param, i) => {
+      const body = args[i]; // eslint-disable-line security/detect-object-injection
+      if (body) scope.define(`${param}/0`, { params: [], body, env: caller });
+    });
+    return scope;
+  }
+
+  private *buildObject(
+    entries: Array<{ key: JqNode; value: JqNode }>,
+    index: number,
+    object: JsonObject,
+    input: JsonValue,
+    env: Env
+  ): Generator<JsonValue> {
+    const entry = entries[index]; // eslint-disable-line security/detect-object-injection
+    if (!entry) {
+      yield object;
+      return;
+    }
+    for (const key of this.evaluate(entry.key, input, env)) {
+      if (typeof key !== 'string') throw new JqError(`Object keys must be strings, not ${describe(key)}`);
+      for (const value of this.evaluate(entry.value, input, env)) {
+        yield* this.buildObject(entries, index + 1, { ...object, [key]: value }, input, env);
+      }
+    }
+  }
+
+  private *interpolate(
+    parts: Array<string | JqNode>,
+    index: number,
+    text: string,
+    format: string | null,
+    input: JsonValue,
+    env: Env
+  ): Generator<JsonValue> {
+    const part = parts[index]; // eslint-disable-line security/detect-object-injection
+    if (part === undefined) {
+      yield text;
+      return;
+    }
+    if (typeof part === 'string') {
+      yield* this.interpolate(parts, index + 1, text + part, format, input, env);
+      return;
+    }
+    for (const value of this.evaluate(part, input, env)) {
+      yield* this.interpolate(parts, index + 1, text + (format ? applyFormat(format, value) : toText(value)), format, input, env);
+    }
+  }
+
+  /** Bind a destructuring pattern, once per combination of its computed keys' outputs */
+  *bind(pattern: Pattern, value: JsonValue, input: JsonValue, env: Env): Generator<Env> {
+    if (pattern.kind === 'variable') {
+      yield env.withVariable(pattern.name, value);
+      return;
+    }
+    if (pattern.kind === 'array') {
+      if (value !== null && !Array.isArray(value)) throw new JqError(`Cannot index ${typeOf(value)} with number`);
+      const bindFrom = function* (run: Interpreter, index: number, scope: Env): Generator<Env> {
+        const element = pattern.elements[index]; // eslint-disable-line security/detect-object-injection
+        if (!element) {
+          yield scope;
+          return;
+        }
+        for (const next of run.bind(element, value?.[index] ?? null, input, scope)) yield* bindFrom(run, index + 1, next); // eslint-disable-line security/detect-object-injection
+      };
+      yield* bindFrom(this, 0, env);
+      return;
+    }
+
+    const bindFrom = function* (run: Interpreter, index: number, scope: Env): Generator<Env> {
+      const entry = pattern.entries[index]; // eslint-disable-line security/detect-object-injection
+      if (!entry) {
+        yield scope;
+        return;
+      }
+      for (const key of run.evaluate(entry.key, input, scope)) {
+        if (typeof key !== 'string') throw new JqError(`Cannot index ${typeOf(value)} with ${typeOf(key)}`);
+        if (value !== null && !isObject(value)) throw new JqError(`Cannot index ${typeOf(value)} with "${key}"`);
+        const child = value?.[key] ?? null; // eslint-disable-line security/detect-object-injection
+        const withVariable = entry.variable ? scope.withVariable(entry.variable, child) : scope;
+        if (!entry.pattern) {
+          yield* bindFrom(run, index + 1, withVariable);
+          continue;
+        }
+        for (const next of run.bind(entry.pattern, child, input, withVariable)) yield* bindFrom(run, index + 1, next);
+      }
+    };
+    yield* bindFrom(this, 0, env);
+  }
+
+  /** The paths a filter selects, with the values at them, for `path`, `del` and the assignment operators */
+  *paths(node: JqNode, input: JsonValue, path: PathComponent[], env: Env): Generator<PathValue> {
+    this.step();
+    switch (node.type) {
+      case 'identity':
+        yield [path, input];
+        return;
+      case 'index':
+        for (const [targetPath, target] of this.paths(node.target, input, path, env)) {
+          for (const key of this.evaluate(node.index, input, env)) {
+            const component = isJsonNumber(key) ? toNumber(key) : key;
+            if (typeof component !== 'string' && typeof component !== 'number' && !isObject(component)) {
+              throw new JqError(`Cannot index ${typeOf(target)} with ${typeOf(key)}`);
+            }
+            yield [[...targetPath, component], indexValue(target, key)];
+          }
+        }
+        return;
+      case 'slice':
+        for (const [targetPath, target] of this.paths(node.target, input, path, env)) {
+          for (const from of node.from ? this.evaluate(node.from, input, env) : [null]) {
+            for (const to of node.to ? this.evaluate(node.to, input, env) : [null]) {
+              yield [[...targetPath, { start: from, end: to }], sliceValue(target, from, to)];
+            }
+          }
+        }
+        return;
+      case 'iterate':
+        for (const [targetPath, target] of this.paths(node.target, input, path, env)) {
+          for (const [key, value] of entriesOf(target)) yield [[...targetPath, key], value];
+        }
+        return;
+      case 'try':
+        try {
+          for (const pathValue of this.paths(node.body, input, path, env)) yield pathValue;
+        } catch (error) {
+          if (!(error instanceof JqError)) throw error;
+          if (node.handler) yield* this.paths(node.handler, error.value, path, env);
+        }
+        return;
+      case 'pipe':
+        for (const [leftPath, value] of this.paths(node.left, input, path, env)) yield* this.paths(node.right, value, leftPath, env);
+        return;
+      case 'comma':
+        yield* this.paths(node.left, input, path, env);
+        yield* this.paths(node.right, input, path, env);
+        return;
+      case 'alternative': {
+        let produced = false;
+        try {
+          for (const pathValue of this.paths(node.left, input, path, env)) {
+            if (!isTruthy(pathValue[1])) continue;
+            produced = true;
+            yield pathValue;
+          }
+        } catch (error) {
+          if (!(error instanceof JqError)) throw error;
+        }
+        if (!produced) yield* this.paths(node.right, input, path, env);
+        return;
+      }
+      case 'if':
+        for (const condition of this.evaluate(node.condition, input, env)) {
+          if (isTruthy(condition)) yield* this.paths(node.then, input, path, env);
+          else if (node.otherwise) yield* this.paths(node.otherwise, input, path, env);
+          else yield [path, input];
+        }
+        return;
+      case 'bind':
+        for (const value of this.evaluate(node.source, input, env)) {
+          for (const scope of this.bind(node.pattern, value, input, env)) yield* this.paths(node.body, input, path, scope);
+        }
+        return;
+      case 'def':
+        yield* this.paths(node.rest, input, path, env.withFunction(`${node.name}/${node.params.length}`, node));
+        return;
+      case 'label': {
+        const label: JsonObject = {};
+        try {
+          yield* this.paths(node.body, input, path, env.withVariable(labelVariable(node.name), label));
+        } catch (error) {
+          if (!(error instanceof JqBreak) || error.label !== label) throw error;
+        }
+        return;
+      }
+      case 'call': {
+        const key = `${node.name}/${node.args.length}`;
+        const closure = env.lookup(key);
+        if (closure) {
+          yield* this.paths(closure.body, input, path, this.enter(closure, node.args, env));
+          return;
+        }
+        const native = NATIVES[key]; // eslint-disable-line security/detect-object-injection
+        if (native?.paths) {
+          yield* native.paths(this, input, path, node.args, env);
+          return;
+        }
+        break;
+      }
+      default:
+        break;
+    }
+    for (const value of this.evaluate(node, input, env)) {
+      throw new JqError(`Invalid path expression with result ${describe(value)}`);
+    }
+  }
+
+  private *update(operator: UpdateOperator, left: JqNode, right: JqNode, input: JsonValue, env: Env): Generator<JsonValue> {
+    const paths = () => Array.from(this.paths(left, input, [], env), ([path]) => path);
+
+    if (operator === '|=') {
+      let result = input;
+      const removed: PathComponent[][] = [];
+      for (const path of paths()) {
+        const current = getPath(result, path);
+        const replacement = this.first(this.evaluate(right, current, env));
+        if (replacement.found) result = setPath(result, path, replacement.value);
+        else removed.push(path);
+      }
+      yield removed.length > 0 ? deletePaths(result, removed) : result;
+      return;
+    }
+
+    // The right-hand side sees the original input, and each of its outputs gives one result
+    for (const value of this.evaluate(right, input, env)) {
+      yield paths().reduce((result, path) => {
+        if (operator === '=') return setPath(result, path, value);
+        const current = getPath(result, path);
+        if (operator === '//=') return setPath(result, path, isTruthy(current) ? current : value);
+        return setPath(result, path, arithmetic(operator.slice(0, -1) as BinaryOperator, current, value));
+      }, input);
+    }
+  }
+
+  first(values: Iterable<JsonValue>): { found: true; value: JsonValue } | { found: false } {
+    for (const value of values) return { found: true, value };
+    return { found: false };
+  }
+}
+
+/** A native taking value arguments: it runs once per combination of their outputs */
+function valueFunction(compute: (input: JsonValue, ...args: JsonValue[]) => JsonValue): Native {
+  return {
+    *evaluate(run, input, args, env) {
+      for (const values of run.combinations(args, input, env)) yield compute(input, ...values);
+    },
+  };
+}
+
+function mathFunction(compute: (n: number) => number): Native {
+  return valueFunction((input) => compute(requireNumber(input)));
+}
+
+/** A native taking one filter argument, evaluated against each array element */
+function byFunction(compute: (items: JsonArray, keys: JsonValue[]) => JsonValue, what: string): Native {
+  return {
+    *evaluate(run, input, [filter], env) {
+      const items = requireArray(input, `cannot be ${what}, as it is not an array`);
+      const keys = items.map((item) => (filter ? Array.from(run.evaluate(filter, item, env)) : item));
+      yield compute(items, keys);
+    },
+  };
+}
+
+function sortItems(items: JsonArray, keys: JsonValue[]): JsonArray {
+  return sortBy(items.map((item, index) => ({ item, key: keys[index] ?? null })), ({ key }) => key).map(({ item }) => item); // eslint-disable-line security/detect-object-injection
+}
+
+function groupItems(items: JsonArray, keys: JsonValue[]): JsonArray[] {
+  const sorted = sortBy(items.map((item, index) => ({ item, key: keys[index] ?? null })), ({ key }) => key); // eslint-disable-line security/detect-object-injection
+  const groups: Array<{ key: JsonValue; items: JsonArray }> = [];
+  sorted.forEach(({ item, key }) => {
+    const last = groups[groups.length - 1];
+    if (last && compareValues(last.key, key) === 0) last.items.push(item);
+    else groups.push({ key, items: [item] });
+  });
+  return groups.map((group) => group.items);
+}
+
+function extreme(items: JsonArray, keys: JsonValue[], sign: 1 | -1): JsonValue {
+  let best = -1;
+  keys.forEach((key, index) => {
+    const difference = compareValues(key, keys[best] ?? null); // eslint-disable-line security/detect-object-injection
+    // max keeps the last of equal keys and min the first, as jq does
+    if (best < 0 || (sign > 0 ? difference >= 0 : difference < 0)) best = index;
+  });
+  return best < 0 ? null : items[best] ?? null; // eslint-disable-line security/detect-object-injection
+}
+
+function flatten(items: JsonArray, depth: number): JsonArray {
+  return items.flatMap((item) => (Array.isArray(item) && depth > 0 ? flatten(item, depth - 1) : [item]));
+}
+
+function toNumberValue(value: JsonValue): JsonValue {
+  if (isJsonNumber(value)) return value;
+  const text = requireString(value, 'cannot be parsed as a number');
+  if (!/^-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/.test(text)) { // eslint-disable-line security/detect-unsafe-regex
+    throw new JqError(`Cannot parse '${text}' as a number`);
+  }
+  return Number(text);
+}
+
+function fromJson(value: JsonValue): JsonValue {
+  const text = requireString(value, 'cannot be parsed as JSON');
+  try {
+    return JSON.parse(text) as JsonValue;
+  } catch (error) {
+    throw new JqError(`${text} (while parsing '${text}'): ${error instanceof Error ? error.message : 'invalid JSON'}`);
+  }
+}
+
+function keysOf(value: JsonValue, sorted: boolean): JsonValue {
+  if (Array.isArray(value)) return value.map((_item, index) => index);
+  if (!isObject(value)) throw new JqError(`${describe(value)} has no keys`);
+  return sorted ? sortedKeys(value) : Object.keys(value);
+}
+
+function has(value: JsonValue, key: JsonValue): boolean {
+  if (isObject(value) && typeof key === 'string') return Object.prototype.hasOwnProperty.call(value, key);
+  if (Array.isArray(value) && isJsonNumber(key)) return toNumber(key) >= 0 && toNumber(key) < value.length;
+  throw new JqError(`Cannot check whether ${typeOf(value)} has a ${typeOf(key)} key`);
+}
+
+function toEntries(value: JsonValue): JsonValue {
+  if (!isObject(value) && !Array.isArray(value)) throw new JqError(`${describe(value)} has no keys`);
+  return entriesOf(value).map(([key, item]) => ({ key, value: item }));
+}
+
+function fromEntries(value: JsonValue): JsonValue {
+  const object: JsonObject = {};
+  for (const [, entry] of entriesOf(value)) {
+    if (!isObject(entry)) throw new JqError(`Cannot index ${typeOf(entry)} with "key"`);
+    const key = ['key', 'k', 'name', 'Name', 'Key', 'K'].map((name) => entry[name]).find((candidate) => candidate !== undefined && candidate !== null && candidate !== false) ?? null; // eslint-disable-line security/detect-object-injection
+    const item = ['value', 'v', 'Value', 'V'].map((name) => entry[name]).find((candidate) => candidate !== undefined) ?? null; // eslint-disable-line security/detect-object-injection
+    if (typeof key === 'string') setMember(object, key, item);
+    else if (isJsonNumber(key) || typeof key === 'boolean') setMember(object, toText(key), item);
+    else throw new JqError(`Cannot use ${describe(key)} as object key`);
+  }
+  return object;
+}
+
+function join(value: JsonValue, separator: JsonValue): JsonValue {
+  const glue = requireString(separator, 'cannot be used to join, as it is not a string');
+  return entriesOf(value).map(([, item]) => {
+    if (item === null) return '';
+    if (typeof item === 'string') return item;
+    if (typeof item === 'boolean' || isJsonNumber(item)) return toText(item);
+    throw new JqError(`Cannot join with ${typeOf(item)}`);
+  }).join(glue);
+}
+
+function trimmed(which: 'trim' | 'trimStart' | 'trimEnd'): Native {
+  return valueFunction((input) => requireString(input, 'cannot be trimmed, as it is not a string')[which]()); // eslint-disable-line security/detect-object-injection
+}
+
+function* range(run: Interpreter, from: JsonValue, upto: JsonValue, by: JsonValue = 1): Generator<JsonValue> {
+  const [start, stop, step] = [from, upto, by].map((bound) => requireNumber(bound, 'range bounds must be numeric'));
+  if (step === 0 || start === undefined || stop === undefined || step === undefined) return;
+  for (let n = start; step > 0 ? n < stop : n > stop; n += step) {
+    run.step();
+    yield n;
+  }
+}
+
+function* take<T>(count: JsonValue, values: Iterable<T>): Generator<T> {
+  const max = requireNumber(count);
+  if (max <= 0) return;
+  let produced = 0;
+  for (const value of values) {
+    yield value;
+    produced++;
+    if (produced >= max) return;
+  }
+}
+
+function* lastOf<T>(values: Iterable<T>): Generator<T> {
+  let found = false;
+  let last: T | undefined;
+  for (const value of values) {
+    found = true;
+    last = value;
+  }
+  if (found) yield last as T;
+}
+
+const NATIVES: Record<string, Native> = {
+  'empty/0': { evaluate: () => [], paths: () => [] },
+  'error/0': {
+    evaluate: (_run, input) => {
+      throw new JqError(input);
+    },
+  },
+  'error/1': {
+    evaluate: (run, input, [message], env) => {
+      for (const value of message ? run.evaluate(message, input, env) : []) throw new JqError(value);
+      return [];
+    },
+  },
+  'not/0': valueFunction((input) => !isTruthy(input)),
+  'length/0': valueFunction(length),
+  'utf8bytelength/0': valueFunction((input) => new TextEncoder().encode(requireString(input, 'only strings have UTF-8 byte length')).length),
+  'keys/0': valueFunction((input) => keysOf(input, true)),
+  'keys_unsorted/0': valueFunction((input) => keysOf(input, false)),
+  'has/1': valueFunction(has),
+  'contains/1': valueFunction(contains),
+  'add/0': valueFunction((input) => (input === null ? null : entriesOf(input).reduce<JsonValue>((sum, [, item]) => arithmetic('+', sum, item), null))),
+  'range/2': {
+    *evaluate(run, input, args, env) {
+      for (const [from = null, upto = null] of run.combinations(args, input, env)) yield* range(run, from, upto);
+    },
+  },
+  'range/3': {
+    *evaluate(run, input, args, env) {
+      for (const [from = null, upto = null, by = null] of run.combinations(args, input, env)) yield* range(run, from, upto, by);
+    },
+  },
+  'floor/0': mathFunction(Math.floor),
+  'ceil/0': mathFunction(Math.ceil),
+  // Halves round away from zero, as C's round() does
+  'round/0': mathFunction((n) => Math.sign(n) * Math.round(Math.abs(n))),
+  'trunc/0': mathFunction(Math.trunc),
+  'fabs/0': mathFunction(Math.abs),
+  'sqrt/0': mathFunction(Math.sqrt),
+  'log/0': mathFunction(Math.log),
+  'log2/0': mathFunction(Math.log2),
+  'log10/0': mathFunction(Math.log10),
+  'exp/0': mathFunction(Math.exp),
+  'exp2/0': mathFunction((n) => 2 ** n),
+  'exp10/0': mathFunction((n) => 10 ** n),
+  'abs/0': valueFunction((input) => Math.abs(requireNumber(input, 'has no absolute value'))),
+  'pow/2': valueFunction((_input, base = null, exponent = null) => requireNumber(base) ** requireNumber(exponent)),
+  'infinite/0': valueFunction(() => Infinity),
+  'nan/0': valueFunction(() => NaN),
+  'isinfinite/0': valueFunction((input) => !Number.isFinite(requireNumber(input)) && !Number.isNaN(requireNumber(input))),
+  'isnan/0': valueFunction((input) => Number.isNaN(requireNumber(input))),
+  'isnormal/0': valueFunction((input) => {
+    const n = Math.abs(requireNumber(input));
+    return Number.isFinite(n) && n >= 2.2250738585072014e-308;
+  }),
+  'type/0': valueFunction(typeOf),
+  'tostring/0': valueFunction(toText),
+  'tonumber/0': valueFunction(toNumberValue),
+  'tojson/0': valueFunction(toJson),
+  'fromjson/0': valueFunction(fromJson),
+  'ascii_downcase/0': valueFunction((input) => requireString(input, 'cannot be lowercased').replace(/[A-Z]/g, (char) => char.toLowerCase())),
+  'ascii_upcase/0': valueFunction((input) => requireString(input, 'cannot be uppercased').replace(/[a-z]/g, (char) => char.toUpperCase())),
+  'explode/0': valueFunction((input) => Array.from(requireString(input, 'cannot be exploded'), (char) => char.codePointAt(0) ?? 0)),
+  'implode/0': valueFunction((input) => {
+    try {
+      return String.fromCodePoint(...requireArray(input, 'cannot be imploded').map((code) => requireNumber(code)));
+    } catch {
+      throw new JqError('Implode input must be an array of codepoints');
+    }
+  }),
+  'ltrimstr/1': valueFunction((input, prefix = null) =>
+    typeof input === 'string' && typeof prefix === 'string' && input.startsWith(prefix) ? input.slice(prefix.length) : input
+  ),
+  'rtrimstr/1': valueFunction((input, suffix = null) =>
+    typeof input === 'string' && typeof suffix === 'string' && suffix !== '' && input.endsWith(suffix) ? input.slice(0, -suffix.length) : input
+  ),
+  'startswith/1': valueFunction((input, prefix = null) => {
+    if (typeof input !== 'string' || typeof prefix !== 'string') throw new JqError('startswith() requires string inputs');
+    return input.startsWith(prefix);
+  }),
+  'endswith/1': valueFunction((input, suffix = null) => {
+    if (typeof input !== 'string' || typeof suffix !== 'string') throw new JqError('endswith() requires string inputs');
+    return input.endsWith(suffix);
+  }),
+  'trim/0': trimmed('trim'),
+  'ltrim/0': trimmed('trimStart'),
+  'rtrim/0': trimmed('trimEnd'),
+  'split/1': valueFunction((input, separator = null) => {
+    if (typeof input !== 'string' || typeof separator !== 'string') throw new JqError('split input and separator must be strings');
+    return splitString(input, separator);
+  }),
+  'split/2': valueFunction((input, pattern = null, modifiers = null) => {
+    const text = requireString(input, 'cannot be split, as it is not a string');
+    const parts: string[] = [];
+    let last = 0;
+    findMatches(text, pattern, modifiers, true).forEach((match) => {
+      parts.push(text.slice(last, match.index));
+      last = match.index + match.text.length;
+    });
+    parts.push(text.slice(last));
+    return parts;
+  }),
+  'join/1': valueFunction(join),
+  'indices/1': valueFunction(indicesOf),
+  'test/2': valueFunction((input, pattern = null, modifiers = null) => findMatches(input, pattern, modifiers).length > 0),
+  'match/2': {
+    *evaluate(run, input, args, env) {
+      for (const [pattern = null, modifiers = null] of run.combinations(args, input, env)) {
+        for (const match of findMatches(input, pattern, modifiers)) yield matchObject(input as string, match);
+      }
+    },
+  },
+  'capture/2': {
+    *evaluate(run, input, args, env) {
+      for (const [pattern = null, modifiers = null] of run.combinations(args, input, env)) {
+        for (const match of findMatches(input, pattern, modifiers)) yield captureObject(match);
+      }
+    },
+  },
+  'scan/2': {
+    *evaluate(run, input, args, env) {
+      for (const [pattern = null, modifiers = null] of run.combinations(args, input, env)) {
+        for (const match of findMatches(input, pattern, modifiers, true)) {
+          yield match.captures.length === 0 ? match.text : match.captures.map((capture) => capture.text);
+        }
+      }
+    },
+  },
+  'sub/3': {
+    *evaluate(run, input, [pattern, replacement, modifiers], env) {
+      if (!pattern || !replacement || !modifiers) return;
+      const text = requireString(input, 'cannot be matched, as it is not a string');
+      for (const flags of run.evaluate(modifiers, input, env)) {
+        for (const regex of run.evaluate(pattern, input, env)) {
+          const matches = findMatches(text, regex, flags);
+          const substitute = function* (index: number, prefix: string, from: number): Generator<JsonValue> {
+            const match = matches[index]; // eslint-disable-line security/detect-object-injection
+            if (!match) {
+              yield prefix + text.slice(from);
+              return;
+            }
+            for (const value of run.evaluate(replacement, captureObject(match), env)) {
+              if (typeof value !== 'string') throw new JqError(`${describe(value)} cannot be added to a string`);
+              yield* substitute(index + 1, prefix + text.slice(from, match.index) + value, match.index + match.text.length);
+            }
+          };
+          yield* substitute(0, '', 0);
+        }
+      }
+    },
+  },
+  'sort/0': byFunction(sortItems, 'sorted'),
+  'sort_by/1': byFunction(sortItems, 'sorted'),
+  'group_by/1': byFunction(groupItems, 'grouped'),
+  'unique/0': byFunction((items, keys) => groupItems(items, keys).map((group) => group[0] ?? null), 'sorted'),
+  'unique_by/1': byFunction((items, keys) => groupItems(items, keys).map((group) => group[0] ?? null), 'grouped'),
+  'min/0': byFunction((items, keys) => extreme(items, keys, -1), 'compared'),
+  'max/0': byFunction((items, keys) => extreme(items, keys, 1), 'compared'),
+  'min_by/1': byFunction((items, keys) => extreme(items, keys, -1), 'compared'),
+  'max_by/1': byFunction((items, keys) => extreme(items, keys, 1), 'compared'),
+  'reverse/0': valueFunction((input) => {
+    if (input === null) return [];
+    if (typeof input === 'string') return Array.from(input).reverse().join('');
+    return [...requireArray(input, 'cannot be reversed, as it is not an array')].reverse();
+  }),
+  'flatten/0': valueFunction((input) => flatten(requireArray(input, 'cannot be flattened, as it is not an array'), Infinity)),
+  'flatten/1': valueFunction((input, depth = null) => {
+    if (requireNumber(depth) < 0) throw new JqError('flatten depth must not be negative');
+    return flatten(requireArray(input, 'cannot be flattened, as it is not an array'), requireNumber(depth));
+  }),
+  'to_entries/0': valueFunction(toEntries),
+  'from_entries/0': valueFunction(fromEntries),
+  'recurse/1': {
+    *evaluate(run, input, [filter], env) {
+      const walk = function* (value: JsonValue): Generator<JsonValue> {
+        yield value;
+        if (filter) for (const child of run.evaluate(filter, value, env)) yield* walk(child);
+      };
+      yield* walk(input);
+    },
+    *paths(run, input, path, [filter], env) {
+      const walk = function* (valuePath: PathComponent[], value: JsonValue): Generator<PathValue> {
+        yield [valuePath, value];
+        if (filter) for (const [childPath, child] of run.paths(filter, value, valuePath, env)) yield* walk(childPath, child);
+      };
+      yield* walk(path, input);
+    },
+  },
+  'path/1': {
+    *evaluate(run, input, [filter], env) {
+      if (filter) for (const [path] of run.paths(filter, input, [], env)) yield path;
+    },
+  },
+  'getpath/1': {
+    *evaluate(run, input, [path], env) {
+      if (!path) return;
+      for (const value of run.evaluate(path, input, env)) {
+        try {
+          yield getPath(input, toPath(value));
+        } catch {
+          yield null;
+        }
+      }
+    },
+    *paths(run, input, path, [target], env) {
+      if (!target) return;
+      for (const value of run.evaluate(target, input, env)) {
+        const components = toPath(value);
+        yield [[...path, ...components], getPath(input, components)];
+      }
+    },
+  },
+  'setpath/2': valueFunction((input, path = null, value = null) => setPath(input, toPath(path), value)),
+  'delpaths/1': valueFunction((input, paths = null) => deletePaths(input, requireArray(paths, 'Paths must be specified as an array').map(toPath))),
+  'first/1': {
+    evaluate: (run, input, [filter], env) => (filter ? take(1, run.evaluate(filter, input, env)) : []),
+    paths: (run, input, path, [filter], env) => (filter ? take(1, run.paths(filter, input, path, env)) : []),
+  },
+  'last/1': {
+    evaluate: (run, input, [filter], env) => (filter ? lastOf(run.evaluate(filter, input, env)) : []),
+    paths: (run, input, path, [filter], env) => (filter ? lastOf(run.paths(filter, input, path, env)) : []),
+  },
+  'limit/2': {
+    *evaluate(run, input, [count, filter], env) {
+      if (!count || !filter) return;
+      for (const n of run.evaluate(count, input, env)) yield* take(n, run.evaluate(filter, input, env));
+    },
+    *paths(run, input, path, [count, filter], env) {
+      if (!count || !filter) return;
+      for (const n of run.evaluate(count, input, env)) yield* take(n, run.paths(filter, input, path, env));
+    },
+  },
+  'isempty/1': {
+    *evaluate(run, input, [filter], env) {
+      yield !filter || !run.first(run.evaluate(filter, input, env)).found;
+    },
+  },
+  'todateiso8601/0': valueFunction(toIsoDate),
+  'fromdateiso8601/0': valueFunction(fromIsoDate),
+  'now/0': valueFunction(() => Date.now() / 1000),
+  'input_filename/0': valueFunction(() => null),
+  'debug/0': valueFunction((input) => input),
+  'stderr/0': valueFunction((input) => input),
+  'env/0': valueFunction(() => ({})),
+  'builtins/0': valueFunction(() => [...Object.keys(NATIVES), ...Object.keys(getPrelude().keys)]),
+};
+
+// Recursive builtins and those that are simplest to write in jq itself
+const PRELUDE = `
+def map(f): [.[] | f];
+def select(f): if f then . else empty end;
+def recurse: recurse(.[]?);
+def recurse(f; cond): def r: ., (f | select(cond) | r); r;
+def values: select(. != null);
+def nulls: select(. == null);
+def booleans: select(type == "boolean");
+def numbers: select(type == "number");
+def strings: select(type == "string");
+def arrays: select(type == "array");
+def objects: select(type == "object");
+def iterables: select(type | . == "array" or . == "object");
+def scalars: select(type | . != "array" and . != "object");
+def finites: select(isinfinite or isnan | not);
+def normals: select(isnormal);
+def map_values(f): .[] |= f;
+def with_entries(f): to_entries | map(f) | from_entries;
+def add(f): reduce f as $x (null; . + $x);
+def any: reduce .[] as $x (false; . or $x);
+def all: reduce .[] as $x (true; . and $x);
+def any(f): reduce (.[] | f) as $x (false; . or $x);
+def all(f): reduce (.[] | f) as $x (true; . and $x);
+def any(g; cond): isempty(first(g | cond or empty)) | not;
+def all(g; cond): isempty(first(g | cond and empty));
+def range($upto): range(0; $upto);
+def in(xs): . as $x | xs | has($x);
+def inside(xs): . as $x | xs | contains($x);
+def paths: path(..) | select(length > 0);
+def paths(node_filter): . as $dot | paths | select(. as $p | $dot | getpath($p) | node_filter);
+def leaf_paths: paths(scalars);
+def del(f): delpaths([path(f)]);
+def to_array: if type == "array" then . else [.] end;
+def toarray: to_array;
+def pick(pathexps): . as $top | reduce path(pathexps) as $p (null; setpath($p; $top | getpath($p)));
+def first: .[0];
+def last: .[-1];
+def nth($n): .[$n];
+def nth($n; f): if $n < 0 then error("Out of bounds negative array index") else last(limit($n + 1; f)) end;
+def while(cond; update): def _while: if cond then ., (update | _while) else empty end; _while;
+def until(cond; update): def _until: if cond then . else (update | _until) end; _until;
+def repeat(f): def _repeat: ., (f | _repeat); _repeat;
+def index($i): indices($i) | .[0];
+def rindex($i): indices($i) | .[-1:][0];
+def test($re): test($re; null);
+def match($re): match($re; null);
+def capture($re): capture($re; null);
+def scan($re): scan($re; null);
+def splits($re; flags): split($re; flags) | .[];
+def splits($re): splits($re; null);
+def sub($re; str): sub($re; str; "");
+def gsub($re; str): sub($re; str; "g");
+def gsub($re; str; $flags): sub($re; str; $flags + "g");
+def todate: todateiso8601;
+def fromdate: fromdateiso8601;
+def debug(msg): .;
+def walk(f): def w: if type == "object" then map_values(w) elif type == "array" then map(w) else . end | f; w;
+def transpose: (map(length) | max // 0) as $max | . as $in | [range(0; $max) as $j | [range(0; $in | length) as $i | $in[$i][$j]]];
+def combinations: if length == 0 then [] else .[0][] as $x | (.[1:] | combinations) as $w | [$x] + $w end;
+def combinations(n): . as $dot | [range(n)] | map($dot) | combinations;
+def IN(s): any(s == .; .);
+def IN(src; s): any(src == s; .);
+def INDEX(stream; idx_expr): reduce stream as $row ({}; .[$row | idx_expr | tostring] |= $row);
+def INDEX(idx_expr): INDEX(.[]; idx_expr);
+.`;
+
+let prelude: { env: Env; keys: Record<string, true> } | null = null;
+
+/** The environment every program runs in, holding the builtins written in jq */
+function getPrelude(): { env: Env; keys: Record<string, true> } {
+  if (prelude) return prelude;
+  let node = new Parser(PRELUDE).parse();
+  let env = new Env();
+  const keys: Record<string, true> = {};
+  while (node.type === 'def') {
+    const key = `${node.name}/${node.params.length}`;
+    env = env.withFunction(key, node);
+    keys[key] = true; // eslint-disable-line security/detect-object-injection
+    node = node.rest;
+  }
+  prelude = { env, keys };
+  return prelude;
+}
+
+function isBuiltin(key: string): boolean {
+  return key in NATIVES || key in getPrelude().keys;
+}
+
+/**
+ * Run a jq program against a document, collecting its outputs. Runtime
+ * errors (a failed `error`, indexing a string with a name, ...) throw a
+ * `QUERY_EVALUATION_ERROR` with jq's message as details.
+ */
+export function runJq(data: JsonValue, program: string | JqProgram, options: JqOptions = {}): JqResult {
+  const { node } = typeof program === 'string' ? compileJq(program) : program;
+  const { maxOutputs = DEFAULT_MAX_OUTPUTS } = options;
+  const outputs: JsonValue[] = [];
+  let truncated = false;
+  try {
+    for (const output of new Interpreter().evaluate(node, data, getPrelude().env)) {
+      if (outputs.length >= maxOutputs) {
+        truncated = true;
+        break;
+      }
+      outputs.push(output);
+    }
+  } catch (error) {
+    if (error instanceof JqError) throw createError(ErrorCodes.QUERY_EVALUATION_ERROR, error.message);
+    if (error instanceof RangeError) throw createError(ErrorCodes.QUERY_EVALUATION_ERROR, 'The query recursed too deeply');
+    throw error;
+  }
+  return { outputs, truncated };
+}
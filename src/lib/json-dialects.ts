@@ -0,0 +1,630 @@
+import { DuplicateKey, DuplicateKeyPolicy, JsonDialect, JsonObject, JsonValue, NodeComments, ParsedJson } from '../types/json.types';
+
+import { getTreeNodeKey } from './data-transformers';
+import { createError, ErrorCodes } from './error-handler';
+import { stringifyJSON } from './json-parser';
+import { isLosslessNumber, parseNumberText, setMember } from './lossless-number';
+import { SourcePoint, SourcePosition } from './streaming-json-parser';
+
+/**
+ * Parsers and writers for the relaxed JSON dialects:
+ *
+ * - JSONC: JSON with `//` and `/* *\/` comments and trailing commas
+ * - JSON5: JSONC plus unquoted keys, single-quoted strings, hexadecimal
+ *   numbers, leading or trailing decimal points, `Infinity` and `NaN`
+ * - HJSON: `#` comments, quoteless keys and strings, optional commas,
+ *   `'''` multiline strings and an optional root brace
+ *
+ * Comments are kept and attached to the node that follows them (or, on the
+ * same line, the node they trail) so they can be shown alongside the data
+ * and written back by `stringifyDialect`. Repeated keys are resolved by the
+ * `duplicateKeyPolicy` option and reported, as in the JSON parser.
+ */
+
+export const DIALECT_EXTENSIONS: Record<JsonDialect, string> = {
+  jsonc: 'jsonc',
+  json5: 'json5',
+  hjson: 'hjson',
+};
+
+export const DIALECT_LABELS: Record<JsonDialect, string> = {
+  jsonc: 'JSONC',
+  json5: 'JSON5',
+  hjson: 'HJSON',
+};
+
+export interface DialectParseOptions {
+  /** Keep numbers that would lose precision as `LosslessNumber`s */
+  losslessNumbers?: boolean;
+  /** Which value a repeated key keeps (default `last-wins`) */
+  duplicateKeyPolicy?: DuplicateKeyPolicy;
+}
+
+export interface DialectParseResult {
+  data: JsonValue;
+  /** Comments attached to nodes, in document order */
+  comments: NodeComments[];
+  /** Repeated keys, in source order */
+  duplicateKeys: DuplicateKey[];
+  /** Source range of every key and value */
+  positions: SourcePosition[];
+}
+
+const JSON_NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y; // eslint-disable-line security/detect-unsafe-regex
+const JSON5_NUMBER = /[+-]?(?:Infinity|NaN|0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/y; // eslint-disable-line security/detect-unsafe-regex
+const JSON5_IDENTIFIER = /[$_\p{ID_Start}][$\u200C\u200D\p{ID_Continue}]*/uy;
+const HJSON_KEY = /[^\s{}[\],:"'#/]+/y;
+/** A quoteless HJSON value that is really a number or literal */
+const HJSON_LITERAL = /(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)(?=[ \t]*(?:$|[\r\n,\]}]|#|\/\/|\/\*))/y; // eslint-disable-line security/detect-unsafe-regex
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const JSON5_ESCAPES: Record<string, string> = {
+  ...ESCAPES,
+  "'": "'",
+  v: '\v',
+  0: '\0',
+};
+
+const LITERALS: Record<string, boolean | null> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+class DialectParser {
+  private pos = 0;
+  /** Comments read since the last node, waiting to be attached */
+  private pending: string[] = [];
+  private readonly comments = new Map<string, NodeComments>();
+  private readonly positions: SourcePosition[] = [];
+  private readonly duplicateKeys: DuplicateKey[] = [];
+  private readonly lineStarts: number[] = [0];
+
+  constructor(
+    private readonly text: string,
+    private readonly dialect: JsonDialect,
+    private readonly options: DialectParseOptions
+  ) {
+    for (let i = 0; i < text.length; i++) {
+      if (text.charCodeAt(i) === 10) this.lineStarts.push(i + 1);
+    }
+  }
+
+  parse(): DialectParseResult {
+    if (this.text.charCodeAt(0) === 0xfeff) this.pos = 1;
+    this.skip();
+    if (this.pos >= this.text.length) throw this.error('Empty input');
+
+    this.attach([], 'before', this.takePending());
+    let data: JsonValue;
+    if (this.dialect === 'hjson' && this.isBracelessRoot()) {
+      const start = this.pos;
+      data = this.parseObject([], true);
+      this.record([], start);
+    } else {
+      data = this.parseValue([]);
+    }
+
+    this.attach([], 'after', this.readTrailingComments());
+    this.skip();
+    this.attach([], 'after', this.takePending());
+    if (this.pos < this.text.length) {
+      throw this.error(`Unexpected '${this.text.charAt(this.pos)}' after the end of the document`);
+    }
+
+    return { data, comments: [...this.comments.values()], duplicateKeys: this.duplicateKeys, positions: this.positions };
+  }
+
+  private parseValue(path: string[]): JsonValue {
+    const start = this.pos;
+    const char = this.text.charAt(this.pos);
+    let value: JsonValue;
+
+    if (char === '{') {
+      value = this.parseObject(path, false);
+    } else if (char === '[') {
+      value = this.parseArray(path);
+    } else if (char === '"' || (char === "'" && this.dialect !== 'jsonc')) {
+      value = this.parseString();
+    } else if (this.dialect === 'hjson') {
+      value = this.parseQuoteless();
+    } else {
+      value = this.parsePrimitive();
+    }
+
+    this.record(path, start);
+    return value;
+  }
+
+  private parseObject(path: string[], braceless: boolean): JsonObject {
+    const object: JsonObject = {};
+    /** First value of each repeated key */
+    const firstValues = new Map<string, JsonValue>();
+    if (!braceless) this.pos++;
+
+    for (;;) {
+      this.skip();
+      if (braceless ? this.pos >= this.text.length : this.text.charAt(this.pos) === '}') {
+        this.attach(path, 'end', this.takePending());
+        if (!braceless) this.pos++;
+        return object;
+      }
+      if (this.pos >= this.text.length) throw this.error('Unexpected end of input');
+
+      const before = this.takePending();
+      const keyStart = this.pos;
+      const key = this.parseKey();
+      const keyEnd = this.pos;
+      this.skip();
+      if (this.text.charAt(this.pos) !== ':') throw this.error(`Expected ':' but found '${this.text.charAt(this.pos)}'`);
+      this.pos++;
+      this.skip();
+
+      const childPath = [...path, key];
+      this.attach(childPath, 'before', [...before, ...this.takePending()]);
+      this.addMember(object, firstValues, path, key, this.parseValue(childPath), this.point(keyStart));
+      const position = this.positions[this.positions.length - 1];
+      if (position) position.key = { start: this.point(keyStart), end: this.point(keyEnd) };
+
+      this.parseSeparator(childPath, braceless ? null : '}');
+    }
+  }
+
+  /** Add a member to the object at `path`, resolving a repeated key by the duplicate key policy */
+  private addMember(
+    target: JsonObject,
+    firstValues: Map<string, JsonValue>,
+    path: string[],
+    key: string,
+    value: JsonValue,
+    keyStart: SourcePoint
+  ): void {
+    if (!Object.prototype.hasOwnProperty.call(target, key)) {
+      setMember(target, key, value);
+      return;
+    }
+
+    const repeated = firstValues.has(key);
+    const firstValue = repeated ? firstValues.get(key) ?? null : target[key] ?? null; // eslint-disable-line security/detect-object-injection
+    if (!repeated) firstValues.set(key, firstValue);
+    this.duplicateKeys.push({ path, key, line: keyStart.line, column: keyStart.column, firstValue, value });
+
+    const policy = this.options.duplicateKeyPolicy ?? 'last-wins';
+    if (policy === 'last-wins') {
+      setMember(target, key, value);
+    } else if (policy === 'keep-all') {
+      const collected = target[key]; // eslint-disable-line security/detect-object-injection
+      if (repeated && Array.isArray(collected)) collected.push(value);
+      else setMember(target, key, [firstValue, value]);
+    }
+  }
+
+  private parseArray(path: string[]): JsonValue[] {
+    const array: JsonValue[] = [];
+    this.pos++;
+
+    for (;;) {
+      this.skip();
+      if (this.text.charAt(this.pos) === ']') {
+        this.attach(path, 'end', this.takePending());
+        this.pos++;
+        return array;
+      }
+      if (this.pos >= this.text.length) throw this.error('Unexpected end of input');
+
+      const childPath = [...path, `[${array.length}]`];
+      this.attach(childPath, 'before', this.takePending());
+      array.push(this.parseValue(childPath));
+      this.parseSeparator(childPath, ']');
+    }
+  }
+
+  /**
+   * Read what follows a member: a comma and comments on the same line. HJSON
+   * members may be separated by a line break instead of a comma.
+   */
+  private parseSeparator(path: string[], close: string | null): void {
+    const valueEnd = this.pos;
+    let hasComma = false;
+    for (;;) {
+      this.skipInline();
+      if (!hasComma && this.text.charAt(this.pos) === ',') {
+        hasComma = true;
+        this.pos++;
+      } else if (this.isCommentStart()) {
+        this.attach(path, 'after', [this.readComment()]);
+      } else {
+        break;
+      }
+    }
+
+    this.skip();
+    if (!hasComma && this.text.charAt(this.pos) === ',') {
+      hasComma = true;
+      this.pos++;
+      this.skip();
+    }
+
+    const char = this.text.charAt(this.pos);
+    if (close === null ? this.pos >= this.text.length : char === close) return;
+    if (hasComma) return;
+    if (this.dialect === 'hjson' && this.text.slice(valueEnd, this.pos).includes('\n')) return;
+    throw this.error(`Expected ',' or '${close ?? 'end of input'}' but found '${char}'`);
+  }
+
+  private parseKey(): string {
+    const char = this.text.charAt(this.pos);
+    if (char === '"' || (char === "'" && this.dialect !== 'jsonc')) return this.parseString();
+
+    const pattern = this.dialect === 'json5' ? JSON5_IDENTIFIER : this.dialect === 'hjson' ? HJSON_KEY : null;
+    const match = pattern && this.match(pattern);
+    if (!match) throw this.error(`Expected property name but found '${char}'`);
+    this.pos += match.length;
+    return match;
+  }
+
+  private parseString(): string {
+    if (this.dialect === 'hjson' && this.text.startsWith("'''", this.pos)) return this.parseMultilineString();
+
+    const quote = this.text.charAt(this.pos);
+    const escapes = this.dialect === 'json5' ? JSON5_ESCAPES : ESCAPES;
+    let result = '';
+    this.pos++;
+
+    for (;;) {
+      if (this.pos >= this.text.length) throw this.error('Unterminated string');
+      const char = this.text.charAt(this.pos);
+      const code = char.charCodeAt(0);
+
+      if (char === quote) {
+        this.pos++;
+        return result;
+      }
+      if (char === '\n' || char === '\r' || (code < 0x20 && this.dialect === 'jsonc')) {
+        throw this.error('Unescaped control character in string');
+      }
+      if (char !== '\\') {
+        result += char;
+        this.pos++;
+        continue;
+      }
+
+      const escape = this.text.charAt(this.pos + 1);
+      this.pos += 2;
+      if (escape === 'u') {
+        const hex = this.text.slice(this.pos, this.pos + 4);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) throw this.error(`Invalid unicode escape '\\u${hex}'`);
+        result += String.fromCharCode(parseInt(hex, 16));
+        this.pos += 4;
+      } else if (escape === "'" && quote === "'") {
+        result += "'";
+      } else if (escape in escapes) {
+        result += escapes[escape]; // eslint-disable-line security/detect-object-injection
+      } else if (this.dialect === 'json5' && escape === 'x') {
+        const hex = this.text.slice(this.pos, this.pos + 2);
+        if (!/^[0-9a-fA-F]{2}$/.test(hex)) throw this.error(`Invalid hexadecimal escape '\\x${hex}'`);
+        result += String.fromCharCode(parseInt(hex, 16));
+        this.pos += 2;
+      } else if (this.dialect === 'json5' && /[\n\r\u2028\u2029]/.test(escape)) {
+        // Line continuation
+        if (escape === '\r' && this.text.charAt(this.pos) === '\n') this.pos++;
+      } else if (this.dialect === 'json5' && !/[1-9]/.test(escape)) {
+        result += escape;
+      } else {
+        this.pos -= 2;
+        throw this.error(`Invalid escape sequence '\\${escape}'`);
+      }
+    }
+  }
+
+  /** HJSON `'''` string; indentation up to the opening quotes is removed */
+  private parseMultilineString(): string {
+    const indent = this.point(this.pos).column - 1;
+    const end = this.text.indexOf("'''", this.pos + 3);
+    if (end === -1) throw this.error('Unterminated multiline string');
+
+    const lines = this.text.slice(this.pos + 3, end).split(/\r?\n/);
+    this.pos = end + 3;
+    if (lines.length > 1 && !lines[0]?.trim()) lines.shift();
+    if (lines.length > 1 && !lines[lines.length - 1]?.trim()) lines.pop();
+    return lines
+      .map((line) => line.slice(Math.min(/^[ \t]*/.exec(line)?.[0].length ?? 0, indent)))
+      .join('\n');
+  }
+
+  /** HJSON value without quotes: a number or literal, or a string to the end of the line */
+  private parseQuoteless(): JsonValue {
+    const char = this.text.charAt(this.pos);
+    if (!char || '{}[],:'.includes(char)) throw this.error(`Unexpected '${char}'`);
+
+    const literal = this.match(HJSON_LITERAL);
+    if (literal) {
+      this.pos += literal.length;
+      return literal in LITERALS ? LITERALS[literal] as boolean | null : this.toNumber(literal); // eslint-disable-line security/detect-object-injection
+    }
+
+    const lineEnd = this.text.slice(this.pos).search(/\r?\n/);
+    const end = lineEnd === -1 ? this.text.length : this.pos + lineEnd;
+    const value = this.text.slice(this.pos, end).trimEnd();
+    this.pos += value.length;
+    return value;
+  }
+
+  private parsePrimitive(): JsonValue {
+    for (const [literal, value] of Object.entries(LITERALS)) {
+      if (this.text.startsWith(literal, this.pos)) {
+        this.pos += literal.length;
+        return value;
+      }
+    }
+
+    const number = this.match(this.dialect === 'json5' ? JSON5_NUMBER : JSON_NUMBER);
+    if (!number) throw this.error(`Unexpected '${this.text.charAt(this.pos)}'`);
+    this.pos += number.length;
+    return this.toNumber(number);
+  }
+
+  private toNumber(text: string): JsonValue {
+    const unsigned = text.replace(/^[+-]/, '');
+    const sign = text.startsWith('-') ? -1 : 1;
+    if (/^0[xX]/.test(unsigned)) return sign * parseInt(unsigned.slice(2), 16);
+    if (unsigned === 'Infinity' || unsigned === 'NaN') return sign * Number(unsigned);
+
+    const json = text.replace(/^\+/, '');
+    JSON_NUMBER.lastIndex = 0;
+    const isJsonNumber = JSON_NUMBER.exec(json)?.[0] === json;
+    return this.options.losslessNumbers && isJsonNumber ? parseNumberText(json) : Number(json);
+  }
+
+  /** HJSON documents may leave out the braces around a root object */
+  private isBracelessRoot(): boolean {
+    const char = this.text.charAt(this.pos);
+    if (char === '{' || char === '[') return false;
+
+    const start = this.pos;
+    try {
+      this.parseKey();
+      this.skipInline();
+      return this.text.charAt(this.pos) === ':';
+    } catch {
+      return false;
+    } finally {
+      this.pos = start;
+    }
+  }
+
+  /** Skip whitespace and collect comments */
+  private skip(): void {
+    for (;;) {
+      const char = this.text.charAt(this.pos);
+      if (char && (this.dialect === 'jsonc' ? ' \t\n\r'.includes(char) : /\s/.test(char))) {
+        this.pos++;
+      } else if (this.isCommentStart()) {
+        this.pending.push(this.readComment());
+      } else {
+        return;
+      }
+    }
+  }
+
+  /** Skip whitespace up to the end of the line */
+  private skipInline(): void {
+    while (this.pos < this.text.length && /[^\S\r\n]/.test(this.text.charAt(this.pos))) this.pos++;
+  }
+
+  private readTrailingComments(): string[] {
+    const comments: string[] = [];
+    this.skipInline();
+    while (this.isCommentStart()) {
+      comments.push(this.readComment());
+      this.skipInline();
+    }
+    return comments;
+  }
+
+  private isCommentStart(): boolean {
+    return this.text.startsWith('//', this.pos) ||
+      this.text.startsWith('/*', this.pos) ||
+      (this.dialect === 'hjson' && this.text.charAt(this.pos) === '#');
+  }
+
+  private readComment(): string {
+    const start = this.pos;
+    if (this.text.startsWith('/*', this.pos)) {
+      const end = this.text.indexOf('*/', this.pos + 2);
+      if (end === -1) throw this.error('Unterminated comment');
+      this.pos = end + 2;
+    } else {
+      const end = this.text.indexOf('\n', this.pos);
+      this.pos = end === -1 ? this.text.length : end;
+    }
+    return this.text.slice(start, this.pos).replace(/\r$/, '');
+  }
+
+  private takePending(): string[] {
+    const pending = this.pending;
+    this.pending = [];
+    return pending;
+  }
+
+  private attach(path: string[], placement: 'before' | 'after' | 'end', comments: string[]): void {
+    if (comments.length === 0) return;
+    const key = getTreeNodeKey(path);
+    const entry = this.comments.get(key) ?? { path };
+    entry[placement] = [...(entry[placement] ?? []), ...comments]; // eslint-disable-line security/detect-object-injection
+    this.comments.set(key, entry);
+  }
+
+  private record(path: string[], start: number): void {
+    this.positions.push({ path, value: { start: this.point(start), end: this.point(this.pos) } });
+  }
+
+  private match(pattern: RegExp): string | null {
+    pattern.lastIndex = this.pos;
+    return pattern.exec(this.text)?.[0] || null;
+  }
+
+  private point(offset: number): SourcePoint {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if ((this.lineStarts[middle] ?? 0) <= offset) { // eslint-disable-line security/detect-object-injection
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low + 1, column: offset - (this.lineStarts[low] ?? 0) + 1 }; // eslint-disable-line security/detect-object-injection
+  }
+
+  private error(message: string) {
+    const { line, column } = this.point(this.pos);
+    return createError(ErrorCodes.JSON_PARSE_ERROR, `${message} at line ${line}, column ${column}`);
+  }
+}
+
+/**
+ * Parse a JSONC, JSON5 or HJSON document. Throws a `JsonHeroError` with the
+ * line and column of the first syntax error.
+ *
+ * @example
+ * ```ts
+ * const { data, comments } = parseDialect('{\n  // port to listen on\n  port: 8080,\n}', 'json5');
+ * // data:     { port: 8080 }
+ * // comments: [{ path: ['port'], before: ['// port to listen on'] }]
+ * ```
+ */
+export function parseDialect(text: string, dialect: JsonDialect, options: DialectParseOptions = {}): DialectParseResult {
+  return new DialectParser(text, dialect, options).parse();
+}
+
+/**
+ * Whether a document format is one of the relaxed JSON dialects
+ */
+export function isJsonDialect(format: string | undefined): format is JsonDialect {
+  return format !== undefined && Object.prototype.hasOwnProperty.call(DIALECT_EXTENSIONS, format);
+}
+
+/**
+ * Dialect of a file, from its extension
+ */
+export function getDialectFromFileName(fileName: string): JsonDialect | null {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  const entry = Object.entries(DIALECT_EXTENSIONS).find(([, value]) => value === extension);
+  return entry ? entry[0] as JsonDialect : null;
+}
+
+/**
+ * The strictest dialect that accepts text which is not plain JSON. HJSON is
+ * never guessed, because almost any text is a valid HJSON document.
+ */
+export function detectDialect(text: string): JsonDialect | null {
+  for (const dialect of ['jsonc', 'json5'] as const) {
+    try {
+      parseDialect(text, dialect);
+      return dialect;
+    } catch {
+      // Try the next, more permissive dialect
+    }
+  }
+  return null;
+}
+
+/** Whether an HJSON string can be written without quotes and read back unchanged */
+function isQuotelessSafe(value: string): boolean {
+  if (!value || value !== value.trim() || /[\r\n]/.test(value)) return false;
+  if ('{}[],:"\'#'.includes(value.charAt(0)) || value.startsWith('//') || value.startsWith('/*')) return false;
+  HJSON_LITERAL.lastIndex = 0;
+  return !HJSON_LITERAL.test(value);
+}
+
+/**
+ * Write data in a dialect, putting comments back next to the nodes they
+ * belong to. Output is always indented, since line comments need lines.
+ */
+export function stringifyDialect(data: JsonValue, dialect: JsonDialect, comments: NodeComments[] = [], space = 2): string {
+  const byPath = new Map(comments.map((entry) => [getTreeNodeKey(entry.path), entry]));
+  const indent = (depth: number) => ' '.repeat(space * depth);
+
+  // `#` comments are HJSON only
+  const formatComment = (comment: string) =>
+    dialect !== 'hjson' && comment.startsWith('#') ? `//${comment.slice(1)}` : comment;
+
+  const formatKey = (key: string): string => {
+    if (dialect === 'json5' && /^[A-Za-z_$][\w$]*$/.test(key)) return key;
+    if (dialect === 'hjson' && /^[^\s{}[\],:"'#/]+$/.test(key)) return key;
+    return JSON.stringify(key);
+  };
+
+  const formatPrimitive = (value: JsonValue, quote: boolean): string => {
+    if (isLosslessNumber(value)) return value.value;
+    if (typeof value === 'number' && !Number.isFinite(value)) return dialect === 'json5' ? String(value) : 'null';
+    if (typeof value === 'string' && dialect === 'hjson' && !quote && isQuotelessSafe(value)) return value;
+    return JSON.stringify(value);
+  };
+
+  const write = (value: JsonValue, path: string[], depth: number, quote: boolean): string => {
+    if (value === null || typeof value !== 'object' || isLosslessNumber(value)) {
+      return formatPrimitive(value, quote);
+    }
+
+    const entries: Array<[string, string | null, JsonValue]> = Array.isArray(value)
+      ? value.map((item, index) => [`[${index}]`, null, item])
+      : Object.entries(value).map(([key, item]) => [key, key, item]);
+    const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+    const end = byPath.get(getTreeNodeKey(path))?.end ?? [];
+    if (entries.length === 0 && end.length === 0) return `${open}${close}`;
+
+    const lines: string[] = [];
+    entries.forEach(([segment, key, item], index) => {
+      const childPath = [...path, segment];
+      const entry = byPath.get(getTreeNodeKey(childPath));
+      entry?.before?.forEach((comment) => lines.push(`${indent(depth + 1)}${formatComment(comment)}`));
+
+      const after = entry?.after ?? [];
+      const prefix = key === null ? '' : `${formatKey(key)}: `;
+      const comma = index < entries.length - 1 && dialect !== 'hjson' ? ',' : '';
+      const trailing = after.map((comment) => ` ${formatComment(comment)}`).join('');
+      // A quoteless HJSON string would swallow a trailing comment
+      lines.push(`${indent(depth + 1)}${prefix}${write(item, childPath, depth + 1, after.length > 0)}${comma}${trailing}`);
+    });
+    end.forEach((comment) => lines.push(`${indent(depth + 1)}${formatComment(comment)}`));
+
+    return `${open}\n${lines.join('\n')}\n${indent(depth)}${close}`;
+  };
+
+  const root = byPath.get(getTreeNodeKey([]));
+  return [
+    ...(root?.before ?? []).map(formatComment),
+    write(data, [], 0, false),
+    ...(root?.after ?? []).map(formatComment),
+  ].join('\n') + '\n';
+}
+
+/**
+ * Text and document details for an edited copy of the loaded document. A
+ * JSONC, JSON5 or HJSON document stays in its dialect and keeps its comments;
+ * anything else becomes plain JSON.
+ */
+export function stringifyEditedDocument(
+  data: JsonValue,
+  source: Pick<ParsedJson, 'format' | 'comments'> | null
+): { raw: string; parsed?: Pick<ParsedJson, 'format' | 'comments'> } {
+  if (!source || !isJsonDialect(source.format)) return { raw: stringifyJSON(data) };
+
+  const { format, comments } = source;
+  // Comments are only written back when they were kept on load
+  const raw = comments ? stringifyDialect(data, format, comments) : stringifyJSON(data);
+  return { raw, parsed: { format, ...(comments && { comments }) } };
+}
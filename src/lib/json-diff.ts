@@ -0,0 +1,239 @@
+import { JsonObject, JsonValue } from '../types/json.types';
+
+import { detectJSONType, stringifyJSON } from './json-parser';
+import { isJsonNumber, isLosslessNumber, numbersEqual } from './lossless-number';
+
+/**
+ * Options for structural diffing
+ */
+export interface DiffOptions {
+  /**
+   * Match array elements by this object key (e.g. `id`) instead of by index.
+   * Elements that are not objects or lack the key fall back to index matching.
+   */
+  arrayKey?: string;
+}
+
+/**
+ * A single difference between two JSON documents
+ */
+export interface DiffOperation {
+  type: 'added' | 'removed' | 'changed';
+  /** JSONPath of the change: new side for added/changed, old side for removed */
+  path: string;
+  /** Path segments in `TreeNode.path` format */
+  segments: string[];
+  /** JSONPath in the old document (absent for added values) */
+  oldPath?: string;
+  /** JSONPath in the new document (absent for removed values) */
+  newPath?: string;
+  oldValue?: JsonValue;
+  newValue?: JsonValue;
+}
+
+export interface DiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  total: number;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Convert `TreeNode.path` style segments into a JSONPath expression
+ *
+ * @example
+ * ```ts
+ * toJsonPath(['users', '[0]', 'first name']); // "$.users[0]['first name']"
+ * ```
+ */
+export function toJsonPath(segments: string[]): string {
+  return segments.reduce((acc, segment) => {
+    if (/^\[\d+\]$/.test(segment)) return `${acc}${segment}`;
+    if (IDENTIFIER_PATTERN.test(segment)) return `${acc}.${segment}`;
+    return `${acc}['${segment.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+  }, '$');
+}
+
+function isPlainObject(value: JsonValue | undefined): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !isLosslessNumber(value);
+}
+
+/**
+ * Deep structural equality for JSON values (object key order is ignored)
+ */
+export function jsonEquals(a: JsonValue | undefined, b: JsonValue | undefined): boolean {
+  if (a === b) return true;
+  if (isJsonNumber(a) && isJsonNumber(b)) return numbersEqual(a, b);
+  if (typeof a !== typeof b || a === null || b === null || a === undefined || b === undefined) {
+    return false;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, index) => jsonEquals(item, b[index])); // eslint-disable-line security/detect-object-injection
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keysA = Object.keys(a);
+    if (keysA.length !== Object.keys(b).length) return false;
+    return keysA.every((key) =>
+      Object.prototype.hasOwnProperty.call(b, key) && jsonEquals(a[key], b[key]) // eslint-disable-line security/detect-object-injection
+    );
+  }
+  return false;
+}
+
+function getArrayKey(item: JsonValue | undefined, arrayKey: string): string | null {
+  if (!isPlainObject(item) || !Object.prototype.hasOwnProperty.call(item, arrayKey)) return null;
+  const keyValue = item[arrayKey]; // eslint-disable-line security/detect-object-injection
+  return typeof keyValue === 'object' ? stringifyJSON(keyValue, 0) : String(keyValue);
+}
+
+/**
+ * Compute the structural differences between two JSON documents.
+ * Operations are returned in document order of the new side, with removals
+ * listed where they occurred in the old side.
+ *
+ * @example
+ * ```ts
+ * diffJson({ a: 1, b: 2 }, { a: 1, b: 3, c: 4 });
+ * // [
+ * //   { type: 'changed', path: '$.b', oldValue: 2, newValue: 3, ... },
+ * //   { type: 'added', path: '$.c', newValue: 4, ... },
+ * // ]
+ * ```
+ */
+export function diffJson(
+  oldValue: JsonValue,
+  newValue: JsonValue,
+  options: DiffOptions = {}
+): DiffOperation[] {
+  const operations: DiffOperation[] = [];
+
+  const added = (segments: string[], value: JsonValue) => {
+    const path = toJsonPath(segments);
+    operations.push({ type: 'added', path, segments, newPath: path, newValue: value });
+  };
+
+  const removed = (segments: string[], value: JsonValue) => {
+    const path = toJsonPath(segments);
+    operations.push({ type: 'removed', path, segments, oldPath: path, oldValue: value });
+  };
+
+  const compare = (
+    left: JsonValue,
+    right: JsonValue,
+    leftSegments: string[],
+    rightSegments: string[]
+  ): void => {
+    if (left === right) return;
+
+    const leftType = detectJSONType(left);
+    const rightType = detectJSONType(right);
+
+    if (leftType !== rightType || (leftType !== 'object' && leftType !== 'array')) {
+      if (!jsonEquals(left, right)) {
+        operations.push({
+          type: 'changed',
+          path: toJsonPath(rightSegments),
+          segments: rightSegments,
+          oldPath: toJsonPath(leftSegments),
+          newPath: toJsonPath(rightSegments),
+          oldValue: left,
+          newValue: right,
+        });
+      }
+      return;
+    }
+
+    if (leftType === 'array') {
+      compareArrays(left as JsonValue[], right as JsonValue[], leftSegments, rightSegments);
+      return;
+    }
+
+    const leftObj = left as JsonObject;
+    const rightObj = right as JsonObject;
+
+    Object.keys(leftObj).forEach((key) => {
+      if (!Object.prototype.hasOwnProperty.call(rightObj, key)) {
+        removed([...leftSegments, key], leftObj[key] as JsonValue); // eslint-disable-line security/detect-object-injection
+      }
+    });
+
+    Object.keys(rightObj).forEach((key) => {
+      const rightChild = rightObj[key] as JsonValue; // eslint-disable-line security/detect-object-injection
+      if (Object.prototype.hasOwnProperty.call(leftObj, key)) {
+        compare(leftObj[key] as JsonValue, rightChild, [...leftSegments, key], [...rightSegments, key]); // eslint-disable-line security/detect-object-injection
+      } else {
+        added([...rightSegments, key], rightChild);
+      }
+    });
+  };
+
+  const compareArrays = (
+    left: JsonValue[],
+    right: JsonValue[],
+    leftSegments: string[],
+    rightSegments: string[]
+  ): void => {
+    const { arrayKey } = options;
+    const keyed = arrayKey
+      && left.every((item) => getArrayKey(item, arrayKey) !== null)
+      && right.every((item) => getArrayKey(item, arrayKey) !== null);
+
+    if (!keyed || !arrayKey) {
+      const common = Math.min(left.length, right.length);
+      for (let i = 0; i < common; i++) {
+        compare(left[i] as JsonValue, right[i] as JsonValue, [...leftSegments, `[${i}]`], [...rightSegments, `[${i}]`]); // eslint-disable-line security/detect-object-injection
+      }
+      for (let i = common; i < left.length; i++) {
+        removed([...leftSegments, `[${i}]`], left[i] as JsonValue); // eslint-disable-line security/detect-object-injection
+      }
+      for (let i = common; i < right.length; i++) {
+        added([...rightSegments, `[${i}]`], right[i] as JsonValue); // eslint-disable-line security/detect-object-injection
+      }
+      return;
+    }
+
+    const leftIndexByKey = new Map<string, number>();
+    left.forEach((item, index) => {
+      const key = getArrayKey(item, arrayKey);
+      if (key !== null && !leftIndexByKey.has(key)) leftIndexByKey.set(key, index);
+    });
+
+    const matchedLeft = new Set<number>();
+    const pending: Array<() => void> = [];
+
+    right.forEach((item, index) => {
+      const key = getArrayKey(item, arrayKey);
+      const leftIndex = key !== null ? leftIndexByKey.get(key) : undefined;
+      const rightItemSegments = [...rightSegments, `[${index}]`];
+
+      if (leftIndex !== undefined && !matchedLeft.has(leftIndex)) {
+        matchedLeft.add(leftIndex);
+        pending.push(() => compare(left[leftIndex] as JsonValue, item, [...leftSegments, `[${leftIndex}]`], rightItemSegments)); // eslint-disable-line security/detect-object-injection
+      } else {
+        pending.push(() => added(rightItemSegments, item));
+      }
+    });
+
+    left.forEach((item, index) => {
+      if (!matchedLeft.has(index)) removed([...leftSegments, `[${index}]`], item);
+    });
+    pending.forEach((run) => run());
+  };
+
+  compare(oldValue, newValue, [], []);
+  return operations;
+}
+
+/**
+ * Count operations by type
+ */
+export function summarizeDiff(operations: DiffOperation[]): DiffSummary {
+  const summary: DiffSummary = { added: 0, removed: 0, changed: 0, total: operations.length };
+  operations.forEach((operation) => {
+    summary[operation.type]++;
+  });
+  return summary;
+}
@@ -0,0 +1,284 @@
+import { JsonArray, JsonObject, JsonValue } from '../types/json.types';
+
+import { createError, ErrorCodes } from './error-handler';
+import { isLosslessNumber, setMember } from './lossless-number';
+import { parseJSONIncrementally } from './streaming-json-parser';
+
+/**
+ * Immutable edit operations on JSON documents.
+ *
+ * Paths use the same segment format as `TreeNode.path`: object keys are plain
+ * strings and array indices are wrapped in brackets (`['users', '[0]', 'name']`).
+ * Every operation returns a new root value and leaves the input untouched;
+ * only the containers along the edited path are copied.
+ */
+
+function isContainer(value: JsonValue | undefined): value is JsonObject | JsonArray {
+  return typeof value === 'object' && value !== null && !isLosslessNumber(value);
+}
+
+function parseIndex(segment: string): number | null {
+  const match = segment.match(/^\[(\d+)\]$/);
+  return match ? parseInt(match[1] || '0', 10) : null;
+}
+
+function formatPath(path: string[]): string {
+  return path.length ? path.join('.') : 'root';
+}
+
+function getChild(container: JsonObject | JsonArray, segment: string): JsonValue | undefined {
+  if (Array.isArray(container)) {
+    const index = parseIndex(segment);
+    return index === null ? undefined : container[index]; // eslint-disable-line security/detect-object-injection
+  }
+  return Object.prototype.hasOwnProperty.call(container, segment)
+    ? container[segment] // eslint-disable-line security/detect-object-injection
+    : undefined;
+}
+
+function withChild(
+  container: JsonObject | JsonArray,
+  segment: string,
+  value: JsonValue
+): JsonObject | JsonArray {
+  if (Array.isArray(container)) {
+    const index = parseIndex(segment);
+    if (index === null || index >= container.length) {
+      throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, `Invalid array index "${segment}"`);
+    }
+    const copy = [...container];
+    copy[index] = value; // eslint-disable-line security/detect-object-injection
+    return copy;
+  }
+  return { ...container, [segment]: value };
+}
+
+/**
+ * Replace the container at `path` with the result of `update`, copying every
+ * ancestor on the way back up.
+ */
+function updateAtPath(
+  root: JsonValue,
+  path: string[],
+  update: (value: JsonValue) => JsonValue
+): JsonValue {
+  if (path.length === 0) {
+    return update(root);
+  }
+
+  const [head, ...rest] = path as [string, ...string[]];
+  if (!isContainer(root)) {
+    throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, `Cannot descend into a primitive at "${head}"`);
+  }
+
+  const child = getChild(root, head);
+  if (child === undefined) {
+    throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, `Path segment "${head}" does not exist`);
+  }
+
+  return withChild(root, head, updateAtPath(child, rest, update));
+}
+
+function splitPath(path: string[]): { parentPath: string[]; segment: string } {
+  if (path.length === 0) {
+    throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, 'The root node cannot be renamed, moved or deleted');
+  }
+  return { parentPath: path.slice(0, -1), segment: path[path.length - 1] as string };
+}
+
+/**
+ * Read the value at a tree path, or undefined when the path does not exist
+ */
+export function getValueAtPath(root: JsonValue, path: string[]): JsonValue | undefined {
+  let current: JsonValue | undefined = root;
+  for (const segment of path) {
+    if (!isContainer(current)) return undefined;
+    current = getChild(current, segment);
+  }
+  return current;
+}
+
+/**
+ * Replace the value at an existing path
+ */
+export function setValueAtPath(root: JsonValue, path: string[], value: JsonValue): JsonValue {
+  return updateAtPath(root, path, () => value);
+}
+
+/**
+ * Rename an object key in place, keeping its position among the siblings
+ */
+export function renameKeyAtPath(root: JsonValue, path: string[], newKey: string): JsonValue {
+  const { parentPath, segment } = splitPath(path);
+
+  return updateAtPath(root, parentPath, (parent) => {
+    if (!isContainer(parent) || Array.isArray(parent)) {
+      throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, 'Only object keys can be renamed');
+    }
+    if (newKey === segment) return parent;
+    if (!newKey) {
+      throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, 'Key cannot be empty');
+    }
+    if (Object.prototype.hasOwnProperty.call(parent, newKey)) {
+      throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, `Key "${newKey}" already exists in ${formatPath(parentPath)}`);
+    }
+
+    const renamed: JsonObject = {};
+    Object.entries(parent).forEach(([key, value]) => {
+      setMember(renamed, key === segment ? newKey : key, value);
+    });
+    return renamed;
+  });
+}
+
+/**
+ * Add a child to the object or array at `path`.
+ * Objects require a new unique key; arrays append unless an index is given.
+ */
+export function insertChildAtPath(
+  root: JsonValue,
+  path: string[],
+  value: JsonValue,
+  keyOrIndex?: string | number
+): JsonValue {
+  return updateAtPath(root, path, (target) => {
+    if (Array.isArray(target)) {
+      const index = typeof keyOrIndex === 'number'
+        ? Math.max(0, Math.min(keyOrIndex, target.length))
+        : target.length;
+      return [...target.slice(0, index), value, ...target.slice(index)];
+    }
+    if (isContainer(target)) {
+      const key = String(keyOrIndex ?? '');
+      if (!key) {
+        throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, 'Key cannot be empty');
+      }
+      if (Object.prototype.hasOwnProperty.call(target, key)) {
+        throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, `Key "${key}" already exists in ${formatPath(path)}`);
+      }
+      return { ...target, [key]: value };
+    }
+    throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, 'Children can only be added to objects and arrays');
+  });
+}
+
+/**
+ * Remove the node at `path` from its parent
+ */
+export function deleteAtPath(root: JsonValue, path: string[]): JsonValue {
+  const { parentPath, segment } = splitPath(path);
+
+  return updateAtPath(root, parentPath, (parent) => {
+    if (Array.isArray(parent)) {
+      const index = parseIndex(segment);
+      if (index === null || index >= parent.length) {
+        throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, `Invalid array index "${segment}"`);
+      }
+      return parent.filter((_, i) => i !== index);
+    }
+    if (isContainer(parent)) {
+      const { [segment]: _removed, ...rest } = parent;
+      return rest;
+    }
+    throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, `Cannot delete from a primitive at ${formatPath(parentPath)}`);
+  });
+}
+
+/**
+ * Move an array item to a new index within the same array
+ */
+export function moveArrayItem(root: JsonValue, path: string[], toIndex: number): JsonValue {
+  const { parentPath, segment } = splitPath(path);
+
+  return updateAtPath(root, parentPath, (parent) => {
+    const fromIndex = parseIndex(segment);
+    if (!Array.isArray(parent) || fromIndex === null || fromIndex >= parent.length) {
+      throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, 'Only array items can be reordered');
+    }
+    const target = Math.max(0, Math.min(toIndex, parent.length - 1));
+    if (target === fromIndex) return parent;
+
+    const copy = [...parent];
+    const [item] = copy.splice(fromIndex, 1);
+    copy.splice(target, 0, item as JsonValue);
+    return copy;
+  });
+}
+
+/**
+ * Interpret text typed into an inline editor as a JSON value.
+ * When the node was a string, the text is kept as a string unless it is
+ * explicitly quoted; otherwise numbers, booleans, null and JSON literals are
+ * recognised and anything else falls back to a string. With `losslessNumbers`
+ * the typed digits are kept exactly.
+ */
+export function parseEditedValue(input: string, originalType?: string, losslessNumbers = false): JsonValue {
+  const trimmed = input.trim();
+
+  if (originalType === 'string' && !/^".*"$/s.test(trimmed)) {
+    return input;
+  }
+
+  try {
+    return losslessNumbers ? parseJSONIncrementally(trimmed, { losslessNumbers }).data : JSON.parse(trimmed) as JsonValue;
+  } catch {
+    return input;
+  }
+}
+
+/**
+ * Text shown in an inline editor for a primitive value
+ */
+export function formatEditableValue(value: JsonValue): string {
+  if (isLosslessNumber(value)) return value.value;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * A single edit requested from the tree view
+ */
+export type TreeEditAction =
+  | { type: 'set-value'; path: string[]; value: JsonValue }
+  | { type: 'rename'; path: string[]; newKey: string }
+  | { type: 'add-child'; path: string[]; value: JsonValue; key?: string }
+  | { type: 'move'; path: string[]; toIndex: number }
+  | { type: 'delete'; path: string[] };
+
+/**
+ * Apply a tree edit action and return the new document together with a
+ * human-readable description for the history panel
+ */
+export function applyTreeEdit(
+  root: JsonValue,
+  action: TreeEditAction
+): { data: JsonValue; description: string } {
+  const location = formatPath(action.path);
+
+  switch (action.type) {
+    case 'set-value':
+      return {
+        data: setValueAtPath(root, action.path, action.value),
+        description: `Edited value at ${location}`,
+      };
+    case 'rename':
+      return {
+        data: renameKeyAtPath(root, action.path, action.newKey),
+        description: `Renamed ${location} to "${action.newKey}"`,
+      };
+    case 'add-child':
+      return {
+        data: insertChildAtPath(root, action.path, action.value, action.key),
+        description: `Added ${action.key ? `"${action.key}"` : 'item'} to ${location}`,
+      };
+    case 'move':
+      return {
+        data: moveArrayItem(root, action.path, action.toIndex),
+        description: `Moved ${location} to index ${action.toIndex}`,
+      };
+    case 'delete':
+      return {
+        data: deleteAtPath(root, action.path),
+        description: `Deleted ${location}`,
+      };
+  }
+}
@@ -1,6 +1,9 @@
-import { JsonValue } from '../types/json.types';
+import { DuplicateKey, DuplicateKeyPolicy, JsonValue } from '../types/json.types';
 
-import { fixNestedJsonStrings, emergencyJsonRecovery } from './file-processor';
+import { brutalSanitize, cleanControlCharacters, fixNestedJsonStrings, emergencyJsonRecovery } from './file-processor';
+import { JsonRepair, RepairLog } from './json-repair';
+import { hasLosslessNumbers, isLosslessNumber, stringifyLosslessJSON } from './lossless-number';
+import { parseJSONIncrementally } from './streaming-json-parser';
 
 /**
  * Result of JSON parsing operation
@@ -12,6 +15,43 @@ export interface ParseResult {
   error: string | null;
   /** Whether the JSON was valid and parsed successfully */
   isValid: boolean;
+  /** Keys repeated within an object, in source order */
+  duplicateKeys: DuplicateKey[];
+  /** Changes auto-recovery made to the input before it parsed, empty if none */
+  repairs: JsonRepair[];
+}
+
+/**
+ * Options for `parseJSON`
+ */
+export interface ParseOptions {
+  /** Keep numbers that would lose precision as `LosslessNumber`s */
+  losslessNumbers?: boolean;
+  /** Which value a repeated key keeps (default `last-wins`, like `JSON.parse`) */
+  duplicateKeyPolicy?: DuplicateKeyPolicy;
+  /**
+   * Repairs already made to produce the input. Recovery continues this log,
+   * so `repairs` in the result are relative to the text it started from.
+   */
+  repairLog?: RepairLog;
+}
+
+function parseDocument(text: string, options: ParseOptions): { data: JsonValue; duplicateKeys: DuplicateKey[] } {
+  try {
+    const { data, duplicateKeys } = parseJSONIncrementally(text, options);
+    return { data, duplicateKeys };
+  } catch {
+    // Re-parse natively so errors carry the usual messages the recovery below keys on
+    return { data: JSON.parse(text) as JsonValue, duplicateKeys: [] };
+  }
+}
+
+/**
+ * `JSON.parse` with optional lossless numbers and duplicate key handling, but
+ * no recovery; throws on invalid input
+ */
+export function parseJSONStrict(text: string, options: ParseOptions = {}): JsonValue {
+  return parseDocument(text, options).data;
 }
 
 /**
@@ -22,10 +62,13 @@ export interface ParseResult {
  * 2. Fix nested JSON strings
  * 3. Emergency recovery for malformed JSON
  *
- * Provides helpful error messages for common JSON syntax issues.
+ * Provides helpful error messages for common JSON syntax issues, and reports
+ * every key that is repeated within an object. When recovery was needed,
+ * `repairs` lists each change it made so callers can show or undo them.
  *
  * @param input - JSON string to parse
- * @returns Parse result with data, error message, and validity flag
+ * @param options - Parse options, e.g. lossless number handling
+ * @returns Parse result with data, error message, validity flag and duplicate keys
  *
  * @example
  * ```ts
@@ -44,7 +87,7 @@ export interface ParseResult {
  * // Attempts automatic recovery
  * ```
  */
-export function parseJSON(input: string): ParseResult {
+export function parseJSON(input: string, options: ParseOptions = {}): ParseResult {
   try {
     const trimmed = input.trim();
     if (!trimmed) {
@@ -52,14 +95,18 @@ export function parseJSON(input: string): ParseResult {
         data: null,
         error: 'Empty input',
         isValid: false,
+        duplicateKeys: [],
+        repairs: [],
       };
     }
     
-    const data = JSON.parse(trimmed);
+    const { data, duplicateKeys } = parseDocument(trimmed, options);
     return {
       data,
       error: null,
       isValid: true,
+      duplicateKeys,
+      repairs: options.repairLog?.repairs ?? [],
     };
   } catch (error) {
     let errorMessage = 'Invalid JSON';
@@ -74,22 +121,28 @@ export function parseJSON(input: string): ParseResult {
         
         try {
           // Try method 1: Fix nested JSON strings
-          const fixed1 = fixNestedJsonStrings(input);
-          const data1 = JSON.parse(fixed1);
+          const log1 = options.repairLog?.clone() ?? new RepairLog(input);
+          const fixed1 = fixNestedJsonStrings(input, log1);
+          const result1 = parseDocument(fixed1, options);
           return {
-            data: data1,
+            data: result1.data,
             error: null,
             isValid: true,
+            duplicateKeys: result1.duplicateKeys,
+            repairs: log1.repairs,
           };
         } catch (e1) {
           try {
             // Try method 2: Emergency recovery
-            const fixed2 = emergencyJsonRecovery(input);
-            const data2 = JSON.parse(fixed2);
+            const log2 = options.repairLog?.clone() ?? new RepairLog(input);
+            const fixed2 = emergencyJsonRecovery(input, log2);
+            const result2 = parseDocument(fixed2, options);
             return {
-              data: data2,
+              data: result2.data,
               error: null,
               isValid: true,
+              duplicateKeys: result2.duplicateKeys,
+              repairs: log2.repairs,
             };
           } catch (e2) {
             // Both recovery methods failed
@@ -112,12 +165,15 @@ export function parseJSON(input: string): ParseResult {
       data: null,
       error: errorMessage,
       isValid: false,
+      duplicateKeys: [],
+      repairs: [],
     };
   }
 }
 
 /**
- * Convert a JavaScript value to a formatted JSON string
+ * Convert a JavaScript value to a formatted JSON string. Lossless numbers are
+ * written with their original text.
  *
  * @param data - JavaScript value to stringify
  * @param space - Number of spaces for indentation (default: 2)
@@ -134,7 +190,19 @@ export function stringifyJSON(
   data: JsonValue,
   space: number = 2
 ): string {
-  return JSON.stringify(data, null, space);
+  return hasLosslessNumbers(data) ? stringifyLosslessJSON(data, space) : JSON.stringify(data, null, space);
+}
+
+/**
+ * `parseJSON` for text pasted or uploaded by the user: valid JSON is parsed as
+ * is, anything else is sanitized first. `repairs` are relative to `input`.
+ */
+export function parseJSONWithRepairs(input: string, options: Omit<ParseOptions, 'repairLog'> = {}): ParseResult {
+  const repairLog = new RepairLog(input);
+  const text = validateJSON(input).isValid
+    ? input
+    : cleanControlCharacters(brutalSanitize(input, repairLog), repairLog);
+  return parseJSON(text, { ...options, repairLog });
 }
 
 /**
@@ -198,6 +266,7 @@ export function validateJSON(input: string): {
 export function detectJSONType(value: JsonValue): string {
   if (value === null) return 'null';
   if (Array.isArray(value)) return 'array';
+  if (isLosslessNumber(value)) return 'number';
   return typeof value;
 }
 
@@ -0,0 +1,363 @@
+import { JsonObject, JsonValue } from '../types/json.types';
+
+import { diffJson, DiffOperation, jsonEquals } from './json-diff';
+import { stringifyJSON } from './json-parser';
+import { cloneJsonValue, isLosslessNumber, setMember } from './lossless-number';
+
+/**
+ * RFC 6902 JSON Patch and RFC 7386 JSON Merge Patch support.
+ *
+ * Patches are applied to a deep copy of the target; the original document is
+ * never mutated and a failed JSON Patch leaves no partial changes behind.
+ */
+
+export type JsonPatchOperationType = 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+
+export interface JsonPatchOperation {
+  op: JsonPatchOperationType;
+  path: string;
+  value?: JsonValue;
+  from?: string;
+}
+
+export interface PatchOperationResult {
+  index: number;
+  op: string;
+  path: string;
+  status: 'applied' | 'failed' | 'skipped';
+  /** For `test` operations: whether the value matched */
+  testPassed?: boolean;
+  message?: string;
+}
+
+export interface PatchApplyResult {
+  success: boolean;
+  /** Patched document, null when any operation failed */
+  data: JsonValue | null;
+  results: PatchOperationResult[];
+  /** Index of the operation that failed */
+  failedIndex?: number;
+  error?: string;
+}
+
+const OPERATION_TYPES: JsonPatchOperationType[] = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+class PatchError extends Error {}
+
+function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !isLosslessNumber(value);
+}
+
+/**
+ * Convert `TreeNode.path` style segments into an RFC 6901 JSON Pointer
+ *
+ * @example
+ * ```ts
+ * segmentsToPointer(['users', '[0]', 'a/b']); // "/users/0/a~1b"
+ * ```
+ */
+export function segmentsToPointer(segments: string[]): string {
+  return segments
+    .map((segment) => {
+      const index = segment.match(/^\[(\d+)\]$/);
+      const token = index ? index[1] || '0' : segment;
+      return `/${token.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+    })
+    .join('');
+}
+
+/**
+ * Split an RFC 6901 JSON Pointer into unescaped reference tokens
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new PatchError(`Invalid JSON Pointer "${pointer}": must be empty or start with "/"`);
+  }
+  return pointer
+    .substring(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function parseArrayIndex(token: string, length: number, allowEnd: boolean): number {
+  if (allowEnd && token === '-') return length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) {
+    throw new PatchError(`"${token}" is not a valid array index`);
+  }
+  const index = parseInt(token, 10);
+  if (index > length || (!allowEnd && index === length)) {
+    throw new PatchError(`Array index ${index} is out of bounds (length ${length})`);
+  }
+  return index;
+}
+
+function getAt(doc: JsonValue, tokens: string[], pointer: string): JsonValue {
+  let current: JsonValue = doc;
+  for (const token of tokens) {
+    if (Array.isArray(current)) {
+      current = current[parseArrayIndex(token, current.length, false)] as JsonValue;
+    } else if (isPlainObject(current) && Object.prototype.hasOwnProperty.call(current, token)) {
+      current = current[token] as JsonValue; // eslint-disable-line security/detect-object-injection
+    } else {
+      throw new PatchError(`Path "${pointer}" does not exist`);
+    }
+  }
+  return current;
+}
+
+function resolveParent(doc: JsonValue, pointer: string): { parent: JsonValue; token: string } {
+  const tokens = parsePointer(pointer);
+  const token = tokens.pop() as string;
+  return { parent: getAt(doc, tokens, pointer), token };
+}
+
+/** Returns the new root (only changes when the whole document is replaced) */
+function addValue(doc: JsonValue, pointer: string, value: JsonValue): JsonValue {
+  if (pointer === '') return value;
+
+  const { parent, token } = resolveParent(doc, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(parseArrayIndex(token, parent.length, true), 0, value);
+  } else if (isPlainObject(parent)) {
+    setMember(parent, token, value);
+  } else {
+    throw new PatchError(`Cannot add to "${pointer}": parent is not a container`);
+  }
+  return doc;
+}
+
+function removeValue(doc: JsonValue, pointer: string): JsonValue {
+  if (pointer === '') {
+    throw new PatchError('The document root cannot be removed');
+  }
+
+  const { parent, token } = resolveParent(doc, pointer);
+  if (Array.isArray(parent)) {
+    const [removed] = parent.splice(parseArrayIndex(token, parent.length, false), 1);
+    return removed as JsonValue;
+  }
+  if (isPlainObject(parent) && Object.prototype.hasOwnProperty.call(parent, token)) {
+    const removed = parent[token] as JsonValue; // eslint-disable-line security/detect-object-injection
+    delete parent[token]; // eslint-disable-line security/detect-object-injection
+    return removed;
+  }
+  throw new PatchError(`Path "${pointer}" does not exist`);
+}
+
+function applyOperation(doc: JsonValue, operation: JsonPatchOperation): { doc: JsonValue; testPassed?: boolean } {
+  const { op, path } = operation;
+
+  switch (op) {
+    case 'add':
+      return { doc: addValue(doc, path, cloneJsonValue(operation.value as JsonValue)) };
+    case 'remove':
+      removeValue(doc, path);
+      return { doc };
+    case 'replace':
+      if (path === '') return { doc: cloneJsonValue(operation.value as JsonValue) };
+      getAt(doc, parsePointer(path), path);
+      removeValue(doc, path);
+      return { doc: addValue(doc, path, cloneJsonValue(operation.value as JsonValue)) };
+    case 'move': {
+      const from = operation.from as string;
+      if (from === path) return { doc };
+      if (path.startsWith(`${from}/`)) {
+        throw new PatchError(`Cannot move "${from}" into one of its own children`);
+      }
+      const value = getAt(doc, parsePointer(from), from);
+      if (from === '') return { doc: value };
+      removeValue(doc, from);
+      return { doc: addValue(doc, path, value) };
+    }
+    case 'copy': {
+      const from = operation.from as string;
+      const value = getAt(doc, parsePointer(from), from);
+      return { doc: addValue(doc, path, cloneJsonValue(value)) };
+    }
+    case 'test': {
+      const actual = getAt(doc, parsePointer(path), path);
+      const testPassed = jsonEquals(actual, operation.value);
+      if (!testPassed) {
+        throw Object.assign(new PatchError(`Test failed at "${path}": expected ${stringifyJSON(operation.value as JsonValue, 0)}, found ${stringifyJSON(actual ?? null, 0)}`), { testPassed });
+      }
+      return { doc, testPassed };
+    }
+  }
+}
+
+/**
+ * Check that a parsed value is a structurally valid JSON Patch document.
+ * Returns an error message describing the first problem, or null.
+ */
+export function validateJsonPatch(patch: unknown): string | null {
+  if (!Array.isArray(patch)) {
+    return 'A JSON Patch must be an array of operations';
+  }
+  for (let i = 0; i < patch.length; i++) {
+    const candidate: unknown = patch[i]; // eslint-disable-line security/detect-object-injection
+    if (!isPlainObject(candidate)) {
+      return `Operation ${i} is not an object`;
+    }
+    const operation = candidate as { op?: unknown; path?: unknown; from?: unknown };
+    if (!OPERATION_TYPES.includes(operation.op as JsonPatchOperationType)) {
+      return `Operation ${i} has an unknown "op": ${JSON.stringify(operation.op)}`;
+    }
+    if (typeof operation.path !== 'string') {
+      return `Operation ${i} is missing a string "path"`;
+    }
+    if ((operation.op === 'move' || operation.op === 'copy') && typeof operation.from !== 'string') {
+      return `Operation ${i} (${operation.op}) is missing a string "from"`;
+    }
+    if (['add', 'replace', 'test'].includes(operation.op as string) && !('value' in operation)) {
+      return `Operation ${i} (${operation.op}) is missing "value"`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Apply an RFC 6902 JSON Patch.
+ * Operations run in order; the first failure stops the patch, later
+ * operations are reported as skipped and no changes are returned.
+ */
+export function applyJsonPatch(document: JsonValue, patch: JsonPatchOperation[]): PatchApplyResult {
+  const structureError = validateJsonPatch(patch);
+  if (structureError) {
+    return { success: false, data: null, results: [], error: structureError };
+  }
+
+  let working = cloneJsonValue(document);
+  const results: PatchOperationResult[] = [];
+  let failedIndex: number | undefined;
+  let error: string | undefined;
+
+  patch.forEach((operation, index) => {
+    const base = { index, op: operation.op, path: operation.path };
+    if (failedIndex !== undefined) {
+      results.push({ ...base, status: 'skipped' });
+      return;
+    }
+
+    try {
+      const outcome = applyOperation(working, operation);
+      working = outcome.doc;
+      results.push({
+        ...base,
+        status: 'applied',
+        ...(outcome.testPassed !== undefined && { testPassed: outcome.testPassed }),
+      });
+    } catch (e) {
+      failedIndex = index;
+      error = `Operation ${index} (${operation.op} ${operation.path}) failed: ${e instanceof Error ? e.message : String(e)}`;
+      const testPassed = (e as { testPassed?: boolean }).testPassed;
+      results.push({
+        ...base,
+        status: 'failed',
+        message: e instanceof Error ? e.message : String(e),
+        ...(testPassed !== undefined && { testPassed }),
+      });
+    }
+  });
+
+  if (failedIndex !== undefined) {
+    return { success: false, data: null, results, failedIndex, error };
+  }
+  return { success: true, data: working, results };
+}
+
+/**
+ * Generate an RFC 6902 JSON Patch that turns `from` into `to`
+ *
+ * @example
+ * ```ts
+ * createJsonPatch({ a: 1, b: [1, 2] }, { a: 2, b: [1] });
+ * // [{ op: 'replace', path: '/a', value: 2 }, { op: 'remove', path: '/b/1' }]
+ * ```
+ */
+export function createJsonPatch(from: JsonValue, to: JsonValue): JsonPatchOperation[] {
+  const operations = diffJson(from, to);
+
+  // Array removals must run from the highest index down so earlier removals
+  // do not shift the indices of later ones.
+  const isIndexRemoval = (operation: DiffOperation) =>
+    operation.type === 'removed' && /^\[\d+\]$/.test(operation.segments[operation.segments.length - 1] || '');
+  const parentKey = (operation: DiffOperation) => JSON.stringify(operation.segments.slice(0, -1));
+
+  const ordered: DiffOperation[] = [];
+  let run: DiffOperation[] = [];
+  const flush = () => {
+    ordered.push(...run.reverse());
+    run = [];
+  };
+
+  operations.forEach((operation) => {
+    if (!isIndexRemoval(operation)) {
+      flush();
+      ordered.push(operation);
+      return;
+    }
+    if (run[0] && parentKey(run[0]) !== parentKey(operation)) flush();
+    run.push(operation);
+  });
+  flush();
+
+  return ordered.map((operation): JsonPatchOperation => {
+    const path = segmentsToPointer(operation.segments);
+    switch (operation.type) {
+      case 'added':
+        return { op: 'add', path, value: operation.newValue as JsonValue };
+      case 'removed':
+        return { op: 'remove', path };
+      case 'changed':
+        return { op: 'replace', path, value: operation.newValue as JsonValue };
+    }
+  });
+}
+
+/**
+ * Apply an RFC 7386 JSON Merge Patch
+ */
+export function applyMergePatch(target: JsonValue, patch: JsonValue): JsonValue {
+  if (!isPlainObject(patch)) {
+    return cloneJsonValue(patch);
+  }
+
+  const result: JsonObject = isPlainObject(target) ? { ...target } : {};
+  Object.entries(patch).forEach(([key, value]) => {
+    if (value === null) {
+      delete result[key]; // eslint-disable-line security/detect-object-injection
+    } else {
+      const current = Object.prototype.hasOwnProperty.call(result, key) ? result[key] ?? null : null; // eslint-disable-line security/detect-object-injection
+      setMember(result, key, applyMergePatch(current, value));
+    }
+  });
+  return result;
+}
+
+/**
+ * Generate an RFC 7386 JSON Merge Patch that turns `from` into `to`.
+ * Merge patches replace arrays wholesale and cannot express setting a
+ * member to null, since null means "remove" in this format.
+ */
+export function createMergePatch(from: JsonValue, to: JsonValue): JsonValue {
+  if (!isPlainObject(from) || !isPlainObject(to)) {
+    return cloneJsonValue(to);
+  }
+
+  const patch: JsonObject = {};
+  Object.keys(from).forEach((key) => {
+    if (!Object.prototype.hasOwnProperty.call(to, key)) {
+      setMember(patch, key, null);
+    }
+  });
+  Object.entries(to).forEach(([key, value]) => {
+    const previous = Object.prototype.hasOwnProperty.call(from, key) ? from[key] : undefined; // eslint-disable-line security/detect-object-injection
+    if (previous === undefined) {
+      setMember(patch, key, cloneJsonValue(value));
+    } else if (!jsonEquals(previous, value)) {
+      setMember(patch, key, createMergePatch(previous, value));
+    }
+  });
+  return patch;
+}
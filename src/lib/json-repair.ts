@@ -0,0 +1,200 @@
+/**
+ * A single change made to the input by one of the recovery passes in
+ * `file-processor`. Offsets refer to the text before any repair, so fixes can
+ * be applied independently of each other.
+ */
+export interface JsonRepair {
+  /** Position in the report, stable for the lifetime of the log */
+  id: number;
+  /** Passes that touched this span; overlapping changes are merged into one repair */
+  rules: string[];
+  /** Zero-based offset into the original text */
+  offset: number;
+  /** 1-based line and column of `offset` */
+  line: number;
+  column: number;
+  /** Text removed from the original */
+  original: string;
+  /** Text put in its place */
+  replacement: string;
+}
+
+/**
+ * Text that only parsed after auto-recovery, held so the repairs can be
+ * reviewed before the result is loaded
+ */
+export interface RepairedText {
+  original: string;
+  repairs: JsonRepair[];
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  replacement: string;
+  rules: string[];
+}
+
+type Replacer = (match: string, ...groups: string[]) => string;
+
+/**
+ * Records what the recovery passes change, mapped back onto the original
+ * text. Passes take an optional log and call `replace` instead of
+ * `String.prototype.replace` for every rewrite.
+ */
+export class RepairLog {
+  private edits: Edit[] = [];
+  private current: string;
+
+  constructor(readonly original: string) {
+    this.current = original;
+  }
+
+  /** Text with every recorded change applied */
+  get text(): string {
+    return this.current;
+  }
+
+  /** Independent copy, for recovery attempts that may be thrown away */
+  clone(): RepairLog {
+    const copy = new RepairLog(this.original);
+    copy.edits = this.edits.map((edit) => ({ ...edit, rules: [...edit.rules] }));
+    copy.current = this.current;
+    return copy;
+  }
+
+  /**
+   * `text.replace(pattern, replacer)`, recording each match that changes under
+   * `rule`. `text` must be the log's current text.
+   */
+  replace(text: string, pattern: RegExp, replacer: Replacer, rule: string): string {
+    const changes: Array<{ offset: number; match: string; replacement: string }> = [];
+    const result = text.replace(pattern, (...args: unknown[]) => {
+      // Arguments are the match, its groups, the offset and the whole string
+      const match = String(args[0]);
+      const groups = args.slice(1, -2).map((group) => (typeof group === 'string' ? group : ''));
+      const replacement = replacer(match, ...groups);
+      if (replacement !== match) {
+        changes.push({ offset: args[args.length - 2] as number, match, replacement });
+      }
+      return replacement;
+    });
+
+    // Working backwards keeps the offsets of earlier matches valid
+    for (let i = changes.length - 1; i >= 0; i--) {
+      const { offset, match, replacement } = changes[i] as (typeof changes)[number]; // eslint-disable-line security/detect-object-injection
+      this.record(offset, offset + match.length, replacement, rule);
+    }
+    return result;
+  }
+
+  /**
+   * Record that `[start, end)` of the current text became `replacement`
+   */
+  private record(start: number, end: number, replacement: string, rule: string): void {
+    // Only keep the part that actually differs
+    let prefix = 0;
+    while (start + prefix < end && prefix < replacement.length && this.current[start + prefix] === replacement[prefix]) { // eslint-disable-line security/detect-object-injection
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      end - suffix > start + prefix &&
+      replacement.length - suffix > prefix &&
+      this.current[end - suffix - 1] === replacement[replacement.length - suffix - 1]
+    ) {
+      suffix++;
+    }
+    const from = start + prefix;
+    const to = end - suffix;
+    const inserted = replacement.slice(prefix, replacement.length - suffix);
+
+    // Edits overlapping the change are folded into it, so repairs never
+    // overlap; insertions merge with anything they touch to keep their order
+    let delta = 0;
+    let deltaBefore = 0;
+    let first = -1;
+    let last = -1;
+    for (const [index, edit] of this.edits.entries()) {
+      const editStart = edit.start + delta;
+      const editEnd = editStart + edit.replacement.length;
+      const touches = editStart <= to && editEnd >= from;
+      const overlaps = (editStart < to && editEnd > from) || (touches && (editStart === editEnd || from === to));
+      if (!overlaps && editEnd > from) break;
+      delta += edit.replacement.length - (edit.end - edit.start);
+      if (overlaps) {
+        if (first === -1) first = index;
+        last = index;
+      } else {
+        deltaBefore = delta;
+      }
+    }
+
+    let edit: Edit;
+    if (first === -1) {
+      edit = { start: from - deltaBefore, end: to - deltaBefore, replacement: inserted, rules: [rule] };
+    } else {
+      const merged = this.edits.slice(first, last + 1);
+      const head = merged[0] as Edit;
+      const tail = merged[merged.length - 1] as Edit;
+      const headStart = head.start + deltaBefore;
+      const tailEnd = tail.end + delta;
+      const spanStart = Math.min(from, headStart);
+      const spanEnd = Math.max(to, tailEnd);
+      edit = {
+        start: Math.min(head.start, from - deltaBefore),
+        end: Math.max(tail.end, to - delta),
+        replacement: this.current.slice(spanStart, from) + inserted + this.current.slice(to, spanEnd),
+        rules: [...new Set([...merged.flatMap((m) => m.rules), rule])],
+      };
+    }
+
+    this.current = this.current.slice(0, from) + inserted + this.current.slice(to);
+    const unchanged = edit.replacement === this.original.slice(edit.start, edit.end);
+    const insertAt = first === -1 ? this.edits.findIndex((e) => e.start >= edit.start) : first;
+    const removeCount = first === -1 ? 0 : last - first + 1;
+    const index = insertAt === -1 ? this.edits.length : insertAt;
+    if (unchanged) {
+      this.edits.splice(index, removeCount);
+    } else {
+      this.edits.splice(index, removeCount, edit);
+    }
+  }
+
+  /** Every change made so far, in source order */
+  get repairs(): JsonRepair[] {
+    let line = 1;
+    let lineStart = 0;
+    let scanned = 0;
+    return this.edits.map((edit, id) => {
+      for (; scanned < edit.start; scanned++) {
+        if (this.original.charCodeAt(scanned) === 10) {
+          line++;
+          lineStart = scanned + 1;
+        }
+      }
+      return {
+        id,
+        rules: edit.rules,
+        offset: edit.start,
+        line,
+        column: edit.start - lineStart + 1,
+        original: this.original.slice(edit.start, edit.end),
+        replacement: edit.replacement,
+      };
+    });
+  }
+}
+
+/**
+ * Apply a subset of the repairs from a `RepairLog` to the original text
+ */
+export function applyRepairs(original: string, repairs: JsonRepair[]): string {
+  let result = '';
+  let position = 0;
+  for (const repair of [...repairs].sort((a, b) => a.offset - b.offset)) {
+    result += original.slice(position, repair.offset) + repair.replacement;
+    position = repair.offset + repair.original.length;
+  }
+  return result + original.slice(position);
+}
@@ -1,5 +1,8 @@
 import { JsonValue } from '../types/json.types';
 
+import { detectJSONType } from './json-parser';
+import { formatNumber, isJsonNumber, isLosslessNumber } from './lossless-number';
+
 export interface SearchOptions {
   query: string;
   caseSensitive?: boolean;
@@ -146,7 +149,7 @@ export function searchJson(
     const currentKey = path[path.length - 1] || 'root';
     const jsonPath = arrayPathToJsonPath(path);
     const parentPath = path.slice(0, -1).join('.');
-    const valueType = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+    const valueType = detectJSONType(value);
     
     // Type filter
     if (searchByType && valueType !== searchByType) {
@@ -165,9 +168,10 @@ export function searchJson(
       matches.inKey = matchesQuery(currentKey, query, caseSensitive, useRegex);
     }
     
-    // Search in values
-    if (searchInValues && valueType === 'string') {
-      matches.inValue = matchesQuery(String(value), query, caseSensitive, useRegex);
+    // Search in values, numbers by their text (so lossless numbers match their exact digits)
+    if (searchInValues && (valueType === 'string' || valueType === 'number')) {
+      const text = isJsonNumber(value) ? formatNumber(value) : String(value);
+      matches.inValue = matchesQuery(text, query, caseSensitive, useRegex);
     }
     
     // Search in paths
@@ -284,7 +288,7 @@ export function filterJsonBySearch(
       return undefined;
     }
     
-    if (value === null || typeof value !== 'object') {
+    if (value === null || typeof value !== 'object' || isLosslessNumber(value)) {
       return value;
     }
     
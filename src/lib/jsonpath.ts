@@ -0,0 +1,719 @@
+import { JsonObject, JsonValue } from '../types/json.types';
+
+import { createError, ErrorCodes } from './error-handler';
+import { jsonEquals } from './json-diff';
+import { isJsonNumber, isLosslessNumber, parseNumberText, toNumber } from './lossless-number';
+import { compareCodePoints } from './utils';
+
+/**
+ * RFC 9535 JSONPath: child and descendant segments; name, wildcard, index,
+ * slice and filter selectors; filter expressions with `||`, `&&`, `!`,
+ * comparisons and the `length`, `count`, `match`, `search` and `value`
+ * function extensions. Queries are parsed and type-checked up front, so
+ * syntax errors are reported with the offset where they occur.
+ */
+
+/** A step in a node's location: a member name or an array index */
+export type JsonPathSegment = string | number;
+
+export interface JsonPathNode {
+  value: JsonValue;
+  path: JsonPathSegment[];
+}
+
+export interface JsonPathSyntaxIssue {
+  /** Offset in the query, in UTF-16 code units */
+  offset: number;
+  message: string;
+}
+
+type Selector =
+  | { kind: 'name'; name: string }
+  | { kind: 'wildcard' }
+  | { kind: 'index'; index: number }
+  | { kind: 'slice'; start?: number | undefined; end?: number | undefined; step?: number | undefined }
+  | { kind: 'filter'; expression: Expression };
+
+interface Segment {
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+interface Query {
+  /** Starts at `@` (the current filter item) rather than `$` */
+  relative: boolean;
+  segments: Segment[];
+  /** Only names and indexes, so it selects at most one node */
+  singular: boolean;
+}
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Expression =
+  | { kind: 'literal'; value: JsonValue; offset: number }
+  | { kind: 'query'; query: Query; offset: number }
+  | { kind: 'function'; name: FunctionName; args: Expression[]; offset: number }
+  | { kind: 'comparison'; operator: ComparisonOperator; left: Expression; right: Expression; offset: number }
+  | { kind: 'and' | 'or'; operands: Expression[]; offset: number }
+  | { kind: 'not'; operand: Expression; offset: number };
+
+/** The RFC's function argument and result types */
+type ExpressionType = 'value' | 'logical' | 'nodes';
+
+type FunctionName = 'length' | 'count' | 'match' | 'search' | 'value';
+
+const FUNCTIONS: Record<FunctionName, { parameters: ExpressionType[]; result: ExpressionType }> = {
+  length: { parameters: ['value'], result: 'value' },
+  count: { parameters: ['nodes'], result: 'value' },
+  match: { parameters: ['value', 'value'], result: 'logical' },
+  search: { parameters: ['value', 'value'], result: 'logical' },
+  value: { parameters: ['nodes'], result: 'value' },
+};
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<=', '>=', '<', '>'];
+
+/** Largest integer allowed in indexes and slices (I-JSON's exact range) */
+const MAX_INTEGER = Number.MAX_SAFE_INTEGER;
+
+/**
+ * A parsed JSONPath query, ready to run against any number of documents
+ */
+export interface JsonPathQuery {
+  readonly source: string;
+  /** @internal */
+  readonly query: Query;
+}
+
+class JsonPathSyntaxError extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message);
+  }
+}
+
+const isNameFirst = (char: string) => /^[A-Za-z_]$/.test(char) || char.charCodeAt(0) >= 0x80;
+const isDigit = (char: string) => char >= '0' && char <= '9';
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): Query {
+    if (this.peek() !== '$') this.fail('A JSONPath query must start with $');
+    this.position++;
+    const query = this.parseSegments(false);
+    if (this.position < this.text.length) this.unexpected();
+    return query;
+  }
+
+  private fail(message: string, offset = this.position): never {
+    throw new JsonPathSyntaxError(message, offset);
+  }
+
+  private unexpected(expected?: string): never {
+    const char = this.peek();
+    const found = char === '' ? 'end of query' : /\s/.test(char) ? 'whitespace' : `'${char}'`;
+    this.fail(expected ? `Expected ${expected} but found ${found}` : `Unexpected ${found}`);
+  }
+
+  private peek(ahead = 0): string {
+    return this.text.charAt(this.position + ahead);
+  }
+
+  private skipSpace(): void {
+    while (/^[ \t\n\r]$/.test(this.peek())) this.position++;
+  }
+
+  /** Consume `token` if it comes next, after optional whitespace */
+  private accept(token: string): boolean {
+    const start = this.position;
+    this.skipSpace();
+    if (this.text.startsWith(token, this.position)) {
+      this.position += token.length;
+      return true;
+    }
+    this.position = start;
+    return false;
+  }
+
+  private expect(token: string, description = `'${token}'`): void {
+    this.skipSpace();
+    if (!this.text.startsWith(token, this.position)) this.unexpected(description);
+    this.position += token.length;
+  }
+
+  private parseSegments(relative: boolean): Query {
+    const segments: Segment[] = [];
+    for (;;) {
+      const start = this.position;
+      this.skipSpace();
+      const char = this.peek();
+      if (char !== '.' && char !== '[') {
+        this.position = start;
+        break;
+      }
+      segments.push(this.parseSegment());
+    }
+    const singular = segments.every(({ descendant, selectors }) =>
+      !descendant && selectors.length === 1 && (selectors[0]?.kind === 'name' || selectors[0]?.kind === 'index')
+    );
+    return { relative, segments, singular };
+  }
+
+  private parseSegment(): Segment {
+    if (this.peek() === '[') return { descendant: false, selectors: this.parseBracketedSelection() };
+
+    this.position++;
+    const descendant = this.peek() === '.';
+    if (descendant) {
+      this.position++;
+      if (this.peek() === '[') return { descendant, selectors: this.parseBracketedSelection() };
+    }
+    if (this.peek() === '*') {
+      this.position++;
+      return { descendant, selectors: [{ kind: 'wildcard' }] };
+    }
+    if (!isNameFirst(this.peek())) this.unexpected(descendant ? "a member name, '*' or '[' after '..'" : "a member name or '*' after '.'");
+    return { descendant, selectors: [{ kind: 'name', name: this.parseMemberName() }] };
+  }
+
+  private parseMemberName(): string {
+    const start = this.position;
+    while (isNameFirst(this.peek()) || isDigit(this.peek())) this.position++;
+    return this.text.slice(start, this.position);
+  }
+
+  private parseBracketedSelection(): Selector[] {
+    const open = this.position;
+    this.position++;
+    const selectors: Selector[] = [];
+    for (;;) {
+      this.skipSpace();
+      selectors.push(this.parseSelector());
+      this.skipSpace();
+      const char = this.peek();
+      if (char === ']') break;
+      if (char === '') this.fail("Unclosed '['", open);
+      if (char !== ',') this.unexpected("',' or ']'");
+      this.position++;
+    }
+    this.position++;
+    return selectors;
+  }
+
+  private parseSelector(): Selector {
+    const char = this.peek();
+    if (char === "'" || char === '"') return { kind: 'name', name: this.parseString() };
+    if (char === '*') {
+      this.position++;
+      return { kind: 'wildcard' };
+    }
+    if (char === '?') {
+      this.position++;
+      const expression = this.parseOr();
+      this.checkLogical(expression);
+      return { kind: 'filter', expression };
+    }
+    if (char === '-' || char === ':' || isDigit(char)) {
+      const start = this.parseInteger();
+      if (!this.accept(':')) {
+        if (start === undefined) this.unexpected('an index');
+        return { kind: 'index', index: start };
+      }
+      this.skipSpace();
+      const end = this.parseInteger();
+      let step: number | undefined;
+      if (this.accept(':')) {
+        this.skipSpace();
+        step = this.parseInteger();
+      }
+      return { kind: 'slice', start, end, step };
+    }
+    this.unexpected('a quoted name, index, slice, \'*\' or filter');
+  }
+
+  /** An optional index or slice bound: no leading zeros, no `-0` */
+  private parseInteger(): number | undefined {
+    const start = this.position;
+    if (this.peek() === '-') this.position++;
+    if (!isDigit(this.peek())) {
+      if (this.position > start) this.unexpected('a digit');
+      return undefined;
+    }
+    if (this.peek() === '0' && (this.position > start || isDigit(this.peek(1)))) {
+      this.fail(this.position > start ? '-0 is not a valid index' : 'Integers cannot have leading zeros', start);
+    }
+    while (isDigit(this.peek())) this.position++;
+    const value = Number(this.text.slice(start, this.position));
+    if (Math.abs(value) > MAX_INTEGER) this.fail('Integer is outside the range ±(2^53 - 1)', start);
+    return value;
+  }
+
+  private parseString(): string {
+    const quote = this.peek();
+    const open = this.position;
+    let result = '';
+    this.position++;
+    for (;;) {
+      const char = this.peek();
+      if (char === '') this.fail('Unterminated string', open);
+      this.position++;
+      if (char === quote) return result;
+      if (char < ' ') this.fail('Control characters in strings must be escaped', this.position - 1);
+      if (char !== '\\') {
+        result += char;
+        continue;
+      }
+
+      const escape = this.peek();
+      this.position++;
+      switch (escape) {
+        case 'b': result += '\b'; break;
+        case 'f': result += '\f'; break;
+        case 'n': result += '\n'; break;
+        case 'r': result += '\r'; break;
+        case 't': result += '\t'; break;
+        case '/':
+        case '\\':
+          result += escape;
+          break;
+        case 'u':
+          result += this.parseUnicodeEscape();
+          break;
+        default:
+          if (escape !== quote) this.fail(`Invalid escape sequence \\${escape}`, this.position - 2);
+          result += escape;
+      }
+    }
+  }
+
+  /** The `XXXX` of a `\uXXXX` escape, joined with a following low surrogate when it is a high one */
+  private parseUnicodeEscape(): string {
+    const start = this.position - 2;
+    const readHex = () => {
+      const hex = this.text.slice(this.position, this.position + 4);
+      if (!/^[0-9A-Fa-f]{4}$/.test(hex)) this.fail('Expected four hex digits after \\u', start);
+      this.position += 4;
+      return parseInt(hex, 16);
+    };
+
+    const code = readHex();
+    if (code >= 0xdc00 && code <= 0xdfff) this.fail('Unpaired low surrogate in \\u escape', start);
+    if (code < 0xd800 || code > 0xdbff) return String.fromCharCode(code);
+    if (!this.text.startsWith('\\u', this.position)) this.fail('High surrogate must be followed by a low surrogate escape', start);
+    this.position += 2;
+    const low = readHex();
+    if (low < 0xdc00 || low > 0xdfff) this.fail('High surrogate must be followed by a low surrogate escape', start);
+    return String.fromCharCode(code, low);
+  }
+
+  private parseOr(): Expression {
+    this.skipSpace();
+    const offset = this.position;
+    const first = this.parseAnd();
+    if (!this.text.startsWith('||', this.skipped())) return first;
+
+    const operands = [first];
+    while (this.accept('||')) operands.push(this.parseAnd());
+    operands.forEach((operand) => this.checkLogical(operand));
+    return { kind: 'or', operands, offset };
+  }
+
+  private parseAnd(): Expression {
+    this.skipSpace();
+    const offset = this.position;
+    const first = this.parseBasic();
+    if (!this.text.startsWith('&&', this.skipped())) return first;
+
+    const operands = [first];
+    while (this.accept('&&')) operands.push(this.parseBasic());
+    operands.forEach((operand) => this.checkLogical(operand));
+    return { kind: 'and', operands, offset };
+  }
+
+  /** Position after any whitespace, without consuming it */
+  private skipped(): number {
+    const start = this.position;
+    this.skipSpace();
+    const end = this.position;
+    this.position = start;
+    return end;
+  }
+
+  private parseBasic(): Expression {
+    this.skipSpace();
+    const offset = this.position;
+
+    if (this.peek() === '!') {
+      this.position++;
+      this.skipSpace();
+      const operand = this.peek() === '(' ? this.parseParenthesized() : this.parsePrimary();
+      this.checkLogical(operand);
+      return { kind: 'not', operand, offset };
+    }
+    if (this.peek() === '(') return this.parseParenthesized();
+
+    const left = this.parsePrimary();
+    const start = this.skipped();
+    const operator = COMPARISON_OPERATORS.find((candidate) => this.text.startsWith(candidate, start));
+    if (!operator) return left;
+
+    this.position = start + operator.length;
+    this.skipSpace();
+    const right = this.parsePrimary();
+    this.checkComparable(left);
+    this.checkComparable(right);
+    return { kind: 'comparison', operator, left, right, offset };
+  }
+
+  private parseParenthesized(): Expression {
+    this.position++;
+    const expression = this.parseOr();
+    this.checkLogical(expression);
+    this.expect(')', "')'");
+    return expression;
+  }
+
+  /** A literal, a query or a function call */
+  private parsePrimary(): Expression {
+    const offset = this.position;
+    const char = this.peek();
+
+    if (char === '@' || char === '$') {
+      this.position++;
+      return { kind: 'query', query: this.parseSegments(char === '@'), offset };
+    }
+    if (char === "'" || char === '"') return { kind: 'literal', value: this.parseString(), offset };
+    if (char === '-' || isDigit(char)) return { kind: 'literal', value: this.parseNumber(), offset };
+
+    const name = /^[a-z][a-z0-9_]*/.exec(this.text.slice(this.position))?.[0];
+    if (!name) this.unexpected('a query, literal or function call');
+    this.position += name.length;
+    if (this.peek() === '(') return this.parseFunction(name, offset);
+
+    switch (name) {
+      case 'true': return { kind: 'literal', value: true, offset };
+      case 'false': return { kind: 'literal', value: false, offset };
+      case 'null': return { kind: 'literal', value: null, offset };
+      default: this.fail(`Unknown name '${name}' (strings must be quoted)`, offset);
+    }
+  }
+
+  private parseNumber(): JsonValue {
+    const offset = this.position;
+    const match = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][-+]?\d+)?/.exec(this.text.slice(offset)); // eslint-disable-line security/detect-unsafe-regex
+    if (!match) this.unexpected('a number');
+    this.position += match[0].length;
+    if (isDigit(this.peek()) || this.peek() === '.') this.fail('Invalid number', offset);
+    return parseNumberText(match[0]);
+  }
+
+  private parseFunction(name: string, offset: number): Expression {
+    if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) this.fail(`Unknown function ${name}()`, offset);
+    const definition = FUNCTIONS[name as FunctionName];
+
+    this.position++;
+    const args: Expression[] = [];
+    if (!this.accept(')')) {
+      do {
+        args.push(this.parseOr());
+      } while (this.accept(','));
+      this.expect(')', "',' or ')'");
+    }
+
+    if (args.length !== definition.parameters.length) {
+      const count = definition.parameters.length;
+      this.fail(`${name}() takes ${count} argument${count === 1 ? '' : 's'}, not ${args.length}`, offset);
+    }
+    definition.parameters.forEach((type, index) => this.checkArgument(name, index, type, args[index] as Expression)); // eslint-disable-line security/detect-object-injection
+    return { kind: 'function', name: name as FunctionName, args, offset };
+  }
+
+  private checkArgument(name: string, index: number, type: ExpressionType, arg: Expression): void {
+    const position = `Argument ${index + 1} of ${name}()`;
+    switch (type) {
+      case 'value':
+        if (arg.kind === 'literal' || (arg.kind === 'query' && arg.query.singular) || (arg.kind === 'function' && FUNCTIONS[arg.name].result === 'value')) return;
+        this.fail(`${position} must be a literal, a singular query or a function that returns a value`, arg.offset);
+        break;
+      case 'nodes':
+        if (arg.kind === 'query' || (arg.kind === 'function' && FUNCTIONS[arg.name].result === 'nodes')) return;
+        this.fail(`${position} must be a query`, arg.offset);
+        break;
+      case 'logical':
+        this.checkLogical(arg);
+    }
+  }
+
+  /** Whether an expression can stand on its own as a filter test */
+  private checkLogical(expression: Expression): void {
+    if (expression.kind === 'literal') this.fail('A literal cannot be used as a test; compare it with something', expression.offset);
+    if (expression.kind === 'function' && FUNCTIONS[expression.name].result === 'value') {
+      this.fail(`${expression.name}() returns a value, so it must be compared with something`, expression.offset);
+    }
+  }
+
+  private checkComparable(expression: Expression): void {
+    if (expression.kind === 'query' && !expression.query.singular) {
+      this.fail('Only singular queries (made of names and indexes) can be compared', expression.offset);
+    }
+    if (expression.kind === 'function' && FUNCTIONS[expression.name].result !== 'value') {
+      this.fail(`${expression.name}() returns a logical value, which cannot be compared`, expression.offset);
+    }
+  }
+}
+
+/**
+ * Parse a JSONPath query, throwing a `QUERY_SYNTAX_ERROR` whose details give
+ * the offset and the reason
+ */
+export function parseJsonPath(source: string): JsonPathQuery {
+  try {
+    return { source, query: new Parser(source).parse() };
+  } catch (error) {
+    if (error instanceof JsonPathSyntaxError) {
+      throw createError(ErrorCodes.QUERY_SYNTAX_ERROR, `${error.message} at offset ${error.offset}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * The first syntax error in a JSONPath query, or `null` when it is valid
+ */
+export function findJsonPathSyntaxError(source: string): JsonPathSyntaxIssue | null {
+  try {
+    new Parser(source).parse();
+    return null;
+  } catch (error) {
+    if (error instanceof JsonPathSyntaxError) return { offset: error.offset, message: error.message };
+    throw error;
+  }
+}
+
+const isObject = (value: JsonValue | undefined): value is JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value);
+
+function children(node: JsonPathNode): JsonPathNode[] {
+  const { value, path } = node;
+  if (Array.isArray(value)) return value.map((item, index) => ({ value: item, path: [...path, index] }));
+  if (isObject(value)) return Object.entries(value).map(([key, item]) => ({ value: item, path: [...path, key] }));
+  return [];
+}
+
+/** A node and all of its descendants, in document order */
+function descendants(node: JsonPathNode, output: JsonPathNode[] = []): JsonPathNode[] {
+  output.push(node);
+  children(node).forEach((child) => descendants(child, output));
+  return output;
+}
+
+function sliceIndexes(length: number, { start, end, step = 1 }: Extract<Selector, { kind: 'slice' }>): number[] {
+  const indexes: number[] = [];
+  if (step === 0) return indexes;
+  const normalize = (index: number) => (index >= 0 ? index : length + index);
+
+  if (step > 0) {
+    const lower = Math.min(Math.max(normalize(start ?? 0), 0), length);
+    const upper = Math.min(Math.max(normalize(end ?? length), 0), length);
+    for (let i = lower; i < upper; i += step) indexes.push(i);
+  } else {
+    const upper = Math.min(Math.max(normalize(start ?? length - 1), -1), length - 1);
+    const lower = Math.min(Math.max(normalize(end ?? -length - 1), -1), length - 1);
+    for (let i = upper; lower < i; i += step) indexes.push(i);
+  }
+  return indexes;
+}
+
+function select(node: JsonPathNode, selector: Selector, root: JsonValue, output: JsonPathNode[]): void {
+  const { value, path } = node;
+  switch (selector.kind) {
+    case 'name':
+      if (isObject(value) && Object.prototype.hasOwnProperty.call(value, selector.name)) {
+        output.push({ value: value[selector.name] as JsonValue, path: [...path, selector.name] });
+      }
+      break;
+    case 'wildcard':
+      output.push(...children(node));
+      break;
+    case 'index':
+      if (Array.isArray(value)) {
+        const index = selector.index >= 0 ? selector.index : value.length + selector.index;
+        if (index >= 0 && index < value.length) output.push({ value: value[index] as JsonValue, path: [...path, index] }); // eslint-disable-line security/detect-object-injection
+      }
+      break;
+    case 'slice':
+      if (Array.isArray(value)) {
+        sliceIndexes(value.length, selector).forEach((index) => output.push({ value: value[index] as JsonValue, path: [...path, index] })); // eslint-disable-line security/detect-object-injection
+      }
+      break;
+    case 'filter':
+      children(node).forEach((child) => {
+        if (testExpression(selector.expression, child.value, root)) output.push(child);
+      });
+  }
+}
+
+function runQuery(query: Query, current: JsonValue, root: JsonValue): JsonPathNode[] {
+  let nodes: JsonPathNode[] = [{ value: query.relative ? current : root, path: [] }];
+  for (const segment of query.segments) {
+    const next: JsonPathNode[] = [];
+    for (const node of nodes) {
+      for (const target of segment.descendant ? descendants(node) : [node]) {
+        segment.selectors.forEach((selector) => select(target, selector, root, next));
+      }
+    }
+    nodes = next;
+  }
+  return nodes;
+}
+
+function lessThan(a: JsonValue | undefined, b: JsonValue | undefined): boolean {
+  if (isJsonNumber(a) && isJsonNumber(b)) return toNumber(a) < toNumber(b);
+  if (typeof a === 'string' && typeof b === 'string') return compareCodePoints(a, b) < 0;
+  return false;
+}
+
+function compare(operator: ComparisonOperator, a: JsonValue | undefined, b: JsonValue | undefined): boolean {
+  switch (operator) {
+    case '==': return jsonEquals(a, b);
+    case '!=': return !jsonEquals(a, b);
+    case '<': return lessThan(a, b);
+    case '<=': return lessThan(a, b) || jsonEquals(a, b);
+    case '>': return lessThan(b, a);
+    case '>=': return lessThan(b, a) || jsonEquals(a, b);
+  }
+}
+
+const regexCache = new Map<string, RegExp | null>();
+
+/**
+ * Compile an I-Regexp (RFC 9485) pattern. The syntax is a subset of
+ * JavaScript's, except that `.` matches anything but line breaks.
+ */
+function compilePattern(pattern: string, anchored: boolean): RegExp | null {
+  const key = `${anchored ? 'match' : 'search'}:${pattern}`;
+  const cached = regexCache.get(key);
+  if (cached !== undefined) return cached;
+
+  let source = '';
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern.charAt(i);
+    if (char === '\\') {
+      source += char + pattern.charAt(i + 1);
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+      source += char;
+    } else {
+      inClass = char === '[';
+      source += char === '.' ? '[^\\n\\r]' : char;
+    }
+  }
+
+  let regex: RegExp | null;
+  try {
+    regex = new RegExp(anchored ? `^(?:${source})$` : source, 'u'); // eslint-disable-line security/detect-non-literal-regexp
+  } catch {
+    regex = null;
+  }
+  if (regexCache.size >= 256) regexCache.clear();
+  regexCache.set(key, regex);
+  return regex;
+}
+
+function evaluateValue(expression: Expression, current: JsonValue, root: JsonValue): JsonValue | undefined {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'query':
+      return runQuery(expression.query, current, root)[0]?.value;
+    case 'function':
+      return callFunction(expression, current, root) as JsonValue | undefined;
+    default:
+      return undefined;
+  }
+}
+
+function evaluateNodes(expression: Expression, current: JsonValue, root: JsonValue): JsonPathNode[] {
+  return expression.kind === 'query' ? runQuery(expression.query, current, root) : [];
+}
+
+function callFunction(
+  expression: Extract<Expression, { kind: 'function' }>,
+  current: JsonValue,
+  root: JsonValue
+): JsonValue | boolean | undefined {
+  const [first, second] = expression.args as [Expression, Expression];
+  switch (expression.name) {
+    case 'length': {
+      const value = evaluateValue(first, current, root);
+      if (typeof value === 'string') return Array.from(value).length;
+      if (Array.isArray(value)) return value.length;
+      return isObject(value) ? Object.keys(value).length : undefined;
+    }
+    case 'count':
+      return evaluateNodes(first, current, root).length;
+    case 'match':
+    case 'search': {
+      const value = evaluateValue(first, current, root);
+      const pattern = evaluateValue(second, current, root);
+      if (typeof value !== 'string' || typeof pattern !== 'string') return false;
+      return compilePattern(pattern, expression.name === 'match')?.test(value) ?? false;
+    }
+    case 'value': {
+      const nodes = evaluateNodes(first, current, root);
+      return nodes.length === 1 ? nodes[0]?.value : undefined;
+    }
+  }
+}
+
+function testExpression(expression: Expression, current: JsonValue, root: JsonValue): boolean {
+  switch (expression.kind) {
+    case 'query':
+      return runQuery(expression.query, current, root).length > 0;
+    case 'function':
+      return callFunction(expression, current, root) === true;
+    case 'comparison':
+      return compare(expression.operator, evaluateValue(expression.left, current, root), evaluateValue(expression.right, current, root));
+    case 'and':
+      return expression.operands.every((operand) => testExpression(operand, current, root));
+    case 'or':
+      return expression.operands.some((operand) => testExpression(operand, current, root));
+    case 'not':
+      return !testExpression(expression.operand, current, root);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Run a JSONPath query, returning the selected nodes in document order
+ */
+export function queryJsonPath(data: JsonValue, query: string | JsonPathQuery): JsonPathNode[] {
+  const parsed = typeof query === 'string' ? parseJsonPath(query) : query;
+  return runQuery(parsed.query, data, data);
+}
+
+/**
+ * The RFC 9535 normalized path of a node, e.g. `$['store']['book'][0]`
+ */
+export function toNormalizedPath(path: readonly JsonPathSegment[]): string {
+  return '$' + path.map((segment) => {
+    if (typeof segment === 'number') return `[${segment}]`;
+    const escaped = segment.replace(/[\u0000-\u001f'\\]/g, (char) => {
+      switch (char) {
+        case '\b': return '\\b';
+        case '\f': return '\\f';
+        case '\n': return '\\n';
+        case '\r': return '\\r';
+        case '\t': return '\\t';
+        case "'": return "\\'";
+        case '\\': return '\\\\';
+        default: return `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`;
+      }
+    });
+    return `['${escaped}']`;
+  }).join('');
+}
@@ -0,0 +1,240 @@
+import { JsonArray, JsonObject, JsonValue, LosslessNumber } from '../types/json.types';
+
+/**
+ * Lossless number support.
+ *
+ * `JSON.parse` turns every number into an IEEE 754 double, so 64-bit IDs and
+ * long decimals are silently rounded. In lossless mode, numbers whose text
+ * would not survive that round trip (or that are written differently from
+ * how JS prints them, e.g. `10.50`) are kept as `LosslessNumber` values that
+ * hold the original text. All other numbers stay plain `number`s.
+ */
+
+type RawJsonFactory = (text: string) => unknown;
+
+class LosslessNumberValue implements LosslessNumber {
+  readonly isLosslessNumber = true as const;
+
+  constructor(readonly value: string) {}
+
+  valueOf(): number {
+    return Number(this.value);
+  }
+
+  toString(): string {
+    return this.value;
+  }
+
+  /**
+   * Keep the original text in plain `JSON.stringify` calls where the engine
+   * supports `JSON.rawJSON`; otherwise degrade to the nearest double
+   */
+  toJSON(): unknown {
+    const rawJSON = (JSON as unknown as { rawJSON?: RawJsonFactory }).rawJSON;
+    return rawJSON ? rawJSON(this.value) : Number(this.value);
+  }
+}
+
+export function createLosslessNumber(text: string): LosslessNumber {
+  return new LosslessNumberValue(text);
+}
+
+/**
+ * Whether a value is a number created by `createLosslessNumber`. Objects that
+ * merely look like one, such as `{"isLosslessNumber": true, "value": "1"}`
+ * in a document, are not.
+ */
+export function isLosslessNumber(value: unknown): value is LosslessNumber {
+  return value instanceof LosslessNumberValue;
+}
+
+/**
+ * Whether a value is a number, lossless or not
+ */
+export function isJsonNumber(value: unknown): value is number | LosslessNumber {
+  return typeof value === 'number' || isLosslessNumber(value);
+}
+
+/**
+ * Reduce a JSON number to `<sign><digits>e<exponent>` with no leading or
+ * trailing zeros in the digits, so equal values compare equal as strings
+ */
+export function canonicalNumberText(text: string): string {
+  const negative = text.startsWith('-');
+  const unsigned = negative || text.startsWith('+') ? text.slice(1) : text;
+  const [mantissa = '', exponentText = '0'] = unsigned.toLowerCase().split('e');
+  const [intPart = '', fracPart = ''] = mantissa.split('.');
+
+  let digits = `${intPart}${fracPart}`.replace(/^0+/, '');
+  let exponent = parseInt(exponentText, 10) - fracPart.length;
+  const trimmed = digits.replace(/0+$/, '');
+  exponent += digits.length - trimmed.length;
+  digits = trimmed;
+
+  if (!digits) return '0';
+  return `${negative ? '-' : ''}${digits}e${exponent}`;
+}
+
+/**
+ * Whether the number written as `text` changes when stored as a JS number
+ */
+export function losesPrecision(text: string): boolean {
+  const parsed = Number(text);
+  if (!Number.isFinite(parsed)) return true;
+  return canonicalNumberText(String(parsed)) !== canonicalNumberText(text);
+}
+
+/**
+ * Convert number text from a JSON document into a plain number when that is
+ * exact, or a `LosslessNumber` holding the text otherwise
+ */
+export function parseNumberText(text: string): number | LosslessNumber {
+  const parsed = Number(text);
+  return String(parsed) === text ? parsed : createLosslessNumber(text);
+}
+
+/**
+ * Whether a value cannot be represented exactly as a JS number: a lossless
+ * number whose text loses precision, or a parsed integer already outside the
+ * safe range (so it was probably rounded on the way in)
+ */
+export function isImpreciseNumber(value: unknown): boolean {
+  if (isLosslessNumber(value)) return losesPrecision(value.value);
+  return typeof value === 'number' && Number.isInteger(value) && !Number.isSafeInteger(value);
+}
+
+/**
+ * Whether a number, lossless or not, has no fractional part
+ */
+export function isIntegerNumber(value: number | LosslessNumber): boolean {
+  if (typeof value === 'number') return Number.isInteger(value);
+  const canonical = canonicalNumberText(value.value);
+  return canonical === '0' || !canonical.includes('e-');
+}
+
+/**
+ * Numeric value of a number, lossless or not (possibly rounded)
+ */
+export function toNumber(value: number | LosslessNumber): number {
+  return typeof value === 'number' ? value : Number(value.value);
+}
+
+/**
+ * Text of a number as it appears in JSON
+ */
+export function formatNumber(value: number | LosslessNumber): string {
+  return typeof value === 'number' ? JSON.stringify(value) : value.value;
+}
+
+/**
+ * Compare two numbers by value without going through doubles
+ */
+export function numbersEqual(a: number | LosslessNumber, b: number | LosslessNumber): boolean {
+  if (typeof a === 'number' && typeof b === 'number') return a === b;
+  return canonicalNumberText(formatNumber(a)) === canonicalNumberText(formatNumber(b));
+}
+
+/**
+ * Whether a document contains any lossless numbers
+ */
+export function hasLosslessNumbers(value: JsonValue): boolean {
+  if (value === null || typeof value !== 'object') return false;
+  if (isLosslessNumber(value)) return true;
+  return (Array.isArray(value) ? value : Object.values(value)).some(hasLosslessNumbers);
+}
+
+/**
+ * Assign an own member, so a `__proto__` key is kept as data instead of
+ * replacing the object's prototype
+ */
+export function setMember(target: JsonObject, key: string, value: JsonValue): void {
+  if (key === '__proto__') {
+    Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+  } else {
+    target[key] = value; // eslint-disable-line security/detect-object-injection
+  }
+}
+
+/**
+ * Deep copy of a JSON value. Unlike `structuredClone`, lossless numbers stay
+ * lossless (they are immutable, so the copy shares them).
+ */
+export function cloneJsonValue(value: JsonValue): JsonValue {
+  if (value === null || typeof value !== 'object' || isLosslessNumber(value)) return value;
+  if (Array.isArray(value)) return value.map(cloneJsonValue);
+  const copy: JsonObject = {};
+  Object.entries(value).forEach(([key, child]) => setMember(copy, key, cloneJsonValue(child)));
+  return copy;
+}
+
+function mapChildrenInPlace(value: JsonArray | JsonObject, map: (child: JsonValue) => JsonValue): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => {
+      value[index] = map(item); // eslint-disable-line security/detect-object-injection
+    });
+  } else {
+    Object.keys(value).forEach((key) => {
+      value[key] = map(value[key] ?? null); // eslint-disable-line security/detect-object-injection
+    });
+  }
+}
+
+/**
+ * Replace lossless numbers with boxed strings of their text, so they survive
+ * structured cloning (e.g. being posted from a worker), which drops their
+ * prototype. Parsed documents never contain boxed strings, so
+ * `reviveLosslessNumbers` cannot mistake document data for a number.
+ * Mutates and returns `value`.
+ */
+export function tagLosslessNumbers(value: JsonValue): JsonValue {
+  if (isLosslessNumber(value)) return new String(value.value) as unknown as JsonValue;
+  if (value !== null && typeof value === 'object') mapChildrenInPlace(value, tagLosslessNumbers);
+  return value;
+}
+
+/**
+ * Turn the boxed strings left by `tagLosslessNumbers` back into lossless
+ * numbers. Mutates and returns `value`.
+ */
+export function reviveLosslessNumbers(value: JsonValue): JsonValue {
+  if ((value as unknown) instanceof String) return createLosslessNumber(String(value));
+  if (value !== null && typeof value === 'object' && !isLosslessNumber(value)) mapChildrenInPlace(value, reviveLosslessNumbers);
+  return value;
+}
+
+function serialize(value: JsonValue, indent: string, gap: string): string {
+  if (value === null) return 'null';
+  if (typeof value !== 'object') return JSON.stringify(value);
+  if (isLosslessNumber(value)) return value.value;
+
+  const inner = indent + gap;
+  const open = gap ? `\n${inner}` : '';
+  const separator = gap ? `,\n${inner}` : ',';
+  const close = gap ? `\n${indent}` : '';
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[${open}${value.map((item) => serialize(item, inner, gap)).join(separator)}${close}]`;
+  }
+
+  const members = Object.entries(value).map(([key, child]) => `${JSON.stringify(key)}:${gap ? ' ' : ''}${serialize(child, inner, gap)}`);
+  if (members.length === 0) return '{}';
+  return `{${open}${members.join(separator)}${close}}`;
+}
+
+/**
+ * `JSON.stringify` that writes lossless numbers with their original text
+ */
+export function stringifyLosslessJSON(value: JsonValue, space = 0): string {
+  return serialize(value, '', ' '.repeat(Math.min(10, Math.max(0, space))));
+}
+
+/**
+ * Tooltip for numbers flagged by `isImpreciseNumber`, or `null`
+ */
+export function getPrecisionWarning(value: unknown): string | null {
+  if (!isImpreciseNumber(value)) return null;
+  return isLosslessNumber(value)
+    ? 'Exceeds JavaScript number precision; the original digits are preserved'
+    : 'Exceeds JavaScript number precision and may have been rounded; enable lossless numbers in Settings';
+}
@@ -0,0 +1,219 @@
+import { JsonValue } from '../types/json.types';
+
+import { JsonHeroError } from './error-handler';
+import { hasLosslessNumbers, stringifyLosslessJSON } from './lossless-number';
+import { JsonIndex, JsonIndexEntry, JsonIndexValueType, parseJSONIncrementally, StreamingParserOptions } from './streaming-json-parser';
+
+/**
+ * NDJSON / JSON Lines support: one JSON text per line.
+ */
+
+export const NDJSON_EXTENSIONS = ['jsonl', 'ndjson'];
+
+/**
+ * A line that could not be parsed as JSON
+ */
+export interface NdjsonLineError {
+  /** 1-based line number in the original input */
+  line: number;
+  message: string;
+  /** Start of the offending line, for display */
+  preview: string;
+}
+
+export interface NdjsonParseResult {
+  records: JsonValue[];
+  errors: NdjsonLineError[];
+  /** Number of non-blank lines */
+  lineCount: number;
+}
+
+const PREVIEW_LENGTH = 80;
+
+/**
+ * Parse NDJSON text into an array of records.
+ * Blank lines are ignored; lines that fail to parse are reported with their
+ * line number and skipped, so valid records are never dropped.
+ *
+ * @example
+ * ```ts
+ * const { records, errors } = parseNDJSON('{"a":1}\n{oops}\n{"a":2}');
+ * // records: [{ a: 1 }, { a: 2 }]
+ * // errors:  [{ line: 2, message: '...', preview: '{oops}' }]
+ * ```
+ *
+ * @param firstLine - Line number of the first line in `input`, for chunked input
+ * @param losslessNumbers - Keep numbers that would lose precision as `LosslessNumber`s
+ */
+export function parseNDJSON(input: string, firstLine = 1, losslessNumbers = false): NdjsonParseResult {
+  const records: JsonValue[] = [];
+  const errors: NdjsonLineError[] = [];
+  let lineCount = 0;
+
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    lineCount++;
+    try {
+      records.push(losslessNumbers ? parseJSONIncrementally(line, { losslessNumbers }).data : JSON.parse(line) as JsonValue);
+    } catch (error) {
+      errors.push({
+        line: index + firstLine,
+        message: error instanceof JsonHeroError && error.details
+          ? error.details
+          : error instanceof Error ? error.message : 'Invalid JSON',
+        preview: line.length > PREVIEW_LENGTH ? `${line.substring(0, PREVIEW_LENGTH)}...` : line,
+      });
+    }
+  });
+
+  return { records, errors, lineCount };
+}
+
+/**
+ * Whether a file name has an NDJSON / JSON Lines extension
+ */
+export function isNDJSONFileName(fileName: string): boolean {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  return NDJSON_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Heuristic for pasted text: several non-blank lines where the text as a
+ * whole is not valid JSON but the first two lines are.
+ */
+export function looksLikeNDJSON(input: string): boolean {
+  const lines = input.split('\n').map((line) => line.trim()).filter(Boolean);
+  if (lines.length < 2) return false;
+
+  try {
+    JSON.parse(input);
+    return false;
+  } catch {
+    // Not a single JSON text; check the individual lines below
+  }
+
+  return lines.slice(0, 2).every((line) => {
+    try {
+      JSON.parse(line);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Serialize data as NDJSON: each array element on its own line, or a single
+ * line for any other value
+ */
+export function stringifyNDJSON(data: JsonValue): string {
+  const records = Array.isArray(data) ? data : [data];
+  return records
+    .map((record) => (hasLosslessNumbers(record) ? stringifyLosslessJSON(record) : JSON.stringify(record)))
+    .join('\n') + '\n';
+}
+
+export interface NdjsonStreamResult extends NdjsonParseResult {
+  /** Byte range of every non-blank line, when indexing was requested */
+  index: JsonIndex | null;
+}
+
+const VALUE_TYPES_BY_BYTE: Record<number, JsonIndexValueType> = {
+  0x7b: 'object',
+  0x5b: 'array',
+  0x22: 'string',
+  0x74: 'boolean',
+  0x66: 'boolean',
+  0x6e: 'null',
+};
+
+/**
+ * Incremental NDJSON parser fed with raw bytes, e.g. from `File.stream()`.
+ * Complete lines are parsed as they arrive; with `buildIndex` the byte range
+ * of every record is recorded so lines can be read back on demand.
+ */
+export class NdjsonStreamParser {
+  private readonly buildIndex: boolean;
+  private readonly materialize: boolean;
+  private readonly losslessNumbers: boolean;
+  private readonly decoder = new TextDecoder();
+
+  private records: JsonValue[] = [];
+  private errors: NdjsonLineError[] = [];
+  private entries: JsonIndexEntry[] = [];
+  private lineCount = 0;
+
+  private pending = '';
+  private pendingFirstLine = 1;
+  private bytes = 0;
+  /** Byte offset and type of the first non-blank character on the current line */
+  private recordStart = -1;
+  private recordType: JsonIndexValueType = 'null';
+
+  constructor(options: StreamingParserOptions = {}) {
+    this.buildIndex = options.buildIndex ?? false;
+    this.materialize = options.materialize ?? true;
+    this.losslessNumbers = options.losslessNumbers ?? false;
+  }
+
+  /** Number of bytes consumed so far */
+  get bytesParsed(): number {
+    return this.bytes;
+  }
+
+  write(chunk: Uint8Array): void {
+    if (this.buildIndex) {
+      chunk.forEach((byte, i) => this.indexByte(byte, this.bytes + i));
+    }
+    this.bytes += chunk.length;
+
+    if (this.materialize) {
+      this.pending += this.decoder.decode(chunk, { stream: true });
+      const lastNewline = this.pending.lastIndexOf('\n');
+      if (lastNewline !== -1) {
+        this.parseLines(this.pending.slice(0, lastNewline + 1));
+        this.pending = this.pending.slice(lastNewline + 1);
+      }
+    }
+  }
+
+  end(): NdjsonStreamResult {
+    if (this.buildIndex) this.indexByte(0x0a, this.bytes);
+    if (this.materialize) {
+      this.parseLines(this.pending + this.decoder.decode());
+      this.pending = '';
+    } else {
+      this.lineCount = this.entries.length;
+    }
+
+    return {
+      records: this.records,
+      errors: this.errors,
+      lineCount: this.lineCount,
+      index: this.buildIndex ? { rootType: 'array', entries: this.entries } : null,
+    };
+  }
+
+  private indexByte(byte: number, offset: number): void {
+    if (byte === 0x0a) {
+      if (this.recordStart !== -1) {
+        this.entries.push({ key: this.entries.length, start: this.recordStart, end: offset, type: this.recordType });
+        this.recordStart = -1;
+      }
+    } else if (this.recordStart === -1 && byte !== 0x20 && byte !== 0x09 && byte !== 0x0d && byte !== 0xef && byte !== 0xbb && byte !== 0xbf) {
+      this.recordStart = offset;
+      this.recordType = VALUE_TYPES_BY_BYTE[byte] ?? 'number'; // eslint-disable-line security/detect-object-injection
+    }
+  }
+
+  private parseLines(text: string): void {
+    const result = parseNDJSON(text, this.pendingFirstLine, this.losslessNumbers);
+    result.records.forEach((record) => this.records.push(record));
+    result.errors.forEach((error) => this.errors.push(error));
+    this.lineCount += result.lineCount;
+    this.pendingFirstLine += text.split('\n').length - 1;
+  }
+}
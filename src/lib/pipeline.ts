@@ -0,0 +1,485 @@
+import { JsonObject, JsonValue } from '../types/json.types';
+
+import { JsonHeroError } from './error-handler';
+import { jsonEquals } from './json-diff';
+import { stringifyJSON } from './json-parser';
+import { parseJsonPath, queryJsonPath } from './jsonpath';
+import { canonicalNumberText, formatNumber, isJsonNumber, isLosslessNumber, parseNumberText, setMember, toNumber } from './lossless-number';
+import { compareCodePoints } from './utils';
+
+/**
+ * Step-based cleanup pipelines ("recipes") for arrays of records.
+ *
+ * Each step takes the previous step's output; record steps apply to every
+ * element of an array, or to a lone object. Fields are dotted paths with
+ * optional indexes (`address.city`, `tags[0]`). Steps never mutate their
+ * input, so every intermediate result can be previewed.
+ */
+
+export type FilterOperator = 'eq' | 'ne' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'exists' | 'missing';
+
+export type CastType = 'string' | 'number' | 'boolean';
+
+export type PipelineStep =
+  /** Replace the data with what a JSONPath selects, e.g. the `$.items` array of an API response */
+  | { op: 'select'; path: string }
+  | { op: 'pick'; fields: string[] }
+  | { op: 'rename'; from: string; to: string }
+  | { op: 'filter'; field: string; operator: FilterOperator; value: string }
+  | { op: 'sort'; field: string; direction: 'asc' | 'desc' }
+  /** Keep the first record for each combination of `fields`, or of whole records when empty */
+  | { op: 'dedupe'; fields: string[] }
+  /** Turn nested objects into dotted keys; arrays are kept as values */
+  | { op: 'flatten'; separator: string }
+  | { op: 'cast'; field: string; to: CastType };
+
+export type PipelineOperation = PipelineStep['op'];
+
+export interface PipelineRecipe {
+  name: string;
+  steps: PipelineStep[];
+}
+
+export interface PipelineStepResult {
+  /** The step's output, null when it failed */
+  data: JsonValue | null;
+  /** Records in the output, when it is an array */
+  recordCount?: number;
+  error?: string;
+  /** Values a cast could not convert, which were set to null */
+  warnings?: string[];
+}
+
+export const PIPELINE_OPERATIONS: PipelineOperation[] = ['select', 'pick', 'rename', 'filter', 'sort', 'dedupe', 'flatten', 'cast'];
+
+export const FILTER_OPERATORS: FilterOperator[] = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'contains', 'exists', 'missing'];
+
+export const FILTER_OPERATOR_LABELS: Record<FilterOperator, string> = {
+  eq: '=',
+  ne: '!=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  contains: 'contains',
+  exists: 'exists',
+  missing: 'is missing',
+};
+
+export const CAST_TYPES: CastType[] = ['string', 'number', 'boolean'];
+
+/** Report at most this many uncastable values per step */
+const MAX_WARNINGS = 5;
+
+class PipelineError extends Error {}
+
+function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !isLosslessNumber(value);
+}
+
+/**
+ * A new step of the given kind with empty settings
+ */
+export function createStep(op: PipelineOperation): PipelineStep {
+  switch (op) {
+    case 'select': return { op, path: '$' };
+    case 'pick': return { op, fields: [] };
+    case 'rename': return { op, from: '', to: '' };
+    case 'filter': return { op, field: '', operator: 'eq', value: '' };
+    case 'sort': return { op, field: '', direction: 'asc' };
+    case 'dedupe': return { op, fields: [] };
+    case 'flatten': return { op, separator: '.' };
+    case 'cast': return { op, field: '', to: 'number' };
+  }
+}
+
+/**
+ * One-line summary of a step
+ *
+ * @example
+ * ```ts
+ * describeStep({ op: 'rename', from: 'id', to: 'userId' }); // "Rename id to userId"
+ * ```
+ */
+export function describeStep(step: PipelineStep): string {
+  switch (step.op) {
+    case 'select': return `Select ${step.path}`;
+    case 'pick': return `Pick ${step.fields.join(', ') || '(no fields)'}`;
+    case 'rename': return `Rename ${step.from} to ${step.to}`;
+    case 'filter': {
+      const condition = `${step.field} ${FILTER_OPERATOR_LABELS[step.operator]}`;
+      return `Keep records where ${['exists', 'missing'].includes(step.operator) ? condition : `${condition} ${step.value}`}`;
+    }
+    case 'sort': return `Sort by ${step.field} ${step.direction === 'asc' ? 'ascending' : 'descending'}`;
+    case 'dedupe': return step.fields.length > 0 ? `Dedupe by ${step.fields.join(', ')}` : 'Remove duplicate records';
+    case 'flatten': return `Flatten nested objects with '${step.separator}'`;
+    case 'cast': return `Cast ${step.field} to ${step.to}`;
+  }
+}
+
+/**
+ * Split a field path into keys and indexes
+ *
+ * @example
+ * ```ts
+ * parseFieldPath('orders[0].total'); // ['orders', 0, 'total']
+ * ```
+ */
+export function parseFieldPath(field: string): Array<string | number> {
+  const segments: Array<string | number> = [];
+  field.split('.').forEach((part) => {
+    const match = /^([^[]*)((?:\[\d+\])*)$/.exec(part); // eslint-disable-line security/detect-unsafe-regex
+    if (!match) {
+      segments.push(part);
+      return;
+    }
+    if (match[1]) segments.push(match[1]);
+    (match[2]?.match(/\d+/g) ?? []).forEach((index) => segments.push(Number(index)));
+  });
+  return segments;
+}
+
+/**
+ * The path of `field` within `record`. A key the record has as written, such
+ * as `address.city` made by a Flatten step, is used as is; otherwise the field
+ * is split with `parseFieldPath`.
+ */
+function resolveField(record: JsonValue, field: string): Array<string | number> {
+  return isPlainObject(record) && Object.prototype.hasOwnProperty.call(record, field) ? [field] : parseFieldPath(field);
+}
+
+function getField(record: JsonValue, path: Array<string | number>): JsonValue | undefined {
+  let current: JsonValue | undefined = record;
+  for (const segment of path) {
+    if (typeof segment === 'number' && Array.isArray(current)) {
+      current = current[segment]; // eslint-disable-line security/detect-object-injection
+    } else if (typeof segment === 'string' && isPlainObject(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = current[segment]; // eslint-disable-line security/detect-object-injection
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/** A copy of `record` with the field set, creating objects along the way */
+function setField(record: JsonValue, path: Array<string | number>, value: JsonValue): JsonValue {
+  const [segment, ...rest] = path;
+  if (segment === undefined) return value;
+  if (typeof segment === 'number' && Array.isArray(record)) {
+    const copy = [...record];
+    copy[segment] = setField(record[segment] ?? null, rest, value); // eslint-disable-line security/detect-object-injection
+    return copy;
+  }
+  const object = isPlainObject(record) ? record : {};
+  return { ...object, [segment]: setField(getField(object, [String(segment)]) ?? null, rest, value) };
+}
+
+/** A copy of `record` without the field */
+function removeField(record: JsonValue, path: Array<string | number>): JsonValue {
+  const [segment, ...rest] = path;
+  if (segment === undefined) return record;
+  if (typeof segment === 'number' && Array.isArray(record)) {
+    if (rest.length === 0) return record.filter((_item, index) => index !== segment);
+    return record.map((item, index) => (index === segment ? removeField(item, rest) : item));
+  }
+  if (!isPlainObject(record) || !Object.prototype.hasOwnProperty.call(record, segment)) return record;
+  if (rest.length === 0) {
+    const { [segment]: _removed, ...others } = record;
+    return others;
+  }
+  return { ...record, [segment]: removeField(record[String(segment)] ?? null, rest) };
+}
+
+function readField(record: JsonValue, field: string): JsonValue | undefined {
+  return getField(record, resolveField(record, field));
+}
+
+function requireField(field: string, label: string): string {
+  if (!field.trim()) throw new PipelineError(`${label} needs a field`);
+  return field.trim();
+}
+
+function requireRecords(data: JsonValue, label: string): JsonValue[] {
+  if (!Array.isArray(data)) throw new PipelineError(`${label} needs an array of records; add a Select step first`);
+  return data;
+}
+
+/** Apply a change to every record, or to the data itself when it is a single object */
+function mapRecords(data: JsonValue, change: (record: JsonValue) => JsonValue): JsonValue {
+  return Array.isArray(data) ? data.map(change) : change(data);
+}
+
+/** Nulls and missing values first, numbers by value, everything else by its text */
+function compareFields(a: JsonValue | undefined, b: JsonValue | undefined): number {
+  const aEmpty = a === undefined || a === null;
+  const bEmpty = b === undefined || b === null;
+  if (aEmpty || bEmpty) return Number(bEmpty) - Number(aEmpty);
+  if (isJsonNumber(a) && isJsonNumber(b)) return toNumber(a) - toNumber(b);
+  return compareCodePoints(toText(a), toText(b));
+}
+
+function toText(value: JsonValue): string {
+  if (typeof value === 'string') return value;
+  if (isJsonNumber(value)) return formatNumber(value);
+  return stringifyJSON(value, 0);
+}
+
+/** Compare a field with the text typed into a filter, reading the text as the field's type */
+function matchesFilter(actual: JsonValue | undefined, operator: FilterOperator, expected: string): boolean {
+  if (operator === 'exists') return actual !== undefined;
+  if (operator === 'missing') return actual === undefined;
+  if (actual === undefined) return operator === 'ne';
+
+  if (operator === 'contains') {
+    if (Array.isArray(actual)) return actual.some((item) => item !== null && toText(item) === expected);
+    return actual !== null && toText(actual).toLowerCase().includes(expected.toLowerCase());
+  }
+
+  let order: number;
+  if (isJsonNumber(actual) && expected.trim() !== '' && !Number.isNaN(Number(expected))) {
+    order = toNumber(actual) - Number(expected);
+  } else if (actual === null || typeof actual === 'boolean') {
+    order = toText(actual) === expected.trim() ? 0 : NaN;
+  } else {
+    order = compareCodePoints(toText(actual), expected);
+  }
+
+  switch (operator) {
+    case 'eq': return order === 0;
+    case 'ne': return order !== 0;
+    case 'gt': return order > 0;
+    case 'gte': return order >= 0;
+    case 'lt': return order < 0;
+    default: return order <= 0;
+  }
+}
+
+function castValue(value: JsonValue, to: CastType): JsonValue | undefined {
+  if (value === null) return null;
+  switch (to) {
+    case 'string':
+      return toText(value);
+    case 'number':
+      if (isJsonNumber(value)) return value;
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      if (typeof value === 'string' && /^\s*-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?\s*$/.test(value)) { // eslint-disable-line security/detect-unsafe-regex
+        return parseNumberText(value.trim());
+      }
+      return undefined;
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      if (isJsonNumber(value)) return toNumber(value) !== 0;
+      const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+      if (['true', 'yes', 'y', '1'].includes(text)) return true;
+      if (['false', 'no', 'n', '0'].includes(text)) return false;
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Names made more than once, like `a.b` from both `{"a.b": 1}` and
+ * `{"a": {"b": 2}}`, keep their first value and are added to `collisions`
+ */
+function flattenObject(value: JsonObject, separator: string, collisions: Set<string>, prefix = '', output: JsonObject = {}): JsonObject {
+  Object.entries(value).forEach(([key, child]) => {
+    const name = prefix ? `${prefix}${separator}${key}` : key;
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      flattenObject(child, separator, collisions, name, output);
+    } else if (Object.prototype.hasOwnProperty.call(output, name)) {
+      collisions.add(name);
+    } else {
+      setMember(output, name, child);
+    }
+  });
+  return output;
+}
+
+/** Text that is the same for values `jsonEquals` treats as equal: keys sorted, numbers by value */
+function canonicalText(value: JsonValue): string {
+  if (isJsonNumber(value)) return canonicalNumberText(formatNumber(value));
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(canonicalText).join(',')}]`;
+  const members = Object.entries(value)
+    .sort(([a], [b]) => compareCodePoints(a, b))
+    .map(([key, child]) => `${JSON.stringify(key)}:${canonicalText(child)}`);
+  return `{${members.join(',')}}`;
+}
+
+function applyStep(data: JsonValue, step: PipelineStep, warnings: string[]): JsonValue {
+  switch (step.op) {
+    case 'select': {
+      const query = parseJsonPath(step.path.trim() || '$');
+      const nodes = queryJsonPath(data, query);
+      if (nodes.length === 0) throw new PipelineError(`${step.path} selects nothing`);
+      // A singular path (`$.items`) gives its value; anything else (`$.items[*].id`) gives the list of matches
+      return query.query.singular ? (nodes[0]?.value ?? null) : nodes.map((node) => node.value);
+    }
+
+    case 'pick': {
+      const fields = step.fields.map((field) => field.trim()).filter(Boolean);
+      if (fields.length === 0) throw new PipelineError('Pick needs at least one field');
+      return mapRecords(data, (record) => fields.reduce<JsonValue>((picked, field) => {
+        const path = resolveField(record, field);
+        const value = getField(record, path);
+        return value === undefined ? picked : setField(picked, path, value);
+      }, {}));
+    }
+
+    case 'rename': {
+      const from = requireField(step.from, 'Rename');
+      const to = requireField(step.to, 'Rename');
+      let conflicts = 0;
+      const result = mapRecords(data, (record) => {
+        const fromPath = resolveField(record, from);
+        const toPath = resolveField(record, to);
+        const value = getField(record, fromPath);
+        if (value === undefined || jsonEquals(fromPath, toPath)) return record;
+        // Renaming onto a field that is already there would drop its value
+        if (getField(record, toPath) !== undefined) {
+          conflicts++;
+          return record;
+        }
+        // Renaming a top-level key keeps its position
+        if (fromPath.length === 1 && toPath.length === 1 && isPlainObject(record)) {
+          return Object.fromEntries(Object.entries(record)
+            .map(([key, child]) => (key === fromPath[0] ? [String(toPath[0]), child] : [key, child])));
+        }
+        return setField(removeField(record, fromPath), toPath, value);
+      });
+      if (conflicts > 0) {
+        warnings.push(`${to} already exists in ${conflicts} record${conflicts === 1 ? '' : 's'}, left unchanged`);
+      }
+      return result;
+    }
+
+    case 'filter': {
+      const field = requireField(step.field, 'Filter');
+      return requireRecords(data, 'Filter').filter((record) => matchesFilter(readField(record, field), step.operator, step.value));
+    }
+
+    case 'sort': {
+      const field = requireField(step.field, 'Sort');
+      const sign = step.direction === 'asc' ? 1 : -1;
+      return [...requireRecords(data, 'Sort')].sort((a, b) => sign * compareFields(readField(a, field), readField(b, field)));
+    }
+
+    case 'dedupe': {
+      const fields = step.fields.map((field) => field.trim()).filter(Boolean);
+      const kept = new Map<string, JsonValue>();
+      requireRecords(data, 'Dedupe').forEach((record) => {
+        const key = canonicalText(fields.length > 0 ? fields.map((field) => readField(record, field) ?? null) : record);
+        if (!kept.has(key)) kept.set(key, record);
+      });
+      return Array.from(kept.values());
+    }
+
+    case 'flatten': {
+      const collisions = new Map<string, number>();
+      const result = mapRecords(data, (record) => {
+        if (!isPlainObject(record)) return record;
+        const names = new Set<string>();
+        const flattened = flattenObject(record, step.separator || '.', names);
+        names.forEach((name) => collisions.set(name, (collisions.get(name) ?? 0) + 1));
+        return flattened;
+      });
+      Array.from(collisions).slice(0, MAX_WARNINGS).forEach(([name, count]) => {
+        warnings.push(`${name} is made by more than one key in ${count} record${count === 1 ? '' : 's'}, the first value was kept`);
+      });
+      if (collisions.size > MAX_WARNINGS) warnings.push(`…and ${collisions.size - MAX_WARNINGS} more`);
+      return result;
+    }
+
+    case 'cast': {
+      const field = requireField(step.field, 'Cast');
+      let failures = 0;
+      const result = mapRecords(data, (record) => {
+        const path = resolveField(record, field);
+        const value = getField(record, path);
+        if (value === undefined) return record;
+        const cast = castValue(value, step.to);
+        if (cast === undefined) {
+          failures++;
+          if (warnings.length < MAX_WARNINGS) warnings.push(`${toText(value)} is not a ${step.to}`);
+        }
+        return setField(record, path, cast ?? null);
+      });
+      if (failures > MAX_WARNINGS) warnings.push(`…and ${failures - MAX_WARNINGS} more`);
+      return result;
+    }
+  }
+}
+
+/**
+ * Run the steps in order, returning each step's output so it can be
+ * previewed. The first failing step stops the pipeline; later steps have no
+ * result.
+ */
+export function runPipeline(data: JsonValue, steps: PipelineStep[]): PipelineStepResult[] {
+  const results: PipelineStepResult[] = [];
+  let current = data;
+
+  for (const step of steps) {
+    const warnings: string[] = [];
+    try {
+      current = applyStep(current, step, warnings);
+    } catch (error) {
+      const message = error instanceof JsonHeroError ? error.details || error.message
+        : error instanceof Error ? error.message : String(error);
+      results.push({ data: null, error: message });
+      break;
+    }
+    results.push({
+      data: current,
+      ...(Array.isArray(current) && { recordCount: current.length }),
+      ...(warnings.length > 0 && { warnings }),
+    });
+  }
+  return results;
+}
+
+function validateStep(candidate: unknown, index: number): string | null {
+  if (!isPlainObject(candidate)) return `Step ${index} is not an object`;
+  const step = candidate as Record<string, unknown>;
+  const isString = (key: string) => typeof step[key] === 'string'; // eslint-disable-line security/detect-object-injection
+  const isStringList = (key: string) => Array.isArray(step[key]) && (step[key] as unknown[]).every((item) => typeof item === 'string'); // eslint-disable-line security/detect-object-injection
+
+  const missing = (() => {
+    switch (step['op']) {
+      case 'select': return isString('path') ? null : 'path';
+      case 'pick':
+      case 'dedupe': return isStringList('fields') ? null : 'fields';
+      case 'rename': return !isString('from') ? 'from' : !isString('to') ? 'to' : null;
+      case 'filter':
+        if (!isString('field')) return 'field';
+        if (!FILTER_OPERATORS.includes(step['operator'] as FilterOperator)) return 'operator';
+        return isString('value') ? null : 'value';
+      case 'sort': return !isString('field') ? 'field' : step['direction'] === 'asc' || step['direction'] === 'desc' ? null : 'direction';
+      case 'flatten': return isString('separator') ? null : 'separator';
+      case 'cast': return !isString('field') ? 'field' : CAST_TYPES.includes(step['to'] as CastType) ? null : 'to';
+      default: return undefined;
+    }
+  })();
+
+  if (missing === undefined) return `Step ${index} has an unknown "op": ${JSON.stringify(step['op'])}`;
+  if (missing !== null) return `Step ${index} (${String(step['op'])}) has a missing or invalid "${missing}"`;
+  return null;
+}
+
+/**
+ * Check that a parsed value is a pipeline recipe, as written by
+ * `exportPipelineRecipe`. Returns an error message describing the first
+ * problem, or null.
+ */
+export function validateRecipe(recipe: unknown): string | null {
+  if (!isPlainObject(recipe)) return 'A recipe must be an object with "name" and "steps"';
+  const { name, steps } = recipe as { name?: unknown; steps?: unknown };
+  if (typeof name !== 'string' || !name.trim()) return 'A recipe needs a "name"';
+  if (!Array.isArray(steps)) return 'A recipe needs a "steps" array';
+  for (const [index, step] of steps.entries()) {
+    const error = validateStep(step, index);
+    if (error) return error;
+  }
+  return null;
+}
@@ -1,4 +1,9 @@
-import { JsonValue } from '../types/json.types';
+import { JsonObject, JsonValue } from '../types/json.types';
+
+import { getJsonPath } from './data-transformers';
+import { jsonEquals } from './json-diff';
+import { segmentsToPointer } from './json-patch';
+import { isIntegerNumber, isJsonNumber, isLosslessNumber, toNumber } from './lossless-number';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -6,33 +11,299 @@ export interface ValidationResult {
 }
 
 export interface ValidationError {
+  /** Instance location in dotted form, e.g. `users[0].email` */
   path: string;
+  /** Instance location as a JSON Pointer, e.g. `/users/0/email` */
+  instancePath: string;
+  /** Location of the failing keyword in the schema, e.g. `#/properties/users/items/format` */
+  schemaPath: string;
+  keyword?: string;
   message: string;
   value: any;
   schema?: any;
 }
 
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/** A schema, or `true`/`false` to accept or reject everything */
+export type JsonSchemaDefinition = JsonSchema | boolean;
+
+/**
+ * JSON Schema draft 2020-12 keywords understood by the validator.
+ * `definitions` is accepted alongside `$defs` for older schemas.
+ */
 export interface JsonSchema {
-  type?: string | string[];
-  properties?: Record<string, JsonSchema>;
-  items?: JsonSchema;
-  required?: string[];
-  minimum?: number;
-  maximum?: number;
+  $schema?: string;
+  $id?: string;
+  $anchor?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchemaDefinition>;
+  definitions?: Record<string, JsonSchemaDefinition>;
+
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: JsonValue[];
+  const?: JsonValue;
+
   minLength?: number;
   maxLength?: number;
   pattern?: string;
-  enum?: any[];
-  additionalProperties?: boolean | JsonSchema;
+  format?: string;
+
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+
+  properties?: Record<string, JsonSchemaDefinition>;
+  patternProperties?: Record<string, JsonSchemaDefinition>;
+  additionalProperties?: JsonSchemaDefinition;
+  propertyNames?: JsonSchemaDefinition;
+  required?: string[];
+  minProperties?: number;
+  maxProperties?: number;
+  dependentRequired?: Record<string, string[]>;
+  dependentSchemas?: Record<string, JsonSchemaDefinition>;
+
+  items?: JsonSchemaDefinition;
+  prefixItems?: JsonSchemaDefinition[];
+  contains?: JsonSchemaDefinition;
+  minContains?: number;
+  maxContains?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+
+  allOf?: JsonSchemaDefinition[];
+  anyOf?: JsonSchemaDefinition[];
+  oneOf?: JsonSchemaDefinition[];
+  not?: JsonSchemaDefinition;
+  if?: JsonSchemaDefinition;
+  then?: JsonSchemaDefinition;
+  else?: JsonSchemaDefinition;
+
   description?: string;
   title?: string;
+  default?: JsonValue;
+  examples?: JsonValue[];
+}
+
+/** RFC 3339 `full-date` that names a real calendar day */
+function isDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/** RFC 3339 `partial-time` with an optional (or required) offset */
+function isTime(value: string, requireOffset: boolean): boolean {
+  const match = /^(\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59 || Number(match[3]) > 60) return false;
+
+  let rest = value.substring(8);
+  const fraction = /^\.\d+/.exec(rest);
+  if (fraction) rest = rest.substring(fraction[0].length);
+
+  if (rest === '') return !requireOffset;
+  return rest === 'Z' || rest === 'z' || /^[+-]([01]\d|2[0-3]):[0-5]\d$/.test(rest);
+}
+
+/**
+ * Checks for the `format` values we assert. Unknown formats are treated as
+ * annotations and always pass, as the specification allows.
+ */
+export const formatCheckers: Record<string, (value: string) => boolean> = {
+  'date-time': (value) => /^.{10}[Tt ]/.test(value) && isDate(value.substring(0, 10)) && isTime(value.substring(11), true),
+  date: isDate,
+  time: (value) => isTime(value, false),
+  email: (value) => {
+    const [local, domain, ...rest] = value.split('@');
+    if (!local || !domain || rest.length > 0 || /\s/.test(value)) return false;
+    const labels = domain.split('.');
+    return labels.length >= 2 && labels.every(Boolean);
+  },
+  uri: (value) => {
+    if (!/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(value)) return false;
+    try {
+      new URL(value);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  uuid: (value) => /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/.test(value),
+  ipv4: (value) => {
+    const octets = value.split('.');
+    return octets.length === 4 && octets.every((octet) => /^(0|[1-9]\d{0,2})$/.test(octet) && Number(octet) <= 255);
+  },
+};
+
+export type SchemaDraft = '2020-12' | '2019-09' | 'draft-07' | 'draft-04';
+
+export const SCHEMA_DRAFT_URIS: Record<SchemaDraft, string> = {
+  '2020-12': 'https://json-schema.org/draft/2020-12/schema',
+  '2019-09': 'https://json-schema.org/draft/2019-09/schema',
+  'draft-07': 'http://json-schema.org/draft-07/schema#',
+  'draft-04': 'http://json-schema.org/draft-04/schema#',
+};
+
+export interface SchemaInferenceOptions {
+  /** Draft the generated schema declares in `$schema` (default 2020-12) */
+  draft?: SchemaDraft;
+  /** Most distinct string values collected into an `enum`; 0 disables enums */
+  maxEnumValues?: number;
+}
+
+const DEFAULT_MAX_ENUM_VALUES = 10;
+/** Distinct strings remembered per location; beyond this no enum is inferred */
+const MAX_TRACKED_STRING_VALUES = 100;
+
+/** Formats to detect, most specific first, limited to those each draft defines */
+const FORMATS_BY_DRAFT: Record<SchemaDraft, string[]> = {
+  '2020-12': ['date-time', 'date', 'uuid', 'email', 'uri'],
+  '2019-09': ['date-time', 'date', 'uuid', 'email', 'uri'],
+  'draft-07': ['date-time', 'date', 'email', 'uri'],
+  'draft-04': ['date-time', 'email', 'uri'],
+};
+
+/**
+ * Statistics gathered for every value seen at one location in the samples
+ */
+interface Shape {
+  nulls: number;
+  booleans: number;
+  numbers: { count: number; min: number; max: number; integers: boolean } | null;
+  strings: { count: number; distinct: Map<string, number> | null; formats: string[] | null } | null;
+  objects: { count: number; properties: Map<string, { present: number; shape: Shape }> } | null;
+  arrays: { count: number; items: Shape } | null;
+}
+
+function createShape(): Shape {
+  return { nulls: 0, booleans: 0, numbers: null, strings: null, objects: null, arrays: null };
+}
+
+function addSample(shape: Shape, value: JsonValue): void {
+  if (value === null) {
+    shape.nulls++;
+  } else if (typeof value === 'boolean') {
+    shape.booleans++;
+  } else if (isJsonNumber(value)) {
+    const numeric = toNumber(value);
+    const numbers = shape.numbers ?? (shape.numbers = { count: 0, min: numeric, max: numeric, integers: true });
+    numbers.count++;
+    numbers.min = Math.min(numbers.min, numeric);
+    numbers.max = Math.max(numbers.max, numeric);
+    numbers.integers = numbers.integers && isIntegerNumber(value);
+  } else if (typeof value === 'string') {
+    const strings = shape.strings ?? (shape.strings = { count: 0, distinct: new Map(), formats: null });
+    strings.count++;
+    if (strings.distinct) {
+      strings.distinct.set(value, (strings.distinct.get(value) ?? 0) + 1);
+      if (strings.distinct.size > MAX_TRACKED_STRING_VALUES) strings.distinct = null;
+    }
+    // Candidate formats narrow to those every string so far satisfies
+    const candidates = strings.formats ?? Object.keys(formatCheckers);
+    strings.formats = candidates.filter((format) => formatCheckers[format]?.(value)); // eslint-disable-line security/detect-object-injection
+  } else if (Array.isArray(value)) {
+    const arrays = shape.arrays ?? (shape.arrays = { count: 0, items: createShape() });
+    arrays.count++;
+    value.forEach((item) => addSample(arrays.items, item));
+  } else {
+    const objects = shape.objects ?? (shape.objects = { count: 0, properties: new Map() });
+    objects.count++;
+    Object.entries(value).forEach(([key, propValue]) => {
+      let property = objects.properties.get(key);
+      if (!property) {
+        property = { present: 0, shape: createShape() };
+        objects.properties.set(key, property);
+      }
+      property.present++;
+      addSample(property.shape, propValue);
+    });
+  }
+}
+
+function shapeToSchema(shape: Shape, options: { formats: string[]; maxEnumValues: number }): JsonSchema {
+  const variants: JsonSchema[] = [];
+
+  if (shape.objects) {
+    const { count, properties } = shape.objects;
+    const schema: JsonSchema = { type: 'object', properties: {} };
+    const required: string[] = [];
+    properties.forEach((property, key) => {
+      if (schema.properties) {
+        schema.properties[key] = shapeToSchema(property.shape, options); // eslint-disable-line security/detect-object-injection
+      }
+      if (property.present === count) required.push(key);
+    });
+    if (required.length > 0) schema.required = required;
+    schema.additionalProperties = false;
+    variants.push(schema);
+  }
+
+  if (shape.arrays) {
+    const { items } = shape.arrays;
+    const isEmpty = !items.objects && !items.arrays && !items.strings && !items.numbers && !items.booleans && !items.nulls;
+    variants.push(isEmpty ? { type: 'array' } : { type: 'array', items: shapeToSchema(items, options) });
+  }
+
+  if (shape.strings) {
+    const { count, distinct, formats } = shape.strings;
+    const format = options.formats.find((candidate) => formats?.includes(candidate));
+    const schema: JsonSchema = { type: 'string' };
+    if (format) {
+      schema.format = format;
+    } else if (distinct && distinct.size <= options.maxEnumValues && count >= distinct.size * 2) {
+      // Only values that repeat look like a fixed set rather than free text
+      schema.enum = Array.from(distinct.keys());
+    }
+    variants.push(schema);
+  }
+
+  if (shape.numbers) {
+    const { min, max, integers } = shape.numbers;
+    variants.push({ type: integers ? 'integer' : 'number', minimum: min, maximum: max });
+  }
+
+  if (shape.booleans > 0) {
+    variants.push({ type: 'boolean' });
+  }
+
+  const [first] = variants;
+  if (!first) {
+    return { type: 'null' };
+  }
+
+  if (variants.length === 1) {
+    // A single type that is sometimes null becomes a nullable type
+    if (shape.nulls > 0) {
+      first.type = [first.type as JsonSchemaType, 'null'];
+      if (first.enum) first.enum = [...first.enum, null];
+    }
+    return first;
+  }
+
+  return { anyOf: shape.nulls > 0 ? [...variants, { type: 'null' }] : variants };
+}
+
+interface ValidationContext {
+  root: JsonSchemaDefinition;
+  errors: ValidationError[];
+  /** `$ref` + instance location pairs currently being evaluated, to stop reference cycles */
+  activeRefs: Set<string>;
+}
+
+function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
 }
 
 class SchemaValidator {
-  validateAgainstSchema(data: JsonValue, schema: JsonSchema): ValidationResult {
+  private regexCache = new Map<string, RegExp>();
+
+  validateAgainstSchema(data: JsonValue, schema: JsonSchemaDefinition): ValidationResult {
     const errors: ValidationError[] = [];
     
-    this.validateRecursive(data, schema, '', errors);
+    this.validateRecursive(data, schema, [], '#', { root: schema, errors, activeRefs: new Set() });
     
     return {
       isValid: errors.length === 0,
@@ -42,207 +313,392 @@ class SchemaValidator {
 
   private validateRecursive(
     data: JsonValue,
-    schema: JsonSchema,
-    path: string,
-    errors: ValidationError[]
+    schema: JsonSchemaDefinition,
+    segments: string[],
+    schemaPath: string,
+    context: ValidationContext
   ): void {
+    const addError = (keyword: string, message: string, value: JsonValue = data, at: string[] = segments) => {
+      context.errors.push({
+        path: getJsonPath(at),
+        instancePath: segmentsToPointer(at),
+        schemaPath: `${schemaPath}/${keyword}`,
+        keyword,
+        message,
+        value,
+        schema,
+      });
+    };
+
+    if (schema === true) return;
+    if (schema === false) {
+      context.errors.push({
+        path: getJsonPath(segments),
+        instancePath: segmentsToPointer(segments),
+        schemaPath,
+        message: 'No value is allowed here',
+        value: data,
+        schema,
+      });
+      return;
+    }
+
+    // References are evaluated alongside sibling keywords (2020-12 semantics)
+    if (schema.$ref !== undefined) {
+      const refKey = `${schema.$ref} ${segmentsToPointer(segments)}`;
+      const target = this.resolveRef(context.root, schema.$ref);
+      if (target === undefined) {
+        addError('$ref', `Cannot resolve reference '${schema.$ref}'`);
+      } else if (!context.activeRefs.has(refKey)) {
+        context.activeRefs.add(refKey);
+        this.validateRecursive(data, target, segments, `${schemaPath}/$ref`, context);
+        context.activeRefs.delete(refKey);
+      }
+    }
+
     // Type validation
     if (schema.type) {
-      const actualType = this.getValueType(data);
       const expectedTypes = Array.isArray(schema.type) ? schema.type : [schema.type];
       
-      if (!expectedTypes.includes(actualType)) {
-        errors.push({
-          path,
-          message: `Expected type ${expectedTypes.join(' or ')}, got ${actualType}`,
-          value: data,
-          schema,
-        });
+      if (!expectedTypes.some((type) => this.matchesType(data, type))) {
+        addError('type', `Expected type ${expectedTypes.join(' or ')}, got ${this.getValueType(data)}`);
         return; // Skip further validation if type is wrong
       }
     }
 
-    // Enum validation
-    if (schema.enum && !schema.enum.includes(data)) {
-      errors.push({
-        path,
-        message: `Value must be one of: ${schema.enum.join(', ')}`,
-        value: data,
-        schema,
-      });
+    // Enum and const validation
+    if (schema.enum && !schema.enum.some((option) => jsonEquals(option, data))) {
+      addError('enum', `Value must be one of: ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+    }
+
+    if (schema.const !== undefined && !jsonEquals(schema.const, data)) {
+      addError('const', `Value must be ${JSON.stringify(schema.const)}`);
     }
 
     // String validations
     if (typeof data === 'string') {
-      if (schema.minLength !== undefined && data.length < schema.minLength) {
-        errors.push({
-          path,
-          message: `String length must be at least ${schema.minLength}`,
-          value: data,
-          schema,
-        });
+      const length = Array.from(data).length;
+      if (schema.minLength !== undefined && length < schema.minLength) {
+        addError('minLength', `String length must be at least ${schema.minLength}`);
       }
       
-      if (schema.maxLength !== undefined && data.length > schema.maxLength) {
-        errors.push({
-          path,
-          message: `String length must be at most ${schema.maxLength}`,
-          value: data,
-          schema,
-        });
+      if (schema.maxLength !== undefined && length > schema.maxLength) {
+        addError('maxLength', `String length must be at most ${schema.maxLength}`);
       }
       
-      if (schema.pattern) {
-        const regex = new RegExp(schema.pattern);
-        if (!regex.test(data)) {
-          errors.push({
-            path,
-            message: `String does not match pattern: ${schema.pattern}`,
-            value: data,
-            schema,
-          });
-        }
+      if (schema.pattern && !this.getRegex(schema.pattern).test(data)) {
+        addError('pattern', `String does not match pattern: ${schema.pattern}`);
+      }
+
+      const checkFormat = schema.format ? formatCheckers[schema.format] : undefined;
+      if (checkFormat && !checkFormat(data)) {
+        addError('format', `String is not a valid ${schema.format}`);
       }
     }
 
-    // Number validations
-    if (typeof data === 'number') {
-      if (schema.minimum !== undefined && data < schema.minimum) {
-        errors.push({
-          path,
-          message: `Value must be at least ${schema.minimum}`,
-          value: data,
-          schema,
-        });
+    // Number validations (lossless numbers are compared at double precision)
+    if (isJsonNumber(data)) {
+      const value = toNumber(data);
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        addError('minimum', `Value must be at least ${schema.minimum}`);
       }
       
-      if (schema.maximum !== undefined && data > schema.maximum) {
-        errors.push({
-          path,
-          message: `Value must be at most ${schema.maximum}`,
-          value: data,
-          schema,
-        });
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        addError('maximum', `Value must be at most ${schema.maximum}`);
+      }
+
+      if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+        addError('exclusiveMinimum', `Value must be greater than ${schema.exclusiveMinimum}`);
+      }
+
+      if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+        addError('exclusiveMaximum', `Value must be less than ${schema.exclusiveMaximum}`);
+      }
+
+      if (schema.multipleOf !== undefined && schema.multipleOf > 0) {
+        const quotient = value / schema.multipleOf;
+        if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+          addError('multipleOf', `Value must be a multiple of ${schema.multipleOf}`);
+        }
       }
     }
 
     // Object validations
-    if (data && typeof data === 'object' && !Array.isArray(data)) {
-      const obj = data as Record<string, JsonValue>;
-      
-      // Required properties
-      if (schema.required) {
-        for (const requiredProp of schema.required) {
-          if (!(requiredProp in obj)) {
-            errors.push({
-              path: path ? `${path}.${requiredProp}` : requiredProp,
-              message: `Required property '${requiredProp}' is missing`,
-              value: data,
-              schema,
-            });
-          }
+    if (data && typeof data === 'object' && !Array.isArray(data) && !isLosslessNumber(data)) {
+      this.validateObject(data, schema, segments, schemaPath, context, addError);
+    }
+
+    // Array validations
+    if (Array.isArray(data)) {
+      this.validateArray(data, schema, segments, schemaPath, context, addError);
+    }
+
+    // Composition
+    schema.allOf?.forEach((subschema, index) => {
+      this.validateRecursive(data, subschema, segments, `${schemaPath}/allOf/${index}`, context);
+    });
+
+    if (schema.anyOf) {
+      const matches = schema.anyOf.some((subschema, index) =>
+        this.isValid(data, subschema, segments, `${schemaPath}/anyOf/${index}`, context)
+      );
+      if (!matches) {
+        addError('anyOf', 'Value must match at least one schema in anyOf');
+      }
+    }
+
+    if (schema.oneOf) {
+      const matchCount = schema.oneOf.filter((subschema, index) =>
+        this.isValid(data, subschema, segments, `${schemaPath}/oneOf/${index}`, context)
+      ).length;
+      if (matchCount !== 1) {
+        addError('oneOf', `Value must match exactly one schema in oneOf (matched ${matchCount})`);
+      }
+    }
+
+    if (schema.not !== undefined && this.isValid(data, schema.not, segments, `${schemaPath}/not`, context)) {
+      addError('not', 'Value must not match the schema in not');
+    }
+
+    if (schema.if !== undefined) {
+      if (this.isValid(data, schema.if, segments, `${schemaPath}/if`, context)) {
+        if (schema.then !== undefined) {
+          this.validateRecursive(data, schema.then, segments, `${schemaPath}/then`, context);
         }
+      } else if (schema.else !== undefined) {
+        this.validateRecursive(data, schema.else, segments, `${schemaPath}/else`, context);
       }
-      
+    }
+  }
+
+  private validateObject(
+    obj: JsonObject,
+    schema: JsonSchema,
+    segments: string[],
+    schemaPath: string,
+    context: ValidationContext,
+    addError: (keyword: string, message: string, value?: JsonValue, at?: string[]) => void
+  ): void {
+    const keys = Object.keys(obj);
+    const has = (prop: string) => Object.prototype.hasOwnProperty.call(obj, prop);
+
+    // Required properties
+    schema.required?.forEach((requiredProp) => {
+      if (!has(requiredProp)) {
+        addError('required', `Required property '${requiredProp}' is missing`, obj, [...segments, requiredProp]);
+      }
+    });
+
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+      addError('minProperties', `Object must have at least ${schema.minProperties} properties`);
+    }
+
+    if (schema.maxProperties !== undefined && keys.length > schema.maxProperties) {
+      addError('maxProperties', `Object must have at most ${schema.maxProperties} properties`);
+    }
+
+    if (schema.dependentRequired) {
+      Object.entries(schema.dependentRequired).forEach(([prop, dependencies]) => {
+        if (!has(prop)) return;
+        dependencies.filter((dependency) => !has(dependency)).forEach((dependency) => {
+          addError('dependentRequired', `Property '${dependency}' is required when '${prop}' is present`, obj, [...segments, dependency]);
+        });
+      });
+    }
+
+    if (schema.dependentSchemas) {
+      Object.entries(schema.dependentSchemas).forEach(([prop, subschema]) => {
+        if (has(prop)) {
+          this.validateRecursive(obj, subschema, segments, `${schemaPath}/dependentSchemas/${escapePointerToken(prop)}`, context);
+        }
+      });
+    }
+
+    const patterns = Object.entries(schema.patternProperties ?? {}).map(
+      ([pattern, subschema]) => [this.getRegex(pattern), pattern, subschema] as const
+    );
+
+    keys.forEach((prop) => {
+      const propValue = obj[prop]; // eslint-disable-line security/detect-object-injection
+      if (propValue === undefined) return;
+      const propSegments = [...segments, prop];
+      let evaluated = false;
+
+      if (schema.propertyNames !== undefined) {
+        this.validateRecursive(prop, schema.propertyNames, propSegments, `${schemaPath}/propertyNames`, context);
+      }
+
       // Property validations
-      if (schema.properties) {
-        for (const [prop, propSchema] of Object.entries(schema.properties)) {
-          if (prop in obj) {
-            const propPath = path ? `${path}.${prop}` : prop;
-            const propValue = obj[prop];
-            if (propValue !== undefined) {
-              this.validateRecursive(propValue, propSchema, propPath, errors);
-            }
-          }
+      if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, prop)) {
+        evaluated = true;
+        const propSchema = schema.properties[prop]; // eslint-disable-line security/detect-object-injection
+        if (propSchema !== undefined) {
+          this.validateRecursive(propValue, propSchema, propSegments, `${schemaPath}/properties/${escapePointerToken(prop)}`, context);
         }
       }
-      
+
+      patterns.forEach(([regex, pattern, subschema]) => {
+        if (!regex.test(prop)) return;
+        evaluated = true;
+        this.validateRecursive(propValue, subschema, propSegments, `${schemaPath}/patternProperties/${escapePointerToken(pattern)}`, context);
+      });
+
       // Additional properties
-      if (schema.additionalProperties === false && schema.properties) {
-        const allowedProps = Object.keys(schema.properties);
-        for (const prop of Object.keys(obj)) {
-          if (!allowedProps.includes(prop)) {
-            const propValue = obj[prop];
-            errors.push({
-              path: path ? `${path}.${prop}` : prop,
-              message: `Additional property '${prop}' is not allowed`,
-              value: propValue,
-              schema,
-            });
-          }
+      if (!evaluated && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          addError('additionalProperties', `Additional property '${prop}' is not allowed`, propValue, propSegments);
+        } else {
+          this.validateRecursive(propValue, schema.additionalProperties, propSegments, `${schemaPath}/additionalProperties`, context);
         }
       }
+    });
+  }
+
+  private validateArray(
+    data: JsonValue[],
+    schema: JsonSchema,
+    segments: string[],
+    schemaPath: string,
+    context: ValidationContext,
+    addError: (keyword: string, message: string, value?: JsonValue, at?: string[]) => void
+  ): void {
+    if (schema.minItems !== undefined && data.length < schema.minItems) {
+      addError('minItems', `Array must contain at least ${schema.minItems} items`);
     }
 
-    // Array validations
-    if (Array.isArray(data)) {
-      if (schema.items) {
-        data.forEach((item, index) => {
-          const itemPath = path ? `${path}[${index}]` : `[${index}]`;
-          this.validateRecursive(item, schema.items!, itemPath, errors);
-        });
+    if (schema.maxItems !== undefined && data.length > schema.maxItems) {
+      addError('maxItems', `Array must contain at most ${schema.maxItems} items`);
+    }
+
+    if (schema.uniqueItems) {
+      const duplicate = data.findIndex((item, index) => data.slice(0, index).some((other) => jsonEquals(other, item)));
+      if (duplicate !== -1) {
+        addError('uniqueItems', `Array items must be unique (item ${duplicate} is a duplicate)`);
+      }
+    }
+
+    const prefixLength = schema.prefixItems?.length ?? 0;
+    data.forEach((item, index) => {
+      const itemSegments = [...segments, `[${index}]`];
+      const prefixSchema = schema.prefixItems?.[index]; // eslint-disable-line security/detect-object-injection
+      if (prefixSchema !== undefined) {
+        this.validateRecursive(item, prefixSchema, itemSegments, `${schemaPath}/prefixItems/${index}`, context);
+      } else if (schema.items !== undefined && index >= prefixLength) {
+        if (schema.items === false) {
+          addError('items', `Array must not contain more than ${prefixLength} items`, item, itemSegments);
+        } else {
+          this.validateRecursive(item, schema.items, itemSegments, `${schemaPath}/items`, context);
+        }
+      }
+    });
+
+    if (schema.contains !== undefined) {
+      const contains = schema.contains;
+      const matchCount = data.filter((item, index) =>
+        this.isValid(item, contains, [...segments, `[${index}]`], `${schemaPath}/contains`, context)
+      ).length;
+      const minContains = schema.minContains ?? 1;
+
+      if (matchCount < minContains) {
+        addError('contains', `Array must contain at least ${minContains} matching item${minContains === 1 ? '' : 's'}`);
+      }
+      if (schema.maxContains !== undefined && matchCount > schema.maxContains) {
+        addError('maxContains', `Array must contain at most ${schema.maxContains} matching items`);
       }
     }
   }
 
-  private getValueType(value: JsonValue): string {
-    if (value === null) return 'null';
-    if (Array.isArray(value)) return 'array';
-    return typeof value;
+  /**
+   * Evaluate a subschema without reporting its errors
+   */
+  private isValid(
+    data: JsonValue,
+    schema: JsonSchemaDefinition,
+    segments: string[],
+    schemaPath: string,
+    context: ValidationContext
+  ): boolean {
+    const errors: ValidationError[] = [];
+    this.validateRecursive(data, schema, segments, schemaPath, { ...context, errors });
+    return errors.length === 0;
   }
 
-  // Common schema generators
-  generateSchemaFromData(data: JsonValue): JsonSchema {
-    if (data === null) {
-      return { type: 'null' };
-    }
-    
-    if (Array.isArray(data)) {
-      const itemSchemas = data.map(item => this.generateSchemaFromData(item));
-      // Merge schemas if all items have similar structure
-      return {
-        type: 'array',
-        items: itemSchemas[0] ?? { type: 'null' },
-      };
+  /**
+   * Resolve a local reference: `#`, a JSON Pointer such as `#/$defs/address`,
+   * or a plain-name fragment matching an `$anchor`
+   */
+  private resolveRef(root: JsonSchemaDefinition, ref: string): JsonSchemaDefinition | undefined {
+    if (!ref.startsWith('#')) return undefined;
+    const fragment = decodeURIComponent(ref.substring(1));
+
+    if (fragment === '') return root;
+
+    if (!fragment.startsWith('/')) {
+      return this.findAnchor(root, fragment);
     }
-    
-    if (typeof data === 'object') {
-      const properties: Record<string, JsonSchema> = {};
-      const required: string[] = [];
-      
-      for (const [key, value] of Object.entries(data)) {
-        properties[key] = this.generateSchemaFromData(value);
-        required.push(key);
+
+    let current: unknown = root;
+    for (const token of fragment.substring(1).split('/')) {
+      const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+      if (current === null || typeof current !== 'object' || !Object.prototype.hasOwnProperty.call(current, key)) {
+        return undefined;
       }
-      
-      return {
-        type: 'object',
-        properties,
-        required,
-        additionalProperties: false,
-      };
+      current = (current as Record<string, unknown>)[key]; // eslint-disable-line security/detect-object-injection
     }
-    
-    if (typeof data === 'string') {
-      return {
-        type: 'string',
-        minLength: 1,
-      };
-    }
-    
-    if (typeof data === 'number') {
-      return {
-        type: 'number',
-      };
+    return typeof current === 'boolean' || (current !== null && typeof current === 'object')
+      ? current as JsonSchemaDefinition
+      : undefined;
+  }
+
+  private findAnchor(schema: unknown, anchor: string): JsonSchemaDefinition | undefined {
+    if (schema === null || typeof schema !== 'object') return undefined;
+    if ((schema as JsonSchema).$anchor === anchor) return schema as JsonSchema;
+
+    for (const child of Object.values(schema as Record<string, unknown>)) {
+      const found = this.findAnchor(child, anchor);
+      if (found !== undefined) return found;
     }
-    
-    if (typeof data === 'boolean') {
-      return {
-        type: 'boolean',
-      };
+    return undefined;
+  }
+
+  private getRegex(pattern: string): RegExp {
+    let regex = this.regexCache.get(pattern);
+    if (!regex) {
+      regex = new RegExp(pattern, 'u');
+      this.regexCache.set(pattern, regex);
     }
-    
-    return { type: 'string' };
+    return regex;
+  }
+
+  private matchesType(value: JsonValue, type: JsonSchemaType): boolean {
+    if (type === 'integer') return isJsonNumber(value) && isIntegerNumber(value);
+    return this.getValueType(value) === type;
+  }
+
+  private getValueType(value: JsonValue): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (isLosslessNumber(value)) return 'number';
+    return typeof value;
+  }
+
+  // Common schema generators
+  /**
+   * Infer a schema from sample data. Array elements are merged into a single
+   * item shape, so properties are required only when every sample has them.
+   */
+  generateSchemaFromData(data: JsonValue, options: SchemaInferenceOptions = {}): JsonSchema {
+    const draft = options.draft ?? '2020-12';
+    const shape = createShape();
+    addSample(shape, data);
+
+    return {
+      $schema: SCHEMA_DRAFT_URIS[draft], // eslint-disable-line security/detect-object-injection
+      ...shapeToSchema(shape, {
+        formats: FORMATS_BY_DRAFT[draft], // eslint-disable-line security/detect-object-injection
+        maxEnumValues: options.maxEnumValues ?? DEFAULT_MAX_ENUM_VALUES,
+      }),
+    };
   }
 }
 
@@ -0,0 +1,121 @@
+import { DuplicateKeyPolicy, JsonDialect } from '../types/json.types';
+
+import { getTreeNodeKey } from './data-transformers';
+import { parseDialect } from './json-dialects';
+import { parseJSONIncrementally, SourcePosition, SourceRange } from './streaming-json-parser';
+
+/**
+ * Source positions of a document's nodes, keyed by `getTreeNodeKey`
+ */
+export type SourceMap = Map<string, SourcePosition>;
+
+/**
+ * A source position together with the positions of its children
+ */
+interface PositionNode {
+  position: SourcePosition;
+  children: PositionNode[];
+}
+
+/**
+ * Nest positions, which parsers record children first, under their parents
+ */
+function nestPositions(positions: SourcePosition[]): PositionNode | null {
+  const pending: PositionNode[] = [];
+  for (const position of positions) {
+    // A node's descendants are the nodes just before it that sit deeper
+    let first = pending.length;
+    while (first > 0 && (pending[first - 1]?.position.path.length ?? 0) > position.path.length) first--;
+    const children = pending.splice(first);
+    pending.push({ position, children });
+  }
+  return pending[0] ?? null;
+}
+
+/**
+ * Add a node and its descendants to the map under the paths they have in the
+ * parsed data. Repeated keys resolve as the parser resolved them: one
+ * occurrence is kept, or with `keep-all` each becomes an item of an array.
+ */
+function addToSourceMap(map: SourceMap, node: PositionNode, path: string[], policy: DuplicateKeyPolicy): void {
+  map.set(getTreeNodeKey(path), { ...node.position, path });
+
+  const occurrences = new Map<string, PositionNode[]>();
+  for (const child of node.children) {
+    const segment = child.position.path[child.position.path.length - 1] ?? '';
+    const group = occurrences.get(segment);
+    if (group) group.push(child);
+    else occurrences.set(segment, [child]);
+  }
+
+  for (const [segment, children] of occurrences) {
+    const childPath = [...path, segment];
+    const [first] = children;
+    const last = children[children.length - 1];
+    if (!first || !last) continue;
+
+    if (children.length === 1 || policy === 'last-wins') {
+      addToSourceMap(map, last, childPath, policy);
+    } else if (policy === 'first-wins') {
+      addToSourceMap(map, first, childPath, policy);
+    } else {
+      // The collected array is shown where the key first appears
+      map.set(getTreeNodeKey(childPath), { ...first.position, path: childPath });
+      children.forEach((child, index) => addToSourceMap(map, child, [...childPath, `[${index}]`], policy));
+    }
+  }
+}
+
+/**
+ * Map every node of a JSON document to where its key and value sit in
+ * `text`. Paths follow the data as parsed with `duplicateKeyPolicy`, so a
+ * repeated key maps to the occurrence that was kept. Returns `null` when the
+ * text is not valid JSON, or not valid in the given dialect.
+ */
+export function buildSourceMap(text: string, dialect?: JsonDialect, duplicateKeyPolicy: DuplicateKeyPolicy = 'last-wins'): SourceMap | null {
+  try {
+    const { positions } = dialect
+      ? parseDialect(text, dialect)
+      : parseJSONIncrementally(text, { materialize: false, trackPositions: true });
+    const root = nestPositions(positions);
+    const map: SourceMap = new Map();
+    if (root) addToSourceMap(map, root, [], duplicateKeyPolicy);
+    return map;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a 1-based line and column falls within a range. The column just
+ * past the end counts, so a caret placed after a value still selects it.
+ */
+function containsPoint(range: SourceRange, line: number, column: number): boolean {
+  const { start, end } = range;
+  if (line < start.line || line > end.line) return false;
+  if (line === start.line && column < start.column) return false;
+  if (line === end.line && column > end.column) return false;
+  return true;
+}
+
+/**
+ * Path of the innermost node whose key or value contains the position, or
+ * `null` when it is outside the document
+ */
+export function findNodeAtPosition(sourceMap: SourceMap, line: number, column: number): string[] | null {
+  let match: SourcePosition | null = null;
+  for (const position of sourceMap.values()) {
+    const hit = containsPoint(position.value, line, column) || (position.key && containsPoint(position.key, line, column));
+    if (hit && (!match || position.path.length > match.path.length)) {
+      match = position;
+    }
+  }
+  return match?.path ?? null;
+}
+
+/**
+ * Range covering a node's key (when it has one) through the end of its value
+ */
+export function getNodeRange(position: SourcePosition): SourceRange {
+  return { start: (position.key ?? position.value).start, end: position.value.end };
+}
@@ -0,0 +1,1101 @@
+import { JsonObject, JsonValue } from '../types/json.types';
+
+import { getJsonPath, jsonToTableRows } from './data-transformers';
+import { createError, ErrorCodes } from './error-handler';
+import { jsonEquals } from './json-diff';
+import { stringifyJSON } from './json-parser';
+import { findJsonPathSyntaxError, JsonPathQuery, parseJsonPath, queryJsonPath } from './jsonpath';
+import { formatNumber, isJsonNumber, isLosslessNumber, parseNumberText, toNumber } from './lossless-number';
+import { compareCodePoints } from './utils';
+
+/**
+ * SQL over the arrays in a document: `SELECT ... FROM $.path [JOIN $.other
+ * ON ...] WHERE ... GROUP BY ... HAVING ... ORDER BY ... LIMIT ... OFFSET`.
+ * Each element of the array a JSONPath selects is a row; nested members are
+ * columns named by their flattened path (`address.city`, `tags[0]`), as in
+ * the table view. NULL follows SQL's three-valued logic, LIKE is case
+ * insensitive, and COUNT, SUM, AVG, MIN and MAX aggregate over groups.
+ */
+
+export interface SqlSyntaxIssue {
+  /** Offset in the query, in UTF-16 code units */
+  offset: number;
+  message: string;
+}
+
+/**
+ * The rows a query selected, each keyed by column name
+ */
+export interface SqlResult {
+  /** Column names, in SELECT order */
+  columns: string[];
+  rows: JsonObject[];
+}
+
+type TokenType = 'word' | 'number' | 'string' | 'quoted' | 'path' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  /** Upper-cased words, unescaped strings and identifiers, parsed numbers */
+  value: string | number | JsonValue;
+  offset: number;
+}
+
+type ColumnPath = Array<string | number>;
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '||' | 'and' | 'or' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+type Expression =
+  | { kind: 'literal'; value: JsonValue }
+  | { kind: 'column'; path: ColumnPath; text: string }
+  | { kind: 'negate' | 'not'; operand: Expression }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression }
+  | { kind: 'like'; operand: Expression; pattern: Expression; negated: boolean }
+  | { kind: 'in'; operand: Expression; list: Expression[]; negated: boolean }
+  | { kind: 'between'; operand: Expression; low: Expression; high: Expression; negated: boolean }
+  | { kind: 'isNull'; operand: Expression; negated: boolean }
+  | { kind: 'call'; name: FunctionName; args: Expression[]; distinct: boolean; star: boolean }
+  | { kind: 'case'; operand: Expression | null; branches: Array<{ when: Expression; then: Expression }>; otherwise: Expression | null };
+
+type SelectItem =
+  | { kind: 'star'; source: string | null }
+  | { kind: 'expression'; expression: Expression; name: string };
+
+interface Source {
+  query: JsonPathQuery;
+  alias: string;
+}
+
+interface Join {
+  source: Source;
+  type: 'inner' | 'left';
+  on: Expression;
+}
+
+interface Query {
+  distinct: boolean;
+  select: SelectItem[];
+  from: Source;
+  joins: Join[];
+  where: Expression | null;
+  groupBy: Expression[];
+  having: Expression | null;
+  orderBy: Array<{ expression: Expression; descending: boolean }>;
+  limit: number | null;
+  offset: number;
+}
+
+type AggregateName = 'count' | 'sum' | 'avg' | 'min' | 'max';
+type FunctionName = AggregateName | 'lower' | 'upper' | 'trim' | 'length' | 'abs' | 'round' | 'coalesce';
+
+/** Smallest and largest argument counts */
+const FUNCTIONS: Record<FunctionName, [number, number]> = {
+  count: [1, 1], sum: [1, 1], avg: [1, 1], min: [1, 1], max: [1, 1],
+  lower: [1, 1], upper: [1, 1], trim: [1, 1], length: [1, 1], abs: [1, 1], round: [1, 2], coalesce: [1, Infinity],
+};
+
+const AGGREGATES: ReadonlySet<string> = new Set<AggregateName>(['count', 'sum', 'avg', 'min', 'max']);
+
+/** Words that cannot be used as bare column names or aliases */
+const KEYWORDS: ReadonlySet<string> = new Set([
+  'SELECT', 'DISTINCT', 'FROM', 'AS', 'JOIN', 'INNER', 'LEFT', 'OUTER', 'ON', 'WHERE', 'GROUP', 'BY', 'HAVING',
+  'ORDER', 'ASC', 'DESC', 'LIMIT', 'OFFSET', 'AND', 'OR', 'NOT', 'IN', 'LIKE', 'IS', 'NULL', 'BETWEEN',
+  'TRUE', 'FALSE', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
+]);
+
+const OPERATORS = ['<>', '!=', '<=', '>=', '==', '||', '=', '<', '>', '+', '-', '*', '/', '%', '(', ')', ',', '.', '[', ']'];
+
+const COMPARISONS: Record<string, BinaryOperator> = { '=': '=', '==': '=', '!=': '!=', '<>': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=' };
+
+/**
+ * A parsed SQL query, ready to run against any number of documents
+ */
+export interface SqlQuery {
+  readonly source: string;
+  /** @internal */
+  readonly query: Query;
+}
+
+class SqlSyntaxError extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message);
+  }
+}
+
+class SqlEvaluationError extends Error {}
+
+const isWordFirst = (char: string) => /^[A-Za-z_]$/.test(char);
+const isWordChar = (char: string) => /^[A-Za-z0-9_]$/.test(char);
+const isDigit = (char: string) => char >= '0' && char <= '9';
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+  const fail = (message: string, offset = position): never => {
+    throw new SqlSyntaxError(message, offset);
+  };
+
+  while (position < text.length) {
+    const char = text.charAt(position);
+    const offset = position;
+
+    if (/^\s$/.test(char)) {
+      position++;
+    } else if (char === '-' && text.charAt(position + 1) === '-') {
+      // Line comment
+      while (position < text.length && text.charAt(position) !== '\n') position++;
+    } else if (isWordFirst(char)) {
+      while (position < text.length && isWordChar(text.charAt(position))) position++;
+      const word = text.slice(offset, position);
+      tokens.push({ type: 'word', text: word, value: word.toUpperCase(), offset });
+    } else if (isDigit(char) || (char === '.' && isDigit(text.charAt(position + 1)))) {
+      const match = /^\d*\.?\d+(?:[eE][+-]?\d+)?|^\d+\.?/.exec(text.slice(position)); // eslint-disable-line security/detect-unsafe-regex
+      const number = match?.[0] ?? char;
+      position += number.length;
+      tokens.push({ type: 'number', text: number, value: parseNumberText(number), offset });
+    } else if (char === "'" || char === '"' || char === '`') {
+      // Strings double their quote to escape it; double quotes and backticks delimit identifiers
+      let value = '';
+      position++;
+      for (;;) {
+        if (position >= text.length) fail(`Unterminated ${char === "'" ? 'string' : 'identifier'}`, offset);
+        if (text.charAt(position) === char) {
+          if (text.charAt(position + 1) !== char) break;
+          position++;
+        }
+        value += text.charAt(position);
+        position++;
+      }
+      position++;
+      tokens.push({ type: char === "'" ? 'string' : 'quoted', text: text.slice(offset, position), value, offset });
+    } else if (char === '$') {
+      // A JSONPath runs to the first space, comma or unmatched parenthesis outside brackets and quotes
+      let depth = 0;
+      let quote = '';
+      while (position < text.length) {
+        const current = text.charAt(position);
+        if (quote) {
+          if (current === '\\') position++;
+          else if (current === quote) quote = '';
+        } else if (current === "'" || current === '"') {
+          quote = current;
+        } else if (current === '[' || current === '(') {
+          depth++;
+        } else if (current === ']' || current === ')') {
+          if (depth === 0) break;
+          depth--;
+        } else if (depth === 0 && (/^\s$/.test(current) || current === ',')) {
+          break;
+        }
+        position++;
+      }
+      const path = text.slice(offset, position);
+      tokens.push({ type: 'path', text: path, value: path, offset });
+    } else {
+      const operator = OPERATORS.find((candidate) => text.startsWith(candidate, position));
+      if (!operator) fail(`Unexpected '${char}'`);
+      position += (operator as string).length;
+      tokens.push({ type: 'operator', text: operator as string, value: operator as string, offset });
+    }
+  }
+
+  tokens.push({ type: 'eof', text: '', value: '', offset: text.length });
+  return tokens;
+}
+
+function containsAggregate(expression: Expression): boolean {
+  switch (expression.kind) {
+    case 'literal':
+    case 'column':
+      return false;
+    case 'negate':
+    case 'not':
+    case 'isNull':
+      return containsAggregate(expression.operand);
+    case 'binary':
+      return containsAggregate(expression.left) || containsAggregate(expression.right);
+    case 'like':
+      return containsAggregate(expression.operand) || containsAggregate(expression.pattern);
+    case 'in':
+      return containsAggregate(expression.operand) || expression.list.some(containsAggregate);
+    case 'between':
+      return [expression.operand, expression.low, expression.high].some(containsAggregate);
+    case 'call':
+      return AGGREGATES.has(expression.name) || expression.args.some(containsAggregate);
+    case 'case':
+      return (expression.operand !== null && containsAggregate(expression.operand))
+        || expression.branches.some(({ when, then }) => containsAggregate(when) || containsAggregate(then))
+        || (expression.otherwise !== null && containsAggregate(expression.otherwise));
+  }
+}
+
+class Parser {
+  private readonly tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly text: string) {
+    this.tokens = tokenize(text);
+  }
+
+  parse(): Query {
+    this.expectKeyword('SELECT');
+    const distinct = this.acceptKeyword('DISTINCT');
+    const select = this.parseSelectList();
+
+    this.expectKeyword('FROM');
+    const from = this.parseSource();
+    const joins: Join[] = [];
+    for (;;) {
+      let type: Join['type'] = 'inner';
+      if (this.acceptKeyword('LEFT')) {
+        this.acceptKeyword('OUTER');
+        type = 'left';
+      } else {
+        this.acceptKeyword('INNER');
+      }
+      if (!this.acceptKeyword('JOIN')) {
+        if (type === 'left' || this.previous().value === 'INNER') this.unexpected("'JOIN'");
+        break;
+      }
+      const source = this.parseSource();
+      if ([from, ...joins.map((join) => join.source)].some(({ alias }) => alias === source.alias)) {
+        this.fail(`Two sources are named '${source.alias}'; give one an alias with AS`, this.previous().offset);
+      }
+      this.expectKeyword('ON');
+      joins.push({ source, type, on: this.parseScalarExpression('ON') });
+    }
+
+    const where = this.acceptKeyword('WHERE') ? this.parseScalarExpression('WHERE') : null;
+
+    const groupBy: Expression[] = [];
+    if (this.acceptKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      do {
+        groupBy.push(this.parseScalarExpression('GROUP BY'));
+      } while (this.acceptOperator(','));
+    }
+    const having = this.acceptKeyword('HAVING') ? this.parseExpression() : null;
+
+    const orderBy: Query['orderBy'] = [];
+    if (this.acceptKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const expression = this.parseExpression();
+        const descending = this.acceptKeyword('DESC');
+        if (!descending) this.acceptKeyword('ASC');
+        orderBy.push({ expression, descending });
+      } while (this.acceptOperator(','));
+    }
+
+    let limit: number | null = null;
+    let offset = 0;
+    if (this.acceptKeyword('LIMIT')) limit = this.parseCount('LIMIT');
+    if (this.acceptKeyword('OFFSET')) offset = this.parseCount('OFFSET');
+
+    if (this.peek().type !== 'eof') this.unexpected();
+
+    const grouped = groupBy.length > 0 || having !== null
+      || select.some((item) => item.kind === 'expression' && containsAggregate(item.expression));
+    const star = select.find((item) => item.kind === 'star');
+    if (grouped && star) this.fail('SELECT * cannot be combined with GROUP BY or aggregate functions', 0);
+
+    return { distinct, select, from, joins, where, groupBy, having, orderBy, limit, offset };
+  }
+
+  private peek(ahead = 0): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)] as Token;
+  }
+
+  private previous(): Token {
+    return this.tokens[Math.max(this.index - 1, 0)] as Token;
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private fail(message: string, offset = this.peek().offset): never {
+    throw new SqlSyntaxError(message, offset);
+  }
+
+  private unexpected(expected?: string): never {
+    const token = this.peek();
+    const found = token.type === 'eof' ? 'end of query' : `'${token.text}'`;
+    this.fail(expected ? `Expected ${expected} but found ${found}` : `Unexpected ${found}`);
+  }
+
+  private isKeyword(keyword: string, ahead = 0): boolean {
+    const token = this.peek(ahead);
+    return token.type === 'word' && token.value === keyword;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.isKeyword(keyword)) return false;
+    this.advance();
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) this.unexpected(`'${keyword}'`);
+  }
+
+  private isOperator(operator: string, ahead = 0): boolean {
+    const token = this.peek(ahead);
+    return token.type === 'operator' && token.value === operator;
+  }
+
+  private acceptOperator(operator: string): boolean {
+    if (!this.isOperator(operator)) return false;
+    this.advance();
+    return true;
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.acceptOperator(operator)) this.unexpected(`'${operator}'`);
+  }
+
+  /** A bare word that is not a keyword, or a quoted identifier */
+  private isName(ahead = 0): boolean {
+    const token = this.peek(ahead);
+    return token.type === 'quoted' || (token.type === 'word' && !KEYWORDS.has(token.value as string));
+  }
+
+  private parseName(description: string): string {
+    if (!this.isName()) this.unexpected(description);
+    const token = this.advance();
+    return token.type === 'quoted' ? (token.value as string) : token.text;
+  }
+
+  private parseCount(clause: string): number {
+    const token = this.peek();
+    if (token.type !== 'number' || !Number.isInteger(token.value) || (token.value as number) < 0) {
+      this.unexpected(`a whole number after ${clause}`);
+    }
+    this.advance();
+    return token.value as number;
+  }
+
+  private parseSelectList(): SelectItem[] {
+    const items: SelectItem[] = [];
+    do {
+      if (this.acceptOperator('*')) {
+        items.push({ kind: 'star', source: null });
+      } else if (this.isName() && this.isOperator('.', 1) && this.isOperator('*', 2)) {
+        const source = this.parseName('a source name');
+        this.advance();
+        this.advance();
+        items.push({ kind: 'star', source });
+      } else {
+        const start = this.peek().offset;
+        const expression = this.parseExpression();
+        const end = this.previous().offset + this.previous().text.length;
+        let name = expression.kind === 'column' ? expression.text : this.text.slice(start, end);
+        if (this.acceptKeyword('AS')) name = this.parseName('a column alias');
+        else if (this.isName()) name = this.parseName('a column alias');
+        items.push({ kind: 'expression', expression, name });
+      }
+    } while (this.acceptOperator(','));
+    return items;
+  }
+
+  private parseSource(): Source {
+    const token = this.peek();
+    if (token.type !== 'path') this.unexpected('a JSONPath such as $.items');
+    this.advance();
+
+    const issue = findJsonPathSyntaxError(token.text);
+    if (issue) this.fail(issue.message, token.offset + issue.offset);
+
+    let alias: string;
+    if (this.acceptKeyword('AS') || this.isName()) {
+      alias = this.parseName('an alias');
+    } else {
+      // The last member name, so `FROM $.orders` can be referred to as `orders`
+      const names = token.text.match(/[A-Za-z_][A-Za-z0-9_]*/g);
+      alias = names?.[names.length - 1] ?? 'root';
+    }
+    return { query: parseJsonPath(token.text), alias };
+  }
+
+  /** An expression in a clause that runs before grouping, so it cannot aggregate */
+  private parseScalarExpression(clause: string): Expression {
+    const offset = this.peek().offset;
+    const expression = this.parseExpression();
+    if (containsAggregate(expression)) this.fail(`Aggregate functions cannot be used in ${clause}`, offset);
+    return expression;
+  }
+
+  private parseExpression(): Expression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'binary', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'binary', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.acceptKeyword('NOT')) return { kind: 'not', operand: this.parseNot() };
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Expression {
+    const operand = this.parseAdditive();
+    const token = this.peek();
+
+    if (token.type === 'operator' && Object.prototype.hasOwnProperty.call(COMPARISONS, token.value as string)) {
+      this.advance();
+      return { kind: 'binary', operator: COMPARISONS[token.value as string] as BinaryOperator, left: operand, right: this.parseAdditive() };
+    }
+    if (this.acceptKeyword('IS')) {
+      const negated = this.acceptKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { kind: 'isNull', operand, negated };
+    }
+
+    const negated = this.isKeyword('NOT') && ['IN', 'LIKE', 'BETWEEN'].some((keyword) => this.isKeyword(keyword, 1));
+    if (negated) this.advance();
+    if (this.acceptKeyword('IN')) {
+      this.expectOperator('(');
+      const list: Expression[] = [];
+      do {
+        list.push(this.parseExpression());
+      } while (this.acceptOperator(','));
+      this.expectOperator(')');
+      return { kind: 'in', operand, list, negated };
+    }
+    if (this.acceptKeyword('LIKE')) {
+      return { kind: 'like', operand, pattern: this.parseAdditive(), negated };
+    }
+    if (this.acceptKeyword('BETWEEN')) {
+      const low = this.parseAdditive();
+      this.expectKeyword('AND');
+      return { kind: 'between', operand, low, high: this.parseAdditive(), negated };
+    }
+    return operand;
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    for (;;) {
+      const operator = ['+', '-', '||'].find((candidate) => this.isOperator(candidate));
+      if (!operator) return left;
+      this.advance();
+      left = { kind: 'binary', operator: operator as BinaryOperator, left, right: this.parseMultiplicative() };
+    }
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary();
+    for (;;) {
+      const operator = ['*', '/', '%'].find((candidate) => this.isOperator(candidate));
+      if (!operator) return left;
+      this.advance();
+      left = { kind: 'binary', operator: operator as BinaryOperator, left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): Expression {
+    if (this.acceptOperator('-')) return { kind: 'negate', operand: this.parseUnary() };
+    if (this.acceptOperator('+')) return this.parseUnary();
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    if (token.type === 'number' || token.type === 'string') {
+      this.advance();
+      return { kind: 'literal', value: token.value as JsonValue };
+    }
+    if (this.acceptKeyword('NULL')) return { kind: 'literal', value: null };
+    if (this.acceptKeyword('TRUE')) return { kind: 'literal', value: true };
+    if (this.acceptKeyword('FALSE')) return { kind: 'literal', value: false };
+    if (this.acceptKeyword('CASE')) return this.parseCase();
+    if (this.acceptOperator('(')) {
+      const inner = this.parseExpression();
+      this.expectOperator(')');
+      return inner;
+    }
+    if (token.type === 'word' && !KEYWORDS.has(token.value as string) && this.isOperator('(', 1)) {
+      return this.parseCall();
+    }
+    if (this.isName()) return this.parseColumn();
+    return this.unexpected('an expression');
+  }
+
+  private parseColumn(): Expression {
+    const start = this.peek().offset;
+    const path: ColumnPath = [this.parseName('a column name')];
+    for (;;) {
+      if (this.isOperator('.') && this.isName(1)) {
+        this.advance();
+        path.push(this.parseName('a column name'));
+      } else if (this.isOperator('[') && this.peek(1).type === 'number' && this.isOperator(']', 2)) {
+        this.advance();
+        const index = this.advance().value;
+        if (typeof index !== 'number' || !Number.isInteger(index)) this.fail('An index must be a whole number', this.previous().offset);
+        path.push(index as number);
+        this.advance();
+      } else {
+        break;
+      }
+    }
+    const end = this.previous().offset + this.previous().text.length;
+    return { kind: 'column', path, text: this.text.slice(start, end) };
+  }
+
+  private parseCall(): Expression {
+    const token = this.advance();
+    const name = token.text.toLowerCase();
+    if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, name)) this.fail(`Unknown function ${token.text}()`, token.offset);
+    this.expectOperator('(');
+
+    const aggregate = AGGREGATES.has(name);
+    const distinct = aggregate && this.acceptKeyword('DISTINCT');
+    const args: Expression[] = [];
+    let star = false;
+    if (name === 'count' && !distinct && this.acceptOperator('*')) {
+      star = true;
+    } else if (!this.isOperator(')')) {
+      do {
+        const offset = this.peek().offset;
+        const arg = this.parseExpression();
+        if (aggregate && containsAggregate(arg)) this.fail('Aggregate functions cannot be nested', offset);
+        args.push(arg);
+      } while (this.acceptOperator(','));
+    }
+    this.expectOperator(')');
+
+    const [min, max] = FUNCTIONS[name as FunctionName];
+    const count = star ? 1 : args.length;
+    if (count < min || count > max) {
+      const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+      this.fail(`${token.text.toUpperCase()}() takes ${expected} argument${expected === '1' ? '' : 's'} but was given ${count}`, token.offset);
+    }
+    return { kind: 'call', name: name as FunctionName, args, distinct, star };
+  }
+
+  private parseCase(): Expression {
+    const operand = this.isKeyword('WHEN') ? null : this.parseExpression();
+    const branches: Array<{ when: Expression; then: Expression }> = [];
+    while (this.acceptKeyword('WHEN')) {
+      const when = this.parseExpression();
+      this.expectKeyword('THEN');
+      branches.push({ when, then: this.parseExpression() });
+    }
+    if (branches.length === 0) this.unexpected("'WHEN'");
+    const otherwise = this.acceptKeyword('ELSE') ? this.parseExpression() : null;
+    this.expectKeyword('END');
+    return { kind: 'case', operand, branches, otherwise };
+  }
+}
+
+/**
+ * Parse a SQL query, throwing a `QUERY_SYNTAX_ERROR` whose details give the
+ * offset and the reason
+ */
+export function compileSql(source: string): SqlQuery {
+  try {
+    return { source, query: new Parser(source).parse() };
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) {
+      throw createError(ErrorCodes.QUERY_SYNTAX_ERROR, `${error.message} at offset ${error.offset}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * The first syntax error in a SQL query, or `null` when it is valid
+ */
+export function findSqlSyntaxError(source: string): SqlSyntaxIssue | null {
+  try {
+    new Parser(source).parse();
+    return null;
+  } catch (error) {
+    if (error instanceof SqlSyntaxError) return { offset: error.offset, message: error.message };
+    throw error;
+  }
+}
+
+const isObject = (value: JsonValue | undefined): value is JsonObject =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value);
+
+const isContainer = (value: JsonValue | undefined) => Array.isArray(value) || isObject(value);
+
+/** One row from each source; `undefined` where a LEFT JOIN found no match */
+type Tuple = Array<JsonValue | undefined>;
+
+interface Scope {
+  aliases: string[];
+  tuple: Tuple;
+  /** The rows of the current group, when aggregating */
+  group: Tuple[] | null;
+}
+
+function walk(value: JsonValue | undefined, path: ColumnPath): JsonValue | undefined {
+  // Arrays of scalars have a single column, named `value` like in the table view
+  if (path.length === 1 && path[0] === 'value' && value !== undefined && !isContainer(value)) return value;
+
+  let current = value;
+  for (const segment of path) {
+    if (typeof segment === 'number' && Array.isArray(current)) {
+      current = current[segment]; // eslint-disable-line security/detect-object-injection
+    } else if (typeof segment === 'string' && isObject(current) && Object.prototype.hasOwnProperty.call(current, segment)) {
+      current = current[segment]; // eslint-disable-line security/detect-object-injection
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/** A column, looked up by source alias first and otherwise in each source in turn */
+function resolveColumn(path: ColumnPath, { aliases, tuple }: Scope): JsonValue {
+  const [first, ...rest] = path;
+  const aliased = rest.length > 0 ? aliases.indexOf(first as string) : -1;
+  if (aliased >= 0) {
+    const value = walk(tuple[aliased], rest); // eslint-disable-line security/detect-object-injection
+    if (value !== undefined) return value;
+  }
+  for (const row of tuple) {
+    const value = walk(row, path);
+    if (value !== undefined) return value;
+  }
+  return null;
+}
+
+function typeName(value: JsonValue): string {
+  if (value === null) return 'null';
+  if (isJsonNumber(value)) return 'number';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function toText(value: JsonValue): string {
+  if (typeof value === 'string') return value;
+  if (isJsonNumber(value)) return formatNumber(value);
+  return stringifyJSON(value, 0);
+}
+
+const TYPE_ORDER = ['null', 'boolean', 'number', 'string', 'array', 'object'];
+
+/** Total order for sorting, MIN and MAX: NULL first, then by type, then by value */
+function compareValues(a: JsonValue, b: JsonValue): number {
+  const typeA = typeName(a);
+  const typeB = typeName(b);
+  if (typeA !== typeB) return TYPE_ORDER.indexOf(typeA) - TYPE_ORDER.indexOf(typeB);
+  if (isJsonNumber(a) && isJsonNumber(b)) return toNumber(a) - toNumber(b);
+  if (typeof a === 'string' && typeof b === 'string') return compareCodePoints(a, b);
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return compareCodePoints(stringifyJSON(a, 0), stringifyJSON(b, 0));
+}
+
+/** SQL truth: NULL is unknown, numbers are true when non-zero */
+function truth(value: JsonValue): boolean | null {
+  if (value === null) return null;
+  if (typeof value === 'boolean') return value;
+  if (isJsonNumber(value)) return toNumber(value) !== 0;
+  if (typeof value === 'string') return value !== '';
+  return true;
+}
+
+function compare(operator: BinaryOperator, left: JsonValue, right: JsonValue): JsonValue {
+  if (left === null || right === null) return null;
+  if (operator === '=' || operator === '!=') {
+    const equal = isJsonNumber(left) && isJsonNumber(right) ? toNumber(left) === toNumber(right) : jsonEquals(left, right);
+    return operator === '=' ? equal : !equal;
+  }
+  // Values of different types are not ordered
+  if (typeName(left) !== typeName(right) || isContainer(left)) return null;
+  const order = compareValues(left, right);
+  switch (operator) {
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+    case '>': return order > 0;
+    default: return order >= 0;
+  }
+}
+
+function arithmetic(operator: BinaryOperator, left: JsonValue, right: JsonValue): JsonValue {
+  if (left === null || right === null) return null;
+  if (operator === '||') return toText(left) + toText(right);
+  if (!isJsonNumber(left) || !isJsonNumber(right)) {
+    throw new SqlEvaluationError(`Cannot apply '${operator}' to ${typeName(left)} and ${typeName(right)}`);
+  }
+  const a = toNumber(left);
+  const b = toNumber(right);
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    // Division by zero is NULL, as in SQLite
+    case '/': return b === 0 ? null : a / b;
+    default: return b === 0 ? null : a % b;
+  }
+}
+
+const likeCache = new Map<string, RegExp>();
+
+function likePattern(pattern: string): RegExp {
+  let regex = likeCache.get(pattern);
+  if (!regex) {
+    const source = Array.from(pattern, (char) => (char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))).join('');
+    regex = new RegExp(`^${source}$`, 'isu'); // eslint-disable-line security/detect-non-literal-regexp
+    likeCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+function and(left: boolean | null, right: boolean | null): boolean | null {
+  if (left === false || right === false) return false;
+  return left === null || right === null ? null : true;
+}
+
+function or(left: boolean | null, right: boolean | null): boolean | null {
+  if (left === true || right === true) return true;
+  return left === null || right === null ? null : false;
+}
+
+const negate = (value: boolean | null, negated: boolean) => (negated && value !== null ? !value : value);
+
+function evaluate(expression: Expression, scope: Scope): JsonValue {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'column':
+      return resolveColumn(expression.path, scope);
+    case 'negate': {
+      const value = evaluate(expression.operand, scope);
+      if (value === null) return null;
+      if (!isJsonNumber(value)) throw new SqlEvaluationError(`Cannot negate ${typeName(value)}`);
+      return -toNumber(value);
+    }
+    case 'not': {
+      const value = truth(evaluate(expression.operand, scope));
+      return value === null ? null : !value;
+    }
+    case 'binary': {
+      const { operator } = expression;
+      if (operator === 'and' || operator === 'or') {
+        const left = truth(evaluate(expression.left, scope));
+        // Short-circuit where the right side cannot change the result
+        if ((operator === 'and' && left === false) || (operator === 'or' && left === true)) return left;
+        const right = truth(evaluate(expression.right, scope));
+        return operator === 'and' ? and(left, right) : or(left, right);
+      }
+      const left = evaluate(expression.left, scope);
+      const right = evaluate(expression.right, scope);
+      return operator in COMPARISON_RESULTS ? compare(operator, left, right) : arithmetic(operator, left, right);
+    }
+    case 'like': {
+      const value = evaluate(expression.operand, scope);
+      const pattern = evaluate(expression.pattern, scope);
+      if (value === null || pattern === null) return null;
+      return negate(likePattern(toText(pattern)).test(toText(value)), expression.negated);
+    }
+    case 'in': {
+      const value = evaluate(expression.operand, scope);
+      if (value === null) return null;
+      let result: boolean | null = false;
+      for (const item of expression.list) {
+        result = or(result, truth(compare('=', value, evaluate(item, scope))));
+        if (result) break;
+      }
+      return negate(result, expression.negated);
+    }
+    case 'between': {
+      const value = evaluate(expression.operand, scope);
+      const inRange = and(
+        truth(compare('>=', value, evaluate(expression.low, scope))),
+        truth(compare('<=', value, evaluate(expression.high, scope)))
+      );
+      return negate(inRange, expression.negated);
+    }
+    case 'isNull':
+      return (evaluate(expression.operand, scope) === null) !== expression.negated;
+    case 'call':
+      return AGGREGATES.has(expression.name) ? aggregate(expression, scope) : callFunction(expression.name, expression.args.map((arg) => evaluate(arg, scope)));
+    case 'case': {
+      const operand = expression.operand === null ? null : evaluate(expression.operand, scope);
+      for (const { when, then } of expression.branches) {
+        const matched = expression.operand === null
+          ? truth(evaluate(when, scope))
+          : truth(compare('=', operand, evaluate(when, scope)));
+        if (matched) return evaluate(then, scope);
+      }
+      return expression.otherwise === null ? null : evaluate(expression.otherwise, scope);
+    }
+  }
+}
+
+/** Comparison operators, as opposed to arithmetic ones */
+const COMPARISON_RESULTS: Partial<Record<BinaryOperator, true>> = { '=': true, '!=': true, '<': true, '<=': true, '>': true, '>=': true };
+
+function aggregate(call: Extract<Expression, { kind: 'call' }>, scope: Scope): JsonValue {
+  if (!scope.group) throw new SqlEvaluationError(`${call.name.toUpperCase()}() can only be used in SELECT, HAVING or ORDER BY`);
+  if (call.star) return scope.group.length;
+
+  let values = scope.group
+    .map((tuple) => evaluate(call.args[0] as Expression, { ...scope, tuple, group: null }))
+    .filter((value) => value !== null);
+  if (call.distinct) {
+    const seen = new Set<string>();
+    values = values.filter((value) => {
+      const key = isJsonNumber(value) ? String(toNumber(value)) : stringifyJSON(value, 0);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  switch (call.name) {
+    case 'count':
+      return values.length;
+    case 'min':
+    case 'max': {
+      if (values.length === 0) return null;
+      const sign = call.name === 'max' ? 1 : -1;
+      return values.reduce((best, value) => (sign * compareValues(value, best) > 0 ? value : best));
+    }
+    default: {
+      if (values.length === 0) return null;
+      const bad = values.find((value) => !isJsonNumber(value));
+      if (bad !== undefined) throw new SqlEvaluationError(`${call.name.toUpperCase()}() needs numbers, but got ${typeName(bad)}`);
+      const sum = values.reduce<number>((total, value) => total + toNumber(value as number), 0);
+      return call.name === 'avg' ? sum / values.length : sum;
+    }
+  }
+}
+
+function callFunction(name: FunctionName, args: JsonValue[]): JsonValue {
+  const [first = null, second = null] = args;
+  if (name === 'coalesce') return args.find((arg) => arg !== null) ?? null;
+  if (first === null) return null;
+
+  switch (name) {
+    case 'lower': return toText(first).toLowerCase();
+    case 'upper': return toText(first).toUpperCase();
+    case 'trim': return toText(first).trim();
+    case 'length':
+      if (Array.isArray(first)) return first.length;
+      if (isObject(first)) return Object.keys(first).length;
+      return Array.from(toText(first)).length;
+    case 'abs':
+    case 'round': {
+      if (!isJsonNumber(first)) throw new SqlEvaluationError(`${name.toUpperCase()}() needs a number, but got ${typeName(first)}`);
+      if (name === 'abs') return Math.abs(toNumber(first));
+      const places = second === null ? 0 : isJsonNumber(second) ? toNumber(second) : 0;
+      const factor = 10 ** places;
+      return Math.round(toNumber(first) * factor) / factor;
+    }
+    default:
+      return null;
+  }
+}
+
+/** The rows of a source: the elements of the array it selects, or each node it selects */
+function sourceRows(data: JsonValue, source: Source): JsonValue[] {
+  const nodes = queryJsonPath(data, source.query);
+  const [only] = nodes;
+  if (nodes.length === 1 && only && Array.isArray(only.value)) return only.value;
+  return nodes.map((node) => node.value);
+}
+
+/** The source a column refers to by alias, or -1 */
+function columnSource(expression: Expression, aliases: string[]): number {
+  if (expression.kind !== 'column' || expression.path.length < 2) return -1;
+  return aliases.indexOf(expression.path[0] as string);
+}
+
+function join(data: JsonValue, tuples: Tuple[], aliases: string[], { source, type, on }: Join): Tuple[] {
+  const rows = sourceRows(data, source);
+  const joined = [...aliases, source.alias];
+  const index = aliases.length;
+  const output: Tuple[] = [];
+
+  // Equality between a column of this source and an earlier one can use a hash lookup
+  let probe: ((tuple: Tuple) => JsonValue[]) | null = null;
+  if (on.kind === 'binary' && on.operator === '=') {
+    const sides = [on.left, on.right];
+    const mine = sides.find((side) => columnSource(side, joined) === index);
+    const theirs = sides.find((side) => side !== mine && columnSource(side, joined) >= 0 && columnSource(side, joined) < index);
+    if (mine && theirs) {
+      const keyOf = (value: JsonValue) => (isJsonNumber(value) ? `n:${toNumber(value)}` : stringifyJSON(value, 0));
+      const buckets = new Map<string, JsonValue[]>();
+      rows.forEach((row) => {
+        const tuple: Tuple = [];
+        tuple[index] = row; // eslint-disable-line security/detect-object-injection
+        const key = evaluate(mine, { aliases: joined, tuple, group: null });
+        if (key === null) return;
+        buckets.set(keyOf(key), [...(buckets.get(keyOf(key)) ?? []), row]);
+      });
+      probe = (tuple) => {
+        const key = evaluate(theirs, { aliases: joined, tuple, group: null });
+        return key === null ? [] : buckets.get(keyOf(key)) ?? [];
+      };
+    }
+  }
+
+  for (const tuple of tuples) {
+    const candidates = probe ? probe(tuple) : rows;
+    let matched = false;
+    for (const row of candidates) {
+      const combined = [...tuple, row];
+      if (truth(evaluate(on, { aliases: joined, tuple: combined, group: null }))) {
+        output.push(combined);
+        matched = true;
+      }
+    }
+    if (!matched && type === 'left') output.push([...tuple, undefined]);
+  }
+  return output;
+}
+
+/** A row's leaf values keyed by their flattened path, as in the table view */
+function flattenRow(row: JsonValue | undefined): Map<string, JsonValue> {
+  const columns = new Map<string, JsonValue>();
+  if (row === undefined) return columns;
+  if (!isContainer(row)) {
+    columns.set('value', row);
+    return columns;
+  }
+  jsonToTableRows(row).forEach((cell) => columns.set(getJsonPath(cell.segments), cell.value as JsonValue));
+  return columns;
+}
+
+interface OutputRow {
+  values: JsonValue[];
+  scope: Scope;
+}
+
+/**
+ * Run a SQL query over `data`, returning the selected rows. Type errors throw
+ * a `QUERY_EVALUATION_ERROR`.
+ */
+export function runSql(data: JsonValue, query: string | SqlQuery): SqlResult {
+  const compiled = typeof query === 'string' ? compileSql(query) : query;
+  try {
+    return execute(data, compiled.query);
+  } catch (error) {
+    if (error instanceof SqlEvaluationError) throw createError(ErrorCodes.QUERY_EVALUATION_ERROR, error.message);
+    throw error;
+  }
+}
+
+function execute(data: JsonValue, query: Query): SqlResult {
+  const aliases = [query.from.alias, ...query.joins.map((item) => item.source.alias)];
+  let tuples: Tuple[] = sourceRows(data, query.from).map((row) => [row]);
+  query.joins.forEach((item, index) => {
+    tuples = join(data, tuples, aliases.slice(0, index + 1), item);
+  });
+
+  if (query.where) {
+    const where = query.where;
+    tuples = tuples.filter((tuple) => truth(evaluate(where, { aliases, tuple, group: null })) === true);
+  }
+
+  const grouped = query.groupBy.length > 0 || query.having !== null
+    || query.select.some((item) => item.kind === 'expression' && containsAggregate(item.expression));
+
+  let scopes: Scope[];
+  if (grouped) {
+    const groups = new Map<string, Tuple[]>();
+    if (query.groupBy.length === 0) groups.set('', tuples);
+    tuples.forEach((tuple) => {
+      if (query.groupBy.length === 0) return;
+      const key = stringifyJSON(query.groupBy.map((expression) => evaluate(expression, { aliases, tuple, group: null })), 0);
+      groups.set(key, [...(groups.get(key) ?? []), tuple]);
+    });
+    scopes = Array.from(groups.values(), (group) => ({ aliases, tuple: group[0] ?? [], group }));
+    if (query.having) {
+      const having = query.having;
+      scopes = scopes.filter((scope) => truth(evaluate(having, scope)) === true);
+    }
+  } else {
+    scopes = tuples.map((tuple) => ({ aliases, tuple, group: null }));
+  }
+
+  // Star columns are every flattened path seen in the rows, in first-seen order
+  const flattened = scopes.map((scope) => scope.tuple.map(flattenRow));
+  const columnSets = aliases.map((_alias, source) => {
+    const names = new Set<string>();
+    flattened.forEach((row) => row[source]?.forEach((_value, name) => names.add(name))); // eslint-disable-line security/detect-object-injection
+    return Array.from(names);
+  });
+
+  const columns: Array<{ name: string; value: (scope: Scope, index: number) => JsonValue }> = [];
+  query.select.forEach((item) => {
+    if (item.kind === 'expression') {
+      columns.push({ name: item.name, value: (scope) => evaluate(item.expression, scope) });
+      return;
+    }
+    const sources = item.source === null ? aliases.map((_alias, source) => source) : [aliases.indexOf(item.source)];
+    if (sources[0] === -1) throw new SqlEvaluationError(`There is no source named '${item.source}'`);
+    sources.forEach((source) => {
+      const prefix = item.source === null && aliases.length > 1 ? `${aliases[source]}.` : ''; // eslint-disable-line security/detect-object-injection
+      (columnSets[source] ?? []).forEach((name) => { // eslint-disable-line security/detect-object-injection
+        columns.push({ name: prefix + name, value: (_scope, index) => flattened[index]?.[source]?.get(name) ?? null }); // eslint-disable-line security/detect-object-injection
+      });
+    });
+  });
+
+  // Repeated names get a numeric suffix so every column can be told apart
+  const names: string[] = [];
+  columns.forEach(({ name }) => {
+    let unique = name;
+    for (let suffix = 2; names.includes(unique); suffix++) unique = `${name}_${suffix}`;
+    names.push(unique);
+  });
+
+  let output: OutputRow[] = scopes.map((scope, index) => ({ values: columns.map((column) => column.value(scope, index)), scope }));
+
+  if (query.distinct) {
+    const seen = new Set<string>();
+    output = output.filter((row) => {
+      const key = stringifyJSON(row.values, 0);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  if (query.orderBy.length > 0) {
+    const keyOf = (row: OutputRow, expression: Expression): JsonValue => {
+      // ORDER BY 2 sorts by the second column; a bare name may be a column alias
+      if (expression.kind === 'literal' && isJsonNumber(expression.value)) return row.values[toNumber(expression.value) - 1] ?? null;
+      if (expression.kind === 'column' && expression.path.length === 1) {
+        const index = names.indexOf(expression.path[0] as string);
+        if (index >= 0) return row.values[index] ?? null; // eslint-disable-line security/detect-object-injection
+      }
+      return evaluate(expression, row.scope);
+    };
+    const keyed = output.map((row) => ({ row, keys: query.orderBy.map(({ expression }) => keyOf(row, expression)) }));
+    keyed.sort((a, b) => {
+      for (const [index, { descending }] of query.orderBy.entries()) {
+        const order = compareValues(a.keys[index] ?? null, b.keys[index] ?? null); // eslint-disable-line security/detect-object-injection
+        if (order !== 0) return descending ? -order : order;
+      }
+      return 0;
+    });
+    output = keyed.map(({ row }) => row);
+  }
+
+  output = output.slice(query.offset, query.limit === null ? undefined : query.offset + query.limit);
+
+  return {
+    columns: names,
+    rows: output.map(({ values }) => Object.fromEntries(names.map((name, index) => [name, values[index] ?? null]))), // eslint-disable-line security/detect-object-injection
+  };
+}
@@ -0,0 +1,623 @@
+import { DuplicateKey, DuplicateKeyPolicy, JsonObject, JsonValue } from '../types/json.types';
+
+import { createError, ErrorCodes } from './error-handler';
+import { parseNumberText, setMember } from './lossless-number';
+
+/**
+ * Incremental JSON parser for documents that arrive in chunks.
+ *
+ * Text is fed with `write()` as it is read (e.g. from `File.stream()`), and
+ * `end()` returns the parsed value. Progress is exposed as the number of
+ * UTF-8 bytes consumed so far, and the parser can optionally record the byte
+ * range of every top-level array element or object member so that entries
+ * can later be read on demand with `readIndexedEntry`. Keys repeated within
+ * an object are reported with their position and resolved according to the
+ * `duplicateKeyPolicy` option. With `trackPositions`, the source range of
+ * every key and value is recorded as well.
+ */
+
+export type JsonIndexValueType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+/**
+ * Byte range of one top-level entry in the source document
+ */
+export interface JsonIndexEntry {
+  /** Array index or object key */
+  key: string | number;
+  /** Byte offset of the first character of the value */
+  start: number;
+  /** Byte offset just past the last character of the value */
+  end: number;
+  type: JsonIndexValueType;
+}
+
+export interface JsonIndex {
+  rootType: JsonIndexValueType;
+  entries: JsonIndexEntry[];
+}
+
+/**
+ * 1-based line and column (in UTF-16 code units, as editors count them)
+ */
+export interface SourcePoint {
+  line: number;
+  column: number;
+}
+
+/**
+ * Range of source text; `end` points just past the last character
+ */
+export interface SourceRange {
+  start: SourcePoint;
+  end: SourcePoint;
+}
+
+/**
+ * Where a node sits in the source text
+ */
+export interface SourcePosition {
+  /** Node path in `TreeNode.path` form */
+  path: string[];
+  /** Range of the quoted key, for object members */
+  key?: SourceRange;
+  value: SourceRange;
+}
+
+export interface StreamingParserOptions {
+  /** Record the byte range of each top-level entry */
+  buildIndex?: boolean;
+  /**
+   * Build the parsed value. Disable together with `buildIndex` to scan a
+   * document for its index without keeping its contents in memory.
+   */
+  materialize?: boolean;
+  /** Keep numbers that do not round-trip through a double as `LosslessNumber`s */
+  losslessNumbers?: boolean;
+  /** Which value a repeated key keeps (default `last-wins`, like `JSON.parse`) */
+  duplicateKeyPolicy?: DuplicateKeyPolicy;
+  /** Record the source range of every key and value */
+  trackPositions?: boolean;
+}
+
+export interface StreamingParseResult {
+  /** Parsed document, or `null` when `materialize` is disabled */
+  data: JsonValue;
+  index: JsonIndex | null;
+  /** Repeated keys, in source order (only tracked when materializing) */
+  duplicateKeys: DuplicateKey[];
+  /** Source ranges in document order, when `trackPositions` is enabled */
+  positions: SourcePosition[];
+}
+
+// Parser states
+const VALUE = 0;
+const VALUE_OR_END = 1;
+const KEY = 2;
+const KEY_OR_END = 3;
+const COLON = 4;
+const AFTER_VALUE = 5;
+const STRING = 6;
+const NUMBER = 7;
+const LITERAL = 8;
+const DONE = 9;
+
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const LITERALS: Record<string, boolean | null> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+interface Frame {
+  kind: 'object' | 'array';
+  value: JsonObject | JsonValue[] | null;
+  key: string;
+  count: number;
+  /** Tree path of this container */
+  path: string[];
+  start: SourcePoint;
+  /** Range of the current key */
+  keyStart: SourcePoint;
+  keyEnd: SourcePoint;
+  /** First values of keys that have been repeated */
+  firstValues: Map<string, JsonValue> | null;
+}
+
+/** Bytes used by a UTF-16 code unit when encoded as UTF-8 (surrogate halves count 2 each) */
+function utf8Length(code: number): number {
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code >= 0xd800 && code <= 0xdfff) return 2;
+  return 3;
+}
+
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
+
+function isNumberChar(code: number): boolean {
+  return (code >= 0x30 && code <= 0x39) || code === 0x2d || code === 0x2b || code === 0x2e || code === 0x65 || code === 0x45;
+}
+
+export class StreamingJsonParser {
+  private readonly buildIndex: boolean;
+  private readonly materialize: boolean;
+  private readonly losslessNumbers: boolean;
+  private readonly duplicateKeyPolicy: DuplicateKeyPolicy;
+  private readonly trackPositions: boolean;
+
+  private state = VALUE;
+  private stack: Frame[] = [];
+  private root: JsonValue = null;
+  private rootType: JsonIndexValueType | null = null;
+  private entries: JsonIndexEntry[] = [];
+  private duplicateKeys: DuplicateKey[] = [];
+  private positions: SourcePosition[] = [];
+  /** Start of the scalar value being read */
+  private valueStart: SourcePoint = { line: 1, column: 1 };
+
+  private buffer = '';
+  private stringIsKey = false;
+  private captureString = false;
+  /** 0 = none, 1 = after backslash, 2-5 = reading \uXXXX digits */
+  private escape = 0;
+  private unicode = '';
+
+  private entryStart = 0;
+  private entryType: JsonIndexValueType = 'null';
+
+  private bytes = 0;
+  private line = 1;
+  private column = 1;
+
+  constructor(options: StreamingParserOptions = {}) {
+    this.buildIndex = options.buildIndex ?? false;
+    this.materialize = options.materialize ?? true;
+    this.losslessNumbers = options.losslessNumbers ?? false;
+    this.duplicateKeyPolicy = options.duplicateKeyPolicy ?? 'last-wins';
+    this.trackPositions = options.trackPositions ?? false;
+  }
+
+  /** Number of UTF-8 bytes consumed so far */
+  get bytesParsed(): number {
+    return this.bytes;
+  }
+
+  write(chunk: string): void {
+    const length = chunk.length;
+    let i = 0;
+
+    while (i < length) {
+      const code = chunk.charCodeAt(i);
+
+      switch (this.state) {
+        case STRING: {
+          if (this.escape !== 0) {
+            this.readEscape(chunk.charAt(i));
+            this.advance(code);
+            i++;
+            break;
+          }
+
+          // Fast path: copy everything up to the next quote or backslash
+          let j = i;
+          let bytes = 0;
+          while (j < length) {
+            const c = chunk.charCodeAt(j);
+            if (c === 0x22 || c === 0x5c) break;
+            if (c < 0x20) {
+              this.column += j - i;
+              throw this.error('Unescaped control character in string');
+            }
+            bytes += utf8Length(c);
+            j++;
+          }
+          if (this.captureString) this.buffer += chunk.slice(i, j);
+          this.bytes += bytes;
+          this.column += j - i;
+          i = j;
+
+          if (i < length) {
+            const c = chunk.charCodeAt(i);
+            this.advance(c);
+            i++;
+            if (c === 0x5c) {
+              this.escape = 1;
+            } else {
+              this.endString();
+            }
+          }
+          break;
+        }
+
+        case NUMBER:
+          if (isNumberChar(code)) {
+            this.buffer += chunk.charAt(i);
+            this.advance(code);
+            i++;
+          } else {
+            this.endNumber();
+          }
+          break;
+
+        case LITERAL:
+          if (code >= 0x61 && code <= 0x7a) {
+            this.buffer += chunk.charAt(i);
+            this.advance(code);
+            i++;
+          } else {
+            this.endLiteral();
+          }
+          break;
+
+        default:
+          this.readStructural(chunk.charAt(i), code);
+          this.advance(code);
+          i++;
+      }
+    }
+  }
+
+  /**
+   * Finish parsing. Throws if the input ended in the middle of a value.
+   */
+  end(): StreamingParseResult {
+    if (this.state === NUMBER) this.endNumber();
+    else if (this.state === LITERAL) this.endLiteral();
+
+    if (this.state !== DONE) {
+      throw this.error(this.bytes === 0 ? 'Empty input' : 'Unexpected end of input');
+    }
+
+    return {
+      data: this.materialize ? this.root : null,
+      index: this.buildIndex && this.rootType ? { rootType: this.rootType, entries: this.entries } : null,
+      duplicateKeys: this.duplicateKeys,
+      positions: this.positions,
+    };
+  }
+
+  private readStructural(char: string, code: number): void {
+    if (isWhitespace(code)) return;
+    if (code === 0xfeff && this.bytes === 0) return;
+
+    switch (this.state) {
+      case VALUE:
+      case VALUE_OR_END:
+        if (char === ']' && this.state === VALUE_OR_END) {
+          this.closeContainer('array');
+        } else {
+          this.beginValue(char);
+        }
+        return;
+
+      case KEY:
+      case KEY_OR_END:
+        if (char === '}' && this.state === KEY_OR_END) {
+          this.closeContainer('object');
+        } else if (char === '"') {
+          this.startString(true);
+        } else {
+          throw this.error(`Expected property name but found '${char}'`);
+        }
+        return;
+
+      case COLON:
+        if (char !== ':') throw this.error(`Expected ':' but found '${char}'`);
+        this.state = VALUE;
+        return;
+
+      case AFTER_VALUE: {
+        const frame = this.stack[this.stack.length - 1];
+        if (!frame) return;
+        if (char === ',') {
+          this.state = frame.kind === 'array' ? VALUE : KEY;
+        } else if (char === ']' || char === '}') {
+          this.closeContainer(char === ']' ? 'array' : 'object');
+        } else {
+          throw this.error(`Expected ',' or '${frame.kind === 'array' ? ']' : '}'}' but found '${char}'`);
+        }
+        return;
+      }
+
+      case DONE:
+        throw this.error(`Unexpected '${char}' after the end of the document`);
+    }
+  }
+
+  private beginValue(char: string): void {
+    const type: JsonIndexValueType | null =
+      char === '{' ? 'object'
+        : char === '[' ? 'array'
+          : char === '"' ? 'string'
+            : char === '-' || (char >= '0' && char <= '9') ? 'number'
+              : char === 't' || char === 'f' ? 'boolean'
+                : char === 'n' ? 'null'
+                  : null;
+
+    if (type === null) {
+      throw this.error(`Unexpected '${char}'`);
+    }
+
+    this.valueStart = this.point();
+    if (this.stack.length === 0) {
+      this.rootType = type;
+    } else if (this.stack.length === 1) {
+      this.entryStart = this.bytes;
+      this.entryType = type;
+    }
+
+    switch (type) {
+      case 'object':
+      case 'array': {
+        const parent = this.stack[this.stack.length - 1];
+        this.stack.push({
+          kind: type,
+          value: this.materialize ? (type === 'object' ? {} : []) : null,
+          key: '',
+          count: 0,
+          path: parent && (this.materialize || this.trackPositions) ? this.childPath(parent) : [],
+          start: this.valueStart,
+          keyStart: this.valueStart,
+          keyEnd: this.valueStart,
+          firstValues: null,
+        });
+        this.state = type === 'object' ? KEY_OR_END : VALUE_OR_END;
+        return;
+      }
+      case 'string':
+        this.startString(false);
+        return;
+      case 'number':
+        this.buffer = char;
+        this.state = NUMBER;
+        return;
+      default:
+        this.buffer = char;
+        this.state = LITERAL;
+    }
+  }
+
+  private startString(isKey: boolean): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (isKey && frame) frame.keyStart = this.point();
+    this.stringIsKey = isKey;
+    this.captureString = this.materialize || (isKey && (this.trackPositions || this.stack.length === 1));
+    this.buffer = '';
+    this.state = STRING;
+  }
+
+  private readEscape(char: string): void {
+    if (this.escape === 1) {
+      if (char === 'u') {
+        this.escape = 2;
+        this.unicode = '';
+        return;
+      }
+      const replacement = ESCAPES[char]; // eslint-disable-line security/detect-object-injection
+      if (replacement === undefined) throw this.error(`Invalid escape sequence '\\${char}'`);
+      if (this.captureString) this.buffer += replacement;
+      this.escape = 0;
+      return;
+    }
+
+    if (!/[0-9a-fA-F]/.test(char)) throw this.error(`Invalid unicode escape '\\u${this.unicode}${char}'`);
+    this.unicode += char;
+    if (this.unicode.length < 4) return;
+    if (this.captureString) this.buffer += String.fromCharCode(parseInt(this.unicode, 16));
+    this.escape = 0;
+  }
+
+  private endString(): void {
+    const value = this.buffer;
+    this.buffer = '';
+
+    if (this.stringIsKey) {
+      const frame = this.stack[this.stack.length - 1];
+      if (frame) {
+        frame.key = value;
+        frame.keyEnd = this.point();
+      }
+      this.state = COLON;
+    } else {
+      this.completeValue(value);
+    }
+  }
+
+  private endNumber(): void {
+    const text = this.buffer;
+    this.buffer = '';
+    let value: JsonValue;
+    try {
+      // The number grammar is strict (no leading zeros, no trailing dot), so defer to JSON.parse
+      value = JSON.parse(text) as number;
+    } catch {
+      throw this.error(`Invalid number '${text}'`);
+    }
+    if (this.losslessNumbers) value = parseNumberText(text);
+    this.completeValue(value);
+  }
+
+  private endLiteral(): void {
+    const text = this.buffer;
+    this.buffer = '';
+    if (!(text in LITERALS)) throw this.error(`Unexpected token '${text}'`);
+    this.completeValue(LITERALS[text] ?? null); // eslint-disable-line security/detect-object-injection
+  }
+
+  private closeContainer(kind: Frame['kind']): void {
+    const frame = this.stack[this.stack.length - 1];
+    if (frame?.kind !== kind) {
+      throw this.error(`Unexpected '${kind === 'array' ? ']' : '}'}'`);
+    }
+    this.stack.pop();
+    // The closing bracket is consumed after this call, so the entry ends one byte later
+    this.valueStart = frame.start;
+    this.completeValue(frame.value, this.bytes + 1, { line: this.line, column: this.column + 1 });
+  }
+
+  private completeValue(value: JsonValue, end = this.bytes, endPoint = this.point()): void {
+    const parent = this.stack[this.stack.length - 1];
+
+    if (this.trackPositions) {
+      const range = { start: this.valueStart, end: endPoint };
+      this.positions.push(parent
+        ? { path: this.childPath(parent), ...(parent.kind === 'object' && { key: { start: parent.keyStart, end: parent.keyEnd } }), value: range }
+        : { path: [], value: range });
+    }
+
+    if (!parent) {
+      this.root = value;
+      this.state = DONE;
+      return;
+    }
+
+    if (parent.value !== null) {
+      if (Array.isArray(parent.value)) parent.value.push(value);
+      else this.addMember(parent, parent.value, value);
+    }
+
+    if (this.buildIndex && this.stack.length === 1) {
+      this.entries.push({
+        key: parent.kind === 'array' ? parent.count : parent.key,
+        start: this.entryStart,
+        end,
+        type: this.entryType,
+      });
+    }
+
+    parent.count++;
+    this.state = AFTER_VALUE;
+  }
+
+  private addMember(frame: Frame, target: JsonObject, value: JsonValue): void {
+    const { key } = frame;
+    if (!Object.prototype.hasOwnProperty.call(target, key)) {
+      setMember(target, key, value);
+      return;
+    }
+
+    frame.firstValues ??= new Map();
+    const repeated = frame.firstValues.has(key);
+    const firstValue = repeated ? frame.firstValues.get(key) ?? null : target[key] ?? null; // eslint-disable-line security/detect-object-injection
+    if (!repeated) frame.firstValues.set(key, firstValue);
+    this.duplicateKeys.push({ path: frame.path, key, line: frame.keyStart.line, column: frame.keyStart.column, firstValue, value });
+
+    if (this.duplicateKeyPolicy === 'last-wins') {
+      setMember(target, key, value);
+    } else if (this.duplicateKeyPolicy === 'keep-all') {
+      const collected = target[key]; // eslint-disable-line security/detect-object-injection
+      if (repeated && Array.isArray(collected)) collected.push(value);
+      else setMember(target, key, [firstValue, value]);
+    }
+  }
+
+  private point(): SourcePoint {
+    return { line: this.line, column: this.column };
+  }
+
+  /** Path of the next value in a container */
+  private childPath(parent: Frame): string[] {
+    return [...parent.path, parent.kind === 'array' ? `[${parent.count}]` : parent.key];
+  }
+
+  private advance(code: number): void {
+    this.bytes += utf8Length(code);
+    if (code === 0x0a) {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+  }
+
+  private error(message: string) {
+    return createError(ErrorCodes.JSON_PARSE_ERROR, `${message} at line ${this.line}, column ${this.column}`);
+  }
+}
+
+/**
+ * Parse a complete string with the streaming parser. Mostly useful for tests
+ * and for callers that want an index of an in-memory document.
+ */
+export function parseJSONIncrementally(
+  text: string,
+  options: StreamingParserOptions = {},
+  chunkSize = 64 * 1024
+): StreamingParseResult {
+  const parser = new StreamingJsonParser(options);
+  for (let offset = 0; offset < text.length; offset += chunkSize) {
+    parser.write(text.slice(offset, offset + chunkSize));
+  }
+  return parser.end();
+}
+
+/**
+ * Read and parse a single indexed entry from the source file
+ */
+export async function readIndexedEntry(
+  source: Blob,
+  entry: JsonIndexEntry,
+  options: Pick<StreamingParserOptions, 'losslessNumbers'> = {}
+): Promise<JsonValue> {
+  const text = await source.slice(entry.start, entry.end).text();
+  return parseEntry(text, options);
+}
+
+function parseEntry(text: string, options: Pick<StreamingParserOptions, 'losslessNumbers'>): JsonValue {
+  return options.losslessNumbers ? parseJSONIncrementally(text, options).data : JSON.parse(text) as JsonValue;
+}
+
+/**
+ * Read as many leading entries of an indexed document as fit in `maxBytes`
+ * and assemble them into an array or object of the document's root type.
+ * Entries that are not valid JSON (NDJSON lines are only checked when read)
+ * are skipped and counted in `invalidEntries`.
+ */
+export async function readIndexedEntries(
+  source: Blob,
+  index: JsonIndex,
+  maxBytes: number,
+  options: Pick<StreamingParserOptions, 'losslessNumbers'> = {}
+): Promise<{ data: JsonValue; loadedEntries: number; invalidEntries: number }> {
+  const { entries } = index;
+  const first = entries[0];
+  let count = 0;
+  while (count < entries.length && (entries[count]?.end ?? 0) - (first?.start ?? 0) <= maxBytes) { // eslint-disable-line security/detect-object-injection
+    count++;
+  }
+
+  const included = entries.slice(0, count);
+  const last = included[included.length - 1];
+  const parsed: Array<{ key: string | number; value: JsonValue }> = [];
+  let invalidEntries = 0;
+  if (first && last) {
+    const bytes = new Uint8Array(await source.slice(first.start, last.end).arrayBuffer());
+    const decoder = new TextDecoder();
+    included.forEach((entry) => {
+      try {
+        parsed.push({ key: entry.key, value: parseEntry(decoder.decode(bytes.subarray(entry.start - first.start, entry.end - first.start)), options) });
+      } catch {
+        invalidEntries++;
+      }
+    });
+  }
+
+  if (index.rootType === 'array') {
+    return { data: parsed.map(({ value }) => value), loadedEntries: count, invalidEntries };
+  }
+
+  const data: JsonObject = {};
+  parsed.forEach(({ key, value }) => setMember(data, String(key), value));
+  return { data, loadedEntries: count, invalidEntries };
+}
@@ -1,10 +1,17 @@
 import axios, { AxiosRequestConfig, AxiosError } from 'axios';
 import { z } from 'zod';
 
-import { JsonValue } from '../types/json.types';
+import { CsvImportOptions, DocumentFormat, DuplicateKeyPolicy, JsonValue, XmlMapping, YamlAnchor } from '../types/json.types';
 
+import { FILE_LIMITS } from './app-constants';
+import { decodeResponseBody } from './compression';
+import { getCsvDelimiterFromFileName, isCsvContentType, isCsvFileName, parseCSV } from './csv';
+import { JsonHeroError } from './error-handler';
 import { sanitizeJSONData } from './file-processor';
 import { parseJSON } from './json-parser';
+import { RepairedText } from './json-repair';
+import { isXmlContentType, isXmlFileName, parseXML } from './xml';
+import { isYamlContentType, isYamlFileName, parseYAML } from './yaml';
 
 export interface URLFetchOptions {
   url: string;
@@ -18,6 +25,14 @@ export interface URLFetchOptions {
   password?: string;
   retryAttempts?: number;
   retryDelay?: number;
+  /** Keep numbers that would lose precision as `LosslessNumber`s */
+  losslessNumbers?: boolean;
+  /** Which value a repeated key keeps */
+  duplicateKeyPolicy?: DuplicateKeyPolicy;
+  /** How elements of an XML response map to JSON */
+  xmlMapping?: Partial<XmlMapping>;
+  /** Delimiter, header and type detection for a CSV response */
+  csvImport?: Partial<CsvImportOptions>;
 }
 
 export interface URLFetchResult {
@@ -25,6 +40,14 @@ export interface URLFetchResult {
   data?: JsonValue;
   error?: string;
   warnings?: string[];
+  /** Format the response was read as, when it was not plain JSON */
+  format?: DocumentFormat;
+  /** Anchored nodes of a YAML response and where they are reused */
+  anchors?: YamlAnchor[];
+  /** Column names of a CSV response */
+  columns?: string[];
+  /** Set when the response only parsed after auto-recovery; review the repairs before loading */
+  repaired?: RepairedText;
   metadata?: {
     responseTime: number;
     statusCode: number;
@@ -52,6 +75,21 @@ const urlFetchSchema = z.object({
   password: z.string().optional(),
   retryAttempts: z.number().min(0).max(3).optional().default(1),
   retryDelay: z.number().min(100).max(5000).optional().default(1000),
+  losslessNumbers: z.boolean().optional().default(false),
+  duplicateKeyPolicy: z.enum(['first-wins', 'last-wins', 'keep-all']).optional().default('last-wins'),
+  xmlMapping: z.object({
+    attributePrefix: z.string(),
+    textKey: z.string(),
+    alwaysArray: z.array(z.string()),
+    namespaces: z.enum(['keep', 'strip']),
+  }).partial().optional(),
+  csvImport: z.object({
+    delimiter: z.enum(['auto', ',', '\t', ';', '|']),
+    header: z.enum(['auto', 'yes', 'no']),
+    inferTypes: z.boolean(),
+    inferDates: z.boolean(),
+    unflatten: z.boolean(),
+  }).partial().optional(),
 });
 
 // Build authentication headers based on auth type
@@ -191,7 +229,7 @@ export async function fetchJSON(options: URLFetchOptions): Promise<URLFetchResul
       headers,
       validateStatus: (status) => status < 500, // Don't throw on 4xx errors
       maxRedirects: 5,
-      responseType: 'text', // Get raw text to handle various encodings
+      responseType: 'arraybuffer', // Raw bytes, decoded below so compressed bodies can be inflated
     };
     
     let response: any;
@@ -237,7 +275,7 @@ export async function fetchJSON(options: URLFetchOptions): Promise<URLFetchResul
           responseTime: performance.now() - startTime,
           statusCode: response.status,
           headers: response.headers,
-          size: response.data?.length || 0,
+          size: response.data?.byteLength || 0,
           usedCorsProxy,
         },
       };
@@ -245,11 +283,78 @@ export async function fetchJSON(options: URLFetchOptions): Promise<URLFetchResul
     
     // Parse response data
     let jsonData: JsonValue;
-    const responseData = response.data;
+    let sourceFormat: Pick<URLFetchResult, 'format' | 'anchors' | 'columns' | 'repaired'> = {};
+    const contentType: string = response.headers?.['content-type'] || '';
+    let responseData: string;
+    try {
+      const body = await decodeResponseBody(response.data, contentType, response.headers?.['content-encoding'] || '', FILE_LIMITS.MAX_FILE_SIZE);
+      if (body.decompressed.length > 0) warnings.push(`Decompressed ${body.decompressed.join(' + ')} response body`);
+      responseData = body.text;
+    } catch (error) {
+      return {
+        success: false,
+        error: `Decompression error: ${error instanceof JsonHeroError && error.details ? error.details : 'invalid compressed response'}`,
+        warnings,
+      };
+    }
     
-    if (typeof responseData === 'string') {
+    if (typeof responseData === 'string' && (isYamlContentType(contentType) || isYamlFileName(new URL(validatedOptions.url).pathname))) {
+      let result: ReturnType<typeof parseYAML>;
+      try {
+        result = parseYAML(responseData, { losslessNumbers: validatedOptions.losslessNumbers });
+      } catch (error) {
+        return {
+          success: false,
+          error: `YAML parse error: ${error instanceof JsonHeroError && error.details ? error.details : 'invalid YAML in response'}`,
+          warnings,
+        };
+      }
+      const { data, documentCount, anchors, warnings: yamlWarnings } = result;
+      if (documentCount > 1) warnings.push(`Response has ${documentCount} YAML documents, loaded as an array`);
+      warnings.push(...yamlWarnings.map((warning) => `YAML line ${warning.line}: ${warning.message}`));
+      jsonData = data;
+      sourceFormat = { format: 'yaml', anchors };
+    } else if (typeof responseData === 'string' && (isXmlContentType(contentType) || isXmlFileName(new URL(validatedOptions.url).pathname))) {
+      try {
+        jsonData = parseXML(responseData, {
+          mapping: validatedOptions.xmlMapping,
+          losslessNumbers: validatedOptions.losslessNumbers,
+        }).data;
+      } catch (error) {
+        return {
+          success: false,
+          error: `XML parse error: ${error instanceof JsonHeroError && error.details ? error.details : 'invalid XML in response'}`,
+          warnings,
+        };
+      }
+      sourceFormat = { format: 'xml' };
+    } else if (typeof responseData === 'string' && (isCsvContentType(contentType) || isCsvFileName(new URL(validatedOptions.url).pathname))) {
+      const { csvImport } = validatedOptions;
+      let result: ReturnType<typeof parseCSV>;
+      try {
+        result = parseCSV(responseData, {
+          ...csvImport,
+          delimiter: csvImport?.delimiter && csvImport.delimiter !== 'auto'
+            ? csvImport.delimiter
+            : getCsvDelimiterFromFileName(new URL(validatedOptions.url).pathname),
+          losslessNumbers: validatedOptions.losslessNumbers,
+        });
+      } catch (error) {
+        return {
+          success: false,
+          error: `CSV parse error: ${error instanceof JsonHeroError && error.details ? error.details : 'invalid CSV in response'}`,
+          warnings,
+        };
+      }
+      warnings.push(...result.warnings.map((warning) => `CSV line ${warning.line}: ${warning.message}`));
+      jsonData = result.data;
+      sourceFormat = { format: 'csv', columns: result.columns };
+    } else {
       // Parse string response
-      const parseResult = parseJSON(responseData);
+      const parseResult = parseJSON(responseData, {
+        losslessNumbers: validatedOptions.losslessNumbers,
+        duplicateKeyPolicy: validatedOptions.duplicateKeyPolicy,
+      });
       if (!parseResult.isValid) {
         return {
           success: false,
@@ -258,9 +363,9 @@ export async function fetchJSON(options: URLFetchOptions): Promise<URLFetchResul
         };
       }
       jsonData = parseResult.data!;
-    } else {
-      // Response is already parsed (axios sometimes does this)
-      jsonData = responseData;
+      if (parseResult.repairs.length > 0) {
+        sourceFormat = { repaired: { original: responseData, repairs: parseResult.repairs } };
+      }
     }
     
     // Sanitize data for security
@@ -279,6 +384,7 @@ export async function fetchJSON(options: URLFetchOptions): Promise<URLFetchResul
       success: true,
       data: sanitizedData,
       warnings: warnings.length > 0 ? warnings : [],
+      ...sourceFormat,
       metadata,
     };
   } catch (error) {
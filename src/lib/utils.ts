@@ -34,6 +34,20 @@ export function debounce<T extends (...args: any[]) => any>(
   };
 }
 
+/**
+ * Compare strings by Unicode code point rather than by UTF-16 code unit, so
+ * characters outside the Basic Multilingual Plane sort after all others
+ */
+export function compareCodePoints(a: string, b: string): number {
+  const left = Array.from(a);
+  const right = Array.from(b);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const difference = (left[i]?.codePointAt(0) ?? 0) - (right[i]?.codePointAt(0) ?? 0); // eslint-disable-line security/detect-object-injection
+    if (difference !== 0) return difference;
+  }
+  return left.length - right.length;
+}
+
 export function truncate(str: string, length: number): string {
   if (str.length <= length) return str;
   return str.substring(0, length) + '...';
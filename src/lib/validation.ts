@@ -1,12 +1,14 @@
 import { z } from 'zod';
 import { VALIDATION, ERROR_MESSAGES, FILE_LIMITS } from './app-constants';
 
-export const fileUploadSchema = z.object({
+const createFileUploadSchema = (maxSize: number) => z.object({
   name: z.string(),
-  size: z.number().max(50 * 1024 * 1024, 'File size must be less than 50MB'),
+  size: z.number().max(maxSize, `File size must be less than ${Math.round(maxSize / (1024 * 1024))}MB`),
   type: z.string().optional(),
 });
 
+export const fileUploadSchema = createFileUploadSchema(FILE_LIMITS.MAX_FILE_SIZE);
+
 export const urlFetchSchema = z.object({
   url: z.string().url('Invalid URL'),
   headers: z.record(z.string(), z.string()).optional(),
@@ -20,13 +22,14 @@ export const exportOptionsSchema = z.object({
   prettify: z.boolean().optional().default(true),
 });
 
-export function validateFile(file: File): {
+export function validateFile(file: File, maxSize: number = FILE_LIMITS.MAX_FILE_SIZE): {
   isValid: boolean;
   error?: string;
 } {
   try {
     // Basic schema validation
-    fileUploadSchema.parse({
+    const schema = maxSize === FILE_LIMITS.MAX_FILE_SIZE ? fileUploadSchema : createFileUploadSchema(maxSize);
+    schema.parse({
       name: file.name,
       size: file.size,
       type: file.type,
@@ -34,12 +37,32 @@ export function validateFile(file: File): {
     
     // Enhanced file validation
     const extension = file.name.toLowerCase().split('.').pop();
-    const validExtensions = ['json', 'geojson', 'txt', 'jsonl', 'ndjson'];
+    const validExtensions = ['json', 'geojson', 'txt', 'jsonl', 'ndjson', 'jsonc', 'json5', 'hjson', 'yaml', 'yml', 'xml', 'rss', 'atom', 'csv', 'tsv', 'tab', 'msgpack', 'mpk', 'cbor', 'bson', 'gz', 'gzip', 'zz', 'br', 'zip'];
     const validMimeTypes = [
       'application/json',
       'application/geo+json',
       'text/plain',
       'application/x-ndjson',
+      'application/yaml',
+      'application/x-yaml',
+      'text/yaml',
+      'text/x-yaml',
+      'application/xml',
+      'text/xml',
+      'text/csv',
+      'application/csv',
+      'text/tab-separated-values',
+      'application/vnd.ms-excel', // What Windows reports for .csv files
+      'application/msgpack',
+      'application/x-msgpack',
+      'application/vnd.msgpack',
+      'application/cbor',
+      'application/bson',
+      'application/octet-stream',
+      'application/gzip',
+      'application/x-gzip',
+      'application/zip',
+      'application/x-zip-compressed',
       '', // Some systems don't set MIME type
     ];
     
@@ -127,8 +150,8 @@ export const validateFileSize = (file: File): { isValid: boolean; error?: string
 };
 
 export const validateFileType = (file: File): { isValid: boolean; error?: string } => {
-  const validTypes = ['application/json', 'text/json', 'text/plain'];
-  const validExtensions = ['.json', '.txt'];
+  const validTypes = ['application/json', 'text/json', 'text/plain', 'application/gzip', 'application/x-gzip', 'application/zip', 'application/x-zip-compressed'];
+  const validExtensions = ['.json', '.txt', '.gz', '.gzip', '.zz', '.br', '.zip'];
   
   const hasValidType = validTypes.includes(file.type);
   const hasValidExtension = validExtensions.some(ext => 
@@ -138,7 +161,7 @@ export const validateFileType = (file: File): { isValid: boolean; error?: string
   if (!hasValidType && !hasValidExtension) {
     return { 
       isValid: false, 
-      error: 'Invalid file type. Please upload a JSON file.' 
+      error: 'Invalid file type. Please upload a JSON file or a compressed JSON file.' 
     };
   }
   
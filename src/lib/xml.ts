@@ -0,0 +1,392 @@
+import { JsonObject, JsonValue, XmlMapping } from '../types/json.types';
+
+import { createError, ErrorCodes } from './error-handler';
+import { isLosslessNumber, parseNumberText, setMember } from './lossless-number';
+
+/**
+ * XML input and output with a configurable element mapping:
+ *
+ * - attributes become keys with the attribute prefix (`@id`)
+ * - an element with only text becomes that text; with attributes or
+ *   children, its text goes under the text key (`#text`)
+ * - repeated child elements become arrays, and so do the elements listed in
+ *   `alwaysArray` even when they occur once
+ * - `xsi:nil="true"` elements become `null`
+ * - text that reads back exactly as a number or boolean is converted
+ *
+ * `stringifyXML` applies the same mapping in reverse, so a document read
+ * with `parseXML` is written back with the same elements and attributes.
+ */
+
+export const DEFAULT_XML_MAPPING: XmlMapping = {
+  attributePrefix: '@',
+  textKey: '#text',
+  alwaysArray: [],
+  namespaces: 'keep',
+};
+
+export interface XmlParseOptions {
+  mapping?: Partial<XmlMapping>;
+  /** Keep numbers that would lose precision as `LosslessNumber`s */
+  losslessNumbers?: boolean;
+}
+
+export interface XmlStringifyOptions {
+  mapping?: Partial<XmlMapping>;
+  /** Element name used when the data has no single top-level key to use */
+  rootName?: string;
+  /** Spaces per level, or 0 to write everything on one line */
+  indent?: number;
+}
+
+interface XmlElement {
+  name: string;
+  attributes: Array<[string, string]>;
+  children: Array<XmlElement | string>;
+}
+
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+const XML_CONTENT_TYPES = ['application/xml', 'text/xml', 'application/rss+xml', 'application/atom+xml', 'application/soap+xml'];
+
+const NAME = /[A-Za-z_:\u00C0-\uFFFF][\w.:\u00B7\u00C0-\uFFFF-]*/y;
+const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/; // eslint-disable-line security/detect-unsafe-regex
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Reads the element tree of a document. Only the predefined and numeric
+ * character references are expanded; a DOCTYPE is skipped, so external and
+ * internal entities are never resolved.
+ */
+class XmlReader {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  read(): XmlElement {
+    if (this.text.charCodeAt(0) === 0xfeff) this.pos = 1;
+    this.skipMisc();
+    if (this.text.startsWith('<!DOCTYPE', this.pos)) {
+      this.skipDoctype();
+      this.skipMisc();
+    }
+    if (this.text.charAt(this.pos) !== '<') throw this.error('Expected a root element');
+
+    const root = this.readElement();
+    this.skipMisc();
+    if (this.pos < this.text.length) throw this.error('Unexpected content after the root element');
+    return root;
+  }
+
+  /** Skip whitespace, comments and processing instructions */
+  private skipMisc(): void {
+    for (;;) {
+      while (/\s/.test(this.text.charAt(this.pos))) this.pos++;
+      if (this.text.startsWith('<!--', this.pos)) this.skipPast('-->');
+      else if (this.text.startsWith('<?', this.pos)) this.skipPast('?>');
+      else return;
+    }
+  }
+
+  private skipPast(terminator: string): void {
+    const end = this.text.indexOf(terminator, this.pos);
+    if (end === -1) throw this.error(`Missing ${terminator}`);
+    this.pos = end + terminator.length;
+  }
+
+  private skipDoctype(): void {
+    let depth = 0;
+    for (; this.pos < this.text.length; this.pos++) {
+      const char = this.text.charAt(this.pos);
+      if (char === '[') depth++;
+      else if (char === ']') depth--;
+      else if (char === '>' && depth === 0) {
+        this.pos++;
+        return;
+      }
+    }
+    throw this.error('Unterminated DOCTYPE');
+  }
+
+  private readName(): string {
+    NAME.lastIndex = this.pos;
+    const match = NAME.exec(this.text);
+    if (!match) throw this.error('Expected a name');
+    this.pos = NAME.lastIndex;
+    return match[0];
+  }
+
+  private readElement(): XmlElement {
+    this.pos++; // <
+    const element: XmlElement = { name: this.readName(), attributes: [], children: [] };
+
+    for (;;) {
+      const hadSpace = this.skipSpace();
+      if (this.text.startsWith('/>', this.pos)) {
+        this.pos += 2;
+        return element;
+      }
+      if (this.text.charAt(this.pos) === '>') {
+        this.pos++;
+        break;
+      }
+      if (!hadSpace) throw this.error('Expected whitespace between attributes');
+
+      const name = this.readName();
+      this.skipSpace();
+      if (this.text.charAt(this.pos) !== '=') throw this.error(`Expected = after attribute ${name}`);
+      this.pos++;
+      this.skipSpace();
+      const quote = this.text.charAt(this.pos);
+      if (quote !== '"' && quote !== "'") throw this.error(`Expected a quoted value for attribute ${name}`);
+      const end = this.text.indexOf(quote, this.pos + 1);
+      if (end === -1) throw this.error(`Unterminated value for attribute ${name}`);
+      if (element.attributes.some(([existing]) => existing === name)) throw this.error(`Duplicate attribute ${name}`);
+      element.attributes.push([name, this.decode(this.text.slice(this.pos + 1, end))]);
+      this.pos = end + 1;
+    }
+
+    this.readContent(element);
+    return element;
+  }
+
+  private readContent(element: XmlElement): void {
+    for (;;) {
+      if (this.pos >= this.text.length) throw this.error(`Missing </${element.name}>`);
+
+      if (this.text.startsWith('</', this.pos)) {
+        this.pos += 2;
+        const name = this.readName();
+        if (name !== element.name) throw this.error(`Expected </${element.name}> but found </${name}>`);
+        this.skipSpace();
+        if (this.text.charAt(this.pos) !== '>') throw this.error('Expected >');
+        this.pos++;
+        return;
+      }
+
+      if (this.text.startsWith('<![CDATA[', this.pos)) {
+        const end = this.text.indexOf(']]>', this.pos);
+        if (end === -1) throw this.error('Unterminated CDATA section');
+        element.children.push(this.text.slice(this.pos + 9, end));
+        this.pos = end + 3;
+      } else if (this.text.startsWith('<!--', this.pos)) {
+        this.skipPast('-->');
+      } else if (this.text.startsWith('<?', this.pos)) {
+        this.skipPast('?>');
+      } else if (this.text.charAt(this.pos) === '<') {
+        element.children.push(this.readElement());
+      } else {
+        const end = this.text.indexOf('<', this.pos);
+        const stop = end === -1 ? this.text.length : end;
+        element.children.push(this.decode(this.text.slice(this.pos, stop)));
+        this.pos = stop;
+      }
+    }
+  }
+
+  private skipSpace(): boolean {
+    const start = this.pos;
+    while (/\s/.test(this.text.charAt(this.pos))) this.pos++;
+    return this.pos > start;
+  }
+
+  private decode(raw: string): string {
+    return raw.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);?/g, (match, entity: string) => {
+      if (!match.endsWith(';')) throw this.error(`Unterminated reference ${match}`);
+      if (entity.startsWith('#')) {
+        const code = entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+        if (code > 0x10ffff) throw this.error(`Invalid character reference ${match}`);
+        return String.fromCodePoint(code);
+      }
+      if (!Object.prototype.hasOwnProperty.call(ENTITIES, entity)) throw this.error(`Unknown entity ${match}`);
+      return ENTITIES[entity] ?? ''; // eslint-disable-line security/detect-object-injection
+    });
+  }
+
+  private error(message: string) {
+    const before = this.text.slice(0, this.pos);
+    const line = before.split('\n').length;
+    const column = this.pos - before.lastIndexOf('\n');
+    return createError(ErrorCodes.JSON_PARSE_ERROR, `${message} at line ${line}, column ${column}`);
+  }
+}
+
+function resolveMapping(mapping: Partial<XmlMapping> = {}): XmlMapping {
+  return { ...DEFAULT_XML_MAPPING, ...mapping };
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+/**
+ * Read an XML document as `{ [rootElementName]: value }`.
+ *
+ * @example
+ * ```ts
+ * parseXML('<book id="7"><title>Dune</title><tag>a</tag><tag>b</tag></book>').data;
+ * // { book: { '@id': 7, title: 'Dune', tag: ['a', 'b'] } }
+ * ```
+ */
+export function parseXML(text: string, options: XmlParseOptions = {}): { data: JsonObject; rootName: string } {
+  const mapping = resolveMapping(options.mapping);
+  const strip = mapping.namespaces === 'strip';
+  const alwaysArray = new Set(mapping.alwaysArray);
+  const mapName = (name: string) => (strip ? localName(name) : name);
+
+  const convertText = (text: string): JsonValue => {
+    if (text === 'true' || text === 'false') return text === 'true';
+    if (!JSON_NUMBER.test(text)) return text;
+    const number = parseNumberText(text);
+    // Text that would not be written back the same way stays a string
+    return isLosslessNumber(number) && !options.losslessNumbers ? text : number;
+  };
+
+  const convert = (element: XmlElement): JsonValue => {
+    const nil = element.attributes.some(([name, value]) => localName(name) === 'nil' && name.includes(':') && value === 'true');
+    const attributes = element.attributes.filter(([name]) => {
+      if (nil && localName(name) === 'nil' && name.includes(':')) return false;
+      return !strip || (name !== 'xmlns' && !name.startsWith('xmlns:'));
+    });
+    const children = element.children.filter((child): child is XmlElement => typeof child !== 'string');
+    const text = element.children.filter((child): child is string => typeof child === 'string').join('');
+
+    if (nil && children.length === 0 && !text.trim()) return null;
+    if (attributes.length === 0 && children.length === 0) return convertText(text);
+
+    const result: JsonObject = {};
+    attributes.forEach(([name, value]) => setMember(result, `${mapping.attributePrefix}${mapName(name)}`, convertText(value)));
+
+    children.forEach((child) => {
+      const name = mapName(child.name);
+      const value = convert(child);
+      const existing = Object.prototype.hasOwnProperty.call(result, name) ? result[name] : undefined; // eslint-disable-line security/detect-object-injection
+      if (Array.isArray(existing)) existing.push(value);
+      else if (existing !== undefined) setMember(result, name, [existing, value]);
+      else setMember(result, name, alwaysArray.has(name) ? [value] : value);
+    });
+
+    // Whitespace between child elements is layout, not content
+    const content = children.length > 0 ? text.trim() : text;
+    if (content) setMember(result, mapping.textKey, convertText(content));
+    return result;
+  };
+
+  const root = new XmlReader(text).read();
+  const rootName = mapName(root.name);
+  const data: JsonObject = {};
+  setMember(data, rootName, convert(root));
+  return { data, rootName };
+}
+
+function escapeXml(text: string, attribute = false): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
+
+/** A valid element or attribute name for a JSON key */
+function toXmlName(key: string): string {
+  const name = key.replace(/[^\w.:\u00B7\u00C0-\uFFFF-]/g, '_');
+  return /^[A-Za-z_:\u00C0-\uFFFF]/.test(name) ? name : `_${name}`;
+}
+
+function formatScalar(value: JsonValue): string {
+  if (isLosslessNumber(value)) return value.value;
+  return value === null ? '' : String(value);
+}
+
+function containsNull(value: JsonValue): boolean {
+  if (value === null) return true;
+  if (typeof value !== 'object' || isLosslessNumber(value)) return false;
+  return (Array.isArray(value) ? value : Object.values(value)).some(containsNull);
+}
+
+/**
+ * Write data as an XML document with the mapping `parseXML` reads. An
+ * object with a single element key becomes the root element; anything else
+ * is wrapped in `rootName`.
+ */
+export function stringifyXML(data: JsonValue, options: XmlStringifyOptions = {}): string {
+  const mapping = resolveMapping(options.mapping);
+  const { rootName = 'root', indent = 2 } = options;
+  const newline = indent > 0 ? '\n' : '';
+  const pad = (depth: number) => ' '.repeat(indent * depth);
+  const isAttribute = (key: string) => mapping.attributePrefix !== '' && key.startsWith(mapping.attributePrefix);
+
+  const isObject = (value: JsonValue): value is JsonObject =>
+    value !== null && typeof value === 'object' && !Array.isArray(value) && !isLosslessNumber(value);
+
+  const writeElement = (name: string, value: JsonValue, depth: number, rootAttributes = ''): string => {
+    const tag = toXmlName(name);
+    const open = `${pad(depth)}<${tag}${rootAttributes}`;
+
+    if (value === null) return `${open} xsi:nil="true"/>`;
+    if (!isObject(value) && !Array.isArray(value)) {
+      const text = formatScalar(value);
+      return text === '' ? `${open}/>` : `${open}>${escapeXml(text)}</${tag}>`;
+    }
+    // A nested array has no element name of its own, so its items become <item>s
+    if (Array.isArray(value)) return writeElement(name, { item: value }, depth, rootAttributes);
+
+    let attributes = '';
+    let text = '';
+    const children: string[] = [];
+    Object.entries(value).forEach(([key, child]) => {
+      if (key === mapping.textKey) {
+        text = escapeXml(formatScalar(child));
+      } else if (isAttribute(key)) {
+        attributes += ` ${toXmlName(key.slice(mapping.attributePrefix.length))}="${escapeXml(formatScalar(child), true)}"`;
+      } else if (Array.isArray(child)) {
+        child.forEach((item) => children.push(writeElement(key, item, depth + 1)));
+      } else {
+        children.push(writeElement(key, child, depth + 1));
+      }
+    });
+
+    if (children.length === 0) return text === '' ? `${open}${attributes}/>` : `${open}${attributes}>${text}</${tag}>`;
+    return `${open}${attributes}>${text}${newline}${children.join(newline)}${newline}${pad(depth)}</${tag}>`;
+  };
+
+  // The key of a single-element object (what parseXML returns) names the root element
+  const [onlyKey, ...otherKeys] = isObject(data) ? Object.keys(data) : [];
+  const rootEntry = isObject(data) && onlyKey !== undefined && otherKeys.length === 0
+    && !isAttribute(onlyKey) && onlyKey !== mapping.textKey && !Array.isArray(data[onlyKey]) // eslint-disable-line security/detect-object-injection
+    ? [onlyKey, data[onlyKey] ?? null] as const // eslint-disable-line security/detect-object-injection
+    : null;
+  const [name, value] = rootEntry ?? [rootName, data];
+
+  // xsi:nil needs its namespace declared, unless the document already does
+  const declared = isObject(value) && Object.prototype.hasOwnProperty.call(value, `${mapping.attributePrefix}xmlns:xsi`);
+  const rootAttributes = containsNull(value) && !declared ? ` xmlns:xsi="${XSI_NAMESPACE}"` : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${writeElement(name, value, 0, rootAttributes)}\n`;
+}
+
+/**
+ * Whether an HTTP content type is an XML media type
+ */
+export function isXmlContentType(contentType: string): boolean {
+  const mediaType = contentType.split(';')[0]?.trim().toLowerCase() ?? '';
+  return XML_CONTENT_TYPES.includes(mediaType);
+}
+
+/**
+ * Whether a file name has an XML extension
+ */
+export function isXmlFileName(fileName: string): boolean {
+  return /\.(?:xml|rss|atom)$/i.test(fileName);
+}
+
+/**
+ * Quick check for pasted text that is XML: it starts with a declaration or
+ * an element
+ */
+export function looksLikeXML(text: string): boolean {
+  return /^\s*<(?:\?xml|!--|!DOCTYPE|[A-Za-z_])/.test(text.replace(/^\uFEFF/, ''));
+}
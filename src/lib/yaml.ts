@@ -0,0 +1,276 @@
+import {
+  Alias,
+  isAlias,
+  isMap,
+  isScalar,
+  isSeq,
+  LineCounter,
+  Node,
+  parseAllDocuments,
+  ScalarTag,
+  stringify,
+  YAMLMap,
+} from 'yaml';
+
+import { JsonObject, JsonValue, YamlAnchor } from '../types/json.types';
+
+import { createError, ErrorCodes } from './error-handler';
+import { isLosslessNumber, parseNumberText, setMember } from './lossless-number';
+
+/**
+ * YAML input and output, built on the `yaml` package (YAML 1.2, core schema).
+ *
+ * Documents are converted to JSON values here rather than with the package's
+ * `toJS`, so that anchors and aliases can be traced to the tree paths they
+ * end up at, and big numbers can keep their source text.
+ */
+
+export interface YamlParseOptions {
+  /** Keep numbers that would lose precision as `LosslessNumber`s */
+  losslessNumbers?: boolean;
+}
+
+/**
+ * Something in the document that was loaded, but not exactly as written
+ */
+export interface YamlWarning {
+  message: string;
+  /** 1-based position in the source */
+  line: number;
+  column: number;
+}
+
+export interface YamlParseResult {
+  /** The document, or an array of documents for a multi-document stream */
+  data: JsonValue;
+  documentCount: number;
+  /** Anchored nodes and the paths where aliases reuse them */
+  anchors: YamlAnchor[];
+  warnings: YamlWarning[];
+}
+
+/** Tags of the core schema, which map directly to JSON values */
+const CORE_TAGS = new Set(['str', 'int', 'float', 'bool', 'null', 'map', 'seq'].map((name) => `tag:yaml.org,2002:${name}`));
+
+const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/; // eslint-disable-line security/detect-unsafe-regex
+
+/**
+ * Nodes an alias may expand to, on top of the nodes in the source, before the
+ * document is rejected (guards against "billion laughs" documents)
+ */
+const MAX_ALIAS_EXPANSION = 100_000;
+
+const YAML_CONTENT_TYPES = ['application/yaml', 'application/x-yaml', 'text/yaml', 'text/x-yaml'];
+
+type Document = ReturnType<typeof parseAllDocuments>[number];
+
+class YamlConverter {
+  private readonly anchors = new Map<Node, YamlAnchor>();
+  private readonly warnings: YamlWarning[] = [];
+  /** Aliases being expanded, innermost last */
+  private readonly expanding: Node[] = [];
+  private expandedNodes = 0;
+  private doc: Document | null = null;
+
+  constructor(
+    private readonly lineCounter: LineCounter,
+    private readonly options: YamlParseOptions
+  ) {}
+
+  convert(doc: Document, path: string[]): JsonValue {
+    this.doc = doc;
+    return this.convertNode(doc.contents, path);
+  }
+
+  warn(message: string, offset: number): void {
+    const { line, col } = this.lineCounter.linePos(offset);
+    this.warnings.push({ message, line, column: col });
+  }
+
+  result(data: JsonValue, documentCount: number): YamlParseResult {
+    return { data, documentCount, anchors: [...this.anchors.values()], warnings: this.warnings };
+  }
+
+  private convertNode(node: Node | null | undefined, path: string[]): JsonValue {
+    if (!node) return null;
+
+    if (this.expanding.length > 0 && ++this.expandedNodes > MAX_ALIAS_EXPANSION) {
+      throw createError(ErrorCodes.JSON_INVALID_STRUCTURE, `Aliases expand to more than ${MAX_ALIAS_EXPANSION} nodes`);
+    }
+
+    if (isAlias(node)) return this.convertAlias(node, path);
+
+    // Definitions inside an expanded alias are copies, not the anchored node itself
+    if (node.anchor && this.expanding.length === 0) {
+      this.anchors.set(node, { name: node.anchor, path, aliases: [] });
+    }
+    if (node.tag && !CORE_TAGS.has(node.tag)) {
+      this.warn(`Unsupported tag ${node.tag} ignored`, node.range?.[0] ?? 0);
+    }
+
+    if (isMap(node)) return this.convertMap(node, path);
+    if (isSeq(node)) return node.items.map((item, index) => this.convertNode(item as Node, [...path, `[${index}]`]));
+    if (isScalar(node)) return this.convertScalar(node.value, node.source);
+    return null;
+  }
+
+  private convertAlias(alias: Alias, path: string[]): JsonValue {
+    const target = this.doc ? alias.resolve(this.doc) : undefined;
+    if (!target) {
+      throw createError(ErrorCodes.JSON_PARSE_ERROR, `Unknown alias *${alias.source} at ${this.describe(alias)}`);
+    }
+    if (this.expanding.includes(target)) {
+      throw createError(ErrorCodes.JSON_CIRCULAR_REFERENCE, `Alias *${alias.source} refers to itself at ${this.describe(alias)}`);
+    }
+
+    if (this.expanding.length === 0) this.anchors.get(target)?.aliases.push(path);
+    this.expanding.push(target);
+    try {
+      return this.convertNode(target, path);
+    } finally {
+      this.expanding.pop();
+    }
+  }
+
+  private convertMap(map: YAMLMap, path: string[]): JsonObject {
+    const result: JsonObject = {};
+    const explicit = new Set<string>();
+
+    map.items.forEach(({ key, value }) => {
+      // `<<` merge keys add the members of other maps, without overriding keys set explicitly
+      if (isScalar(key) && typeof key.value === 'symbol') {
+        this.merge(result, explicit, value as Node, path);
+        return;
+      }
+
+      const name = this.convertKey(key as Node | null);
+      explicit.add(name);
+      setMember(result, name, this.convertNode(value as Node, [...path, name]));
+    });
+    return result;
+  }
+
+  private merge(target: JsonObject, explicit: Set<string>, source: Node, path: string[]): void {
+    const added = new Set<string>();
+    // Earlier maps in a merge list take precedence over later ones
+    (isSeq(source) ? source.items as Node[] : [source]).forEach((item) => {
+      const value = this.convertNode(item, path);
+      if (value === null || typeof value !== 'object' || Array.isArray(value) || isLosslessNumber(value)) {
+        throw createError(ErrorCodes.JSON_PARSE_ERROR, `Merge key value must be a map at ${this.describe(item)}`);
+      }
+      Object.entries(value).forEach(([key, member]) => {
+        if (explicit.has(key) || added.has(key)) return;
+        added.add(key);
+        setMember(target, key, member);
+      });
+    });
+  }
+
+  private convertKey(key: Node | null): string {
+    if (!key) return '';
+    if (isScalar(key)) return key.value === null ? '' : String(key.value);
+
+    this.warn('Complex key converted to a JSON string', key.range?.[0] ?? 0);
+    return JSON.stringify(this.convertNode(key, []));
+  }
+
+  private convertScalar(value: unknown, source: string | undefined): JsonValue {
+    if (typeof value === 'number') {
+      return this.options.losslessNumbers && source !== undefined && JSON_NUMBER.test(source)
+        ? parseNumberText(source)
+        : value;
+    }
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') return value;
+    return String(value);
+  }
+
+  private describe(node: Node): string {
+    const { line, col } = this.lineCounter.linePos(node.range?.[0] ?? 0);
+    return `line ${line}, column ${col}`;
+  }
+}
+
+/**
+ * Parse a YAML stream. A single document is returned as is; a stream with
+ * several documents (separated by `---`) is returned as an array of them.
+ * Anchored nodes are copied to every alias, and `<<` merge keys are applied.
+ *
+ * @example
+ * ```ts
+ * const { data, anchors } = parseYAML('base: &b {x: 1}\ncopy: *b\n');
+ * // data:    { base: { x: 1 }, copy: { x: 1 } }
+ * // anchors: [{ name: 'b', path: ['base'], aliases: [['copy']] }]
+ * ```
+ */
+export function parseYAML(text: string, options: YamlParseOptions = {}): YamlParseResult {
+  const lineCounter = new LineCounter();
+  const docs = parseAllDocuments(text, { lineCounter, merge: true, prettyErrors: false });
+  if (docs.length === 0) throw createError(ErrorCodes.JSON_PARSE_ERROR, 'Empty input');
+
+  const converter = new YamlConverter(lineCounter, options);
+  docs.forEach((doc) => {
+    const [error] = doc.errors;
+    if (error) {
+      const { line, col } = lineCounter.linePos(error.pos[0]);
+      throw createError(ErrorCodes.JSON_PARSE_ERROR, `${error.message} at line ${line}, column ${col}`);
+    }
+    doc.warnings
+      .filter((warning) => warning.code !== 'TAG_RESOLVE_FAILED')
+      .forEach((warning) => converter.warn(warning.message, warning.pos[0]));
+  });
+
+  const data = docs.length === 1 && docs[0]
+    ? converter.convert(docs[0], [])
+    : docs.map((doc, index) => converter.convert(doc, [`[${index}]`]));
+  return converter.result(data, docs.length);
+}
+
+/** Writes lossless numbers with their original digits */
+const losslessNumberTag: ScalarTag = {
+  identify: isLosslessNumber,
+  default: true,
+  tag: 'tag:yaml.org,2002:float',
+  resolve: (source) => source,
+  stringify: ({ value }) => (value as { value: string }).value,
+};
+
+/**
+ * Write data as a YAML 1.2 document that `parseYAML` reads back unchanged:
+ * strings that would read as another type are quoted, and multi-line
+ * strings use block scalars.
+ */
+export function stringifyYAML(data: JsonValue, indent = 2): string {
+  return stringify(data, {
+    indent,
+    customTags: [losslessNumberTag],
+    aliasDuplicateObjects: false,
+    lineWidth: 0,
+  });
+}
+
+/**
+ * Whether an HTTP content type is a YAML media type
+ */
+export function isYamlContentType(contentType: string): boolean {
+  const mediaType = contentType.split(';')[0]?.trim().toLowerCase() ?? '';
+  return YAML_CONTENT_TYPES.includes(mediaType);
+}
+
+/**
+ * Whether a file name has a YAML extension
+ */
+export function isYamlFileName(fileName: string): boolean {
+  return /\.ya?ml$/i.test(fileName);
+}
+
+/**
+ * Quick check for pasted text that is YAML rather than JSON: a document
+ * marker, or a first line that starts a block mapping or sequence. Almost
+ * any text is a valid YAML scalar, so parsing alone cannot tell.
+ */
+export function looksLikeYAML(text: string): boolean {
+  const firstLine = text.split('\n').map((line) => line.trim()).find((line) => line && !line.startsWith('#'));
+  if (!firstLine) return false;
+  return firstLine === '---' || firstLine.startsWith('--- ') || firstLine.startsWith('%YAML')
+    || /^- /.test(firstLine) || /^[^\s{["'][^:]*:(?:\s|$)/.test(firstLine);
+}
@@ -4,12 +4,15 @@ import { AnimatedCounter } from '@/components/common/AnimatedCounter';
 import { ControlPanel } from '@/components/controls/ControlPanel';
 import { Layout } from '@/components/layout/Layout';
 import { VisualizerContainer } from '@/components/visualizers/VisualizerContainer';
+import { BINARY_FORMAT_LABELS, isBinaryFormat } from '@/lib/binary-formats';
 import { getJSONStats } from '@/lib/json-parser';
 import { formatBytes } from '@/lib/utils';
 import { useJsonStore } from '@/stores/json-store';
+import { useQueryStore } from '@/stores/query-store';
 
 export const MainDashboard: React.FC = () => {
   const { data, parsedData } = useJsonStore();
+  const queryResult = useQueryStore((state) => state.result);
 
   if (!data) {
     // This should not happen if routing is correct, but as a fallback
@@ -25,7 +28,12 @@ export const MainDashboard: React.FC = () => {
 
         <div className="flex-1 flex flex-col lg:flex-row overflow-hidden">
           <div className="flex-1 p-4 min-h-0 overflow-hidden">
-            <VisualizerContainer data={data} />
+            {/* A query console result replaces the document in the views until it is promoted or dismissed */}
+            <VisualizerContainer
+              data={queryResult ? queryResult.data : data}
+              readOnly={queryResult !== null}
+              columns={queryResult?.columns}
+            />
           </div>
 
           <div className="w-full lg:w-64 border-t lg:border-t-0 lg:border-l p-4 overflow-auto">
@@ -39,6 +47,70 @@ export const MainDashboard: React.FC = () => {
                 <span className="text-muted-foreground">Lines:</span>
                 <span>{parsedData?.lineCount ?? 0}</span>
               </div>
+              {parsedData?.format === 'ndjson' && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Format:</span>
+                    <span>NDJSON</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Records:</span>
+                    <AnimatedCounter value={parsedData.recordCount ?? 0} />
+                  </div>
+                  {(parsedData.invalidLineCount ?? 0) > 0 && (
+                    <div className="flex justify-between text-destructive">
+                      <span>Invalid lines:</span>
+                      <span>{parsedData.invalidLineCount}</span>
+                    </div>
+                  )}
+                </>
+              )}
+              {parsedData?.format === 'yaml' && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Format:</span>
+                    <span>YAML</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Documents:</span>
+                    <AnimatedCounter value={parsedData.documentCount ?? 1} />
+                  </div>
+                  {(parsedData.anchors?.length ?? 0) > 0 && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Anchors:</span>
+                      <span>{parsedData.anchors?.length}</span>
+                    </div>
+                  )}
+                </>
+              )}
+              {parsedData?.format === 'csv' && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Format:</span>
+                    <span>CSV</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Rows:</span>
+                    <AnimatedCounter value={parsedData.recordCount ?? 0} />
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Columns:</span>
+                    <span>{parsedData.columns?.length ?? 0}</span>
+                  </div>
+                </>
+              )}
+              {parsedData?.format === 'xml' && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Format:</span>
+                  <span>XML</span>
+                </div>
+              )}
+              {isBinaryFormat(parsedData?.format) && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Format:</span>
+                  <span>{BINARY_FORMAT_LABELS[parsedData.format]}</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Keys:</span>
                 <AnimatedCounter value={stats.totalKeys} />
@@ -1,7 +1,7 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 
-import { JsonValue } from '@/types/json.types';
+import { DocumentFormat, DuplicateKey, JsonValue, NodeComments } from '@/types/json.types';
 
 export interface HistoryEntry {
   id: string;
@@ -11,6 +11,12 @@ export interface HistoryEntry {
   inputMethod: 'file' | 'paste' | 'url';
   fileName?: string;
   description: string;
+  /** Syntax of `rawInput`, so a JSONC, JSON5 or HJSON snapshot is restored as one */
+  format?: DocumentFormat;
+  /** Comments of a dialect document */
+  comments?: NodeComments[];
+  /** Keys repeated in `rawInput` */
+  duplicateKeys?: DuplicateKey[];
 }
 
 interface HistoryStore {
@@ -24,6 +30,8 @@ interface HistoryStore {
   undo: () => HistoryEntry | null;
   redo: () => HistoryEntry | null;
   clearHistory: () => void;
+  /** Swap in the history of another open document */
+  replaceHistory: (entries: HistoryEntry[], currentIndex: number) => void;
   removeEntry: (id: string) => void;
   setMaxEntries: (max: number) => void;
   
@@ -94,6 +102,8 @@ export const useHistoryStore = create<HistoryStore>()(
         entries: [],
         currentIndex: -1,
       }),
+
+      replaceHistory: (entries, currentIndex) => set({ entries, currentIndex }),
       
       removeEntry: (id) => set((state) => {
         const entryIndex = state.entries.findIndex(e => e.id === id);
@@ -2,9 +2,43 @@ import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 
 import { AppError } from '@/lib/error-handler';
+import { RepairedText } from '@/lib/json-repair';
 import { JsonValue, ParsedJson } from '@/types/json.types';
 
-import { useHistoryStore } from './history-store';
+import { HistoryEntry, useHistoryStore } from './history-store';
+
+export interface SetJsonDataOptions {
+  /** Description recorded in the history entry (defaults to the input method) */
+  description?: string;
+  /** Set to false when restoring a snapshot that is already in history */
+  recordHistory?: boolean;
+  /** Extra details about the source document, shown in the statistics panel */
+  parsed?: Pick<ParsedJson, 'format' | 'recordCount' | 'columns' | 'invalidLineCount' | 'duplicateKeys' | 'comments' | 'documentCount' | 'anchors'>;
+}
+
+/**
+ * A document open alongside others, such as one of several files loaded from
+ * a zip archive. The document being shown lives in the store's own fields;
+ * the others are parked here together with their undo history.
+ */
+export interface OpenDocument {
+  id: string;
+  name: string;
+  data: JsonValue | null;
+  rawInput: string;
+  inputMethod: 'file' | 'paste' | 'url' | null;
+  parsedData: ParsedJson | null;
+  history: { entries: HistoryEntry[]; currentIndex: number };
+}
+
+/**
+ * An uploaded file that only parsed after auto-recovery, waiting for its repairs to be reviewed
+ */
+export interface PendingRepair extends RepairedText {
+  fileName: string;
+  /** Open document the file loads into, or null for the shown document */
+  documentId: string | null;
+}
 
 interface JsonStore {
   data: JsonValue | null;
@@ -19,9 +53,14 @@ interface JsonStore {
     inputMethod: string;
     preview: string;
   }>;
+  /** Open documents, empty unless several were opened side by side */
+  documents: OpenDocument[];
+  activeDocumentId: string | null;
+  /** Repairs waiting for review, shown one at a time in upload order */
+  pendingRepairs: PendingRepair[];
 
   // Actions
-  setJsonData: (data: JsonValue, raw: string) => void;
+  setJsonData: (data: JsonValue, raw: string, options?: SetJsonDataOptions) => void;
   setRawInput: (input: string) => void;
   setInputMethod: (method: 'file' | 'paste' | 'url') => void;
   setLoading: (loading: boolean) => void;
@@ -29,6 +68,41 @@ interface JsonStore {
   setStructuredError: (error: AppError | null) => void; // New action for structured errors
   clearData: () => void;
   addToHistory: (method: string, preview: string) => void;
+  /** Keep the shown document open and start an empty one, to be loaded next; returns its id */
+  openDocument: (name: string) => string;
+  switchDocument: (id: string) => void;
+  closeDocument: (id: string) => void;
+  queueRepair: (repair: PendingRepair) => void;
+  /** Remove the repair under review, bringing up the next one */
+  dequeueRepair: () => void;
+}
+
+/** The shown document, as it is parked when another one is shown */
+function parkDocument(state: JsonStore, id: string, name: string): OpenDocument {
+  const { entries, currentIndex } = useHistoryStore.getState();
+  return {
+    id,
+    name,
+    data: state.data,
+    rawInput: state.rawInput,
+    inputMethod: state.inputMethod,
+    parsedData: state.parsedData,
+    history: { entries, currentIndex },
+  };
+}
+
+/** Store fields that show a parked document */
+function showDocument(document: OpenDocument): Partial<JsonStore> {
+  useHistoryStore.getState().replaceHistory(document.history.entries, document.history.currentIndex);
+  return {
+    data: document.data,
+    rawInput: document.rawInput,
+    inputMethod: document.inputMethod,
+    parsedData: document.parsedData,
+    error: null,
+    structuredError: null,
+    activeDocumentId: document.id,
+  };
 }
 
 export const useJsonStore = create<JsonStore>()(
@@ -42,18 +116,24 @@ export const useJsonStore = create<JsonStore>()(
       structuredError: null,
       parsedData: null,
       history: [],
+      documents: [],
+      activeDocumentId: null,
+      pendingRepairs: [],
 
-      setJsonData: (data, raw) => set((state) => {
+      setJsonData: (data, raw, options = {}) => set((state) => {
         // Add to history if this is a new entry (not from history navigation)
-        if (state.inputMethod) {
+        if (state.inputMethod && options.recordHistory !== false) {
           const historyStore = useHistoryStore.getState();
           historyStore.addEntry({
             data,
             rawInput: raw,
             inputMethod: state.inputMethod,
-            description: `${state.inputMethod === 'file' ? 'File uploaded' :
+            description: options.description ?? `${state.inputMethod === 'file' ? 'File uploaded' :
                          state.inputMethod === 'paste' ? 'JSON pasted' :
                          'JSON fetched from URL'}`,
+            format: options.parsed?.format,
+            comments: options.parsed?.comments,
+            duplicateKeys: options.parsed?.duplicateKeys,
           });
         }
 
@@ -68,6 +148,7 @@ export const useJsonStore = create<JsonStore>()(
             size: new Blob([raw]).size,
             lineCount: raw.split('\n').length,
             isValid: true,
+            ...options.parsed,
           }
         };
       }),
@@ -86,6 +167,7 @@ export const useJsonStore = create<JsonStore>()(
         isLoading: false,
       }),
 
+      // Starting over closes every open document
       clearData: () => set({
         data: null,
         rawInput: '',
@@ -93,6 +175,8 @@ export const useJsonStore = create<JsonStore>()(
         structuredError: null,
         parsedData: null,
         isLoading: false,
+        documents: [],
+        activeDocumentId: null,
       }),
 
       addToHistory: (method, preview) => set((state) => ({
@@ -105,6 +189,58 @@ export const useJsonStore = create<JsonStore>()(
           ...state.history.slice(0, 9) // Keep last 10 items
         ]
       })),
+
+      openDocument: (name) => {
+        const id = `document-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        set((state) => {
+          // The document shown before any others were opened is named after its latest history entry
+          const parked = state.activeDocumentId
+            ? state.documents.map((document) => document.id === state.activeDocumentId ? parkDocument(state, document.id, document.name) : document)
+            : state.data !== null
+              ? [parkDocument(state, `${id}-previous`, useHistoryStore.getState().getCurrentEntry()?.description ?? 'Document')]
+              : [];
+          useHistoryStore.getState().clearHistory();
+
+          return {
+            documents: [...parked, { id, name, data: null, rawInput: '', inputMethod: null, parsedData: null, history: { entries: [], currentIndex: -1 } }],
+            activeDocumentId: id,
+            data: null,
+            rawInput: '',
+            parsedData: null,
+            error: null,
+            structuredError: null,
+          };
+        });
+        return id;
+      },
+
+      switchDocument: (id) => set((state) => {
+        const target = state.documents.find((document) => document.id === id);
+        if (!target || id === state.activeDocumentId) return state;
+
+        return {
+          documents: state.documents.map((document) => document.id === state.activeDocumentId ? parkDocument(state, document.id, document.name) : document),
+          ...showDocument(target),
+        };
+      }),
+
+      closeDocument: (id) => set((state) => {
+        const index = state.documents.findIndex((document) => document.id === id);
+        if (index === -1) return state;
+
+        const remaining = state.documents.filter((document) => document.id !== id);
+        // Closing the shown document shows the one before it
+        const next = id === state.activeDocumentId ? remaining[Math.max(0, index - 1)] : undefined;
+        const shown = next ? showDocument(next) : {};
+        // A single document left open is simply the document
+        return remaining.length > 1
+          ? { documents: remaining, ...shown }
+          : { documents: [], ...shown, activeDocumentId: null };
+      }),
+
+      queueRepair: (repair) => set((state) => ({ pendingRepairs: [...state.pendingRepairs, repair] })),
+
+      dequeueRepair: () => set((state) => ({ pendingRepairs: state.pendingRepairs.slice(1) })),
     }),
     {
       name: 'json-store',
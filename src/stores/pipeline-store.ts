@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+
+import { createStep, PipelineOperation, PipelineRecipe, PipelineStep } from '@/lib/pipeline';
+
+interface PipelineStore {
+  /** Name of the recipe being edited */
+  name: string;
+  steps: PipelineStep[];
+  /** Saved recipes, by name */
+  recipes: PipelineRecipe[];
+
+  // Actions
+  setName: (name: string) => void;
+  addStep: (op: PipelineOperation) => void;
+  updateStep: (index: number, step: PipelineStep) => void;
+  removeStep: (index: number) => void;
+  moveStep: (index: number, offset: -1 | 1) => void;
+  clearSteps: () => void;
+  /** Save the steps being edited under their name, replacing a recipe of the same name */
+  saveRecipe: () => void;
+  loadRecipe: (recipe: PipelineRecipe) => void;
+  deleteRecipe: (name: string) => void;
+}
+
+export const usePipelineStore = create<PipelineStore>()(
+  devtools(
+    persist(
+      (set) => ({
+        name: 'Untitled recipe',
+        steps: [],
+        recipes: [],
+
+        setName: (name) => set({ name }),
+
+        addStep: (op) => set((state) => ({ steps: [...state.steps, createStep(op)] })),
+
+        updateStep: (index, step) => set((state) => ({
+          steps: state.steps.map((existing, position) => (position === index ? step : existing)),
+        })),
+
+        removeStep: (index) => set((state) => ({
+          steps: state.steps.filter((_step, position) => position !== index),
+        })),
+
+        moveStep: (index, offset) => set((state) => {
+          const target = index + offset;
+          const step = state.steps[index]; // eslint-disable-line security/detect-object-injection
+          const other = state.steps[target]; // eslint-disable-line security/detect-object-injection
+          if (!step || !other) return {};
+          const steps = [...state.steps];
+          steps[index] = other; // eslint-disable-line security/detect-object-injection
+          steps[target] = step; // eslint-disable-line security/detect-object-injection
+          return { steps };
+        }),
+
+        clearSteps: () => set({ name: 'Untitled recipe', steps: [] }),
+
+        saveRecipe: () => set((state) => {
+          const recipe = { name: state.name.trim(), steps: state.steps };
+          const others = state.recipes.filter((existing) => existing.name !== recipe.name);
+          return { recipes: [...others, recipe].sort((a, b) => a.name.localeCompare(b.name)) };
+        }),
+
+        loadRecipe: (recipe) => set({ name: recipe.name, steps: recipe.steps }),
+
+        deleteRecipe: (name) => set((state) => ({
+          recipes: state.recipes.filter((recipe) => recipe.name !== name),
+        })),
+      }),
+      {
+        name: 'pipeline-recipes',
+      }
+    ),
+    {
+      name: 'pipeline-store',
+    }
+  )
+);
@@ -0,0 +1,83 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+
+import { JsonValue } from '@/types/json.types';
+
+export type QueryLanguage = 'jq' | 'jmespath' | 'sql';
+
+/** The languages the query console can run */
+export type ConsoleLanguage = Extract<QueryLanguage, 'jq' | 'sql'>;
+
+/**
+ * The output of a query, shown read-only in place of the document
+ */
+export interface QueryResult {
+  language: QueryLanguage;
+  /** The query that produced it */
+  query: string;
+  /** The query's only output, or all of its outputs as an array */
+  data: JsonValue;
+  outputCount: number;
+  /** The query produced more outputs than were kept */
+  truncated: boolean;
+  /** Milliseconds the query took to run */
+  duration: number;
+  /** Column names when `data` is an array of records with a fixed set of fields (SQL) */
+  columns?: string[];
+}
+
+interface QueryStore {
+  consoleOpen: boolean;
+  language: ConsoleLanguage;
+  query: string;
+  /** What was typed in each language, restored when switching back to it */
+  drafts: Partial<Record<ConsoleLanguage, string>>;
+  result: QueryResult | null;
+  error: string | null;
+
+  // Actions
+  openConsole: () => void;
+  closeConsole: () => void;
+  setLanguage: (language: ConsoleLanguage) => void;
+  setQuery: (query: string) => void;
+  setResult: (result: QueryResult | null) => void;
+  setError: (error: string | null) => void;
+  dismissResult: () => void;
+}
+
+export const useQueryStore = create<QueryStore>()(
+  devtools(
+    (set) => ({
+      consoleOpen: false,
+      language: 'jq',
+      query: '',
+      drafts: {},
+      result: null,
+      error: null,
+
+      openConsole: () => set({ consoleOpen: true }),
+
+      // The query is kept so reopening the console picks up where it left off
+      closeConsole: () => set({ consoleOpen: false, result: null, error: null }),
+
+      setLanguage: (language) => set((state) => state.language === language ? {} : {
+        language,
+        query: state.drafts[language] ?? '', // eslint-disable-line security/detect-object-injection
+        drafts: { ...state.drafts, [state.language]: state.query },
+        result: null,
+        error: null,
+      }),
+
+      setQuery: (query) => set({ query }),
+
+      setResult: (result) => set({ result, error: null }),
+
+      setError: (error) => set({ error, result: null }),
+
+      dismissResult: () => set({ result: null, error: null }),
+    }),
+    {
+      name: 'query-store',
+    }
+  )
+);
@@ -1,11 +1,24 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 
+import { DEFAULT_CSV_OPTIONS } from '@/lib/csv';
+import { DEFAULT_XML_MAPPING } from '@/lib/xml';
+import { CsvImportOptions, DuplicateKeyPolicy, XmlMapping } from '@/types/json.types';
+
 interface SettingsStore {
   maxFileSize: number; // in bytes
   autoFormat: boolean;
   validateOnPaste: boolean;
+  /** Keep the original text of numbers that would lose precision as JS numbers */
+  losslessNumbers: boolean;
+  /** Which value is kept when an object repeats a key */
+  duplicateKeyPolicy: DuplicateKeyPolicy;
+  /** Keep comments from JSONC, JSON5 and HJSON documents attached to their nodes */
   preserveComments: boolean;
+  /** How XML attributes, text and repeated elements map to JSON, on import and export */
+  xmlMapping: XmlMapping;
+  /** Delimiter, header and type detection for CSV and TSV input */
+  csvImport: CsvImportOptions;
   indentSize: number;
   useSpaces: boolean;
   maxHistoryItems: number;
@@ -21,7 +34,11 @@ const defaultSettings = {
   maxFileSize: 50 * 1024 * 1024, // 50MB
   autoFormat: true,
   validateOnPaste: true,
-  preserveComments: false,
+  losslessNumbers: false,
+  duplicateKeyPolicy: 'last-wins' as DuplicateKeyPolicy,
+  preserveComments: true,
+  xmlMapping: DEFAULT_XML_MAPPING,
+  csvImport: DEFAULT_CSV_OPTIONS,
   indentSize: 2,
   useSpaces: true,
   maxHistoryItems: 10,
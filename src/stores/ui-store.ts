@@ -16,6 +16,10 @@ interface UIStore {
   expandLevel: number;
   showLineNumbers: boolean;
   wordWrap: boolean;
+  /** Node selected in one view, highlighted in the others */
+  selectedPath: string[] | null;
+  /** Incremented whenever a view asks another to reveal `selectedPath` */
+  revealRequest: number;
   
   // Actions
   setActiveView: (view: VisualizationType) => void;
@@ -30,6 +34,9 @@ interface UIStore {
   setExpandLevel: (level: number) => void;
   setShowLineNumbers: (show: boolean) => void;
   setWordWrap: (wrap: boolean) => void;
+  selectNode: (path: string[] | null) => void;
+  /** Select a node and switch to a view that scrolls it into sight */
+  revealNode: (path: string[], view: VisualizationType) => void;
 }
 
 export const useUIStore = create<UIStore>()(
@@ -53,6 +60,8 @@ export const useUIStore = create<UIStore>()(
         expandLevel: 2,
         showLineNumbers: true,
         wordWrap: false,
+        selectedPath: null,
+        revealRequest: 0,
         
         setActiveView: (view) => set({ activeView: view }),
         
@@ -83,6 +92,14 @@ export const useUIStore = create<UIStore>()(
         setShowLineNumbers: (show) => set({ showLineNumbers: show }),
         
         setWordWrap: (wrap) => set({ wordWrap: wrap }),
+
+        selectNode: (path) => set({ selectedPath: path }),
+
+        revealNode: (path, view) => set((state) => ({
+          activeView: view,
+          selectedPath: path,
+          revealRequest: state.revealRequest + 1,
+        })),
       })),
       {
         name: 'ui-settings',
@@ -0,0 +1,90 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+
+import { pointerToTreePath } from '@/lib/data-transformers';
+import { JsonSchemaDefinition, schemaValidator, ValidationError, ValidationResult } from '@/lib/schema-validator';
+import { JsonValue } from '@/types/json.types';
+
+/**
+ * A schema validation error resolved to the tree node it should be shown on
+ */
+export interface SchemaIssue extends ValidationError {
+  /** Path of the closest existing node, in `TreeNode.path` form */
+  nodePath: string[];
+}
+
+interface ValidationStore {
+  /** Schema the current document was last validated against */
+  schema: JsonSchemaDefinition | null;
+  issues: SchemaIssue[];
+  /** Index of the issue selected in the navigator, or -1 */
+  activeIndex: number;
+  /** Node the views should reveal */
+  focusPath: string[] | null;
+  /** Incremented on every navigation so views re-reveal the same node */
+  focusRequest: number;
+
+  // Actions
+  validate: (data: JsonValue, schema: JsonSchemaDefinition) => ValidationResult;
+  revalidate: (data: JsonValue) => void;
+  clearValidation: () => void;
+  goToIssue: (index: number) => void;
+  nextIssue: () => void;
+  previousIssue: () => void;
+}
+
+function toIssues(data: JsonValue, errors: ValidationError[]): SchemaIssue[] {
+  return errors.map((error) => ({ ...error, nodePath: pointerToTreePath(data, error.instancePath) }));
+}
+
+export const useValidationStore = create<ValidationStore>()(
+  devtools(
+    (set, get) => ({
+      schema: null,
+      issues: [],
+      activeIndex: -1,
+      focusPath: null,
+      focusRequest: 0,
+
+      validate: (data, schema) => {
+        const result = schemaValidator.validateAgainstSchema(data, schema);
+        set({ schema, issues: toIssues(data, result.errors), activeIndex: -1, focusPath: null });
+        return result;
+      },
+
+      // Keep results in step with edits to the document
+      revalidate: (data) => {
+        const { schema, activeIndex } = get();
+        if (schema === null) return;
+
+        const { errors } = schemaValidator.validateAgainstSchema(data, schema);
+        set({
+          issues: toIssues(data, errors),
+          activeIndex: Math.min(activeIndex, errors.length - 1),
+        });
+      },
+
+      clearValidation: () => set({ schema: null, issues: [], activeIndex: -1, focusPath: null }),
+
+      goToIssue: (index) => set((state) => {
+        if (state.issues.length === 0) return {};
+        const activeIndex = ((index % state.issues.length) + state.issues.length) % state.issues.length;
+        return {
+          activeIndex,
+          focusPath: state.issues[activeIndex]?.nodePath ?? null, // eslint-disable-line security/detect-object-injection
+          focusRequest: state.focusRequest + 1,
+        };
+      }),
+
+      nextIssue: () => get().goToIssue(get().activeIndex + 1),
+
+      previousIssue: () => {
+        const { activeIndex, issues } = get();
+        get().goToIssue(activeIndex <= 0 ? issues.length - 1 : activeIndex - 1);
+      },
+    }),
+    {
+      name: 'validation-store',
+    }
+  )
+);
@@ -13,6 +13,8 @@ export interface FileUploadResult {
   fileName?: string;
   fileSize?: number;
   warnings?: string[];
+  /** The file is waiting on the user: a zip archive whose entries are to be chosen, or repairs to review */
+  awaitingSelection?: boolean;
   metadata?: {
     originalSize: number;
     processedSize: number;
@@ -3,15 +3,113 @@ export type JsonValue =
   | number 
   | boolean 
   | null 
+  | LosslessNumber
   | JsonObject 
   | JsonArray;
 
+export interface LosslessNumber {
+  readonly isLosslessNumber: true;
+  readonly value: string;
+}
+
 export interface JsonObject {
   [key: string]: JsonValue;
 }
 
 export interface JsonArray extends Array<JsonValue> {}
 
+/**
+ * Relaxed JSON syntaxes that can be read and written with comments intact
+ */
+export type JsonDialect = 'jsonc' | 'json5' | 'hjson';
+
+/**
+ * Binary encodings of JSON-like data, with extra types such as byte strings and dates
+ */
+export type BinaryFormat = 'msgpack' | 'cbor' | 'bson';
+
+export type DocumentFormat = 'json' | 'ndjson' | 'yaml' | 'xml' | 'csv' | JsonDialect | BinaryFormat;
+
+/**
+ * How repeated keys in one object are resolved: keep the first value, keep
+ * the last value (what `JSON.parse` does), or collect every value in an array
+ */
+export type DuplicateKeyPolicy = 'first-wins' | 'last-wins' | 'keep-all';
+
+/**
+ * How XML elements map to JSON, used both when reading and writing XML
+ */
+export interface XmlMapping {
+  /** Prefix of keys that hold attributes, e.g. `@` for `@id` */
+  attributePrefix: string;
+  /** Key that holds the text of an element that also has attributes or children */
+  textKey: string;
+  /** Element names that are always read as arrays, even when they occur once */
+  alwaysArray: string[];
+  /** Keep namespace prefixes (`soap:Body`) or strip them with the `xmlns` attributes */
+  namespaces: 'keep' | 'strip';
+}
+
+export type CsvDelimiter = ',' | '\t' | ';' | '|';
+
+/**
+ * How CSV and TSV text is read into an array of objects
+ */
+export interface CsvImportOptions {
+  /** Field separator, or `auto` to detect it from the first rows */
+  delimiter: CsvDelimiter | 'auto';
+  /** Whether the first row names the columns, or `auto` to detect it */
+  header: 'auto' | 'yes' | 'no';
+  /** Read numbers, booleans and empty cells as JSON numbers, booleans and `null` */
+  inferTypes: boolean;
+  /** Write recognised dates as ISO 8601 strings */
+  inferDates: boolean;
+  /** Turn dotted column names (`address.city`, `tags[0]`) into nested objects and arrays */
+  unflatten: boolean;
+}
+
+/**
+ * A key that appears more than once in the same object
+ */
+export interface DuplicateKey {
+  /** Tree path of the object that holds the key */
+  path: string[];
+  key: string;
+  /** 1-based position of the repeated key in the source */
+  line: number;
+  column: number;
+  /** Value of the first occurrence */
+  firstValue: JsonValue;
+  /** Value of the repeated occurrence */
+  value: JsonValue;
+}
+
+/**
+ * Comments attached to a node, as written in the source (delimiters included)
+ */
+export interface NodeComments {
+  /** Tree path of the node */
+  path: string[];
+  /** Comments on the lines above the node */
+  before?: string[];
+  /** Comments following the node's value on the same line */
+  after?: string[];
+  /** Comments after the last member of an object or array */
+  end?: string[];
+}
+
+/**
+ * A YAML node defined once with an anchor (`&name`) and reused by aliases
+ * (`*name`) or merge keys
+ */
+export interface YamlAnchor {
+  name: string;
+  /** Tree path of the anchored node */
+  path: string[];
+  /** Tree paths that hold a copy of the node */
+  aliases: string[][];
+}
+
 export interface ParsedJson {
   data: JsonValue;
   raw: string;
@@ -19,6 +117,21 @@ export interface ParsedJson {
   lineCount: number;
   isValid: boolean;
   error?: string;
+  format?: DocumentFormat;
+  /** Number of records loaded from a line-oriented or tabular document */
+  recordCount?: number;
+  /** Column names of a CSV or TSV document */
+  columns?: string[];
+  /** Number of lines that failed to parse in a line-oriented document */
+  invalidLineCount?: number;
+  /** Keys repeated within an object, in source order */
+  duplicateKeys?: DuplicateKey[];
+  /** Comments read from a JSONC, JSON5 or HJSON document */
+  comments?: NodeComments[];
+  /** Number of documents in a YAML stream */
+  documentCount?: number;
+  /** Anchored nodes of a YAML document and where they are reused */
+  anchors?: YamlAnchor[];
 }
 
 export interface JsonPath {
@@ -1,4 +1,4 @@
-export type VisualizationType = 'tree' | 'graph' | 'table' | 'raw';
+export type VisualizationType = 'tree' | 'graph' | 'table' | 'raw' | 'diff';
 
 export interface TreeNode {
   id: string;
@@ -29,6 +29,8 @@ export interface GraphEdge {
 export interface TableRow {
   id: string;
   path: string;
+  /** Path in `TreeNode.path` form */
+  segments: string[];
   key: string;
   value: any;
   type: string;
@@ -1,21 +1,145 @@
 /// <reference lib="webworker" />
 
-import { parseJSON } from '@/lib/json-parser';
+import { decodeBinary, isBinaryFormat } from '@/lib/binary-formats';
+import { parseCSV } from '@/lib/csv';
+import { JsonHeroError } from '@/lib/error-handler';
+import { parseDialect } from '@/lib/json-dialects';
+import { tagLosslessNumbers } from '@/lib/lossless-number';
+import { NdjsonStreamParser } from '@/lib/ndjson';
+import { StreamingJsonParser, StreamingParserOptions } from '@/lib/streaming-json-parser';
+import { parseXML } from '@/lib/xml';
+import { parseYAML } from '@/lib/yaml';
+import { CsvImportOptions, DocumentFormat, DuplicateKey, JsonValue, XmlMapping } from '@/types/json.types';
 
-self.addEventListener('message', (event: MessageEvent<string>) => {
-  const { data: jsonString } = event;
+interface ParseRequest extends StreamingParserOptions {
+  file: File;
+  format: DocumentFormat;
+  /** How elements map to JSON (XML only) */
+  xmlMapping?: Partial<XmlMapping>;
+  /** Delimiter, header and type detection (CSV only) */
+  csvImport?: Partial<CsvImportOptions>;
+}
+
+/** Minimum change in progress (0-1) between progress messages */
+const PROGRESS_STEP = 0.01;
+
+async function readFile(file: File, onChunk: (chunk: Uint8Array) => void): Promise<void> {
+  const reader = file.stream().getReader();
+  let result = await reader.read();
+  while (!result.done) {
+    onChunk(result.value);
+    result = await reader.read();
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<ParseRequest>) => {
+  const { file, format, buildIndex = false, materialize = true, losslessNumbers = false, duplicateKeyPolicy, xmlMapping, csvImport } = event.data;
+  const totalBytes = file.size;
+  let reported = 0;
+
+  const reportProgress = (bytesParsed: number) => {
+    const fraction = totalBytes > 0 ? bytesParsed / totalBytes : 1;
+    if (fraction - reported >= PROGRESS_STEP) {
+      reported = fraction;
+      self.postMessage({ type: 'progress', bytesParsed, totalBytes });
+    }
+  };
+
+  // Lossless numbers would lose their prototype in postMessage, so they are sent tagged
+  const postResult = ({ data, duplicateKeys, ...rest }: { data: JsonValue; duplicateKeys?: DuplicateKey[]; [field: string]: unknown }) => {
+    self.postMessage({
+      type: 'result',
+      ...rest,
+      data: losslessNumbers ? tagLosslessNumbers(data) : data,
+      duplicateKeys: losslessNumbers
+        ? duplicateKeys?.map((duplicate) => ({ ...duplicate, firstValue: tagLosslessNumbers(duplicate.firstValue), value: tagLosslessNumbers(duplicate.value) }))
+        : duplicateKeys,
+    });
+  };
 
   try {
-    const result = parseJSON(jsonString);
-    if (result.isValid) {
-      self.postMessage({ success: true, data: result.data });
-    } else {
-      self.postMessage({ success: false, error: result.error });
+    if (format === 'ndjson') {
+      const parser = new NdjsonStreamParser({ buildIndex, materialize, losslessNumbers });
+      await readFile(file, (chunk) => {
+        parser.write(chunk);
+        reportProgress(parser.bytesParsed);
+      });
+
+      const { records, errors, lineCount, index } = parser.end();
+      if (materialize && records.length === 0 && errors.length > 0) {
+        self.postMessage({
+          type: 'error',
+          error: `No valid records found (line ${errors[0]?.line}: ${errors[0]?.message})`,
+        });
+        return;
+      }
+      postResult({ data: materialize ? records : null, format, lineCount, lineErrors: errors, index });
+      return;
     }
+
+    if (isBinaryFormat(format)) {
+      const bytes = new Uint8Array(totalBytes);
+      let bytesRead = 0;
+      await readFile(file, (chunk) => {
+        bytes.set(chunk, bytesRead);
+        bytesRead += chunk.length;
+        reportProgress(bytesRead);
+      });
+
+      const data = decodeBinary(bytes.subarray(0, bytesRead), format, { losslessNumbers });
+      postResult({ data, format });
+      return;
+    }
+
+    if (format !== 'json') {
+      // Dialects, YAML, XML and CSV are parsed in one go; the source is sent back so dialect comments can be shown
+      const decoder = new TextDecoder();
+      let source = '';
+      let bytesRead = 0;
+      await readFile(file, (chunk) => {
+        source += decoder.decode(chunk, { stream: true });
+        bytesRead += chunk.length;
+        reportProgress(bytesRead);
+      });
+      source += decoder.decode();
+
+      if (format === 'yaml') {
+        const { data, documentCount, anchors, warnings } = parseYAML(source, { losslessNumbers });
+        postResult({ data, format, documentCount, anchors, warnings });
+        return;
+      }
+      if (format === 'xml') {
+        const { data } = parseXML(source, { mapping: xmlMapping, losslessNumbers });
+        postResult({ data, format });
+        return;
+      }
+      if (format === 'csv') {
+        const { data, columns, warnings } = parseCSV(source, { ...csvImport, losslessNumbers });
+        postResult({ data, format, columns, warnings });
+        return;
+      }
+
+      const { data, comments, duplicateKeys } = parseDialect(source, format, { losslessNumbers, duplicateKeyPolicy });
+      postResult({ data, format, comments, duplicateKeys, source });
+      return;
+    }
+
+    const parser = new StreamingJsonParser({ buildIndex, materialize, losslessNumbers, duplicateKeyPolicy });
+    const decoder = new TextDecoder();
+    await readFile(file, (chunk) => {
+      parser.write(decoder.decode(chunk, { stream: true }));
+      reportProgress(parser.bytesParsed);
+    });
+    parser.write(decoder.decode());
+
+    const { data, index, duplicateKeys } = parser.end();
+    postResult({ data, format, index, duplicateKeys });
   } catch (error) {
-    self.postMessage({ 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown worker error' 
+    self.postMessage({
+      type: 'error',
+      error: error instanceof JsonHeroError
+        ? error.details || error.message
+        : error instanceof Error ? error.message : 'Unknown worker error',
     });
   }
 });